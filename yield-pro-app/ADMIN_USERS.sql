@@ -0,0 +1,224 @@
+-- ==========================================
+-- ADMINISTRATION DES UTILISATEURS ET DES HOTELS
+-- ==========================================
+-- A executer apres USER_ROLES.sql.
+-- user_profiles.is_active: un compte desactive perd tous ses droits (RLS)
+-- et sa session est fermee a la connexion.
+-- user_invitations: invitation par email avec hotel et role; appliquee a
+-- la creation du profil de l'invite.
+-- admin_audit_log: journal des actions du panel admin, en ajout seul.
+-- Les hotels et leurs concurrents sont edites par le super administrateur;
+-- un admin d'hotel gere la liste des concurrents de ses hotels.
+-- ==========================================
+
+ALTER TABLE public.user_profiles ADD COLUMN IF NOT EXISTS is_active boolean NOT NULL DEFAULT true;
+
+-- Un administrateur desactive n'est plus administrateur
+CREATE OR REPLACE FUNCTION public.check_is_admin()
+RETURNS boolean AS $BODY$
+BEGIN
+  RETURN (
+    SELECT (role = 'admin' AND is_active)
+    FROM public.user_profiles
+    WHERE user_id = auth.uid()
+  );
+END;
+$BODY$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.hotel_role(target_hotel text)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN public.check_is_admin() THEN 'group_admin'
+        WHEN NOT EXISTS (SELECT 1 FROM public.user_profiles WHERE user_id = auth.uid() AND is_active) THEN NULL
+        ELSE COALESCE(
+            (SELECT role FROM public.user_hotels WHERE user_id = auth.uid() AND hotel_id = target_hotel),
+            (SELECT 'revenue_manager' FROM public.user_profiles WHERE user_id = auth.uid() AND hotel_id = target_hotel)
+        )
+    END
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_manage_users()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT public.check_is_admin() OR EXISTS (
+        SELECT 1
+        FROM public.user_hotels uh
+        JOIN public.user_profiles up ON up.user_id = uh.user_id
+        WHERE uh.user_id = auth.uid() AND up.is_active AND public.hotel_role_rank(uh.role) >= 4
+    )
+$$;
+
+-- ==========================================
+-- INVITATIONS
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.user_invitations (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    email text NOT NULL,
+    hotel_id text NOT NULL,
+    role text NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'analyst', 'revenue_manager', 'hotel_admin', 'group_admin')),
+    invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    invited_by_email text,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    accepted_at timestamptz,
+    UNIQUE (email, hotel_id)
+);
+
+ALTER TABLE public.user_invitations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Hotel admins can view invitations" ON public.user_invitations;
+CREATE POLICY "Hotel admins can view invitations" ON public.user_invitations FOR SELECT
+    USING (public.has_hotel_permission(hotel_id, 'manage_users'));
+
+-- Meme regle que les membres: pas d'invitation avec un role superieur au sien
+DROP POLICY IF EXISTS "Hotel admins can invite users" ON public.user_invitations;
+CREATE POLICY "Hotel admins can invite users" ON public.user_invitations FOR ALL
+    USING (public.has_hotel_permission(hotel_id, 'manage_users'))
+    WITH CHECK (
+        auth.uid() = invited_by
+        AND public.has_hotel_permission(hotel_id, 'manage_users')
+        AND public.hotel_role_rank(role) <= public.hotel_role_rank(public.hotel_role(hotel_id))
+    );
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.user_invitations TO authenticated;
+
+-- Le premier hotel de l'invitation devient l'hotel par defaut du profil
+CREATE OR REPLACE FUNCTION public.apply_user_invitations()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.user_hotels (user_id, hotel_id, role)
+    SELECT NEW.user_id, hotel_id, role
+    FROM public.user_invitations
+    WHERE lower(email) = lower(NEW.email) AND accepted_at IS NULL
+    ON CONFLICT (user_id, hotel_id) DO UPDATE SET role = EXCLUDED.role;
+
+    IF NEW.hotel_id IS NULL THEN
+        UPDATE public.user_profiles
+        SET hotel_id = (
+            SELECT hotel_id FROM public.user_invitations
+            WHERE lower(email) = lower(NEW.email) AND accepted_at IS NULL
+            ORDER BY created_at
+            LIMIT 1
+        )
+        WHERE id = NEW.id;
+    END IF;
+
+    UPDATE public.user_invitations
+    SET accepted_at = now()
+    WHERE lower(email) = lower(NEW.email) AND accepted_at IS NULL;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_apply_user_invitations ON public.user_profiles;
+CREATE TRIGGER trg_apply_user_invitations
+AFTER INSERT ON public.user_profiles
+FOR EACH ROW EXECUTE FUNCTION public.apply_user_invitations();
+
+-- ==========================================
+-- HOTELS ET CONCURRENTS
+-- ==========================================
+
+ALTER TABLE public.hotels ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view hotels" ON public.hotels;
+CREATE POLICY "Authenticated users can view hotels" ON public.hotels FOR SELECT
+    USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Admins can edit hotels" ON public.hotels;
+CREATE POLICY "Admins can edit hotels" ON public.hotels FOR ALL
+    USING (public.check_is_admin())
+    WITH CHECK (public.check_is_admin());
+
+GRANT SELECT, INSERT, UPDATE ON public.hotels TO authenticated;
+
+DROP POLICY IF EXISTS "Hotel admins can edit competitors" ON public.hotels_concurrents;
+CREATE POLICY "Hotel admins can edit competitors" ON public.hotels_concurrents FOR ALL
+    USING (public.has_hotel_permission(hotel_id, 'manage_users'))
+    WITH CHECK (public.has_hotel_permission(hotel_id, 'manage_users'));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.hotels_concurrents TO authenticated;
+
+-- ==========================================
+-- PROFILS ET CONFIGURATION
+-- ==========================================
+-- Activation, hotel par defaut et role plateforme: super administrateur
+-- uniquement (politique "Users can update their own profile" existante),
+-- mais un utilisateur ne peut pas modifier ces champs sur son propre profil.
+
+CREATE OR REPLACE FUNCTION public.guard_user_profile_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF (NEW.role IS DISTINCT FROM OLD.role OR NEW.is_active IS DISTINCT FROM OLD.is_active)
+        AND NOT public.check_is_admin() THEN
+        RAISE EXCEPTION 'Seul un administrateur peut modifier le role ou l''activation d''un compte'
+            USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_guard_user_profile_update ON public.user_profiles;
+CREATE TRIGGER trg_guard_user_profile_update
+BEFORE UPDATE ON public.user_profiles
+FOR EACH ROW EXECUTE FUNCTION public.guard_user_profile_update();
+
+DROP POLICY IF EXISTS "Admins can reset dashboard config" ON public.dashboard_config;
+CREATE POLICY "Admins can reset dashboard config" ON public.dashboard_config FOR UPDATE
+    USING (public.check_is_admin());
+
+-- ==========================================
+-- JOURNAL D'AUDIT ADMIN
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.admin_audit_log (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    actor_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    actor_email text,
+    action text NOT NULL,
+    target_type text NOT NULL CHECK (target_type IN ('user', 'invitation', 'membership', 'dashboard_config', 'hotel', 'competitor')),
+    target_id text,
+    target_label text,
+    hotel_id text,
+    details jsonb NOT NULL DEFAULT '{}'::jsonb,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created
+ON public.admin_audit_log (created_at DESC);
+
+ALTER TABLE public.admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Un admin d'hotel voit les actions sur ses hotels et les siennes
+DROP POLICY IF EXISTS "Managers can view the admin audit log" ON public.admin_audit_log;
+CREATE POLICY "Managers can view the admin audit log" ON public.admin_audit_log FOR SELECT
+    USING (
+        public.check_is_admin()
+        OR auth.uid() = actor_id
+        OR (hotel_id IS NOT NULL AND public.has_hotel_permission(hotel_id, 'manage_users'))
+    );
+
+-- Journal en ajout seul: pas de politique UPDATE/DELETE.
+DROP POLICY IF EXISTS "Managers can record their own admin actions" ON public.admin_audit_log;
+CREATE POLICY "Managers can record their own admin actions" ON public.admin_audit_log FOR INSERT
+    WITH CHECK (auth.uid() = actor_id AND public.can_manage_users());
+
+GRANT SELECT, INSERT ON public.admin_audit_log TO authenticated;
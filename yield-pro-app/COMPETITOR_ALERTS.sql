@@ -0,0 +1,71 @@
+-- ==========================================
+-- ALERTES TARIFS CONCURRENTS (DASHBOARD)
+-- ==========================================
+-- competitor_alert_rules: une ligne par hotel et type de regle, avec ses
+-- seuils. Sans ligne, l'application applique les valeurs par defaut.
+-- competitor_alerts: alertes levees a chaque collecte du rate shopper.
+-- Cycle de vie: new -> acknowledged -> resolved. Une alerte est resolue
+-- automatiquement quand sa condition ne tient plus sur la derniere collecte.
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.competitor_alert_rules (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    hotel_id text NOT NULL,
+    kind text NOT NULL CHECK (kind IN ('competitor_drop', 'own_most_expensive', 'median_rise_while_hold')),
+    enabled boolean NOT NULL DEFAULT true,
+    threshold_pct numeric NOT NULL DEFAULT 0 CHECK (threshold_pct >= 0),
+    horizon_days integer NOT NULL DEFAULT 14 CHECK (horizon_days BETWEEN 0 AND 365),
+    comparison_days integer NOT NULL DEFAULT 1 CHECK (comparison_days BETWEEN 1 AND 30),
+    updated_by text,
+    updated_at timestamptz NOT NULL DEFAULT now(),
+    UNIQUE (hotel_id, kind)
+);
+
+CREATE TABLE IF NOT EXISTS public.competitor_alerts (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    hotel_id text NOT NULL,
+    kind text NOT NULL,
+    stay_date date NOT NULL,
+    competitor_name text,
+    -- Collecte qui a leve l'alerte; avec la regle, la date et l'hotel elle rend l'insertion idempotente.
+    shopped_at date NOT NULL,
+    fingerprint text NOT NULL UNIQUE,
+    state text NOT NULL DEFAULT 'new' CHECK (state IN ('new', 'acknowledged', 'resolved')),
+    message text NOT NULL,
+    details jsonb,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    acknowledged_at timestamptz,
+    acknowledged_by text,
+    resolved_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_competitor_alerts_hotel_state
+ON public.competitor_alerts (hotel_id, state, stay_date);
+
+ALTER TABLE public.competitor_alert_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.competitor_alerts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view competitor alert rules" ON public.competitor_alert_rules;
+CREATE POLICY "Authenticated users can view competitor alert rules" ON public.competitor_alert_rules FOR SELECT
+    USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Authenticated users can edit competitor alert rules" ON public.competitor_alert_rules;
+CREATE POLICY "Authenticated users can edit competitor alert rules" ON public.competitor_alert_rules FOR ALL
+    USING (auth.role() = 'authenticated')
+    WITH CHECK (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Authenticated users can view competitor alerts" ON public.competitor_alerts;
+CREATE POLICY "Authenticated users can view competitor alerts" ON public.competitor_alerts FOR SELECT
+    USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Authenticated users can raise competitor alerts" ON public.competitor_alerts;
+CREATE POLICY "Authenticated users can raise competitor alerts" ON public.competitor_alerts FOR INSERT
+    WITH CHECK (auth.role() = 'authenticated');
+
+-- Changement d'etat uniquement: pas de politique DELETE.
+DROP POLICY IF EXISTS "Authenticated users can update competitor alerts" ON public.competitor_alerts;
+CREATE POLICY "Authenticated users can update competitor alerts" ON public.competitor_alerts FOR UPDATE
+    USING (auth.role() = 'authenticated');
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.competitor_alert_rules TO authenticated;
+GRANT SELECT, INSERT, UPDATE ON public.competitor_alerts TO authenticated;
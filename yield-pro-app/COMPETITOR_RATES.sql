@@ -0,0 +1,154 @@
+-- ==========================================
+-- TARIFS CONCURRENTS AU FORMAT LONG (PAGE CONCURRENCE)
+-- ==========================================
+-- Une ligne par (hotel concurrent, date de sejour, date de collecte).
+-- Le nom du concurrent correspond a hotels_concurrents.competitor_name:
+-- ajouter ou retirer un hotel du compset ne demande plus de colonne.
+-- Les collectes successives d'une meme date de sejour sont conservees,
+-- ce qui fournit l'historique du rate shopping (et les vues J-3 / J-7).
+-- price NULL + is_sold_out = complet chez ce concurrent.
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.competitor_rates (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    hotel_id text NOT NULL,
+    competitor_name text NOT NULL,
+    stay_date date NOT NULL,
+    shopped_at date NOT NULL DEFAULT CURRENT_DATE,
+    price numeric CHECK (price IS NULL OR price > 0),
+    is_sold_out boolean NOT NULL DEFAULT false,
+    market_demand numeric,
+    source text NOT NULL DEFAULT 'booking_tarifs',
+    -- Ligne booking_tarifs d'origine, pour la synchronisation ci-dessous.
+    source_row_id uuid,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_competitor_rates_natural_key
+ON public.competitor_rates (hotel_id, competitor_name, stay_date, shopped_at);
+
+CREATE INDEX IF NOT EXISTS idx_competitor_rates_hotel_stay
+ON public.competitor_rates (hotel_id, stay_date, shopped_at DESC);
+
+-- Selection du compset utilise pour la mediane (tous les hotels par defaut)
+ALTER TABLE public.hotels_concurrents ADD COLUMN IF NOT EXISTS in_compset boolean NOT NULL DEFAULT true;
+
+ALTER TABLE public.competitor_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view competitor rates" ON public.competitor_rates;
+CREATE POLICY "Authenticated users can view competitor rates" ON public.competitor_rates FOR SELECT
+    USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Authenticated users can write competitor rates" ON public.competitor_rates;
+CREATE POLICY "Authenticated users can write competitor rates" ON public.competitor_rates FOR ALL
+    USING (auth.role() = 'authenticated')
+    WITH CHECK (auth.role() = 'authenticated');
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.competitor_rates TO authenticated;
+
+DROP POLICY IF EXISTS "Authenticated users can update competitors" ON public.hotels_concurrents;
+CREATE POLICY "Authenticated users can update competitors" ON public.hotels_concurrents FOR UPDATE
+    USING (auth.role() = 'authenticated');
+
+GRANT SELECT, UPDATE ON public.hotels_concurrents TO authenticated;
+
+-- ==========================================
+-- SYNCHRONISATION DEPUIS LE FORMAT LARGE
+-- ==========================================
+-- Le rate shopper et la page Imports alimentent toujours booking_tarifs
+-- (une colonne par hotel). Chaque colonne numerique devient une ligne:
+-- 0 = complet, NULL = pas de collecte pour cet hotel.
+
+CREATE OR REPLACE FUNCTION public.competitor_rates_shop_date(updated_at text)
+RETURNS date
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT COALESCE(left(updated_at, 10)::date, CURRENT_DATE)
+$$;
+
+-- Une ligne par colonne hotel renseignee d'une ligne booking_tarifs (ou booking_vs_*).
+CREATE OR REPLACE FUNCTION public.unpivot_booking_tarifs(row_data jsonb)
+RETURNS TABLE (competitor_name text, price numeric, is_sold_out boolean)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT cell.key, NULLIF(cell.value::text::numeric, 0), cell.value::text::numeric = 0
+    FROM jsonb_each(row_data) AS cell
+    WHERE cell.key NOT IN ('id', 'hotel_id', 'date_mise_a_jour', 'Jour', 'Date', 'Demande du marché')
+      AND jsonb_typeof(cell.value) = 'number'
+      AND cell.value::text::numeric >= 0
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_competitor_rates_from_booking_tarifs()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        -- Seule la collecte portee par la ligne supprimee disparait; l'historique reste.
+        DELETE FROM public.competitor_rates
+        WHERE source_row_id = OLD.id
+          AND shopped_at = public.competitor_rates_shop_date(OLD.date_mise_a_jour::text);
+        RETURN OLD;
+    END IF;
+
+    IF NEW.hotel_id IS NULL OR NEW."Date" IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO public.competitor_rates (hotel_id, competitor_name, stay_date, shopped_at, price, is_sold_out, market_demand, source, source_row_id)
+    SELECT NEW.hotel_id, cell.competitor_name, NEW."Date"::date, public.competitor_rates_shop_date(NEW.date_mise_a_jour::text),
+           cell.price, cell.is_sold_out, NEW."Demande du marché", 'booking_tarifs', NEW.id
+    FROM public.unpivot_booking_tarifs(to_jsonb(NEW)) AS cell
+    ON CONFLICT (hotel_id, competitor_name, stay_date, shopped_at) DO UPDATE SET
+        price = EXCLUDED.price,
+        is_sold_out = EXCLUDED.is_sold_out,
+        market_demand = EXCLUDED.market_demand,
+        source = EXCLUDED.source,
+        source_row_id = EXCLUDED.source_row_id;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_booking_tarifs_competitor_rates ON public.booking_tarifs;
+CREATE TRIGGER trg_booking_tarifs_competitor_rates
+AFTER INSERT OR UPDATE OR DELETE ON public.booking_tarifs
+FOR EACH ROW EXECUTE FUNCTION public.sync_competitor_rates_from_booking_tarifs();
+
+-- ==========================================
+-- REPRISE DE L'EXISTANT
+-- ==========================================
+-- booking_vs_3j / booking_vs_7j etaient des photos a J-3 / J-7 de la
+-- derniere collecte: elles deviennent des collectes datees en consequence.
+
+INSERT INTO public.competitor_rates (hotel_id, competitor_name, stay_date, shopped_at, price, is_sold_out, market_demand, source, source_row_id)
+SELECT tarifs.hotel_id, cell.competitor_name, tarifs."Date"::date, public.competitor_rates_shop_date(tarifs.date_mise_a_jour::text),
+       cell.price, cell.is_sold_out, tarifs."Demande du marché", 'booking_tarifs', tarifs.id
+FROM public.booking_tarifs AS tarifs
+CROSS JOIN LATERAL public.unpivot_booking_tarifs(to_jsonb(tarifs)) AS cell
+WHERE tarifs.hotel_id IS NOT NULL AND tarifs."Date" IS NOT NULL
+ON CONFLICT (hotel_id, competitor_name, stay_date, shopped_at) DO NOTHING;
+
+DO $$
+DECLARE
+    legacy record;
+BEGIN
+    FOR legacy IN SELECT * FROM (VALUES ('booking_vs_3j', 3), ('booking_vs_7j', 7)) AS t(table_name, days_back) LOOP
+        IF to_regclass('public.' || legacy.table_name) IS NULL THEN
+            CONTINUE;
+        END IF;
+        EXECUTE format(
+            'INSERT INTO public.competitor_rates (hotel_id, competitor_name, stay_date, shopped_at, price, is_sold_out, market_demand, source)
+             SELECT legacy_rows.hotel_id, cell.competitor_name, legacy_rows."Date"::date, CURRENT_DATE - %s,
+                    cell.price, cell.is_sold_out, (to_jsonb(legacy_rows)->>%L)::numeric, %L
+             FROM public.%I AS legacy_rows
+             CROSS JOIN LATERAL public.unpivot_booking_tarifs(to_jsonb(legacy_rows)) AS cell
+             WHERE legacy_rows.hotel_id IS NOT NULL AND legacy_rows."Date" IS NOT NULL
+             ON CONFLICT (hotel_id, competitor_name, stay_date, shopped_at) DO NOTHING',
+            legacy.days_back, 'Demande du marché', legacy.table_name, legacy.table_name
+        );
+    END LOOP;
+END $$;
@@ -0,0 +1,84 @@
+-- ==========================================
+-- IMPORTS CSV / XLSX (PAGE IMPORTS)
+-- ==========================================
+-- Chaque import est un lot (import_batches). Chaque ligne inseree ou
+-- mise a jour est tracee dans import_batch_rows avec son etat precedent,
+-- ce qui permet d'annuler le lot: suppression des insertions et
+-- restauration des lignes modifiees.
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.import_batches (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    hotel_id text NOT NULL,
+    target_table text NOT NULL CHECK (target_table IN ('booking_export', 'booking_apercu', 'booking_tarifs', 'disponibilites')),
+    file_name text,
+    status text NOT NULL DEFAULT 'applied' CHECK (status IN ('applied', 'rolled_back')),
+    row_count integer NOT NULL DEFAULT 0,
+    inserted_count integer NOT NULL DEFAULT 0,
+    updated_count integer NOT NULL DEFAULT 0,
+    skipped_count integer NOT NULL DEFAULT 0,
+    user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    user_email text,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    rolled_back_at timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS public.import_batch_rows (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    batch_id uuid NOT NULL REFERENCES public.import_batches(id) ON DELETE CASCADE,
+    target_table text NOT NULL,
+    row_id uuid NOT NULL,
+    action text NOT NULL CHECK (action IN ('insert', 'update')),
+    previous jsonb
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_batches_hotel_created
+ON public.import_batches (hotel_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_import_batch_rows_batch
+ON public.import_batch_rows (batch_id);
+
+-- Cles naturelles utilisees pour l'upsert et le dedoublonnage
+CREATE INDEX IF NOT EXISTS idx_booking_export_hotel_reference
+ON public.booking_export (hotel_id, "Référence");
+
+CREATE INDEX IF NOT EXISTS idx_booking_tarifs_hotel_date
+ON public.booking_tarifs (hotel_id, "Date");
+
+ALTER TABLE public.import_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.import_batch_rows ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view import batches" ON public.import_batches;
+CREATE POLICY "Authenticated users can view import batches" ON public.import_batches FOR SELECT
+    USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Users can create their own import batches" ON public.import_batches;
+CREATE POLICY "Users can create their own import batches" ON public.import_batches FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Authenticated users can roll back import batches" ON public.import_batches;
+CREATE POLICY "Authenticated users can roll back import batches" ON public.import_batches FOR UPDATE
+    USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Authenticated users can view import batch rows" ON public.import_batch_rows;
+CREATE POLICY "Authenticated users can view import batch rows" ON public.import_batch_rows FOR SELECT
+    USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Authenticated users can record import batch rows" ON public.import_batch_rows;
+CREATE POLICY "Authenticated users can record import batch rows" ON public.import_batch_rows FOR INSERT
+    WITH CHECK (auth.role() = 'authenticated');
+
+GRANT SELECT, INSERT, UPDATE ON public.import_batches TO authenticated;
+GRANT SELECT, INSERT ON public.import_batch_rows TO authenticated;
+
+-- Ecriture des tables importees depuis l'application
+DO $$
+DECLARE
+    target text;
+BEGIN
+    FOREACH target IN ARRAY ARRAY['booking_export', 'booking_apercu', 'booking_tarifs', 'disponibilites'] LOOP
+        EXECUTE format('DROP POLICY IF EXISTS "Authenticated users can import rows" ON public.%I', target);
+        EXECUTE format('CREATE POLICY "Authenticated users can import rows" ON public.%I FOR ALL USING (auth.role() = ''authenticated'') WITH CHECK (auth.role() = ''authenticated'')', target);
+        EXECUTE format('GRANT SELECT, INSERT, UPDATE, DELETE ON public.%I TO authenticated', target);
+    END LOOP;
+END $$;
@@ -0,0 +1,576 @@
+-- ==========================================
+-- PARTENAIRES OTA, COMMISSIONS ET PLANS TARIFAIRES PAR HOTEL
+-- ==========================================
+-- A executer apres USER_ROLES.sql.
+-- ota_partners: une ligne par hotel et partenaire de distribution, avec la
+-- commission prelevee sur le montant des reservations (en %) et les codes
+-- plan_tarifaire distribues. partner reprend le nom du channel manager,
+-- ex. "Expedia (1903)"; booking_export.Origine y est rapproche sans tenir
+-- compte de l'identifiant entre parentheses.
+-- ota_display_orders: ordre d'affichage des types de chambre et des plans
+-- tarifaires (simulateur, grille, plans derives).
+-- Sans ligne pour un hotel, l'application n'a ni commission ni plan distribue.
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.ota_partners (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    hotel_id text NOT NULL,
+    partner text NOT NULL,
+    commission_pct numeric NOT NULL DEFAULT 0 CHECK (commission_pct >= 0 AND commission_pct <= 100),
+    plan_codes text[] NOT NULL DEFAULT '{}',
+    display_order integer NOT NULL DEFAULT 0,
+    updated_by text,
+    updated_at timestamptz NOT NULL DEFAULT now(),
+    UNIQUE (hotel_id, partner)
+);
+
+-- Tables creees avant l'edition des plans tarifaires par partenaire
+ALTER TABLE public.ota_partners ADD COLUMN IF NOT EXISTS plan_codes text[] NOT NULL DEFAULT '{}';
+ALTER TABLE public.ota_partners ADD COLUMN IF NOT EXISTS display_order integer NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS public.ota_display_orders (
+    hotel_id text PRIMARY KEY,
+    room_order text[] NOT NULL DEFAULT '{}',
+    plan_order text[] NOT NULL DEFAULT '{}',
+    updated_by text,
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ota_partners ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view OTA partners" ON public.ota_partners;
+CREATE POLICY "Authenticated users can view OTA partners" ON public.ota_partners FOR SELECT
+    USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Authenticated users can edit OTA partners" ON public.ota_partners;
+CREATE POLICY "Authenticated users can edit OTA partners" ON public.ota_partners FOR ALL
+    USING (public.has_hotel_permission(hotel_id, 'edit_rms_settings'))
+    WITH CHECK (public.has_hotel_permission(hotel_id, 'edit_rms_settings'));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.ota_partners TO authenticated;
+
+ALTER TABLE public.ota_display_orders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view OTA display orders" ON public.ota_display_orders;
+CREATE POLICY "Authenticated users can view OTA display orders" ON public.ota_display_orders FOR SELECT
+    USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Authenticated users can edit OTA display orders" ON public.ota_display_orders;
+CREATE POLICY "Authenticated users can edit OTA display orders" ON public.ota_display_orders FOR ALL
+    USING (public.has_hotel_permission(hotel_id, 'edit_rms_settings'))
+    WITH CHECK (public.has_hotel_permission(hotel_id, 'edit_rms_settings'));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.ota_display_orders TO authenticated;
+
+-- Configuration de l'hotel Folkestone (H2258), reprise de config_ota_folkestone.json.
+-- Les autres hotels demarrent sans partenaire ni ordre d'affichage.
+INSERT INTO public.ota_partners (hotel_id, partner, commission_pct, plan_codes, display_order)
+VALUES
+    ('H2258', 'Agoda (6144)', 14.5, ARRAY[
+        'OTA-RO-FLEX',
+        'OTA-RO-NANR',
+        'OTA-BB-FLEX-1P',
+        'OTA-BB-NANR-1P',
+        'OTA-BB-FLEX-2P',
+        'OTA-BB-FLEX-4P',
+        'OTA-BB-NANR-4P',
+        'OTA-BB-NANR-2P'
+    ], 0),
+    ('H2258', 'Expedia (1903)', 18, ARRAY[
+        'OTA-RO-FLEX',
+        'OTA-RO-NANR',
+        'OTA-BB-FLEX-1P',
+        'OTA-BB-NANR-1P',
+        'OTA-BB-FLEX-2P',
+        'OTA-BB-FLEX-4P',
+        'OTA-BB-NANR-4P',
+        'OTA-BB-NANR-2P',
+        'MOBILE-RO-FLEX - MOBILE RO FLEX',
+        'MOBILE-RO-NANR - MOBILE RO NANR',
+        'MOBILE-BB-FLEX-2P - MOBILE BB FLEX 2P',
+        'MOBILE-BB-NANR-2P - MOBILE BB NANR 2P',
+        'FB-CORPO-BB-FLEX-1P',
+        'FB-CORPO-BB-FLEX-2P',
+        'PKG-EXP-RO-FLEX',
+        'PKG-EXP-RO-NANR',
+        'PKG-EXP-BB-FLEX-1P',
+        'PKG-EXP-BB-NANR-1P',
+        'PKG-EXP-BB-FLEX-2P',
+        'PKG-EXP-BB-NANR-2P',
+        'PKG-EXP-BB-FLEX-4P',
+        'PKG-EXP-BB-NANR-4P'
+    ], 1),
+    ('H2258', 'Booking.com (6562)', 0, ARRAY[
+        'OTA-RO-FLEX',
+        'OTA-RO-NANR',
+        'OTA-BB-FLEX-1P',
+        'OTA-BB-NANR-1P',
+        'OTA-BB-FLEX-2P',
+        'OTA-BB-FLEX-4P',
+        'OTA-BB-NANR-4P',
+        'OTA-BB-NANR-2P',
+        'MOBILE-RO-FLEX - MOBILE RO FLEX',
+        'MOBILE-RO-NANR - MOBILE RO NANR',
+        'MOBILE-BB-FLEX-2P - MOBILE BB FLEX 2P',
+        'MOBILE-BB-NANR-2P - MOBILE BB NANR 2P'
+    ], 2),
+    ('H2258', 'Airbnb (11602)', 15, ARRAY[
+        'OTA-RO-FLEX'
+    ], 3),
+    ('H2258', 'Cendyn (ex-Meta i/o) (12562)', 0, ARRAY[
+        'VIP-RO-NANR',
+        'VIP-RATE-FLEX',
+        'VIP-BB-NANR-1P',
+        'VIP-BB-FLEX-1P',
+        'VIP-BB-NANR-2P',
+        'VIP-BB-FLEX-2P',
+        'VIP-BB-NANR-4P',
+        'VIP-BB-FLEX-4P'
+    ], 4),
+    ('H2258', 'D-EDGE Backoffice Connection (10245)', 0, ARRAY[
+        'OTA-RO-FLEX',
+        'OTA-RO-NANR',
+        'OTA-BB-FLEX-1P',
+        'OTA-BB-NANR-1P',
+        'OTA-BB-FLEX-2P',
+        'OTA-BB-FLEX-4P',
+        'OTA-BB-NANR-4P',
+        'OTA-BB-NANR-2P',
+        'FB-CORPO-RO-FLEX',
+        'FB-CORPO-BB-FLEX-1P',
+        'FB-CORPO-BB-FLEX-2P',
+        'FB-CORPO-BB-FLEX-4P',
+        'AMEX-GBT',
+        'CWT-BB-FLEX'
+    ], 5),
+    ('H2258', 'DOTW Webbeds Group (5119)', 0, ARRAY[
+        'TO-BB-FLEX-NET-2P',
+        'TO-BB-NANR-NET-2P',
+        'TO-RO-FLEX-NET',
+        'TO-RO-NANR-NET',
+        'TO-BB-FLEX-NET-1P',
+        'TO-BB-NANR-NET-1P',
+        'TO-BB-FLEX-NET-4P',
+        'PROMO-TO-RO-NANR',
+        'PROMO-TO-BB-2P-NANR',
+        'PROMO-TO-BB-1P-NANR',
+        'PROMO-TO-BB-4P-NANR'
+    ], 6),
+    ('H2258', 'France Hotel Guide (3990)', 0, ARRAY[
+        'OTA-RO-FLEX',
+        'OTA-RO-NANR',
+        'OTA-RO-FLEX-20'
+    ], 7),
+    ('H2258', 'GDS connectivity (16942)', 0, ARRAY[
+        'OTA-RO-FLEX',
+        'OTA-RO-NANR',
+        'OTA-BB-FLEX-1P',
+        'OTA-BB-NANR-1P',
+        'OTA-BB-FLEX-2P',
+        'OTA-BB-FLEX-4P',
+        'OTA-BB-NANR-4P',
+        'OTA-BB-NANR-2P',
+        'FB-CORPO-RO-FLEX',
+        'FB-CORPO-BB-FLEX-1P',
+        'FB-CORPO-BB-FLEX-2P',
+        'FB-CORPO-BB-FLEX-4P',
+        'AMEX-GBT',
+        'OTA-RO-FLEX-20'
+    ], 8),
+    ('H2258', 'H.I.S. International Tours France SASU (7443)', 0, ARRAY[
+        'TO-BB-FLEX-NET-2P',
+        'TO-BB-NANR-NET-2P',
+        'TO-RO-FLEX-NET',
+        'TO-RO-NANR-NET',
+        'PROMO-TO-RO-FLEX',
+        'PROMO-TO-RO-NANR',
+        'PROMO-TO-BB-2P-FLEX',
+        'PROMO-TO-BB-2P-NANR'
+    ], 9),
+    ('H2258', 'Hotel Trader (17976)', 0, ARRAY[
+        'TO-BB-FLEX-NET-2P',
+        'TO-BB-NANR-NET-2P',
+        'TO-RO-FLEX-NET',
+        'TO-RO-NANR-NET',
+        'TO-BB-FLEX-NET-1P',
+        'TO-BB-NANR-NET-1P',
+        'TO-BB-FLEX-NET-4P',
+        'TO-BB-NANR-NET-4P',
+        'PROMO-TO-RO-FLEX',
+        'PROMO-TO-RO-NANR',
+        'PROMO-TO-BB-2P-FLEX',
+        'PROMO-TO-BB-2P-NANR',
+        'PROMO-TO-BB-1-FLEX',
+        'PROMO-TO-BB-1P-NANR',
+        'PROMO-TO-BB-4P-FLEX',
+        'PROMO-TO-BB-4P-NANR'
+    ], 10),
+    ('H2258', 'Hotelbeds (4881)', 20, ARRAY[
+        'TO-BB-FLEX-BRUT-2P',
+        'TO-BB-NANR-BRUT-2P',
+        'HB-RO-FLEX-BRUT',
+        'TO-RO-NANR-BRUT',
+        'TO-BB-FLEX-BRUT-1P',
+        'TO-BB-NANR-BRUT-1P',
+        'TO-BB-FLEX-BRUT-4P',
+        'TO-BB-NANR-BRUT-4P',
+        'PROMO-HB-RO-FLEX',
+        'PROMO-HB-RO-NANR',
+        'PROMO-HB-BB-FLEX-1P',
+        'PROMO-HB-BB-NANR-1P',
+        'PROMO-HB-BB-FLEX-2P',
+        'PROMO-HB-BB-NANR-2P',
+        'PROMO-HB-BB-FLEX-4P',
+        'PROMO-HB-BB-NANR-4P'
+    ], 11),
+    ('H2258', 'Hotels Grand Paris (6395)', 0, '{}', 12),
+    ('H2258', 'HRS (6545)', 15, ARRAY[
+        'OTA-RO-FLEX',
+        'OTA-RO-NANR',
+        'OTA-BB-FLEX-1P',
+        'OTA-BB-NANR-1P',
+        'OTA-BB-FLEX-2P',
+        'OTA-BB-NANR-2P'
+    ], 13),
+    ('H2258', 'InfiniteHotel (8929)', 0, ARRAY[
+        'TO-BB-FLEX-NET-2P',
+        'TO-BB-NANR-NET-2P',
+        'TO-RO-FLEX-NET',
+        'TO-RO-NANR-NET',
+        'TO-BB-FLEX-NET-1P',
+        'TO-BB-NANR-NET-1P',
+        'TO-BB-FLEX-NET-4P',
+        'TO-BB-NANR-NET-4P'
+    ], 14),
+    ('H2258', 'lastminute.com (7768)', 18, ARRAY[
+        'OTA-RO-FLEX',
+        'OTA-BB-FLEX-1P',
+        'OTA-BB-NANR-1P',
+        'OTA-BB-FLEX-2P',
+        'OTA-BB-FLEX-4P',
+        'OTA-BB-NANR-4P',
+        'OTA-BB-NANR-2P',
+        'OTA-RO-NANR'
+    ], 15),
+    ('H2258', 'Leboncoin Hôtel (ex Pilgo) (11785)', 0, '{}', 16),
+    ('H2258', 'Les Guides Rivages (819)', 0, '{}', 17),
+    ('H2258', 'Magic Holidays (17313)', 0, ARRAY[
+        'TO-BB-FLEX-NET-2P',
+        'TO-BB-NANR-NET-2P',
+        'TO-RO-FLEX-NET',
+        'TO-RO-NANR-NET',
+        'TO-BB-FLEX-NET-1P',
+        'TO-BB-NANR-NET-1P',
+        'TO-BB-FLEX-NET-4P',
+        'TO-BB-NANR-NET-4P',
+        'PROMO-TO-RO-FLEX',
+        'PROMO-TO-RO-NANR',
+        'PROMO-TO-BB-2P-FLEX',
+        'PROMO-TO-BB-2P-NANR',
+        'PROMO-TO-BB-1-FLEX',
+        'PROMO-TO-BB-1P-NANR',
+        'PROMO-TO-BB-4P-FLEX',
+        'PROMO-TO-BB-4P-NANR'
+    ], 18),
+    ('H2258', 'Miki Travel Ltd (5120)', 0, ARRAY[
+        'TO-BB-FLEX-NET-2P',
+        'TO-BB-NANR-NET-2P',
+        'TO-RO-FLEX-NET',
+        'TO-RO-NANR-NET',
+        'TO-BB-FLEX-NET-1P',
+        'TO-BB-NANR-NET-1P',
+        'TO-BB-FLEX-NET-4P',
+        'TO-BB-NANR-NET-4P',
+        'PROMO-TO-RO-FLEX',
+        'PROMO-TO-RO-NANR',
+        'PROMO-TO-BB-2P-FLEX',
+        'PROMO-TO-BB-2P-NANR',
+        'PROMO-TO-BB-1-FLEX',
+        'PROMO-TO-BB-1P-NANR',
+        'PROMO-TO-BB-4P-FLEX',
+        'PROMO-TO-BB-4P-NANR'
+    ], 19),
+    ('H2258', 'Olympia Europe (10246)', 0, ARRAY[
+        'TO-BB-FLEX-NET-2P',
+        'TO-BB-NANR-NET-2P',
+        'TO-RO-FLEX-NET',
+        'TO-RO-NANR-NET',
+        'TO-BB-FLEX-NET-1P',
+        'TO-BB-NANR-NET-1P',
+        'TO-BB-FLEX-NET-4P',
+        'TO-BB-NANR-NET-4P',
+        'PROMO-TO-RO-FLEX',
+        'PROMO-TO-RO-NANR',
+        'PROMO-TO-BB-2P-FLEX',
+        'PROMO-TO-BB-2P-NANR',
+        'PROMO-TO-BB-1-FLEX',
+        'PROMO-TO-BB-1P-NANR',
+        'PROMO-TO-BB-4P-FLEX',
+        'PROMO-TO-BB-4P-NANR'
+    ], 20),
+    ('H2258', 'PARIS-PARIS.COM (340)', 0, '{}', 21),
+    ('H2258', 'Payot & Rivages/PERFERENCEMENT (2782)', 0, '{}', 22),
+    ('H2258', 'SAS WIHP (5830)', 0, ARRAY[
+        'VIP-RO-NANR',
+        'VIP-RATE-FLEX',
+        'VIP-BB-NANR-1P',
+        'VIP-BB-FLEX-1P',
+        'VIP-BB-NANR-2P',
+        'VIP-BB-FLEX-2P',
+        'VIP-BB-NANR-4P',
+        'VIP-BB-FLEX-4P'
+    ], 23),
+    ('H2258', 'Serhs Tourism (Welcomebeds) (8546)', 0, ARRAY[
+        'TO-BB-FLEX-NET-2P',
+        'TO-BB-NANR-NET-2P',
+        'TO-RO-FLEX-NET',
+        'TO-RO-NANR-NET',
+        'TO-BB-NANR-NET-1P',
+        'TO-BB-FLEX-NET-1P',
+        'TO-BB-NANR-NET-4P',
+        'TO-BB-FLEX-NET-4P',
+        'PROMO-TO-RO-FLEX',
+        'PROMO-TO-RO-NANR',
+        'PROMO-TO-BB-2P-FLEX',
+        'PROMO-TO-BB-2P-NANR',
+        'PROMO-TO-BB-1-FLEX',
+        'PROMO-TO-BB-1P-NANR',
+        'PROMO-TO-BB-4P-FLEX',
+        'PROMO-TO-BB-4P-NANR'
+    ], 24),
+    ('H2258', 'SOFIMEDIAT (418)', 0, '{}', 25),
+    ('H2258', 'SunHotels Webbeds Group (9318)', 0, ARRAY[
+        'TO-BB-FLEX-NET-2P',
+        'TO-BB-NANR-NET-2P',
+        'TO-RO-FLEX-NET',
+        'TO-RO-NANR-NET',
+        'TO-BB-FLEX-NET-1P',
+        'TO-BB-NANR-NET-1P',
+        'TO-BB-FLEX-NET-4P',
+        'TO-BB-NANR-NET-4P',
+        'PROMO-TO-RO-FLEX',
+        'PROMO-TO-RO-NANR',
+        'PROMO-TO-BB-2P-FLEX',
+        'PROMO-TO-BB-2P-NANR',
+        'PROMO-TO-BB-1-FLEX',
+        'PROMO-TO-BB-1P-NANR',
+        'PROMO-TO-BB-4P-FLEX',
+        'PROMO-TO-BB-4P-NANR'
+    ], 26),
+    ('H2258', 'TBO.com (14740)', 0, ARRAY[
+        'TO-BB-FLEX-NET-2P',
+        'TO-BB-NANR-NET-2P',
+        'TO-RO-FLEX-NET',
+        'TO-RO-NANR-NET',
+        'TO-BB-FLEX-NET-1P',
+        'TO-BB-NANR-NET-1P',
+        'TO-BB-FLEX-NET-4P',
+        'TO-BB-NANR-NET-4P',
+        'PROMO-TO-RO-FLEX',
+        'PROMO-TO-RO-NANR',
+        'PROMO-TO-BB-2P-FLEX',
+        'PROMO-TO-BB-2P-NANR',
+        'PROMO-TO-BB-1-FLEX',
+        'PROMO-TO-BB-1P-NANR',
+        'PROMO-TO-BB-4P-FLEX',
+        'PROMO-TO-BB-4P-NANR'
+    ], 27),
+    ('H2258', 'Travco (13559)', 0, ARRAY[
+        'TRAVCO-BB-FLEX-NET',
+        'TRAVCO-BB-NANR-NET'
+    ], 28),
+    ('H2258', 'Trip.com (11222)', 16, ARRAY[
+        'OTA-RO-FLEX',
+        'OTA-RO-NANR',
+        'OTA-BB-FLEX-1P',
+        'OTA-BB-NANR-1P',
+        'OTA-BB-FLEX-2P',
+        'OTA-BB-FLEX-4P',
+        'OTA-BB-NANR-4P',
+        'OTA-BB-NANR-2P'
+    ], 29),
+    ('H2258', 'web promotions-portail (1364)', 0, ARRAY[
+        'VIP-RO-NANR',
+        'VIP-RATE-FLEX'
+    ], 30)
+ON CONFLICT (hotel_id, partner) DO NOTHING;
+
+INSERT INTO public.ota_display_orders (hotel_id, room_order, plan_order)
+VALUES (
+    'H2258',
+    ARRAY[
+        'Double Classique',
+        'Double Single Use Classique',
+        'Twin Classique',
+        'Double Classique Terrasse',
+        'Double Deluxe',
+        'Twin Deluxe',
+        'Double Deluxe Terrasse',
+        'Deux Chambres Adjacentes 4 personnes'
+    ],
+    ARRAY[
+        'TO BB FLEX NET 2P (TO-BB-FLEX-NET-2P)',
+        'TO BB NANR NET 2P (TO-BB-NANR-NET-2P)',
+        'TO BB FLEX BRUT 2P (TO-BB-FLEX-BRUT-2P)',
+        'TO BB NANR BRUT 2P (TO-BB-NANR-BRUT-2P)',
+        'HOTUSA BB FLEX 2P (HOTUSA-BB-FLEX-2P)',
+        'HOTUSA BB NANR 2P (HOTUSA-BB-NANR-2P)',
+        'HOTUSA RO FLEX (HOTUSA-RO-FLEX)',
+        'HOTUSA RO NANR (HOTUSA-RO-NANR)',
+        'FB CORPO RO FLEX (FB-CORPO-RO-FLEX)',
+        'FB CORPO BB FLEX 1P (FB-CORPO-BB-FLEX-1P)',
+        'FB CORPO BB FLEX 2P (FB-CORPO-BB-FLEX-2P)',
+        'FB CORPO BB FLEX 4P (FB-CORPO-BB-FLEX-4P)',
+        'MOBILE RO NANR (MOBILE-RO-NANR)',
+        'MOBILE RO FLEX (MOBILE-RO-FLEX)',
+        'MOBILE BB FLEX 1P (MOBILE-BB-FLEX-1-P)',
+        'MOBILE BB NANR 1P (MOBILE-BB-NANR-1P)',
+        'MOBILE BB FLEX 2P (MOBILE-BB-FLEX-2P)',
+        'MOBILE BB NANR 2P (MOBILE-BB-NANR-2P)',
+        'MOBILE BB FLEX 4P (MOBILE-BB-FLEX-4P)',
+        'MOBILE BB NANR 4P (MOBILE-BB-NANR-4P)',
+        'CWT-BB-FLEX (CWT-BB-FLEX)',
+        'VIP BB FLEX 1P (VIP-BB-FLEX-1P)',
+        'VIP-BB-NANR 1P (VIP-BB-NANR-1P)',
+        'VIP BB FLEX 4P (VIP-BB-FLEX-4P)',
+        'VIP BB NANR 4P (VIP-BB-NANR-4P)',
+        'TO BB FLEX BRUT 1P (TO-BB-FLEX-BRUT-1P)',
+        'TO BB NANR BRUT 1P (TO-BB-NANR-BRUT-1P)',
+        'TO BB FLEX BRUT 4P (TO-BB-FLEX-BRUT-4P)',
+        'TO BB NANR BRUT 4P (TO-BB-NANR-BRUT-4P)',
+        'TO BB FLEX NET 1P (TO-BB-FLEX-NET-1P)',
+        'TO BB NANR NET 1P (TO-BB-NANR-NET-1P)',
+        'TO BB FLEX NET 4P (TO-BB-FLEX-NET-4P)',
+        'TO BB NANR NET 4P (TO-BB-NANR-NET-4P)',
+        'HOTUSA BB FLEX 1P (HOTUSA-BB-FLEX-1P)',
+        'HOTUSA BB NANR 1P (HOTUSA-BB-NANR-1P)',
+        'HOTUSA BB FLEX 4P (HOTUSA-BB-FLEX-4P)',
+        'HOTUSA BB NANR 4P (HOTUSA-BB-NANR-4P)',
+        'VIP RO NANR (VIP-RO-NANR)',
+        'OTA BB FLEX 1P (OTA-BB-FLEX-1P)',
+        'OTA BB NANR 1P (OTA-BB-NANR-1P)',
+        'OTA BB FLEX 2P (OTA-BB-FLEX-2P)',
+        'OTA BB FLEX 4P (OTA-BB-FLEX-4P)',
+        'OTA BB NANR 4P (OTA-BB-NANR-4P)',
+        'TO RO FLEX NET (TO-RO-FLEX-NET)',
+        'TO RO NANR NET (TO-RO-NANR-NET)',
+        'HB RO FLEX BRUT (HB-RO-FLEX-BRUT)',
+        'TO RO NANR BRUT (TO-RO-NANR-BRUT)',
+        'OTA BB NANR 2P (OTA-BB-NANR-2P)',
+        'VIP BB FLEX 2P (VIP-BB-FLEX-2P)',
+        'VIP BB NANR 2P (VIP-BB-NANR-2P)',
+        'VIP RO FLEX (VIP-RATE-FLEX)',
+        'PKG EXP RO FLEX (PKG-EXP-RO-FLEX)',
+        'PKG EXP RO NANR (PKG-EXP-RO-NANR)',
+        'PKG EXP BB FLEX 1P (PKG-EXP-BB-FLEX-1P)',
+        'PKG EXP BB NANR 1P (PKG-EXP-BB-NANR-1P)',
+        'PKG EXP BB FLEX 2P (PKG-EXP-BB-FLEX-2P)',
+        'PKG EXP BB NANR 2P (PKG-EXP-BB-NANR-2P)',
+        'PKG EXP BB FLEX 4P (PKG-EXP-BB-FLEX-4P)',
+        'PKG EXP BB NANR 4P (PKG-EXP-BB-NANR-4P)',
+        'PROMO TO RO FLEX (PROMO-TO-RO-FLEX)',
+        'PROMO TO RO NANR (PROMO-TO-RO-NANR)',
+        'PROMO TO BB 2P FLEX (PROMO-TO-BB-2P-FLEX)',
+        'PROMO TO BB 2P NANR (PROMO-TO-BB-2P-NANR)',
+        'PROMO TO BB 1P FLEX (PROMO-TO-BB-1-FLEX)',
+        'PROMO TO BB 1P NANR (PROMO-TO-BB-1P-NANR)',
+        'PROMO TO BB 4P FLEX (PROMO-TO-BB-4P-FLEX)',
+        'PROMO TO BB 4P NANR (PROMO-TO-BB-4P-NANR)',
+        'PROMO HB RO FLEX (PROMO-HB-RO-FLEX)',
+        'PROMO HB RO NANR (PROMO-HB-RO-NANR)',
+        'PROMO HB BB FLEX 1P (PROMO-HB-BB-FLEX-1P)',
+        'PROMO HB BB NANR 1P (PROMO-HB-BB-NANR-1P)',
+        'PROMO HB BB FLEX 2P (PROMO-HB-BB-FLEX-2P)',
+        'PROMO HB BB NANR 2P (PROMO-HB-BB-NANR-2P)',
+        'PROMO HB BB FLEX 4P (PROMO-HB-BB-FLEX-4P)',
+        'PROMO HB BB NANR 4P (PROMO-HB-BB-NANR-4P)',
+        'TRAVCO BB FLEX NET (TRAVCO-BB-FLEX-NET)',
+        'TRAVCO BB NANR NET (TRAVCO-BB-NANR-NET)',
+        'OTA RO FLEX (OTA-RO-FLEX)',
+        'OTA RO NANR (OTA-RO-NANR)',
+        'AMEX GBT (AMEX-GBT)',
+        'OTA RO FLEX 20 (OTA-RO-FLEX-20)',
+        'AMEX-GBT - AMEX GBT',
+        'CWT-BB-FLEX - CWT-BB-FLEX',
+        'FB-CORPO-BB-FLEX-1P - FB CORPO BB FLEX 1P',
+        'FB-CORPO-BB-FLEX-2P - FB CORPO BB FLEX 2P',
+        'FB-CORPO-BB-FLEX-4P - FB CORPO BB FLEX 4P',
+        'FB-CORPO-RO-FLEX - FB CORPO RO FLEX',
+        'HB-RO-FLEX-BRUT - HB RO FLEX BRUT',
+        'HOTUSA-BB-FLEX-1P - HOTUSA BB FLEX 1P',
+        'HOTUSA-BB-FLEX-2P - HOTUSA BB FLEX  2P',
+        'HOTUSA-BB-FLEX-4P - HOTUSA BB FLEX 4P',
+        'HOTUSA-BB-NANR-1P - HOTUSA BB NANR 1P',
+        'HOTUSA-BB-NANR-2P - HOTUSA BB NANR 2P',
+        'HOTUSA-BB-NANR-4P - HOTUSA BB NANR 4P',
+        'HOTUSA-RO-FLEX - HOTUSA RO FLEX',
+        'HOTUSA-RO-NANR - HOTUSA RO NANR',
+        'MOBILE-BB-FLEX-1-P - MOBILE BB FLEX 1P',
+        'MOBILE-BB-FLEX-2P - MOBILE BB FLEX 2P',
+        'MOBILE-BB-FLEX-4P - MOBILE BB FLEX 4P',
+        'MOBILE-BB-NANR-1P - MOBILE BB NANR 1P',
+        'MOBILE-BB-NANR-2P - MOBILE BB NANR 2P',
+        'MOBILE-BB-NANR-4P - MOBILE BB NANR 4P',
+        'MOBILE-RO-FLEX - MOBILE RO FLEX',
+        'MOBILE-RO-NANR - MOBILE RO NANR',
+        'OTA-BB-FLEX-1P - OTA  BB FLEX 1P',
+        'OTA-BB-FLEX-2P - OTA BB FLEX 2P',
+        'OTA-BB-FLEX-4P - OTA BB FLEX 4P',
+        'OTA-BB-NANR-1P - OTA BB NANR 1P',
+        'OTA-BB-NANR-2P - OTA BB NANR 2P',
+        'OTA-BB-NANR-4P - OTA  BB NANR  4P',
+        'OTA-RO-FLEX - OTA RO FLEX',
+        'OTA-RO-FLEX-20 - OTA RO FLEX 20',
+        'OTA-RO-NANR - OTA RO NANR',
+        'PKG-EXP-BB-FLEX-1P - PKG EXP BB FLEX 1P',
+        'PKG-EXP-BB-FLEX-2P - PKG EXP BB FLEX 2P',
+        'PKG-EXP-BB-FLEX-4P - PKG EXP BB FLEX 4P',
+        'PKG-EXP-BB-NANR-1P - PKG EXP BB NANR 1P',
+        'PKG-EXP-BB-NANR-2P - PKG EXP BB NANR 2P',
+        'PKG-EXP-BB-NANR-4P - PKG EXP BB NANR 4P',
+        'PKG-EXP-RO-FLEX - PKG EXP RO FLEX',
+        'PKG-EXP-RO-NANR - PKG EXP RO NANR',
+        'PROMO-HB-BB-FLEX-1P - PROMO HB BB FLEX 1P',
+        'PROMO-HB-BB-FLEX-2P - PROMO HB BB FLEX 2P',
+        'PROMO-HB-BB-FLEX-4P - PROMO HB BB FLEX 4P',
+        'PROMO-HB-BB-NANR-1P - PROMO HB BB NANR 1P',
+        'PROMO-HB-BB-NANR-2P - PROMO HB BB NANR 2P',
+        'PROMO-HB-BB-NANR-4P - PROMO HB BB NANR 4P',
+        'PROMO-HB-RO-FLEX - PROMO HB RO FLEX',
+        'PROMO-HB-RO-NANR - PROMO HB RO NANR',
+        'PROMO-TO-BB-1-FLEX - PROMO TO BB 1P FLEX',
+        'PROMO-TO-BB-1P-NANR - PROMO TO BB 1P NANR',
+        'PROMO-TO-BB-2P-FLEX - PROMO TO BB 2P FLEX',
+        'PROMO-TO-BB-2P-NANR - PROMO TO BB 2P NANR',
+        'PROMO-TO-BB-4P-FLEX - PROMO TO BB 4P FLEX',
+        'PROMO-TO-BB-4P-NANR - PROMO TO BB 4P NANR',
+        'PROMO-TO-RO-FLEX - PROMO TO RO FLEX',
+        'PROMO-TO-RO-NANR - PROMO TO RO NANR',
+        'TO-BB-FLEX-BRUT-1P - TO BB FLEX BRUT 1P',
+        'TO-BB-FLEX-BRUT-2P - TO BB FLEX BRUT 2P',
+        'TO-BB-FLEX-BRUT-4P - TO BB FLEX BRUT 4P',
+        'TO-BB-FLEX-NET-1P - TO BB FLEX NET 1P',
+        'TO-BB-FLEX-NET-2P - TO BB FLEX NET 2P',
+        'TO-BB-FLEX-NET-4P - TO BB FLEX NET 4P',
+        'TO-BB-NANR-BRUT-1P - TO BB NANR BRUT 1P',
+        'TO-BB-NANR-BRUT-2P - TO BB NANR BRUT 2P',
+        'TO-BB-NANR-BRUT-4P - TO BB NANR BRUT 4P',
+        'TO-BB-NANR-NET-1P - TO BB NANR NET 1P',
+        'TO-BB-NANR-NET-2P - TO BB NANR NET 2P',
+        'TO-BB-NANR-NET-4P - TO BB NANR NET 4P',
+        'TO-RO-FLEX-NET - TO RO FLEX NET',
+        'TO-RO-NANR-BRUT - TO RO NANR BRUT',
+        'TO-RO-NANR-NET - TO RO NANR NET',
+        'TRAVCO-BB-FLEX-NET - TRAVCO BB FLEX NET',
+        'TRAVCO-BB-NANR-NET - TRAVCO BB NANR NET',
+        'VIP-BB-FLEX-1P - VIP BB FLEX 1P',
+        'VIP-BB-FLEX-2P - VIP BB FLEX 2P',
+        'VIP-BB-FLEX-4P - VIP BB FLEX 4P',
+        'VIP-BB-NANR-1P - VIP-BB-NANR 1P',
+        'VIP-BB-NANR-2P - VIP BB NANR 2P',
+        'VIP-BB-NANR-4P - VIP BB NANR 4P',
+        'VIP-RATE-FLEX - VIP RO FLEX',
+        'VIP-RO-NANR - VIP RO NANR'
+    ]
+)
+ON CONFLICT (hotel_id) DO NOTHING;
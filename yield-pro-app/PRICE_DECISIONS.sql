@@ -0,0 +1,52 @@
+-- ==========================================
+-- JOURNAL DES DECISIONS TARIFAIRES (GRILLE YIELD)
+-- ==========================================
+-- Chaque validation, rejet ou forcage d'une suggestion RMS est
+-- enregistre ici. La derniere ligne par (hotel_id, stay_date, room_type)
+-- fait foi; room_type NULL = tarif de la chambre de reference.
+-- Une revision ajoute une nouvelle ligne dont supersedes_id pointe
+-- sur la decision revisee: rien n'est modifie ni supprime.
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.price_decisions (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    hotel_id text NOT NULL,
+    stay_date date NOT NULL,
+    room_type text,
+    decision text NOT NULL CHECK (decision IN ('approved', 'rejected', 'overridden')),
+    current_price numeric,
+    suggested_price numeric,
+    final_price numeric,
+    formula_text text,
+    reason text,
+    engine_version text,
+    supersedes_id uuid REFERENCES public.price_decisions(id) ON DELETE SET NULL,
+    user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    user_email text,
+    decided_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Tables creees avant l'ajout du pilotage par type de chambre
+ALTER TABLE public.price_decisions ADD COLUMN IF NOT EXISTS room_type text;
+
+-- Version du moteur RMS (RMS_ENGINE_VERSION) ayant produit suggested_price
+ALTER TABLE public.price_decisions ADD COLUMN IF NOT EXISTS engine_version text;
+
+-- Tables creees avant la revision des decisions depuis la grille
+ALTER TABLE public.price_decisions ADD COLUMN IF NOT EXISTS supersedes_id uuid REFERENCES public.price_decisions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_price_decisions_hotel_stay
+ON public.price_decisions (hotel_id, stay_date, decided_at DESC);
+
+ALTER TABLE public.price_decisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view price decisions" ON public.price_decisions;
+CREATE POLICY "Authenticated users can view price decisions" ON public.price_decisions FOR SELECT
+    USING (auth.role() = 'authenticated');
+
+-- Journal en ajout seul: pas de politique UPDATE/DELETE.
+DROP POLICY IF EXISTS "Users can record their own price decisions" ON public.price_decisions;
+CREATE POLICY "Users can record their own price decisions" ON public.price_decisions FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+GRANT SELECT, INSERT ON public.price_decisions TO authenticated;
@@ -0,0 +1,37 @@
+-- ==========================================
+-- SCENARIOS RMS (SANDBOX)
+-- ==========================================
+-- A executer apres USER_ROLES.sql.
+-- Jeux de parametres RMS nommes, testes dans la sandbox avant d'etre
+-- promus en parametres actifs (dashboard_config.widgets->rms).
+-- Un scenario appartient a son auteur et a l'hotel sur lequel il a ete
+-- simule; promoted_at garde la date de la derniere mise en production.
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.rms_scenarios (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    hotel_id text NOT NULL,
+    name text NOT NULL,
+    settings jsonb NOT NULL DEFAULT '{}'::jsonb,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now(),
+    promoted_at timestamptz,
+    UNIQUE (user_id, hotel_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rms_scenarios_user_hotel
+ON public.rms_scenarios (user_id, hotel_id, updated_at DESC);
+
+ALTER TABLE public.rms_scenarios ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own scenarios" ON public.rms_scenarios;
+CREATE POLICY "Users can view their own scenarios" ON public.rms_scenarios FOR SELECT
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can manage their own scenarios" ON public.rms_scenarios;
+CREATE POLICY "Users can manage their own scenarios" ON public.rms_scenarios FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.rms_scenarios TO authenticated;
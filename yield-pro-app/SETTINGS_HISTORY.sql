@@ -0,0 +1,103 @@
+-- ==========================================
+-- HISTORIQUE DES PARAMETRES RMS (STUDIO RMS)
+-- ==========================================
+-- Une ligne par enregistrement des reglages RMS, avec l'etat
+-- avant/apres pour afficher les differences dans la page Historique.
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.settings_history (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    hotel_id text,
+    user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    user_email text,
+    before jsonb NOT NULL DEFAULT '{}'::jsonb,
+    after jsonb NOT NULL DEFAULT '{}'::jsonb,
+    changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_settings_history_hotel_changed
+ON public.settings_history (hotel_id, changed_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_price_decisions_hotel_decided
+ON public.price_decisions (hotel_id, decided_at DESC);
+
+ALTER TABLE public.settings_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view settings history" ON public.settings_history;
+CREATE POLICY "Authenticated users can view settings history" ON public.settings_history FOR SELECT
+    USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Users can record their own settings changes" ON public.settings_history;
+CREATE POLICY "Users can record their own settings changes" ON public.settings_history FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+GRANT SELECT, INSERT ON public.settings_history TO authenticated;
+
+-- ==========================================
+-- HISTORIQUE DES TARIFS (PLANNING_TARIFS)
+-- ==========================================
+-- planning_tarifs est aussi ecrit hors de la grille (imports, synchro
+-- channel manager, plans tarifaires derives): un trigger trace chaque
+-- tarif ajoute, modifie ou supprime, quel que soit l'ecrivain.
+-- user_id / user_email restent NULL pour les ecritures par cle de service.
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.planning_tarifs_history (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    hotel_id text,
+    stay_date date,
+    type_de_chambre text,
+    plan_tarifaire text,
+    action text NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+    old_tarif numeric,
+    new_tarif numeric,
+    user_id uuid,
+    user_email text,
+    changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_planning_tarifs_history_hotel_changed
+ON public.planning_tarifs_history (hotel_id, changed_at DESC);
+
+CREATE OR REPLACE FUNCTION public.log_planning_tarifs_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.tarif IS NOT DISTINCT FROM OLD.tarif THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO public.planning_tarifs_history
+        (hotel_id, stay_date, type_de_chambre, plan_tarifaire, action, old_tarif, new_tarif, user_id, user_email)
+    VALUES (
+        COALESCE(NEW.hotel_id, OLD.hotel_id),
+        COALESCE(NEW.date, OLD.date)::date,
+        COALESCE(NEW.type_de_chambre, OLD.type_de_chambre),
+        COALESCE(NEW.plan_tarifaire, OLD.plan_tarifaire),
+        lower(TG_OP),
+        CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.tarif END,
+        CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE NEW.tarif END,
+        auth.uid(),
+        auth.jwt() ->> 'email'
+    );
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_planning_tarifs_history ON public.planning_tarifs;
+CREATE TRIGGER trg_planning_tarifs_history
+AFTER INSERT OR UPDATE OF tarif OR DELETE ON public.planning_tarifs
+FOR EACH ROW EXECUTE FUNCTION public.log_planning_tarifs_change();
+
+ALTER TABLE public.planning_tarifs_history ENABLE ROW LEVEL SECURITY;
+
+-- Alimente uniquement par le trigger: lecture seule pour l'application.
+DROP POLICY IF EXISTS "Authenticated users can view planning tarifs history" ON public.planning_tarifs_history;
+CREATE POLICY "Authenticated users can view planning tarifs history" ON public.planning_tarifs_history FOR SELECT
+    USING (auth.role() = 'authenticated');
+
+GRANT SELECT ON public.planning_tarifs_history TO authenticated;
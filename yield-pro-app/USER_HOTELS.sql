@@ -0,0 +1,39 @@
+-- ==========================================
+-- PORTEFEUILLE MULTI-HOTELS (UTILISATEUR -> HOTELS)
+-- ==========================================
+-- user_hotels: une ligne par hotel suivi par un utilisateur. Le portefeuille
+-- affiche ces hotels cote a cote; user_profiles.hotel_id reste l'hotel par
+-- defaut a l'ouverture de l'application.
+-- Seul un admin ajoute ou retire un hotel; l'utilisateur ne voit que ses lignes.
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.user_hotels (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    hotel_id text NOT NULL,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    UNIQUE (user_id, hotel_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_hotels_hotel
+ON public.user_hotels (hotel_id);
+
+ALTER TABLE public.user_hotels ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their hotel memberships" ON public.user_hotels;
+CREATE POLICY "Users can view their hotel memberships" ON public.user_hotels FOR SELECT
+    USING (auth.uid() = user_id OR public.check_is_admin());
+
+DROP POLICY IF EXISTS "Admins can manage hotel memberships" ON public.user_hotels;
+CREATE POLICY "Admins can manage hotel memberships" ON public.user_hotels FOR ALL
+    USING (public.check_is_admin())
+    WITH CHECK (public.check_is_admin());
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.user_hotels TO authenticated;
+
+-- Chaque utilisateur suit au moins son hotel par defaut
+INSERT INTO public.user_hotels (user_id, hotel_id)
+SELECT user_id, hotel_id
+FROM public.user_profiles
+WHERE hotel_id IS NOT NULL
+ON CONFLICT (user_id, hotel_id) DO NOTHING;
@@ -0,0 +1,218 @@
+-- ==========================================
+-- ROLES PAR HOTEL ET PERMISSIONS
+-- ==========================================
+-- A executer apres USER_HOTELS.sql, PRICE_DECISIONS.sql, IMPORT_BATCHES.sql,
+-- COMPETITOR_RATES.sql et COMPETITOR_ALERTS.sql.
+-- Chaque ligne de user_hotels porte le role de l'utilisateur sur l'hotel:
+--   viewer           lecture seule
+--   analyst          + imports, validation des prix sous le seuil auto-approve
+--   revenue_manager  + validation au-dessus du seuil, parametres RMS
+--   hotel_admin      + gestion des utilisateurs de l'hotel
+--   group_admin      idem, peut aussi nommer d'autres group_admin
+-- user_profiles.role = 'admin' reste le super administrateur (group_admin
+-- sur tous les hotels). Un profil sans ligne user_hotels garde les droits
+-- revenue_manager sur son hotel par defaut.
+-- La liste des permissions est dupliquee dans src/utils/permissions.ts.
+-- ==========================================
+
+ALTER TABLE public.user_hotels ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'revenue_manager';
+
+ALTER TABLE public.user_hotels DROP CONSTRAINT IF EXISTS user_hotels_role_check;
+ALTER TABLE public.user_hotels ADD CONSTRAINT user_hotels_role_check
+    CHECK (role IN ('viewer', 'analyst', 'revenue_manager', 'hotel_admin', 'group_admin'));
+
+-- Les administrateurs existants deviennent group_admin de leurs hotels
+UPDATE public.user_hotels uh
+SET role = 'group_admin'
+FROM public.user_profiles up
+WHERE up.user_id = uh.user_id AND up.role = 'admin' AND uh.role <> 'group_admin';
+
+-- ==========================================
+-- FONCTIONS DE CONTROLE
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION public.hotel_role_rank(role text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE role
+        WHEN 'viewer' THEN 1
+        WHEN 'analyst' THEN 2
+        WHEN 'revenue_manager' THEN 3
+        WHEN 'hotel_admin' THEN 4
+        WHEN 'group_admin' THEN 5
+        ELSE 0
+    END
+$$;
+
+-- Role de l'utilisateur connecte sur un hotel (NULL = aucun acces en ecriture)
+CREATE OR REPLACE FUNCTION public.hotel_role(target_hotel text)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN public.check_is_admin() THEN 'group_admin'
+        ELSE COALESCE(
+            (SELECT role FROM public.user_hotels WHERE user_id = auth.uid() AND hotel_id = target_hotel),
+            (SELECT 'revenue_manager' FROM public.user_profiles WHERE user_id = auth.uid() AND hotel_id = target_hotel)
+        )
+    END
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_hotel_permission(target_hotel text, permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT COALESCE(
+        public.hotel_role_rank(public.hotel_role(target_hotel)) >= CASE permission
+            WHEN 'import_data' THEN 2
+            WHEN 'approve_prices' THEN 2
+            WHEN 'approve_prices_above_threshold' THEN 3
+            WHEN 'edit_rms_settings' THEN 3
+            WHEN 'manage_users' THEN 4
+        END,
+        false
+    )
+$$;
+
+-- Un utilisateur qui gere au moins un hotel voit l'annuaire des profils pour les rattacher
+CREATE OR REPLACE FUNCTION public.can_manage_users()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT public.check_is_admin() OR EXISTS (
+        SELECT 1 FROM public.user_hotels
+        WHERE user_id = auth.uid() AND public.hotel_role_rank(role) >= 4
+    )
+$$;
+
+-- Meme calcul de variation que la grille: |final - actuel| / actuel, compare
+-- au seuil auto-approve des parametres RMS de l'utilisateur.
+CREATE OR REPLACE FUNCTION public.can_record_price_decision(
+    target_hotel text,
+    decision text,
+    current_price numeric,
+    final_price numeric
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN NOT public.has_hotel_permission(target_hotel, 'approve_prices') THEN false
+        WHEN decision = 'rejected' THEN true
+        WHEN current_price > 0 AND final_price IS NOT NULL
+            AND abs(final_price - current_price) / current_price * 100 <= COALESCE(
+                (SELECT (widgets->'rms'->>'autoApproveThresholdPct')::numeric FROM public.dashboard_config WHERE user_id = auth.uid()),
+                4
+            ) THEN true
+        ELSE public.has_hotel_permission(target_hotel, 'approve_prices_above_threshold')
+    END
+$$;
+
+-- ==========================================
+-- MEMBRES DES HOTELS
+-- ==========================================
+
+DROP POLICY IF EXISTS "Admins can manage hotel memberships" ON public.user_hotels;
+DROP POLICY IF EXISTS "Hotel admins can manage hotel memberships" ON public.user_hotels;
+-- On ne modifie ni n'attribue un role superieur au sien
+CREATE POLICY "Hotel admins can manage hotel memberships" ON public.user_hotels FOR ALL
+    USING (
+        public.has_hotel_permission(hotel_id, 'manage_users')
+        AND public.hotel_role_rank(role) <= public.hotel_role_rank(public.hotel_role(hotel_id))
+    )
+    WITH CHECK (
+        public.has_hotel_permission(hotel_id, 'manage_users')
+        AND public.hotel_role_rank(role) <= public.hotel_role_rank(public.hotel_role(hotel_id))
+    );
+
+DROP POLICY IF EXISTS "Hotel admins can view profiles" ON public.user_profiles;
+CREATE POLICY "Hotel admins can view profiles" ON public.user_profiles FOR SELECT
+    USING (public.can_manage_users());
+
+-- ==========================================
+-- PARAMETRES RMS
+-- ==========================================
+-- Les parametres RMS sont stockes par utilisateur (dashboard_config.widgets->rms)
+-- et controles sur son hotel par defaut, comme settings_history.
+
+CREATE OR REPLACE FUNCTION public.guard_rms_settings_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.widgets->'rms' IS DISTINCT FROM OLD.widgets->'rms'
+        AND NOT public.has_hotel_permission(
+            (SELECT hotel_id FROM public.user_profiles WHERE user_id = NEW.user_id),
+            'edit_rms_settings'
+        ) THEN
+        RAISE EXCEPTION 'Permission edit_rms_settings requise pour modifier les parametres RMS'
+            USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_guard_rms_settings_update ON public.dashboard_config;
+CREATE TRIGGER trg_guard_rms_settings_update
+BEFORE UPDATE ON public.dashboard_config
+FOR EACH ROW EXECUTE FUNCTION public.guard_rms_settings_update();
+
+DROP POLICY IF EXISTS "Authenticated users can edit competitor alert rules" ON public.competitor_alert_rules;
+CREATE POLICY "Authenticated users can edit competitor alert rules" ON public.competitor_alert_rules FOR ALL
+    USING (public.has_hotel_permission(hotel_id, 'edit_rms_settings'))
+    WITH CHECK (public.has_hotel_permission(hotel_id, 'edit_rms_settings'));
+
+-- Compset et ordre d'affichage des concurrents
+DROP POLICY IF EXISTS "Authenticated users can update competitors" ON public.hotels_concurrents;
+CREATE POLICY "Authenticated users can update competitors" ON public.hotels_concurrents FOR UPDATE
+    USING (public.has_hotel_permission(hotel_id, 'edit_rms_settings'));
+
+-- ==========================================
+-- DECISIONS TARIFAIRES
+-- ==========================================
+
+DROP POLICY IF EXISTS "Users can record their own price decisions" ON public.price_decisions;
+CREATE POLICY "Users can record their own price decisions" ON public.price_decisions FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id
+        AND public.can_record_price_decision(hotel_id, decision, current_price, final_price)
+    );
+
+-- ==========================================
+-- IMPORTS
+-- ==========================================
+
+DROP POLICY IF EXISTS "Users can create their own import batches" ON public.import_batches;
+CREATE POLICY "Users can create their own import batches" ON public.import_batches FOR INSERT
+    WITH CHECK (auth.uid() = user_id AND public.has_hotel_permission(hotel_id, 'import_data'));
+
+DROP POLICY IF EXISTS "Authenticated users can roll back import batches" ON public.import_batches;
+CREATE POLICY "Authenticated users can roll back import batches" ON public.import_batches FOR UPDATE
+    USING (public.has_hotel_permission(hotel_id, 'import_data'));
+
+DO $$
+DECLARE
+    target text;
+BEGIN
+    FOREACH target IN ARRAY ARRAY['booking_export', 'booking_apercu', 'booking_tarifs', 'disponibilites'] LOOP
+        EXECUTE format('DROP POLICY IF EXISTS "Authenticated users can import rows" ON public.%I', target);
+        EXECUTE format('DROP POLICY IF EXISTS "Authenticated users can read imported rows" ON public.%I', target);
+        EXECUTE format('CREATE POLICY "Authenticated users can read imported rows" ON public.%I FOR SELECT USING (auth.role() = ''authenticated'')', target);
+        EXECUTE format('DROP POLICY IF EXISTS "Importers can write imported rows" ON public.%I', target);
+        EXECUTE format('CREATE POLICY "Importers can write imported rows" ON public.%I FOR ALL USING (public.has_hotel_permission(hotel_id, ''import_data'')) WITH CHECK (public.has_hotel_permission(hotel_id, ''import_data''))', target);
+    END LOOP;
+END $$;
@@ -2,6 +2,9 @@ import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-d
 import { useEffect } from 'react'
 import { AuthProvider } from './components/auth/AuthProvider'
 import { useAuthStore } from './store/useAuthStore'
+import { useActiveHotelId } from './hooks/useHotels'
+import { usePermissions } from './hooks/usePermissions'
+import type { Permission } from './utils/permissions'
 import { LoginForm } from './components/auth/LoginForm'
 import { RegisterForm } from './components/auth/RegisterForm'
 import { DashboardLayout } from './components/layout/DashboardLayout'
@@ -15,21 +18,35 @@ import { HelpCalibrationPage } from './components/pages/HelpCalibrationPage'
 import { HelpGeneralPage } from './components/pages/HelpGeneralPage'
 import { YieldAnalysisPage } from './components/pages/YieldAnalysisPage'
 import { MyUnavailabilityPage } from './components/pages/MyUnavailabilityPage'
-import {
-  CompetitorsPage,
-  HistoryPage
-} from './components/pages/PlaceholderPages'
+import { HistoryPage } from './components/pages/HistoryPage'
+import { RatePlansPage } from './components/pages/RatePlansPage'
+import { ChannelExportPage } from './components/pages/ChannelExportPage'
+import { ImportPage } from './components/pages/ImportPage'
+import { PortfolioPage } from './components/pages/PortfolioPage'
+import { ScenarioSandboxPage } from './components/pages/ScenarioSandboxPage'
+import { BacktestPage } from './components/pages/BacktestPage'
+import { OverbookingPage } from './components/pages/OverbookingPage'
+import { CancellationsPage } from './components/pages/CancellationsPage'
+import { ChannelMixPage } from './components/pages/ChannelMixPage'
+import { CompetitorsPage } from './components/pages/PlaceholderPages'
 import { Loader2 } from 'lucide-react'
 import { useThemeStore } from './store/useThemeStore'
 
 // Protected Route Component
-const ProtectedRoute: React.FC<{ children: React.ReactNode; adminOnly?: boolean }> = ({
+// `permission` is checked on the active hotel, or on any hotel of the user with `permissionScope="any_hotel"`.
+const ProtectedRoute: React.FC<{
+  children: React.ReactNode
+  permission?: Permission
+  permissionScope?: 'active_hotel' | 'any_hotel'
+}> = ({
   children,
-  adminOnly = false
+  permission,
+  permissionScope = 'active_hotel'
 }) => {
-  const { user, profile, loading, initialized } = useAuthStore()
+  const { user, loading, initialized } = useAuthStore()
+  const { can, canOnAnyHotel, isLoading: loadingPermissions } = usePermissions(useActiveHotelId())
 
-  if (!initialized || loading) {
+  if (!initialized || loading || (permission && user && loadingPermissions)) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <Loader2 className="w-12 h-12 text-primary animate-spin" />
@@ -41,7 +58,7 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode; adminOnly?: boolean
     return <Navigate to="/login" />
   }
 
-  if (adminOnly && profile?.role !== 'admin') {
+  if (permission && !(permissionScope === 'any_hotel' ? canOnAnyHotel(permission) : can(permission))) {
     return <Navigate to="/dashboard" />
   }
 
@@ -85,6 +102,14 @@ function App() {
             </ProtectedRoute>
           } />
 
+          <Route path="/portfolio" element={
+            <ProtectedRoute>
+              <DashboardLayout>
+                <PortfolioPage />
+              </DashboardLayout>
+            </ProtectedRoute>
+          } />
+
           <Route path="/grid" element={
             <ProtectedRoute>
               <DashboardLayout>
@@ -93,6 +118,22 @@ function App() {
             </ProtectedRoute>
           } />
 
+          <Route path="/rate-plans" element={
+            <ProtectedRoute>
+              <DashboardLayout>
+                <RatePlansPage />
+              </DashboardLayout>
+            </ProtectedRoute>
+          } />
+
+          <Route path="/channel-export" element={
+            <ProtectedRoute>
+              <DashboardLayout>
+                <ChannelExportPage />
+              </DashboardLayout>
+            </ProtectedRoute>
+          } />
+
           <Route path="/competitors" element={
             <ProtectedRoute>
               <DashboardLayout>
@@ -133,6 +174,14 @@ function App() {
             </ProtectedRoute>
           } />
 
+          <Route path="/imports" element={
+            <ProtectedRoute permission="import_data">
+              <DashboardLayout>
+                <ImportPage />
+              </DashboardLayout>
+            </ProtectedRoute>
+          } />
+
           <Route path="/reservation-simulator" element={
             <ProtectedRoute>
               <DashboardLayout>
@@ -165,8 +214,48 @@ function App() {
             </ProtectedRoute>
           } />
 
+          <Route path="/rms-sandbox" element={
+            <ProtectedRoute>
+              <DashboardLayout>
+                <ScenarioSandboxPage />
+              </DashboardLayout>
+            </ProtectedRoute>
+          } />
+
+          <Route path="/backtest" element={
+            <ProtectedRoute>
+              <DashboardLayout>
+                <BacktestPage />
+              </DashboardLayout>
+            </ProtectedRoute>
+          } />
+
+          <Route path="/overbooking" element={
+            <ProtectedRoute>
+              <DashboardLayout>
+                <OverbookingPage />
+              </DashboardLayout>
+            </ProtectedRoute>
+          } />
+
+          <Route path="/cancellations" element={
+            <ProtectedRoute>
+              <DashboardLayout>
+                <CancellationsPage />
+              </DashboardLayout>
+            </ProtectedRoute>
+          } />
+
+          <Route path="/channel-mix" element={
+            <ProtectedRoute>
+              <DashboardLayout>
+                <ChannelMixPage />
+              </DashboardLayout>
+            </ProtectedRoute>
+          } />
+
           <Route path="/admin" element={
-            <ProtectedRoute adminOnly>
+            <ProtectedRoute permission="manage_users" permissionScope="any_hotel">
               <DashboardLayout>
                 <AdminPanel />
               </DashboardLayout>
@@ -0,0 +1,93 @@
+import React from 'react'
+import { format, parseISO } from 'date-fns'
+import { fr } from 'date-fns/locale'
+import { History } from 'lucide-react'
+import { useAdminAuditLog, type AdminAuditLogRow } from '../../hooks/useAdmin'
+import type { Database } from '../../types/database.types'
+
+type UserProfile = Database['public']['Tables']['user_profiles']['Row']
+
+const ACTION_LABELS: Record<string, string> = {
+    invite_user: 'Invitation envoyée',
+    revoke_invitation: 'Invitation annulée',
+    deactivate_user: 'Compte désactivé',
+    reactivate_user: 'Compte réactivé',
+    change_platform_role: 'Rôle plateforme modifié',
+    change_default_hotel: 'Hôtel par défaut modifié',
+    add_hotel_membership: 'Accès hôtel ajouté',
+    change_hotel_role: 'Rôle hôtel modifié',
+    remove_hotel_membership: 'Accès hôtel retiré',
+    reset_dashboard_config: 'Configuration réinitialisée',
+    create_hotel: 'Hôtel créé',
+    update_hotel: 'Hôtel modifié',
+    create_competitor: 'Concurrent ajouté',
+    update_competitor: 'Concurrent modifié',
+    delete_competitor: 'Concurrent supprimé',
+}
+
+const formatDetails = (details: AdminAuditLogRow['details']) => {
+    if (!details || typeof details !== 'object' || Array.isArray(details) || Object.keys(details).length === 0) return ''
+    return JSON.stringify(details)
+}
+
+type AdminAuditLogProps = {
+    users: UserProfile[]
+}
+
+/** Latest actions of the admin panel, newest first (append-only log). */
+export const AdminAuditLog: React.FC<AdminAuditLogProps> = ({ users }) => {
+    const { data: entries = [], isLoading, error } = useAdminAuditLog()
+
+    const targetLabel = (entry: AdminAuditLogRow) =>
+        entry.target_label || users.find((user) => user.user_id === entry.target_id)?.email || entry.target_id || '-'
+
+    return (
+        <div className="bg-card border rounded-xl shadow-sm overflow-hidden">
+            <div className="p-6 border-b flex items-center gap-2">
+                <History className="w-5 h-5 text-muted-foreground" />
+                <h3 className="font-bold">Journal d'audit</h3>
+            </div>
+
+            {error && (
+                <p className="px-6 py-3 text-sm font-semibold text-rose-600">{(error as Error).message}</p>
+            )}
+
+            {isLoading ? (
+                <div className="p-6 animate-pulse text-sm text-muted-foreground">Chargement du journal...</div>
+            ) : entries.length === 0 ? (
+                <div className="p-6 text-sm text-muted-foreground">Aucune action enregistrée.</div>
+            ) : (
+                <div className="overflow-x-auto max-h-[420px]">
+                    <table className="w-full text-left text-sm">
+                        <thead className="bg-muted/50 border-b text-xs uppercase text-muted-foreground font-bold">
+                            <tr>
+                                <th className="px-6 py-3">Date</th>
+                                <th className="px-6 py-3">Auteur</th>
+                                <th className="px-6 py-3">Action</th>
+                                <th className="px-6 py-3">Cible</th>
+                                <th className="px-6 py-3">Hôtel</th>
+                                <th className="px-6 py-3">Détails</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-border">
+                            {entries.map((entry) => (
+                                <tr key={entry.id} className="hover:bg-muted/30 transition-colors">
+                                    <td className="px-6 py-3 whitespace-nowrap text-muted-foreground">
+                                        {format(parseISO(entry.created_at), 'dd MMM yyyy HH:mm', { locale: fr })}
+                                    </td>
+                                    <td className="px-6 py-3">{entry.actor_email || '-'}</td>
+                                    <td className="px-6 py-3 font-medium">{ACTION_LABELS[entry.action] || entry.action}</td>
+                                    <td className="px-6 py-3">{targetLabel(entry)}</td>
+                                    <td className="px-6 py-3 font-mono text-xs text-muted-foreground">{entry.hotel_id || '-'}</td>
+                                    <td className="px-6 py-3 font-mono text-xs text-muted-foreground max-w-[320px] truncate" title={formatDetails(entry.details)}>
+                                        {formatDetails(entry.details)}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    )
+}
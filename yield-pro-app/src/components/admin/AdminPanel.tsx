@@ -1,4 +1,4 @@
-import React from 'react'
+import React, { useState } from 'react'
 import { useQuery } from '@tanstack/react-query'
 import { supabase } from '../../lib/supabase'
 import {
@@ -8,14 +8,271 @@ import {
     Activity,
     UserCheck,
     UserX,
-    Hotel
+    Hotel,
+    Plus,
+    Trash2,
+    ShieldOff,
+    RotateCcw,
+    Mail,
+    Send
 } from 'lucide-react'
+import {
+    useInviteUser,
+    usePendingInvitations,
+    useResetDashboardConfig,
+    useRevokeInvitation,
+    useUpdateUserProfile
+} from '../../hooks/useAdmin'
+import {
+    useHotelMemberships,
+    useRemoveHotelMembership,
+    useSaveHotelMembership,
+    useUserHotels,
+    type UserHotelRow
+} from '../../hooks/useHotels'
+import { useAuthStore } from '../../store/useAuthStore'
 import type { Database } from '../../types/database.types'
+import { HOTEL_ROLES, HOTEL_ROLE_LABELS, canAssignRole, type HotelRole } from '../../utils/permissions'
+import { AdminAuditLog } from './AdminAuditLog'
+import { HotelsEditor } from './HotelsEditor'
 
 type UserProfile = Database['public']['Tables']['user_profiles']['Row']
 type HotelRow = Database['public']['Tables']['hotels']['Row']
 
+const getHotelKey = (hotel: HotelRow) => hotel.hotel_id || hotel.code || hotel.id
+
+type UserHotelRolesProps = {
+    userId: string
+    memberships: UserHotelRow[]
+    hotels: HotelRow[]
+    managerRoleFor: (hotelId: string) => HotelRole | null
+}
+
+/** Roles of one user per hotel; only the hotels the signed-in user manages can be changed. */
+const UserHotelRoles: React.FC<UserHotelRolesProps> = ({ userId, memberships, hotels, managerRoleFor }) => {
+    const saveMembership = useSaveHotelMembership()
+    const removeMembership = useRemoveHotelMembership()
+    const [newHotelId, setNewHotelId] = useState('')
+    const [newRole, setNewRole] = useState<HotelRole>('viewer')
+
+    const hotelName = (hotelId: string) =>
+        hotels.find((hotel) => hotel.hotel_id === hotelId || hotel.code === hotelId)?.name || hotelId
+    const assignedHotelIds = new Set(memberships.map((membership) => membership.hotel_id))
+    const addableHotels = hotels.filter((hotel) => !assignedHotelIds.has(getHotelKey(hotel)) && canAssignRole(managerRoleFor(getHotelKey(hotel)), 'viewer'))
+    const isPending = saveMembership.isPending || removeMembership.isPending
+
+    return (
+        <div className="space-y-2">
+            {memberships.map((membership) => {
+                const managerRole = managerRoleFor(membership.hotel_id)
+                const canEdit = canAssignRole(managerRole, membership.role)
+                return (
+                    <div key={membership.id} className="flex items-center gap-2 text-sm">
+                        <span className="min-w-[120px] font-medium">{hotelName(membership.hotel_id)}</span>
+                        <select
+                            value={membership.role}
+                            disabled={!canEdit || isPending}
+                            onChange={(event) => saveMembership.mutate({
+                                user_id: userId,
+                                hotel_id: membership.hotel_id,
+                                role: event.target.value as HotelRole,
+                                previousRole: membership.role
+                            })}
+                            className="rounded-md border bg-background px-2 py-1 text-xs disabled:opacity-60"
+                        >
+                            {HOTEL_ROLES.filter((role) => role === membership.role || canAssignRole(managerRole, role)).map((role) => (
+                                <option key={role} value={role}>{HOTEL_ROLE_LABELS[role]}</option>
+                            ))}
+                        </select>
+                        {canEdit && (
+                            <button
+                                onClick={() => removeMembership.mutate(membership)}
+                                disabled={isPending}
+                                className="p-1 hover:bg-muted rounded text-muted-foreground hover:text-rose-600"
+                                title="Retirer l'acces a cet hotel"
+                            >
+                                <Trash2 className="w-3.5 h-3.5" />
+                            </button>
+                        )}
+                    </div>
+                )
+            })}
+
+            {addableHotels.length > 0 && (
+                <div className="flex items-center gap-2 text-sm">
+                    <select
+                        value={newHotelId}
+                        onChange={(event) => setNewHotelId(event.target.value)}
+                        className="min-w-[120px] rounded-md border bg-background px-2 py-1 text-xs"
+                    >
+                        <option value="">Ajouter un hotel...</option>
+                        {addableHotels.map((hotel) => (
+                            <option key={hotel.id} value={getHotelKey(hotel)}>{hotel.name || getHotelKey(hotel)}</option>
+                        ))}
+                    </select>
+                    <select
+                        value={newRole}
+                        onChange={(event) => setNewRole(event.target.value as HotelRole)}
+                        className="rounded-md border bg-background px-2 py-1 text-xs"
+                    >
+                        {HOTEL_ROLES.filter((role) => !newHotelId || canAssignRole(managerRoleFor(newHotelId), role)).map((role) => (
+                            <option key={role} value={role}>{HOTEL_ROLE_LABELS[role]}</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={() => {
+                            saveMembership.mutate({ user_id: userId, hotel_id: newHotelId, role: newRole })
+                            setNewHotelId('')
+                        }}
+                        disabled={!newHotelId || !canAssignRole(managerRoleFor(newHotelId), newRole) || isPending}
+                        className="p-1 hover:bg-muted rounded text-primary disabled:opacity-40"
+                        title="Ajouter"
+                    >
+                        <Plus className="w-4 h-4" />
+                    </button>
+                </div>
+            )}
+
+            {(saveMembership.isError || removeMembership.isError) && (
+                <p className="text-xs font-semibold text-rose-600">
+                    {((saveMembership.error || removeMembership.error) as Error).message}
+                </p>
+            )}
+        </div>
+    )
+}
+
+type InviteUsersProps = {
+    hotels: HotelRow[]
+    users: UserProfile[]
+    managerRoleFor: (hotelId: string) => HotelRole | null
+}
+
+/** Email invitation with a first hotel and role, and the invitations not accepted yet. */
+const InviteUsers: React.FC<InviteUsersProps> = ({ hotels, users, managerRoleFor }) => {
+    const inviteUser = useInviteUser()
+    const revokeInvitation = useRevokeInvitation()
+    const { data: invitations = [] } = usePendingInvitations()
+    const [email, setEmail] = useState('')
+    const [hotelId, setHotelId] = useState('')
+    const [role, setRole] = useState<HotelRole>('viewer')
+
+    const invitableHotels = hotels.filter((hotel) => canAssignRole(managerRoleFor(getHotelKey(hotel)), 'viewer'))
+    const normalizedEmail = email.trim().toLowerCase()
+    // Existing accounts get their access from the memberships column instead.
+    const isExistingUser = users.some((user) => user.email?.toLowerCase() === normalizedEmail)
+    const canSubmit = normalizedEmail.includes('@') && !!hotelId && canAssignRole(managerRoleFor(hotelId), role) && !isExistingUser
+
+    const handleSubmit = (event: React.FormEvent) => {
+        event.preventDefault()
+        if (!canSubmit) return
+        inviteUser.mutate({ email: normalizedEmail, hotel_id: hotelId, role }, {
+            onSuccess: () => setEmail('')
+        })
+    }
+
+    return (
+        <div className="bg-card border rounded-xl shadow-sm overflow-hidden">
+            <div className="p-6 border-b flex items-center gap-2">
+                <Mail className="w-5 h-5 text-muted-foreground" />
+                <h3 className="font-bold">Inviter un utilisateur</h3>
+            </div>
+            <form onSubmit={handleSubmit} className="p-6 flex flex-wrap items-end gap-3 text-sm">
+                <label className="flex flex-col gap-1">
+                    <span className="text-xs font-semibold text-muted-foreground">Email</span>
+                    <input
+                        type="email"
+                        value={email}
+                        onChange={(event) => setEmail(event.target.value)}
+                        placeholder="prenom.nom@hotel.com"
+                        className="min-w-[240px] rounded-md border bg-background px-2 py-1"
+                        required
+                    />
+                </label>
+                <label className="flex flex-col gap-1">
+                    <span className="text-xs font-semibold text-muted-foreground">Hôtel</span>
+                    <select
+                        value={hotelId}
+                        onChange={(event) => setHotelId(event.target.value)}
+                        className="min-w-[160px] rounded-md border bg-background px-2 py-1"
+                    >
+                        <option value="">Choisir...</option>
+                        {invitableHotels.map((hotel) => (
+                            <option key={hotel.id} value={getHotelKey(hotel)}>{hotel.name || getHotelKey(hotel)}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex flex-col gap-1">
+                    <span className="text-xs font-semibold text-muted-foreground">Rôle</span>
+                    <select
+                        value={role}
+                        onChange={(event) => setRole(event.target.value as HotelRole)}
+                        className="rounded-md border bg-background px-2 py-1"
+                    >
+                        {HOTEL_ROLES.filter((option) => !hotelId || canAssignRole(managerRoleFor(hotelId), option)).map((option) => (
+                            <option key={option} value={option}>{HOTEL_ROLE_LABELS[option]}</option>
+                        ))}
+                    </select>
+                </label>
+                <button
+                    type="submit"
+                    disabled={!canSubmit || inviteUser.isPending}
+                    className="inline-flex items-center gap-1 rounded-lg bg-primary px-3 py-1.5 text-xs font-bold text-primary-foreground hover:opacity-90 disabled:opacity-40"
+                >
+                    <Send className="w-3.5 h-3.5" />
+                    Envoyer l'invitation
+                </button>
+                {isExistingUser && (
+                    <p className="w-full text-xs text-amber-700">Ce compte existe déjà: ajoutez l'hôtel dans la colonne « Hôtels et rôles ».</p>
+                )}
+                {inviteUser.isSuccess && (
+                    <p className="w-full text-xs font-semibold text-emerald-600">Invitation envoyée.</p>
+                )}
+                {(inviteUser.isError || revokeInvitation.isError) && (
+                    <p className="w-full text-xs font-semibold text-rose-600">
+                        {((inviteUser.error || revokeInvitation.error) as Error).message}
+                    </p>
+                )}
+            </form>
+
+            {invitations.length > 0 && (
+                <div className="px-6 pb-6 space-y-2">
+                    <p className="text-xs font-bold uppercase text-muted-foreground">Invitations en attente</p>
+                    {invitations.map((invitation) => (
+                        <div key={invitation.id} className="flex items-center gap-3 text-sm">
+                            <span className="min-w-[240px] font-medium">{invitation.email}</span>
+                            <span className="font-mono text-xs text-muted-foreground">{invitation.hotel_id}</span>
+                            <span className="text-xs">{HOTEL_ROLE_LABELS[invitation.role]}</span>
+                            <button
+                                onClick={() => revokeInvitation.mutate(invitation)}
+                                disabled={revokeInvitation.isPending}
+                                className="p-1 hover:bg-muted rounded text-muted-foreground hover:text-rose-600"
+                                title="Annuler l'invitation"
+                            >
+                                <Trash2 className="w-3.5 h-3.5" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
+
 export const AdminPanel: React.FC = () => {
+    const { profile } = useAuthStore()
+    const { data: myHotels = [] } = useUserHotels()
+    const { data: memberships = [] } = useHotelMemberships()
+    const updateUserProfile = useUpdateUserProfile()
+    const resetDashboardConfig = useResetDashboardConfig()
+    const isPlatformAdmin = profile?.role === 'admin'
+
+    // Same rule as hotel_role() in USER_ROLES.sql.
+    const managerRoleFor = (hotelId: string): HotelRole | null => {
+        if (isPlatformAdmin) return 'group_admin'
+        return myHotels.find((hotel) => hotel.hotelId === hotelId)?.role ?? null
+    }
+
     const { data: users, isLoading } = useQuery({
         queryKey: ['admin-users'],
         queryFn: async (): Promise<UserProfile[]> => {
@@ -100,7 +357,8 @@ export const AdminPanel: React.FC = () => {
                                 <th className="px-6 py-4">Utilisateur</th>
                                 <th className="px-6 py-4">Email</th>
                                 <th className="px-6 py-4">Rôle</th>
-                                <th className="px-6 py-4">Hôtel ID</th>
+                                <th className="px-6 py-4">Hôtel par défaut</th>
+                                <th className="px-6 py-4">Hôtels et rôles</th>
                                 <th className="px-6 py-4">Actions</th>
                             </tr>
                         </thead>
@@ -122,24 +380,88 @@ export const AdminPanel: React.FC = () => {
                                             {user.role === 'admin' ? <Shield className="w-3 h-3" /> : null}
                                             {user.role}
                                         </span>
+                                        {!user.is_active && (
+                                            <span className="ml-2 inline-flex px-2 py-1 rounded-full text-xs font-bold bg-muted text-muted-foreground">
+                                                désactivé
+                                            </span>
+                                        )}
+                                    </td>
+                                    <td className="px-6 py-4 text-sm font-mono text-muted-foreground">
+                                        {isPlatformAdmin ? (
+                                            <select
+                                                value={user.hotel_id || ''}
+                                                disabled={updateUserProfile.isPending}
+                                                onChange={(event) => updateUserProfile.mutate({ profile: user, changes: { hotel_id: event.target.value || null } })}
+                                                className="rounded-md border bg-background px-2 py-1 text-xs"
+                                            >
+                                                <option value="">N/A</option>
+                                                {(hotels || []).map((hotel) => (
+                                                    <option key={hotel.id} value={getHotelKey(hotel)}>{hotel.name || getHotelKey(hotel)}</option>
+                                                ))}
+                                            </select>
+                                        ) : (
+                                            user.hotel_id || 'N/A'
+                                        )}
                                     </td>
-                                    <td className="px-6 py-4 text-sm font-mono text-muted-foreground">{user.hotel_id || 'N/A'}</td>
                                     <td className="px-6 py-4">
-                                        <div className="flex items-center gap-2">
-                                            <button className="p-1.5 hover:bg-muted rounded text-muted-foreground" title="Désactiver">
-                                                <UserX className="w-4 h-4" />
-                                            </button>
-                                            <button className="p-1.5 hover:bg-muted rounded text-primary" title="Promouvoir">
-                                                <UserCheck className="w-4 h-4" />
-                                            </button>
-                                        </div>
+                                        <UserHotelRoles
+                                            userId={user.user_id}
+                                            memberships={memberships.filter((membership) => membership.user_id === user.user_id)}
+                                            hotels={hotels || []}
+                                            managerRoleFor={managerRoleFor}
+                                        />
+                                    </td>
+                                    <td className="px-6 py-4">
+                                        {/* Activation, platform role and reset are reserved to the super administrator (ADMIN_USERS.sql). */}
+                                        {isPlatformAdmin && user.user_id !== profile?.user_id && (
+                                            <div className="flex items-center gap-2">
+                                                <button
+                                                    onClick={() => updateUserProfile.mutate({ profile: user, changes: { is_active: !user.is_active } })}
+                                                    disabled={updateUserProfile.isPending}
+                                                    className={`p-1.5 hover:bg-muted rounded ${user.is_active ? 'text-muted-foreground' : 'text-primary'}`}
+                                                    title={user.is_active ? 'Désactiver' : 'Réactiver'}
+                                                >
+                                                    {user.is_active ? <UserX className="w-4 h-4" /> : <UserCheck className="w-4 h-4" />}
+                                                </button>
+                                                <button
+                                                    onClick={() => updateUserProfile.mutate({ profile: user, changes: { role: user.role === 'admin' ? 'user' : 'admin' } })}
+                                                    disabled={updateUserProfile.isPending}
+                                                    className="p-1.5 hover:bg-muted rounded text-primary"
+                                                    title={user.role === 'admin' ? 'Retirer les droits administrateur' : 'Promouvoir administrateur'}
+                                                >
+                                                    {user.role === 'admin' ? <ShieldOff className="w-4 h-4" /> : <Shield className="w-4 h-4" />}
+                                                </button>
+                                                <button
+                                                    onClick={() => {
+                                                        if (!window.confirm(`Réinitialiser la configuration du dashboard de ${user.email} ?`)) return
+                                                        resetDashboardConfig.mutate(user)
+                                                    }}
+                                                    disabled={resetDashboardConfig.isPending}
+                                                    className="p-1.5 hover:bg-muted rounded text-muted-foreground"
+                                                    title="Réinitialiser la configuration du dashboard"
+                                                >
+                                                    <RotateCcw className="w-4 h-4" />
+                                                </button>
+                                            </div>
+                                        )}
                                     </td>
                                 </tr>
                             ))}
                         </tbody>
                     </table>
                 </div>
+                {(updateUserProfile.isError || resetDashboardConfig.isError) && (
+                    <p className="px-6 py-3 border-t text-xs font-semibold text-rose-600">
+                        {((updateUserProfile.error || resetDashboardConfig.error) as Error).message}
+                    </p>
+                )}
             </div>
+
+            <InviteUsers hotels={hotels || []} users={users || []} managerRoleFor={managerRoleFor} />
+
+            <HotelsEditor hotels={hotels || []} isPlatformAdmin={isPlatformAdmin} managerRoleFor={managerRoleFor} />
+
+            <AdminAuditLog users={users || []} />
         </div>
     )
 }
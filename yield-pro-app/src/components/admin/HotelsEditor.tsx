@@ -0,0 +1,291 @@
+import React, { useState } from 'react'
+import { Building2, Pencil, Plus, Save, Trash2, X } from 'lucide-react'
+import { useDeleteCompetitor, useSaveCompetitor, useSaveHotel, type CompetitorDraft, type HotelDraft } from '../../hooks/useAdmin'
+import { useCompetitorsSettings } from '../../hooks/useHotels'
+import type { Database } from '../../types/database.types'
+import { hasPermission, type HotelRole } from '../../utils/permissions'
+import { OtaConfigEditor } from './OtaConfigEditor'
+
+type HotelRow = Database['public']['Tables']['hotels']['Row']
+type CompetitorRow = Database['public']['Tables']['hotels_concurrents']['Row']
+
+type HotelPanel = 'competitors' | 'distribution'
+
+const EMPTY_HOTEL: HotelDraft = { hotel_id: '', code: '', name: '' }
+
+const inputClassName = 'rounded-md border bg-background px-2 py-1 text-sm'
+
+type HotelCompetitorsProps = {
+    hotelId: string
+}
+
+/** Competitor list of one hotel: add, rename, change source or order, deactivate, delete. */
+const HotelCompetitors: React.FC<HotelCompetitorsProps> = ({ hotelId }) => {
+    const { data: competitors = [], isLoading } = useCompetitorsSettings(hotelId)
+    const saveCompetitor = useSaveCompetitor()
+    const deleteCompetitor = useDeleteCompetitor()
+    const [newName, setNewName] = useState('')
+    const [newSource, setNewSource] = useState('')
+    const isPending = saveCompetitor.isPending || deleteCompetitor.isPending
+
+    const toDraft = (competitor: CompetitorRow): CompetitorDraft => ({
+        id: competitor.id,
+        hotel_id: hotelId,
+        competitor_name: competitor.competitor_name,
+        source: competitor.source,
+        display_order: competitor.display_order,
+        is_active: competitor.is_active,
+    })
+
+    const addCompetitor = () => {
+        saveCompetitor.mutate({
+            hotel_id: hotelId,
+            competitor_name: newName.trim(),
+            source: newSource.trim() || null,
+            display_order: competitors.reduce((max, row) => Math.max(max, row.display_order ?? 0), 0) + 1,
+            is_active: true,
+        })
+        setNewName('')
+        setNewSource('')
+    }
+
+    if (isLoading) return <div className="animate-pulse text-sm text-muted-foreground">Chargement des concurrents...</div>
+
+    return (
+        <div className="space-y-2">
+            {competitors.length === 0 && <p className="text-sm text-muted-foreground">Aucun concurrent pour cet hôtel.</p>}
+            {competitors.map((competitor) => (
+                <div key={competitor.id} className="flex flex-wrap items-center gap-2 text-sm">
+                    <input
+                        type="number"
+                        defaultValue={competitor.display_order ?? 0}
+                        onBlur={(event) => {
+                            const displayOrder = Number(event.target.value)
+                            if (displayOrder === competitor.display_order) return
+                            saveCompetitor.mutate({ ...toDraft(competitor), display_order: displayOrder })
+                        }}
+                        className={`${inputClassName} w-16`}
+                        title="Ordre d'affichage"
+                    />
+                    <input
+                        defaultValue={competitor.competitor_name ?? ''}
+                        onBlur={(event) => {
+                            const name = event.target.value.trim()
+                            if (!name || name === competitor.competitor_name) return
+                            saveCompetitor.mutate({ ...toDraft(competitor), competitor_name: name })
+                        }}
+                        className={`${inputClassName} min-w-[200px]`}
+                    />
+                    <input
+                        defaultValue={competitor.source ?? ''}
+                        placeholder="Source"
+                        onBlur={(event) => {
+                            const source = event.target.value.trim() || null
+                            if (source === competitor.source) return
+                            saveCompetitor.mutate({ ...toDraft(competitor), source })
+                        }}
+                        className={`${inputClassName} w-32`}
+                    />
+                    <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                        <input
+                            type="checkbox"
+                            checked={competitor.is_active !== false}
+                            disabled={isPending}
+                            onChange={(event) => saveCompetitor.mutate({ ...toDraft(competitor), is_active: event.target.checked })}
+                        />
+                        Actif
+                    </label>
+                    <button
+                        onClick={() => {
+                            if (!window.confirm(`Supprimer ${competitor.competitor_name} ?`)) return
+                            deleteCompetitor.mutate({ id: competitor.id, competitor_name: competitor.competitor_name, hotel_id: hotelId })
+                        }}
+                        disabled={isPending}
+                        className="p-1 hover:bg-muted rounded text-muted-foreground hover:text-rose-600"
+                        title="Supprimer ce concurrent"
+                    >
+                        <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                </div>
+            ))}
+
+            <div className="flex flex-wrap items-center gap-2 pt-2 text-sm">
+                <input
+                    value={newName}
+                    onChange={(event) => setNewName(event.target.value)}
+                    placeholder="Nouveau concurrent"
+                    className={`${inputClassName} min-w-[200px]`}
+                />
+                <input
+                    value={newSource}
+                    onChange={(event) => setNewSource(event.target.value)}
+                    placeholder="Source"
+                    className={`${inputClassName} w-32`}
+                />
+                <button
+                    onClick={addCompetitor}
+                    disabled={!newName.trim() || isPending}
+                    className="p-1 hover:bg-muted rounded text-primary disabled:opacity-40"
+                    title="Ajouter"
+                >
+                    <Plus className="w-4 h-4" />
+                </button>
+            </div>
+
+            {(saveCompetitor.isError || deleteCompetitor.isError) && (
+                <p className="text-xs font-semibold text-rose-600">
+                    {((saveCompetitor.error || deleteCompetitor.error) as Error).message}
+                </p>
+            )}
+        </div>
+    )
+}
+
+type HotelsEditorProps = {
+    hotels: HotelRow[]
+    isPlatformAdmin: boolean
+    managerRoleFor: (hotelId: string) => HotelRole | null
+}
+
+/**
+ * Hotels (super administrator), their competitor lists and OTA distribution
+ * (any manager of the hotel). Same rules as the hotels / hotels_concurrents
+ * policies in ADMIN_USERS.sql and the ota_* policies in OTA_PARTNERS.sql.
+ */
+export const HotelsEditor: React.FC<HotelsEditorProps> = ({ hotels, isPlatformAdmin, managerRoleFor }) => {
+    const saveHotel = useSaveHotel()
+    const [draft, setDraft] = useState<HotelDraft | null>(null)
+    const [selected, setSelected] = useState<{ hotelId: string; panel: HotelPanel } | null>(null)
+
+    const manageableHotels = hotels.filter((hotel) => hasPermission(managerRoleFor(hotel.hotel_id), 'manage_users'))
+    const isDraftValid = !!draft && draft.hotel_id.trim() !== '' && draft.code.trim() !== ''
+
+    const submitDraft = () => {
+        if (!draft || !isDraftValid) return
+        saveHotel.mutate(
+            { ...draft, hotel_id: draft.hotel_id.trim(), code: draft.code.trim(), name: draft.name?.trim() || null },
+            { onSuccess: () => setDraft(null) }
+        )
+    }
+
+    return (
+        <div className="bg-card border rounded-xl shadow-sm overflow-hidden">
+            <div className="p-6 border-b flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <Building2 className="w-5 h-5 text-muted-foreground" />
+                    <h3 className="font-bold">Hôtels, concurrents et distribution</h3>
+                </div>
+                {isPlatformAdmin && !draft && (
+                    <button
+                        onClick={() => setDraft(EMPTY_HOTEL)}
+                        className="inline-flex items-center gap-1 rounded-lg bg-primary px-3 py-1.5 text-xs font-bold text-primary-foreground hover:opacity-90"
+                    >
+                        <Plus className="w-3.5 h-3.5" />
+                        Nouvel hôtel
+                    </button>
+                )}
+            </div>
+
+            {draft && (
+                <div className="p-6 border-b bg-muted/30 flex flex-wrap items-end gap-3 text-sm">
+                    <label className="flex flex-col gap-1">
+                        <span className="text-xs font-semibold text-muted-foreground">Identifiant (hotel_id)</span>
+                        <input
+                            value={draft.hotel_id}
+                            disabled={!!draft.id}
+                            onChange={(event) => setDraft({ ...draft, hotel_id: event.target.value })}
+                            className={`${inputClassName} disabled:opacity-60`}
+                        />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        <span className="text-xs font-semibold text-muted-foreground">Code</span>
+                        <input
+                            value={draft.code}
+                            onChange={(event) => setDraft({ ...draft, code: event.target.value })}
+                            className={inputClassName}
+                        />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        <span className="text-xs font-semibold text-muted-foreground">Nom</span>
+                        <input
+                            value={draft.name ?? ''}
+                            onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+                            className={`${inputClassName} min-w-[240px]`}
+                        />
+                    </label>
+                    <button
+                        onClick={submitDraft}
+                        disabled={!isDraftValid || saveHotel.isPending}
+                        className="inline-flex items-center gap-1 rounded-lg bg-primary px-3 py-1.5 text-xs font-bold text-primary-foreground hover:opacity-90 disabled:opacity-40"
+                    >
+                        <Save className="w-3.5 h-3.5" />
+                        Enregistrer
+                    </button>
+                    <button
+                        onClick={() => setDraft(null)}
+                        className="p-1.5 hover:bg-muted rounded text-muted-foreground"
+                        title="Annuler"
+                    >
+                        <X className="w-4 h-4" />
+                    </button>
+                    {saveHotel.isError && (
+                        <p className="w-full text-xs font-semibold text-rose-600">{(saveHotel.error as Error).message}</p>
+                    )}
+                </div>
+            )}
+
+            <div className="divide-y divide-border">
+                {manageableHotels.length === 0 && (
+                    <p className="p-6 text-sm text-muted-foreground">Aucun hôtel à gérer.</p>
+                )}
+                {manageableHotels.map((hotel) => {
+                    const panel = selected?.hotelId === hotel.hotel_id ? selected.panel : null
+                    const togglePanel = (next: HotelPanel) => setSelected(panel === next ? null : { hotelId: hotel.hotel_id, panel: next })
+                    return (
+                        <div key={hotel.id} className="px-6 py-4">
+                            <div className="flex items-center justify-between gap-3">
+                                <div>
+                                    <p className="font-medium">{hotel.name || hotel.hotel_id}</p>
+                                    <p className="text-xs font-mono text-muted-foreground">{hotel.hotel_id} - {hotel.code}</p>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    {isPlatformAdmin && (
+                                        <button
+                                            onClick={() => setDraft({ id: hotel.id, hotel_id: hotel.hotel_id, code: hotel.code, name: hotel.name })}
+                                            className="p-1.5 hover:bg-muted rounded text-muted-foreground"
+                                            title="Modifier l'hôtel"
+                                        >
+                                            <Pencil className="w-4 h-4" />
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => togglePanel('competitors')}
+                                        className="rounded-lg border px-3 py-1 text-xs font-semibold hover:bg-muted"
+                                    >
+                                        {panel === 'competitors' ? 'Masquer les concurrents' : 'Concurrents'}
+                                    </button>
+                                    <button
+                                        onClick={() => togglePanel('distribution')}
+                                        className="rounded-lg border px-3 py-1 text-xs font-semibold hover:bg-muted"
+                                    >
+                                        {panel === 'distribution' ? 'Masquer la distribution' : 'Distribution OTA'}
+                                    </button>
+                                </div>
+                            </div>
+                            {panel === 'competitors' && (
+                                <div className="mt-4">
+                                    <HotelCompetitors hotelId={hotel.hotel_id} />
+                                </div>
+                            )}
+                            {panel === 'distribution' && (
+                                <div className="mt-4">
+                                    <OtaConfigEditor hotelId={hotel.hotel_id} />
+                                </div>
+                            )}
+                        </div>
+                    )
+                })}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,258 @@
+import React, { useMemo, useState } from 'react'
+import { addDays, startOfDay } from 'date-fns'
+import { AlertTriangle, ArrowDown, ArrowUp, Plus, Save, Trash2, X } from 'lucide-react'
+import { useOtaConfig, useSaveOtaConfig } from '../../hooks/useOtaConfig'
+import { usePlanningTarifs } from '../../hooks/usePlanningTarifs'
+import { findUnknownPlanCodes, type OtaConfig, type OtaPartnerConfig } from '../../utils/otaConfig'
+import { extractPlanCode } from '../../utils/ratePlanRules'
+
+// Plan codes and room types are checked against the coming months of planning_tarifs.
+const PLANNING_LOOKAHEAD_DAYS = 180
+
+const inputClassName = 'rounded-md border bg-background px-2 py-1 text-sm'
+
+const moveItem = <T,>(items: T[], index: number, delta: number): T[] => {
+    const target = index + delta
+    if (target < 0 || target >= items.length) return items
+    const next = [...items]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    return next
+}
+
+type OrderListProps = {
+    title: string
+    items: string[]
+    options: string[]
+    isUnknown?: (item: string) => boolean
+    onChange: (items: string[]) => void
+}
+
+/** Ordered list with move up / down, remove, and an add select fed by planning_tarifs. */
+const OrderList: React.FC<OrderListProps> = ({ title, items, options, isUnknown, onChange }) => {
+    const available = options.filter((option) => !items.includes(option))
+
+    return (
+        <div className="space-y-2">
+            <p className="text-xs font-semibold text-muted-foreground">{title}</p>
+            {items.length === 0 && <p className="text-sm text-muted-foreground">Ordre de planning_tarifs.</p>}
+            {items.map((item, index) => (
+                <div key={item} className="flex items-center gap-2 text-sm">
+                    <span className="w-6 text-right text-xs text-muted-foreground">{index + 1}</span>
+                    <span className={`flex-1 ${isUnknown?.(item) ? 'text-rose-600' : ''}`} title={isUnknown?.(item) ? 'Absent de planning_tarifs' : undefined}>
+                        {item}
+                    </span>
+                    <button onClick={() => onChange(moveItem(items, index, -1))} disabled={index === 0} className="p-1 hover:bg-muted rounded text-muted-foreground disabled:opacity-30" title="Monter">
+                        <ArrowUp className="w-3.5 h-3.5" />
+                    </button>
+                    <button onClick={() => onChange(moveItem(items, index, 1))} disabled={index === items.length - 1} className="p-1 hover:bg-muted rounded text-muted-foreground disabled:opacity-30" title="Descendre">
+                        <ArrowDown className="w-3.5 h-3.5" />
+                    </button>
+                    <button onClick={() => onChange(items.filter((entry) => entry !== item))} className="p-1 hover:bg-muted rounded text-muted-foreground hover:text-rose-600" title="Retirer">
+                        <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                </div>
+            ))}
+            {available.length > 0 && (
+                <select
+                    value=""
+                    onChange={(event) => event.target.value && onChange([...items, event.target.value])}
+                    className={`${inputClassName} w-full`}
+                >
+                    <option value="">Ajouter...</option>
+                    {available.map((option) => (
+                        <option key={option} value={option}>{option}</option>
+                    ))}
+                </select>
+            )}
+        </div>
+    )
+}
+
+type OtaConfigEditorProps = {
+    hotelId: string
+}
+
+/**
+ * Distribution partners of one hotel (commission and plan codes) and the
+ * display order of its room types and rate plans. Codes absent from
+ * planning_tarifs are flagged and block the save.
+ */
+export const OtaConfigEditor: React.FC<OtaConfigEditorProps> = ({ hotelId }) => {
+    const { data: savedConfig, isLoading } = useOtaConfig(hotelId)
+    const saveConfig = useSaveOtaConfig(hotelId)
+    const [today] = useState(() => startOfDay(new Date()))
+    const { data: planningTarifs = [], isLoading: loadingPlanning } = usePlanningTarifs(hotelId, today, addDays(today, PLANNING_LOOKAHEAD_DAYS))
+    const [draft, setDraft] = useState<OtaConfig | null>(null)
+    const [newPartner, setNewPartner] = useState('')
+    const config = draft ?? savedConfig
+
+    const planningPlanCodes = useMemo(
+        () => Array.from(new Set(planningTarifs.map((row) => extractPlanCode(row.plan_tarifaire)).filter(Boolean))).sort((a, b) => a.localeCompare(b)),
+        [planningTarifs]
+    )
+    const planningRoomTypes = useMemo(
+        () => Array.from(new Set(planningTarifs.map((row) => row.type_de_chambre).filter((value): value is string => Boolean(value)))).sort((a, b) => a.localeCompare(b)),
+        [planningTarifs]
+    )
+    const issues = useMemo(
+        () => (config ? findUnknownPlanCodes(config, planningTarifs.map((row) => row.plan_tarifaire)) : []),
+        [config, planningTarifs]
+    )
+    const knownCodes = useMemo(() => new Set(planningPlanCodes), [planningPlanCodes])
+    const isUnknownCode = (planCode: string) => !knownCodes.has(extractPlanCode(planCode))
+
+    if (isLoading || loadingPlanning || !config) {
+        return <div className="animate-pulse text-sm text-muted-foreground">Chargement de la distribution...</div>
+    }
+
+    const updatePartner = (partner: string, patch: Partial<OtaPartnerConfig>) => {
+        setDraft({ ...config, partners: config.partners.map((entry) => (entry.partner === partner ? { ...entry, ...patch } : entry)) })
+    }
+
+    const addPartner = () => {
+        const partner = newPartner.trim()
+        if (!partner || config.partners.some((entry) => entry.partner.toLowerCase() === partner.toLowerCase())) return
+        setDraft({ ...config, partners: [...config.partners, { partner, commissionPct: 0, planCodes: [] }] })
+        setNewPartner('')
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="space-y-3">
+                {config.partners.map((entry, index) => (
+                    <div key={entry.partner} className="rounded-lg border p-3 space-y-2">
+                        <div className="flex flex-wrap items-center gap-2 text-sm">
+                            <span className="font-medium flex-1 min-w-[200px]">{entry.partner}</span>
+                            <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                                Commission
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={100}
+                                    step={0.5}
+                                    value={entry.commissionPct}
+                                    onChange={(event) => updatePartner(entry.partner, { commissionPct: Math.min(100, Math.max(0, Number(event.target.value) || 0)) })}
+                                    className={`${inputClassName} w-20 text-right`}
+                                />
+                                %
+                            </label>
+                            <button
+                                onClick={() => setDraft({ ...config, partners: moveItem(config.partners, index, -1) })}
+                                disabled={index === 0}
+                                className="p-1 hover:bg-muted rounded text-muted-foreground disabled:opacity-30"
+                                title="Monter"
+                            >
+                                <ArrowUp className="w-3.5 h-3.5" />
+                            </button>
+                            <button
+                                onClick={() => setDraft({ ...config, partners: moveItem(config.partners, index, 1) })}
+                                disabled={index === config.partners.length - 1}
+                                className="p-1 hover:bg-muted rounded text-muted-foreground disabled:opacity-30"
+                                title="Descendre"
+                            >
+                                <ArrowDown className="w-3.5 h-3.5" />
+                            </button>
+                            <button
+                                onClick={() => {
+                                    if (!window.confirm(`Retirer ${entry.partner} ?`)) return
+                                    setDraft({ ...config, partners: config.partners.filter((item) => item.partner !== entry.partner) })
+                                }}
+                                className="p-1 hover:bg-muted rounded text-muted-foreground hover:text-rose-600"
+                                title="Retirer ce partenaire"
+                            >
+                                <Trash2 className="w-3.5 h-3.5" />
+                            </button>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-1.5">
+                            {entry.planCodes.map((planCode) => (
+                                <span
+                                    key={planCode}
+                                    className={`inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-mono ${isUnknownCode(planCode) ? 'border-rose-300 bg-rose-50 text-rose-700' : 'bg-muted/40'}`}
+                                    title={isUnknownCode(planCode) ? 'Absent de planning_tarifs' : undefined}
+                                >
+                                    {planCode}
+                                    <button
+                                        onClick={() => updatePartner(entry.partner, { planCodes: entry.planCodes.filter((code) => code !== planCode) })}
+                                        className="hover:text-rose-600"
+                                        title="Retirer ce plan"
+                                    >
+                                        <X className="w-3 h-3" />
+                                    </button>
+                                </span>
+                            ))}
+                            <select
+                                value=""
+                                onChange={(event) => event.target.value && updatePartner(entry.partner, { planCodes: [...entry.planCodes, event.target.value] })}
+                                className={`${inputClassName} text-xs`}
+                            >
+                                <option value="">Ajouter un plan...</option>
+                                {planningPlanCodes
+                                    .filter((code) => !entry.planCodes.some((planCode) => extractPlanCode(planCode) === code))
+                                    .map((code) => (
+                                        <option key={code} value={code}>{code}</option>
+                                    ))}
+                            </select>
+                        </div>
+                    </div>
+                ))}
+
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <input
+                        value={newPartner}
+                        onChange={(event) => setNewPartner(event.target.value)}
+                        placeholder="Nouveau partenaire, ex. Expedia (1903)"
+                        className={`${inputClassName} min-w-[260px]`}
+                    />
+                    <button onClick={addPartner} disabled={!newPartner.trim()} className="p-1 hover:bg-muted rounded text-primary disabled:opacity-40" title="Ajouter">
+                        <Plus className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+                <OrderList
+                    title="Ordre des types de chambre"
+                    items={config.roomOrder}
+                    options={planningRoomTypes}
+                    onChange={(roomOrder) => setDraft({ ...config, roomOrder })}
+                />
+                <OrderList
+                    title="Ordre des plans tarifaires"
+                    items={config.planOrder}
+                    options={planningPlanCodes.filter((code) => !config.planOrder.some((entry) => extractPlanCode(entry) === code))}
+                    isUnknown={isUnknownCode}
+                    onChange={(planOrder) => setDraft({ ...config, planOrder })}
+                />
+            </div>
+
+            {issues.length > 0 && (
+                <div className="rounded-lg border border-rose-200 bg-rose-50 p-3 text-xs text-rose-700">
+                    <p className="flex items-center gap-1 font-semibold">
+                        <AlertTriangle className="w-3.5 h-3.5" />
+                        {issues.length} code(s) absent(s) de planning_tarifs sur les {PLANNING_LOOKAHEAD_DAYS} prochains jours
+                    </p>
+                    <p className="mt-1">
+                        {issues.map((issue) => `${issue.planCode} (${issue.partner ?? 'ordre des plans'})`).join(', ')}
+                    </p>
+                </div>
+            )}
+
+            <div className="flex items-center gap-2">
+                <button
+                    onClick={() => draft && saveConfig.mutate(draft, { onSuccess: () => setDraft(null) })}
+                    disabled={!draft || issues.length > 0 || saveConfig.isPending}
+                    className="inline-flex items-center gap-1 rounded-lg bg-primary px-3 py-1.5 text-xs font-bold text-primary-foreground hover:opacity-90 disabled:opacity-40"
+                >
+                    <Save className="w-3.5 h-3.5" />
+                    {saveConfig.isPending ? 'Enregistrement...' : 'Enregistrer la distribution'}
+                </button>
+                {draft && (
+                    <button onClick={() => setDraft(null)} className="rounded-lg border px-3 py-1.5 text-xs font-semibold hover:bg-muted">
+                        Annuler
+                    </button>
+                )}
+            </div>
+            {saveConfig.isError && <p className="text-xs font-semibold text-rose-600">{(saveConfig.error as Error).message}</p>}
+        </div>
+    )
+}
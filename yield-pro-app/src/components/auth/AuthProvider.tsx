@@ -24,6 +24,13 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
                         .eq('user_id', session.user.id)
                         .maybeSingle();
 
+                    // Compte désactivé par un administrateur: on ferme la session
+                    if (data && (data as UserProfile).is_active === false) {
+                        await supabase.auth.signOut();
+                        useAuthStore.setState({ user: null, profile: null, accountDisabled: true });
+                        return;
+                    }
+
                     if (isMounted && data) {
                         setProfile(data as UserProfile);
                     }
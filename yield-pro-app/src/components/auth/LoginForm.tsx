@@ -1,5 +1,6 @@
 import React, { useState } from 'react'
 import { supabase } from '../../lib/supabase'
+import { useAuthStore } from '../../store/useAuthStore'
 import { LogIn, Mail, Lock, Loader2 } from 'lucide-react'
 
 export const LoginForm: React.FC = () => {
@@ -7,11 +8,13 @@ export const LoginForm: React.FC = () => {
     const [password, setPassword] = useState('')
     const [loading, setLoading] = useState(false)
     const [error, setError] = useState<string | null>(null)
+    const accountDisabled = useAuthStore((state) => state.accountDisabled)
 
     const handleLogin = async (e: React.FormEvent) => {
         e.preventDefault()
         setLoading(true)
         setError(null)
+        useAuthStore.setState({ accountDisabled: false })
 
         const { error } = await supabase.auth.signInWithPassword({
             email,
@@ -77,6 +80,12 @@ export const LoginForm: React.FC = () => {
                     </div>
                 </div>
 
+                {accountDisabled && (
+                    <div className="p-3 text-sm text-amber-700 bg-amber-500/10 rounded-lg border border-amber-500/20">
+                        Ce compte a été désactivé par un administrateur.
+                    </div>
+                )}
+
                 {error && (
                     <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-lg border border-destructive/20">
                         {error}
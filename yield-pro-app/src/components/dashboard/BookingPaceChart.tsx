@@ -0,0 +1,109 @@
+import React, { useState } from 'react'
+import {
+    CartesianGrid,
+    Line,
+    LineChart,
+    ResponsiveContainer,
+    Tooltip,
+    XAxis,
+    YAxis
+} from 'recharts'
+import { formatCurrency } from '../../utils/formatters'
+import type { PaceComparison } from '../../utils/bookingPace'
+
+interface BookingPaceChartProps {
+    comparison: PaceComparison
+    scopeLabel: string
+}
+
+type PaceMetric = 'rooms' | 'revenue'
+
+const formatGap = (value: number | null) => {
+    if (value === null) return '-'
+    return `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`
+}
+
+const gapClass = (value: number | null) => {
+    if (value === null) return 'text-slate-500'
+    return value >= 0 ? 'text-emerald-700' : 'text-rose-700'
+}
+
+export const BookingPaceChart: React.FC<BookingPaceChartProps> = ({ comparison, scopeLabel }) => {
+    const [metric, setMetric] = useState<PaceMetric>('rooms')
+    const keys = metric === 'rooms'
+        ? { current: 'rooms', stly: 'stlyRooms', reference: 'referenceRooms' }
+        : { current: 'revenue', stly: 'stlyRevenue', reference: 'referenceRevenue' }
+    const formatValue = (value: number) => (metric === 'rooms' ? `${value.toFixed(0)} ch.` : formatCurrency(value))
+
+    return (
+        <div className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+            <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+                <div>
+                    <h3 className="text-sm font-black uppercase tracking-[0.14em] text-slate-700">Booking Pace J-90 a J-0</h3>
+                    <p className="text-xs text-slate-500">{scopeLabel} · {comparison.stayDates.length} date(s) de sejour</p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <button
+                        type="button"
+                        onClick={() => setMetric('rooms')}
+                        className={`rounded-lg px-3 py-1.5 text-xs font-bold ${metric === 'rooms' ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-600'}`}
+                    >
+                        Chambres
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => setMetric('revenue')}
+                        className={`rounded-lg px-3 py-1.5 text-xs font-bold ${metric === 'revenue' ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-600'}`}
+                    >
+                        CA
+                    </button>
+                </div>
+            </div>
+
+            <div className="mb-4 grid grid-cols-2 gap-3 md:grid-cols-4">
+                <div className="rounded-xl bg-slate-50 p-3"><p className="text-xs text-slate-500">On the books</p><p className="text-xl font-black">{comparison.roomsOnBooks.toFixed(0)} ch.</p></div>
+                <div className="rounded-xl bg-slate-50 p-3"><p className="text-xs text-slate-500">STLY meme J-x</p><p className="text-xl font-black">{comparison.stlyRoomsAtSameDaysOut.toFixed(0)} ch.</p></div>
+                <div className="rounded-xl bg-slate-50 p-3"><p className="text-xs text-slate-500">Pace vs STLY</p><p className={`text-xl font-black ${gapClass(comparison.paceVsStlyPct)}`}>{formatGap(comparison.paceVsStlyPct)}</p></div>
+                <div className="rounded-xl bg-slate-50 p-3"><p className="text-xs text-slate-500">Pace vs reference</p><p className={`text-xl font-black ${gapClass(comparison.paceVsReferencePct)}`}>{formatGap(comparison.paceVsReferencePct)}</p></div>
+            </div>
+
+            <div className="h-[320px] w-full min-w-0">
+                <ResponsiveContainer width="100%" height={300}>
+                    <LineChart data={comparison.points}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                        <XAxis dataKey="label" tick={{ fontSize: 10, fontWeight: 'bold' }} tickLine={false} axisLine={false} interval={9} />
+                        <YAxis
+                            tick={{ fontSize: 10, fontWeight: 'bold' }}
+                            tickLine={false}
+                            axisLine={false}
+                            tickFormatter={(val) => (metric === 'rooms' ? `${val}` : `${Math.round(Number(val) / 1000)}k€`)}
+                        />
+                        <Tooltip
+                            formatter={(value: number | string | undefined, name) => {
+                                const numeric = typeof value === 'number' ? value : Number(value ?? 0)
+                                return [Number.isFinite(numeric) ? formatValue(numeric) : '-', String(name)]
+                            }}
+                            contentStyle={{
+                                borderRadius: '10px',
+                                border: '1px solid #cbd5e1',
+                                backgroundColor: '#ffffff',
+                                color: '#0f172a',
+                                fontSize: '12px',
+                                fontWeight: 700,
+                            }}
+                        />
+                        <Line type="monotone" dataKey={keys.current} name="Actuel" stroke="#6366f1" strokeWidth={3} dot={false} connectNulls={false} />
+                        <Line type="monotone" dataKey={keys.stly} name="STLY" stroke="#f59e0b" strokeWidth={2} dot={false} />
+                        <Line type="monotone" dataKey={keys.reference} name="Reference" stroke="#10b981" strokeWidth={2} strokeDasharray="5 5" dot={false} />
+                    </LineChart>
+                </ResponsiveContainer>
+            </div>
+
+            <div className="mt-3 grid grid-cols-1 gap-3 rounded-lg border border-slate-200 bg-slate-50 px-4 py-3 text-[10px] font-black uppercase tracking-wide text-slate-600 md:grid-cols-3">
+                <div className="flex items-center gap-2"><div className="h-0.5 w-10 bg-[#6366f1]" /><span>Actuel (cumul on the books)</span></div>
+                <div className="flex items-center gap-2"><div className="h-0.5 w-10 bg-[#f59e0b]" /><span>STLY (meme jour N-1)</span></div>
+                <div className="flex items-center gap-2"><div className="h-0.5 w-10 border-t-2 border-dashed border-[#10b981]" /><span>Reference (moyenne N-1 par jour de semaine)</span></div>
+            </div>
+        </div>
+    )
+}
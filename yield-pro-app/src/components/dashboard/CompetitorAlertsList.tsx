@@ -0,0 +1,77 @@
+import React from 'react'
+import { Link } from 'react-router-dom'
+import { format, parseISO } from 'date-fns'
+import { fr } from 'date-fns/locale'
+import { BellRing, Check, ExternalLink, X } from 'lucide-react'
+import { useCompetitorAlerts, useUpdateCompetitorAlertState } from '../../hooks/useCompetitorAlerts'
+import { COMPETITOR_ALERT_LABELS } from '../../utils/competitorAlerts'
+
+type CompetitorAlertsListProps = {
+  hotelId: string
+}
+
+export const CompetitorAlertsList: React.FC<CompetitorAlertsListProps> = ({ hotelId }) => {
+  const { data: alerts = [], error } = useCompetitorAlerts(hotelId)
+  const updateState = useUpdateCompetitorAlertState(hotelId)
+
+  if (error) {
+    return (
+      <p className="rounded-xl border border-slate-200 bg-slate-50 p-3 text-xs text-slate-500">
+        Alertes concurrence indisponibles: {(error as Error).message}
+      </p>
+    )
+  }
+
+  return (
+    <>
+      {alerts.map((alert) => {
+        const isNew = alert.state === 'new'
+        return (
+          <div
+            key={alert.id}
+            className={`rounded-xl border p-3 ${isNew ? 'border-orange-200 bg-orange-50 text-orange-800' : 'border-slate-200 bg-slate-50 text-slate-600'}`}
+          >
+            <div className="flex items-start gap-3">
+              <BellRing className="mt-0.5 h-4 w-4 shrink-0" />
+              <div className="flex-1">
+                <p className="text-[10px] font-black uppercase tracking-wider opacity-70">
+                  {COMPETITOR_ALERT_LABELS[alert.kind]} - {isNew ? 'nouvelle' : 'prise en compte'}
+                </p>
+                <p className="text-sm font-medium">{alert.message}</p>
+                <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+                  <Link
+                    to={`/grid?date=${alert.stay_date}`}
+                    className="inline-flex items-center gap-1 rounded-lg bg-white/80 px-2 py-1 font-bold hover:bg-white"
+                  >
+                    <ExternalLink className="h-3 w-3" />
+                    Grille du {format(parseISO(alert.stay_date), 'eee dd/MM', { locale: fr })}
+                  </Link>
+                  {isNew && (
+                    <button
+                      type="button"
+                      onClick={() => updateState.mutate({ alert, state: 'acknowledged' })}
+                      disabled={updateState.isPending}
+                      className="inline-flex items-center gap-1 rounded-lg bg-white/80 px-2 py-1 font-bold hover:bg-white"
+                    >
+                      <Check className="h-3 w-3" />
+                      Prendre en compte
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => updateState.mutate({ alert, state: 'resolved' })}
+                    disabled={updateState.isPending}
+                    className="inline-flex items-center gap-1 rounded-lg bg-white/80 px-2 py-1 font-bold hover:bg-white"
+                  >
+                    <X className="h-3 w-3" />
+                    Resoudre
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )
+      })}
+    </>
+  )
+}
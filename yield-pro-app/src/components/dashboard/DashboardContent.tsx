@@ -1,19 +1,27 @@
 ﻿import React, { useMemo, useState } from 'react'
 import { useQueryClient } from '@tanstack/react-query'
-import { format } from 'date-fns'
+import { addDays, eachDayOfInterval, format } from 'date-fns'
 import { fr } from 'date-fns/locale'
-import { useAuthStore } from '../../store/useAuthStore'
 import { useDateRangeStore } from '../../store/useDateRangeStore'
 import { useBookingApercu, useBookingExport } from '../../hooks/useBookingData'
 import { useReservations, useDisponibilites, useEvents } from '../../hooks/useHotelData'
-import { useCompetitorRates, useCompetitorRatesVs3j, useCompetitorRatesVs7j, useCompetitorsList } from '../../hooks/useCompetitorData'
+import { useCompetitorRates, useCompetitorRatesVs3j, useCompetitorRatesVs7j, useCompetitorsList, useCompset } from '../../hooks/useCompetitorData'
 import { useRMSCalculations } from '../../hooks/useRMSCalculations'
+import { useOverbookingPlan } from '../../hooks/useOverbookingPlan'
+import { useChannelCommissions } from '../../hooks/useOtaConfig'
 import { useDashboardConfig } from '../../hooks/useDashboardConfig'
-import { useHotelByHotelId } from '../../hooks/useHotels'
+import { DEFAULT_HOTEL_ID, useActiveHotelId, useHotelByHotelId } from '../../hooks/useHotels'
+import { usePermissions } from '../../hooks/usePermissions'
+import { useAuthStore } from '../../store/useAuthStore'
 import { formatCurrency, formatShortDate } from '../../utils/formatters'
 import { buildTrendSeries } from '../../utils/competitorTrends'
+import { STLY_OFFSET_DAYS, buildPaceComparison } from '../../utils/bookingPace'
+import { eachDateKey, parseDate, toDateKey } from '../../utils/normalization'
+import { summarizeNetRevenue } from '../../utils/channelMix'
 import { FinancialScorecard } from './FinancialScorecard'
 import { YieldChart } from './YieldChart'
+import { BookingPaceChart } from './BookingPaceChart'
+import { CompetitorAlertsList } from './CompetitorAlertsList'
 import { DashboardSidebar } from './DashboardSidebar'
 import {
   AlertTriangle,
@@ -25,33 +33,13 @@ import {
   Gauge,
   Hotel,
   LayoutDashboard,
+  Receipt,
   Sparkles,
   Target,
   TrendingUp,
   Users,
   RefreshCcw,
 } from 'lucide-react'
-import type { Database } from '../../types/database.types'
-
-type BookingApercuRow = Database['public']['Tables']['booking_apercu']['Row']
-type BookingExportRow = Database['public']['Tables']['booking_export']['Row']
-type BookingApercuLike = BookingApercuRow & {
-  date?: string | null
-  own_price?: number | null
-  compset_median?: number | null
-  market_demand?: number | null
-}
-
-type BookingExportLike = BookingExportRow & {
-  total_amount?: number | null
-  purchase_date?: string | null
-  arrival_date?: string | null
-}
-
-type EventRow = Database['public']['Tables']['events_calendar']['Row'] & {
-  start_date?: string | null
-  end_date?: string | null
-}
 
 type BusinessSignal = {
   id: string
@@ -60,123 +48,6 @@ type BusinessSignal = {
   recommendation: string
 }
 
-const ARRIVAL_ALIASES = [
-  "Date d'arrivÃ©e",
-  "Date dâ€™arrivee",
-  "Date d'arrivee",
-  "Date d'arrivÃƒÂ©e",
-  "Date d'arrivÃƒÆ’Ã‚Â©e",
-  "Date d'arrivÃƒÆ’Ã†â€™Ãƒâ€šÃ‚Â©e"
-]
-
-const PURCHASE_ALIASES = [
-  "Date d'achat",
-  "Date dâ€™achat",
-  "Date d\u0027achat"
-]
-
-const CANCELLATION_ALIASES = [
-  "Date d'annulation",
-  "Date dâ€™annulation",
-  "Date dÃ¢â‚¬â„¢annulation",
-  "Date d'annul"
-]
-
-const pickNumber = (record: Record<string, unknown>, aliases: string[]) => {
-  for (const alias of aliases) {
-    const value = record[alias]
-    if (typeof value === 'number') return value
-    if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) return Number(value)
-  }
-  return 0
-}
-
-const pickString = (record: Record<string, unknown>, aliases: string[]) => {
-  for (const alias of aliases) {
-    const value = record[alias]
-    if (typeof value === 'string' && value.trim() !== '') return value
-  }
-  return ''
-}
-
-const toDemandPercent = (rawValue: number) => {
-  if (!Number.isFinite(rawValue)) return 0
-  if (rawValue <= 1) return rawValue * 100
-  return rawValue
-}
-
-const getApercuDemandPercent = (entry: BookingApercuLike) => {
-  const row = entry as Record<string, unknown>
-  const rawDemand = entry.market_demand ?? pickNumber(row, ['Demande du marchÃ©', 'Demande du marche', 'Demande du marchÃƒÂ©', 'Demande du marchÃƒÆ’Ã‚Â©'])
-  return toDemandPercent(rawDemand)
-}
-
-const normalizeDate = (input: string) => {
-  if (!input) return null
-  const parsed = new Date(input)
-  if (!Number.isNaN(parsed.getTime())) return parsed
-
-  if (input.includes('/')) {
-    const [day, month, year] = input.split('/').map(Number)
-    if (day && month && year) {
-      const alt = new Date(year, month - 1, day)
-      if (!Number.isNaN(alt.getTime())) return alt
-    }
-  }
-
-  return null
-}
-
-const toDateKey = (input: string | Date) => {
-  const date = input instanceof Date ? input : normalizeDate(input)
-  if (!date) return ''
-  return format(date, 'yyyy-MM-dd')
-}
-
-const isCancelledStatus = (status: string) => {
-  const lower = status.toLowerCase()
-  return lower.includes('annul') || lower.includes('cancel')
-}
-
-const normalizeText = (value: string) =>
-  value
-    .normalize('NFD')
-    .replace(/[\u0300-\u036f]/g, '')
-    .replace(/[^a-zA-Z0-9]/g, '')
-    .toLowerCase()
-
-const getStayDateKeys = (row: Record<string, unknown>) => {
-  const arrivalRaw =
-    (typeof row.arrival_date === 'string' ? row.arrival_date : '') ||
-    pickString(row, ARRIVAL_ALIASES)
-  const arrival = normalizeDate(arrivalRaw)
-  if (!arrival) return []
-
-  const nightsRaw = pickNumber(row, ['Nuits', 'Nuitees', 'NuitÃ©es'])
-  let nights = nightsRaw > 0 ? Math.floor(nightsRaw) : 0
-
-  if (nights <= 0) {
-    const departureRaw =
-      (typeof row.departure_date === 'string' ? row.departure_date : '') ||
-      pickString(row, ['Date de dÃ©part', 'Date de depart', 'departure_date'])
-    const departure = normalizeDate(departureRaw)
-    if (departure) {
-      const diff = Math.round((departure.getTime() - arrival.getTime()) / (1000 * 60 * 60 * 24))
-      nights = diff > 0 ? diff : 1
-    }
-  }
-
-  if (nights <= 0) nights = 1
-
-  const keys: string[] = []
-  for (let i = 0; i < nights; i += 1) {
-    const d = new Date(arrival)
-    d.setDate(arrival.getDate() + i)
-    keys.push(toDateKey(d))
-  }
-  return keys
-}
-
 const eventToneClass = (tone: BusinessSignal['tone']) => {
   if (tone === 'rose') return 'border-rose-200 bg-rose-50 text-rose-800'
   if (tone === 'cyan') return 'border-cyan-200 bg-cyan-50 text-cyan-800'
@@ -237,30 +108,54 @@ const KpiTile: React.FC<{
 
 export const DashboardContent: React.FC = () => {
   const queryClient = useQueryClient()
-  const { profile } = useAuthStore()
   const { startDate, endDate } = useDateRangeStore()
-  const hotelId = profile?.hotel_id || 'H2258'
+  const hotelId = useActiveHotelId()
+  const { profile } = useAuthStore()
+  // RMS settings belong to the user and are checked against their default hotel.
+  const { can: canOnDefaultHotel } = usePermissions(profile?.hotel_id || DEFAULT_HOTEL_ID)
+  const canEditRms = canOnDefaultHotel('edit_rms_settings')
   const { data: hotel } = useHotelByHotelId(hotelId)
 
   const { config, isLoading: loadingConfig, savePartialConfig, updateConfig } = useDashboardConfig()
 
-  const { data: apercu, isLoading: loadingApercu } = useBookingApercu(hotelId, startDate, endDate)
-  const { data: reservations, isLoading: loadingReservations } = useReservations(hotelId, startDate, endDate)
-  const { data: disponibilites, isLoading: loadingDisponibilites } = useDisponibilites(hotelId, startDate, endDate)
-  const { data: bookingExport } = useBookingExport(hotelId, startDate, endDate)
-  const { data: events } = useEvents(hotelId, startDate, endDate)
-  const { data: competitorRates } = useCompetitorRates(hotelId, startDate, endDate)
-  const { data: competitorRatesVs3j } = useCompetitorRatesVs3j(hotelId, startDate, endDate)
-  const { data: competitorRatesVs7j } = useCompetitorRatesVs7j(hotelId, startDate, endDate)
+  const { data: apercuData, isLoading: loadingApercu } = useBookingApercu(hotelId, startDate, endDate)
+  const { data: reservationsData, isLoading: loadingReservations } = useReservations(hotelId, startDate, endDate)
+  const { data: disponibilitesData, isLoading: loadingDisponibilites } = useDisponibilites(hotelId, startDate, endDate)
+  const { data: bookingExportData } = useBookingExport(hotelId, startDate, endDate)
+  const { data: bookingExportStlyData } = useBookingExport(
+    hotelId,
+    addDays(startDate, -STLY_OFFSET_DAYS),
+    addDays(endDate, -STLY_OFFSET_DAYS)
+  )
+  const { data: eventsData } = useEvents(hotelId, startDate, endDate)
+  const { overLimit: overbookingAlerts } = useOverbookingPlan(hotelId, startDate, endDate)
+  const { data: channelCommissions = [] } = useChannelCommissions(hotelId)
+  const { data: competitorRatesData } = useCompetitorRates(hotelId, startDate, endDate)
+  const { data: competitorRatesVs3jData } = useCompetitorRatesVs3j(hotelId, startDate, endDate)
+  const { data: competitorRatesVs7jData } = useCompetitorRatesVs7j(hotelId, startDate, endDate)
+  const apercu = apercuData?.items
+  const reservations = reservationsData?.items
+  const disponibilites = disponibilitesData?.items
+  const bookingExport = bookingExportData?.items
+  const bookingExportStly = bookingExportStlyData?.items
+  const events = eventsData?.items
+  const competitorRates = competitorRatesData?.items
+  const competitorRatesVs3j = competitorRatesVs3jData?.items
+  const competitorRatesVs7j = competitorRatesVs7jData?.items
   const { data: competitorsList } = useCompetitorsList(hotelId)
+  const compset = useCompset(hotelId)
 
   const { kpis, pricingSuggestions, dailyDecisions, alerts } = useRMSCalculations(
     reservations || [],
     disponibilites || [],
     apercu || [],
     config.rms,
-    events || []
+    events || [],
+    bookingExportStly || [],
+    channelCommissions
   )
+  // Acquisition cost of the booking_export arrivals of the period.
+  const netRevenue = useMemo(() => summarizeNetRevenue(bookingExport || [], channelCommissions), [bookingExport, channelCommissions])
 
   const isLoading = loadingConfig || loadingApercu || loadingReservations || loadingDisponibilites
   const [selectedDashboardDate, setSelectedDashboardDate] = useState<Date>(new Date())
@@ -284,24 +179,21 @@ export const DashboardContent: React.FC = () => {
   }, [apercu, dailyDecisions.length, pricingSuggestions.length])
 
   const chartData = useMemo(() => {
-    const fromApercu = (apercu || []).map((entry) => {
-      const day = entry as BookingApercuLike
-      const row = day as Record<string, unknown>
-      const rawDate = day.date || day.Date || ''
-      const parsed = normalizeDate(rawDate)
+    const fromApercu = (apercu || []).map((day) => {
+      const parsed = parseDate(day.date)
 
       return {
-        date: parsed ? format(parsed, 'dd MMM', { locale: fr }) : formatShortDate(rawDate),
-        price: day.own_price ?? pickNumber(row, ['Votre hôtel le plus bas', 'Votre hÃ´tel le plus bas', 'Votre hÃƒÂ´tel le plus bas']),
-        market: day.compset_median ?? pickNumber(row, ['médiane du compset', 'mÃ©diane du compset', 'mÃƒÂ©diane du compset']),
-        demand: getApercuDemandPercent(day),
+        date: parsed ? format(parsed, 'dd MMM', { locale: fr }) : formatShortDate(day.date),
+        price: day.ownPrice ?? 0,
+        market: day.compsetMedian ?? 0,
+        demand: day.marketDemand ?? 0,
       }
-    }).filter((row) => Number.isFinite(row.price) && Number.isFinite(row.market))
+    })
 
     if (fromApercu.length > 0) return fromApercu
 
     const fromDecisions = dailyDecisions.map((d) => {
-      const parsed = normalizeDate(d.date)
+      const parsed = parseDate(d.date)
       return {
         date: parsed ? format(parsed, 'dd MMM', { locale: fr }) : d.date,
         price: d.currentPrice,
@@ -313,7 +205,7 @@ export const DashboardContent: React.FC = () => {
     if (fromDecisions.length > 0) return fromDecisions
 
     return pricingSuggestions.slice(0, 30).map((s) => {
-      const parsed = normalizeDate(s.date)
+      const parsed = parseDate(s.date)
       return {
         date: parsed ? format(parsed, 'dd MMM', { locale: fr }) : s.date,
         price: s.currentPrice,
@@ -357,10 +249,7 @@ export const DashboardContent: React.FC = () => {
   const eventStats = useMemo(() => {
     if (!events || events.length === 0) return { count: 0, averageImpact: 0 }
 
-    const totalImpact = events.reduce((sum, event) => {
-      const row = event as EventRow & Record<string, unknown>
-      return sum + pickNumber(row, ['Indice impact attendu sur la demande /10'])
-    }, 0)
+    const totalImpact = events.reduce((sum, event) => sum + event.impactScore, 0)
 
     return { count: events.length, averageImpact: totalImpact / events.length }
   }, [events])
@@ -374,22 +263,15 @@ export const DashboardContent: React.FC = () => {
       }
     }
 
-    const parsed = (events as Array<Record<string, unknown>>).map((row, idx) => {
-      const name = pickString(row, ['Ã‰vÃ©nement', 'Ãƒâ€°vÃƒÂ©nement', 'event', 'name']) || `Evenement ${idx + 1}`
-      const advice = pickString(row, ['Conseils yield', 'Pourquoi cet indice', 'advice']) || 'Ajuster progressivement le prix et surveiller le pickup.'
-      const impact10 = pickNumber(row, ['Indice impact attendu sur la demande /10'])
-      const impact = Math.max(0, Math.min(100, impact10 * 10))
-      const startRaw = pickString(row, ['DÃ©but', 'DÃƒÂ©but', 'start_date'])
-      const endRaw = pickString(row, ['Fin', 'end_date']) || startRaw
-      const startDate = normalizeDate(startRaw)
-      const endDate = normalizeDate(endRaw)
-      return { name, advice, impact, startDate, endDate }
-    })
+    const parsed = events.map((event, idx) => ({
+      name: event.name || `Evenement ${idx + 1}`,
+      advice: event.advice || event.rationale || 'Ajuster progressivement le prix et surveiller le pickup.',
+      impact: event.impactPct,
+      startDate: event.startDate,
+      endDate: event.endDate,
+    }))
 
-    const selectedDateEvents = parsed.filter((evt) => {
-      if (!evt.startDate || !evt.endDate) return false
-      return selectedDashboardDate >= evt.startDate && selectedDashboardDate <= evt.endDate
-    })
+    const selectedDateEvents = parsed.filter((evt) => selectedDateKey >= evt.startDate && selectedDateKey <= evt.endDate)
 
     const eventIndex = parsed.length > 0
       ? parsed.reduce((sum, evt) => sum + evt.impact, 0) / parsed.length
@@ -404,7 +286,7 @@ export const DashboardContent: React.FC = () => {
         impact: evt.impact,
       })),
     }
-  }, [events, selectedDashboardDate])
+  }, [events, selectedDateKey])
 
   const bookingInsights = useMemo(() => {
     if (!bookingExport || bookingExport.length === 0) {
@@ -433,17 +315,13 @@ export const DashboardContent: React.FC = () => {
     let leadTimeCount = 0
 
     bookingExport.forEach((reservation) => {
-      const row = reservation as BookingExportLike & Record<string, unknown>
-      const status = typeof row.Etat === 'string' ? row.Etat : ''
-      const arrivalRaw = row.arrival_date || pickString(row, ARRIVAL_ALIASES)
-      const purchaseRaw = row.purchase_date || pickString(row, PURCHASE_ALIASES)
-      const arrivalDate = normalizeDate(arrivalRaw)
+      const arrivalDate = parseDate(reservation.arrivalDate)
       if (!arrivalDate || arrivalDate < now) return
 
-      const amount = parseFloat(String(row.total_amount ?? pickNumber(row, ['Montant total']) ?? 0)) || 0
-      const nights = parseFloat(String(row.Nuits ?? 0)) || 0
-      const rooms = parseFloat(String(row.Chambres ?? 0)) || 0
-      const cancelled = isCancelledStatus(status)
+      const amount = reservation.totalAmount
+      const nights = reservation.nights
+      const rooms = reservation.rooms
+      const cancelled = reservation.isCancelled
 
       upcomingCount += 1
       upcomingNights += nights
@@ -456,8 +334,8 @@ export const DashboardContent: React.FC = () => {
         confirmedRevenue += amount
       }
 
-      if (purchaseRaw) {
-        const purchaseDate = normalizeDate(purchaseRaw)
+      if (reservation.purchaseDate) {
+        const purchaseDate = parseDate(reservation.purchaseDate)
         if (purchaseDate) {
           const leadDays = Math.max(0, Math.round((arrivalDate.getTime() - purchaseDate.getTime()) / (1000 * 3600 * 24)))
           cumulativeLeadTime += leadDays
@@ -465,7 +343,7 @@ export const DashboardContent: React.FC = () => {
         }
       }
 
-      const dateKey = format(arrivalDate, 'yyyy-MM-dd')
+      const dateKey = reservation.arrivalDate
       const current = dateMap.get(dateKey) || { reservations: 0, rooms: 0, nights: 0, revenue: 0, cancellations: 0 }
       current.reservations += 1
       current.rooms += rooms
@@ -516,16 +394,8 @@ export const DashboardContent: React.FC = () => {
     const byArrival = new Map<string, number>()
 
     bookingExport.forEach((reservation) => {
-      const row = reservation as Record<string, unknown>
-      const purchaseRaw =
-        (typeof row.purchase_date === 'string' ? row.purchase_date : '') ||
-        pickString(row, PURCHASE_ALIASES)
-      const arrivalRaw =
-        (typeof row.arrival_date === 'string' ? row.arrival_date : '') ||
-        pickString(row, ARRIVAL_ALIASES)
-
-      const purchaseDate = normalizeDate(purchaseRaw)
-      const arrivalDate = normalizeDate(arrivalRaw)
+      const purchaseDate = parseDate(reservation.purchaseDate)
+      const arrivalDate = parseDate(reservation.arrivalDate)
       if (!purchaseDate || !arrivalDate) return
       if (arrivalDate < today) return
 
@@ -533,7 +403,7 @@ export const DashboardContent: React.FC = () => {
 
       if (purchaseDate >= recentStart && purchaseDate <= today) {
         recentBookings += 1
-        const key = format(arrivalDate, 'yyyy-MM-dd')
+        const key = reservation.arrivalDate
         byArrival.set(key, (byArrival.get(key) || 0) + 1)
       } else if (purchaseDate >= previousStart && purchaseDate < recentStart) {
         previousBookings += 1
@@ -558,6 +428,13 @@ export const DashboardContent: React.FC = () => {
     }
   }, [bookingExport])
 
+  const paceComparison = useMemo(() => {
+    const stayDates = startDate <= endDate
+      ? eachDayOfInterval({ start: startDate, end: endDate }).map((day) => format(day, 'yyyy-MM-dd'))
+      : []
+    return buildPaceComparison(bookingExport || [], bookingExportStly || [], stayDates)
+  }, [bookingExport, bookingExportStly, startDate, endDate])
+
   const cancellationInsights = useMemo(() => {
     if (!bookingExport || bookingExport.length === 0) {
       return {
@@ -573,28 +450,15 @@ export const DashboardContent: React.FC = () => {
     let totalCancelled = 0
 
     bookingExport.forEach((reservation) => {
-      const row = reservation as Record<string, unknown>
-      const status = typeof row.Etat === 'string' ? row.Etat : ''
-      const cancelled = isCancelledStatus(status)
-      const arrivalRaw =
-        (typeof row.arrival_date === 'string' ? row.arrival_date : '') ||
-        pickString(row, ARRIVAL_ALIASES)
-      const cancellationRaw =
-        (typeof row.cancellation_date === 'string' ? row.cancellation_date : '') ||
-        pickString(row, CANCELLATION_ALIASES)
-
-      const arrivalDate = normalizeDate(arrivalRaw)
-      if (!arrivalDate) return
-      const arrivalKey = format(arrivalDate, 'yyyy-MM-dd')
+      const arrivalKey = reservation.arrivalDate
       arrivalsTotals.set(arrivalKey, (arrivalsTotals.get(arrivalKey) || 0) + 1)
 
-      if (!cancelled) return
+      if (!reservation.isCancelled) return
       totalCancelled += 1
       arrivalsCancelled.set(arrivalKey, (arrivalsCancelled.get(arrivalKey) || 0) + 1)
 
-      const cancellationDate = normalizeDate(cancellationRaw)
-      if (cancellationDate) {
-        const cancellationKey = format(cancellationDate, 'yyyy-MM-dd')
+      const cancellationKey = reservation.cancellationDate
+      if (cancellationKey) {
         cancellationsByDate.set(cancellationKey, (cancellationsByDate.get(cancellationKey) || 0) + 1)
       }
     })
@@ -620,32 +484,28 @@ export const DashboardContent: React.FC = () => {
   const competitorInsight = useMemo(() => {
     if (!competitorRates || competitorRates.length === 0) return { avgGap: 0, ownAvg: 0, compsetAvg: 0 }
 
+    const byDate = new Map<string, { ownPrice: number; competitorSum: number; competitorCount: number }>()
+    competitorRates.forEach((rate) => {
+      if (rate.price === null) return
+      const current = byDate.get(rate.date) || { ownPrice: 0, competitorSum: 0, competitorCount: 0 }
+      if (rate.isOwnHotel) {
+        current.ownPrice = rate.price
+      } else if (compset.isInCompset(rate.competitor)) {
+        current.competitorSum += rate.price
+        current.competitorCount += 1
+      }
+      byDate.set(rate.date, current)
+    })
+
     let ownTotal = 0
     let compsetTotal = 0
     let rows = 0
 
-    competitorRates.forEach((row) => {
-      const record = row as Record<string, unknown>
-      const ownPrice = pickNumber(record, ['Folkestone OpÃ©ra', 'Folkestone OpÃƒÂ©ra'])
-      if (!ownPrice) return
-
-      let competitorSum = 0
-      let competitorCount = 0
-
-      Object.entries(record).forEach(([key, value]) => {
-        if (['id', 'hotel_id', 'date_mise_a_jour', 'Jour', 'Date', 'Demande du marchÃ©', 'Demande du marchÃƒÂ©', 'Folkestone OpÃ©ra', 'Folkestone OpÃƒÂ©ra'].includes(key)) return
-        const parsed = typeof value === 'number' ? value : (typeof value === 'string' ? Number(value) : NaN)
-        if (!Number.isNaN(parsed) && parsed > 0) {
-          competitorSum += parsed
-          competitorCount += 1
-        }
-      })
-
-      if (competitorCount > 0) {
-        ownTotal += ownPrice
-        compsetTotal += competitorSum / competitorCount
-        rows += 1
-      }
+    byDate.forEach(({ ownPrice, competitorSum, competitorCount }) => {
+      if (!ownPrice || competitorCount === 0) return
+      ownTotal += ownPrice
+      compsetTotal += competitorSum / competitorCount
+      rows += 1
     })
 
     if (rows === 0) return { avgGap: 0, ownAvg: 0, compsetAvg: 0 }
@@ -654,24 +514,19 @@ export const DashboardContent: React.FC = () => {
     const compsetAvg = compsetTotal / rows
 
     return { ownAvg, compsetAvg, avgGap: ownAvg - compsetAvg }
-  }, [competitorRates])
+  }, [competitorRates, compset])
 
   const competitorTrend = useMemo(() => {
-    return buildTrendSeries(
-      (competitorRates || []) as Record<string, unknown>[],
-      (competitorRatesVs3j || []) as Record<string, unknown>[],
-      (competitorRatesVs7j || []) as Record<string, unknown>[]
-    )
-  }, [competitorRates, competitorRatesVs3j, competitorRatesVs7j])
+    return buildTrendSeries(competitorRates || [], competitorRatesVs3j || [], competitorRatesVs7j || [], compset.isInCompset)
+  }, [competitorRates, competitorRatesVs3j, competitorRatesVs7j, compset])
 
   const chartUpdatedAt = useMemo<string | null>(() => {
     if (!competitorRates || competitorRates.length === 0) return null
 
     let latestTs = 0
-    ;(competitorRates as Array<Record<string, unknown>>).forEach((row) => {
-      const raw = row.date_mise_a_jour
-      if (typeof raw !== 'string' || !raw.trim()) return
-      const parsed = new Date(raw)
+    competitorRates.forEach((rate) => {
+      if (!rate.updatedAt) return
+      const parsed = new Date(rate.updatedAt)
       const ts = parsed.getTime()
       if (Number.isNaN(ts)) return
       if (ts > latestTs) latestTs = ts
@@ -690,73 +545,21 @@ export const DashboardContent: React.FC = () => {
   const arrivalsByDateForCalendar = useMemo(() => {
     const map: Record<string, number> = {}
     ;(bookingExport || []).forEach((reservation) => {
-      const row = reservation as BookingExportLike & Record<string, unknown>
-      const arrivalRaw = row.arrival_date || pickString(row, ARRIVAL_ALIASES)
-      const key = toDateKey(arrivalRaw)
-      if (!key) return
-      map[key] = (map[key] || 0) + 1
+      map[reservation.arrivalDate] = (map[reservation.arrivalDate] || 0) + 1
     })
     return map
   }, [bookingExport])
 
   const eventsByDateForCalendar = useMemo(() => {
     const map: Record<string, number> = {}
-    ;(events || []).forEach((eventRow) => {
-      const row = eventRow as EventRow & Record<string, unknown>
-      const start = normalizeDate(pickString(row, ['DÃƒÂ©but', 'DÃ©but', 'start_date']))
-      const end = normalizeDate(pickString(row, ['Fin', 'end_date'])) || start
-      if (!start || !end) return
-
-      const cur = new Date(start)
-      cur.setHours(0, 0, 0, 0)
-      const last = new Date(end)
-      last.setHours(0, 0, 0, 0)
-      while (cur <= last) {
-        const key = toDateKey(cur)
+    ;(events || []).forEach((event) => {
+      eachDateKey(event.startDate, event.endDate).forEach((key) => {
         map[key] = (map[key] || 0) + 1
-        cur.setDate(cur.getDate() + 1)
-      }
+      })
     })
     return map
   }, [events])
 
-  const roomTypeOverbookingAlerts = useMemo(() => {
-    const configured = Object.entries(config.rms.roomTypeCapacities || {})
-      .filter(([type, capacity]) => type.trim() && capacity > 0)
-      .map(([type, capacity]) => ({ type, capacity, norm: normalizeText(type) }))
-    if (configured.length === 0 || !bookingExport || bookingExport.length === 0) return []
-
-    const soldByDateType = new Map<string, number>()
-    ;(bookingExport as Array<Record<string, unknown>>).forEach((row) => {
-      const status = typeof row.Etat === 'string' ? row.Etat : ''
-      if (isCancelledStatus(status)) return
-      const roomTypeRaw = pickString(row, ['Type de chambre', 'type_de_chambre'])
-      if (!roomTypeRaw) return
-      const roomTypeNorm = normalizeText(roomTypeRaw)
-      const matched = configured.find((c) => roomTypeNorm.includes(c.norm) || c.norm.includes(roomTypeNorm))
-      if (!matched) return
-
-      const roomsRaw = pickNumber(row, ['Chambres'])
-      const rooms = roomsRaw > 0 ? Math.floor(roomsRaw) : 1
-      const stayDates = getStayDateKeys(row)
-      stayDates.forEach((dateKey) => {
-        const key = `${dateKey}::${matched.type}`
-        soldByDateType.set(key, (soldByDateType.get(key) || 0) + rooms)
-      })
-    })
-
-    const alertsList: Array<{ roomType: string; date: string; sold: number; capacity: number }> = []
-    soldByDateType.forEach((sold, key) => {
-      const [date, roomType] = key.split('::')
-      const conf = configured.find((c) => c.type === roomType)
-      if (!conf) return
-      if (sold > conf.capacity) {
-        alertsList.push({ roomType, date, sold, capacity: conf.capacity })
-      }
-    })
-
-    return alertsList.sort((a, b) => a.date.localeCompare(b.date)).slice(0, 12)
-  }, [bookingExport, config.rms.roomTypeCapacities])
 
   const selectedDayInsights = useMemo(() => {
     if (!bookingExport || bookingExport.length === 0) {
@@ -770,21 +573,13 @@ export const DashboardContent: React.FC = () => {
     let rooms = 0
 
     bookingExport.forEach((reservation) => {
-      const row = reservation as BookingExportLike & Record<string, unknown>
-      const arrivalRaw = row.arrival_date || pickString(row, ARRIVAL_ALIASES)
-      const arrivalKey = toDateKey(arrivalRaw)
-      if (!arrivalKey || arrivalKey !== selectedDateKey) return
-
-      const amount = Number(row.total_amount ?? pickNumber(row, ['Montant total'])) || 0
-      const n = Number(row.Nuits ?? pickNumber(row, ['Nuits'])) || 0
-      const r = Number(row.Chambres ?? pickNumber(row, ['Chambres'])) || 0
-      const status = typeof row.Etat === 'string' ? row.Etat : ''
+      if (reservation.arrivalDate !== selectedDateKey) return
 
       reservationsCount += 1
-      revenue += amount
-      nights += n
-      rooms += r
-      if (isCancelledStatus(status)) cancellations += 1
+      revenue += reservation.totalAmount
+      nights += reservation.nights
+      rooms += reservation.rooms
+      if (reservation.isCancelled) cancellations += 1
     })
 
     return { reservations: reservationsCount, revenue, cancellations, nights, rooms }
@@ -792,24 +587,20 @@ export const DashboardContent: React.FC = () => {
 
   const selectedDayApercu = useMemo(() => {
     if (!apercu || apercu.length === 0) return null
-    return apercu.find((entry) => {
-      const day = entry as BookingApercuLike
-      return toDateKey(day.date || day.Date || '') === selectedDateKey
-    }) as BookingApercuLike | undefined
+    return apercu.find((day) => day.date === selectedDateKey)
   }, [apercu, selectedDateKey])
 
   const selectedDateSuggestions = useMemo(() => {
-    return pricingSuggestions.filter((s) => toDateKey(s.date || '') === selectedDateKey)
+    return pricingSuggestions.filter((s) => s.date === selectedDateKey)
   }, [pricingSuggestions, selectedDateKey])
 
   const selectedDateAlerts = useMemo(() => {
     const out: string[] = []
     if (selectedDayInsights.cancellations > 0) out.push(`${selectedDayInsights.cancellations} annulation(s) detectee(s) sur la date active.`)
     if (selectedDayApercu) {
-      const row = selectedDayApercu as Record<string, unknown>
-      const demand = getApercuDemandPercent(selectedDayApercu)
-      const own = selectedDayApercu.own_price ?? pickNumber(row, ['Votre hÃ´tel le plus bas', 'Votre hÃƒÂ´tel le plus bas'])
-      const compset = selectedDayApercu.compset_median ?? pickNumber(row, ['mÃ©diane du compset', 'mÃƒÂ©diane du compset'])
+      const demand = selectedDayApercu.marketDemand ?? 0
+      const own = selectedDayApercu.ownPrice ?? 0
+      const compset = selectedDayApercu.compsetMedian ?? 0
       if (demand >= 70) out.push(`Demande elevee (${demand.toFixed(0)}%) - opportunite d'optimisation tarifaire.`)
       if (own > 0 && compset > 0 && own < compset) out.push(`Tarif hotel sous mediane compset (${formatCurrency(own)} vs ${formatCurrency(compset)}).`)
     }
@@ -872,13 +663,13 @@ export const DashboardContent: React.FC = () => {
       })
     }
 
-    if (roomTypeOverbookingAlerts.length > 0) {
-      const first = roomTypeOverbookingAlerts[0]
+    if (overbookingAlerts.length > 0) {
+      const first = overbookingAlerts[0]
       signals.push({
         id: 'room-type-capacity',
         tone: 'rose',
-        message: `Capacite type depassee: ${first.roomType} (${first.sold}/${first.capacity}) le ${first.date}.`,
-        recommendation: "Ajuster l'inventaire physique dans Studio RMS et corriger les fermetures par type de chambre.",
+        message: `Surreservation au-dela de la limite sure: ${first.roomType} (${first.onBooks}/${first.safeLimit}, capacite ${first.capacity}) le ${first.date}.`,
+        recommendation: 'Fermer la vente sur ce type de chambre et preparer les delogements (page Surreservation).',
       })
     }
 
@@ -892,7 +683,7 @@ export const DashboardContent: React.FC = () => {
     }
 
     return signals
-  }, [competitorTrend.summary.avgDemandVs7j, competitorTrend.summary.comparedDays3j, competitorTrend.summary.comparedDays7j, eventInsights.activeEvents, eventInsights.eventIndex, eventInsights.selectedDateEvents, marketTrendCoverage.ratio3j, marketTrendCoverage.ratio7j, marketTrendCoverage.totalDays, roomTypeOverbookingAlerts, selectedDayInsights.cancellations])
+  }, [competitorTrend.summary.avgDemandVs7j, competitorTrend.summary.comparedDays3j, competitorTrend.summary.comparedDays7j, eventInsights.activeEvents, eventInsights.eventIndex, eventInsights.selectedDateEvents, marketTrendCoverage.ratio3j, marketTrendCoverage.ratio7j, marketTrendCoverage.totalDays, overbookingAlerts, selectedDayInsights.cancellations])
 
   if (isLoading) {
     return (
@@ -958,12 +749,12 @@ export const DashboardContent: React.FC = () => {
         </div>
       </section>
 
-      <section className="grid grid-cols-1 gap-4 xl:grid-cols-5">
+      <section className="grid grid-cols-1 gap-4 md:grid-cols-3 xl:grid-cols-6">
         {config.widgets.occupancy && (
           <KpiTile
             title="Occupation"
             value={`${kpis.occupancyRate.toFixed(1)}%`}
-            subtitle={`Cible ${config.rms.targetOccupancy}%`}
+            subtitle={`Cible ${config.rms.targetOccupancy}% · Prevision ${kpis.projectedOccupancy.toFixed(0)}% (${kpis.projectedOccupancyLow.toFixed(0)}-${kpis.projectedOccupancyHigh.toFixed(0)}%)`}
             trend={kpis.projectedOccupancy - kpis.occupancyRate}
             icon={<Gauge className="h-4 w-4" />}
           />
@@ -972,7 +763,7 @@ export const DashboardContent: React.FC = () => {
           <KpiTile
             title="ADR"
             value={formatCurrency(kpis.adr)}
-            subtitle={`Plancher/Plafond ${config.rms.minAdr} - ${config.rms.maxAdr}`}
+            subtitle={`Net ${formatCurrency(kpis.netAdr)} · Plancher/Plafond ${config.rms.minAdr} - ${config.rms.maxAdr}`}
             trend={(kpis.adr - config.rms.minAdr) / Math.max(1, config.rms.minAdr) * 100}
             icon={<Target className="h-4 w-4" />}
           />
@@ -1004,10 +795,25 @@ export const DashboardContent: React.FC = () => {
             icon={<CalendarDays className="h-4 w-4" />}
           />
         )}
+        {config.widgets.acquisitionCost && (
+          <KpiTile
+            title="Cout d'acquisition"
+            value={`${netRevenue.acquisitionCostPct.toFixed(1)}%`}
+            subtitle={`${formatCurrency(netRevenue.acquisitionCostPerRoomNight)}/nuitee · RevPAR net ${formatCurrency(kpis.netRevpar)}`}
+            icon={<Receipt className="h-4 w-4" />}
+          />
+        )}
       </section>
 
       <YieldChart data={chartData} updatedAt={chartUpdatedAt} source={chartSource} />
 
+      {config.widgets.bookingPace && (
+        <BookingPaceChart
+          comparison={paceComparison}
+          scopeLabel={`Sejours du ${format(startDate, 'dd MMM', { locale: fr })} au ${format(endDate, 'dd MMM yyyy', { locale: fr })}`}
+        />
+      )}
+
       <section className="grid grid-cols-2 gap-3 rounded-2xl border border-slate-200 bg-white p-4 shadow-sm md:grid-cols-3 xl:grid-cols-6">
         <div className="rounded-xl bg-slate-50 p-3">
           <p className="text-xs text-slate-500">Votre tarif vs 3j</p>
@@ -1070,7 +876,7 @@ export const DashboardContent: React.FC = () => {
             <div className="rounded-xl bg-cyan-50 p-3">
               <p className="text-xs text-cyan-700">Demande marche</p>
               <p className="text-xl font-black text-cyan-800">
-                {selectedDayApercu ? `${Math.round(getApercuDemandPercent(selectedDayApercu))}%` : '-'}
+                {selectedDayApercu ? `${Math.round(selectedDayApercu.marketDemand ?? 0)}%` : '-'}
               </p>
             </div>
           </div>
@@ -1117,14 +923,14 @@ export const DashboardContent: React.FC = () => {
             </details>
             <details className="rounded-xl border border-red-200 bg-red-50 px-3 py-2">
               <summary className="cursor-pointer text-xs font-black uppercase tracking-wide text-red-800">
-                Alertes capacite type de chambre: {roomTypeOverbookingAlerts.length}
+                Alertes surreservation: {overbookingAlerts.length}
               </summary>
-              {roomTypeOverbookingAlerts.length === 0 ? (
-                <p className="mt-2 text-sm text-red-800">Aucun depassement detecte.</p>
+              {overbookingAlerts.length === 0 ? (
+                <p className="mt-2 text-sm text-red-800">Aucune date au-dessus de la limite sure.</p>
               ) : (
                 <div className="mt-2 space-y-1 text-sm text-red-900">
-                  {roomTypeOverbookingAlerts.map((row, idx) => (
-                    <p key={`rt-cap-${row.date}-${row.roomType}-${idx}`}>{row.date}: {row.roomType} <span className="font-black">{row.sold}/{row.capacity}</span></p>
+                  {overbookingAlerts.slice(0, 12).map((row) => (
+                    <p key={`rt-cap-${row.date}-${row.roomType}`}>{row.date}: {row.roomType} <span className="font-black">{row.onBooks}/{row.safeLimit}</span> (capacite {row.capacity})</p>
                   ))}
                 </div>
               )}
@@ -1149,6 +955,7 @@ export const DashboardContent: React.FC = () => {
               rms={config.rms}
               onSaveRms={handleSaveRms}
               isSaving={updateConfig.isPending}
+              readOnly={!canEditRms}
             />
           )}
           <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
@@ -1264,6 +1071,8 @@ export const DashboardContent: React.FC = () => {
             <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
               <h3 className="mb-4 text-sm font-black uppercase tracking-[0.16em] text-slate-700">Alertes et signaux business</h3>
               <div className="space-y-3">
+                {config.widgets.alerts && <CompetitorAlertsList hotelId={hotelId} />}
+
                 {businessSignals.map((signal) => (
                   <div key={signal.id} className={`rounded-xl border p-3 ${eventToneClass(signal.tone)}`}>
                     <button
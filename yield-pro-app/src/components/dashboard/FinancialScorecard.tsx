@@ -82,9 +82,11 @@ interface FinancialScorecardProps {
     rms: RMSSettings
     onSaveRms: (next: Partial<RMSSettings>) => Promise<void>
     isSaving?: boolean
+    // Without the edit_rms_settings permission the settings can be tried out but not applied.
+    readOnly?: boolean
 }
 
-export const FinancialScorecard: React.FC<FinancialScorecardProps> = ({ data, rms, onSaveRms, isSaving = false }) => {
+export const FinancialScorecard: React.FC<FinancialScorecardProps> = ({ data, rms, onSaveRms, isSaving = false, readOnly = false }) => {
     const [draft, setDraft] = useState<RMSSettings>(rms)
 
     useEffect(() => {
@@ -199,7 +201,8 @@ export const FinancialScorecard: React.FC<FinancialScorecardProps> = ({ data, rm
                         <button
                             type="button"
                             onClick={apply}
-                            disabled={isSaving || !hasChanges}
+                            disabled={readOnly || isSaving || !hasChanges}
+                            title={readOnly ? 'Votre role ne permet pas de modifier les parametres RMS' : undefined}
                             className="inline-flex items-center gap-1 rounded-lg bg-primary px-2.5 py-1.5 text-xs font-semibold text-primary-foreground disabled:opacity-50"
                         >
                             <Save className="h-3.5 w-3.5" />
@@ -1,31 +1,39 @@
-﻿import React, { useMemo, useState } from 'react'
+﻿import React, { useEffect, useMemo, useState } from 'react'
 import { useQueryClient } from '@tanstack/react-query'
-import { format, isWeekend, parseISO } from 'date-fns'
+import { useSearchParams } from 'react-router-dom'
+import { addDays, differenceInCalendarDays, format, isWeekend, parseISO } from 'date-fns'
 import { fr } from 'date-fns/locale'
-import { Check, ChevronLeft, ChevronRight, RefreshCcw, TrendingDown, TrendingUp, X } from 'lucide-react'
-import { useBookingApercu, useBookingExport } from '../../hooks/useBookingData'
-import { useDisponibilites, useEvents } from '../../hooks/useHotelData'
+import { Check, ChevronLeft, ChevronRight, Pencil, RefreshCcw, RotateCcw, TrendingDown, TrendingUp, X } from 'lucide-react'
+import { useBookingExport } from '../../hooks/useBookingData'
 import { useDashboardConfig } from '../../hooks/useDashboardConfig'
-import { useHotelByHotelId } from '../../hooks/useHotels'
+import { useHotelRMSCalculations } from '../../hooks/useHotelRMSCalculations'
+import { useActiveHotelId, useHotelByHotelId } from '../../hooks/useHotels'
+import { EMPTY_OTA_CONFIG, useOtaConfig } from '../../hooks/useOtaConfig'
+import { usePermissions } from '../../hooks/usePermissions'
 import { usePlanningTarifs } from '../../hooks/usePlanningTarifs'
-import { useRMSCalculations } from '../../hooks/useRMSCalculations'
+import {
+  getLatestDecisionByDate,
+  usePriceDecisions,
+  useRecordPriceDecisions,
+  type PriceDecisionInsert,
+  type PriceDecisionRow,
+  type PriceDecisionStatus,
+} from '../../hooks/usePriceDecisions'
+import { useStayRestrictions } from '../../hooks/useStayRestrictions'
 import { useDateRangeStore } from '../../store/useDateRangeStore'
 import { useAuthStore } from '../../store/useAuthStore'
 import type { Database } from '../../types/database.types'
 import { formatCurrency, formatNumber } from '../../utils/formatters'
+import { eachDateKey, normalizeKey, parseDate } from '../../utils/normalization'
+import { orderByConfig } from '../../utils/otaConfig'
+import { getPriceDecisionPermission } from '../../utils/permissions'
+import { extractPlanCode } from '../../utils/ratePlanRules'
+import { createRoomTypeDifferentialLookup } from '../../utils/rmsEngine'
+import { describeStayRestriction } from '../../utils/stayRestrictions'
 
-type DisponibilitesRow = Database['public']['Tables']['disponibilites']['Row']
-type BookingApercuRow = Database['public']['Tables']['booking_apercu']['Row']
-type EventRow = Database['public']['Tables']['events_calendar']['Row']
 type PlanningTarifRow = Database['public']['Tables']['planning_tarifs']['Row']
 
-type BookingApercuLike = BookingApercuRow & {
-  date?: string | null
-  own_price?: number | null
-  compset_median?: number | null
-  market_demand?: number | null
-  events?: string | null
-}
+type GridSuggestion = ReturnType<typeof useHotelRMSCalculations>['pricingSuggestions'][number]
 
 type GridRow = {
   date: string
@@ -39,80 +47,7 @@ type GridRow = {
   availability: number | string
   events: string
   eventImpact: number
-  suggestion?: ReturnType<typeof useRMSCalculations>['pricingSuggestions'][number]
-}
-
-const pickText = (record: Record<string, unknown>, aliases: string[]) => {
-  for (const alias of aliases) {
-    const value = record[alias]
-    if (typeof value === 'string' && value.trim() !== '') return value
-  }
-  return ''
-}
-
-const parseLocalizedNumber = (value: string): number => {
-  const cleaned = value
-    .replace(/\u00A0/g, '')
-    .replace(/\s+/g, '')
-    .replace(/[€$£%]/g, '')
-    .replace(/[^\d,.-]/g, '')
-
-  if (!cleaned) return Number.NaN
-
-  if (cleaned.includes(',') && cleaned.includes('.')) {
-    if (cleaned.lastIndexOf(',') > cleaned.lastIndexOf('.')) {
-      return Number(cleaned.replace(/\./g, '').replace(',', '.'))
-    }
-    return Number(cleaned.replace(/,/g, ''))
-  }
-
-  if (cleaned.includes(',')) return Number(cleaned.replace(',', '.'))
-  return Number(cleaned)
-}
-
-const pickNumber = (record: Record<string, unknown>, aliases: string[]) => {
-  for (const alias of aliases) {
-    const value = record[alias]
-    if (typeof value === 'number' && Number.isFinite(value)) return value
-    if (typeof value === 'string' && value.trim() !== '') {
-      const parsed = parseLocalizedNumber(value)
-      if (!Number.isNaN(parsed) && Number.isFinite(parsed)) return parsed
-    }
-  }
-  return 0
-}
-
-const normalizeDate = (value: string | null | undefined): Date | null => {
-  if (!value) return null
-
-  const iso = parseISO(value)
-  if (!Number.isNaN(iso.getTime())) return iso
-
-  const nativeDate = new Date(value)
-  if (!Number.isNaN(nativeDate.getTime())) return nativeDate
-
-  if (value.includes('/')) {
-    const [day, month, year] = value.split('/').map(Number)
-    if (day && month && year) {
-      const fallback = new Date(year, month - 1, day)
-      if (!Number.isNaN(fallback.getTime())) return fallback
-    }
-  }
-
-  return null
-}
-
-const normalizeToken = (value: string) =>
-  value
-    .normalize('NFD')
-    .replace(/[\u0300-\u036f]/g, '')
-    .replace(/[^a-zA-Z0-9]/g, '')
-    .toLowerCase()
-
-const normalizeDemandPercent = (value: number) => {
-  if (!Number.isFinite(value)) return 0
-  if (value <= 1) return Math.max(0, Math.min(100, value * 100))
-  return Math.max(0, Math.min(100, value))
+  suggestion?: GridSuggestion
 }
 
 const getSuggestionTone = (change: number) => {
@@ -127,6 +62,18 @@ const getActionBadgeClass = (change: number) => {
   return 'border-cyan-200 bg-cyan-50 text-cyan-700'
 }
 
+const DECISION_LABELS: Record<PriceDecisionStatus, string> = {
+  approved: 'Approuvé',
+  rejected: 'Rejeté',
+  overridden: 'Forcé',
+}
+
+const getDecisionBadgeClass = (decision: PriceDecisionStatus) => {
+  if (decision === 'approved') return 'border-emerald-200 bg-emerald-50 text-emerald-700'
+  if (decision === 'rejected') return 'border-slate-200 bg-slate-100 text-slate-600'
+  return 'border-violet-200 bg-violet-50 text-violet-700'
+}
+
 const getEventImpactClass = (impact: number) => {
   if (impact >= 7) return 'border-rose-200 bg-rose-50 text-rose-700'
   if (impact >= 4) return 'border-amber-200 bg-amber-50 text-amber-700'
@@ -135,40 +82,70 @@ const getEventImpactClass = (impact: number) => {
 
 export const PricingGrid: React.FC = () => {
   const queryClient = useQueryClient()
-  const { profile } = useAuthStore()
-  const { startDate, endDate } = useDateRangeStore()
-  const hotelId = profile?.hotel_id || 'H2258'
+  const { user, profile } = useAuthStore()
+  const { startDate, endDate, setDateRange } = useDateRangeStore()
+  const hotelId = useActiveHotelId()
+  // Deep links (e.g. competitor alerts) open the grid on /grid?date=yyyy-MM-dd.
+  const [searchParams] = useSearchParams()
+  const focusDate = searchParams.get('date')
 
   const { data: hotel } = useHotelByHotelId(hotelId)
-  const { data: apercu, isLoading: loadingApercu } = useBookingApercu(hotelId, startDate, endDate)
-  const { data: disponibilites, isLoading: loadingDisponibilites } = useDisponibilites(hotelId, startDate, endDate)
-  const { data: events = [], isLoading: loadingEvents } = useEvents(hotelId, startDate, endDate)
   const { data: planningTarifs = [], isLoading: loadingPlanning } = usePlanningTarifs(hotelId, startDate, endDate)
-  const { data: reservations = [] } = useBookingExport(hotelId, startDate, endDate)
+  const { data: bookingExportData } = useBookingExport(hotelId, startDate, endDate)
+  const reservations = bookingExportData?.items
   const { config } = useDashboardConfig()
+  const { data: priceDecisions = [] } = usePriceDecisions(hotelId, startDate, endDate)
+  const recordDecisions = useRecordPriceDecisions(hotelId)
+  const { restrictionByDate } = useStayRestrictions(hotelId, startDate, endDate)
+  const { can } = usePermissions(hotelId)
+  const { data: otaConfig = EMPTY_OTA_CONFIG, isLoading: loadingOtaConfig } = useOtaConfig(hotelId)
 
   const [isRefreshing, setIsRefreshing] = useState(false)
   const [suggestionView, setSuggestionView] = useState<'all' | 'up' | 'down' | 'hold'>('all')
   const [page, setPage] = useState(1)
-  const [formulaDialog, setFormulaDialog] = useState<{ date: string; reason: string; formula: string } | null>(null)
-
-  const { pricingSuggestions } = useRMSCalculations(
-    reservations,
-    disponibilites || [],
-    apercu || [],
-    config.rms,
-  )
-
-  const isLoading = loadingApercu || loadingDisponibilites || loadingEvents || loadingPlanning
+  const [formulaDialog, setFormulaDialog] = useState<{ date: string; reason: string; formula: string; title?: string } | null>(null)
+  // `previous` is set when revising a recorded decision rather than deciding a pending suggestion.
+  const [overrideDialog, setOverrideDialog] = useState<{ date: string; suggestion: GridSuggestion; price: number; previous?: PriceDecisionRow } | null>(null)
+  const [roomTypeView, setRoomTypeView] = useState('')
+  const [focusedPageFor, setFocusedPageFor] = useState<string | null>(null)
+
+  // Bring the linked date into the selected period, keeping the period length.
+  useEffect(() => {
+    const focus = parseDate(focusDate)
+    if (!focus || (focus >= startDate && focus <= endDate)) return
+    setDateRange(focus, addDays(focus, Math.max(0, differenceInCalendarDays(endDate, startDate))))
+  }, [endDate, focusDate, setDateRange, startDate])
+
+  // Same RMS inputs as the dashboard, so both show the same decision for a date.
+  const {
+    kpis,
+    pricingSuggestions,
+    roomTypes,
+    roomTypeSuggestions,
+    inventory: disponibilites,
+    apercu,
+    events,
+    isLoading: loadingRms,
+  } = useHotelRMSCalculations(hotelId, startDate, endDate)
+
+  const orderedRoomTypes = useMemo(() => orderByConfig(roomTypes, otaConfig.roomOrder), [otaConfig, roomTypes])
+
+  const isLoading = loadingRms || loadingPlanning || loadingOtaConfig
+
+  // View '' is the base room; every other view is one room type priced with its own differential.
+  const viewRoomType = roomTypeView || config.rms.baseRoomType
+  const getDifferentialPct = useMemo(() => createRoomTypeDifferentialLookup(config.rms), [config.rms])
+  const viewDifferentialPct = roomTypeView ? getDifferentialPct(roomTypeView) : 0
 
   const rackByDate = useMemo(() => {
     const map = new Map<string, number>()
+    const viewToken = normalizeKey(viewRoomType)
+    const barPlanCode = extractPlanCode(config.rms.ratePlans.barPlanCode)
 
     ;(planningTarifs as PlanningTarifRow[]).forEach((row) => {
-      const roomType = normalizeToken(row.type_de_chambre || '')
-      const plan = normalizeToken(row.plan_tarifaire || '')
-      const matchesRoomType = roomType === normalizeToken('Double Classique')
-      const matchesPlan = plan.includes('otaroflex')
+      const roomType = normalizeKey(row.type_de_chambre || '')
+      const matchesRoomType = roomType === viewToken
+      const matchesPlan = extractPlanCode(row.plan_tarifaire) === barPlanCode
       const date = row.date
       const rackValue = typeof row.tarif === 'number' ? row.tarif : 0
 
@@ -177,72 +154,57 @@ export const PricingGrid: React.FC = () => {
     })
 
     return map
-  }, [planningTarifs])
+  }, [config.rms.ratePlans.barPlanCode, planningTarifs, viewRoomType])
+
+  const viewSuggestions = useMemo<GridSuggestion[]>(
+    () => (roomTypeView ? roomTypeSuggestions.filter((item) => item.roomType === roomTypeView) : pricingSuggestions),
+    [pricingSuggestions, roomTypeSuggestions, roomTypeView]
+  )
 
   const gridData = useMemo<GridRow[]>(() => {
-    const suggestionsMap = new Map<string, (typeof pricingSuggestions)[number]>()
-    pricingSuggestions.forEach((item) => {
+    const suggestionsMap = new Map<string, GridSuggestion>()
+    viewSuggestions.forEach((item) => {
       suggestionsMap.set(item.date, item)
     })
 
+    const priceFactor = 1 + viewDifferentialPct / 100
+    const viewToken = normalizeKey(roomTypeView)
     const availabilityByDate = new Map<string, number>()
-    ;(disponibilites || []).forEach((row: DisponibilitesRow) => {
-      const current = availabilityByDate.get(row.date) ?? 0
-      const next = typeof row.disponibilites === 'number' ? row.disponibilites : 0
-      availabilityByDate.set(row.date, current + next)
+    ;(disponibilites || []).forEach((day) => {
+      if (roomTypeView && normalizeKey(day.roomType || '') !== viewToken) return
+      const current = availabilityByDate.get(day.date) ?? 0
+      availabilityByDate.set(day.date, current + (day.available ?? 0))
     })
 
     const eventsByDate = new Map<string, { titles: string[]; impact: number }>()
-    ;(events as EventRow[]).forEach((event) => {
-      const record = event as unknown as Record<string, unknown>
-      const title = pickText(record, ['Événement', 'Evenement', 'event', 'name']) || 'Événement'
-      const start = normalizeDate(pickText(record, ['Début', 'start_date']))
-      const end = normalizeDate(pickText(record, ['Fin', 'end_date'])) || start
-      const impactRaw = pickNumber(record, ['Indice impact attendu sur la demande /10', 'impact_index', 'impact'])
-      const impact = Math.max(0, Math.min(10, impactRaw))
-
-      if (!start || !end) return
-
-      const cursor = new Date(start)
-      cursor.setHours(0, 0, 0, 0)
-      const last = new Date(end)
-      last.setHours(0, 0, 0, 0)
-
-      while (cursor <= last) {
-        const key = format(cursor, 'yyyy-MM-dd')
+    ;(events || []).forEach((event) => {
+      const title = event.name || 'Événement'
+      eachDateKey(event.startDate, event.endDate).forEach((key) => {
         const current = eventsByDate.get(key) || { titles: [], impact: 0 }
         current.titles.push(title)
-        current.impact = Math.max(current.impact, impact)
+        current.impact = Math.max(current.impact, event.impactScore)
         eventsByDate.set(key, current)
-        cursor.setDate(cursor.getDate() + 1)
-      }
+      })
     })
 
     const fromApercu = (apercu || [])
-      .map((entry) => {
-        const day = entry as BookingApercuLike
-        const row = day as Record<string, unknown>
-
-        const rawDate = day.date || pickText(row, ['date', 'Date'])
-        const parsedDate = normalizeDate(rawDate)
+      .map((day) => {
+        const parsedDate = parseDate(day.date)
         if (!parsedDate) return null
 
-        const key = format(parsedDate, 'yyyy-MM-dd')
-        const ownPrice = day.own_price ?? pickNumber(row, ['Votre hôtel le plus bas', 'Votre hotel le plus bas'])
-        const compsetMedian = day.compset_median ?? pickNumber(row, ['médiane du compset', 'mediane du compset'])
-        const demandRaw = day.market_demand ?? pickNumber(row, ['Demande du marché', 'Demande du marche'])
+        const key = day.date
 
         return {
           date: key,
           dayName: format(parsedDate, 'eee', { locale: fr }),
           dayNum: format(parsedDate, 'dd/MM'),
           isWeekend: isWeekend(parsedDate),
-          ownPrice,
+          ownPrice: (day.ownPrice ?? 0) * priceFactor,
           rack: rackByDate.get(key) ?? 0,
-          compsetMedian,
-          demandPct: normalizeDemandPercent(demandRaw),
+          compsetMedian: day.compsetMedian ?? 0,
+          demandPct: day.marketDemand ?? 0,
           availability: availabilityByDate.get(key) ?? '-',
-          events: eventsByDate.get(key)?.titles.join(' | ') || day.events || pickText(row, ['Événements', 'Evenements']),
+          events: eventsByDate.get(key)?.titles.join(' | ') || day.events,
           eventImpact: eventsByDate.get(key)?.impact ?? 0,
           suggestion: suggestionsMap.get(key),
         } as GridRow
@@ -255,7 +217,7 @@ export const PricingGrid: React.FC = () => {
 
     return Array.from(availabilityByDate.entries())
       .map(([date, availability]) => {
-        const parsedDate = normalizeDate(date)
+        const parsedDate = parseDate(date)
         if (!parsedDate) return null
 
         return {
@@ -275,7 +237,76 @@ export const PricingGrid: React.FC = () => {
       })
       .filter((row): row is GridRow => Boolean(row))
       .sort((a, b) => a.date.localeCompare(b.date))
-  }, [apercu, disponibilites, events, pricingSuggestions, rackByDate])
+  }, [apercu, disponibilites, events, rackByDate, roomTypeView, viewDifferentialPct, viewSuggestions])
+
+  const decisionByDate = useMemo(
+    () => getLatestDecisionByDate(priceDecisions, roomTypeView || null),
+    [priceDecisions, roomTypeView]
+  )
+
+  const pendingAutoApprove = useMemo(
+    () => gridData.filter((row) => row.suggestion?.shouldAutoApprove && !decisionByDate.has(row.date)),
+    [decisionByDate, gridData]
+  )
+
+  const decidedCount = useMemo(
+    () => gridData.filter((row) => decisionByDate.has(row.date)).length,
+    [decisionByDate, gridData]
+  )
+
+  const buildDecision = (
+    date: string,
+    suggestion: GridSuggestion,
+    decision: PriceDecisionStatus,
+    finalPrice: number,
+    previous?: PriceDecisionRow
+  ): PriceDecisionInsert => ({
+    hotel_id: hotelId,
+    stay_date: date,
+    room_type: roomTypeView || null,
+    decision,
+    current_price: suggestion.currentPrice,
+    suggested_price: suggestion.suggestedPrice,
+    final_price: finalPrice,
+    formula_text: suggestion.formulaText,
+    reason: suggestion.reason,
+    engine_version: suggestion.engineVersion,
+    supersedes_id: previous?.id ?? null,
+    user_id: user?.id ?? null,
+    user_email: user?.email ?? profile?.email ?? null,
+  })
+
+  const canDecide = (suggestion: GridSuggestion, decision: PriceDecisionStatus, finalPrice: number) =>
+    can(getPriceDecisionPermission(decision, suggestion.currentPrice, finalPrice, config.rms.autoApproveThresholdPct))
+
+  const decide = (date: string, suggestion: GridSuggestion, decision: PriceDecisionStatus, finalPrice: number, previous?: PriceDecisionRow) => {
+    recordDecisions.mutate([buildDecision(date, suggestion, decision, finalPrice, previous)])
+  }
+
+  const approveAutoSuggestions = () => {
+    const rows = pendingAutoApprove
+      .filter((row): row is GridRow & { suggestion: GridSuggestion } => Boolean(row.suggestion))
+      .map((row) => buildDecision(row.date, row.suggestion, 'approved', row.suggestion.suggestedPrice))
+    recordDecisions.mutate(rows)
+  }
+
+  // A revision back to the suggested price is recorded as an approval, any other price as an override.
+  const getDialogDecision = (dialog: NonNullable<typeof overrideDialog>): PriceDecisionStatus =>
+    dialog.previous && dialog.price === dialog.suggestion.suggestedPrice ? 'approved' : 'overridden'
+
+  const submitOverride = () => {
+    if (!overrideDialog || overrideDialog.price <= 0) return
+    const decision = getDialogDecision(overrideDialog)
+    if (!canDecide(overrideDialog.suggestion, decision, overrideDialog.price)) return
+    decide(overrideDialog.date, overrideDialog.suggestion, decision, overrideDialog.price, overrideDialog.previous)
+    setOverrideDialog(null)
+  }
+
+  const rejectRevision = () => {
+    if (!overrideDialog?.previous) return
+    decide(overrideDialog.date, overrideDialog.suggestion, 'rejected', overrideDialog.suggestion.currentPrice, overrideDialog.previous)
+    setOverrideDialog(null)
+  }
 
   const filteredGridData = useMemo(() => {
     if (suggestionView === 'up') return gridData.filter((row) => (row.suggestion?.change ?? 0) > 0)
@@ -305,22 +336,16 @@ export const PricingGrid: React.FC = () => {
     today.setHours(0, 0, 0, 0)
 
     reservations.forEach((reservation) => {
-      const row = reservation as Record<string, unknown>
-      const arrivalRaw =
-        (typeof row.arrival_date === 'string' ? row.arrival_date : '') ||
-        pickText(row, ["Date d'arrivée", "Date d'arrivee"]) 
-      const arrivalDate = normalizeDate(arrivalRaw)
-
+      const arrivalDate = parseDate(reservation.arrivalDate)
       if (!arrivalDate || arrivalDate < today) return
 
       arrivals += 1
-      const status = typeof row.Etat === 'string' ? row.Etat.toLowerCase() : ''
-      if (status.includes('annul') || status.includes('cancel')) cancellations += 1
+      if (reservation.isCancelled) cancellations += 1
 
-      revenue += pickNumber(row, ['Montant total'])
-      nights += pickNumber(row, ['Nuits', 'Nuitées', 'Nuitees'])
+      revenue += reservation.totalAmount
+      nights += reservation.nights
 
-      const origin = pickText(row, ['Origine', "Type d'origine"]) || 'Non défini'
+      const origin = reservation.origin || reservation.originType || 'Non défini'
       origins.set(origin, (origins.get(origin) || 0) + 1)
     })
 
@@ -338,6 +363,11 @@ export const PricingGrid: React.FC = () => {
 
   const pageSize = 20
   const totalPages = Math.max(1, Math.ceil(filteredGridData.length / pageSize))
+  const focusIndex = focusDate ? filteredGridData.findIndex((row) => row.date === focusDate) : -1
+  if (focusDate && focusIndex >= 0 && focusedPageFor !== focusDate) {
+    setFocusedPageFor(focusDate)
+    setPage(Math.floor(focusIndex / pageSize) + 1)
+  }
   const currentPage = Math.min(page, totalPages)
 
   const pagedGridData = useMemo(() => {
@@ -345,6 +375,11 @@ export const PricingGrid: React.FC = () => {
     return filteredGridData.slice(start, start + pageSize)
   }, [currentPage, filteredGridData])
 
+  useEffect(() => {
+    if (!focusDate) return
+    document.getElementById(`grid-row-${focusDate}`)?.scrollIntoView({ block: 'center', behavior: 'smooth' })
+  }, [currentPage, focusDate, isLoading])
+
   const onRefresh = async () => {
     setIsRefreshing(true)
     try {
@@ -354,6 +389,7 @@ export const PricingGrid: React.FC = () => {
         queryClient.refetchQueries({ queryKey: ['disponibilites', hotelId], type: 'active' }),
         queryClient.refetchQueries({ queryKey: ['events-calendar', hotelId], type: 'active' }),
         queryClient.refetchQueries({ queryKey: ['planning-tarifs', hotelId], type: 'active' }),
+        queryClient.refetchQueries({ queryKey: ['price-decisions', hotelId], type: 'active' }),
       ])
     } finally {
       setIsRefreshing(false)
@@ -387,14 +423,19 @@ export const PricingGrid: React.FC = () => {
             <RefreshCcw className={`h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} />
             {isRefreshing ? 'Rafraîchissement...' : 'Rafraîchir'}
           </button>
-          <button className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 font-bold text-primary-foreground shadow-sm transition-all hover:bg-primary/90">
+          <button
+            onClick={approveAutoSuggestions}
+            disabled={!can('approve_prices') || pendingAutoApprove.length === 0 || recordDecisions.isPending}
+            title={`Valide les suggestions dont la variation reste sous ${config.rms.autoApproveThresholdPct}%`}
+            className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 font-bold text-primary-foreground shadow-sm transition-all hover:bg-primary/90 disabled:cursor-not-allowed disabled:opacity-50"
+          >
             <TrendingUp className="h-4 w-4" />
-            Appliquer recommandations
+            Valider auto-approve ({pendingAutoApprove.length})
           </button>
         </div>
       </div>
 
-      <section className="grid grid-cols-2 gap-3 md:grid-cols-4">
+      <section className="grid grid-cols-2 gap-3 md:grid-cols-3 xl:grid-cols-6">
         <div className="rounded-xl bg-slate-50 p-3">
           <p className="text-xs text-slate-500">Arrivées futures</p>
           <p className="text-2xl font-black">{bookingExportInsights.arrivals}</p>
@@ -411,6 +452,16 @@ export const PricingGrid: React.FC = () => {
           <p className="text-xs text-slate-500">Séjour moyen</p>
           <p className="text-2xl font-black">{bookingExportInsights.avgStay.toFixed(1)} nuits</p>
         </div>
+        <div className="rounded-xl bg-slate-50 p-3">
+          <p className="text-xs text-slate-500">ADR net</p>
+          <p className="text-2xl font-black">{formatCurrency(kpis.netAdr)}</p>
+          <p className="text-[11px] text-slate-500">brut {formatCurrency(kpis.adr)}</p>
+        </div>
+        <div className="rounded-xl bg-slate-50 p-3">
+          <p className="text-xs text-slate-500">RevPAR net</p>
+          <p className="text-2xl font-black">{formatCurrency(kpis.netRevpar)}</p>
+          <p className="text-[11px] text-slate-500">brut {formatCurrency(kpis.revpar)}</p>
+        </div>
       </section>
 
       <section className="flex flex-wrap items-center justify-between gap-2 rounded-xl border border-slate-200 bg-white p-3">
@@ -441,6 +492,26 @@ export const PricingGrid: React.FC = () => {
           </button>
         </div>
 
+        <label className="flex items-center gap-2 text-xs font-black uppercase tracking-wide text-slate-600">
+          Type de chambre
+          <select
+            value={roomTypeView}
+            onChange={(e) => { setRoomTypeView(e.target.value); setPage(1) }}
+            className="rounded-lg border border-slate-200 bg-slate-50 px-2 py-1.5 text-xs font-bold normal-case tracking-normal text-slate-800"
+          >
+            <option value="">Hotel ({config.rms.baseRoomType})</option>
+            {orderedRoomTypes.map((roomType) => {
+              const differentialPct = getDifferentialPct(roomType)
+              return (
+                <option key={roomType} value={roomType}>
+                  {roomType}
+                  {differentialPct ? ` (${differentialPct > 0 ? '+' : ''}${differentialPct}%)` : ''}
+                </option>
+              )
+            })}
+          </select>
+        </label>
+
         <div className="flex items-center gap-2">
           <button
             onClick={() => setPage((p) => Math.max(1, p - 1))}
@@ -450,7 +521,7 @@ export const PricingGrid: React.FC = () => {
             <ChevronLeft className="h-3 w-3" /> Préc.
           </button>
           <span className="text-xs font-semibold text-slate-600">
-            {filteredGridData.length} lignes · Page {currentPage}/{totalPages}
+            {filteredGridData.length} lignes · {decidedCount} décidée(s) · Page {currentPage}/{totalPages}
           </span>
           <button
             onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
@@ -474,7 +545,8 @@ export const PricingGrid: React.FC = () => {
                 <th className="p-2 text-center font-black uppercase tracking-wide">Prix actuel</th>
                 <th className="p-2 text-center font-black uppercase tracking-wide">Mon RACK</th>
                 <th className="bg-primary/5 p-2 text-center font-black uppercase tracking-wide text-primary">Suggéré</th>
-                <th className="w-[110px] p-2 text-center font-black uppercase tracking-wide">Action</th>
+                <th className="p-2 text-center font-black uppercase tracking-wide">Restrictions</th>
+                <th className="w-[150px] p-2 text-center font-black uppercase tracking-wide">Action</th>
                 <th className="w-[150px] p-2 font-black uppercase tracking-wide">Salon & événement</th>
               </tr>
             </thead>
@@ -482,11 +554,17 @@ export const PricingGrid: React.FC = () => {
             <tbody className="divide-y divide-border/40">
               {pagedGridData.map((row) => {
                 const suggestion = row.suggestion
+                const decision = decisionByDate.get(row.date)
+                const restriction = restrictionByDate.get(row.date)
                 const demandBar = Math.min(100, Math.max(0, row.demandPct))
                 const rowBg = row.isWeekend ? 'bg-slate-50/50' : 'bg-white'
 
                 return (
-                  <tr key={row.date} className={`group transition-all duration-200 hover:bg-primary/5 ${rowBg}`}>
+                  <tr
+                    key={row.date}
+                    id={`grid-row-${row.date}`}
+                    className={`group transition-all duration-200 hover:bg-primary/5 ${rowBg} ${row.date === focusDate ? 'outline outline-2 -outline-offset-2 outline-orange-400' : ''}`}
+                  >
                     <td className="sticky left-0 z-10 p-2 group-hover:bg-primary/5">
                       <div className="flex flex-col">
                         <span className="text-sm font-black capitalize">{row.dayName}</span>
@@ -545,11 +623,98 @@ export const PricingGrid: React.FC = () => {
                     </td>
 
                     <td className="p-2 text-center">
-                      {suggestion ? (
-                        <span className={`inline-flex items-center gap-1.5 rounded-full border px-2 py-1 text-[10px] font-black uppercase tracking-wider ${getActionBadgeClass(suggestion.change)}`}>
-                          {suggestion.change > 0 ? <TrendingUp className="h-3 w-3" /> : suggestion.change < 0 ? <TrendingDown className="h-3 w-3" /> : <Check className="h-3 w-3" />}
-                          {suggestion.change > 0 ? 'Hausse' : suggestion.change < 0 ? 'Baisse' : 'Maintien'}
-                        </span>
+                      {restriction ? (
+                        <button
+                          type="button"
+                          title={`~${restriction.protectedRooms} ch. de nuit creuse protégées`}
+                          onClick={() =>
+                            setFormulaDialog({
+                              date: row.date,
+                              title: 'Restrictions de séjour recommandées',
+                              reason: describeStayRestriction(restriction).join(' · '),
+                              formula: restriction.reasons.join(' '),
+                            })
+                          }
+                          className="inline-flex flex-wrap justify-center gap-1"
+                        >
+                          {describeStayRestriction(restriction).map((label) => (
+                            <span key={label} className="rounded-full border border-amber-200 bg-amber-50 px-2 py-0.5 text-[10px] font-black uppercase text-amber-700">
+                              {label}
+                            </span>
+                          ))}
+                        </button>
+                      ) : (
+                        <span className="text-[10px] font-bold text-slate-400">-</span>
+                      )}
+                    </td>
+
+                    <td className="p-2 text-center">
+                      {decision ? (
+                        <div
+                          className="flex flex-col items-center gap-1"
+                          title={`${decision.user_email || 'Utilisateur inconnu'} · ${format(parseISO(decision.decided_at), 'dd/MM/yyyy HH:mm')}`}
+                        >
+                          <span className={`inline-flex items-center rounded-full border px-2 py-1 text-[10px] font-black uppercase tracking-wider ${getDecisionBadgeClass(decision.decision)}`}>
+                            {DECISION_LABELS[decision.decision]}
+                          </span>
+                          {decision.decision !== 'rejected' && decision.final_price !== null && (
+                            <span className="text-[10px] font-bold text-slate-600">{formatCurrency(decision.final_price)}</span>
+                          )}
+                          {decision.supersedes_id && <span className="text-[9px] font-bold uppercase text-slate-500">Révisé</span>}
+                          {suggestion && (
+                            <button
+                              type="button"
+                              title="Réviser la décision"
+                              disabled={recordDecisions.isPending || !can('approve_prices')}
+                              onClick={() => setOverrideDialog({
+                                date: row.date,
+                                suggestion,
+                                price: decision.final_price ?? suggestion.suggestedPrice,
+                                previous: decision,
+                              })}
+                              className="rounded border border-slate-200 bg-slate-50 p-1 text-slate-600 hover:bg-slate-100 disabled:opacity-50"
+                            >
+                              <RotateCcw className="h-3 w-3" />
+                            </button>
+                          )}
+                        </div>
+                      ) : suggestion ? (
+                        <div className="flex flex-col items-center gap-1">
+                          <span className={`inline-flex items-center gap-1.5 rounded-full border px-2 py-1 text-[10px] font-black uppercase tracking-wider ${getActionBadgeClass(suggestion.change)}`}>
+                            {suggestion.change > 0 ? <TrendingUp className="h-3 w-3" /> : suggestion.change < 0 ? <TrendingDown className="h-3 w-3" /> : <Check className="h-3 w-3" />}
+                            {suggestion.change > 0 ? 'Hausse' : suggestion.change < 0 ? 'Baisse' : 'Maintien'}
+                          </span>
+                          <div className="flex items-center gap-1">
+                            <button
+                              type="button"
+                              title={canDecide(suggestion, 'approved', suggestion.suggestedPrice) ? 'Approuver' : 'Variation au-dessus du seuil auto-approve: validation reservee au revenue manager'}
+                              disabled={recordDecisions.isPending || !canDecide(suggestion, 'approved', suggestion.suggestedPrice)}
+                              onClick={() => decide(row.date, suggestion, 'approved', suggestion.suggestedPrice)}
+                              className="rounded border border-emerald-200 bg-emerald-50 p-1 text-emerald-700 hover:bg-emerald-100 disabled:opacity-50"
+                            >
+                              <Check className="h-3 w-3" />
+                            </button>
+                            <button
+                              type="button"
+                              title="Rejeter"
+                              disabled={recordDecisions.isPending || !canDecide(suggestion, 'rejected', suggestion.currentPrice)}
+                              onClick={() => decide(row.date, suggestion, 'rejected', suggestion.currentPrice)}
+                              className="rounded border border-rose-200 bg-rose-50 p-1 text-rose-700 hover:bg-rose-100 disabled:opacity-50"
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                            <button
+                              type="button"
+                              title="Forcer un prix"
+                              disabled={recordDecisions.isPending || !can('approve_prices')}
+                              onClick={() => setOverrideDialog({ date: row.date, suggestion, price: suggestion.suggestedPrice })}
+                              className="rounded border border-violet-200 bg-violet-50 p-1 text-violet-700 hover:bg-violet-100 disabled:opacity-50"
+                            >
+                              <Pencil className="h-3 w-3" />
+                            </button>
+                          </div>
+                          {suggestion.shouldAutoApprove && <span className="text-[9px] font-bold uppercase text-cyan-700">Auto</span>}
+                        </div>
                       ) : (
                         <div className="flex justify-center"><Check className="h-5 w-5 text-emerald-500" /></div>
                       )}
@@ -603,12 +768,90 @@ export const PricingGrid: React.FC = () => {
         )}
       </section>
 
+      {recordDecisions.isError && (
+        <div className="rounded-xl border border-rose-200 bg-rose-50 p-3 text-sm font-semibold text-rose-700">
+          Enregistrement de la décision impossible: {recordDecisions.error instanceof Error ? recordDecisions.error.message : 'erreur inconnue'}
+        </div>
+      )}
+
+      {overrideDialog && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 p-4">
+          <div className="w-full max-w-md rounded-2xl border border-slate-200 bg-white p-5 shadow-2xl">
+            <div className="mb-3 flex items-start justify-between gap-3">
+              <div>
+                <h3 className="text-base font-black text-slate-900">{overrideDialog.previous ? 'Réviser la décision' : 'Forcer le tarif'}</h3>
+                <p className="text-xs text-slate-500">
+                  Date {overrideDialog.date} · Actuel {formatCurrency(overrideDialog.suggestion.currentPrice)} · Suggéré {formatCurrency(overrideDialog.suggestion.suggestedPrice)}
+                </p>
+                {overrideDialog.previous && (
+                  <p className="mt-1 text-xs text-slate-500">
+                    Décision en vigueur: {DECISION_LABELS[overrideDialog.previous.decision]}
+                    {overrideDialog.previous.decision !== 'rejected' && overrideDialog.previous.final_price !== null && ` à ${formatCurrency(overrideDialog.previous.final_price)}`}
+                    {' '}par {overrideDialog.previous.user_email || 'Utilisateur inconnu'} le {format(parseISO(overrideDialog.previous.decided_at), 'dd/MM/yyyy HH:mm')}.
+                    La révision est ajoutée au journal, la décision précédente reste consultable dans l'historique.
+                  </p>
+                )}
+              </div>
+              <button
+                type="button"
+                onClick={() => setOverrideDialog(null)}
+                className="rounded-lg border border-slate-200 p-1.5 text-slate-600 hover:bg-slate-50"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+            <label className="block text-sm font-semibold text-slate-700">
+              Prix final
+              <input
+                type="number"
+                min={0}
+                value={overrideDialog.price}
+                onChange={(event) => setOverrideDialog((prev) => (prev ? { ...prev, price: Number(event.target.value) } : prev))}
+                className="mt-2 w-full rounded-lg border border-slate-200 px-3 py-2"
+              />
+            </label>
+            {overrideDialog.price > 0 && !canDecide(overrideDialog.suggestion, getDialogDecision(overrideDialog), overrideDialog.price) && (
+              <p className="mt-2 text-xs font-semibold text-amber-700">
+                Variation au-dessus du seuil auto-approve ({config.rms.autoApproveThresholdPct}%): validation reservee au revenue manager.
+              </p>
+            )}
+            <div className="mt-4 flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setOverrideDialog(null)}
+                className="rounded-lg border border-slate-200 px-3 py-2 text-xs font-bold text-slate-700 hover:bg-slate-50"
+              >
+                Annuler
+              </button>
+              {overrideDialog.previous && overrideDialog.previous.decision !== 'rejected' && (
+                <button
+                  type="button"
+                  onClick={rejectRevision}
+                  disabled={!canDecide(overrideDialog.suggestion, 'rejected', overrideDialog.suggestion.currentPrice)}
+                  className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-xs font-bold text-rose-700 hover:bg-rose-100 disabled:opacity-50"
+                >
+                  Rejeter la suggestion
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={submitOverride}
+                disabled={overrideDialog.price <= 0 || !canDecide(overrideDialog.suggestion, getDialogDecision(overrideDialog), overrideDialog.price)}
+                className="rounded-lg bg-slate-900 px-3 py-2 text-xs font-bold text-white disabled:opacity-50"
+              >
+                Enregistrer
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {formulaDialog && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 p-4">
           <div className="w-full max-w-2xl rounded-2xl border border-slate-200 bg-white p-5 shadow-2xl">
             <div className="mb-3 flex items-start justify-between gap-3">
               <div>
-                <h3 className="text-base font-black text-slate-900">Méthode de calcul du tarif suggéré</h3>
+                <h3 className="text-base font-black text-slate-900">{formulaDialog.title || 'Méthode de calcul du tarif suggéré'}</h3>
                 <p className="text-xs text-slate-500">
                   Date {formulaDialog.date} · {formulaDialog.reason}
                 </p>
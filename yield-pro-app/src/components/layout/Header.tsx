@@ -1,7 +1,12 @@
 import React from 'react'
-import { Bell, Search, Calendar as CalendarIcon, Moon, Sun } from 'lucide-react'
+import { Link } from 'react-router-dom'
+import { Bell, Search, Calendar as CalendarIcon, Moon, Sun, Building2, X } from 'lucide-react'
+import { useActiveHotelId, useHotelByHotelId } from '../../hooks/useHotels'
+import { usePermissions } from '../../hooks/usePermissions'
+import { useActiveHotelStore } from '../../store/useActiveHotelStore'
 import { useAuthStore } from '../../store/useAuthStore'
 import { useThemeStore } from '../../store/useThemeStore'
+import { HOTEL_ROLE_LABELS } from '../../utils/permissions'
 
 interface HeaderProps {
     startDate: Date | null
@@ -26,6 +31,11 @@ const parseInputDate = (value: string) => {
 export const Header: React.FC<HeaderProps> = ({ startDate, endDate, onStartDateChange, onEndDateChange }) => {
     const { profile } = useAuthStore()
     const { theme, toggleTheme } = useThemeStore()
+    const hotelId = useActiveHotelId()
+    const { data: hotel } = useHotelByHotelId(hotelId)
+    const setActiveHotel = useActiveHotelStore((state) => state.setActiveHotel)
+    const { role } = usePermissions(hotelId)
+    const isPortfolioHotel = !!profile?.hotel_id && hotelId !== profile.hotel_id
     const effectiveStart = startDate || new Date()
     const effectiveEnd = endDate || new Date()
 
@@ -68,6 +78,22 @@ export const Header: React.FC<HeaderProps> = ({ startDate, endDate, onStartDateC
             </div>
 
             <div className="ml-6 flex items-center gap-4">
+                <div className={`flex items-center gap-2 rounded-xl border px-3 py-2 ${isPortfolioHotel ? 'border-cyan-200 bg-cyan-50' : 'border-slate-200 bg-white'}`}>
+                    <Link to="/portfolio" className="flex items-center gap-2" title="Changer d'hotel depuis le portefeuille">
+                        <Building2 className="h-4 w-4 text-slate-500" />
+                        <span className="max-w-[160px] truncate text-xs font-bold text-slate-700">{hotel?.name || hotelId}</span>
+                    </Link>
+                    {isPortfolioHotel && (
+                        <button
+                            onClick={() => setActiveHotel(null)}
+                            className="rounded-md p-0.5 text-slate-500 hover:bg-white"
+                            title="Revenir a mon hotel par defaut"
+                        >
+                            <X className="h-3.5 w-3.5" />
+                        </button>
+                    )}
+                </div>
+
                 <button
                     onClick={toggleTheme}
                     className="rounded-xl border border-slate-200 bg-white p-2.5 text-slate-500 hover:bg-slate-50"
@@ -85,7 +111,7 @@ export const Header: React.FC<HeaderProps> = ({ startDate, endDate, onStartDateC
                     <div className="text-right">
                         <p className="text-sm font-bold leading-tight">{profile?.full_name || 'Utilisateur'}</p>
                         <p className="text-[10px] uppercase tracking-[0.16em] text-slate-300">
-                            {profile?.role === 'admin' ? 'Admin RMS' : 'Yield Manager'}
+                            {profile?.role === 'admin' ? 'Admin RMS' : role ? HOTEL_ROLE_LABELS[role] : 'Sans acces'}
                         </p>
                     </div>
                     <div className="flex h-9 w-9 items-center justify-center rounded-full bg-white text-sm font-black text-slate-900">
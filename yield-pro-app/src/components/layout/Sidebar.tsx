@@ -15,30 +15,60 @@ import {
     CalendarDays,
     Calculator,
     BookOpen,
-    Lock
+    Lock,
+    Layers,
+    Upload,
+    FileSpreadsheet,
+    Building2,
+    FlaskConical,
+    Rewind,
+    ShieldAlert,
+    CalendarX,
+    PieChart
 } from 'lucide-react'
+import { useActiveHotelId } from '../../hooks/useHotels'
+import { usePermissions } from '../../hooks/usePermissions'
 import { useAuthStore } from '../../store/useAuthStore'
+import type { Permission } from '../../utils/permissions'
+
+type MenuItem = {
+    icon: React.ComponentType<{ className?: string }>
+    label: string
+    path: string
+    highlight?: boolean
+    permission?: Permission
+}
 
 export const Sidebar: React.FC = () => {
     const location = useLocation()
     const { profile, signOut } = useAuthStore()
     const [collapsed, setCollapsed] = React.useState(false)
+    const { can, canOnAnyHotel } = usePermissions(useActiveHotelId())
 
-    const menuItems = [
+    const menuItems: MenuItem[] = [
         { icon: LayoutDashboard, label: 'Dashboard', path: '/dashboard' },
+        { icon: Building2, label: 'Portefeuille', path: '/portfolio' },
         { icon: Table, label: 'Grille Tarifaire', path: '/grid' },
+        { icon: Layers, label: 'Plans Tarifaires', path: '/rate-plans' },
+        { icon: Upload, label: 'Export Channel', path: '/channel-export' },
         { icon: BarChart3, label: 'Concurrence', path: '/competitors' },
         { icon: Workflow, label: 'Analyses Yield', path: '/yield' },
         { icon: CalendarDays, label: 'Calendrier Arrivées', path: '/calendar-arrivals' },
         { icon: Lock, label: 'Mes indisponibilités', path: '/mes-indisponibilites' },
         { icon: Calculator, label: 'Simulateur', path: '/reservation-simulator' },
+        { icon: ShieldAlert, label: 'Surréservation', path: '/overbooking' },
+        { icon: CalendarX, label: 'Annulations', path: '/cancellations' },
+        { icon: PieChart, label: 'Mix canaux', path: '/channel-mix' },
         { icon: BookOpen, label: 'Aide Générale', path: '/help-general', highlight: true },
         { icon: BookOpen, label: 'Aide Calibrage', path: '/help-calibrage', highlight: true },
         { icon: History, label: 'Historique', path: '/history' },
+        { icon: FileSpreadsheet, label: 'Imports', path: '/imports', permission: 'import_data' },
         { icon: Settings, label: 'Studio RMS', path: '/settings' },
+        { icon: FlaskConical, label: 'Sandbox RMS', path: '/rms-sandbox' },
+        { icon: Rewind, label: 'Backtest RMS', path: '/backtest' },
     ]
 
-    const isAdmin = profile?.role === 'admin'
+    const isAdmin = canOnAnyHotel('manage_users')
 
     return (
         <aside className={`h-screen flex flex-col border-r border-slate-200 bg-white/90 backdrop-blur-xl transition-all duration-300 ${collapsed ? 'w-20' : 'w-72'}`}>
@@ -63,7 +93,7 @@ export const Sidebar: React.FC = () => {
             </div>
 
             <nav className="flex-1 space-y-2 p-4">
-                {menuItems.map((item) => {
+                {menuItems.filter((item) => !item.permission || can(item.permission)).map((item) => {
                     const isActive = location.pathname === item.path
                     return (
                         <Link
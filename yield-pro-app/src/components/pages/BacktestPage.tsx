@@ -0,0 +1,190 @@
+import React, { useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { format, parseISO } from 'date-fns'
+import { fr } from 'date-fns/locale'
+import { Loader2, Rewind } from 'lucide-react'
+import { useBacktestData } from '../../hooks/useBacktestData'
+import { useDashboardConfig } from '../../hooks/useDashboardConfig'
+import { useActiveHotelId } from '../../hooks/useHotels'
+import { useRmsScenarios } from '../../hooks/useRmsScenarios'
+import { BACKTEST_LEAD_OPTIONS, BACKTEST_WINDOW_OPTIONS, runBacktests, type BacktestSettingSet } from '../../utils/backtest'
+import { formatCurrency } from '../../utils/formatters'
+
+const formatSigned = (value: number, formatter: (value: number) => string) => `${value > 0 ? '+' : ''}${formatter(value)}`
+
+export const BacktestPage: React.FC = () => {
+  const hotelId = useActiveHotelId()
+  const { config, isLoading: loadingConfig } = useDashboardConfig()
+  const { data: scenarios = [] } = useRmsScenarios(hotelId)
+  const [windowDays, setWindowDays] = useState(60)
+  const [leadDays, setLeadDays] = useState(7)
+  const [selectedSetId, setSelectedSetId] = useState('live')
+  const { input, isLoading: loadingData } = useBacktestData(hotelId, windowDays)
+  const isLoading = loadingConfig || loadingData
+
+  const settingSets: BacktestSettingSet[] = useMemo(() => [
+    { id: 'live', label: 'Parametres actifs', settings: config.rms },
+    ...scenarios.map((scenario) => ({ id: scenario.id, label: scenario.name, settings: scenario.settings })),
+  ], [config.rms, scenarios])
+
+  const summaries = useMemo(() => {
+    if (isLoading) return []
+    return runBacktests({ ...input, leadDays }, settingSets)
+  }, [input, isLoading, leadDays, settingSets])
+
+  const selected = summaries.find((summary) => summary.setId === selectedSetId) || summaries[0]
+
+  return (
+    <div className="mx-auto max-w-[1400px] space-y-6">
+      <section className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-col gap-3 lg:flex-row lg:items-end lg:justify-between">
+          <div>
+            <div className="mb-2 flex items-center gap-2">
+              <Rewind className="h-5 w-5 text-slate-700" />
+              <h2 className="text-3xl font-black tracking-tight text-slate-900">Backtest RMS</h2>
+            </div>
+            <p className="text-sm text-slate-500">
+              Rejoue le moteur RMS sur les nuits passees avec le marche et les reservations connus a J-{leadDays}, puis compare la recommandation au
+              tarif reellement vendu. Les scenarios de la{' '}
+              <Link to="/rms-sandbox" className="font-semibold text-slate-700 underline">Sandbox RMS</Link> sont evalues en parallele.
+            </p>
+          </div>
+          <div className="flex items-center gap-3 text-sm font-semibold text-slate-700">
+            <label className="flex items-center gap-2">
+              Periode
+              <select
+                value={windowDays}
+                onChange={(event) => setWindowDays(Number(event.target.value))}
+                className="rounded-lg border border-slate-200 px-2 py-1"
+              >
+                {BACKTEST_WINDOW_OPTIONS.map((days) => (
+                  <option key={days} value={days}>{days} derniers jours</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Decision a
+              <select
+                value={leadDays}
+                onChange={(event) => setLeadDays(Number(event.target.value))}
+                className="rounded-lg border border-slate-200 px-2 py-1"
+              >
+                {BACKTEST_LEAD_OPTIONS.map((days) => (
+                  <option key={days} value={days}>J-{days}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </div>
+      </section>
+
+      {isLoading ? (
+        <div className="flex min-h-[300px] items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-slate-400" />
+        </div>
+      ) : (
+        <>
+          <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+            <h3 className="mb-3 text-sm font-black uppercase tracking-[0.16em] text-slate-700">Erreurs par jeu de parametres</h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200 text-[11px] uppercase tracking-wider text-slate-500">
+                    <th className="px-3 py-2">Parametres</th>
+                    <th className="px-3 py-2">Nuits evaluees</th>
+                    <th className="px-3 py-2">Ecart moyen (MAE)</th>
+                    <th className="px-3 py-2">MAPE</th>
+                    <th className="px-3 py-2">Biais</th>
+                    <th className="px-3 py-2">Erreur occ. prevue</th>
+                    <th className="px-3 py-2">Bon sens</th>
+                    <th className="px-3 py-2">CA realise (net)</th>
+                    <th className="px-3 py-2">Opportunite CA</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summaries.map((summary) => (
+                    <tr
+                      key={summary.setId}
+                      onClick={() => setSelectedSetId(summary.setId)}
+                      className={`cursor-pointer border-b border-slate-100 hover:bg-slate-50 ${selected?.setId === summary.setId ? 'bg-slate-50' : ''}`}
+                    >
+                      <td className="px-3 py-2 font-semibold text-slate-900">{summary.label}</td>
+                      <td className="px-3 py-2 text-slate-600">
+                        {summary.evaluatedDays}
+                        {summary.skippedDays > 0 && <span className="text-xs text-slate-400"> ({summary.skippedDays} sans donnees)</span>}
+                      </td>
+                      <td className="px-3 py-2 text-slate-800">{formatCurrency(summary.priceMae)}</td>
+                      <td className="px-3 py-2 text-slate-800">{summary.priceMape.toFixed(1)}%</td>
+                      <td className="px-3 py-2 text-slate-800">{formatSigned(summary.priceBias, formatCurrency)}</td>
+                      <td className="px-3 py-2 text-slate-800">{summary.occupancyMae.toFixed(1)} pts</td>
+                      <td className="px-3 py-2 text-slate-800">{summary.directionHitRate.toFixed(0)}%</td>
+                      <td className="px-3 py-2 text-slate-800">
+                        {formatCurrency(summary.actualRevenue)}
+                        <span className="text-xs text-slate-500"> ({formatCurrency(summary.actualNetRevenue)})</span>
+                      </td>
+                      <td className="px-3 py-2 font-bold text-emerald-700">
+                        {formatCurrency(summary.revenueOpportunity)} ({summary.revenueOpportunityPct.toFixed(1)}%)
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="mt-3 text-xs text-slate-500">
+              Ecarts mesures entre le tarif recommande et l'ADR vendu de la nuit. Bon sens: hausse conseillee sur une nuit finie au-dessus de
+              l'objectif d'occupation, baisse sur une nuit finie en dessous. Opportunite CA: chambres vendues sous la recommandation sur les
+              nuits ayant atteint l'objectif, en supposant les memes ventes au tarif recommande. Les nuits sans apercu marche date avant la
+              decision sont ignorees.
+            </p>
+          </section>
+
+          {selected && (
+            <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+              <h3 className="mb-3 text-sm font-black uppercase tracking-[0.16em] text-slate-700">Detail par nuit - {selected.label}</h3>
+              {selected.days.length === 0 ? (
+                <p className="text-sm text-slate-500">Aucune nuit rejouable: pas d'apercu marche publie avant J-{leadDays} sur la periode.</p>
+              ) : (
+                <div className="max-h-[520px] overflow-auto">
+                  <table className="w-full text-left text-sm">
+                    <thead className="sticky top-0 bg-white">
+                      <tr className="border-b border-slate-200 text-[11px] uppercase tracking-wider text-slate-500">
+                        <th className="px-3 py-2">Nuit</th>
+                        <th className="px-3 py-2">Apercu du</th>
+                        <th className="px-3 py-2">BAR a la decision</th>
+                        <th className="px-3 py-2">Reco</th>
+                        <th className="px-3 py-2">ADR vendu (net)</th>
+                        <th className="px-3 py-2">Ecart</th>
+                        <th className="px-3 py-2">Occ. prevue</th>
+                        <th className="px-3 py-2">Occ. finale</th>
+                        <th className="px-3 py-2">Opportunite</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {selected.days.map((day) => (
+                        <tr key={day.date} className={`border-b border-slate-100 ${day.directionHit ? '' : 'bg-rose-50/50'}`}>
+                          <td className="px-3 py-2 font-semibold text-slate-800">{format(parseISO(day.date), 'EEE dd MMM', { locale: fr })}</td>
+                          <td className="px-3 py-2 text-slate-500">{format(parseISO(day.snapshotUpdatedAt), 'dd MMM', { locale: fr })}</td>
+                          <td className="px-3 py-2 text-slate-600">{formatCurrency(day.priceAtCutoff)}</td>
+                          <td className="px-3 py-2 font-semibold text-slate-900">{formatCurrency(day.recommendedPrice)}</td>
+                          <td className="px-3 py-2 text-slate-600">
+                            {day.soldAdr > 0 ? `${formatCurrency(day.soldAdr)} (${formatCurrency(day.netSoldAdr)})` : '-'}
+                          </td>
+                          <td className={`px-3 py-2 font-bold ${day.priceError > 0 ? 'text-emerald-600' : day.priceError < 0 ? 'text-rose-600' : 'text-slate-400'}`}>
+                            {day.soldAdr > 0 ? formatSigned(day.priceError, formatCurrency) : '-'}
+                          </td>
+                          <td className="px-3 py-2 text-slate-600">{day.forecastOccupancy.toFixed(0)}%</td>
+                          <td className="px-3 py-2 text-slate-600">{day.finalOccupancy.toFixed(0)}%</td>
+                          <td className="px-3 py-2 text-slate-800">{day.opportunity > 0 ? formatCurrency(day.opportunity) : '-'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </section>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
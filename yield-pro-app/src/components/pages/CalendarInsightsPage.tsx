@@ -7,29 +7,10 @@ import { Bar, BarChart, CartesianGrid, ComposedChart, Legend, Line, ResponsiveCo
 import { useBookingApercu, useBookingExport } from '../../hooks/useBookingData'
 import { useCompetitorRates } from '../../hooks/useCompetitorData'
 import { useEvents } from '../../hooks/useHotelData'
-import { useAuthStore } from '../../store/useAuthStore'
-import type { Database } from '../../types/database.types'
+import { useActiveHotelId } from '../../hooks/useHotels'
 import { formatCurrency } from '../../utils/formatters'
 import { clearMetrics, getMetrics } from '../../utils/metricsLogger'
-
-type BookingExportRow = Database['public']['Tables']['booking_export']['Row']
-type BookingApercuRow = Database['public']['Tables']['booking_apercu']['Row']
-type BookingTarifsRow = Database['public']['Tables']['booking_tarifs']['Row']
-type EventRow = Database['public']['Tables']['events_calendar']['Row']
-type BookingExportLike = BookingExportRow & {
-  arrival_date?: string | null
-  departure_date?: string | null
-  total_amount?: number | null
-}
-
-type BookingApercuLike = BookingApercuRow & {
-  date?: string | null
-  own_price?: number | null
-  compset_median?: number | null
-  market_demand?: number | null
-}
-
-type BookingTarifsLike = BookingTarifsRow & Record<string, unknown>
+import { eachDateKey, parseDate } from '../../utils/normalization'
 
 type DisplayRow = {
   id: string
@@ -71,147 +52,7 @@ const parseLocalDate = (value: string): Date => {
   return new Date(year || 2000, (month || 1) - 1, day || 1)
 }
 
-const parseDate = (value: string | null | undefined): Date | null => {
-  if (!value) return null
-  const trimmed = value.trim()
-  if (!trimmed) return null
-
-  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})$/)
-  if (iso) {
-    const [, y, m, d] = iso
-    const local = new Date(Number(y), Number(m) - 1, Number(d))
-    if (!Number.isNaN(local.getTime())) return local
-  }
-
-  const frDash = trimmed.match(/^(\d{2})-(\d{2})-(\d{4})$/)
-  if (frDash) {
-    const [, d, m, y] = frDash
-    const local = new Date(Number(y), Number(m) - 1, Number(d))
-    if (!Number.isNaN(local.getTime())) return local
-  }
-
-  const frSlash = trimmed.match(/^(\d{2})\/(\d{2})\/(\d{4})$/)
-  if (frSlash) {
-    const [, d, m, y] = frSlash
-    const local = new Date(Number(y), Number(m) - 1, Number(d))
-    if (!Number.isNaN(local.getTime())) return local
-  }
-
-  const parsed = new Date(trimmed)
-  if (!Number.isNaN(parsed.getTime())) return parsed
-  return null
-}
-
-const dayDiff = (start: Date, end: Date) => {
-  const s = new Date(start)
-  const e = new Date(end)
-  s.setHours(0, 0, 0, 0)
-  e.setHours(0, 0, 0, 0)
-  return Math.round((e.getTime() - s.getTime()) / (1000 * 60 * 60 * 24))
-}
-
-const inferRoomsFromRoomType = (roomType: string) => {
-  const normalized = normalizeKey(roomType || '')
-  if (normalized.includes('deuxchambresadjacentes') || normalized.includes('2chambresadjacentes')) return 2
-  return 1
-}
-
-const getEffectiveNights = (row: DisplayRow) => {
-  if (row.nights > 0) return row.nights
-  if (row.arrival && row.departure) return Math.max(1, dayDiff(row.arrival, row.departure))
-  return 0
-}
-
-const getEffectiveRooms = (row: DisplayRow) => {
-  const sourceRooms = row.rooms > 0 ? row.rooms : 1
-  const inferredRooms = inferRoomsFromRoomType(row.roomType || '')
-  return Math.max(sourceRooms, inferredRooms)
-}
-
-const getEffectiveRoomNights = (row: DisplayRow) => {
-  const nights = getEffectiveNights(row)
-  if (nights <= 0) return 0
-  return getEffectiveRooms(row) * nights
-}
-
-const pickNumber = (record: Record<string, unknown>, aliases: string[]) => {
-  for (const alias of aliases) {
-    const value = record[alias]
-    if (typeof value === 'number') return value
-    if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) return Number(value)
-  }
-  return 0
-}
-
-const normalizeKey = (value: string) =>
-  value
-    .normalize('NFD')
-    .replace(/[\u0300-\u036f]/g, '')
-    .replace(/[^a-zA-Z0-9]/g, '')
-    .toLowerCase()
-
-const readString = (record: Record<string, unknown>, aliases: string[]) => {
-  for (const alias of aliases) {
-    const value = record[alias]
-    if (typeof value === 'string' && value.trim() !== '') return value
-  }
-  return ''
-}
-
-const readNumber = (record: Record<string, unknown>, aliases: string[]) => {
-  for (const alias of aliases) {
-    const value = record[alias]
-    if (typeof value === 'number') return value
-    if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) return Number(value)
-  }
-  return 0
-}
-
-const getDynamicDate = (record: Record<string, unknown>, mode: 'arrival' | 'departure') => {
-  const key = Object.keys(record).find((candidate) => {
-    const k = normalizeKey(candidate)
-    if (mode === 'arrival') return (k.includes('arriv') || k.includes('checkin')) && !k.includes('depart') && !k.includes('checkout')
-    return k.includes('depart') || k.includes('checkout')
-  })
-
-  if (!key) return null
-  const value = record[key]
-  return typeof value === 'string' ? parseDate(value) : null
-}
-
-const getArrivalDate = (record: Record<string, unknown>) => {
-  const direct = parseDate(readString(record, [
-    'arrival_date',
-    "Date d'arrivée",
-    'Date arrivee',
-    'Arrivee',
-    'Arrival',
-    'Check-in',
-    "Date d'arrivee",
-    "Date d'arrivÃ©e",
-    "Date d'arrivÃƒÂ©e",
-    "Date d'arrivÃƒÆ’Ã‚Â©e",
-  ]))
-  return direct || getDynamicDate(record, 'arrival')
-}
-
-const getDepartureDate = (record: Record<string, unknown>) => {
-  const direct = parseDate(readString(record, [
-    'departure_date',
-    'Date de depart',
-    'Departure',
-    'Check-out',
-    'Date de dÃ©part',
-    'Date de dÃƒÂ©part',
-    'Date de dÃƒÆ’Ã‚Â©part',
-  ]))
-  return direct || getDynamicDate(record, 'departure')
-}
-
-const isCancelled = (status: string) => {
-  const lower = status.toLowerCase()
-  return lower.includes('annul') || lower.includes('cancel')
-}
+const getRoomNights = (row: DisplayRow) => row.rooms * row.nights
 
 const defaultVisibleColumns: Record<ColumnKey, boolean> = {
   arrival: true,
@@ -229,8 +70,7 @@ const defaultVisibleColumns: Record<ColumnKey, boolean> = {
 
 export const CalendarInsightsPage: React.FC = () => {
   const queryClient = useQueryClient()
-  const { profile } = useAuthStore()
-  const hotelId = profile?.hotel_id || 'H2258'
+  const hotelId = useActiveHotelId()
 
   const today = new Date()
   const [rangePreset, setRangePreset] = useState<RangePreset>('month')
@@ -261,42 +101,29 @@ export const CalendarInsightsPage: React.FC = () => {
   const fetchStart = rangeStart < monthStart ? rangeStart : monthStart
   const fetchEnd = rangeEnd > monthEnd ? rangeEnd : monthEnd
 
-  const { data: reservations = [], isLoading, refetch, isFetching } = useBookingExport(hotelId, fetchStart, fetchEnd)
-  const { data: bookingApercu = [] } = useBookingApercu(hotelId, fetchStart, fetchEnd)
-  const { data: competitorRates = [] } = useCompetitorRates(hotelId, fetchStart, fetchEnd)
-  const { data: events = [] } = useEvents(hotelId, fetchStart, fetchEnd)
+  const { data: bookingExportData, isLoading, refetch, isFetching } = useBookingExport(hotelId, fetchStart, fetchEnd)
+  const { data: bookingApercuData } = useBookingApercu(hotelId, fetchStart, fetchEnd)
+  const { data: competitorRatesData } = useCompetitorRates(hotelId, fetchStart, fetchEnd)
+  const { data: eventsData } = useEvents(hotelId, fetchStart, fetchEnd)
+  const reservations = useMemo(() => bookingExportData?.items ?? [], [bookingExportData])
 
   const allFetchedRows = useMemo(() => {
-    return (reservations as BookingExportLike[])
-      .map((raw) => {
-        const record = raw as unknown as Record<string, unknown>
-        const arrival = getArrivalDate(record)
-        const departure = getDepartureDate(record)
-        const status = readString(record, ['Etat'])
-
-        return {
-          id: raw.id,
-          arrival,
-          departure,
-          reference: readString(record, ['Référence', 'RÃ©fÃ©rence']) || raw.id,
-          status,
-          origin: readString(record, ['Origine', "Type d'origine"]),
-          roomType: readString(record, ['Type de chambre']),
-          rooms: readNumber(record, ['Chambres']),
-          nights: readNumber(record, ['Nuits']),
-          adults: readNumber(record, ['Adultes']),
-          children: readNumber(record, ['Enfants']),
-          country: readString(record, ['Pays']),
-          amount: readNumber(record, ['Montant total']),
-          isCancelled: isCancelled(status),
-        } satisfies DisplayRow
-      })
-      .filter((row) => row.arrival !== null)
-      .sort((a, b) => {
-        const da = a.arrival?.getTime() ?? 0
-        const db = b.arrival?.getTime() ?? 0
-        return da - db
-      })
+    return reservations.map((reservation) => ({
+      id: reservation.id,
+      arrival: parseDate(reservation.arrivalDate),
+      departure: parseDate(reservation.departureDate),
+      reference: reservation.reference || reservation.id,
+      status: reservation.status,
+      origin: reservation.origin || reservation.originType,
+      roomType: reservation.roomType,
+      rooms: reservation.rooms,
+      nights: reservation.nights,
+      adults: reservation.adults,
+      children: reservation.children,
+      country: reservation.country,
+      amount: reservation.totalAmount,
+      isCancelled: reservation.isCancelled,
+    } satisfies DisplayRow))
   }, [reservations])
 
   const baseRows = useMemo(() => {
@@ -323,73 +150,43 @@ export const CalendarInsightsPage: React.FC = () => {
   }, [allFetchedRows])
 
   const apercuByDate = useMemo(() => {
-    const map = new Map<string, { ownLow: number; compsetMedian: number; demandIndex: number }>()
-    ;(bookingApercu as BookingApercuLike[]).forEach((row) => {
-      const record = row as unknown as Record<string, unknown>
-      const dateRaw = row.date || row.Date
-      const date = parseDate(dateRaw)
-      if (!date) return
-      const key = toIsoLocal(date)
-      const ownLow = row.own_price ?? pickNumber(record, ['Votre hôtel le plus bas', 'Votre hÃ´tel le plus bas'])
-      const compsetMedian = row.compset_median ?? pickNumber(record, ['médiane du compset', 'mÃ©diane du compset'])
-      const demandIndex = row.market_demand ?? pickNumber(record, ['Demande du marché', 'Demande du marchÃ©'])
-      map.set(key, { ownLow, compsetMedian, demandIndex })
+    const map = new Map<string, { ownLow: number; compsetMedian: number; demandPct: number }>()
+    ;(bookingApercuData?.items || []).forEach((day) => {
+      map.set(day.date, {
+        ownLow: day.ownPrice ?? 0,
+        compsetMedian: day.compsetMedian ?? 0,
+        demandPct: day.marketDemand ?? 0,
+      })
     })
     return map
-  }, [bookingApercu])
+  }, [bookingApercuData])
 
   const lowestCompetitorByDate = useMemo(() => {
-    const ignoreKeys = new Set(['id', 'hotel_id', 'date_mise_a_jour', 'Jour', 'Date', 'Demande du marché', 'Demande du marchÃ©', 'Folkestone Opéra', 'Folkestone OpÃ©ra'])
     const map = new Map<string, { hotelName: string; price: number }>()
 
-    ;(competitorRates as BookingTarifsLike[]).forEach((row) => {
-      const dateRaw = typeof row.Date === 'string' ? row.Date : ''
-      const date = parseDate(dateRaw)
-      if (!date) return
-      const key = toIsoLocal(date)
-
-      let lowestName = ''
-      let lowestPrice = Number.POSITIVE_INFINITY
-      Object.entries(row).forEach(([col, value]) => {
-        if (ignoreKeys.has(col)) return
-        if (typeof value !== 'number') return
-        if (value <= 0) return
-        if (value < lowestPrice) {
-          lowestPrice = value
-          lowestName = col
-        }
-      })
-
-      if (lowestName && Number.isFinite(lowestPrice)) {
-        map.set(key, { hotelName: lowestName, price: lowestPrice })
+    ;(competitorRatesData?.items || []).forEach((rate) => {
+      if (rate.isOwnHotel || rate.price === null) return
+      const current = map.get(rate.date)
+      if (!current || rate.price < current.price) {
+        map.set(rate.date, { hotelName: rate.competitor, price: rate.price })
       }
     })
 
     return map
-  }, [competitorRates])
+  }, [competitorRatesData])
 
   const eventsByDate = useMemo(() => {
     const map = new Map<string, string[]>()
-    ;(events as EventRow[]).forEach((event) => {
-      const row = event as Record<string, unknown>
-      const name = readString(row, ['Ã‰vÃ©nement', 'Événement', 'event', 'name']) || 'Evenement'
-      const start = parseDate(readString(row, ['DÃ©but', 'Début', 'start_date']))
-      const end = parseDate(readString(row, ['Fin', 'end_date'])) || start
-      if (!start || !end) return
-      const cur = new Date(start)
-      cur.setHours(0, 0, 0, 0)
-      const last = new Date(end)
-      last.setHours(0, 0, 0, 0)
-      while (cur <= last) {
-        const key = toIsoLocal(cur)
+    ;(eventsData?.items || []).forEach((event) => {
+      const name = event.name || 'Evenement'
+      eachDateKey(event.startDate, event.endDate).forEach((key) => {
         const list = map.get(key) || []
         list.push(name)
         map.set(key, list)
-        cur.setDate(cur.getDate() + 1)
-      }
+      })
     })
     return map
-  }, [events])
+  }, [eventsData])
 
   const selectedKey = toIsoLocal(selectedDate)
   const effectiveSelectedKey = selectedKey
@@ -411,7 +208,7 @@ export const CalendarInsightsPage: React.FC = () => {
       const key = toIsoLocal(row.arrival)
       const current = aggregate.get(key) || { amount: 0, roomNights: 0 }
       current.amount += row.amount
-      current.roomNights += getEffectiveRoomNights(row)
+      current.roomNights += getRoomNights(row)
       aggregate.set(key, current)
     })
     aggregate.forEach((v, k) => {
@@ -424,10 +221,10 @@ export const CalendarInsightsPage: React.FC = () => {
     const total = rows.length
     const cancelled = rows.filter((row) => row.isCancelled).length
     const confirmed = total - cancelled
-    const rooms = rows.reduce((sum, row) => sum + getEffectiveRooms(row), 0)
-    const nights = rows.reduce((sum, row) => sum + getEffectiveNights(row), 0)
+    const rooms = rows.reduce((sum, row) => sum + row.rooms, 0)
+    const nights = rows.reduce((sum, row) => sum + row.nights, 0)
     const revenue = rows.reduce((sum, row) => sum + row.amount, 0)
-    const roomNights = rows.reduce((sum, row) => sum + getEffectiveRoomNights(row), 0)
+    const roomNights = rows.reduce((sum, row) => sum + getRoomNights(row), 0)
     const avgNightPrice = roomNights > 0 ? revenue / roomNights : 0
     const byOrigin = rows.reduce<Record<string, number>>((acc, row) => {
       const origin = row.origin?.trim() || 'Non defini'
@@ -451,7 +248,7 @@ export const CalendarInsightsPage: React.FC = () => {
     if (key === 'status') return row.status || ''
     if (key === 'origin') return row.origin || ''
     if (key === 'roomType') return row.roomType || ''
-    if (key === 'rooms') return getEffectiveRooms(row)
+    if (key === 'rooms') return row.rooms
     if (key === 'nights') return row.nights
     if (key === 'guests') return row.adults + row.children
     if (key === 'country') return row.country || ''
@@ -479,7 +276,7 @@ export const CalendarInsightsPage: React.FC = () => {
   }, [calendarRows, sortBy, sortDirection])
 
   const monthDays = eachDayOfInterval({ start: startOfMonth(visibleMonth), end: endOfMonth(visibleMonth) })
-  const metricRows = getMetrics(undefined, 40).filter((m) => m.scope.startsWith('booking_export'))
+  const metricRows = getMetrics(undefined, 40).filter((m) => m.scope.startsWith('booking_export') || m.scope === 'normalization_issues')
   const displayedRows = isCalendarDayFilterActive ? calendarSortedRows : rangeSortedRows
   const displayedStats = isCalendarDayFilterActive ? calendarStats : rangeStats
 
@@ -493,7 +290,7 @@ export const CalendarInsightsPage: React.FC = () => {
       const bucket = index.get(key) || { arrivals: 0, revenue: 0, roomNights: 0 }
       bucket.arrivals += 1
       bucket.revenue += row.amount
-      bucket.roomNights += getEffectiveRoomNights(row)
+      bucket.roomNights += getRoomNights(row)
       index.set(key, bucket)
     })
 
@@ -516,7 +313,7 @@ export const CalendarInsightsPage: React.FC = () => {
       const bucket = acc[key] || { arrivals: 0, revenue: 0, roomNights: 0 }
       bucket.arrivals += 1
       bucket.revenue += row.amount
-      bucket.roomNights += getEffectiveRoomNights(row)
+      bucket.roomNights += getRoomNights(row)
       acc[key] = bucket
       return acc
     }, {})
@@ -542,7 +339,7 @@ export const CalendarInsightsPage: React.FC = () => {
       const apercu = apercuByDate.get(key)
       const ownLow = apercu?.ownLow || 0
       const compsetMedian = apercu?.compsetMedian || 0
-      const demandPct = Math.round((apercu?.demandIndex || 0) * 100)
+      const demandPct = Math.round(apercu?.demandPct || 0)
       const compLowest = lowestCompetitorByDate.get(key)?.price || 0
 
       if (demandPct >= 70) highDemandDays += 1
@@ -769,9 +566,9 @@ export const CalendarInsightsPage: React.FC = () => {
         {showMetrics && (
           <div className="mt-3 rounded-xl border border-slate-200 bg-slate-50 p-3 text-xs text-slate-600">
             <p className="font-bold text-slate-700">Metriques live</p>
-            <p>Reservations chargees: {reservations.length} | Dates avec arrivees: {arrivalsByDate.size} | Date active: {effectiveSelectedKey || '-'}</p>
+            <p>Reservations chargees: {reservations.length} | Lignes non normalisees: {bookingExportData?.issues.length ?? 0} | Dates avec arrivees: {arrivalsByDate.size} | Date active: {effectiveSelectedKey || '-'}</p>
             <div className="mt-2 max-h-28 overflow-auto font-mono text-[11px]">
-              {metricRows.length === 0 ? <p>Aucun log booking_export pour l'instant.</p> : metricRows.map((m, idx) => <div key={`${m.ts}-${idx}`}>{m.ts} | {m.scope} | {JSON.stringify(m.payload)}</div>)}
+              {metricRows.length === 0 ? <p>Aucun log booking_export ou normalisation pour l'instant.</p> : metricRows.map((m, idx) => <div key={`${m.ts}-${idx}`}>{m.ts} | {m.scope} | {JSON.stringify(m.payload)}</div>)}
             </div>
           </div>
         )}
@@ -795,7 +592,7 @@ export const CalendarInsightsPage: React.FC = () => {
               const count = arrivalsByDate.get(key)?.length || 0
               const apercu = apercuByDate.get(key)
               const dayEvents = eventsByDate.get(key) || []
-              const demandPct = Math.round((apercu?.demandIndex || 0) * 100)
+              const demandPct = Math.round(apercu?.demandPct || 0)
               const selected = key === effectiveSelectedKey || isSameDay(day, selectedDate)
               const demandClass = demandPct >= 70 ? 'bg-red-100 border-red-300' : demandPct >= 45 ? 'bg-orange-100 border-orange-300' : 'bg-emerald-100 border-emerald-300'
               const weekClass = (isSaturday(day) || isSunday(day)) ? 'ring-1 ring-blue-300' : ''
@@ -828,7 +625,7 @@ export const CalendarInsightsPage: React.FC = () => {
             </div>
             <div className="grid grid-cols-1 gap-2 text-sm md:grid-cols-2">
               <p>Mon tarif moyen prevu: <span className="font-black">{formatCurrency(averageExpectedRateByArrivalDate.get(detailDateIso) || 0)}</span></p>
-              <p>Demande du marche: <span className="font-black">{Math.round((apercuByDate.get(detailDateIso)?.demandIndex || 0) * 100)}%</span></p>
+              <p>Demande du marche: <span className="font-black">{Math.round(apercuByDate.get(detailDateIso)?.demandPct || 0)}%</span></p>
               {showCompetitionIndicators && (
                 <>
                   <p>Mon tarif le plus bas (actuel): <span className="font-black text-indigo-700">{formatCurrency(apercuByDate.get(detailDateIso)?.ownLow || 0)}</span></p>
@@ -880,7 +677,7 @@ export const CalendarInsightsPage: React.FC = () => {
                     {visibleColumns.status && <td className="py-2 pr-3">{row.status || '-'}</td>}
                     {visibleColumns.origin && <td className="py-2 pr-3">{row.origin || '-'}</td>}
                     {visibleColumns.roomType && <td className="py-2 pr-3">{row.roomType || '-'}</td>}
-                    {visibleColumns.rooms && <td className="py-2 pr-3 text-right">{getEffectiveRooms(row)}</td>}
+                    {visibleColumns.rooms && <td className="py-2 pr-3 text-right">{row.rooms}</td>}
                     {visibleColumns.nights && <td className="py-2 pr-3 text-right">{row.nights}</td>}
                     {visibleColumns.guests && <td className="py-2 pr-3 text-right">{row.adults + row.children}</td>}
                     {visibleColumns.country && <td className="py-2 pr-3">{row.country || '-'}</td>}
@@ -0,0 +1,201 @@
+import React, { useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { format, parseISO } from 'date-fns'
+import { fr } from 'date-fns/locale'
+import { CalendarX, Loader2 } from 'lucide-react'
+import { useCancellationAnalytics } from '../../hooks/useCancellationAnalytics'
+import { useDashboardConfig } from '../../hooks/useDashboardConfig'
+import { useActiveHotelId } from '../../hooks/useHotels'
+import { ATTRITION_HISTORY_DAYS } from '../../hooks/useOverbookingPlan'
+import { useDateRangeStore } from '../../store/useDateRangeStore'
+import { formatCurrency } from '../../utils/formatters'
+import {
+  CANCELLATION_DIMENSION_LABELS,
+  buildCancellationBreakdown,
+  type CancellationDimension
+} from '../../utils/cancellationAnalytics'
+
+const formatPct = (value: number) => `${(value * 100).toFixed(1)}%`
+
+export const CancellationsPage: React.FC = () => {
+  const hotelId = useActiveHotelId()
+  const { startDate, endDate } = useDateRangeStore()
+  const { config } = useDashboardConfig()
+  const { history, summary, timingCurve, forecast, isLoading } = useCancellationAnalytics(hotelId, startDate, endDate)
+  const [dimension, setDimension] = useState<CancellationDimension>('channel')
+
+  const breakdown = useMemo(() => buildCancellationBreakdown(history, dimension), [dimension, history])
+  const maxShare = Math.max(...timingCurve.map((bucket) => bucket.share), 0.01)
+
+  const forecastTotals = useMemo(
+    () =>
+      forecast.reduce(
+        (totals, day) => ({
+          rooms: totals.rooms + day.roomsOnBooks,
+          expected: totals.expected + day.expectedCancelledRooms,
+          lostRevenue: totals.lostRevenue + day.expectedLostRevenue,
+        }),
+        { rooms: 0, expected: 0, lostRevenue: 0 }
+      ),
+    [forecast]
+  )
+
+  const tiles = [
+    { label: "Taux d'annulation", value: formatPct(summary.cancellationRate), hint: `${summary.cancelledBookings}/${summary.bookings} reservations` },
+    { label: 'Revenu perdu', value: formatCurrency(summary.lostRevenue), hint: `${summary.lostRoomNights} nuitees` },
+    {
+      label: "Delai moyen d'annulation",
+      value: summary.averageCancelDaysOut === null ? '-' : `J-${summary.averageCancelDaysOut.toFixed(0)}`,
+      hint: 'avant arrivee',
+    },
+    { label: 'Annulations attendues', value: `${forecastTotals.expected.toFixed(1)} ch.`, hint: `${formatCurrency(forecastTotals.lostRevenue)} a risque sur la periode` },
+  ]
+
+  return (
+    <div className="mx-auto max-w-[1400px] space-y-6">
+      <section className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="mb-2 flex items-center gap-2">
+          <CalendarX className="h-5 w-5 text-slate-700" />
+          <h2 className="text-3xl font-black tracking-tight text-slate-900">Annulations</h2>
+        </div>
+        <p className="text-sm text-slate-500">
+          Analyse des {ATTRITION_HISTORY_DAYS} derniers jours d'arrivees booking_export (hors no-shows) et prevision des annulations sur les
+          nuits de la periode. Deduction des chambres vendues dans le moteur RMS:{' '}
+          <span className="font-semibold text-slate-700">{config.rms.netExpectedCancellations ? 'active' : 'inactive'}</span> (
+          <Link to="/settings" className="font-semibold text-slate-700 underline">Studio RMS</Link>).
+        </p>
+        <div className="mt-4 grid grid-cols-2 gap-3 md:grid-cols-4">
+          {tiles.map((tile) => (
+            <div key={tile.label} className="rounded-xl bg-slate-50 p-3">
+              <p className="text-xs text-slate-500">{tile.label}</p>
+              <p className="text-xl font-black text-slate-900">{tile.value}</p>
+              <p className="text-[11px] text-slate-500">{tile.hint}</p>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      {isLoading ? (
+        <div className="flex min-h-[300px] items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-slate-400" />
+        </div>
+      ) : (
+        <>
+          <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+            <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+              <h3 className="text-sm font-black uppercase tracking-[0.16em] text-slate-700">Taux d'annulation par segment</h3>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(CANCELLATION_DIMENSION_LABELS) as CancellationDimension[]).map((key) => (
+                  <button
+                    key={key}
+                    type="button"
+                    onClick={() => setDimension(key)}
+                    className={`rounded-lg px-3 py-1.5 text-xs font-bold ${dimension === key ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                  >
+                    {CANCELLATION_DIMENSION_LABELS[key]}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {breakdown.length === 0 ? (
+              <p className="text-sm text-slate-500">Aucune reservation sur l'historique.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-left text-sm">
+                  <thead>
+                    <tr className="border-b border-slate-200 text-[11px] uppercase tracking-wider text-slate-500">
+                      <th className="px-3 py-2">{CANCELLATION_DIMENSION_LABELS[dimension]}</th>
+                      <th className="px-3 py-2 text-right">Reservations</th>
+                      <th className="px-3 py-2 text-right">Annulees</th>
+                      <th className="px-3 py-2">Taux</th>
+                      <th className="px-3 py-2 text-right">Revenu perdu</th>
+                      <th className="px-3 py-2 text-right">Nuitees perdues</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {breakdown.map((row) => (
+                      <tr key={row.segment} className="border-b border-slate-100">
+                        <td className="px-3 py-2 font-semibold text-slate-800">{row.segment}</td>
+                        <td className="px-3 py-2 text-right text-slate-600">{row.bookings}</td>
+                        <td className="px-3 py-2 text-right text-slate-600">{row.cancelledBookings}</td>
+                        <td className="px-3 py-2">
+                          <div className="flex items-center gap-2">
+                            <div className="h-2 w-24 rounded-full bg-slate-100">
+                              <div className="h-2 rounded-full bg-rose-400" style={{ width: `${Math.min(100, row.cancellationRate * 100)}%` }} />
+                            </div>
+                            <span className="font-bold text-slate-900">{formatPct(row.cancellationRate)}</span>
+                          </div>
+                        </td>
+                        <td className="px-3 py-2 text-right text-slate-700">{formatCurrency(row.lostRevenue)}</td>
+                        <td className="px-3 py-2 text-right text-slate-600">{row.lostRoomNights}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {dimension === 'ratePlan' && (
+              <p className="mt-3 text-xs text-slate-500">
+                Plan non remboursable quand le code tarif contient NANR, "non remboursable" ou "prepaid"; flexible sinon. "Non défini" quand
+                l'extraction ne porte pas de plan tarifaire.
+              </p>
+            )}
+          </section>
+
+          <section className="grid grid-cols-1 gap-6 xl:grid-cols-2">
+            <div className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+              <h3 className="mb-3 text-sm font-black uppercase tracking-[0.16em] text-slate-700">Moment de l'annulation</h3>
+              <div className="space-y-2">
+                {timingCurve.map((bucket) => (
+                  <div key={bucket.label} className="grid grid-cols-[110px_1fr_120px] items-center gap-3 text-sm">
+                    <span className="font-semibold text-slate-700">{bucket.label}</span>
+                    <div className="h-3 rounded-full bg-slate-100">
+                      <div className="h-3 rounded-full bg-amber-400" style={{ width: `${(bucket.share / maxShare) * 100}%` }} />
+                    </div>
+                    <span className="text-right text-slate-600">
+                      {formatPct(bucket.share)} <span className="text-[11px] text-slate-400">cumul {formatPct(bucket.cumulativeShare)}</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <p className="mt-3 text-xs text-slate-500">
+                Repartition des annulations datees selon le nombre de jours avant l'arrivee; le cumul se lit de la reservation vers l'arrivee.
+              </p>
+            </div>
+
+            <div className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+              <h3 className="mb-3 text-sm font-black uppercase tracking-[0.16em] text-slate-700">Prevision par nuit</h3>
+              <div className="max-h-[420px] overflow-auto">
+                <table className="w-full text-left text-sm">
+                  <thead className="sticky top-0 bg-white">
+                    <tr className="border-b border-slate-200 text-[11px] uppercase tracking-wider text-slate-500">
+                      <th className="px-3 py-2">Nuit</th>
+                      <th className="px-3 py-2 text-right">Vendues</th>
+                      <th className="px-3 py-2 text-right">Annul. attendues</th>
+                      <th className="px-3 py-2 text-right">Net</th>
+                      <th className="px-3 py-2 text-right">Revenu a risque</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {forecast.map((day) => (
+                      <tr key={day.date} className="border-b border-slate-100">
+                        <td className="px-3 py-2 font-semibold text-slate-800">{format(parseISO(day.date), 'EEE dd MMM', { locale: fr })}</td>
+                        <td className="px-3 py-2 text-right text-slate-600">{day.roomsOnBooks}</td>
+                        <td className="px-3 py-2 text-right text-rose-700">{day.expectedCancelledRooms.toFixed(1)}</td>
+                        <td className="px-3 py-2 text-right font-bold text-slate-900">{day.netRooms.toFixed(1)}</td>
+                        <td className="px-3 py-2 text-right text-slate-600">{formatCurrency(day.expectedLostRevenue)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="mt-3 text-xs text-slate-500">
+                Taux par canal et delai avant arrivee appris sur les reservations de l'an dernier a la meme periode.
+              </p>
+            </div>
+          </section>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,295 @@
+import React, { useMemo, useState } from 'react'
+import { eachDayOfInterval, format, parseISO } from 'date-fns'
+import { AlertTriangle, Download, Loader2, Upload } from 'lucide-react'
+import { useDashboardConfig } from '../../hooks/useDashboardConfig'
+import { useDisponibilites } from '../../hooks/useHotelData'
+import { usePlanningTarifs } from '../../hooks/usePlanningTarifs'
+import { getLatestDecisionByDate, usePriceDecisions } from '../../hooks/usePriceDecisions'
+import { useActiveHotelId } from '../../hooks/useHotels'
+import { EMPTY_OTA_CONFIG, useOtaConfig } from '../../hooks/useOtaConfig'
+import { useStayRestrictions } from '../../hooks/useStayRestrictions'
+import { useDateRangeStore } from '../../store/useDateRangeStore'
+import { formatCurrency } from '../../utils/formatters'
+import {
+  buildChannelRateCells,
+  diffAgainstPlanning,
+  toChannelCsv,
+  toOtaRateAmountXml,
+  toOtaRestrictionXml,
+  validateChannelRateCells,
+  type ChannelCellStatus,
+  type ChannelExportFormat,
+} from '../../utils/channelExport'
+import { getPartnerPlanCodes, orderByConfig } from '../../utils/otaConfig'
+import { extractPlanCode } from '../../utils/ratePlanRules'
+import { describeStayRestriction } from '../../utils/stayRestrictions'
+
+const ALL_PARTNERS = '__all__'
+const MAX_PREVIEW_ROWS = 300
+
+const STATUS_LABELS: Record<ChannelCellStatus, string> = {
+  new: 'Nouveau',
+  changed: 'Modifie',
+  unchanged: 'Inchange',
+}
+
+const STATUS_CLASS: Record<ChannelCellStatus, string> = {
+  new: 'bg-indigo-100 text-indigo-700',
+  changed: 'bg-amber-100 text-amber-700',
+  unchanged: 'bg-slate-100 text-slate-500',
+}
+
+const downloadTextFile = (filename: string, content: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export const ChannelExportPage: React.FC = () => {
+  const { startDate, endDate } = useDateRangeStore()
+  const hotelId = useActiveHotelId()
+
+  const { config } = useDashboardConfig()
+  const { data: decisions = [], isLoading: loadingDecisions } = usePriceDecisions(hotelId, startDate, endDate)
+  const { data: disponibilitesData, isLoading: loadingDisponibilites } = useDisponibilites(hotelId, startDate, endDate)
+  const disponibilites = useMemo(() => disponibilitesData?.items ?? [], [disponibilitesData])
+  const { data: planningTarifs = [], isLoading: loadingPlanning } = usePlanningTarifs(hotelId, startDate, endDate)
+  const { restrictions, restrictionByDate, isLoading: loadingRestrictions } = useStayRestrictions(hotelId, startDate, endDate)
+  const { data: otaConfig = EMPTY_OTA_CONFIG, isLoading: loadingOtaConfig } = useOtaConfig(hotelId)
+
+  const [partner, setPartner] = useState(ALL_PARTNERS)
+  const [exportFormat, setExportFormat] = useState<ChannelExportFormat>('csv')
+  const [changedOnly, setChangedOnly] = useState(true)
+  const [withRestrictions, setWithRestrictions] = useState(true)
+
+  const isLoading = loadingDecisions || loadingDisponibilites || loadingPlanning || loadingRestrictions || loadingOtaConfig
+
+  const planCodes = useMemo(
+    () => orderByConfig(
+      getPartnerPlanCodes(otaConfig, partner === ALL_PARTNERS ? null : partner),
+      otaConfig.planOrder,
+      extractPlanCode
+    ),
+    [otaConfig, partner]
+  )
+
+  const roomTypes = useMemo(() => {
+    const set = new Set<string>([config.rms.baseRoomType])
+    Object.keys(config.rms.roomTypeCapacities).forEach((roomType) => set.add(roomType))
+    disponibilites.forEach((day) => {
+      if (day.roomType) set.add(day.roomType)
+    })
+    return orderByConfig(Array.from(set), otaConfig.roomOrder)
+  }, [config.rms.baseRoomType, config.rms.roomTypeCapacities, disponibilites, otaConfig])
+
+  const cells = useMemo(() => {
+    const stayDates = eachDayOfInterval({ start: startDate, end: endDate }).map((date) => format(date, 'yyyy-MM-dd'))
+    const roomTypeDecisions = new Map(roomTypes.map((roomType) => [roomType, getLatestDecisionByDate(decisions, roomType)]))
+    return buildChannelRateCells({
+      stayDates,
+      baseDecisions: getLatestDecisionByDate(decisions),
+      roomTypeDecisions,
+      roomTypes,
+      baseRoomType: config.rms.baseRoomType,
+      roomTypeDifferentials: config.rms.roomTypeDifferentials,
+      planCodes,
+      ratePlans: config.rms.ratePlans,
+    })
+  }, [config.rms, decisions, endDate, planCodes, roomTypes, startDate])
+
+  const validation = useMemo(
+    () => validateChannelRateCells(cells, config.rms.ratePlans.barPlanCode, {
+      minPrice: config.rms.minPrice,
+      maxPrice: config.rms.maxPrice,
+      baseRoomType: config.rms.baseRoomType,
+      roomTypeDifferentials: config.rms.roomTypeDifferentials,
+      inventory: disponibilites,
+    }),
+    [cells, config.rms, disponibilites]
+  )
+
+  const diff = useMemo(() => diffAgainstPlanning(validation.valid, planningTarifs), [planningTarifs, validation.valid])
+  const exportCells = useMemo(
+    () => (changedOnly ? diff.filter((cell) => cell.status !== 'unchanged') : diff),
+    [changedOnly, diff]
+  )
+
+  const counts = useMemo(() => {
+    return diff.reduce<Record<ChannelCellStatus, number>>(
+      (acc, cell) => {
+        acc[cell.status] += 1
+        return acc
+      },
+      { new: 0, changed: 0, unchanged: 0 }
+    )
+  }, [diff])
+
+  const exportFile = () => {
+    if (exportCells.length === 0) return
+    const stamp = format(new Date(), 'yyyyMMdd-HHmm')
+    if (exportFormat === 'csv') {
+      downloadTextFile(
+        `tarifs-${hotelId}-${stamp}.csv`,
+        toChannelCsv(exportCells, { restrictions: withRestrictions ? restrictionByDate : undefined }),
+        'text/csv;charset=utf-8'
+      )
+      return
+    }
+    downloadTextFile(
+      `OTA_HotelRateAmountNotifRQ-${hotelId}-${stamp}.xml`,
+      toOtaRateAmountXml(exportCells, { hotelCode: hotelId }),
+      'application/xml;charset=utf-8'
+    )
+  }
+
+  const restrictionLabel = (date: string) => {
+    const restriction = restrictionByDate.get(date)
+    return restriction ? describeStayRestriction(restriction).join(' · ') : '-'
+  }
+
+  // Restrictions go to every room type and plan of the period, changed or not.
+  const exportRestrictions = () => {
+    if (restrictions.length === 0 || validation.valid.length === 0) return
+    const stamp = format(new Date(), 'yyyyMMdd-HHmm')
+    downloadTextFile(
+      `OTA_HotelAvailNotifRQ-${hotelId}-${stamp}.xml`,
+      toOtaRestrictionXml(restrictions, validation.valid, { hotelCode: hotelId }),
+      'application/xml;charset=utf-8'
+    )
+  }
+
+  return (
+    <div className="mx-auto max-w-[1400px] space-y-6">
+      <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h2 className="flex items-center gap-2 text-2xl font-black tracking-tight text-slate-900">
+              <Upload className="h-6 w-6 text-indigo-600" /> Export channel manager
+            </h2>
+            <p className="mt-1 text-sm text-slate-500">
+              Tarifs approuves ou forces du {format(startDate, 'dd/MM/yyyy')} au {format(endDate, 'dd/MM/yyyy')}, declines par type de chambre et plan tarifaire.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={exportRestrictions}
+              disabled={isLoading || restrictions.length === 0 || validation.valid.length === 0}
+              className="inline-flex items-center gap-2 rounded-xl border border-slate-200 px-4 py-2 text-xs font-black uppercase tracking-wide text-slate-700 disabled:opacity-50"
+            >
+              <Download className="h-4 w-4" /> Restrictions XML ({restrictions.length})
+            </button>
+            <button
+              type="button"
+              onClick={exportFile}
+              disabled={isLoading || exportCells.length === 0}
+              className="inline-flex items-center gap-2 rounded-xl bg-slate-900 px-4 py-2 text-xs font-black uppercase tracking-wide text-white disabled:opacity-50"
+            >
+              <Download className="h-4 w-4" /> Telecharger ({exportCells.length})
+            </button>
+          </div>
+        </div>
+
+        <div className="mt-5 grid grid-cols-1 gap-3 md:grid-cols-4">
+          <label className="rounded-xl border border-slate-200 bg-slate-50 p-3 text-sm font-semibold text-slate-700">
+            Canal
+            <select value={partner} onChange={(e) => setPartner(e.target.value)} className="mt-2 w-full rounded-lg border border-slate-200 bg-white px-3 py-2">
+              <option value={ALL_PARTNERS}>Tous les canaux</option>
+              {otaConfig.partners.map((entry) => (
+                <option key={entry.partner} value={entry.partner}>{entry.partner}</option>
+              ))}
+            </select>
+          </label>
+          <label className="rounded-xl border border-slate-200 bg-slate-50 p-3 text-sm font-semibold text-slate-700">
+            Format
+            <select value={exportFormat} onChange={(e) => setExportFormat(e.target.value as ChannelExportFormat)} className="mt-2 w-full rounded-lg border border-slate-200 bg-white px-3 py-2">
+              <option value="csv">CSV (date;room_type;rate_plan;price)</option>
+              <option value="xml">XML OTA_HotelRateAmountNotifRQ</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-3 rounded-xl border border-slate-200 bg-slate-50 p-3 text-sm font-semibold text-slate-700">
+            <input type="checkbox" checked={changedOnly} onChange={(e) => setChangedOnly(e.target.checked)} className="h-4 w-4" />
+            Uniquement les cellules modifiees vs planning_tarifs
+          </label>
+          <label className="flex items-center gap-3 rounded-xl border border-slate-200 bg-slate-50 p-3 text-sm font-semibold text-slate-700">
+            <input type="checkbox" checked={withRestrictions} onChange={(e) => setWithRestrictions(e.target.checked)} className="h-4 w-4" />
+            Restrictions de sejour dans le CSV (min_los;max_los;cta;ctd)
+          </label>
+        </div>
+
+        <div className="mt-4 grid grid-cols-2 gap-3 md:grid-cols-4">
+          <div className="rounded-xl bg-slate-50 p-3"><p className="text-xs text-slate-500">Nouveaux</p><p className="text-xl font-black text-indigo-700">{counts.new}</p></div>
+          <div className="rounded-xl bg-slate-50 p-3"><p className="text-xs text-slate-500">Modifies</p><p className="text-xl font-black text-amber-700">{counts.changed}</p></div>
+          <div className="rounded-xl bg-slate-50 p-3"><p className="text-xs text-slate-500">Inchanges</p><p className="text-xl font-black text-slate-700">{counts.unchanged}</p></div>
+          <div className="rounded-xl bg-slate-50 p-3"><p className="text-xs text-slate-500">Bloques</p><p className="text-xl font-black text-rose-700">{validation.issues.length}</p></div>
+        </div>
+      </section>
+
+      {validation.issues.length > 0 && (
+        <section className="rounded-2xl border border-rose-200 bg-rose-50/60 p-5">
+          <h3 className="flex items-center gap-2 text-sm font-black uppercase tracking-[0.14em] text-rose-700">
+            <AlertTriangle className="h-4 w-4" /> Exclus de l'export
+          </h3>
+          <ul className="mt-3 space-y-1 text-sm text-rose-800">
+            {validation.issues.map((issue) => (
+              <li key={`${issue.date}-${issue.roomType}`}>
+                {format(parseISO(issue.date), 'dd/MM/yyyy')} · {issue.roomType} : {issue.message}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+        <h3 className="text-sm font-black uppercase tracking-[0.14em] text-slate-700">Apercu des cellules exportees</h3>
+        {isLoading ? (
+          <div className="flex items-center gap-2 p-6 text-sm text-slate-500">
+            <Loader2 className="h-4 w-4 animate-spin" /> Chargement...
+          </div>
+        ) : exportCells.length === 0 ? (
+          <p className="mt-4 rounded-xl border border-dashed border-slate-300 p-6 text-center text-sm text-slate-500">
+            Aucun tarif a pousser : approuvez des suggestions dans la grille tarifaire ou elargissez la periode.
+          </p>
+        ) : (
+          <div className="mt-4 max-h-[560px] overflow-auto">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-white">
+                <tr className="border-b border-slate-200 text-left text-[11px] font-black uppercase tracking-wide text-slate-500">
+                  <th className="px-2 py-2">Date</th>
+                  <th className="px-2 py-2">Type</th>
+                  <th className="px-2 py-2">Plan</th>
+                  <th className="px-2 py-2 text-right">Planning</th>
+                  <th className="px-2 py-2 text-right">Export</th>
+                  <th className="px-2 py-2">Restrictions</th>
+                  <th className="px-2 py-2">Statut</th>
+                </tr>
+              </thead>
+              <tbody>
+                {exportCells.slice(0, MAX_PREVIEW_ROWS).map((cell) => (
+                  <tr key={`${cell.date}-${cell.roomType}-${cell.planCode}`} className="border-b border-slate-100">
+                    <td className="px-2 py-2">{format(parseISO(cell.date), 'dd/MM/yyyy')}</td>
+                    <td className="px-2 py-2">{cell.roomType}</td>
+                    <td className="px-2 py-2 font-mono text-xs">{cell.planCode}</td>
+                    <td className="px-2 py-2 text-right text-slate-500">{cell.previous === null ? '-' : formatCurrency(cell.previous)}</td>
+                    <td className="px-2 py-2 text-right font-bold text-slate-900">{formatCurrency(cell.price)}</td>
+                    <td className="px-2 py-2 text-xs font-semibold text-amber-700">{restrictionLabel(cell.date)}</td>
+                    <td className="px-2 py-2">
+                      <span className={`rounded-full px-2 py-0.5 text-[11px] font-bold ${STATUS_CLASS[cell.status]}`}>{STATUS_LABELS[cell.status]}</span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {exportCells.length > MAX_PREVIEW_ROWS && (
+              <p className="mt-2 text-xs text-slate-500">{MAX_PREVIEW_ROWS} premieres lignes affichees, le fichier contient les {exportCells.length}.</p>
+            )}
+          </div>
+        )}
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,230 @@
+import React, { useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { differenceInCalendarDays, format, parseISO } from 'date-fns'
+import { fr } from 'date-fns/locale'
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { Loader2, PieChart } from 'lucide-react'
+import { useBookingExport } from '../../hooks/useBookingData'
+import { useDashboardConfig } from '../../hooks/useDashboardConfig'
+import { useActiveHotelId } from '../../hooks/useHotels'
+import { useChannelCommissions } from '../../hooks/useOtaConfig'
+import { useDateRangeStore } from '../../store/useDateRangeStore'
+import { formatCurrency } from '../../utils/formatters'
+import {
+  buildChannelMix,
+  buildChannelMixTimeline,
+  summarizeNetRevenue,
+  type ChannelMixGranularity
+} from '../../utils/channelMix'
+
+// Channels drawn in the timeline; the others are grouped under "Autres".
+const CHART_CHANNELS = 6
+const OTHER_CHANNELS = 'Autres'
+const CHANNEL_COLORS = ['#0f172a', '#6366f1', '#0ea5e9', '#10b981', '#f59e0b', '#f43f5e', '#94a3b8']
+
+const formatPct = (value: number) => `${(value * 100).toFixed(1)}%`
+
+export const ChannelMixPage: React.FC = () => {
+  const hotelId = useActiveHotelId()
+  const { startDate, endDate } = useDateRangeStore()
+  const { config } = useDashboardConfig()
+  const { data: bookingExportData, isLoading: loadingBookings } = useBookingExport(hotelId, startDate, endDate)
+  const { data: commissions = [], isLoading: loadingCommissions } = useChannelCommissions(hotelId)
+  const [granularity, setGranularity] = useState<ChannelMixGranularity>('week')
+
+  const reservations = useMemo(() => bookingExportData?.items ?? [], [bookingExportData])
+  const mix = useMemo(() => buildChannelMix(reservations, commissions), [commissions, reservations])
+  const summary = useMemo(() => summarizeNetRevenue(reservations, commissions), [commissions, reservations])
+  const timeline = useMemo(() => buildChannelMixTimeline(reservations, commissions, granularity), [commissions, granularity, reservations])
+
+  const chartChannels = useMemo(() => mix.slice(0, CHART_CHANNELS).map((row) => row.channel), [mix])
+  const chartData = useMemo(
+    () =>
+      timeline.map((period) => {
+        const point: Record<string, number | string> = {
+          label: format(parseISO(period.period), granularity === 'month' ? 'MMM yy' : "'S' dd/MM", { locale: fr }),
+        }
+        let other = 0
+        Object.entries(period.byChannel).forEach(([channel, values]) => {
+          if (chartChannels.includes(channel)) point[channel] = values.share * 100
+          else other += values.share * 100
+        })
+        if (other > 0) point[OTHER_CHANNELS] = other
+        return point
+      }),
+    [chartChannels, granularity, timeline]
+  )
+  const chartSeries = mix.length > CHART_CHANNELS ? [...chartChannels, OTHER_CHANNELS] : chartChannels
+
+  const availableRoomNights = config.rms.hotelCapacity * (differenceInCalendarDays(endDate, startDate) + 1)
+  const tiles = [
+    { label: 'CA brut', value: formatCurrency(summary.grossRevenue), hint: `${summary.roomNights} nuitees` },
+    { label: 'Commissions', value: formatCurrency(summary.commission), hint: `${formatCurrency(summary.acquisitionCostPerRoomNight)} par nuitee` },
+    { label: 'CA net', value: formatCurrency(summary.netRevenue), hint: `${formatPct(summary.netRevenueRatio)} du brut` },
+    { label: 'ADR net', value: formatCurrency(summary.netAdr), hint: `brut ${formatCurrency(summary.grossAdr)}` },
+    {
+      label: 'RevPAR net',
+      value: formatCurrency(availableRoomNights > 0 ? summary.netRevenue / availableRoomNights : 0),
+      hint: `${config.rms.hotelCapacity} ch. x ${differenceInCalendarDays(endDate, startDate) + 1} j`,
+    },
+    { label: "Cout d'acquisition", value: `${summary.acquisitionCostPct.toFixed(1)}%`, hint: 'commissions / CA brut' },
+  ]
+
+  return (
+    <div className="mx-auto max-w-[1400px] space-y-6">
+      <section className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="mb-2 flex items-center gap-2">
+          <PieChart className="h-5 w-5 text-slate-700" />
+          <h2 className="text-3xl font-black tracking-tight text-slate-900">Mix canaux</h2>
+        </div>
+        <p className="text-sm text-slate-500">
+          CA brut et net de commission par canal sur les arrivees booking_export de la periode (hors annulations). Les origines sont
+          rapprochees des partenaires OTA; les commissions se reglent dans{' '}
+          <Link to="/admin" className="font-semibold text-slate-700 underline">l'Administration</Link>.
+        </p>
+        <div className="mt-4 grid grid-cols-2 gap-3 md:grid-cols-3 xl:grid-cols-6">
+          {tiles.map((tile) => (
+            <div key={tile.label} className="rounded-xl bg-slate-50 p-3">
+              <p className="text-xs text-slate-500">{tile.label}</p>
+              <p className="text-xl font-black text-slate-900">{tile.value}</p>
+              <p className="text-[11px] text-slate-500">{tile.hint}</p>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      {loadingBookings || loadingCommissions ? (
+        <div className="flex min-h-[300px] items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-slate-400" />
+        </div>
+      ) : (
+        <>
+          <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+            <h3 className="mb-3 text-sm font-black uppercase tracking-[0.16em] text-slate-700">Brut et net par canal</h3>
+            {mix.length === 0 ? (
+              <p className="text-sm text-slate-500">Aucune reservation sur la periode.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-left text-sm">
+                  <thead>
+                    <tr className="border-b border-slate-200 text-[11px] uppercase tracking-wider text-slate-500">
+                      <th className="px-3 py-2">Canal</th>
+                      <th className="px-3 py-2 text-right">Commission</th>
+                      <th className="px-3 py-2 text-right">Reservations</th>
+                      <th className="px-3 py-2 text-right">Nuitees</th>
+                      <th className="px-3 py-2 text-right">CA brut</th>
+                      <th className="px-3 py-2 text-right">Cout</th>
+                      <th className="px-3 py-2 text-right">CA net</th>
+                      <th className="px-3 py-2">Part du CA</th>
+                      <th className="px-3 py-2 text-right">ADR brut / net</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {mix.map((row) => (
+                      <tr key={row.channel} className="border-b border-slate-100">
+                        <td className="px-3 py-2">
+                          <p className="font-semibold text-slate-800">{row.channel}</p>
+                          {row.partner && row.partner !== row.channel && <p className="text-[11px] text-slate-400">{row.partner}</p>}
+                        </td>
+                        <td className="px-3 py-2 text-right text-slate-600">{row.partner ? `${row.commissionPct}%` : '-'}</td>
+                        <td className="px-3 py-2 text-right text-slate-600">{row.bookings}</td>
+                        <td className="px-3 py-2 text-right text-slate-600">{row.roomNights}</td>
+                        <td className="px-3 py-2 text-right text-slate-700">{formatCurrency(row.grossRevenue)}</td>
+                        <td className="px-3 py-2 text-right text-rose-700">{formatCurrency(row.commission)}</td>
+                        <td className="px-3 py-2 text-right font-bold text-slate-900">{formatCurrency(row.netRevenue)}</td>
+                        <td className="px-3 py-2">
+                          <div className="flex items-center gap-2">
+                            <div className="h-2 w-24 rounded-full bg-slate-100">
+                              <div className="h-2 rounded-full bg-indigo-400" style={{ width: `${Math.min(100, row.share * 100)}%` }} />
+                            </div>
+                            <span className="font-bold text-slate-900">{formatPct(row.share)}</span>
+                          </div>
+                        </td>
+                        <td className="px-3 py-2 text-right text-slate-600">
+                          {formatCurrency(row.grossAdr)} / <span className="font-semibold text-slate-800">{formatCurrency(row.netAdr)}</span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+
+          <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+            <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+              <h3 className="text-sm font-black uppercase tracking-[0.16em] text-slate-700">Part du CA brut par canal</h3>
+              <div className="flex gap-2">
+                {(['week', 'month'] as ChannelMixGranularity[]).map((key) => (
+                  <button
+                    key={key}
+                    type="button"
+                    onClick={() => setGranularity(key)}
+                    className={`rounded-lg px-3 py-1.5 text-xs font-bold ${granularity === key ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                  >
+                    {key === 'week' ? 'Semaine' : 'Mois'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="h-[320px] w-full min-w-0">
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                  <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+                  <YAxis domain={[0, 100]} tick={{ fontSize: 11 }} tickFormatter={(value) => `${value}%`} />
+                  <Tooltip
+                    formatter={(value: number | string | undefined, name) => [`${Number(value ?? 0).toFixed(1)}%`, String(name)]}
+                    contentStyle={{
+                      borderRadius: '10px',
+                      border: '1px solid #cbd5e1',
+                      backgroundColor: '#ffffff',
+                      color: '#0f172a',
+                      fontSize: '12px',
+                      fontWeight: 700,
+                    }}
+                  />
+                  <Legend />
+                  {chartSeries.map((channel, index) => (
+                    <Bar key={channel} dataKey={channel} name={channel} stackId="share" fill={CHANNEL_COLORS[index % CHANNEL_COLORS.length]} />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <p className="mt-3 text-xs text-slate-500">
+              Periodes par semaine (du lundi) ou par mois d'arrivee; au-dela des six premiers canaux, les parts sont regroupees sous "Autres".
+            </p>
+            <div className="mt-3 max-h-[320px] overflow-auto">
+              <table className="w-full text-left text-sm">
+                <thead className="sticky top-0 bg-white">
+                  <tr className="border-b border-slate-200 text-[11px] uppercase tracking-wider text-slate-500">
+                    <th className="px-3 py-2">Periode</th>
+                    <th className="px-3 py-2 text-right">CA brut</th>
+                    <th className="px-3 py-2 text-right">Commissions</th>
+                    <th className="px-3 py-2 text-right">CA net</th>
+                    <th className="px-3 py-2 text-right">Cout d'acquisition</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {timeline.map((period) => (
+                    <tr key={period.period} className="border-b border-slate-100">
+                      <td className="px-3 py-2 font-semibold text-slate-800">
+                        {format(parseISO(period.period), granularity === 'month' ? 'MMMM yyyy' : "'Semaine du' dd MMM", { locale: fr })}
+                      </td>
+                      <td className="px-3 py-2 text-right text-slate-700">{formatCurrency(period.grossRevenue)}</td>
+                      <td className="px-3 py-2 text-right text-rose-700">{formatCurrency(period.grossRevenue - period.netRevenue)}</td>
+                      <td className="px-3 py-2 text-right font-bold text-slate-900">{formatCurrency(period.netRevenue)}</td>
+                      <td className="px-3 py-2 text-right text-slate-600">
+                        {period.grossRevenue > 0 ? formatPct((period.grossRevenue - period.netRevenue) / period.grossRevenue) : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        </>
+      )}
+    </div>
+  )
+}
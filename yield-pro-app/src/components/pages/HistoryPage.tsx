@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from 'react'
+import { format, parseISO, subDays } from 'date-fns'
+import { fr } from 'date-fns/locale'
+import { ArrowRight, History, Loader2 } from 'lucide-react'
+import { useActiveHotelId } from '../../hooks/useHotels'
+import { usePlanningTarifsHistory } from '../../hooks/usePlanningTarifs'
+import { usePriceDecisionLog } from '../../hooks/usePriceDecisions'
+import { useSettingsHistory } from '../../hooks/useSettingsHistory'
+import { buildHistoryTimeline, filterHistory, type HistoryEntryType, type HistoryFilters } from '../../utils/historyTimeline'
+
+const TYPE_LABELS: Record<HistoryEntryType, string> = {
+  price: 'Changement de prix',
+  decision: 'Decision suggestion',
+  rms_settings: 'Parametres RMS',
+}
+
+const TYPE_BADGE_CLASS: Record<HistoryEntryType, string> = {
+  price: 'bg-emerald-100 text-emerald-700',
+  decision: 'bg-amber-100 text-amber-700',
+  rms_settings: 'bg-indigo-100 text-indigo-700',
+}
+
+const toInputDate = (date: Date) => format(date, 'yyyy-MM-dd')
+
+export const HistoryPage: React.FC = () => {
+  const hotelId = useActiveHotelId()
+
+  const [fromKey, setFromKey] = useState(() => toInputDate(subDays(new Date(), 30)))
+  const [toKey, setToKey] = useState(() => toInputDate(new Date()))
+  const [filters, setFilters] = useState<HistoryFilters>({ type: 'all', userEmail: '', stayDate: '' })
+
+  const from = parseISO(fromKey)
+  const to = parseISO(toKey)
+
+  const { data: decisions = [], isLoading: decisionsLoading, error: decisionsError } = usePriceDecisionLog(hotelId, from, to)
+  const { data: settingsChanges = [], isLoading: settingsLoading, error: settingsError } = useSettingsHistory(hotelId, from, to)
+  const { data: tarifChanges = [], isLoading: tarifsLoading, error: tarifsError } = usePlanningTarifsHistory(hotelId, from, to)
+
+  const timeline = useMemo(
+    () => buildHistoryTimeline(decisions, settingsChanges, tarifChanges),
+    [decisions, settingsChanges, tarifChanges]
+  )
+  const users = useMemo(() => Array.from(new Set(timeline.map((entry) => entry.userEmail))).sort(), [timeline])
+  const entries = useMemo(() => filterHistory(timeline, filters), [timeline, filters])
+
+  const isLoading = decisionsLoading || settingsLoading || tarifsLoading
+  const loadError = decisionsError || settingsError || tarifsError
+
+  return (
+    <div className="mx-auto max-w-[1400px] space-y-6">
+      <section className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="mb-2 flex items-center gap-2">
+          <History className="h-5 w-5 text-slate-700" />
+          <h2 className="text-3xl font-black tracking-tight text-slate-900">Historique</h2>
+        </div>
+        <p className="text-sm text-slate-500">
+          Changements de prix (grille et planning_tarifs, y compris imports et synchronisations), decisions sur les suggestions RMS et
+          modifications des parametres.
+        </p>
+      </section>
+
+      <section className="grid grid-cols-1 gap-3 rounded-2xl border border-slate-200 bg-white p-5 shadow-sm md:grid-cols-5">
+        <label className="text-xs font-bold uppercase tracking-wide text-slate-500">
+          Du
+          <input
+            type="date"
+            value={fromKey}
+            max={toKey}
+            onChange={(e) => e.target.value && setFromKey(e.target.value)}
+            className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 text-sm font-medium text-slate-900"
+          />
+        </label>
+        <label className="text-xs font-bold uppercase tracking-wide text-slate-500">
+          Au
+          <input
+            type="date"
+            value={toKey}
+            min={fromKey}
+            onChange={(e) => e.target.value && setToKey(e.target.value)}
+            className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 text-sm font-medium text-slate-900"
+          />
+        </label>
+        <label className="text-xs font-bold uppercase tracking-wide text-slate-500">
+          Utilisateur
+          <select
+            value={filters.userEmail}
+            onChange={(e) => setFilters((prev) => ({ ...prev, userEmail: e.target.value }))}
+            className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 text-sm font-medium text-slate-900"
+          >
+            <option value="">Tous</option>
+            {users.map((email) => (
+              <option key={email} value={email}>{email}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs font-bold uppercase tracking-wide text-slate-500">
+          Date de sejour
+          <input
+            type="date"
+            value={filters.stayDate}
+            onChange={(e) => setFilters((prev) => ({ ...prev, stayDate: e.target.value }))}
+            className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 text-sm font-medium text-slate-900"
+          />
+        </label>
+        <label className="text-xs font-bold uppercase tracking-wide text-slate-500">
+          Type
+          <select
+            value={filters.type}
+            onChange={(e) => setFilters((prev) => ({ ...prev, type: e.target.value as HistoryFilters['type'] }))}
+            className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 text-sm font-medium text-slate-900"
+          >
+            <option value="all">Tous</option>
+            {(Object.keys(TYPE_LABELS) as HistoryEntryType[]).map((type) => (
+              <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+        </label>
+      </section>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+        <div className="mb-3 flex items-center justify-between">
+          <h3 className="text-sm font-black uppercase tracking-[0.16em] text-slate-700">Journal</h3>
+          <p className="text-xs font-semibold text-slate-500">{entries.length} / {timeline.length} evenements</p>
+        </div>
+
+        {loadError && (
+          <div className="mb-3 rounded-xl border border-rose-200 bg-rose-50 p-3 text-sm font-medium text-rose-700">
+            Impossible de charger l'historique: {loadError instanceof Error ? loadError.message : 'erreur inconnue'}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-slate-400" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {entries.map((entry) => (
+              <div key={entry.id} className="rounded-xl border border-slate-200 p-4">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className={`rounded-full px-2 py-0.5 text-[10px] font-black uppercase ${TYPE_BADGE_CLASS[entry.type]}`}>
+                      {TYPE_LABELS[entry.type]}
+                    </span>
+                    <p className="text-sm font-bold text-slate-900">{entry.title}</p>
+                    {entry.stayDate && (
+                      <span className="text-xs font-semibold text-slate-500">
+                        Sejour du {format(parseISO(entry.stayDate), 'EEEE dd MMM yyyy', { locale: fr })}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-slate-500">
+                    {format(parseISO(entry.at), 'dd MMM yyyy HH:mm', { locale: fr })} · {entry.userEmail}
+                  </p>
+                </div>
+
+                {entry.diffs.length > 0 && (
+                  <div className="mt-3 grid grid-cols-1 gap-2 md:grid-cols-2 xl:grid-cols-3">
+                    {entry.diffs.map((diff) => (
+                      <div key={diff.field} className="flex items-center justify-between gap-2 rounded-lg bg-slate-50 px-3 py-2 text-xs">
+                        <span className="font-semibold text-slate-600">{diff.field}</span>
+                        <span className="flex items-center gap-1 font-bold text-slate-900">
+                          <span className="text-slate-500 line-through">{diff.before}</span>
+                          <ArrowRight className="h-3 w-3 text-slate-400" />
+                          <span>{diff.after}</span>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {(entry.reason || entry.formulaText) && (
+                  <div className="mt-2 space-y-1 text-xs text-slate-600">
+                    {entry.reason && <p><span className="font-semibold">Motif:</span> {entry.reason}</p>}
+                    {entry.formulaText && <p className="text-slate-500">{entry.formulaText}</p>}
+                  </div>
+                )}
+              </div>
+            ))}
+            {entries.length === 0 && <p className="text-sm text-slate-500">Aucun evenement sur cette periode.</p>}
+          </div>
+        )}
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,292 @@
+import React, { useMemo, useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { fr } from 'date-fns/locale'
+import { AlertTriangle, FileSpreadsheet, Loader2, RotateCcw, Upload } from 'lucide-react'
+import { useImportBatches, useRollbackImport, useRunImport, type ImportBatch } from '../../hooks/useDataImports'
+import { useActiveHotelId } from '../../hooks/useHotels'
+import {
+  IMPORT_TARGETS,
+  autoMapColumns,
+  buildImportPreview,
+  type ImportTable,
+} from '../../utils/importMapping'
+import { repairMojibake } from '../../utils/normalization'
+import { readSpreadsheetFile, type ParsedSheet } from '../../utils/spreadsheetParser'
+
+const PREVIEW_ROWS = 50
+
+const formatCell = (value: unknown) => (value === null || value === undefined || value === '' ? '-' : String(value))
+
+export const ImportPage: React.FC = () => {
+  const hotelId = useActiveHotelId()
+
+  const { data: batches = [], isLoading: loadingBatches } = useImportBatches(hotelId)
+  const runImport = useRunImport(hotelId)
+  const rollbackImport = useRollbackImport(hotelId)
+
+  const [table, setTable] = useState<ImportTable>('booking_export')
+  const [fileName, setFileName] = useState('')
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null)
+  const [mapping, setMapping] = useState<Array<string | null>>([])
+  const [parseError, setParseError] = useState<string | null>(null)
+  const [isParsing, setIsParsing] = useState(false)
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false)
+
+  const target = IMPORT_TARGETS[table]
+  const preview = useMemo(() => (sheet ? buildImportPreview(sheet, mapping, table) : null), [mapping, sheet, table])
+  const mappedColumns = mapping.filter((column): column is string => Boolean(column))
+  const visibleRows = (preview?.rows || []).filter((row) => !showErrorsOnly || row.errors.length > 0).slice(0, PREVIEW_ROWS)
+
+  const changeTable = (next: ImportTable) => {
+    setTable(next)
+    if (sheet) setMapping(autoMapColumns(sheet.headers, next))
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setIsParsing(true)
+    setParseError(null)
+    runImport.reset()
+    try {
+      const parsed = await readSpreadsheetFile(file)
+      if (parsed.headers.length === 0) throw new Error('Le fichier ne contient aucune ligne d\'en-tete')
+      setSheet(parsed)
+      setFileName(file.name)
+      setMapping(autoMapColumns(parsed.headers, table))
+    } catch (error) {
+      setSheet(null)
+      setParseError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setIsParsing(false)
+    }
+  }
+
+  const submitImport = async () => {
+    if (!preview || preview.validCount === 0) return
+    const records = preview.rows.filter((row) => row.errors.length === 0 && !row.duplicate).map((row) => row.values)
+    await runImport.mutateAsync({
+      table,
+      fileName,
+      records,
+      skippedCount: preview.errorCount + preview.duplicateCount,
+    })
+    setSheet(null)
+    setMapping([])
+  }
+
+  const confirmRollback = async (batch: ImportBatch) => {
+    const ok = window.confirm(
+      `Annuler l'import "${batch.file_name || batch.id}" ? Les ${batch.inserted_count} lignes creees seront supprimees et les ${batch.updated_count} lignes modifiees restaurees. Annulez les imports plus recents sur la meme table d'abord.`
+    )
+    if (ok) await rollbackImport.mutateAsync(batch)
+  }
+
+  return (
+    <div className="mx-auto max-w-[1400px] space-y-6">
+      <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+        <h2 className="flex items-center gap-2 text-2xl font-black tracking-tight text-slate-900">
+          <FileSpreadsheet className="h-6 w-6 text-indigo-600" /> Import de donnees
+        </h2>
+        <p className="mt-1 text-sm text-slate-500">
+          Chargez un extrait CSV ou XLSX : les colonnes sont reconnues automatiquement (y compris les en-tetes mal encodes), les lignes sont validees puis fusionnees par cle naturelle.
+        </p>
+
+        <div className="mt-5 grid grid-cols-1 gap-3 md:grid-cols-2">
+          <label className="rounded-xl border border-slate-200 bg-slate-50 p-3 text-sm font-semibold text-slate-700">
+            Table cible
+            <select value={table} onChange={(e) => changeTable(e.target.value as ImportTable)} className="mt-2 w-full rounded-lg border border-slate-200 bg-white px-3 py-2">
+              {(Object.keys(IMPORT_TARGETS) as ImportTable[]).map((key) => (
+                <option key={key} value={key}>{IMPORT_TARGETS[key].label}</option>
+              ))}
+            </select>
+            <span className="mt-2 block text-xs font-normal text-slate-500">Cle de fusion : {target.naturalKey.join(' + ')}</span>
+          </label>
+          <label className="rounded-xl border border-dashed border-slate-300 bg-slate-50 p-3 text-sm font-semibold text-slate-700">
+            Fichier (.csv, .xlsx)
+            <input
+              type="file"
+              accept=".csv,.txt,.xlsx"
+              onChange={(e) => {
+                void handleFile(e.target.files?.[0])
+                e.target.value = ''
+              }}
+              className="mt-2 block w-full text-sm"
+            />
+            {fileName && sheet && <span className="mt-2 block text-xs font-normal text-slate-500">{fileName} · {sheet.rows.length} ligne(s)</span>}
+          </label>
+        </div>
+
+        {isParsing && (
+          <div className="mt-4 flex items-center gap-2 text-sm text-slate-500">
+            <Loader2 className="h-4 w-4 animate-spin" /> Lecture du fichier...
+          </div>
+        )}
+        {parseError && <p className="mt-4 rounded-xl border border-rose-200 bg-rose-50 p-3 text-sm font-semibold text-rose-700">{parseError}</p>}
+        {runImport.isSuccess && (
+          <p className="mt-4 rounded-xl border border-emerald-200 bg-emerald-50 p-3 text-sm font-semibold text-emerald-700">
+            Import termine : {runImport.data.inserted_count} creation(s), {runImport.data.updated_count} mise(s) a jour.
+          </p>
+        )}
+        {runImport.isError && (
+          <p className="mt-4 rounded-xl border border-rose-200 bg-rose-50 p-3 text-sm font-semibold text-rose-700">
+            {runImport.error instanceof Error ? runImport.error.message : 'Import en echec'}
+          </p>
+        )}
+      </section>
+
+      {sheet && preview && (
+        <>
+          <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+            <h3 className="text-sm font-black uppercase tracking-[0.14em] text-slate-700">Correspondance des colonnes</h3>
+            <div className="mt-4 grid grid-cols-1 gap-2 md:grid-cols-2 xl:grid-cols-3">
+              {sheet.headers.map((header, index) => (
+                <label key={`${header}-${index}`} className="rounded-xl border border-slate-200 bg-slate-50 p-3 text-xs font-semibold text-slate-600">
+                  {repairMojibake(header) || `Colonne ${index + 1}`}
+                  {repairMojibake(header) !== header && <span className="ml-1 text-slate-400">({header})</span>}
+                  <select
+                    value={mapping[index] || ''}
+                    onChange={(e) => {
+                      const next = [...mapping]
+                      next[index] = e.target.value || null
+                      setMapping(next)
+                    }}
+                    className={`mt-2 w-full rounded-lg border px-2 py-1.5 text-sm ${mapping[index] ? 'border-emerald-300 bg-white' : 'border-slate-200 bg-white text-slate-400'}`}
+                  >
+                    <option value="">Ignorer</option>
+                    {target.columns.map((column) => (
+                      <option
+                        key={column.name}
+                        value={column.name}
+                        disabled={mapping.includes(column.name) && mapping[index] !== column.name}
+                      >
+                        {column.name}{column.required ? ' *' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+            {preview.mappingErrors.length > 0 && (
+              <ul className="mt-4 space-y-1 rounded-xl border border-amber-200 bg-amber-50 p-3 text-sm font-semibold text-amber-800">
+                {preview.mappingErrors.map((message) => <li key={message}>{message}</li>)}
+              </ul>
+            )}
+          </section>
+
+          <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+            <div className="flex flex-wrap items-end justify-between gap-4">
+              <div className="grid grid-cols-3 gap-3">
+                <div className="rounded-xl bg-emerald-50 p-3"><p className="text-xs text-emerald-700">A importer</p><p className="text-xl font-black text-emerald-800">{preview.validCount}</p></div>
+                <div className="rounded-xl bg-rose-50 p-3"><p className="text-xs text-rose-700">En erreur</p><p className="text-xl font-black text-rose-800">{preview.errorCount}</p></div>
+                <div className="rounded-xl bg-slate-50 p-3"><p className="text-xs text-slate-500">Doublons ignores</p><p className="text-xl font-black text-slate-700">{preview.duplicateCount}</p></div>
+              </div>
+              <div className="flex items-center gap-3">
+                <label className="flex items-center gap-2 text-xs font-bold text-slate-600">
+                  <input type="checkbox" checked={showErrorsOnly} onChange={(e) => setShowErrorsOnly(e.target.checked)} />
+                  Erreurs uniquement
+                </label>
+                <button
+                  type="button"
+                  onClick={submitImport}
+                  disabled={preview.validCount === 0 || runImport.isPending}
+                  className="inline-flex items-center gap-2 rounded-xl bg-slate-900 px-4 py-2 text-xs font-black uppercase tracking-wide text-white disabled:opacity-50"
+                >
+                  {runImport.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+                  Importer {preview.validCount} ligne(s)
+                </button>
+              </div>
+            </div>
+
+            <div className="mt-4 max-h-[520px] overflow-auto">
+              <table className="w-full text-xs">
+                <thead className="sticky top-0 bg-white">
+                  <tr className="border-b border-slate-200 text-left font-black uppercase tracking-wide text-slate-500">
+                    <th className="px-2 py-2">Ligne</th>
+                    {mappedColumns.map((column) => <th key={column} className="px-2 py-2">{column}</th>)}
+                    <th className="px-2 py-2">Validation</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleRows.map((row) => (
+                    <tr key={row.line} className={`border-b border-slate-100 ${row.errors.length > 0 ? 'bg-rose-50/60' : row.duplicate ? 'bg-slate-50 text-slate-400' : ''}`}>
+                      <td className="px-2 py-1.5 font-bold">{row.line}</td>
+                      {mappedColumns.map((column) => <td key={column} className="px-2 py-1.5">{formatCell(row.values[column])}</td>)}
+                      <td className="px-2 py-1.5">
+                        {row.errors.length > 0 ? (
+                          <span className="inline-flex items-center gap-1 font-semibold text-rose-700"><AlertTriangle className="h-3.5 w-3.5" />{row.errors.join(' · ')}</span>
+                        ) : row.duplicate ? (
+                          'Doublon (derniere occurrence conservee)'
+                        ) : (
+                          <span className="font-semibold text-emerald-700">OK</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="mt-2 text-xs text-slate-500">{PREVIEW_ROWS} premieres lignes affichees.</p>
+            </div>
+          </section>
+        </>
+      )}
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+        <h3 className="text-sm font-black uppercase tracking-[0.14em] text-slate-700">Historique des imports</h3>
+        {loadingBatches ? (
+          <div className="flex items-center gap-2 p-6 text-sm text-slate-500"><Loader2 className="h-4 w-4 animate-spin" /> Chargement...</div>
+        ) : batches.length === 0 ? (
+          <p className="mt-4 rounded-xl border border-dashed border-slate-300 p-6 text-center text-sm text-slate-500">Aucun import pour cet hotel.</p>
+        ) : (
+          <div className="mt-4 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-slate-200 text-left text-[11px] font-black uppercase tracking-wide text-slate-500">
+                  <th className="px-2 py-2">Date</th>
+                  <th className="px-2 py-2">Table</th>
+                  <th className="px-2 py-2">Fichier</th>
+                  <th className="px-2 py-2">Utilisateur</th>
+                  <th className="px-2 py-2 text-right">Crees</th>
+                  <th className="px-2 py-2 text-right">Mis a jour</th>
+                  <th className="px-2 py-2 text-right">Ignores</th>
+                  <th className="px-2 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {batches.map((batch) => (
+                  <tr key={batch.id} className="border-b border-slate-100">
+                    <td className="px-2 py-2">{format(parseISO(batch.created_at), 'dd/MM/yyyy HH:mm', { locale: fr })}</td>
+                    <td className="px-2 py-2 font-mono text-xs">{batch.target_table}</td>
+                    <td className="px-2 py-2">{batch.file_name || '-'}</td>
+                    <td className="px-2 py-2 text-slate-500">{batch.user_email || '-'}</td>
+                    <td className="px-2 py-2 text-right">{batch.inserted_count}</td>
+                    <td className="px-2 py-2 text-right">{batch.updated_count}</td>
+                    <td className="px-2 py-2 text-right">{batch.skipped_count}</td>
+                    <td className="px-2 py-2 text-right">
+                      {batch.status === 'rolled_back' ? (
+                        <span className="rounded-full bg-slate-100 px-2 py-0.5 text-[11px] font-bold text-slate-500">Annule</span>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => confirmRollback(batch)}
+                          disabled={rollbackImport.isPending}
+                          className="inline-flex items-center gap-1 rounded-lg border border-rose-200 bg-rose-50 px-2 py-1 text-xs font-bold text-rose-700 disabled:opacity-50"
+                        >
+                          <RotateCcw className="h-3.5 w-3.5" /> Annuler
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {rollbackImport.isError && (
+              <p className="mt-3 text-sm font-semibold text-rose-700">
+                {rollbackImport.error instanceof Error ? rollbackImport.error.message : 'Annulation en echec'}
+              </p>
+            )}
+          </div>
+        )}
+      </section>
+    </div>
+  )
+}
@@ -2,7 +2,6 @@
 import {
   addDays,
   addMonths,
-  differenceInCalendarDays,
   eachDayOfInterval,
   endOfMonth,
   endOfWeek,
@@ -15,18 +14,11 @@ import {
 } from 'date-fns'
 import { fr } from 'date-fns/locale'
 import { ChevronLeft, ChevronRight, Lock } from 'lucide-react'
-import { useAuthStore } from '../../store/useAuthStore'
+import { useActiveHotelId } from '../../hooks/useHotels'
 import { useDisponibilites } from '../../hooks/useHotelData'
 import { useBookingExport } from '../../hooks/useBookingData'
-
-type DisponibiliteLike = {
-  date: string
-  type_de_chambre: string | null
-  disponibilites: number | null
-  ferme_a_la_vente: string | null
-}
-
-type ReservationLike = Record<string, unknown>
+import type { InventoryDay, Reservation } from '../../types/domain'
+import { normalizeKey, parseDate, toDateKey } from '../../utils/normalization'
 
 type RowResult = {
   date: string
@@ -69,240 +61,43 @@ type ReservationDetail = {
   montantTotal: number
 }
 
-const normalize = (value: string) =>
-  value
-    .normalize('NFD')
-    .replace(/[\u0300-\u036f]/g, '')
-    .replace(/[^a-zA-Z0-9]/g, '')
-    .toLowerCase()
-
-const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd')
-
-const parseDate = (value: unknown): Date | null => {
-  if (typeof value !== 'string' || !value.trim()) return null
-  const v = value.trim()
-  const parsed = new Date(v)
-  if (!Number.isNaN(parsed.getTime())) return parsed
-  if (v.includes('/')) {
-    const [d, m, y] = v.split('/').map(Number)
-    if (d && m && y) {
-      const alt = new Date(y, m - 1, d)
-      if (!Number.isNaN(alt.getTime())) return alt
-    }
-  }
-  return null
-}
-
-const parseOptionalNumber = (value: unknown): number | null => {
-  if (typeof value === 'number' && Number.isFinite(value)) return value
-  if (typeof value !== 'string') return null
-
-  let raw = value.trim()
-  if (!raw) return null
-
-  let negative = false
-  if (raw.startsWith('(') && raw.endsWith(')')) {
-    negative = true
-    raw = raw.slice(1, -1)
-  }
-
-  raw = raw.replace(/\s/g, '').replace(/€/g, '')
-  raw = raw.replace(/[^\d,.-]/g, '')
-  if (!raw) return null
-
-  const hasComma = raw.includes(',')
-  const hasDot = raw.includes('.')
-
-  if (hasComma && hasDot) {
-    const lastComma = raw.lastIndexOf(',')
-    const lastDot = raw.lastIndexOf('.')
-    if (lastComma > lastDot) {
-      raw = raw.replace(/\./g, '').replace(',', '.')
-    } else {
-      raw = raw.replace(/,/g, '')
-    }
-  } else if (hasComma) {
-    raw = raw.replace(/\./g, '').replace(',', '.')
-  } else {
-    const dotCount = (raw.match(/\./g) || []).length
-    if (dotCount > 1) {
-      const lastDot = raw.lastIndexOf('.')
-      raw = `${raw.slice(0, lastDot).replace(/\./g, '')}.${raw.slice(lastDot + 1)}`
-    }
-  }
-
-  const n = Number(raw)
-  if (!Number.isFinite(n)) return null
-  return negative ? -n : n
-}
-
-const parseNumber = (value: unknown, fallback = 0): number => {
-  const n = parseOptionalNumber(value)
-  return n ?? fallback
-}
-
-const getFieldByTokens = (row: ReservationLike, tokens: string[]): unknown => {
-  const entries = Object.entries(row)
-  for (const [key, value] of entries) {
-    const nk = normalize(key)
-    if (tokens.some((token) => nk.includes(token))) return value
-  }
-  return undefined
-}
-
-const toText = (value: unknown, fallback = '-'): string => {
-  if (typeof value === 'string' && value.trim()) return value.trim()
-  if (typeof value === 'number' && Number.isFinite(value)) return String(value)
-  return fallback
-}
-
-const isClosedForSale = (value: unknown) => {
-  const raw = String(value ?? '').trim().toLowerCase()
-  return raw === 'x'
-}
-
-const isStockExhausted = (value: unknown) => {
-  const n = parseOptionalNumber(value)
-  return n !== null && n === 0
-}
-
-const getArrivalDateKey = (row: ReservationLike) => {
-  const direct = parseDate(row.arrival_date)
-  if (direct) return toDateKey(direct)
-
-  const arrivalCandidates = Object.entries(row).filter(([key, raw]) => {
-    if (typeof raw !== 'string' || !raw.trim()) return false
-    const n = normalize(key)
-    return (n.includes('arriv') || n.includes('checkin') || n.includes('arrival')) && !n.includes('depart')
-  })
-
-  for (const [, raw] of arrivalCandidates) {
-    const d = parseDate(raw)
-    if (d) return toDateKey(d)
-  }
-
-  return ''
-}
-
-const getRoomType = (row: ReservationLike) => {
-  const direct = row['Type de chambre']
-  if (typeof direct === 'string' && direct.trim()) return direct.trim()
-  const fallback = Object.entries(row).find(([k, v]) => normalize(k).includes('typedechambre') && typeof v === 'string' && String(v).trim())
-  return fallback ? String(fallback[1]).trim() : ''
-}
-
-const isCancelled = (row: ReservationLike) => {
-  const status = typeof row.Etat === 'string' ? row.Etat : ''
-  const n = normalize(status)
-  return n.includes('annul') || n.includes('cancel')
-}
-
-const getSoldRoomsCount = (row: ReservationLike) => {
-  const direct = parseNumber(row.Chambres)
-  if (direct > 0) return direct
-  const fallback = Object.entries(row).find(([k]) => normalize(k) === 'chambres')
-  if (fallback) {
-    const parsed = parseNumber(fallback[1])
-    if (parsed > 0) return parsed
-  }
-
-  const roomType = getRoomType(row)
-  if (normalize(roomType).includes('deuxchambresadjacentes')) return 2
-
-  return 1
-}
-
-const getDepartureDate = (row: ReservationLike): Date | null => {
-  const direct = parseDate(row.departure_date)
-  if (direct) return direct
+const isStockExhausted = (day: InventoryDay) => day.available === 0
 
-  const candidates = Object.entries(row).filter(([key, raw]) => {
-    if (typeof raw !== 'string' || !raw.trim()) return false
-    const n = normalize(key)
-    return n.includes('depart') || n.includes('checkout') || n.includes('departure')
-  })
-
-  for (const [, raw] of candidates) {
-    const d = parseDate(raw)
-    if (d) return d
-  }
-
-  return null
-}
-
-const getStayNights = (row: ReservationLike, arrivalDate: Date): number => {
-  const directNights = parseNumber(row.Nuitees)
-  if (directNights > 0) return Math.floor(directNights)
-
-  const fallbackNights = Object.entries(row).find(([k]) => {
-    const n = normalize(k)
-    return n.includes('nuitees') || n.includes('nuites') || n.includes('nuit') || n.includes('nights')
-  })
-  if (fallbackNights) {
-    const parsed = parseNumber(fallbackNights[1])
-    if (parsed > 0) return Math.floor(parsed)
-  }
+const isUnavailable = (day: InventoryDay) => day.closedToSale || isStockExhausted(day)
 
-  const departure = getDepartureDate(row)
-  if (departure) {
-    const diff = differenceInCalendarDays(departure, arrivalDate)
-    if (diff > 0) return diff
-  }
-
-  return 1
-}
-
-const getStayDateKeys = (row: ReservationLike): string[] => {
-  const arrivalDateKey = getArrivalDateKey(row)
-  if (!arrivalDateKey) return []
-  const arrivalDate = parseDate(arrivalDateKey)
+const getStayDateKeys = (reservation: Reservation): string[] => {
+  const arrivalDate = parseDate(reservation.arrivalDate)
   if (!arrivalDate) return []
-
-  const nights = getStayNights(row, arrivalDate)
-  const dateKeys: string[] = []
-  for (let i = 0; i < nights; i += 1) {
-    dateKeys.push(toDateKey(addDays(arrivalDate, i)))
-  }
-  return dateKeys
+  return Array.from({ length: reservation.nights }, (_, i) => toDateKey(addDays(arrivalDate, i)))
 }
 
-const getReservationReference = (row: ReservationLike) => toText(row['Référence'] ?? row.reference, '')
-const getReservationStatus = (row: ReservationLike) => toText(row.Etat ?? row.status, '')
-
-const getReservationDedupKey = (row: ReservationLike): string => {
-  const arrival = getArrivalDateKey(row)
-  const roomType = normalize(getRoomType(row) || '')
-  const reference = normalize(getReservationReference(row))
-  const status = normalize(getReservationStatus(row))
-  const soldRooms = getSoldRoomsCount(row)
-  const stayDates = getStayDateKeys(row)
-  const nights = stayDates.length
+const getReservationDedupKey = (reservation: Reservation): string => {
+  const roomType = normalizeKey(reservation.roomType)
+  const reference = normalizeKey(reservation.reference)
+  const status = normalizeKey(reservation.status)
+  const { arrivalDate, rooms, nights } = reservation
 
   // Prefer reservation reference when available; fallback to a composite signature.
   if (reference) {
-    return `${reference}|${arrival}|${roomType}|${soldRooms}|${nights}|${status}`
+    return `${reference}|${arrivalDate}|${roomType}|${rooms}|${nights}|${status}`
   }
 
-  const guest = normalize(
-    toText(
-      row['E-Mail'] ??
-        row.email ??
-        row['Nom'] ??
-        row.nom ??
-        row['Prénom'] ??
-        row.prenom,
-      '',
-    ),
-  )
+  return `${arrivalDate}|${roomType}|${rooms}|${nights}|${status}|${reservation.totalAmount}`
+}
 
-  return `${arrival}|${roomType}|${soldRooms}|${nights}|${status}|${guest}`
+const dedupeReservations = (reservations: Reservation[]) => {
+  const deduped = new Map<string, Reservation>()
+  reservations.forEach((reservation) => {
+    const key = getReservationDedupKey(reservation)
+    if (!deduped.has(key)) deduped.set(key, reservation)
+  })
+  return Array.from(deduped.values())
 }
 
 const inRange = (dateKey: string, startKey: string, endKey: string) => dateKey >= startKey && dateKey <= endKey
 
 export const MyUnavailabilityPage: React.FC = () => {
-  const { profile } = useAuthStore()
-  const hotelId = profile?.hotel_id || 'H2258'
+  const hotelId = useActiveHotelId()
 
   const [selectedDate, setSelectedDate] = useState(new Date())
   const [visibleMonth, setVisibleMonth] = useState(new Date())
@@ -322,8 +117,10 @@ export const MyUnavailabilityPage: React.FC = () => {
   const queryStart = new Date(Math.min(monthStart.getTime(), rangeStartDate.getTime()))
   const queryEnd = new Date(Math.max(monthEnd.getTime(), rangeEndDate.getTime()))
 
-  const { data: disponibilites = [], isLoading: loadingDispo } = useDisponibilites(hotelId, queryStart, queryEnd)
-  const { data: reservations = [], isLoading: loadingResa } = useBookingExport(hotelId, queryStart, queryEnd)
+  const { data: disponibilitesData, isLoading: loadingDispo } = useDisponibilites(hotelId, queryStart, queryEnd)
+  const { data: reservationsData, isLoading: loadingResa } = useBookingExport(hotelId, queryStart, queryEnd)
+  const disponibilites = useMemo(() => disponibilitesData?.items ?? [], [disponibilitesData])
+  const reservations = useMemo(() => reservationsData?.items ?? [], [reservationsData])
 
   const calendarStart = startOfWeek(monthStart, { weekStartsOn: 1 })
   const calendarEnd = endOfWeek(monthEnd, { weekStartsOn: 1 })
@@ -334,96 +131,47 @@ export const MyUnavailabilityPage: React.FC = () => {
   const rangeEndKey = toDateKey(rangeEndDate)
 
   const soldByDateType = useMemo(() => {
-    const deduped = new Map<string, ReservationLike>()
-    ;(reservations as ReservationLike[]).forEach((row) => {
-      const key = getReservationDedupKey(row)
-      if (!key) return
-      if (!deduped.has(key)) deduped.set(key, row)
-    })
-
     const map = new Map<string, number>()
-    Array.from(deduped.values())
-      .filter((row) => includeCancelled || !isCancelled(row))
-      .forEach((row) => {
-        const stayDateKeys = getStayDateKeys(row)
-        if (stayDateKeys.length === 0) return
-        const roomType = getRoomType(row)
-        if (!roomType) return
-        const soldRooms = getSoldRoomsCount(row)
-        stayDateKeys.forEach((stayDateKey) => {
-          const key = `${stayDateKey}::${normalize(roomType)}`
-          map.set(key, (map.get(key) || 0) + soldRooms)
+    dedupeReservations(reservations)
+      .filter((reservation) => includeCancelled || !reservation.isCancelled)
+      .forEach((reservation) => {
+        if (!reservation.roomType) return
+        getStayDateKeys(reservation).forEach((stayDateKey) => {
+          const key = `${stayDateKey}::${normalizeKey(reservation.roomType)}`
+          map.set(key, (map.get(key) || 0) + reservation.rooms)
         })
       })
     return map
   }, [includeCancelled, reservations])
 
   const bookingDetailsByDateType = useMemo(() => {
-    const deduped = new Map<string, ReservationLike>()
-    ;(reservations as ReservationLike[]).forEach((row) => {
-      const key = getReservationDedupKey(row)
-      if (!key) return
-      if (!deduped.has(key)) deduped.set(key, row)
-    })
-
     const map = new Map<string, ReservationDetail[]>()
-    Array.from(deduped.values())
-      .filter((row) => includeCancelled || !isCancelled(row))
-      .forEach((row, idx) => {
-      const arrivalDateKey = getArrivalDateKey(row)
-      if (!arrivalDateKey) return
-      const arrivalDate = parseDate(arrivalDateKey)
-      if (!arrivalDate) return
-      const roomType = getRoomType(row)
-      if (!roomType) return
-
-      const nights = getStayNights(row, arrivalDate)
-      const stayDateKeys = getStayDateKeys(row)
-      if (stayDateKeys.length === 0) return
-      const soldRooms = getSoldRoomsCount(row)
-      const departureDate = addDays(arrivalDate, Math.max(nights, 1))
-      const reference = toText(row['Référence'] ?? row.reference)
-      const etat = toText(row.Etat ?? row.status)
-      const origine = toText(
-        row.Origine ??
-          row.origin ??
-          row['Plateforme'] ??
-          row.platform ??
-          getFieldByTokens(row, ['origine', 'plateforme', 'platform', 'ota']),
-      )
-      const guestsRaw =
-        row.Guests ??
-        row.guests ??
-        row['Nombre de clients'] ??
-        row['Nombre de voyageurs'] ??
-        row['Adultes'] ??
-        getFieldByTokens(row, ['guests', 'voyageurs', 'clients', 'adultes'])
-      const montantRaw =
-        row['Montant total'] ??
-        row.montant_total ??
-        row.Montant ??
-        row['Montant payé'] ??
-        row['Montant paye'] ??
-        row['Total payé'] ??
-        row.total ??
-        getFieldByTokens(row, ['montant', 'total', 'paye', 'payee', 'paid'])
+    dedupeReservations(reservations)
+      .filter((reservation) => includeCancelled || !reservation.isCancelled)
+      .forEach((reservation, idx) => {
+      const arrivalDate = parseDate(reservation.arrivalDate)
+      if (!arrivalDate || !reservation.roomType) return
+
+      const stayDateKeys = getStayDateKeys(reservation)
+      const roomTypeKey = normalizeKey(reservation.roomType)
+      const guests = reservation.adults + reservation.children
 
       const detail: ReservationDetail = {
-        id: `${reference}-${arrivalDateKey}-${normalize(roomType)}-${idx}`,
-        arrivee: arrivalDateKey,
-        depart: toDateKey(departureDate),
-        reference,
-        etat,
-        origine,
-        typeChambre: roomType,
-        chambres: soldRooms,
-        nuitees: nights,
-        guests: toText(guestsRaw),
-        montantTotal: parseNumber(montantRaw),
+        id: `${reservation.reference}-${reservation.arrivalDate}-${roomTypeKey}-${idx}`,
+        arrivee: reservation.arrivalDate,
+        depart: toDateKey(addDays(arrivalDate, reservation.nights)),
+        reference: reservation.reference || '-',
+        etat: reservation.status || '-',
+        origine: reservation.origin || reservation.originType || '-',
+        typeChambre: reservation.roomType,
+        chambres: reservation.rooms,
+        nuitees: reservation.nights,
+        guests: guests > 0 ? String(guests) : '-',
+        montantTotal: reservation.totalAmount,
       }
 
       stayDateKeys.forEach((stayDateKey) => {
-        const key = `${stayDateKey}::${normalize(roomType)}`
+        const key = `${stayDateKey}::${roomTypeKey}`
         const list = map.get(key) || []
         list.push(detail)
         map.set(key, list)
@@ -434,30 +182,23 @@ export const MyUnavailabilityPage: React.FC = () => {
 
   const roomTypeOptions = useMemo(() => {
     const set = new Set<string>()
-    ;(disponibilites as DisponibiliteLike[]).forEach((row) => {
-      if (row.type_de_chambre && row.type_de_chambre.trim()) set.add(row.type_de_chambre.trim())
+    disponibilites.forEach((day) => {
+      if (day.roomType) set.add(day.roomType)
     })
     return Array.from(set).sort((a, b) => a.localeCompare(b))
   }, [disponibilites])
 
   const selectedDayRows = useMemo<RowResult[]>(() => {
-    const rows = (disponibilites as DisponibiliteLike[])
-      .filter((row) => {
-        if (row.date !== selectedDateKey) return false
-        const available = parseOptionalNumber(row.disponibilites)
-        const closedByFlag = isClosedForSale(row.ferme_a_la_vente)
-        const stockExhausted = available !== null && available === 0
-        return closedByFlag || stockExhausted
-      })
-      .map((row) => {
-        const roomType = row.type_de_chambre || 'Type inconnu'
-        const available = parseNumber(row.disponibilites)
-        const sold = soldByDateType.get(`${selectedDateKey}::${normalize(roomType)}`) || 0
-        const reason: RowResult['reason'] = isClosedForSale(row.ferme_a_la_vente) ? 'ferme' : 'stock'
+    const rows = disponibilites
+      .filter((day) => day.date === selectedDateKey && isUnavailable(day))
+      .map((day) => {
+        const roomType = day.roomType || 'Type inconnu'
+        const sold = soldByDateType.get(`${selectedDateKey}::${normalizeKey(roomType)}`) || 0
+        const reason: RowResult['reason'] = day.closedToSale ? 'ferme' : 'stock'
         return {
           date: selectedDateKey,
           roomType,
-          available,
+          available: day.available ?? 0,
           sold,
           reason,
         }
@@ -466,23 +207,16 @@ export const MyUnavailabilityPage: React.FC = () => {
     return rows.sort((a, b) => b.sold - a.sold)
   }, [disponibilites, selectedDateKey, soldByDateType])
 
-  const rangeRows: RowResult[] = (disponibilites as DisponibiliteLike[])
-    .filter((row) => {
-      if (!inRange(row.date, rangeStartKey, rangeEndKey)) return false
-      const available = parseOptionalNumber(row.disponibilites)
-      const closedByFlag = isClosedForSale(row.ferme_a_la_vente)
-      const stockExhausted = available !== null && available === 0
-      return closedByFlag || stockExhausted
-    })
-    .map((row) => {
-      const roomType = row.type_de_chambre || 'Type inconnu'
-      const available = parseNumber(row.disponibilites)
-      const sold = soldByDateType.get(`${row.date}::${normalize(roomType)}`) || 0
-      const reason: RowResult['reason'] = isClosedForSale(row.ferme_a_la_vente) ? 'ferme' : 'stock'
+  const rangeRows: RowResult[] = disponibilites
+    .filter((day) => inRange(day.date, rangeStartKey, rangeEndKey) && isUnavailable(day))
+    .map((day) => {
+      const roomType = day.roomType || 'Type inconnu'
+      const sold = soldByDateType.get(`${day.date}::${normalizeKey(roomType)}`) || 0
+      const reason: RowResult['reason'] = day.closedToSale ? 'ferme' : 'stock'
       return {
-        date: row.date,
+        date: day.date,
         roomType,
-        available,
+        available: day.available ?? 0,
         sold,
         reason,
       }
@@ -491,8 +225,8 @@ export const MyUnavailabilityPage: React.FC = () => {
 
   const dayHasClosed = useMemo(() => {
     const set = new Set<string>()
-    ;(disponibilites as DisponibiliteLike[]).forEach((row) => {
-      if (isClosedForSale(row.ferme_a_la_vente) || isStockExhausted(row.disponibilites)) set.add(row.date)
+    disponibilites.forEach((day) => {
+      if (isUnavailable(day)) set.add(day.date)
     })
     return set
   }, [disponibilites])
@@ -500,19 +234,17 @@ export const MyUnavailabilityPage: React.FC = () => {
   const inventoryRows = useMemo<InventoryRow[]>(() => {
     if (!inventoryQuery || inventoryQuery.roomType === 'ALL') return []
 
-    const selectedTypeNorm = normalize(inventoryQuery.roomType)
+    const selectedTypeNorm = normalizeKey(inventoryQuery.roomType)
     const byDate = new Map<string, { reason: 'ferme' | 'stock' }>()
 
-    ;(disponibilites as DisponibiliteLike[])
-      .filter((row) => inRange(row.date, inventoryQuery.startKey, inventoryQuery.endKey))
-      .filter((row) => normalize(row.type_de_chambre || '') === selectedTypeNorm)
-      .forEach((row) => {
-        const closedByFlag = isClosedForSale(row.ferme_a_la_vente)
-        const stockExhausted = isStockExhausted(row.disponibilites)
-        if (!closedByFlag && !stockExhausted) return
-        const current = byDate.get(row.date)
-        if (!current || (current.reason !== 'ferme' && closedByFlag)) {
-          byDate.set(row.date, { reason: closedByFlag ? 'ferme' : 'stock' })
+    disponibilites
+      .filter((day) => inRange(day.date, inventoryQuery.startKey, inventoryQuery.endKey))
+      .filter((day) => normalizeKey(day.roomType || '') === selectedTypeNorm)
+      .forEach((day) => {
+        if (!isUnavailable(day)) return
+        const current = byDate.get(day.date)
+        if (!current || (current.reason !== 'ferme' && day.closedToSale)) {
+          byDate.set(day.date, { reason: day.closedToSale ? 'ferme' : 'stock' })
         }
       })
 
@@ -528,7 +260,7 @@ export const MyUnavailabilityPage: React.FC = () => {
 
   const selectedBookingDetails = useMemo(() => {
     if (!selectedInspection) return []
-    const key = `${selectedInspection.date}::${normalize(selectedInspection.roomType)}`
+    const key = `${selectedInspection.date}::${normalizeKey(selectedInspection.roomType)}`
     return (bookingDetailsByDateType.get(key) || []).sort((a, b) =>
       a.arrivee === b.arrivee ? a.reference.localeCompare(b.reference) : a.arrivee.localeCompare(b.arrivee),
     )
@@ -730,7 +462,7 @@ export const MyUnavailabilityPage: React.FC = () => {
                   {selectedDayRows.map((row) => {
                     const isSelected =
                       selectedInspection?.date === selectedDateKey &&
-                      normalize(selectedInspection.roomType) === normalize(row.roomType)
+                      normalizeKey(selectedInspection.roomType) === normalizeKey(row.roomType)
                     return (
                       <React.Fragment key={`${row.roomType}-${selectedDateKey}`}>
                         <tr
@@ -788,7 +520,7 @@ export const MyUnavailabilityPage: React.FC = () => {
               <tbody>
                 {rangeRows.map((row, idx) => {
                   const isSelected =
-                    selectedInspection?.date === row.date && normalize(selectedInspection.roomType) === normalize(row.roomType)
+                    selectedInspection?.date === row.date && normalizeKey(selectedInspection.roomType) === normalizeKey(row.roomType)
                   return (
                     <React.Fragment key={`${row.date}-${row.roomType}-${idx}`}>
                       <tr
@@ -879,7 +611,7 @@ export const MyUnavailabilityPage: React.FC = () => {
               <tbody>
                 {inventoryRows.map((row, idx) => {
                   const isSelected =
-                    selectedInspection?.date === row.date && normalize(selectedInspection.roomType) === normalize(row.roomType)
+                    selectedInspection?.date === row.date && normalizeKey(selectedInspection.roomType) === normalizeKey(row.roomType)
                   return (
                     <React.Fragment key={`${row.date}-${row.roomType}-${idx}`}>
                       <tr
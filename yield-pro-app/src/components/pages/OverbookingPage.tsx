@@ -0,0 +1,188 @@
+import React, { useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { format, parseISO } from 'date-fns'
+import { fr } from 'date-fns/locale'
+import { Loader2, ShieldAlert } from 'lucide-react'
+import { useDashboardConfig } from '../../hooks/useDashboardConfig'
+import { useActiveHotelId } from '../../hooks/useHotels'
+import { ATTRITION_HISTORY_DAYS, useOverbookingPlan } from '../../hooks/useOverbookingPlan'
+import { useDateRangeStore } from '../../store/useDateRangeStore'
+import { formatCurrency } from '../../utils/formatters'
+import { LEAD_TIME_BUCKETS, type OverbookingStatus } from '../../utils/overbooking'
+
+const STATUS_LABELS: Record<OverbookingStatus, string> = {
+  ok: 'Sous capacite',
+  overbooked: 'Surreserve (autorise)',
+  over_limit: 'Au-dessus de la limite',
+}
+
+const STATUS_CLASS: Record<OverbookingStatus, string> = {
+  ok: 'bg-slate-100 text-slate-500',
+  overbooked: 'bg-amber-100 text-amber-700',
+  over_limit: 'bg-rose-100 text-rose-700',
+}
+
+const ROW_CLASS: Record<OverbookingStatus, string> = {
+  ok: '',
+  overbooked: 'bg-amber-50/60',
+  over_limit: 'bg-rose-50',
+}
+
+const formatPct = (value: number) => `${(value * 100).toFixed(1)}%`
+
+const leadLabel = (leadDays: number, index: number) => {
+  const next = LEAD_TIME_BUCKETS[index + 1]
+  return next === undefined ? `J-${leadDays}+` : `J-${leadDays} a J-${next - 1}`
+}
+
+export const OverbookingPage: React.FC = () => {
+  const hotelId = useActiveHotelId()
+  const { startDate, endDate } = useDateRangeStore()
+  const { config } = useDashboardConfig()
+  const { model, days, overLimit, isLoading } = useOverbookingPlan(hotelId, startDate, endDate)
+  const [watchOnly, setWatchOnly] = useState(false)
+
+  const visibleDays = useMemo(
+    () => (watchOnly ? days.filter((day) => day.status !== 'ok' || day.expectedWalks >= 0.1) : days),
+    [days, watchOnly]
+  )
+
+  const channels = useMemo(() => Array.from(new Set(model.segments.map((segment) => segment.channel))), [model.segments])
+  const segmentByKey = useMemo(
+    () => new Map(model.segments.map((segment) => [`${segment.channel}|${segment.leadDays}`, segment])),
+    [model.segments]
+  )
+
+  const tiles = [
+    { label: 'Historique analyse', value: `${model.historyRooms} ch.` },
+    { label: 'No-show moyen', value: formatPct(model.overallNoShowRate) },
+    { label: 'Cout de delogement', value: formatCurrency(config.rms.overbooking.walkCost) },
+    { label: 'Dates au-dessus de la limite', value: `${overLimit.length}` },
+  ]
+
+  return (
+    <div className="mx-auto max-w-[1400px] space-y-6">
+      <section className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="mb-2 flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5 text-slate-700" />
+          <h2 className="text-3xl font-black tracking-tight text-slate-900">Surreservation</h2>
+        </div>
+        <p className="text-sm text-slate-500">
+          Probabilites d'annulation et de no-show apprises sur {ATTRITION_HISTORY_DAYS} jours d'arrivees booking_export, par canal et delai
+          avant arrivee. Une chambre de plus est autorisee tant que la chance qu'une annulation ou un no-show la libere justifie le risque de
+          deloger un client. Cout de delogement et plafond ({config.rms.overbooking.maxOverbookingPct}% de la capacite) dans le{' '}
+          <Link to="/settings" className="font-semibold text-slate-700 underline">Studio RMS</Link>.
+        </p>
+        <div className="mt-4 grid grid-cols-2 gap-3 md:grid-cols-4">
+          {tiles.map((tile) => (
+            <div key={tile.label} className="rounded-xl bg-slate-50 p-3">
+              <p className="text-xs text-slate-500">{tile.label}</p>
+              <p className="text-xl font-black text-slate-900">{tile.value}</p>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      {isLoading ? (
+        <div className="flex min-h-[300px] items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-slate-400" />
+        </div>
+      ) : (
+        <>
+          <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+            <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+              <h3 className="text-sm font-black uppercase tracking-[0.16em] text-slate-700">Limites par date et type de chambre</h3>
+              <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+                <input type="checkbox" checked={watchOnly} onChange={(event) => setWatchOnly(event.target.checked)} className="h-4 w-4" />
+                Uniquement les dates a surveiller
+              </label>
+            </div>
+            {visibleDays.length === 0 ? (
+              <p className="text-sm text-slate-500">Aucune date a surveiller sur la periode.</p>
+            ) : (
+              <div className="max-h-[560px] overflow-auto">
+                <table className="w-full text-left text-sm">
+                  <thead className="sticky top-0 bg-white">
+                    <tr className="border-b border-slate-200 text-[11px] uppercase tracking-wider text-slate-500">
+                      <th className="px-3 py-2">Nuit</th>
+                      <th className="px-3 py-2">Type</th>
+                      <th className="px-3 py-2 text-right">Capacite</th>
+                      <th className="px-3 py-2 text-right">Vendues</th>
+                      <th className="px-3 py-2 text-right">Annul. attendues</th>
+                      <th className="px-3 py-2 text-right">No-shows attendus</th>
+                      <th className="px-3 py-2 text-right">Surres. autorisee</th>
+                      <th className="px-3 py-2 text-right">Limite sure</th>
+                      <th className="px-3 py-2 text-right">Delogements attendus</th>
+                      <th className="px-3 py-2">Statut</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleDays.map((day) => (
+                      <tr key={`${day.date}-${day.roomType}`} className={`border-b border-slate-100 ${ROW_CLASS[day.status]}`}>
+                        <td className="px-3 py-2 font-semibold text-slate-800">{format(parseISO(day.date), 'EEE dd MMM', { locale: fr })}</td>
+                        <td className="px-3 py-2 text-slate-700">{day.roomType}</td>
+                        <td className="px-3 py-2 text-right text-slate-600">{day.capacity}</td>
+                        <td className="px-3 py-2 text-right font-bold text-slate-900">{day.onBooks}</td>
+                        <td className="px-3 py-2 text-right text-slate-600">{day.expectedCancellations.toFixed(1)}</td>
+                        <td className="px-3 py-2 text-right text-slate-600">{day.expectedNoShows.toFixed(1)}</td>
+                        <td className="px-3 py-2 text-right text-slate-800">+{day.authorisedOverbooking}</td>
+                        <td className="px-3 py-2 text-right font-bold text-slate-900">{day.safeLimit}</td>
+                        <td className="px-3 py-2 text-right text-slate-600">
+                          {day.expectedWalks >= 0.05 ? `${day.expectedWalks.toFixed(1)} (${formatCurrency(day.expectedWalkCost)})` : '-'}
+                        </td>
+                        <td className="px-3 py-2">
+                          <span className={`rounded-full px-2 py-0.5 text-[11px] font-bold ${STATUS_CLASS[day.status]}`}>{STATUS_LABELS[day.status]}</span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+
+          <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+            <h3 className="mb-3 text-sm font-black uppercase tracking-[0.16em] text-slate-700">Probabilites par canal</h3>
+            {channels.length === 0 ? (
+              <p className="text-sm text-slate-500">Pas d'historique booking_export exploitable: les limites restent a la capacite.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-left text-sm">
+                  <thead>
+                    <tr className="border-b border-slate-200 text-[11px] uppercase tracking-wider text-slate-500">
+                      <th className="px-3 py-2">Canal</th>
+                      {LEAD_TIME_BUCKETS.map((leadDays, index) => (
+                        <th key={leadDays} className="px-3 py-2 text-right">Annul. {leadLabel(leadDays, index)}</th>
+                      ))}
+                      <th className="px-3 py-2 text-right">No-show</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {channels.map((channel) => (
+                      <tr key={channel} className="border-b border-slate-100">
+                        <td className="px-3 py-2 font-semibold text-slate-800">{channel}</td>
+                        {LEAD_TIME_BUCKETS.map((leadDays) => {
+                          const segment = segmentByKey.get(`${channel}|${leadDays}`)
+                          return (
+                            <td key={leadDays} className="px-3 py-2 text-right text-slate-700" title={segment ? `${segment.cancelledRooms}/${segment.atRiskRooms} ch.` : undefined}>
+                              {segment ? formatPct(segment.cancelProbability) : '-'}
+                            </td>
+                          )
+                        })}
+                        <td className="px-3 py-2 text-right text-slate-700">{formatPct(model.noShowProbability(channel))}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            <p className="mt-3 text-xs text-slate-500">
+              Annul. J-x: part des chambres encore reservees x jours avant l'arrivee qui ont ensuite annule. Les segments peu fournis sont
+              rapproches du taux tous canaux. No-show: statut (Etat) no-show sur les arrivees non annulees.
+            </p>
+          </section>
+        </>
+      )}
+    </div>
+  )
+}
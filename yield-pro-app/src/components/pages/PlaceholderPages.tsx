@@ -23,5 +23,4 @@ const PlaceholderPage: React.FC<{ title: string }> = ({ title }) => (
 export const GridPage = () => <PlaceholderPage title="Grille Tarifaire" />
 export const CompetitorsPage = () => <CompetitorAnalysis />
 export const YieldAnalysisPage = () => <PlaceholderPage title="Analyses Yield" />
-export const HistoryPage = () => <PlaceholderPage title="Historique" />
 export const SettingsPage = () => <PlaceholderPage title="Paramètres" />
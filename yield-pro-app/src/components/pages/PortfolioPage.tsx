@@ -0,0 +1,267 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { addDays } from 'date-fns'
+import { ArrowDown, ArrowUp, ArrowUpDown, Building2, ExternalLink, Loader2 } from 'lucide-react'
+import { useBookingApercu, useBookingExport } from '../../hooks/useBookingData'
+import { useDashboardConfig, type RMSSettings } from '../../hooks/useDashboardConfig'
+import { useDisponibilites, useEvents, useReservations } from '../../hooks/useHotelData'
+import { useActiveHotelId, useUserHotels, type PortfolioHotel } from '../../hooks/useHotels'
+import { useChannelCommissions } from '../../hooks/useOtaConfig'
+import { getLatestDecisionByDate, usePriceDecisions } from '../../hooks/usePriceDecisions'
+import { useRMSCalculations } from '../../hooks/useRMSCalculations'
+import { useActiveHotelStore } from '../../store/useActiveHotelStore'
+import { useDateRangeStore } from '../../store/useDateRangeStore'
+import { STLY_OFFSET_DAYS } from '../../utils/bookingPace'
+import { formatCurrency } from '../../utils/formatters'
+import { toDateKey } from '../../utils/normalization'
+import { HOTEL_ROLE_LABELS } from '../../utils/permissions'
+import {
+  buildPortfolioTotals,
+  countOpenSuggestions,
+  sortPortfolioHotels,
+  type PortfolioHotelSummary,
+  type PortfolioSort,
+  type PortfolioSortKey,
+} from '../../utils/portfolio'
+
+const COLUMNS: Array<{ key: PortfolioSortKey; label: string }> = [
+  { key: 'name', label: 'Hotel' },
+  { key: 'occupancyRate', label: 'Occupation' },
+  { key: 'adr', label: 'ADR' },
+  { key: 'revpar', label: 'RevPAR' },
+  { key: 'netAdr', label: 'ADR net' },
+  { key: 'netRevpar', label: 'RevPAR net' },
+  { key: 'pickupRooms', label: 'Pickup 7j' },
+  { key: 'openSuggestions', label: 'Suggestions ouvertes' },
+]
+
+type PortfolioHotelRowProps = {
+  hotel: PortfolioHotel
+  isActive: boolean
+  startDate: Date
+  endDate: Date
+  rms: RMSSettings
+  onSummary: (summary: PortfolioHotelSummary) => void
+  onOpen: (hotelId: string) => void
+}
+
+/** One hotel of the portfolio: loads its own data and runs the same RMS calculations as the dashboard. */
+const PortfolioHotelRow: React.FC<PortfolioHotelRowProps> = ({ hotel, isActive, startDate, endDate, rms, onSummary, onOpen }) => {
+  const { hotelId } = hotel
+  const { data: apercuData } = useBookingApercu(hotelId, startDate, endDate)
+  const { data: reservationsData } = useReservations(hotelId, startDate, endDate)
+  const { data: disponibilitesData } = useDisponibilites(hotelId, startDate, endDate)
+  const { data: eventsData } = useEvents(hotelId, startDate, endDate)
+  const { data: bookingExportStlyData } = useBookingExport(
+    hotelId,
+    addDays(startDate, -STLY_OFFSET_DAYS),
+    addDays(endDate, -STLY_OFFSET_DAYS)
+  )
+  const { data: priceDecisions } = usePriceDecisions(hotelId, startDate, endDate)
+  const { data: channelCommissions } = useChannelCommissions(hotelId)
+
+  const { kpis, pricingSuggestions } = useRMSCalculations(
+    reservationsData?.items || [],
+    disponibilitesData?.items || [],
+    apercuData?.items || [],
+    rms,
+    eventsData?.items || [],
+    bookingExportStlyData?.items || [],
+    channelCommissions
+  )
+
+  const isLoaded = !!reservationsData && !!disponibilitesData && !!apercuData && !!priceDecisions
+  const openSuggestions = useMemo(
+    () => countOpenSuggestions(pricingSuggestions, getLatestDecisionByDate(priceDecisions || []), toDateKey(new Date())),
+    [priceDecisions, pricingSuggestions]
+  )
+
+  useEffect(() => {
+    if (!isLoaded) return
+    onSummary({
+      hotelId,
+      occupancyRate: kpis.occupancyRate,
+      adr: kpis.adr,
+      revpar: kpis.revpar,
+      netAdr: kpis.netAdr,
+      netRevpar: kpis.netRevpar,
+      pickupRooms: kpis.pickupRooms,
+      pickupRevenue: kpis.pickupRevenue,
+      occupiedRooms: kpis.occupiedRooms,
+      totalRooms: kpis.totalRooms,
+      revenue: kpis.adr * kpis.occupiedRooms,
+      netRevenue: kpis.netAdr * kpis.occupiedRooms,
+      openSuggestions,
+    })
+  }, [hotelId, isLoaded, kpis, onSummary, openSuggestions])
+
+  return (
+    <tr className={`border-b border-slate-100 ${isActive ? 'bg-cyan-50/60' : 'hover:bg-slate-50'}`}>
+      <td className="px-4 py-3">
+        <p className="font-bold text-slate-900">{hotel.name}</p>
+        <p className="text-[11px] text-slate-500">
+          {hotelId} - {HOTEL_ROLE_LABELS[hotel.role]}
+          {hotel.isDefault && ' - hotel par defaut'}
+          {isActive && ' - ouvert'}
+        </p>
+      </td>
+      {isLoaded ? (
+        <>
+          <td className="px-4 py-3 font-semibold text-slate-800">{kpis.occupancyRate.toFixed(1)}%</td>
+          <td className="px-4 py-3 font-semibold text-slate-800">{formatCurrency(kpis.adr)}</td>
+          <td className="px-4 py-3 font-semibold text-slate-800">{formatCurrency(kpis.revpar)}</td>
+          <td className="px-4 py-3 text-slate-800">{formatCurrency(kpis.netAdr)}</td>
+          <td className="px-4 py-3 text-slate-800">{formatCurrency(kpis.netRevpar)}</td>
+          <td className="px-4 py-3 text-slate-800">
+            <span className="font-semibold">{kpis.pickupRooms} ch</span>
+            <span className="ml-2 text-xs text-slate-500">{formatCurrency(kpis.pickupRevenue)}</span>
+          </td>
+          <td className="px-4 py-3">
+            <span className={`rounded-full px-2 py-0.5 text-xs font-black ${openSuggestions > 0 ? 'bg-amber-100 text-amber-700' : 'bg-slate-100 text-slate-500'}`}>
+              {openSuggestions}
+            </span>
+          </td>
+        </>
+      ) : (
+        <td colSpan={COLUMNS.length - 1} className="px-4 py-3 text-xs text-slate-400">
+          <Loader2 className="mr-2 inline h-4 w-4 animate-spin" />
+          Chargement des donnees...
+        </td>
+      )}
+      <td className="px-4 py-3 text-right">
+        <button
+          type="button"
+          onClick={() => onOpen(hotelId)}
+          className="inline-flex items-center gap-1 rounded-lg bg-slate-900 px-3 py-1.5 text-xs font-bold text-white hover:bg-slate-700"
+        >
+          <ExternalLink className="h-3 w-3" />
+          Ouvrir
+        </button>
+      </td>
+    </tr>
+  )
+}
+
+export const PortfolioPage: React.FC = () => {
+  const navigate = useNavigate()
+  const activeHotelId = useActiveHotelId()
+  const setActiveHotel = useActiveHotelStore((state) => state.setActiveHotel)
+  const { startDate, endDate } = useDateRangeStore()
+  const { config } = useDashboardConfig()
+  const { data: hotels = [], isLoading, error } = useUserHotels()
+
+  const [sort, setSort] = useState<PortfolioSort>({ key: 'revpar', direction: 'desc' })
+  const [summaries, setSummaries] = useState<Record<string, PortfolioHotelSummary>>({})
+
+  const handleSummary = useCallback((summary: PortfolioHotelSummary) => {
+    setSummaries((prev) => ({ ...prev, [summary.hotelId]: summary }))
+  }, [])
+
+  const sortedHotels = useMemo(() => sortPortfolioHotels(hotels, summaries, sort), [hotels, sort, summaries])
+  const totals = useMemo(
+    () => buildPortfolioTotals(hotels.map((hotel) => summaries[hotel.hotelId]).filter((row): row is PortfolioHotelSummary => Boolean(row))),
+    [hotels, summaries]
+  )
+
+  const toggleSort = (key: PortfolioSortKey) => {
+    setSort((prev) => prev.key === key
+      ? { key, direction: prev.direction === 'asc' ? 'desc' : 'asc' }
+      : { key, direction: key === 'name' ? 'asc' : 'desc' })
+  }
+
+  // Drill-down only changes the hotel of this tab; the profile hotel stays the default one.
+  const openHotel = (hotelId: string) => {
+    setActiveHotel(hotelId)
+    navigate('/dashboard')
+  }
+
+  return (
+    <div className="mx-auto max-w-[1400px] space-y-6">
+      <section className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="mb-2 flex items-center gap-2">
+          <Building2 className="h-5 w-5 text-slate-700" />
+          <h2 className="text-3xl font-black tracking-tight text-slate-900">Portefeuille</h2>
+        </div>
+        <p className="text-sm text-slate-500">
+          Occupation, ADR, RevPAR (bruts et nets de commissions OTA), pickup et suggestions RMS en attente de decision pour chaque hotel suivi, sur la periode selectionnee.
+        </p>
+      </section>
+
+      <section className="grid grid-cols-2 gap-3 md:grid-cols-4 xl:grid-cols-7">
+        {[
+          { label: 'Occupation', value: `${totals.occupancyRate.toFixed(1)}%` },
+          { label: 'ADR', value: formatCurrency(totals.adr) },
+          { label: 'RevPAR', value: formatCurrency(totals.revpar) },
+          { label: 'ADR net', value: formatCurrency(totals.netAdr) },
+          { label: 'RevPAR net', value: formatCurrency(totals.netRevpar) },
+          { label: 'Pickup 7j', value: `${totals.pickupRooms} ch` },
+          { label: 'Suggestions ouvertes', value: String(totals.openSuggestions) },
+        ].map((tile) => (
+          <div key={tile.label} className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm">
+            <p className="text-[11px] font-bold uppercase tracking-[0.18em] text-slate-500">{tile.label}</p>
+            <p className="mt-1 text-2xl font-black tracking-tight text-slate-900">{tile.value}</p>
+          </div>
+        ))}
+      </section>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+        <div className="mb-3 flex items-center justify-between">
+          <h3 className="text-sm font-black uppercase tracking-[0.16em] text-slate-700">Hotels suivis</h3>
+          <p className="text-xs font-semibold text-slate-500">{hotels.length} hotel(s)</p>
+        </div>
+
+        {error && (
+          <div className="mb-3 rounded-xl border border-rose-200 bg-rose-50 p-3 text-sm font-medium text-rose-700">
+            Impossible de charger le portefeuille: {error instanceof Error ? error.message : 'erreur inconnue'}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-slate-400" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead>
+                <tr className="border-b border-slate-200 text-[11px] uppercase tracking-wider text-slate-500">
+                  {COLUMNS.map((column) => {
+                    const isSorted = sort.key === column.key
+                    const SortIcon = !isSorted ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown
+                    return (
+                      <th key={column.key} className="px-4 py-2">
+                        <button
+                          type="button"
+                          onClick={() => toggleSort(column.key)}
+                          className={`inline-flex items-center gap-1 font-black uppercase ${isSorted ? 'text-slate-900' : ''}`}
+                        >
+                          {column.label}
+                          <SortIcon className="h-3 w-3" />
+                        </button>
+                      </th>
+                    )
+                  })}
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {sortedHotels.map((hotel) => (
+                  <PortfolioHotelRow
+                    key={hotel.hotelId}
+                    hotel={hotel}
+                    isActive={hotel.hotelId === activeHotelId}
+                    startDate={startDate}
+                    endDate={endDate}
+                    rms={config.rms}
+                    onSummary={handleSummary}
+                    onOpen={openHotel}
+                  />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  )
+}
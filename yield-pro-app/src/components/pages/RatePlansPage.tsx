@@ -0,0 +1,362 @@
+import React, { useMemo, useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { fr } from 'date-fns/locale'
+import { AlertTriangle, Layers, Loader2, Plus, Save, Trash2 } from 'lucide-react'
+import { useDashboardConfig } from '../../hooks/useDashboardConfig'
+import { useHotelRMSCalculations } from '../../hooks/useHotelRMSCalculations'
+import { usePlanningTarifs } from '../../hooks/usePlanningTarifs'
+import { useActiveHotelId } from '../../hooks/useHotels'
+import { EMPTY_OTA_CONFIG, useOtaConfig } from '../../hooks/useOtaConfig'
+import { useDateRangeStore } from '../../store/useDateRangeStore'
+import { formatCurrency } from '../../utils/formatters'
+import { orderByConfig } from '../../utils/otaConfig'
+import {
+  RATE_PLAN_ROUNDING_LABELS,
+  buildRatePlanMatrix,
+  extractPlanCode,
+  findRatePlanViolations,
+  type RatePlanDerivationSettings,
+  type RatePlanRounding,
+  type RatePlanRule,
+} from '../../utils/ratePlanRules'
+import { createRoomTypeDifferentialLookup } from '../../utils/rmsEngine'
+
+const MAX_VIOLATIONS_SHOWN = 200
+
+const describeRule = (rule: RatePlanRule) => {
+  const parts: string[] = []
+  if (rule.adjustmentPct) parts.push(`${rule.adjustmentPct > 0 ? '+' : ''}${rule.adjustmentPct}%`)
+  if (rule.adjustmentAmount) parts.push(`${rule.adjustmentAmount > 0 ? '+' : ''}${rule.adjustmentAmount} €`)
+  if (rule.breakfastCount) parts.push(`+${rule.breakfastCount} PDJ`)
+  if (rule.floor) parts.push(`min ${rule.floor} €`)
+  return parts.join(' ') || 'BAR'
+}
+
+export const RatePlansPage: React.FC = () => {
+  const { startDate, endDate } = useDateRangeStore()
+  const hotelId = useActiveHotelId()
+
+  const { config, savePartialConfig, updateConfig } = useDashboardConfig()
+  const { data: planningTarifs = [], isLoading: loadingPlanning } = usePlanningTarifs(hotelId, startDate, endDate)
+  const { data: otaConfig = EMPTY_OTA_CONFIG, isLoading: loadingOtaConfig } = useOtaConfig(hotelId)
+  // The BAR of a date is the grid's recommendation for it.
+  const { pricingSuggestions, roomTypes, isLoading: loadingRms } = useHotelRMSCalculations(hotelId, startDate, endDate)
+
+  // Unsaved edits live here; null means the page shows the saved rules.
+  const [draft, setDraft] = useState<RatePlanDerivationSettings | null>(null)
+  const [selectedDate, setSelectedDate] = useState('')
+  const [barOverride, setBarOverride] = useState<number | null>(null)
+  const settings = draft ?? config.rms.ratePlans
+
+  const updateDraft = (patch: Partial<RatePlanDerivationSettings>) => {
+    setDraft({ ...settings, ...patch })
+  }
+
+  const updateRule = (id: string, patch: Partial<RatePlanRule>) => {
+    updateDraft({ rules: settings.rules.map((rule) => (rule.id === id ? { ...rule, ...patch } : rule)) })
+  }
+
+  const addRule = () => {
+    updateDraft({
+      rules: [
+        ...settings.rules,
+        { id: `rule-${Date.now()}`, label: 'Nouvelle regle', pattern: '', adjustmentPct: 0, adjustmentAmount: 0, breakfastCount: 0, floor: 0 },
+      ],
+    })
+  }
+
+  const removeRule = (id: string) => {
+    updateDraft({ rules: settings.rules.filter((rule) => rule.id !== id) })
+  }
+
+  const saveRules = async () => {
+    if (!draft) return
+    await savePartialConfig({ rms: { ...config.rms, ratePlans: draft } })
+    setDraft(null)
+  }
+
+  const planCodes = useMemo(() => {
+    const fromPlanning = planningTarifs.map((row) => extractPlanCode(row.plan_tarifaire))
+    const fromConfig = otaConfig.planOrder.map((entry) => extractPlanCode(entry))
+    const codes = Array.from(new Set([...fromPlanning, ...fromConfig].filter(Boolean))).sort((a, b) => a.localeCompare(b))
+    return orderByConfig(codes, otaConfig.planOrder, extractPlanCode)
+  }, [otaConfig, planningTarifs])
+
+  const activeDate = selectedDate || pricingSuggestions[0]?.date || ''
+  const activeSuggestion = pricingSuggestions.find((item) => item.date === activeDate)
+  const bar = barOverride ?? activeSuggestion?.suggestedPrice ?? 0
+
+  const matrixRoomTypes = useMemo(() => {
+    const types = roomTypes.length > 0 ? orderByConfig(roomTypes, otaConfig.roomOrder) : [config.rms.baseRoomType]
+    const getDifferentialPct = createRoomTypeDifferentialLookup(config.rms)
+    return types.map((roomType) => ({ roomType, differentialPct: getDifferentialPct(roomType) }))
+  }, [config.rms, otaConfig, roomTypes])
+
+  const matrix = useMemo(
+    () => (bar > 0 ? buildRatePlanMatrix(bar, planCodes, matrixRoomTypes, settings) : []),
+    [bar, matrixRoomTypes, planCodes, settings]
+  )
+
+  const violations = useMemo(() => findRatePlanViolations(planningTarifs, settings), [planningTarifs, settings])
+  const violatedPlans = useMemo(() => new Set(violations.map((item) => item.planCode)), [violations])
+
+  return (
+    <div className="mx-auto max-w-[1400px] space-y-6">
+      <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h2 className="flex items-center gap-2 text-2xl font-black tracking-tight text-slate-900">
+              <Layers className="h-6 w-6 text-indigo-600" /> Plans tarifaires derives
+            </h2>
+            <p className="mt-1 text-sm text-slate-500">
+              Regles de derivation depuis le BAR ({settings.barPlanCode}) : remises, petits-dejeuners, arrondis et planchers.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {draft && (
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="rounded-xl border border-slate-200 bg-slate-50 px-4 py-2 text-xs font-black uppercase tracking-wide text-slate-700"
+              >
+                Annuler
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={saveRules}
+              disabled={!draft || updateConfig.isPending}
+              className="inline-flex items-center gap-2 rounded-xl bg-slate-900 px-4 py-2 text-xs font-black uppercase tracking-wide text-white disabled:opacity-50"
+            >
+              <Save className="h-4 w-4" /> Enregistrer
+            </button>
+          </div>
+        </div>
+
+        <div className="mt-5 grid grid-cols-1 gap-3 md:grid-cols-3">
+          <label className="rounded-xl border border-slate-200 bg-slate-50 p-3 text-sm font-semibold text-slate-700">
+            Plan BAR (reference)
+            <select
+              value={extractPlanCode(settings.barPlanCode)}
+              onChange={(e) => updateDraft({ barPlanCode: e.target.value })}
+              className="mt-2 w-full rounded-lg border border-slate-200 bg-white px-3 py-2"
+            >
+              {!planCodes.includes(extractPlanCode(settings.barPlanCode)) && (
+                <option value={extractPlanCode(settings.barPlanCode)}>{extractPlanCode(settings.barPlanCode)}</option>
+              )}
+              {planCodes.map((code) => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
+          </label>
+          <label className="rounded-xl border border-slate-200 bg-slate-50 p-3 text-sm font-semibold text-slate-700">
+            Prix petit-dejeuner (€ / pers.)
+            <input
+              type="number"
+              min={0}
+              value={settings.breakfastPrice}
+              onChange={(e) => updateDraft({ breakfastPrice: Math.max(0, Number(e.target.value)) })}
+              className="mt-2 w-full rounded-lg border border-slate-200 bg-white px-3 py-2"
+            />
+          </label>
+          <label className="rounded-xl border border-slate-200 bg-slate-50 p-3 text-sm font-semibold text-slate-700">
+            Arrondi
+            <select
+              value={settings.rounding}
+              onChange={(e) => updateDraft({ rounding: e.target.value as RatePlanRounding })}
+              className="mt-2 w-full rounded-lg border border-slate-200 bg-white px-3 py-2"
+            >
+              {(Object.keys(RATE_PLAN_ROUNDING_LABELS) as RatePlanRounding[]).map((key) => (
+                <option key={key} value={key}>{RATE_PLAN_ROUNDING_LABELS[key]}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="mt-5 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-200 text-left text-[11px] font-black uppercase tracking-wide text-slate-500">
+                <th className="px-2 py-2">Libelle</th>
+                <th className="px-2 py-2">Plans (motif, * = joker)</th>
+                <th className="px-2 py-2">Ajust. %</th>
+                <th className="px-2 py-2">Ajust. €</th>
+                <th className="px-2 py-2">Nb PDJ</th>
+                <th className="px-2 py-2">Plancher €</th>
+                <th className="px-2 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {settings.rules.map((rule) => (
+                <tr key={rule.id} className="border-b border-slate-100">
+                  <td className="px-2 py-2">
+                    <input value={rule.label} onChange={(e) => updateRule(rule.id, { label: e.target.value })} className="w-full rounded-lg border border-slate-200 px-2 py-1.5" />
+                  </td>
+                  <td className="px-2 py-2">
+                    <input value={rule.pattern} onChange={(e) => updateRule(rule.id, { pattern: e.target.value.toUpperCase() })} placeholder="OTA-*-NANR" className="w-full rounded-lg border border-slate-200 px-2 py-1.5 font-mono text-xs" />
+                  </td>
+                  <td className="px-2 py-2">
+                    <input type="number" value={rule.adjustmentPct} onChange={(e) => updateRule(rule.id, { adjustmentPct: Number(e.target.value) })} className="w-24 rounded-lg border border-slate-200 px-2 py-1.5" />
+                  </td>
+                  <td className="px-2 py-2">
+                    <input type="number" value={rule.adjustmentAmount} onChange={(e) => updateRule(rule.id, { adjustmentAmount: Number(e.target.value) })} className="w-24 rounded-lg border border-slate-200 px-2 py-1.5" />
+                  </td>
+                  <td className="px-2 py-2">
+                    <input type="number" min={0} value={rule.breakfastCount} onChange={(e) => updateRule(rule.id, { breakfastCount: Math.max(0, Number(e.target.value)) })} className="w-20 rounded-lg border border-slate-200 px-2 py-1.5" />
+                  </td>
+                  <td className="px-2 py-2">
+                    <input type="number" min={0} value={rule.floor} onChange={(e) => updateRule(rule.id, { floor: Math.max(0, Number(e.target.value)) })} className="w-24 rounded-lg border border-slate-200 px-2 py-1.5" />
+                  </td>
+                  <td className="px-2 py-2 text-right">
+                    <button type="button" onClick={() => removeRule(rule.id)} className="rounded-lg border border-rose-200 bg-rose-50 p-1.5 text-rose-700">
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button
+            type="button"
+            onClick={addRule}
+            className="mt-3 inline-flex items-center gap-2 rounded-xl border border-slate-200 bg-slate-50 px-3 py-2 text-xs font-black uppercase tracking-wide text-slate-700"
+          >
+            <Plus className="h-4 w-4" /> Ajouter une regle
+          </button>
+          <p className="mt-2 text-xs text-slate-500">
+            Toutes les regles qui correspondent a un plan s'appliquent : les % se cumulent, puis les montants et petits-dejeuners s'ajoutent, puis arrondi et plancher le plus haut.
+          </p>
+        </div>
+      </section>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h3 className="text-sm font-black uppercase tracking-[0.14em] text-slate-700">Matrice de prix</h3>
+            <p className="text-xs text-slate-500">BAR recommande par le moteur RMS, decline par plan et type de chambre.</p>
+          </div>
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="text-xs font-bold text-slate-600">
+              Date de sejour
+              <select
+                value={activeDate}
+                onChange={(e) => { setSelectedDate(e.target.value); setBarOverride(null) }}
+                className="mt-1 block rounded-lg border border-slate-200 px-2 py-1.5 text-sm"
+              >
+                {pricingSuggestions.map((item) => (
+                  <option key={item.date} value={item.date}>
+                    {format(parseISO(item.date), 'EEE dd/MM', { locale: fr })} · {Math.round(item.suggestedPrice)} €
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs font-bold text-slate-600">
+              BAR (€)
+              <input
+                type="number"
+                min={0}
+                value={Math.round(bar)}
+                onChange={(e) => setBarOverride(Math.max(0, Number(e.target.value)))}
+                className="mt-1 block w-28 rounded-lg border border-slate-200 px-2 py-1.5 text-sm"
+              />
+            </label>
+          </div>
+        </div>
+
+        {loadingOtaConfig || loadingRms ? (
+          <div className="flex items-center gap-2 p-6 text-sm text-slate-500">
+            <Loader2 className="h-4 w-4 animate-spin" /> Chargement du BAR et des plans distribues...
+          </div>
+        ) : matrix.length === 0 ? (
+          <p className="mt-4 rounded-xl border border-dashed border-slate-300 p-6 text-center text-sm text-slate-500">
+            Aucun BAR disponible sur la periode : saisissez un prix de reference.
+          </p>
+        ) : (
+          <div className="mt-4 max-h-[520px] overflow-auto">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-white">
+                <tr className="border-b border-slate-200 text-left text-[11px] font-black uppercase tracking-wide text-slate-500">
+                  <th className="px-2 py-2">Plan</th>
+                  <th className="px-2 py-2">Regles</th>
+                  {matrixRoomTypes.map((item) => (
+                    <th key={item.roomType} className="px-2 py-2 text-right">{item.roomType}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {matrix.map((row) => (
+                  <tr key={row.planCode} className="border-b border-slate-100">
+                    <td className="px-2 py-2 font-mono text-xs font-bold text-slate-800">
+                      {row.planCode}
+                      {violatedPlans.has(row.planCode) && <AlertTriangle className="ml-1 inline h-3.5 w-3.5 text-amber-500" />}
+                    </td>
+                    <td className="px-2 py-2 text-xs text-slate-500">
+                      {row.rules.length === 0 ? 'BAR' : row.rules.map((rule) => `${rule.label} (${describeRule(rule)})`).join(' · ')}
+                    </td>
+                    {matrixRoomTypes.map((item) => (
+                      <td key={item.roomType} className="px-2 py-2 text-right font-semibold text-slate-800">
+                        {formatCurrency(row.prices[item.roomType] ?? 0)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+        <h3 className="text-sm font-black uppercase tracking-[0.14em] text-slate-700">Ecarts dans planning_tarifs</h3>
+        <p className="text-xs text-slate-500">
+          Plans charges sur la periode dont le prix s'ecarte de plus de 1 € de leur regle, calcule depuis le BAR du meme jour et type.
+        </p>
+
+        {loadingPlanning ? (
+          <div className="flex items-center gap-2 p-6 text-sm text-slate-500">
+            <Loader2 className="h-4 w-4 animate-spin" /> Chargement du planning...
+          </div>
+        ) : violations.length === 0 ? (
+          <p className="mt-4 rounded-xl border border-emerald-200 bg-emerald-50 p-4 text-sm font-semibold text-emerald-700">
+            Tous les plans couverts par une regle sont conformes.
+          </p>
+        ) : (
+          <div className="mt-4 max-h-[480px] overflow-auto">
+            <p className="mb-2 text-xs font-bold text-amber-700">{violations.length} ecart(s) sur {violatedPlans.size} plan(s)</p>
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-white">
+                <tr className="border-b border-slate-200 text-left text-[11px] font-black uppercase tracking-wide text-slate-500">
+                  <th className="px-2 py-2">Date</th>
+                  <th className="px-2 py-2">Type</th>
+                  <th className="px-2 py-2">Plan</th>
+                  <th className="px-2 py-2 text-right">BAR</th>
+                  <th className="px-2 py-2 text-right">Attendu</th>
+                  <th className="px-2 py-2 text-right">Actuel</th>
+                  <th className="px-2 py-2 text-right">Ecart</th>
+                </tr>
+              </thead>
+              <tbody>
+                {violations.slice(0, MAX_VIOLATIONS_SHOWN).map((item) => (
+                  <tr key={`${item.date}-${item.roomType}-${item.planCode}`} className="border-b border-slate-100">
+                    <td className="px-2 py-2">{format(parseISO(item.date), 'dd/MM/yyyy')}</td>
+                    <td className="px-2 py-2">{item.roomType}</td>
+                    <td className="px-2 py-2 font-mono text-xs">{item.planCode}</td>
+                    <td className="px-2 py-2 text-right">{formatCurrency(item.bar)}</td>
+                    <td className="px-2 py-2 text-right">{formatCurrency(item.expected)}</td>
+                    <td className="px-2 py-2 text-right">{formatCurrency(item.actual)}</td>
+                    <td className={`px-2 py-2 text-right font-bold ${item.gap > 0 ? 'text-amber-700' : 'text-rose-700'}`}>
+                      {item.gap > 0 ? '+' : ''}{item.gap.toFixed(2)} €
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {violations.length > MAX_VIOLATIONS_SHOWN && (
+              <p className="mt-2 text-xs text-slate-500">{MAX_VIOLATIONS_SHOWN} premiers ecarts affiches.</p>
+            )}
+          </div>
+        )}
+      </section>
+    </div>
+  )
+}
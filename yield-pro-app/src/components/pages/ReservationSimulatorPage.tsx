@@ -3,19 +3,18 @@ import { addDays, differenceInCalendarDays, eachDayOfInterval, format } from 'da
 import { fr } from 'date-fns/locale'
 import { Calculator, RotateCcw } from 'lucide-react'
 import { useQueryClient } from '@tanstack/react-query'
-import otaConfig from '../../../config_ota_folkestone.json'
+import { useDashboardConfig } from '../../hooks/useDashboardConfig'
 import { usePlanningTarifs } from '../../hooks/usePlanningTarifs'
-import { useAuthStore } from '../../store/useAuthStore'
+import { useActiveHotelId } from '../../hooks/useHotels'
+import { EMPTY_OTA_CONFIG, useOtaConfig } from '../../hooks/useOtaConfig'
 import type { Database } from '../../types/database.types'
 import { formatCurrency } from '../../utils/formatters'
 import { getMetrics } from '../../utils/metricsLogger'
+import { getPartnerPlanCodes } from '../../utils/otaConfig'
+import { extractPlanCode } from '../../utils/ratePlanRules'
 
 type PlanningTarifRow = Database['public']['Tables']['planning_tarifs']['Row']
 
-type OtaConfig = {
-  partners: Record<string, { commission: number; codes: string[] }>
-  displayOrder: { rooms: string[]; plans: string[] }
-}
 type DiscountMode = 'night' | 'total'
 type DiscountPreset = {
   id: string
@@ -24,9 +23,6 @@ type DiscountPreset = {
   mode: DiscountMode
 }
 
-const typedOtaConfig = otaConfig as OtaConfig
-const DEFAULT_PLAN = 'OTA-RO-FLEX'
-const DEFAULT_ROOM = 'Double Classique'
 const DISCOUNT_STORAGE_KEY = 'yield_discount_presets_v1'
 
 const toISO = (date: Date) => format(date, 'yyyy-MM-dd')
@@ -36,16 +32,9 @@ const parseLocalDate = (value: string): Date => {
   return new Date(year, (month || 1) - 1, day || 1)
 }
 
-const normalizeText = (value: string | null | undefined): string => (value || '').trim().toUpperCase()
-
-const extractPlanCode = (value: string): string => {
-  const match = value.match(/\(([^)]+)\)/)
-  return normalizeText((match?.[1] || value).split(' - ')[0])
-}
-
 const matchesPlan = (candidate: string | null | undefined, targetCode: string): boolean => {
-  const left = normalizeText(candidate)
-  const right = normalizeText(targetCode)
+  const left = extractPlanCode(candidate)
+  const right = extractPlanCode(targetCode)
   if (!left || !right) return false
   return left === right || left.includes(right) || right.includes(left)
 }
@@ -67,22 +56,26 @@ const saveDiscountPresets = (presets: DiscountPreset[]) => {
 
 export const ReservationSimulatorPage: React.FC = () => {
   const queryClient = useQueryClient()
-  const { profile } = useAuthStore()
-  const hotelId = profile?.hotel_id || 'H2258'
+  const hotelId = useActiveHotelId()
+  const { config } = useDashboardConfig()
 
   const today = new Date()
   const [arrivalInput, setArrivalInput] = useState<string>(toISO(today))
   const [departureInput, setDepartureInput] = useState<string>(toISO(addDays(today, 30)))
 
-  const partnerNames = useMemo(() => Object.keys(typedOtaConfig.partners || {}), [])
+  const { data: otaConfig = EMPTY_OTA_CONFIG, isLoading: loadingOtaConfig } = useOtaConfig(hotelId)
+  const partnerNames = useMemo(() => otaConfig.partners.map((entry) => entry.partner), [otaConfig])
   const defaultOta = useMemo(() => {
     const booking = partnerNames.find((name) => name.toLowerCase().includes('booking.com'))
-    return booking || partnerNames[0] || 'Booking.com'
+    return booking || partnerNames[0] || ''
   }, [partnerNames])
 
-  const [ota, setOta] = useState<string>(defaultOta)
-  const [planTarifaire, setPlanTarifaire] = useState<string>(DEFAULT_PLAN)
-  const [roomType, setRoomType] = useState<string>(DEFAULT_ROOM)
+  const [selectedOta, setOta] = useState<string>('')
+  // The hotel's partners load after the first render and may not include the previous pick.
+  const ota = partnerNames.includes(selectedOta) ? selectedOta : defaultOta
+  // Empty until picked: the BAR plan and the base room type of the RMS settings apply.
+  const [planTarifaire, setPlanTarifaire] = useState<string>('')
+  const [roomType, setRoomType] = useState<string>('')
   const [applyCommission, setApplyCommission] = useState(true)
   const [discountMode, setDiscountMode] = useState<DiscountMode>('night')
   const [discountPercent, setDiscountPercent] = useState<number>(0)
@@ -94,20 +87,20 @@ export const ReservationSimulatorPage: React.FC = () => {
   const arrivalDate = useMemo(() => parseLocalDate(arrivalInput), [arrivalInput])
   const departureDate = useMemo(() => parseLocalDate(departureInput), [departureInput])
 
-  const { data: planningTarifs = [], isLoading } = usePlanningTarifs(hotelId, arrivalDate, departureDate)
+  const { data: planningTarifs = [], isLoading: loadingPlanning } = usePlanningTarifs(hotelId, arrivalDate, departureDate)
+  const isLoading = loadingPlanning || loadingOtaConfig
 
   const otaPlans = useMemo(() => {
-    const codes = typedOtaConfig.partners?.[ota]?.codes || []
-    return Array.from(new Set(codes.map((code) => normalizeText(code)).filter(Boolean)))
-  }, [ota])
+    const codes = getPartnerPlanCodes(otaConfig, ota)
+    return Array.from(new Set(codes.map((code) => extractPlanCode(code)).filter(Boolean)))
+  }, [ota, otaConfig])
 
   const displayOrderPlans = useMemo(() => {
-    const raw = typedOtaConfig.displayOrder?.plans || []
-    return Array.from(new Set(raw.map((entry) => extractPlanCode(entry)).filter(Boolean)))
-  }, [])
+    return Array.from(new Set(otaConfig.planOrder.map((entry) => extractPlanCode(entry)).filter(Boolean)))
+  }, [otaConfig])
 
   const planningPlanCodes = useMemo(() => {
-    return Array.from(new Set(planningTarifs.map((row) => normalizeText(row.plan_tarifaire)).filter(Boolean)))
+    return Array.from(new Set(planningTarifs.map((row) => extractPlanCode(row.plan_tarifaire)).filter(Boolean)))
   }, [planningTarifs])
 
   const availablePlans = useMemo(() => {
@@ -120,26 +113,30 @@ export const ReservationSimulatorPage: React.FC = () => {
 
   const availableRoomTypes = useMemo(() => {
     const fromPlanning = Array.from(new Set(planningTarifs.map((row) => row.type_de_chambre).filter((v): v is string => Boolean(v))))
-    const configured = typedOtaConfig.displayOrder?.rooms || []
-    const orderedConfigured = configured.filter((room) => fromPlanning.length === 0 || fromPlanning.includes(room))
+    const orderedConfigured = otaConfig.roomOrder.filter((room) => fromPlanning.length === 0 || fromPlanning.includes(room))
     const remaining = fromPlanning.filter((room) => !orderedConfigured.includes(room))
     return [...orderedConfigured, ...remaining]
-  }, [planningTarifs])
+  }, [otaConfig, planningTarifs])
 
   const effectivePlanTarifaire = useMemo(() => {
-    const normalizedCurrent = normalizeText(planTarifaire)
+    const defaultPlan = extractPlanCode(config.rms.ratePlans.barPlanCode)
+    const normalizedCurrent = extractPlanCode(planTarifaire) || defaultPlan
     if (availablePlans.length === 0) return normalizedCurrent
     if (availablePlans.some((plan) => matchesPlan(plan, normalizedCurrent))) return normalizedCurrent
-    return availablePlans.includes(DEFAULT_PLAN) ? DEFAULT_PLAN : availablePlans[0]
-  }, [availablePlans, planTarifaire])
+    return availablePlans.includes(defaultPlan) ? defaultPlan : availablePlans[0]
+  }, [availablePlans, config.rms.ratePlans.barPlanCode, planTarifaire])
 
   const effectiveRoomType = useMemo(() => {
-    if (availableRoomTypes.length === 0) return roomType
+    const defaultRoom = [config.rms.baseRoomType, otaConfig.roomOrder[0]].find((room) => room && availableRoomTypes.includes(room))
+    if (availableRoomTypes.length === 0) return roomType || config.rms.baseRoomType
     if (availableRoomTypes.includes(roomType)) return roomType
-    return availableRoomTypes.includes(DEFAULT_ROOM) ? DEFAULT_ROOM : availableRoomTypes[0]
-  }, [availableRoomTypes, roomType])
+    return defaultRoom ?? availableRoomTypes[0]
+  }, [availableRoomTypes, config.rms.baseRoomType, otaConfig, roomType])
 
-  const commissionRate = useMemo(() => typedOtaConfig.partners?.[ota]?.commission || 0, [ota])
+  const commissionRate = useMemo(
+    () => otaConfig.partners.find((entry) => entry.partner === ota)?.commissionPct ?? 0,
+    [ota, otaConfig]
+  )
 
   const simulation = useMemo(() => {
     const safeDeparture = departureDate > arrivalDate ? departureDate : addDays(arrivalDate, 1)
@@ -290,6 +287,7 @@ export const ReservationSimulatorPage: React.FC = () => {
           <label className="rounded-xl border border-slate-200 bg-slate-50 p-3 text-sm font-semibold text-slate-700">
             OTA
             <select className="mt-2 w-full rounded-lg border border-slate-200 bg-white px-3 py-2" value={ota} onChange={(e) => setOta(e.target.value)}>
+              {partnerNames.length === 0 && <option value="">{loadingOtaConfig ? 'Chargement...' : 'Aucun partenaire configure'}</option>}
               {partnerNames.map((name) => <option key={name} value={name}>{name}</option>)}
             </select>
           </label>
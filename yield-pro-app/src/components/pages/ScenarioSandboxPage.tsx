@@ -0,0 +1,470 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { addDays, format, parseISO } from 'date-fns'
+import { fr } from 'date-fns/locale'
+import { CheckCircle2, FlaskConical, Loader2, RefreshCcw, Rocket, Save, Trash2 } from 'lucide-react'
+import { useBookingApercu, useBookingExport } from '../../hooks/useBookingData'
+import { useDashboardConfig, type RMSSettings } from '../../hooks/useDashboardConfig'
+import { useDisponibilites, useEvents, useReservations } from '../../hooks/useHotelData'
+import { DEFAULT_HOTEL_ID, useActiveHotelId } from '../../hooks/useHotels'
+import { usePermissions } from '../../hooks/usePermissions'
+import { useRMSCalculations } from '../../hooks/useRMSCalculations'
+import {
+  useDeleteRmsScenario,
+  useMarkScenarioPromoted,
+  useRmsScenarios,
+  useSaveRmsScenario,
+  type RmsScenario,
+} from '../../hooks/useRmsScenarios'
+import { useAuthStore } from '../../store/useAuthStore'
+import { useDateRangeStore } from '../../store/useDateRangeStore'
+import type { HotelEvent, InventoryDay, MarketDay, Reservation } from '../../types/domain'
+import { STLY_OFFSET_DAYS } from '../../utils/bookingPace'
+import { formatCurrency } from '../../utils/formatters'
+import {
+  SCENARIO_SETTING_LABELS,
+  applyScenarioSettings,
+  compareScenarioDecisions,
+  describePricingCalendar,
+  getChangedScenarioSettings,
+  type ScenarioSummary,
+} from '../../utils/scenarioSimulation'
+
+const MAX_COMPARED_SCENARIOS = 3
+
+type SandboxData = {
+  reservations: Reservation[]
+  inventory: InventoryDay[]
+  apercu: MarketDay[]
+  events: HotelEvent[]
+  historicalReservations: Reservation[]
+}
+
+const formatSigned = (value: number, formatter: (value: number) => string) => `${value > 0 ? '+' : ''}${formatter(value)}`
+
+const formatSettingValue = (settings: RMSSettings, key: keyof RMSSettings, suffix = '') => {
+  const value = settings[key]
+  if (key === 'calendar') return settings.calendar ? describePricingCalendar(settings.calendar) : '-'
+  if (typeof value === 'number') return `${Number.isInteger(value) ? value : value.toFixed(2)}${suffix}`
+  return String(value)
+}
+
+type ScenarioRunProps = {
+  scenario: RmsScenario
+  data: SandboxData
+  liveDecisions: ReturnType<typeof useRMSCalculations>['dailyDecisions']
+  onResult: (scenarioId: string, summary: ScenarioSummary) => void
+}
+
+/** Runs the RMS engine with a saved scenario over the sandbox data and reports the comparison. */
+const ScenarioRun: React.FC<ScenarioRunProps> = ({ scenario, data, liveDecisions, onResult }) => {
+  const { dailyDecisions } = useRMSCalculations(
+    data.reservations,
+    data.inventory,
+    data.apercu,
+    scenario.settings,
+    data.events,
+    data.historicalReservations
+  )
+
+  useEffect(() => {
+    onResult(scenario.id, compareScenarioDecisions(liveDecisions, dailyDecisions))
+  }, [dailyDecisions, liveDecisions, onResult, scenario.id])
+
+  return null
+}
+
+const NumberSetting: React.FC<{ label: string; value: number; step?: number; suffix?: string; onChange: (value: number) => void }> = ({
+  label,
+  value,
+  step = 1,
+  suffix,
+  onChange,
+}) => (
+  <label className="flex items-center justify-between gap-3 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-700">
+    <span>{label}{suffix ? ` (${suffix})` : ''}</span>
+    <input
+      type="number"
+      step={step}
+      value={value}
+      onChange={(event) => onChange(Number(event.target.value))}
+      className="w-24 rounded-lg border border-slate-200 px-2 py-1 text-right"
+    />
+  </label>
+)
+
+export const ScenarioSandboxPage: React.FC = () => {
+  const { profile } = useAuthStore()
+  const { startDate, endDate } = useDateRangeStore()
+  const hotelId = useActiveHotelId()
+  // Promoting writes the user's RMS settings, checked against their default hotel like the Studio RMS.
+  const { can: canOnDefaultHotel } = usePermissions(profile?.hotel_id || DEFAULT_HOTEL_ID)
+  const canEditRms = canOnDefaultHotel('edit_rms_settings')
+  const { config, isLoading: loadingConfig, savePartialConfig, updateConfig } = useDashboardConfig()
+
+  const { data: apercuData } = useBookingApercu(hotelId, startDate, endDate)
+  const { data: reservationsData } = useReservations(hotelId, startDate, endDate)
+  const { data: disponibilitesData } = useDisponibilites(hotelId, startDate, endDate)
+  const { data: eventsData } = useEvents(hotelId, startDate, endDate)
+  const { data: bookingExportStlyData } = useBookingExport(
+    hotelId,
+    addDays(startDate, -STLY_OFFSET_DAYS),
+    addDays(endDate, -STLY_OFFSET_DAYS)
+  )
+  const isLoaded = !!apercuData && !!reservationsData && !!disponibilitesData
+
+  const data: SandboxData = useMemo(() => ({
+    reservations: reservationsData?.items || [],
+    inventory: disponibilitesData?.items || [],
+    apercu: apercuData?.items || [],
+    events: eventsData?.items || [],
+    historicalReservations: bookingExportStlyData?.items || [],
+  }), [apercuData, bookingExportStlyData, disponibilitesData, eventsData, reservationsData])
+
+  const { data: scenarios = [], isLoading: loadingScenarios } = useRmsScenarios(hotelId)
+  const saveScenario = useSaveRmsScenario(hotelId)
+  const deleteScenario = useDeleteRmsScenario(hotelId)
+  const markPromoted = useMarkScenarioPromoted(hotelId)
+
+  // Until edited, the draft follows the live settings.
+  const [draftOverride, setDraftOverride] = useState<RMSSettings | null>(null)
+  const draft = draftOverride ?? config.rms
+  const [scenarioName, setScenarioName] = useState('')
+  const [comparedIds, setComparedIds] = useState<string[]>([])
+  const [results, setResults] = useState<Record<string, ScenarioSummary>>({})
+  const [promotedName, setPromotedName] = useState<string | null>(null)
+
+  const live = useRMSCalculations(data.reservations, data.inventory, data.apercu, config.rms, data.events, data.historicalReservations)
+  const simulated = useRMSCalculations(data.reservations, data.inventory, data.apercu, draft, data.events, data.historicalReservations)
+  const draftSummary = useMemo(
+    () => compareScenarioDecisions(live.dailyDecisions, simulated.dailyDecisions),
+    [live.dailyDecisions, simulated.dailyDecisions]
+  )
+  const draftChanges = useMemo(() => getChangedScenarioSettings(config.rms, draft), [config.rms, draft])
+
+  const comparedScenarios = useMemo(
+    () => scenarios.filter((scenario) => comparedIds.includes(scenario.id)),
+    [comparedIds, scenarios]
+  )
+
+  const handleResult = useCallback((scenarioId: string, summary: ScenarioSummary) => {
+    setResults((prev) => ({ ...prev, [scenarioId]: summary }))
+  }, [])
+
+  const updateDraft = (patch: Partial<RMSSettings>) => {
+    setPromotedName(null)
+    setDraftOverride({ ...draft, ...patch })
+  }
+
+  const toggleCompared = (scenarioId: string) => {
+    setComparedIds((prev) => prev.includes(scenarioId)
+      ? prev.filter((id) => id !== scenarioId)
+      : [...prev, scenarioId].slice(-MAX_COMPARED_SCENARIOS))
+  }
+
+  const submitScenario = () => {
+    if (!scenarioName.trim()) return
+    saveScenario.mutate({ name: scenarioName, settings: draft }, { onSuccess: () => setScenarioName('') })
+  }
+
+  const promoteScenario = async (scenario: RmsScenario) => {
+    if (!window.confirm(`Appliquer le scenario "${scenario.name}" aux parametres RMS actifs ?`)) return
+    try {
+      await savePartialConfig({ rms: applyScenarioSettings(config.rms, scenario.settings) })
+      await markPromoted.mutateAsync(scenario.id)
+    } catch {
+      // The mutation error is rendered above the sandbox.
+      return
+    }
+    setDraftOverride(null)
+    setPromotedName(scenario.name)
+  }
+
+  const summaryColumns = [
+    { id: 'draft', label: 'Brouillon', settings: draft, summary: draftSummary },
+    ...comparedScenarios.map((scenario) => ({ id: scenario.id, label: scenario.name, settings: scenario.settings, summary: results[scenario.id] })),
+  ]
+
+  if (loadingConfig) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-slate-400" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="mx-auto max-w-[1400px] space-y-6">
+      {comparedScenarios.map((scenario) => (
+        <ScenarioRun key={scenario.id} scenario={scenario} data={data} liveDecisions={live.dailyDecisions} onResult={handleResult} />
+      ))}
+
+      <section className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-col gap-3 lg:flex-row lg:items-end lg:justify-between">
+          <div>
+            <div className="mb-2 flex items-center gap-2">
+              <FlaskConical className="h-5 w-5 text-slate-700" />
+              <h2 className="text-3xl font-black tracking-tight text-slate-900">Sandbox RMS</h2>
+            </div>
+            <p className="text-sm text-slate-500">
+              Rejoue le moteur RMS sur la periode selectionnee avec des parametres de test, sans toucher aux parametres actifs du{' '}
+              <Link to="/settings" className="font-semibold text-slate-700 underline">Studio RMS</Link>.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => setDraftOverride(null)}
+            disabled={!draftOverride}
+            className="inline-flex items-center gap-2 rounded-xl border border-slate-200 px-4 py-2 text-xs font-bold uppercase tracking-wide text-slate-700 disabled:opacity-40"
+          >
+            <RefreshCcw className="h-4 w-4" /> Repartir des parametres actifs
+          </button>
+        </div>
+      </section>
+
+      {promotedName && (
+        <div className="flex items-center gap-2 rounded-xl border border-emerald-200 bg-emerald-50 p-3 text-sm font-semibold text-emerald-700">
+          <CheckCircle2 className="h-4 w-4" />
+          Scenario "{promotedName}" applique aux parametres RMS actifs.
+        </div>
+      )}
+      {(updateConfig.isError || markPromoted.isError) && (
+        <div className="rounded-xl border border-rose-200 bg-rose-50 p-3 text-sm font-semibold text-rose-700">
+          {((updateConfig.error || markPromoted.error) as Error).message}
+        </div>
+      )}
+
+      <section className="grid grid-cols-1 gap-6 lg:grid-cols-[380px_minmax(0,1fr)]">
+        <div className="space-y-3 rounded-2xl border border-slate-200 bg-slate-50/70 p-5">
+          <h3 className="text-sm font-black uppercase tracking-[0.16em] text-slate-700">Parametres du brouillon</h3>
+          <label className="flex items-center justify-between gap-3 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-700">
+            Strategie
+            <select
+              value={draft.strategy}
+              onChange={(event) => updateDraft({ strategy: event.target.value as RMSSettings['strategy'] })}
+              className="rounded-lg border border-slate-200 px-2 py-1"
+            >
+              <option value="conservative">conservative</option>
+              <option value="balanced">balanced</option>
+              <option value="aggressive">aggressive</option>
+            </select>
+          </label>
+          {SCENARIO_SETTING_LABELS.filter(({ key }) => key !== 'strategy' && key !== 'calendar').map(({ key, label, suffix }) => (
+            <NumberSetting
+              key={key}
+              label={label}
+              suffix={suffix}
+              step={key.endsWith('Weight') ? 0.01 : 1}
+              value={draft[key] as number}
+              onChange={(value) => updateDraft({ [key]: value })}
+            />
+          ))}
+          <p className="text-xs text-slate-500">
+            Calendrier tarifaire: {describePricingCalendar(draft.calendar)}. Il se regle dans le{' '}
+            <Link to="/settings" className="font-semibold text-slate-700 underline">Studio RMS</Link> et suit le scenario a la promotion.
+          </p>
+          <p className="text-xs text-slate-500">
+            {draftChanges.length > 0 ? `Modifie: ${draftChanges.join(', ')}` : 'Identique aux parametres actifs.'}
+          </p>
+
+          <div className="flex items-center gap-2 pt-2">
+            <input
+              value={scenarioName}
+              onChange={(event) => setScenarioName(event.target.value)}
+              placeholder="Nom du scenario"
+              className="min-w-0 flex-1 rounded-lg border border-slate-200 px-3 py-2 text-sm"
+            />
+            <button
+              type="button"
+              onClick={submitScenario}
+              disabled={!scenarioName.trim() || saveScenario.isPending}
+              className="inline-flex items-center gap-2 rounded-xl bg-slate-900 px-3 py-2 text-xs font-black uppercase tracking-wide text-white disabled:opacity-40"
+            >
+              <Save className="h-4 w-4" /> Enregistrer
+            </button>
+          </div>
+          {saveScenario.isError && <p className="text-xs font-bold text-rose-600">{(saveScenario.error as Error).message}</p>}
+        </div>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+            {[
+              { label: 'Dates modifiees', value: `${draftSummary.changedDays} / ${draftSummary.days.length}` },
+              { label: 'Variation moyenne', value: `${formatSigned(draftSummary.averageMove, formatCurrency)} (${formatSigned(draftSummary.averageMovePct, (value) => `${value.toFixed(1)}%`)})` },
+              { label: 'CA prevu actif', value: formatCurrency(draftSummary.liveRevenue) },
+              { label: 'Impact CA prevu', value: `${formatSigned(draftSummary.revenueImpact, formatCurrency)} (${formatSigned(draftSummary.revenueImpactPct, (value) => `${value.toFixed(1)}%`)})` },
+            ].map((tile) => (
+              <div key={tile.label} className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm">
+                <p className="text-[11px] font-bold uppercase tracking-[0.18em] text-slate-500">{tile.label}</p>
+                <p className="mt-1 text-lg font-black tracking-tight text-slate-900">{tile.value}</p>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500">
+            CA prevu = chambres prevues x tarif recommande pour chaque date. La prevision ne reagit pas au prix: l'impact mesure l'effet tarif seul.
+          </p>
+
+          <div className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+            <h3 className="mb-3 text-sm font-black uppercase tracking-[0.16em] text-slate-700">Tarif recommande par date</h3>
+            {!isLoaded ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-slate-400" />
+              </div>
+            ) : (
+              <div className="max-h-[520px] overflow-auto">
+                <table className="w-full text-left text-sm">
+                  <thead className="sticky top-0 bg-white">
+                    <tr className="border-b border-slate-200 text-[11px] uppercase tracking-wider text-slate-500">
+                      <th className="px-3 py-2">Date</th>
+                      <th className="px-3 py-2">BAR actuel</th>
+                      <th className="px-3 py-2">Ch. prevues</th>
+                      <th className="px-3 py-2">Reco active</th>
+                      <th className="px-3 py-2">Reco brouillon</th>
+                      <th className="px-3 py-2">Ecart</th>
+                      {comparedScenarios.map((scenario) => (
+                        <th key={scenario.id} className="px-3 py-2">{scenario.name}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {draftSummary.days.map((day) => (
+                      <tr key={day.date} className={`border-b border-slate-100 ${Math.round(day.move) !== 0 ? 'bg-amber-50/50' : ''}`}>
+                        <td className="px-3 py-2 font-semibold text-slate-800">{format(parseISO(day.date), 'EEE dd MMM', { locale: fr })}</td>
+                        <td className="px-3 py-2 text-slate-600">{formatCurrency(day.currentPrice)}</td>
+                        <td className="px-3 py-2 text-slate-600">{day.forecastRooms.toFixed(1)}</td>
+                        <td className="px-3 py-2 font-semibold text-slate-800">{formatCurrency(day.livePrice)}</td>
+                        <td className="px-3 py-2 font-semibold text-slate-900">{formatCurrency(day.scenarioPrice)}</td>
+                        <td className={`px-3 py-2 font-bold ${day.move > 0 ? 'text-emerald-600' : day.move < 0 ? 'text-rose-600' : 'text-slate-400'}`}>
+                          {formatSigned(day.move, formatCurrency)}
+                        </td>
+                        {comparedScenarios.map((scenario) => {
+                          const scenarioDay = results[scenario.id]?.days.find((row) => row.date === day.date)
+                          return (
+                            <td key={scenario.id} className="px-3 py-2 text-slate-700">
+                              {scenarioDay ? formatCurrency(scenarioDay.scenarioPrice) : '-'}
+                            </td>
+                          )
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </section>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+        <div className="mb-3 flex items-center justify-between">
+          <h3 className="text-sm font-black uppercase tracking-[0.16em] text-slate-700">Scenarios enregistres</h3>
+          <p className="text-xs font-semibold text-slate-500">Comparer jusqu'a {MAX_COMPARED_SCENARIOS} scenarios</p>
+        </div>
+        {loadingScenarios ? (
+          <Loader2 className="h-5 w-5 animate-spin text-slate-400" />
+        ) : scenarios.length === 0 ? (
+          <p className="rounded-xl border border-dashed border-slate-300 p-6 text-center text-sm text-slate-500">
+            Aucun scenario enregistre pour cet hotel.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {scenarios.map((scenario) => (
+              <div key={scenario.id} className="flex flex-wrap items-center gap-3 rounded-xl border border-slate-200 p-3">
+                <label className="flex items-center gap-2 text-sm font-semibold text-slate-800">
+                  <input type="checkbox" checked={comparedIds.includes(scenario.id)} onChange={() => toggleCompared(scenario.id)} />
+                  {scenario.name}
+                </label>
+                <span className="text-xs text-slate-500">
+                  Modifie le {format(parseISO(scenario.updatedAt), 'dd MMM yyyy HH:mm', { locale: fr })}
+                  {scenario.promotedAt && ` - applique le ${format(parseISO(scenario.promotedAt), 'dd MMM yyyy HH:mm', { locale: fr })}`}
+                </span>
+                <div className="ml-auto flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setDraftOverride(scenario.settings)
+                      setScenarioName(scenario.name)
+                    }}
+                    className="rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-bold text-slate-700 hover:bg-slate-50"
+                  >
+                    Charger
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => promoteScenario(scenario)}
+                    disabled={!canEditRms || updateConfig.isPending}
+                    title={canEditRms ? undefined : 'Permission edit_rms_settings requise'}
+                    className="inline-flex items-center gap-1 rounded-lg bg-slate-900 px-3 py-1.5 text-xs font-bold text-white hover:bg-slate-700 disabled:opacity-40"
+                  >
+                    <Rocket className="h-3 w-3" /> Appliquer
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      if (!window.confirm(`Supprimer le scenario "${scenario.name}" ?`)) return
+                      deleteScenario.mutate(scenario.id)
+                      setComparedIds((prev) => prev.filter((id) => id !== scenario.id))
+                    }}
+                    disabled={deleteScenario.isPending}
+                    className="rounded-lg p-1.5 text-slate-400 hover:bg-rose-50 hover:text-rose-600"
+                    title="Supprimer"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {summaryColumns.length > 1 && (
+          <div className="mt-5 overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead>
+                <tr className="border-b border-slate-200 text-[11px] uppercase tracking-wider text-slate-500">
+                  <th className="px-3 py-2" />
+                  <th className="px-3 py-2">Actif</th>
+                  {summaryColumns.map((column) => (
+                    <th key={column.id} className="px-3 py-2">{column.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {SCENARIO_SETTING_LABELS.map(({ key, label, suffix }) => (
+                  <tr key={key} className="border-b border-slate-100">
+                    <td className="px-3 py-1.5 text-xs font-semibold text-slate-500">{label}</td>
+                    <td className="px-3 py-1.5 text-slate-700">{formatSettingValue(config.rms, key, suffix)}</td>
+                    {summaryColumns.map((column) => {
+                      const isChanged = JSON.stringify(column.settings[key]) !== JSON.stringify(config.rms[key])
+                      return (
+                        <td key={column.id} className={`px-3 py-1.5 ${isChanged ? 'font-bold text-slate-900' : 'text-slate-500'}`}>
+                          {formatSettingValue(column.settings, key, suffix)}
+                        </td>
+                      )
+                    })}
+                  </tr>
+                ))}
+                {[
+                  { label: 'Dates modifiees', render: (summary: ScenarioSummary) => String(summary.changedDays) },
+                  { label: 'Variation moyenne', render: (summary: ScenarioSummary) => formatSigned(summary.averageMove, formatCurrency) },
+                  { label: 'CA prevu', render: (summary: ScenarioSummary) => formatCurrency(summary.scenarioRevenue) },
+                  { label: 'Impact CA prevu', render: (summary: ScenarioSummary) => `${formatSigned(summary.revenueImpact, formatCurrency)} (${formatSigned(summary.revenueImpactPct, (value) => `${value.toFixed(1)}%`)})` },
+                ].map((metric) => (
+                  <tr key={metric.label} className="border-b border-slate-100 bg-slate-50/60">
+                    <td className="px-3 py-2 text-xs font-black uppercase text-slate-600">{metric.label}</td>
+                    <td className="px-3 py-2 text-slate-500">-</td>
+                    {summaryColumns.map((column) => (
+                      <td key={column.id} className="px-3 py-2 font-semibold text-slate-900">
+                        {column.summary ? metric.render(column.summary) : '-'}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  )
+}
@@ -1,55 +1,100 @@
-import React, { useMemo } from 'react'
-import { format } from 'date-fns'
+import React, { useMemo, useState } from 'react'
+import { addDays, differenceInCalendarDays, format, subYears } from 'date-fns'
 import { fr } from 'date-fns/locale'
-import { AlertTriangle, Gauge, Sparkles, TrendingUp } from 'lucide-react'
-import { useAuthStore } from '../../store/useAuthStore'
+import { AlertTriangle, Gauge, Layers, Sparkles, TrendingUp } from 'lucide-react'
+import { useActiveHotelId } from '../../hooks/useHotels'
 import { useDateRangeStore } from '../../store/useDateRangeStore'
 import { useBookingApercu, useBookingExport } from '../../hooks/useBookingData'
 import { useDisponibilites, useEvents } from '../../hooks/useHotelData'
-import { useCompetitorRates, useCompetitorRatesVs3j, useCompetitorRatesVs7j } from '../../hooks/useCompetitorData'
+import { useCompetitorRates, useCompetitorRatesVs3j, useCompetitorRatesVs7j, useCompset } from '../../hooks/useCompetitorData'
 import { useRMSCalculations } from '../../hooks/useRMSCalculations'
 import { formatCurrency } from '../../utils/formatters'
 import { buildTrendSeries } from '../../utils/competitorTrends'
+import {
+  SEGMENT_DIMENSION_LABELS,
+  buildSegmentComparison,
+  summarizeSegments,
+  type SegmentDimension
+} from '../../utils/segmentAnalytics'
+
+const formatDelta = (value: number | null) => {
+  if (value === null) return '-'
+  return `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`
+}
+
+const getDeltaClass = (value: number | null) => {
+  if (value === null || Math.abs(value) < 0.05) return 'text-slate-400'
+  return value > 0 ? 'text-emerald-600' : 'text-rose-600'
+}
 
 export const YieldAnalysisPage: React.FC = () => {
-  const { profile } = useAuthStore()
   const { startDate, endDate } = useDateRangeStore()
-  const hotelId = profile?.hotel_id || 'H2258'
+  const hotelId = useActiveHotelId()
+
+  const { data: bookingExportData } = useBookingExport(hotelId, startDate, endDate)
+  const { data: bookingApercuData } = useBookingApercu(hotelId, startDate, endDate)
+  const { data: disponibilitesData } = useDisponibilites(hotelId, startDate, endDate)
+  const { data: eventsData } = useEvents(hotelId, startDate, endDate)
+  const { data: competitorRatesData } = useCompetitorRates(hotelId, startDate, endDate)
+  const { data: competitorRatesVs3jData } = useCompetitorRatesVs3j(hotelId, startDate, endDate)
+  const { data: competitorRatesVs7jData } = useCompetitorRatesVs7j(hotelId, startDate, endDate)
+  const compset = useCompset(hotelId)
 
-  const { data: bookingExport = [] } = useBookingExport(hotelId, startDate, endDate)
-  const { data: bookingApercu = [] } = useBookingApercu(hotelId, startDate, endDate)
-  const { data: disponibilites = [] } = useDisponibilites(hotelId, startDate, endDate)
-  const { data: events = [] } = useEvents(hotelId, startDate, endDate)
-  const { data: competitorRates = [] } = useCompetitorRates(hotelId, startDate, endDate)
-  const { data: competitorRatesVs3j = [] } = useCompetitorRatesVs3j(hotelId, startDate, endDate)
-  const { data: competitorRatesVs7j = [] } = useCompetitorRatesVs7j(hotelId, startDate, endDate)
+  const [segmentDimension, setSegmentDimension] = useState<SegmentDimension>('channel')
+  const comparisonWindows = useMemo(() => {
+    const spanDays = differenceInCalendarDays(endDate, startDate) + 1
+    return {
+      lastYearStart: subYears(startDate, 1),
+      lastYearEnd: subYears(endDate, 1),
+      previousStart: addDays(startDate, -spanDays),
+      previousEnd: addDays(startDate, -1),
+    }
+  }, [startDate, endDate])
+  const { data: bookingExportLastYearData } = useBookingExport(hotelId, comparisonWindows.lastYearStart, comparisonWindows.lastYearEnd)
+  const { data: bookingExportPreviousData } = useBookingExport(hotelId, comparisonWindows.previousStart, comparisonWindows.previousEnd)
+  const bookingExport = useMemo(() => bookingExportData?.items ?? [], [bookingExportData])
+  const bookingExportLastYear = useMemo(() => bookingExportLastYearData?.items ?? [], [bookingExportLastYearData])
+  const bookingExportPrevious = useMemo(() => bookingExportPreviousData?.items ?? [], [bookingExportPreviousData])
+  const bookingApercu = useMemo(() => bookingApercuData?.items ?? [], [bookingApercuData])
 
   const { kpis, pricingSuggestions, alerts } = useRMSCalculations(
-    bookingExport as never[],
-    disponibilites,
-    bookingApercu as never[],
+    bookingExport,
+    disponibilitesData?.items ?? [],
+    bookingApercu,
     undefined,
-    events
+    eventsData?.items ?? [],
+    bookingExportLastYear
   )
 
   const trend = useMemo(
     () =>
       buildTrendSeries(
-        competitorRates as Record<string, unknown>[],
-        competitorRatesVs3j as Record<string, unknown>[],
-        competitorRatesVs7j as Record<string, unknown>[]
+        competitorRatesData?.items ?? [],
+        competitorRatesVs3jData?.items ?? [],
+        competitorRatesVs7jData?.items ?? [],
+        compset.isInCompset
       ),
-    [competitorRates, competitorRatesVs3j, competitorRatesVs7j]
+    [competitorRatesData, competitorRatesVs3jData, competitorRatesVs7jData, compset]
+  )
+
+  const segmentRows = useMemo(
+    () => buildSegmentComparison(bookingExport, bookingExportLastYear, bookingExportPrevious, segmentDimension),
+    [bookingExport, bookingExportLastYear, bookingExportPrevious, segmentDimension]
+  )
+
+  const segmentTotals = useMemo(
+    () => ({
+      current: summarizeSegments(bookingExport),
+      lastYear: summarizeSegments(bookingExportLastYear),
+      previous: summarizeSegments(bookingExportPrevious),
+    }),
+    [bookingExport, bookingExportLastYear, bookingExportPrevious]
   )
 
   const apercuDemand = useMemo(() => {
     if (bookingApercu.length === 0) return 0
-    const total = bookingApercu.reduce((sum, row) => {
-      const r = row as Record<string, unknown>
-      const d = typeof r.market_demand === 'number' ? r.market_demand : (typeof r['Demande du marché'] === 'number' ? r['Demande du marché'] : 0)
-      return sum + d
-    }, 0)
-    return (total / bookingApercu.length) * 100
+    const total = bookingApercu.reduce((sum, day) => sum + (day.marketDemand ?? 0), 0)
+    return total / bookingApercu.length
   }, [bookingApercu])
 
   return (
@@ -65,7 +110,7 @@ export const YieldAnalysisPage: React.FC = () => {
       </section>
 
       <section className="grid grid-cols-2 gap-3 md:grid-cols-5">
-        <div className="rounded-xl bg-slate-50 p-4"><p className="text-xs text-slate-500">Occupation</p><p className="text-2xl font-black">{kpis.occupancyRate.toFixed(1)}%</p></div>
+        <div className="rounded-xl bg-slate-50 p-4"><p className="text-xs text-slate-500">Occupation</p><p className="text-2xl font-black">{kpis.occupancyRate.toFixed(1)}%</p><p className="text-[11px] text-slate-500">Prevision {kpis.projectedOccupancy.toFixed(0)}% ({kpis.projectedOccupancyLow.toFixed(0)}-{kpis.projectedOccupancyHigh.toFixed(0)}%)</p></div>
         <div className="rounded-xl bg-slate-50 p-4"><p className="text-xs text-slate-500">ADR</p><p className="text-2xl font-black">{formatCurrency(kpis.adr)}</p></div>
         <div className="rounded-xl bg-slate-50 p-4"><p className="text-xs text-slate-500">RevPAR</p><p className="text-2xl font-black">{formatCurrency(kpis.revpar)}</p></div>
         <div className="rounded-xl bg-cyan-50 p-4"><p className="text-xs text-cyan-700">Demande moyenne</p><p className="text-2xl font-black text-cyan-800">{apercuDemand.toFixed(0)}%</p></div>
@@ -81,6 +126,84 @@ export const YieldAnalysisPage: React.FC = () => {
         <div className="rounded-xl bg-cyan-50 p-4"><p className="text-xs text-cyan-700">Demande marché vs 7j</p><p className="text-2xl font-black text-cyan-800">{trend.summary.avgDemandVs7j >= 0 ? '+' : ''}{trend.summary.avgDemandVs7j.toFixed(1)} pts</p></div>
       </section>
 
+      <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+        <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h3 className="flex items-center gap-2 text-sm font-black uppercase tracking-[0.16em] text-slate-700">
+              <Layers className="h-4 w-4" />
+              Analyse par segment
+            </h3>
+            <p className="mt-1 text-xs text-slate-500">
+              Comparaison vs N-1 ({format(comparisonWindows.lastYearStart, 'dd MMM yyyy', { locale: fr })} - {format(comparisonWindows.lastYearEnd, 'dd MMM yyyy', { locale: fr })})
+              {' '}et vs periode precedente ({format(comparisonWindows.previousStart, 'dd MMM', { locale: fr })} - {format(comparisonWindows.previousEnd, 'dd MMM yyyy', { locale: fr })}).
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(SEGMENT_DIMENSION_LABELS) as SegmentDimension[]).map((dimension) => (
+              <button
+                key={dimension}
+                type="button"
+                onClick={() => setSegmentDimension(dimension)}
+                className={`rounded-lg px-3 py-1.5 text-xs font-bold ${segmentDimension === dimension ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+              >
+                {SEGMENT_DIMENSION_LABELS[dimension]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="mb-4 grid grid-cols-2 gap-3 md:grid-cols-4">
+          <div className="rounded-xl bg-slate-50 p-3"><p className="text-xs text-slate-500">CA</p><p className="text-xl font-black">{formatCurrency(segmentTotals.current.revenue)}</p><p className="text-[11px] text-slate-500">N-1 {formatCurrency(segmentTotals.lastYear.revenue)} · Prec. {formatCurrency(segmentTotals.previous.revenue)}</p></div>
+          <div className="rounded-xl bg-slate-50 p-3"><p className="text-xs text-slate-500">Nuitees</p><p className="text-xl font-black">{segmentTotals.current.roomNights.toFixed(0)}</p><p className="text-[11px] text-slate-500">N-1 {segmentTotals.lastYear.roomNights.toFixed(0)} · Prec. {segmentTotals.previous.roomNights.toFixed(0)}</p></div>
+          <div className="rounded-xl bg-slate-50 p-3"><p className="text-xs text-slate-500">ADR</p><p className="text-xl font-black">{formatCurrency(segmentTotals.current.adr)}</p><p className="text-[11px] text-slate-500">N-1 {formatCurrency(segmentTotals.lastYear.adr)} · Prec. {formatCurrency(segmentTotals.previous.adr)}</p></div>
+          <div className="rounded-xl bg-slate-50 p-3"><p className="text-xs text-slate-500">Duree moyenne de sejour</p><p className="text-xl font-black">{segmentTotals.current.alos.toFixed(1)} n</p><p className="text-[11px] text-slate-500">N-1 {segmentTotals.lastYear.alos.toFixed(1)} · Prec. {segmentTotals.previous.alos.toFixed(1)}</p></div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-200 text-xs uppercase tracking-wide text-slate-500">
+                <th className="py-2 pr-3 text-left">{SEGMENT_DIMENSION_LABELS[segmentDimension]}</th>
+                <th className="py-2 pr-3 text-right">CA</th>
+                <th className="py-2 pr-3 text-right">Part</th>
+                <th className="py-2 pr-3 text-right">vs N-1</th>
+                <th className="py-2 pr-3 text-right">vs Prec.</th>
+                <th className="py-2 pr-3 text-right">Nuitees</th>
+                <th className="py-2 pr-3 text-right">vs N-1</th>
+                <th className="py-2 pr-3 text-right">vs Prec.</th>
+                <th className="py-2 pr-3 text-right">ADR</th>
+                <th className="py-2 pr-3 text-right">ADR N-1</th>
+                <th className="py-2 pr-3 text-right">ADR Prec.</th>
+                <th className="py-2 pr-0 text-right">DMS</th>
+              </tr>
+            </thead>
+            <tbody>
+              {segmentRows.map((row) => (
+                <tr key={row.segment} className="border-b border-slate-100">
+                  <td className="py-2 pr-3 font-semibold text-slate-900">{row.segment}</td>
+                  <td className="py-2 pr-3 text-right font-bold">{formatCurrency(row.current.revenue)}</td>
+                  <td className="py-2 pr-3 text-right text-slate-500">{row.revenueShare.toFixed(1)}%</td>
+                  <td className={`py-2 pr-3 text-right font-semibold ${getDeltaClass(row.revenueVsLastYearPct)}`}>{formatDelta(row.revenueVsLastYearPct)}</td>
+                  <td className={`py-2 pr-3 text-right font-semibold ${getDeltaClass(row.revenueVsPreviousPct)}`}>{formatDelta(row.revenueVsPreviousPct)}</td>
+                  <td className="py-2 pr-3 text-right font-bold">{row.current.roomNights.toFixed(0)}</td>
+                  <td className={`py-2 pr-3 text-right font-semibold ${getDeltaClass(row.roomNightsVsLastYearPct)}`}>{formatDelta(row.roomNightsVsLastYearPct)}</td>
+                  <td className={`py-2 pr-3 text-right font-semibold ${getDeltaClass(row.roomNightsVsPreviousPct)}`}>{formatDelta(row.roomNightsVsPreviousPct)}</td>
+                  <td className="py-2 pr-3 text-right font-bold">{formatCurrency(row.current.adr)}</td>
+                  <td className="py-2 pr-3 text-right text-slate-500">{row.lastYear.roomNights > 0 ? formatCurrency(row.lastYear.adr) : '-'}</td>
+                  <td className="py-2 pr-3 text-right text-slate-500">{row.previous.roomNights > 0 ? formatCurrency(row.previous.adr) : '-'}</td>
+                  <td className="py-2 pr-0 text-right">{row.current.alos.toFixed(1)}</td>
+                </tr>
+              ))}
+              {segmentRows.length === 0 && (
+                <tr>
+                  <td colSpan={12} className="py-4 text-center text-sm text-slate-500">Aucune reservation sur ces periodes.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
       <section className="grid grid-cols-1 gap-6 xl:grid-cols-2">
         <div className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
           <h3 className="mb-3 text-sm font-black uppercase tracking-[0.16em] text-slate-700">Top suggestions tarifaires</h3>
@@ -1,7 +1,15 @@
-﻿import React, { useMemo } from 'react'
-import { useAuthStore } from '../../store/useAuthStore'
+﻿import React, { useMemo, useState } from 'react'
+import { useActiveHotelId } from '../../hooks/useHotels'
+import { usePermissions } from '../../hooks/usePermissions'
 import { useDateRangeStore } from '../../store/useDateRangeStore'
-import { useCompetitorRates } from '../../hooks/useCompetitorData'
+import {
+    useCompetitorRateHistory,
+    useCompetitorRates,
+    useCompetitorsList,
+    useCompset,
+    useSaveCompset
+} from '../../hooks/useCompetitorData'
+import { buildCompetitorPositioning, buildPositionDays, buildShoppingHistory } from '../../utils/competitorPositioning'
 import { formatCurrency } from '../../utils/formatters'
 import { format, parseISO, isWeekend } from 'date-fns'
 import { fr } from 'date-fns/locale'
@@ -17,87 +25,133 @@ import {
 } from 'recharts'
 import {
     Activity,
-    Users,
-    Hotel
+    BarChart3,
+    History,
+    Hotel,
+    Save,
+    Trophy,
+    Users
 } from 'lucide-react'
-import type { Database } from '../../types/database.types'
-
-const COMPETITOR_COLORS: Record<string, string> = {
-    'Folkestone Opéra': '#ef4444',
-    'Folkestone OpÃ©ra': '#ef4444',
-    'Hôtel Madeleine Haussmann': '#3b82f6',
-    'HÃ´tel Madeleine Haussmann': '#3b82f6',
-    "Hôtel De l'Arcade": '#10b981',
-    "HÃ´tel De l'Arcade": '#10b981',
-    'Hôtel Cordelia Opéra-Madeleine': '#f59e0b',
-    'HÃ´tel Cordelia OpÃ©ra-Madeleine': '#f59e0b',
-    'Queen Mary Opera': '#8b5cf6',
-    "Hôtel du Triangle d'Or": '#ec4899',
-    "HÃ´tel du Triangle d'Or": '#ec4899',
-    'Best Western Plus Hotel Sydney Opera': '#06b6d4',
-    'Hotel Opéra Opal': '#84cc16',
-    'Hotel OpÃ©ra Opal': '#84cc16',
-    'Hôtel Royal Opéra': '#6366f1',
-    'HÃ´tel Royal OpÃ©ra': '#6366f1',
-    'Hotel George Sand Opéra Paris': '#f43f5e',
-    'Hotel George Sand OpÃ©ra Paris': '#f43f5e',
-    'Hotel Chavanel': '#14b8a6'
-}
 
-const OWN_HOTEL_KEYS = new Set(['Folkestone Opéra', 'Folkestone OpÃ©ra'])
-
-const normalizeText = (text: string) => {
-    return text
-        .replaceAll('Ã©', 'é')
-        .replaceAll('Ã¨', 'è')
-        .replaceAll('Ãª', 'ê')
-        .replaceAll('Ã´', 'ô')
-        .replaceAll('Ã»', 'û')
-        .replaceAll('Ã ', 'à')
-        .replaceAll('Ã‰', 'É')
-        .replaceAll('Ã¢', 'â')
-        .replaceAll('Â', '')
-        .replaceAll('â‚¬', '€')
+const OWN_HOTEL_COLOR = '#ef4444'
+const COMPETITOR_PALETTE = ['#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#06b6d4', '#84cc16', '#6366f1', '#f43f5e', '#14b8a6', '#a855f7', '#eab308']
+
+type ChartRow = { date: string; formattedDate: string; ownPrice: number | null; compsetMedian: number | null } & Record<string, string | number | null>
+
+const tooltipStyle = {
+    backgroundColor: 'rgba(255, 255, 255, 0.9)',
+    borderRadius: '12px',
+    border: 'none',
+    boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.1)',
+    fontWeight: 'bold'
 }
 
-type BookingTarifsRow = Database['public']['Tables']['booking_tarifs']['Row']
-type ChartRow = BookingTarifsRow & { formattedDate: string } & Record<string, unknown>
+const formatPct = (value: number | null, digits = 0) => (value === null ? '-' : `${value.toFixed(digits)}%`)
 
 export const CompetitorAnalysis: React.FC = () => {
-    const { profile } = useAuthStore()
     const { startDate, endDate } = useDateRangeStore()
-    const hotelId = profile?.hotel_id || 'H2258'
+    const hotelId = useActiveHotelId()
+
+    const { data: ratesData, isLoading } = useCompetitorRates(hotelId, startDate, endDate)
+    const { data: historyData } = useCompetitorRateHistory(hotelId, startDate, endDate)
+    const { data: competitors } = useCompetitorsList(hotelId)
+    const compset = useCompset(hotelId)
+    const saveCompset = useSaveCompset(hotelId)
+    const { can } = usePermissions(hotelId)
+
+    const [compsetDraft, setCompsetDraft] = useState<Record<string, boolean> | null>(null)
+    const [historyDate, setHistoryDate] = useState<string | null>(null)
+
+    const rates = useMemo(() => ratesData?.items ?? [], [ratesData])
+    const history = useMemo(() => historyData?.items ?? [], [historyData])
+
+    const competitorNames = useMemo(() => {
+        return Array.from(new Set(rates.map((rate) => rate.competitor)))
+    }, [rates])
+
+    const ownHotelNames = useMemo(() => {
+        return new Set(rates.filter((rate) => rate.isOwnHotel).map((rate) => rate.competitor))
+    }, [rates])
+
+    const colorByName = useMemo(() => {
+        const colors = new Map<string, string>()
+        competitorNames
+            .filter((name) => !ownHotelNames.has(name))
+            .forEach((name, index) => colors.set(name, COMPETITOR_PALETTE[index % COMPETITOR_PALETTE.length]))
+        ownHotelNames.forEach((name) => colors.set(name, OWN_HOTEL_COLOR))
+        return colors
+    }, [competitorNames, ownHotelNames])
+
+    const soldOutKeys = useMemo(() => {
+        return new Set(rates.filter((rate) => rate.isSoldOut).map((rate) => `${rate.date}|${rate.competitor}`))
+    }, [rates])
 
-    const { data: rates, isLoading } = useCompetitorRates(hotelId, startDate, endDate)
+    const positionDays = useMemo(() => buildPositionDays(rates, compset.isInCompset), [rates, compset])
 
+    const positioning = useMemo(
+        () => buildCompetitorPositioning(rates, history, compset.isInCompset),
+        [rates, history, compset]
+    )
+
+    // One row per date with a column per hotel; dates without a rate stay null.
     const chartData = useMemo<ChartRow[]>(() => {
-        if (!rates) return []
-        return rates.map((r) => {
-            const dateRaw = typeof r.Date === 'string' ? r.Date : ''
-            const cleaned = Object.entries(r as Record<string, unknown>).reduce((acc, [key, value]) => {
-                const isMeta = ['id', 'hotel_id', 'date_mise_a_jour', 'Jour', 'Date', 'Demande du marché', 'Demande du marchÃ©'].includes(key)
-                if (!isMeta && typeof value === 'number' && value === 0) {
-                    acc[key] = null
-                } else {
-                    acc[key] = value
-                }
-                return acc
-            }, {} as Record<string, unknown>)
-            return {
-                ...r,
-                ...cleaned,
-                formattedDate: dateRaw ? format(parseISO(dateRaw), 'dd/MM') : ''
-            } as ChartRow
+        const medianByDate = new Map(positionDays.map((day) => [day.date, day.compsetMedian] as const))
+        const byDate = new Map<string, ChartRow>()
+        rates.forEach((rate) => {
+            const row: ChartRow = byDate.get(rate.date) ?? {
+                ...Object.fromEntries(competitorNames.map((name) => [name, null])),
+                date: rate.date,
+                formattedDate: format(parseISO(rate.date), 'dd/MM'),
+                ownPrice: null,
+                compsetMedian: medianByDate.get(rate.date) ?? null,
+            }
+            row[rate.competitor] = rate.price
+            if (rate.isOwnHotel) row.ownPrice = rate.price
+            byDate.set(rate.date, row)
         })
-    }, [rates])
+        return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date))
+    }, [competitorNames, positionDays, rates])
 
-    const competitorNames = useMemo(() => {
-        if (!rates || rates.length === 0) return []
-        const keys = Object.keys(rates[0])
-        return keys.filter((k) =>
-            !['id', 'hotel_id', 'date_mise_a_jour', 'Jour', 'Date', 'Demande du marché', 'Demande du marchÃ©'].includes(k)
+    const rankChartData = useMemo(() => {
+        return positionDays.map((day) => ({
+            ...day.ranks,
+            date: day.date,
+            formattedDate: format(parseISO(day.date), 'dd/MM'),
+        }))
+    }, [positionDays])
+
+    const stayDates = useMemo(() => positionDays.map((day) => day.date), [positionDays])
+    const selectedHistoryDate = historyDate && stayDates.includes(historyDate) ? historyDate : stayDates[0] ?? null
+
+    const historyChartData = useMemo(() => {
+        if (!selectedHistoryDate) return []
+        return buildShoppingHistory(history, selectedHistoryDate).map((row) => ({
+            ...row.prices,
+            shoppedAt: row.shoppedAt,
+            formattedDate: format(parseISO(row.shoppedAt), 'dd/MM'),
+        }))
+    }, [history, selectedHistoryDate])
+
+    const activeCompetitors = useMemo(() => {
+        return (competitors || []).filter((competitor) => competitor.competitor_name)
+    }, [competitors])
+
+    const isDraftSelected = (id: string, saved: boolean) => compsetDraft?.[id] ?? saved
+
+    const toggleCompsetMember = (id: string, saved: boolean) => {
+        setCompsetDraft((current) => ({ ...(current || {}), [id]: !(current?.[id] ?? saved) }))
+    }
+
+    const submitCompset = () => {
+        if (!compsetDraft) return
+        saveCompset.mutate(
+            activeCompetitors.map((competitor) => ({
+                id: competitor.id,
+                in_compset: isDraftSelected(competitor.id, competitor.in_compset !== false),
+            })),
+            { onSuccess: () => setCompsetDraft(null) }
         )
-    }, [rates])
+    }
 
     if (isLoading) {
         return (
@@ -122,6 +176,102 @@ export const CompetitorAnalysis: React.FC = () => {
                 </div>
             </div>
 
+            <div className="bg-card border rounded-2xl shadow-xl p-6 glassmorphism border-white/20">
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="font-black text-lg flex items-center gap-2">
+                        <Hotel className="w-5 h-5 text-indigo-500" />
+                        Compset de la médiane
+                    </h3>
+                    <button
+                        type="button"
+                        onClick={submitCompset}
+                        disabled={!can('edit_rms_settings') || !compsetDraft || saveCompset.isPending}
+                        className="inline-flex items-center gap-2 rounded-xl bg-slate-900 px-4 py-2 text-xs font-black uppercase tracking-wide text-white disabled:opacity-40"
+                    >
+                        <Save className="w-4 h-4" />
+                        {saveCompset.isPending ? 'Enregistrement...' : 'Enregistrer'}
+                    </button>
+                </div>
+                {activeCompetitors.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                        Aucun concurrent actif dans hotels_concurrents: la médiane utilise tous les hôtels collectés.
+                    </p>
+                ) : (
+                    <div className="flex flex-wrap gap-2">
+                        {activeCompetitors.map((competitor) => {
+                            const saved = competitor.in_compset !== false
+                            const selected = isDraftSelected(competitor.id, saved)
+                            return (
+                                <button
+                                    key={competitor.id}
+                                    type="button"
+                                    onClick={() => toggleCompsetMember(competitor.id, saved)}
+                                    className={`rounded-full border px-3 py-1 text-xs font-bold transition ${selected ? 'border-slate-900 bg-slate-900 text-white' : 'border-slate-200 bg-white text-slate-500'}`}
+                                >
+                                    {competitor.competitor_name}
+                                </button>
+                            )
+                        })}
+                    </div>
+                )}
+                {saveCompset.isError && (
+                    <p className="mt-3 text-xs font-bold text-rose-600">{(saveCompset.error as Error).message}</p>
+                )}
+            </div>
+
+            <div className="bg-card border rounded-2xl shadow-xl overflow-hidden glassmorphism border-white/20">
+                <div className="flex items-center gap-2 p-6 pb-4">
+                    <BarChart3 className="w-5 h-5 text-indigo-500" />
+                    <h3 className="font-black text-lg">Positionnement par concurrent</h3>
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left border-collapse text-sm">
+                        <thead>
+                            <tr className="bg-muted/30 border-y border-border/50 text-[10px] font-black uppercase tracking-widest">
+                                <th className="p-4">Hôtel</th>
+                                <th className="p-4 text-right">Prix moyen</th>
+                                <th className="p-4 text-right" title="Leur tarif en % du nôtre, sur les dates où les deux sont publiés">Indice prix</th>
+                                <th className="p-4 text-right" title="1 = le moins cher des hôtels collectés">Rang moyen</th>
+                                <th className="p-4 text-right" title="Part des dates où ils sont moins chers que nous">Moins chers que nous</th>
+                                <th className="p-4 text-right" title="Variation moyenne entre deux collectes d'une même date de séjour">Volatilité</th>
+                                <th className="p-4">Complet</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-border/40">
+                            {positioning.map((row) => (
+                                <tr key={row.competitor} className={row.isOwnHotel ? 'bg-primary/5 font-black' : ''}>
+                                    <td className="p-4">
+                                        <div className="flex items-center gap-2">
+                                            <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: colorByName.get(row.competitor) }} />
+                                            <span className="font-bold">{row.competitor}</span>
+                                            {!row.isOwnHotel && !row.inCompset && (
+                                                <span className="rounded bg-slate-100 px-1.5 py-0.5 text-[10px] font-bold uppercase text-slate-500">hors compset</span>
+                                            )}
+                                        </div>
+                                    </td>
+                                    <td className="p-4 text-right">{row.avgPrice === null ? '-' : formatCurrency(row.avgPrice)}</td>
+                                    <td className={`p-4 text-right ${row.priceIndex !== null && row.priceIndex < 100 ? 'text-rose-500' : 'text-emerald-600'}`}>
+                                        {row.isOwnHotel ? '100' : row.priceIndex === null ? '-' : row.priceIndex.toFixed(0)}
+                                    </td>
+                                    <td className="p-4 text-right">{row.avgRank === null ? '-' : row.avgRank.toFixed(1)}</td>
+                                    <td className="p-4 text-right">
+                                        {row.isOwnHotel || row.undercutRate === null
+                                            ? '-'
+                                            : `${formatPct(row.undercutRate * 100)} (${row.undercutDays}/${row.comparedDays} j)`}
+                                    </td>
+                                    <td className="p-4 text-right">{formatPct(row.volatilityPct, 1)}</td>
+                                    <td className="p-4 text-xs">
+                                        {row.soldOutDates.length === 0
+                                            ? '-'
+                                            : row.soldOutDates.map((date) => format(parseISO(date), 'dd/MM')).join(', ')}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
             <div className="bg-card border rounded-2xl shadow-xl p-6 glassmorphism border-white/20">
                 <div className="flex items-center justify-between mb-6">
                     <h3 className="font-black text-lg flex items-center gap-2">
@@ -149,25 +299,17 @@ export const CompetitorAnalysis: React.FC = () => {
                                 tickLine={false}
                                 tickFormatter={(value) => `${value}€`}
                             />
-                            <Tooltip
-                                contentStyle={{
-                                    backgroundColor: 'rgba(255, 255, 255, 0.9)',
-                                    borderRadius: '12px',
-                                    border: 'none',
-                                    boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.1)',
-                                    fontWeight: 'bold'
-                                }}
-                            />
+                            <Tooltip contentStyle={tooltipStyle} />
                             <Legend iconType="circle" />
                             {competitorNames.map((name) => {
-                                const isSelf = OWN_HOTEL_KEYS.has(name)
+                                const isSelf = ownHotelNames.has(name)
                                 return (
                                     <Line
                                         key={name}
                                         type="monotone"
                                         dataKey={name}
-                                        name={normalizeText(name)}
-                                        stroke={COMPETITOR_COLORS[name] || '#94a3b8'}
+                                        name={name}
+                                        stroke={colorByName.get(name) || '#94a3b8'}
                                         strokeWidth={isSelf ? 4 : 2}
                                         dot={isSelf}
                                         activeDot={{ r: 8 }}
@@ -175,11 +317,113 @@ export const CompetitorAnalysis: React.FC = () => {
                                     />
                                 )
                             })}
+                            <Line
+                                type="monotone"
+                                dataKey="compsetMedian"
+                                name="Médiane compset"
+                                stroke="#0f172a"
+                                strokeWidth={2}
+                                strokeDasharray="6 4"
+                                dot={false}
+                            />
                         </LineChart>
                     </ResponsiveContainer>
                 </div>
             </div>
 
+            <div className="grid gap-6 xl:grid-cols-2">
+                <div className="bg-card border rounded-2xl shadow-xl p-6 glassmorphism border-white/20">
+                    <h3 className="font-black text-lg flex items-center gap-2 mb-6">
+                        <Trophy className="w-5 h-5 text-indigo-500" />
+                        Rang tarifaire dans le temps
+                    </h3>
+                    <div className="h-[320px] w-full min-w-0">
+                        <ResponsiveContainer width="100%" height="100%" minWidth={280} minHeight={280}>
+                            <LineChart data={rankChartData}>
+                                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                                <XAxis dataKey="formattedDate" stroke="#94a3b8" fontSize={11} axisLine={false} tickLine={false} />
+                                <YAxis
+                                    reversed
+                                    allowDecimals={false}
+                                    domain={[1, 'dataMax']}
+                                    stroke="#94a3b8"
+                                    fontSize={11}
+                                    axisLine={false}
+                                    tickLine={false}
+                                />
+                                <Tooltip contentStyle={tooltipStyle} />
+                                {competitorNames.map((name) => {
+                                    const isSelf = ownHotelNames.has(name)
+                                    return (
+                                        <Line
+                                            key={name}
+                                            type="stepAfter"
+                                            dataKey={name}
+                                            name={name}
+                                            stroke={colorByName.get(name) || '#94a3b8'}
+                                            strokeWidth={isSelf ? 4 : 1.5}
+                                            dot={false}
+                                            opacity={isSelf ? 1 : 0.5}
+                                        />
+                                    )
+                                })}
+                            </LineChart>
+                        </ResponsiveContainer>
+                    </div>
+                </div>
+
+                <div className="bg-card border rounded-2xl shadow-xl p-6 glassmorphism border-white/20">
+                    <div className="flex items-center justify-between mb-6 gap-4">
+                        <h3 className="font-black text-lg flex items-center gap-2">
+                            <History className="w-5 h-5 text-indigo-500" />
+                            Historique des collectes
+                        </h3>
+                        <select
+                            value={selectedHistoryDate ?? ''}
+                            onChange={(event) => setHistoryDate(event.target.value)}
+                            className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-xs font-bold"
+                        >
+                            {stayDates.map((date) => (
+                                <option key={date} value={date}>
+                                    Séjour du {format(parseISO(date), 'eee dd/MM', { locale: fr })}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    {historyChartData.length < 2 ? (
+                        <p className="text-sm text-muted-foreground">
+                            Une seule collecte pour cette date de séjour: l'historique se construit à chaque passage du rate shopper.
+                        </p>
+                    ) : (
+                        <div className="h-[320px] w-full min-w-0">
+                            <ResponsiveContainer width="100%" height="100%" minWidth={280} minHeight={280}>
+                                <LineChart data={historyChartData}>
+                                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                                    <XAxis dataKey="formattedDate" stroke="#94a3b8" fontSize={11} axisLine={false} tickLine={false} />
+                                    <YAxis stroke="#94a3b8" fontSize={11} axisLine={false} tickLine={false} tickFormatter={(value) => `${value}€`} />
+                                    <Tooltip contentStyle={tooltipStyle} />
+                                    {competitorNames.map((name) => {
+                                        const isSelf = ownHotelNames.has(name)
+                                        return (
+                                            <Line
+                                                key={name}
+                                                type="monotone"
+                                                dataKey={name}
+                                                name={name}
+                                                stroke={colorByName.get(name) || '#94a3b8'}
+                                                strokeWidth={isSelf ? 4 : 2}
+                                                dot={isSelf}
+                                                opacity={isSelf ? 1 : 0.6}
+                                            />
+                                        )
+                                    })}
+                                </LineChart>
+                            </ResponsiveContainer>
+                        </div>
+                    )}
+                </div>
+            </div>
+
             <div className="bg-card border rounded-2xl shadow-2xl overflow-hidden glassmorphism border-white/20">
                 <div className="overflow-x-auto">
                     <table className="w-full text-left border-collapse">
@@ -187,7 +431,7 @@ export const CompetitorAnalysis: React.FC = () => {
                             <tr className="bg-muted/30 border-b border-border/50">
                                 <th className="p-4 text-[10px] font-black uppercase tracking-widest sticky left-0 bg-muted/30 z-20 w-32 border-r">Date</th>
                                 {competitorNames.map((name) => {
-                                    const isSelf = OWN_HOTEL_KEYS.has(name)
+                                    const isSelf = ownHotelNames.has(name)
                                     return (
                                         <th
                                             key={name}
@@ -195,21 +439,21 @@ export const CompetitorAnalysis: React.FC = () => {
                                         >
                                             <div className="flex flex-col items-center gap-1">
                                                 <Hotel className="w-3 h-3 opacity-50" />
-                                                {normalizeText(name)}
+                                                {name}
                                             </div>
                                         </th>
                                     )
                                 })}
+                                <th className="p-4 text-[10px] font-black uppercase tracking-widest text-center min-w-[120px]">Médiane compset</th>
                             </tr>
                         </thead>
                         <tbody className="divide-y divide-border/40">
                             {chartData.map((row, rowIndex) => {
-                                const dateRaw = typeof row.Date === 'string' ? row.Date : ''
-                                const dateObj = dateRaw ? parseISO(dateRaw) : new Date()
+                                const dateObj = parseISO(row.date)
                                 const isWeekEnd = isWeekend(dateObj)
 
                                 return (
-                                    <tr key={dateRaw || `row-${rowIndex}`} className={`group hover:bg-primary/5 transition-all duration-200 ${isWeekEnd ? 'bg-blue-50/20' : ''}`}>
+                                    <tr key={row.date || `row-${rowIndex}`} className={`group hover:bg-primary/5 transition-all duration-200 ${isWeekEnd ? 'bg-blue-50/20' : ''}`}>
                                         <td className={`p-4 sticky left-0 z-10 transition-colors border-r ${isWeekEnd ? 'bg-blue-50/50' : 'bg-card group-hover:bg-primary/5'}`}>
                                             <div className="flex flex-col">
                                                 <span className="font-black text-sm">{format(dateObj, 'eee dd/MM', { locale: fr })}</span>
@@ -218,9 +462,9 @@ export const CompetitorAnalysis: React.FC = () => {
                                         {competitorNames.map((name) => {
                                             const priceValue = row[name]
                                             const price = typeof priceValue === 'number' ? priceValue : null
-                                            const isSelf = OWN_HOTEL_KEYS.has(name)
-                                            const ownPriceValue = (row['Folkestone Opéra'] ?? row['Folkestone OpÃ©ra'])
-                                            const ownPrice = typeof ownPriceValue === 'number' ? ownPriceValue : null
+                                            const isSelf = ownHotelNames.has(name)
+                                            const ownPrice = row.ownPrice
+                                            const isSoldOut = soldOutKeys.has(`${row.date}|${name}`)
                                             const isUnavailable = price === null || price === 0
 
                                             let diffClass = 'text-muted-foreground'
@@ -232,8 +476,8 @@ export const CompetitorAnalysis: React.FC = () => {
                                             return (
                                                 <td key={name} className={`p-4 text-center ${isSelf ? 'bg-primary/5 font-black border-x border-primary/10' : ''}`}>
                                                     <div className="flex flex-col items-center">
-                                                        <span className={`text-sm ${isSelf ? 'text-base font-black' : 'font-bold'}`}>
-                                                            {isUnavailable ? 'Indisponible' : formatCurrency(price)}
+                                                        <span className={`text-sm ${isSelf ? 'text-base font-black' : 'font-bold'} ${isSoldOut ? 'text-amber-600' : ''}`}>
+                                                            {isSoldOut ? 'Complet' : isUnavailable ? 'Indisponible' : formatCurrency(price)}
                                                         </span>
                                                         {!isSelf && !isUnavailable && ownPrice !== null && ownPrice > 0 && (
                                                             <span className={`text-[10px] font-bold ${diffClass}`}>
@@ -244,6 +488,9 @@ export const CompetitorAnalysis: React.FC = () => {
                                                 </td>
                                             )
                                         })}
+                                        <td className="p-4 text-center text-sm font-bold text-slate-700">
+                                            {row.compsetMedian === null ? '-' : formatCurrency(row.compsetMedian)}
+                                        </td>
                                     </tr>
                                 )
                             })}
@@ -0,0 +1,262 @@
+import React, { useMemo, useState } from 'react'
+import { addMonths, eachDayOfInterval, endOfMonth, endOfWeek, format, isSameMonth, startOfMonth, startOfWeek } from 'date-fns'
+import { fr } from 'date-fns/locale'
+import { ChevronLeft, ChevronRight, Plus, Trash2, X } from 'lucide-react'
+import { useBookingApercu } from '../../hooks/useBookingData'
+import { useActiveHotelId } from '../../hooks/useHotels'
+import {
+    WEEKDAY_LABELS,
+    formatAdjustmentPct,
+    getCalendarAdjustments,
+    isHolidayLabel,
+    type PricingCalendarSettings,
+    type PricingSeason,
+} from '../../utils/pricingCalendar'
+
+// Grid columns from Monday; values are Date.getDay() indexes.
+const WEEKDAY_COLUMNS = [1, 2, 3, 4, 5, 6, 0]
+
+type SeasonDraft = { startDate: string; endDate: string | null; name: string; adjustmentPct: number }
+
+type PricingCalendarEditorProps = {
+    calendar: PricingCalendarSettings
+    disabled: boolean
+    onChange: (calendar: PricingCalendarSettings) => void
+}
+
+const combinedPct = (pcts: number[]) => (pcts.reduce((factor, pct) => factor * (1 + pct / 100), 1) - 1) * 100
+
+const cellTone = (pct: number) => {
+    if (pct > 0) return 'border-emerald-200 bg-emerald-50 text-emerald-700'
+    if (pct < 0) return 'border-rose-200 bg-rose-50 text-rose-700'
+    return 'border-slate-200 bg-white text-slate-400'
+}
+
+/**
+ * Weekday, season and holiday adjustments on a month grid. Weekday percentages
+ * sit in the column headers; clicking two days of the grid drafts a season.
+ * Holidays come from the "Jours feries" column of the imported Booking apercu.
+ */
+export const PricingCalendarEditor: React.FC<PricingCalendarEditorProps> = ({ calendar, disabled, onChange }) => {
+    const hotelId = useActiveHotelId()
+    const [month, setMonth] = useState(() => startOfMonth(new Date()))
+    const [draft, setDraft] = useState<SeasonDraft | null>(null)
+
+    const monthEnd = useMemo(() => endOfMonth(month), [month])
+    const { data: apercuData } = useBookingApercu(hotelId, month, monthEnd)
+
+    const holidayByDate = useMemo(() => {
+        const map = new Map<string, string>()
+        const items = apercuData?.items || []
+        items.forEach((day) => {
+            if (isHolidayLabel(day.holidays)) map.set(day.date, day.holidays.trim())
+        })
+        return map
+    }, [apercuData])
+
+    const days = useMemo(
+        () => eachDayOfInterval({ start: startOfWeek(month, { weekStartsOn: 1 }), end: endOfWeek(monthEnd, { weekStartsOn: 1 }) }),
+        [month, monthEnd]
+    )
+
+    const updateWeekday = (weekday: number, pct: number) => {
+        const weekdayAdjustmentsPct = [...calendar.weekdayAdjustmentsPct]
+        weekdayAdjustmentsPct[weekday] = pct
+        onChange({ ...calendar, weekdayAdjustmentsPct })
+    }
+
+    const updateSeason = (id: string, patch: Partial<PricingSeason>) => {
+        onChange({ ...calendar, seasons: calendar.seasons.map((season) => (season.id === id ? { ...season, ...patch } : season)) })
+    }
+
+    const removeSeason = (id: string) => {
+        onChange({ ...calendar, seasons: calendar.seasons.filter((season) => season.id !== id) })
+    }
+
+    const selectDay = (dateKey: string) => {
+        if (disabled) return
+        if (!draft || draft.endDate) {
+            setDraft({ startDate: dateKey, endDate: null, name: '', adjustmentPct: 10 })
+            return
+        }
+        const [startDate, endDate] = dateKey < draft.startDate ? [dateKey, draft.startDate] : [draft.startDate, dateKey]
+        setDraft({ ...draft, startDate, endDate })
+    }
+
+    const addSeason = () => {
+        if (!draft) return
+        const season: PricingSeason = {
+            id: `season-${Date.now()}`,
+            name: draft.name.trim() || `Saison ${calendar.seasons.length + 1}`,
+            startDate: draft.startDate,
+            endDate: draft.endDate || draft.startDate,
+            adjustmentPct: draft.adjustmentPct,
+        }
+        onChange({ ...calendar, seasons: [...calendar.seasons, season].sort((a, b) => a.startDate.localeCompare(b.startDate)) })
+        setDraft(null)
+    }
+
+    const isInDraft = (dateKey: string) =>
+        !!draft && (draft.endDate ? draft.startDate <= dateKey && dateKey <= draft.endDate : dateKey === draft.startDate)
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <button type="button" onClick={() => setMonth((current) => addMonths(current, -1))} className="rounded-lg border border-slate-200 bg-white p-2 text-slate-600">
+                    <ChevronLeft className="h-4 w-4" />
+                </button>
+                <p className="text-sm font-black uppercase tracking-wide text-slate-800">{format(month, 'MMMM yyyy', { locale: fr })}</p>
+                <button type="button" onClick={() => setMonth((current) => addMonths(current, 1))} className="rounded-lg border border-slate-200 bg-white p-2 text-slate-600">
+                    <ChevronRight className="h-4 w-4" />
+                </button>
+            </div>
+
+            <div className="grid grid-cols-7 gap-2">
+                {WEEKDAY_COLUMNS.map((weekday) => (
+                    <label key={weekday} className="rounded-xl border border-slate-200 bg-white p-2 text-center text-[11px] font-bold uppercase tracking-wide text-slate-500">
+                        {WEEKDAY_LABELS[weekday].slice(0, 3)}
+                        <div className="mt-1 flex items-center justify-center gap-1">
+                            <input
+                                type="number"
+                                value={calendar.weekdayAdjustmentsPct[weekday]}
+                                disabled={disabled}
+                                onChange={(event) => updateWeekday(weekday, Number(event.target.value))}
+                                className="w-14 rounded-lg border border-slate-200 px-1 py-1 text-center text-sm font-semibold text-slate-800"
+                            />
+                            %
+                        </div>
+                    </label>
+                ))}
+
+                {days.map((day) => {
+                    const dateKey = format(day, 'yyyy-MM-dd')
+                    const holiday = holidayByDate.get(dateKey) || ''
+                    const adjustments = getCalendarAdjustments(calendar, dateKey, day.getDay(), holiday)
+                    const pct = combinedPct(adjustments.map((adjustment) => adjustment.pct))
+                    const inMonth = isSameMonth(day, month)
+
+                    return (
+                        <button
+                            key={dateKey}
+                            type="button"
+                            onClick={() => selectDay(dateKey)}
+                            title={adjustments.map((adjustment) => `${adjustment.label} ${formatAdjustmentPct(adjustment.pct)}`).join(', ') || 'Aucun ajustement'}
+                            className={`min-h-[64px] rounded-xl border p-2 text-left transition ${cellTone(pct)} ${inMonth ? '' : 'opacity-40'} ${isInDraft(dateKey) ? 'ring-2 ring-slate-900' : ''}`}
+                        >
+                            <span className="block text-xs font-bold text-slate-700">{format(day, 'd')}</span>
+                            <span className="block text-sm font-black">{pct !== 0 ? formatAdjustmentPct(Number(pct.toFixed(1))) : '-'}</span>
+                            {holiday && <span className="block truncate text-[10px] font-semibold text-amber-700">{holiday}</span>}
+                        </button>
+                    )
+                })}
+            </div>
+
+            {draft && (
+                <div className="flex flex-wrap items-end gap-3 rounded-xl border border-slate-200 bg-white p-3 text-sm font-semibold text-slate-700">
+                    <p className="text-sm text-slate-600">
+                        {draft.endDate
+                            ? `Saison du ${format(new Date(`${draft.startDate}T00:00:00`), 'dd MMM', { locale: fr })} au ${format(new Date(`${draft.endDate}T00:00:00`), 'dd MMM yyyy', { locale: fr })}`
+                            : 'Cliquez le dernier jour de la saison.'}
+                    </p>
+                    <label className="flex flex-col gap-1">
+                        Nom
+                        <input
+                            value={draft.name}
+                            onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+                            placeholder="Haute saison"
+                            className="rounded-lg border border-slate-200 px-2 py-1"
+                        />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        Ajustement %
+                        <input
+                            type="number"
+                            value={draft.adjustmentPct}
+                            onChange={(event) => setDraft({ ...draft, adjustmentPct: Number(event.target.value) })}
+                            className="w-24 rounded-lg border border-slate-200 px-2 py-1"
+                        />
+                    </label>
+                    <button
+                        type="button"
+                        onClick={addSeason}
+                        className="inline-flex items-center gap-2 rounded-xl bg-slate-900 px-4 py-2 text-xs font-black uppercase tracking-wide text-white"
+                    >
+                        <Plus className="h-4 w-4" /> Ajouter la saison
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => setDraft(null)}
+                        className="inline-flex items-center gap-2 rounded-xl border border-slate-200 px-4 py-2 text-xs font-bold uppercase tracking-wide text-slate-700"
+                    >
+                        <X className="h-4 w-4" /> Annuler
+                    </button>
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 gap-4 lg:grid-cols-[1fr_220px]">
+                <div className="space-y-2">
+                    {calendar.seasons.length === 0 && <p className="text-sm text-slate-500">Aucune saison: cliquez deux jours du calendrier pour en creer une.</p>}
+                    {calendar.seasons.map((season) => (
+                        <div key={season.id} className="flex flex-wrap items-center gap-2 rounded-xl border border-slate-200 bg-white p-3 text-sm">
+                            <input
+                                value={season.name}
+                                disabled={disabled}
+                                onChange={(event) => updateSeason(season.id, { name: event.target.value })}
+                                className="min-w-[140px] flex-1 rounded-lg border border-slate-200 px-2 py-1 font-semibold text-slate-800"
+                            />
+                            <input
+                                type="date"
+                                value={season.startDate}
+                                disabled={disabled}
+                                onChange={(event) => event.target.value && updateSeason(season.id, { startDate: event.target.value })}
+                                className="rounded-lg border border-slate-200 px-2 py-1"
+                            />
+                            <input
+                                type="date"
+                                value={season.endDate}
+                                min={season.startDate}
+                                disabled={disabled}
+                                onChange={(event) => event.target.value && updateSeason(season.id, { endDate: event.target.value })}
+                                className="rounded-lg border border-slate-200 px-2 py-1"
+                            />
+                            <label className="flex items-center gap-1 font-semibold text-slate-600">
+                                <input
+                                    type="number"
+                                    value={season.adjustmentPct}
+                                    disabled={disabled}
+                                    onChange={(event) => updateSeason(season.id, { adjustmentPct: Number(event.target.value) })}
+                                    className="w-20 rounded-lg border border-slate-200 px-2 py-1"
+                                />
+                                %
+                            </label>
+                            <button
+                                type="button"
+                                onClick={() => removeSeason(season.id)}
+                                disabled={disabled}
+                                className="rounded-lg border border-slate-200 p-2 text-slate-500 hover:text-rose-600 disabled:opacity-40"
+                            >
+                                <Trash2 className="h-4 w-4" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+
+                <label className="rounded-xl border border-slate-200 bg-white p-3 text-sm font-semibold text-slate-700">
+                    Ajustement jours feries (%)
+                    <input
+                        type="number"
+                        value={calendar.holidayAdjustmentPct}
+                        disabled={disabled}
+                        onChange={(event) => onChange({ ...calendar, holidayAdjustmentPct: Number(event.target.value) })}
+                        className="mt-2 w-full rounded-lg border border-slate-200 px-3 py-2"
+                    />
+                </label>
+            </div>
+
+            <p className="text-xs text-slate-500">
+                Les ajustements se cumulent (jour de semaine, saisons, jour ferie) et s'ajoutent au premium weekend et au discount last minute,
+                avant arrondi et bornage par les prix min/max. Chaque ajustement applique est detaille dans la formule des recommandations.
+            </p>
+        </div>
+    )
+}
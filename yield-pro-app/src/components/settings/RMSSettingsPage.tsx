@@ -1,19 +1,26 @@
 ﻿import React, { useEffect, useMemo, useState } from 'react'
-import { Save, SlidersHorizontal, RefreshCcw, Sparkles } from 'lucide-react'
+import { Link } from 'react-router-dom'
+import { BellRing, FlaskConical, Save, SlidersHorizontal, RefreshCcw, Sparkles } from 'lucide-react'
 import {
     useDashboardConfig,
     type DashboardConfigPayload,
     type DashboardWidgets,
     type RMSSettings,
 } from '../../hooks/useDashboardConfig'
+import { useCompetitorAlertRules, useSaveCompetitorAlertRules } from '../../hooks/useCompetitorAlerts'
 import { useDisponibilites } from '../../hooks/useHotelData'
-import { useCompetitorsSettings, useHotelByHotelId, useHotels, useUpdateCurrentUserHotel } from '../../hooks/useHotels'
+import { usePermissions } from '../../hooks/usePermissions'
+import { DEFAULT_HOTEL_ID, useActiveHotelId, useCompetitorsSettings, useHotelByHotelId, useHotels, useUpdateCurrentUserHotel } from '../../hooks/useHotels'
+import { useActiveHotelStore } from '../../store/useActiveHotelStore'
 import { useAuthStore } from '../../store/useAuthStore'
 import { useDateRangeStore } from '../../store/useDateRangeStore'
 import type { Database } from '../../types/database.types'
+import { COMPETITOR_ALERT_LABELS, type CompetitorAlertRule } from '../../utils/competitorAlerts'
+import { HOTEL_ROLE_LABELS } from '../../utils/permissions'
+import { PricingCalendarEditor } from './PricingCalendarEditor'
+import { WeightCalibrationPanel } from './WeightCalibrationPanel'
 
 type CompetitorRow = Database['public']['Tables']['hotels_concurrents']['Row']
-type DisponibilitesRow = Database['public']['Tables']['disponibilites']['Row']
 
 const SectionTitle: React.FC<{ title: string; subtitle: string }> = ({ title, subtitle }) => (
     <div>
@@ -93,19 +100,31 @@ const presetMap: Record<RMSSettings['strategy'], Partial<RMSSettings>> = {
 export const RMSSettingsPage: React.FC = () => {
     const { user, profile, setProfile } = useAuthStore()
     const { startDate, endDate } = useDateRangeStore()
-    const hotelId = profile?.hotel_id || 'H2258'
+    const hotelId = useActiveHotelId()
+    const profileHotelId = profile?.hotel_id || DEFAULT_HOTEL_ID
+    const setActiveHotel = useActiveHotelStore((state) => state.setActiveHotel)
+    // RMS settings are stored per user and checked against the default hotel, like their history rows.
+    const { role: defaultHotelRole, can: canOnDefaultHotel } = usePermissions(profileHotelId)
+    const { can } = usePermissions(hotelId)
+    const canEditRms = canOnDefaultHotel('edit_rms_settings')
+    const canEditHotelRules = can('edit_rms_settings')
     const { data: hotel } = useHotelByHotelId(hotelId)
     const { data: hotels = [] } = useHotels()
     const { config, defaultConfig, isLoading, updateConfig } = useDashboardConfig()
-    const { data: disponibilites = [] } = useDisponibilites(hotelId, startDate, endDate)
+    const { data: disponibilitesData } = useDisponibilites(hotelId, startDate, endDate)
     const { data: competitorsSettings = [], saveMutation } = useCompetitorsSettings(hotelId)
     const updateHotelMutation = useUpdateCurrentUserHotel()
+    const { data: alertRules = [] } = useCompetitorAlertRules(hotelId)
+    const saveAlertRules = useSaveCompetitorAlertRules(hotelId)
+    const [alertRulesDraft, setAlertRulesDraft] = useState<CompetitorAlertRule[] | null>(null)
+    const editedAlertRules = alertRulesDraft ?? alertRules
     const [localConfig, setLocalConfig] = useState<DashboardConfigPayload>(config)
     const [localCompetitors, setLocalCompetitors] = useState<CompetitorRow[]>([])
-    const [selectedHotelId, setSelectedHotelId] = useState(hotelId)
+    const [selectedHotelId, setSelectedHotelId] = useState(profileHotelId)
     const [saved, setSaved] = useState(false)
     const [newRoomTypeName, setNewRoomTypeName] = useState('')
     const [newRoomTypeCount, setNewRoomTypeCount] = useState(1)
+    const [newRoomTypeDiff, setNewRoomTypeDiff] = useState(0)
     const [editingRoomType, setEditingRoomType] = useState<string | null>(null)
 
     useEffect(() => {
@@ -113,8 +132,8 @@ export const RMSSettingsPage: React.FC = () => {
     }, [config])
 
     useEffect(() => {
-        setSelectedHotelId(hotelId)
-    }, [hotelId])
+        setSelectedHotelId(profileHotelId)
+    }, [profileHotelId])
 
     useEffect(() => {
         const hotelName = (hotel?.name || '').toLowerCase().trim()
@@ -136,7 +155,7 @@ export const RMSSettingsPage: React.FC = () => {
         setLocalConfig((prev) => ({ ...prev, rms: { ...prev.rms, ...patch } }))
     }
 
-    const upsertRoomTypeCapacity = (roomType: string, count: number) => {
+    const upsertRoomTypeCapacity = (roomType: string, count: number, differentialPct: number) => {
         const key = roomType.trim()
         if (!key) return
         updateRms({
@@ -144,46 +163,62 @@ export const RMSSettingsPage: React.FC = () => {
                 ...(localConfig.rms.roomTypeCapacities || {}),
                 [key]: Math.max(0, Math.floor(count)),
             },
+            roomTypeDifferentials: {
+                ...(localConfig.rms.roomTypeDifferentials || {}),
+                [key]: Number.isFinite(differentialPct) ? differentialPct : 0,
+            },
         })
     }
 
     const removeRoomTypeCapacity = (roomType: string) => {
         const next = { ...(localConfig.rms.roomTypeCapacities || {}) }
+        const nextDifferentials = { ...(localConfig.rms.roomTypeDifferentials || {}) }
         delete next[roomType]
-        updateRms({ roomTypeCapacities: next })
+        delete nextDifferentials[roomType]
+        updateRms({ roomTypeCapacities: next, roomTypeDifferentials: nextDifferentials })
         if (editingRoomType === roomType) {
             setEditingRoomType(null)
             setNewRoomTypeName('')
             setNewRoomTypeCount(1)
+            setNewRoomTypeDiff(0)
         }
     }
 
+    const updateAlertRule = (kind: CompetitorAlertRule['kind'], patch: Partial<CompetitorAlertRule>) => {
+        setAlertRulesDraft(editedAlertRules.map((rule) => (rule.kind === kind ? { ...rule, ...patch } : rule)))
+    }
+
+    const submitAlertRules = () => {
+        if (!alertRulesDraft) return
+        saveAlertRules.mutate(alertRulesDraft, { onSuccess: () => setAlertRulesDraft(null) })
+    }
+
     const roomTypeOptions = useMemo(() => {
         const set = new Set<string>()
-        ;(disponibilites as DisponibilitesRow[]).forEach((row) => {
-            if (row.type_de_chambre && row.type_de_chambre.trim()) {
-                set.add(row.type_de_chambre.trim())
-            }
+        ;(disponibilitesData?.items || []).forEach((day) => {
+            if (day.roomType) set.add(day.roomType)
         })
         Object.keys(localConfig.rms.roomTypeCapacities || {}).forEach((roomType) => {
             if (roomType.trim()) set.add(roomType.trim())
         })
         return Array.from(set).sort((a, b) => a.localeCompare(b))
-    }, [disponibilites, localConfig.rms.roomTypeCapacities])
+    }, [disponibilitesData, localConfig.rms.roomTypeCapacities])
 
     const saveRoomTypeCapacity = () => {
         const key = newRoomTypeName.trim()
         if (!key) return
-        upsertRoomTypeCapacity(key, newRoomTypeCount)
+        upsertRoomTypeCapacity(key, newRoomTypeCount, newRoomTypeDiff)
         setEditingRoomType(null)
         setNewRoomTypeName('')
         setNewRoomTypeCount(1)
+        setNewRoomTypeDiff(0)
     }
 
     const startEditRoomType = (roomType: string, count: number) => {
         setEditingRoomType(roomType)
         setNewRoomTypeName(roomType)
         setNewRoomTypeCount(count)
+        setNewRoomTypeDiff(localConfig.rms.roomTypeDifferentials?.[roomType] ?? 0)
     }
 
     const updateWidgets = (patch: Partial<DashboardWidgets>) => {
@@ -205,7 +240,7 @@ export const RMSSettingsPage: React.FC = () => {
     }
 
     const saveSettings = async () => {
-        if (user && selectedHotelId && selectedHotelId !== hotelId) {
+        if (user && selectedHotelId && selectedHotelId !== profileHotelId) {
             await updateHotelMutation.mutateAsync({
                 user_id: user.id,
                 hotel_id: selectedHotelId
@@ -216,16 +251,20 @@ export const RMSSettingsPage: React.FC = () => {
                     hotel_id: selectedHotelId
                 })
             }
+            // The new default hotel replaces the one opened from the portfolio.
+            setActiveHotel(null)
         }
 
-        await updateConfig.mutateAsync(localConfig)
-        await saveMutation.mutateAsync(
-            localCompetitors.map((competitor) => ({
-                id: competitor.id,
-                is_active: competitor.is_active,
-                display_order: competitor.display_order,
-            }))
-        )
+        await updateConfig.mutateAsync(canEditRms ? localConfig : { ...localConfig, rms: config.rms })
+        if (canEditHotelRules) {
+            await saveMutation.mutateAsync(
+                localCompetitors.map((competitor) => ({
+                    id: competitor.id,
+                    is_active: competitor.is_active,
+                    display_order: competitor.display_order,
+                }))
+            )
+        }
         setSaved(true)
     }
 
@@ -255,6 +294,9 @@ export const RMSSettingsPage: React.FC = () => {
                         <p className="mt-2 text-sm text-slate-200">Calibrage des regles de pricing, ponderations RMS, widgets dashboard et modes d'affichage.</p>
                     </div>
                     <div className="flex flex-wrap gap-2">
+                        <Link to="/rms-sandbox" className="inline-flex items-center gap-2 rounded-xl border border-white/30 bg-white/10 px-4 py-2 text-xs font-bold uppercase tracking-wide text-white">
+                            <FlaskConical className="h-4 w-4" /> Tester en sandbox
+                        </Link>
                         <button onClick={resetToDefaults} className="inline-flex items-center gap-2 rounded-xl border border-white/30 bg-white/10 px-4 py-2 text-xs font-bold uppercase tracking-wide text-white">
                             <RefreshCcw className="h-4 w-4" /> Reinitialiser
                         </button>
@@ -267,11 +309,19 @@ export const RMSSettingsPage: React.FC = () => {
 
             {saved && <div className="rounded-xl border border-emerald-200 bg-emerald-50 p-3 text-sm font-semibold text-emerald-700">Parametres enregistres dans Supabase.</div>}
 
+            {(!canEditRms || !canEditHotelRules) && (
+                <div className="rounded-xl border border-amber-200 bg-amber-50 p-3 text-sm font-semibold text-amber-800">
+                    {!canEditRms
+                        ? `Votre role (${defaultHotelRole ? HOTEL_ROLE_LABELS[defaultHotelRole] : 'aucun'}) ne permet pas de modifier les parametres RMS: seuls l'hotel par defaut et les widgets sont enregistres.`
+                        : 'Votre role sur cet hotel ne permet pas de modifier ses concurrents ni ses alertes.'}
+                </div>
+            )}
+
             <section className="grid grid-cols-1 gap-6 lg:grid-cols-2">
                 <div className="space-y-4 rounded-2xl border border-slate-200 bg-slate-50/70 p-5">
-                    <SectionTitle title="Mon hotel" subtitle="Selectionnez l'hotel principal utilise pour le dashboard et le moteur RMS." />
+                    <SectionTitle title="Mon hotel" subtitle="Selectionnez l'hotel ouvert par defaut pour le dashboard et le moteur RMS. Le portefeuille permet d'ouvrir un autre hotel sans modifier ce choix." />
                     <label className="block rounded-xl border border-slate-200 bg-white p-3 text-sm font-semibold text-slate-700">
-                        Hotel actif
+                        Hotel par defaut
                         <select
                             value={selectedHotelId}
                             onChange={(event) => {
@@ -336,12 +386,43 @@ export const RMSSettingsPage: React.FC = () => {
                 </div>
             </section>
 
+            <section className="space-y-4 rounded-2xl border border-slate-200 bg-slate-50/70 p-5">
+                <SectionTitle
+                    title="Calendrier tarifaire"
+                    subtitle="Majorations ou remises par jour de semaine, par saison et les jours feries, appliquees au tarif recommande."
+                />
+                <PricingCalendarEditor calendar={localConfig.rms.calendar} disabled={!canEditRms} onChange={(calendar) => updateRms({ calendar })} />
+            </section>
+
+            <section className="space-y-4 rounded-2xl border border-slate-200 bg-slate-50/70 p-5">
+                <SectionTitle
+                    title="Calibration automatique"
+                    subtitle="Recherche les poids, le premium weekend et le discount last minute qui auraient maximise le CA sur l'historique rejoue (voir Backtest RMS)."
+                />
+                <WeightCalibrationPanel settings={localConfig.rms} canApply={canEditRms} onApply={updateRms} />
+            </section>
+
             <section className="rounded-2xl border border-slate-200 bg-slate-50/70 p-5">
                 <SectionTitle
                     title="Capacites par type de chambre"
-                    subtitle="Selectionnez une categorie, saisissez la quantite, puis sauvegardez."
+                    subtitle="Selectionnez une categorie, saisissez la quantite et l'ecart de prix vs la chambre de reference, puis sauvegardez."
                 />
-                <div className="mt-4 grid grid-cols-1 gap-3 md:grid-cols-[minmax(0,1fr)_140px_auto]">
+                <label className="mt-4 block rounded-xl border border-slate-200 bg-white p-3 text-sm font-semibold text-slate-700">
+                    Chambre de reference (prix de base)
+                    <select
+                        value={localConfig.rms.baseRoomType}
+                        onChange={(event) => updateRms({ baseRoomType: event.target.value })}
+                        className="mt-2 w-full rounded-lg border border-slate-200 px-3 py-2"
+                    >
+                        {!roomTypeOptions.includes(localConfig.rms.baseRoomType) && (
+                            <option value={localConfig.rms.baseRoomType}>{localConfig.rms.baseRoomType}</option>
+                        )}
+                        {roomTypeOptions.map((roomType) => (
+                            <option key={roomType} value={roomType}>{roomType}</option>
+                        ))}
+                    </select>
+                </label>
+                <div className="mt-4 grid grid-cols-1 gap-3 md:grid-cols-[minmax(0,1fr)_140px_140px_auto]">
                     <label className="rounded-xl border border-slate-200 bg-white p-3 text-sm font-semibold text-slate-700">
                         Type de chambre
                         <select
@@ -365,6 +446,16 @@ export const RMSSettingsPage: React.FC = () => {
                             className="mt-2 w-full rounded-lg border border-slate-200 px-3 py-2"
                         />
                     </label>
+                    <label className="rounded-xl border border-slate-200 bg-white p-3 text-sm font-semibold text-slate-700">
+                        Ecart vs base (%)
+                        <input
+                            type="number"
+                            step={1}
+                            value={newRoomTypeDiff}
+                            onChange={(event) => setNewRoomTypeDiff(Number(event.target.value))}
+                            className="mt-2 w-full rounded-lg border border-slate-200 px-3 py-2"
+                        />
+                    </label>
                     <button
                         type="button"
                         onClick={saveRoomTypeCapacity}
@@ -377,9 +468,18 @@ export const RMSSettingsPage: React.FC = () => {
 
                 <div className="mt-4 space-y-2">
                     {Object.entries(localConfig.rms.roomTypeCapacities || {}).map(([roomType, count]) => (
-                        <div key={roomType} className="grid grid-cols-1 gap-3 rounded-xl border border-slate-200 bg-white p-3 md:grid-cols-[1fr_140px_auto] md:items-center">
-                            <p className="text-sm font-semibold text-slate-800">{roomType}</p>
+                        <div key={roomType} className="grid grid-cols-1 gap-3 rounded-xl border border-slate-200 bg-white p-3 md:grid-cols-[1fr_140px_140px_auto] md:items-center">
+                            <p className="text-sm font-semibold text-slate-800">
+                                {roomType}
+                                {roomType === localConfig.rms.baseRoomType && <span className="ml-2 text-xs font-black uppercase text-indigo-600">Reference</span>}
+                            </p>
                             <p className="text-sm font-black text-slate-700">{count}</p>
+                            <p className="text-sm font-black text-slate-700">
+                                {(() => {
+                                    const diff = localConfig.rms.roomTypeDifferentials?.[roomType] ?? 0
+                                    return `${diff > 0 ? '+' : ''}${diff}% vs base`
+                                })()}
+                            </p>
                             <div className="flex items-center justify-end gap-2">
                                 <button
                                     type="button"
@@ -417,6 +517,21 @@ export const RMSSettingsPage: React.FC = () => {
                         <label className="rounded-xl border border-slate-200 bg-white p-3 text-sm font-semibold text-slate-700">Prix max<input type="number" value={localConfig.rms.maxPrice} onChange={(event) => updateRms({ maxPrice: Number(event.target.value) })} className="mt-2 w-full rounded-lg border border-slate-200 px-3 py-2" /></label>
                     </div>
                     <RangeField label="Pas de recommandation" value={localConfig.rms.priceStep} min={1} max={10} onChange={(value) => updateRms({ priceStep: value })} />
+
+                    <SectionTitle
+                        title="Surreservation"
+                        subtitle="Cout attendu d'un client deloge (relogement, transport, compensation) et plafond de surreservation par type de chambre."
+                    />
+                    <div className="grid grid-cols-2 gap-3">
+                        <label className="rounded-xl border border-slate-200 bg-white p-3 text-sm font-semibold text-slate-700">Cout de delogement (€)<input type="number" min={0} value={localConfig.rms.overbooking.walkCost} onChange={(event) => updateRms({ overbooking: { ...localConfig.rms.overbooking, walkCost: Number(event.target.value) } })} className="mt-2 w-full rounded-lg border border-slate-200 px-3 py-2" /></label>
+                        <label className="rounded-xl border border-slate-200 bg-white p-3 text-sm font-semibold text-slate-700">Plafond (% capacite)<input type="number" min={0} max={30} value={localConfig.rms.overbooking.maxOverbookingPct} onChange={(event) => updateRms({ overbooking: { ...localConfig.rms.overbooking, maxOverbookingPct: Number(event.target.value) } })} className="mt-2 w-full rounded-lg border border-slate-200 px-3 py-2" /></label>
+                    </div>
+
+                    <SectionTitle
+                        title="Annulations"
+                        subtitle="Retire des chambres vendues celles qui devraient encore annuler, selon les taux par canal et delai observes l'an dernier."
+                    />
+                    <Toggle label="Deduire les annulations attendues" checked={localConfig.rms.netExpectedCancellations} onChange={(checked) => updateRms({ netExpectedCancellations: checked })} />
                 </div>
 
                 <div className="space-y-4 rounded-2xl border border-slate-200 bg-slate-50/70 p-5">
@@ -432,6 +547,7 @@ export const RMSSettingsPage: React.FC = () => {
                         <Toggle label="Alerts" checked={localConfig.widgets.alerts} onChange={(checked) => updateWidgets({ alerts: checked })} />
                         <Toggle label="Events" checked={localConfig.widgets.events} onChange={(checked) => updateWidgets({ events: checked })} />
                         <Toggle label="Booking Pace" checked={localConfig.widgets.bookingPace} onChange={(checked) => updateWidgets({ bookingPace: checked })} />
+                        <Toggle label="Acquisition Cost" checked={localConfig.widgets.acquisitionCost} onChange={(checked) => updateWidgets({ acquisitionCost: checked })} />
                     </div>
 
                     <div className="grid grid-cols-1 gap-2">
@@ -441,6 +557,71 @@ export const RMSSettingsPage: React.FC = () => {
                 </div>
             </section>
 
+            <section className="rounded-2xl border border-slate-200 bg-slate-50/70 p-5">
+                <div className="flex items-start justify-between gap-4">
+                    <SectionTitle
+                        title="Alertes concurrence"
+                        subtitle="Regles evaluees a chaque collecte du rate shopper pour cet hotel. Les alertes apparaissent dans le dashboard."
+                    />
+                    <button
+                        type="button"
+                        onClick={submitAlertRules}
+                        disabled={!canEditHotelRules || !alertRulesDraft || saveAlertRules.isPending}
+                        className="inline-flex shrink-0 items-center gap-2 rounded-xl bg-slate-900 px-4 py-2 text-xs font-black uppercase tracking-wide text-white disabled:opacity-40"
+                    >
+                        <Save className="h-4 w-4" />
+                        {saveAlertRules.isPending ? 'Enregistrement...' : 'Enregistrer les regles'}
+                    </button>
+                </div>
+                <div className="mt-4 space-y-2">
+                    {editedAlertRules.map((rule) => (
+                        <div key={rule.kind} className="grid grid-cols-1 gap-3 rounded-xl border border-slate-200 bg-white p-3 md:grid-cols-[1fr_130px_130px_130px_120px] md:items-center">
+                            <p className="flex items-center gap-2 text-sm font-semibold text-slate-800">
+                                <BellRing className="h-4 w-4 text-slate-400" />
+                                {COMPETITOR_ALERT_LABELS[rule.kind]}
+                            </p>
+                            <label className="flex items-center gap-2 text-xs font-semibold text-slate-600">
+                                {rule.kind === 'own_most_expensive' ? 'Marge %' : 'Seuil %'}
+                                <input
+                                    type="number"
+                                    min={0}
+                                    className="w-full rounded-lg border border-slate-200 px-2 py-1.5"
+                                    value={rule.thresholdPct}
+                                    onChange={(event) => updateAlertRule(rule.kind, { thresholdPct: Math.max(0, Number(event.target.value)) })}
+                                />
+                            </label>
+                            <label className="flex items-center gap-2 text-xs font-semibold text-slate-600">
+                                Horizon j
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={365}
+                                    className="w-full rounded-lg border border-slate-200 px-2 py-1.5"
+                                    value={rule.horizonDays}
+                                    onChange={(event) => updateAlertRule(rule.kind, { horizonDays: Math.min(365, Math.max(0, Math.round(Number(event.target.value)))) })}
+                                />
+                            </label>
+                            <label className="flex items-center gap-2 text-xs font-semibold text-slate-600">
+                                Vs collecte J-
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={30}
+                                    disabled={rule.kind === 'own_most_expensive'}
+                                    className="w-full rounded-lg border border-slate-200 px-2 py-1.5 disabled:bg-slate-100"
+                                    value={rule.comparisonDays}
+                                    onChange={(event) => updateAlertRule(rule.kind, { comparisonDays: Math.min(30, Math.max(1, Math.round(Number(event.target.value)))) })}
+                                />
+                            </label>
+                            <Toggle label="Active" checked={rule.enabled} onChange={(checked) => updateAlertRule(rule.kind, { enabled: checked })} />
+                        </div>
+                    ))}
+                    {saveAlertRules.isError && (
+                        <p className="text-xs font-bold text-rose-600">{(saveAlertRules.error as Error).message}</p>
+                    )}
+                </div>
+            </section>
+
             <section className="rounded-2xl border border-slate-200 bg-slate-50/70 p-5">
                 <SectionTitle
                     title="Mes concurrents"
@@ -0,0 +1,184 @@
+import React, { useMemo, useState } from 'react'
+import { CheckCircle2, Loader2, Wand2, X } from 'lucide-react'
+import { useBacktestData } from '../../hooks/useBacktestData'
+import type { RMSSettings } from '../../hooks/useDashboardConfig'
+import { useActiveHotelId } from '../../hooks/useHotels'
+import { BACKTEST_LEAD_OPTIONS, BACKTEST_WINDOW_OPTIONS, prepareBacktest } from '../../utils/backtest'
+import { formatCurrency } from '../../utils/formatters'
+import {
+    MIN_CALIBRATION_DAYS,
+    calibrateWeights,
+    describeCalibrationChange,
+    type CalibrationProposal,
+} from '../../utils/weightCalibration'
+
+type CalibrationRequest = {
+    windowDays: number
+    leadDays: number
+    baseSettings: RMSSettings
+}
+
+type CalibrationResultProps = {
+    request: CalibrationRequest
+    canApply: boolean
+    onApply: (proposal: CalibrationProposal) => void
+    onDismiss: () => void
+}
+
+/** Loads the past window, runs the search and shows the proposal for review. */
+const CalibrationResult: React.FC<CalibrationResultProps> = ({ request, canApply, onApply, onDismiss }) => {
+    const hotelId = useActiveHotelId()
+    const { input, isLoading } = useBacktestData(hotelId, request.windowDays)
+
+    const proposal = useMemo(() => {
+        if (isLoading) return null
+        return calibrateWeights(prepareBacktest({ ...input, leadDays: request.leadDays }), request.baseSettings)
+    }, [input, isLoading, request])
+
+    if (!proposal) {
+        return (
+            <div className="flex items-center gap-2 rounded-xl border border-slate-200 bg-white p-4 text-sm font-semibold text-slate-500">
+                <Loader2 className="h-4 w-4 animate-spin" /> Calibration en cours...
+            </div>
+        )
+    }
+
+    const tiles = [
+        { label: 'Nuits rejouees', value: `${proposal.baseline.evaluatedDays}` },
+        { label: 'CA estime actuel', value: formatCurrency(proposal.baseline.revenueProxy) },
+        { label: 'CA estime calibre', value: formatCurrency(proposal.calibrated.revenueProxy) },
+        { label: 'RevPAR estime', value: `${formatCurrency(proposal.baseline.revparProxy)} -> ${formatCurrency(proposal.calibrated.revparProxy)}` },
+    ]
+
+    return (
+        <div className="space-y-4 rounded-xl border border-slate-200 bg-white p-4">
+            <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+                {tiles.map((tile) => (
+                    <div key={tile.label} className="rounded-xl border border-slate-200 p-3">
+                        <p className="text-[11px] font-bold uppercase tracking-[0.18em] text-slate-500">{tile.label}</p>
+                        <p className="mt-1 text-lg font-black tracking-tight text-slate-900">{tile.value}</p>
+                    </div>
+                ))}
+            </div>
+
+            {proposal.isImprovement ? (
+                <div className="space-y-2">
+                    <p className="text-sm font-semibold text-emerald-700">
+                        +{proposal.improvementPct.toFixed(1)}% de CA estime apres {proposal.evaluatedCandidates} combinaisons testees
+                        (ecart moyen au tarif vendu {formatCurrency(proposal.baseline.priceMae)} -&gt; {formatCurrency(proposal.calibrated.priceMae)}).
+                    </p>
+                    <ul className="list-disc space-y-1 pl-5 text-sm text-slate-700">
+                        {proposal.changes.map((change) => (
+                            <li key={change.key}>{describeCalibrationChange(change)}</li>
+                        ))}
+                    </ul>
+                </div>
+            ) : (
+                <p className="text-sm font-semibold text-slate-600">
+                    {proposal.baseline.evaluatedDays < MIN_CALIBRATION_DAYS
+                        ? `Historique insuffisant: au moins ${MIN_CALIBRATION_DAYS} nuits avec apercu marche date sont necessaires.`
+                        : 'Aucune combinaison ne fait mieux que les parametres actuels: ils sont conserves.'}
+                </p>
+            )}
+
+            <p className="text-xs text-slate-500">
+                CA estime: chambres vendues chaque nuit, ajustees au tarif recommande par une elasticite prix constante et plafonnees a la capacite.
+                Les tarifs restent bornes par les prix et ADR min/max actuels.
+            </p>
+
+            <div className="flex flex-wrap gap-2">
+                {proposal.isImprovement && (
+                    <button
+                        type="button"
+                        onClick={() => onApply(proposal)}
+                        disabled={!canApply}
+                        className="inline-flex items-center gap-2 rounded-xl bg-slate-900 px-4 py-2 text-xs font-black uppercase tracking-wide text-white disabled:opacity-40"
+                    >
+                        <CheckCircle2 className="h-4 w-4" /> Appliquer la proposition
+                    </button>
+                )}
+                <button
+                    type="button"
+                    onClick={onDismiss}
+                    className="inline-flex items-center gap-2 rounded-xl border border-slate-200 px-4 py-2 text-xs font-bold uppercase tracking-wide text-slate-700"
+                >
+                    <X className="h-4 w-4" /> Ignorer
+                </button>
+            </div>
+        </div>
+    )
+}
+
+type WeightCalibrationPanelProps = {
+    settings: RMSSettings
+    canApply: boolean
+    onApply: (patch: Partial<RMSSettings>) => void
+}
+
+/**
+ * Searches the engine weights against the backtest of a past window. An applied
+ * proposal only updates the form: it is saved with the rest of the page.
+ */
+export const WeightCalibrationPanel: React.FC<WeightCalibrationPanelProps> = ({ settings, canApply, onApply }) => {
+    const [windowDays, setWindowDays] = useState(90)
+    const [leadDays, setLeadDays] = useState(7)
+    const [request, setRequest] = useState<CalibrationRequest | null>(null)
+    const [applied, setApplied] = useState(false)
+
+    const applyProposal = (proposal: CalibrationProposal) => {
+        onApply(Object.fromEntries(proposal.changes.map((change) => [change.key, change.to])))
+        setRequest(null)
+        setApplied(true)
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-3 text-sm font-semibold text-slate-700">
+                <label className="flex flex-col gap-1">
+                    Historique
+                    <select
+                        value={windowDays}
+                        onChange={(event) => setWindowDays(Number(event.target.value))}
+                        className="rounded-lg border border-slate-200 px-2 py-1"
+                    >
+                        {BACKTEST_WINDOW_OPTIONS.map((days) => (
+                            <option key={days} value={days}>{days} derniers jours</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex flex-col gap-1">
+                    Decision a
+                    <select
+                        value={leadDays}
+                        onChange={(event) => setLeadDays(Number(event.target.value))}
+                        className="rounded-lg border border-slate-200 px-2 py-1"
+                    >
+                        {BACKTEST_LEAD_OPTIONS.map((days) => (
+                            <option key={days} value={days}>J-{days}</option>
+                        ))}
+                    </select>
+                </label>
+                <button
+                    type="button"
+                    onClick={() => {
+                        setApplied(false)
+                        setRequest({ windowDays, leadDays, baseSettings: settings })
+                    }}
+                    className="inline-flex items-center gap-2 rounded-xl bg-slate-900 px-4 py-2 text-xs font-black uppercase tracking-wide text-white"
+                >
+                    <Wand2 className="h-4 w-4" /> Lancer la calibration
+                </button>
+            </div>
+
+            {applied && (
+                <div className="rounded-xl border border-emerald-200 bg-emerald-50 p-3 text-sm font-semibold text-emerald-700">
+                    Proposition reportee dans les curseurs: verifiez puis enregistrez.
+                </div>
+            )}
+
+            {request && (
+                <CalibrationResult request={request} canApply={canApply} onApply={applyProposal} onDismiss={() => setRequest(null)} />
+            )}
+        </div>
+    )
+}
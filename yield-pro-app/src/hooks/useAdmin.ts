@@ -0,0 +1,317 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { supabaseRest } from '../lib/supabaseRest'
+import { useAuthStore } from '../store/useAuthStore'
+import type { Database, Json } from '../types/database.types'
+import { pushMetric } from '../utils/metricsLogger'
+import type { HotelRole } from '../utils/permissions'
+import { getDefaultDashboardConfigJson } from './useDashboardConfig'
+
+export type AdminAuditLogRow = Database['public']['Tables']['admin_audit_log']['Row']
+export type UserInvitationRow = Database['public']['Tables']['user_invitations']['Row']
+type AdminAuditLogInsert = Database['public']['Tables']['admin_audit_log']['Insert']
+type UserProfileRow = Database['public']['Tables']['user_profiles']['Row']
+type HotelRow = Database['public']['Tables']['hotels']['Row']
+type CompetitorRow = Database['public']['Tables']['hotels_concurrents']['Row']
+
+export type AdminAuditTarget = AdminAuditLogInsert['target_type']
+
+type AdminActionPayload = {
+  action: string
+  targetType: AdminAuditTarget
+  targetId?: string | null
+  targetLabel?: string | null
+  hotelId?: string | null
+  details?: unknown
+}
+
+/**
+ * Appends an entry to admin_audit_log for the signed-in user. The action itself
+ * is already stored, so a failed audit write is logged instead of surfaced.
+ */
+export const recordAdminAction = async ({ action, targetType, targetId, targetLabel, hotelId, details }: AdminActionPayload) => {
+  const { user } = useAuthStore.getState()
+  if (!user) return
+
+  try {
+    await supabaseRest('admin_audit_log', {
+      method: 'POST',
+      body: {
+        actor_id: user.id,
+        actor_email: user.email ?? null,
+        action,
+        target_type: targetType,
+        target_id: targetId ?? null,
+        target_label: targetLabel ?? null,
+        hotel_id: hotelId ?? null,
+        details: (details ?? {}) as Json,
+      } satisfies AdminAuditLogInsert,
+      errorLabel: 'Failed to record admin action',
+    })
+  } catch (error) {
+    pushMetric('admin_audit_error', {
+      action,
+      message: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
+
+export const useAdminAuditLog = (limit = 100) => {
+  return useQuery({
+    queryKey: ['admin-audit-log', limit],
+    queryFn: async (): Promise<AdminAuditLogRow[]> => {
+      const { data, error } = await supabase
+        .from('admin_audit_log')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit)
+
+      if (error) throw error
+      return (data || []) as AdminAuditLogRow[]
+    },
+  })
+}
+
+export const usePendingInvitations = () => {
+  return useQuery({
+    queryKey: ['user-invitations'],
+    queryFn: async (): Promise<UserInvitationRow[]> => {
+      const { data, error } = await supabase
+        .from('user_invitations')
+        .select('*')
+        .is('accepted_at', null)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      return (data || []) as UserInvitationRow[]
+    },
+  })
+}
+
+/**
+ * Stores the invitation (hotel and role are applied when the profile is created,
+ * see ADMIN_USERS.sql) and emails a sign-in link to the invited address.
+ */
+export const useInviteUser = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (payload: { email: string; hotel_id: string; role: HotelRole }) => {
+      const { user } = useAuthStore.getState()
+      if (!user) return
+      const email = payload.email.trim().toLowerCase()
+
+      await supabaseRest('user_invitations?on_conflict=email,hotel_id', {
+        method: 'POST',
+        prefer: 'resolution=merge-duplicates,return=minimal',
+        body: {
+          email,
+          hotel_id: payload.hotel_id,
+          role: payload.role,
+          invited_by: user.id,
+          invited_by_email: user.email ?? null,
+          accepted_at: null,
+        },
+        errorLabel: 'Failed to save invitation',
+      })
+
+      const { error } = await supabase.auth.signInWithOtp({
+        email,
+        options: {
+          shouldCreateUser: true,
+          emailRedirectTo: window.location.origin,
+        },
+      })
+      if (error) throw new Error(`Failed to send invitation email: ${error.message}`)
+
+      await recordAdminAction({
+        action: 'invite_user',
+        targetType: 'invitation',
+        targetLabel: email,
+        hotelId: payload.hotel_id,
+        details: { role: payload.role },
+      })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['user-invitations'] })
+      queryClient.invalidateQueries({ queryKey: ['admin-audit-log'] })
+    },
+  })
+}
+
+export const useRevokeInvitation = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (invitation: Pick<UserInvitationRow, 'id' | 'email' | 'hotel_id' | 'role'>) => {
+      await supabaseRest(`user_invitations?id=eq.${invitation.id}`, {
+        method: 'DELETE',
+        errorLabel: 'Failed to revoke invitation',
+      })
+      await recordAdminAction({
+        action: 'revoke_invitation',
+        targetType: 'invitation',
+        targetId: invitation.id,
+        targetLabel: invitation.email,
+        hotelId: invitation.hotel_id,
+        details: { role: invitation.role },
+      })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['user-invitations'] })
+      queryClient.invalidateQueries({ queryKey: ['admin-audit-log'] })
+    },
+  })
+}
+
+type ProfileChanges = Partial<Pick<UserProfileRow, 'is_active' | 'hotel_id' | 'role'>>
+
+const getProfileAction = (changes: ProfileChanges) => {
+  if (changes.is_active !== undefined) return changes.is_active ? 'reactivate_user' : 'deactivate_user'
+  if (changes.role !== undefined) return 'change_platform_role'
+  return 'change_default_hotel'
+}
+
+/** Activation, default hotel and platform role of a profile (super administrator only). */
+export const useUpdateUserProfile = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ profile, changes }: { profile: UserProfileRow; changes: ProfileChanges }) => {
+      await supabaseRest(`user_profiles?user_id=eq.${profile.user_id}`, {
+        method: 'PATCH',
+        body: { ...changes, updated_at: new Date().toISOString() },
+        errorLabel: 'Failed to update user profile',
+      })
+
+      const before = Object.fromEntries(Object.keys(changes).map((key) => [key, profile[key as keyof ProfileChanges]]))
+      await recordAdminAction({
+        action: getProfileAction(changes),
+        targetType: 'user',
+        targetId: profile.user_id,
+        targetLabel: profile.email,
+        hotelId: changes.hotel_id ?? profile.hotel_id,
+        details: { before, after: changes },
+      })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-users'] })
+      queryClient.invalidateQueries({ queryKey: ['admin-audit-log'] })
+    },
+  })
+}
+
+export const useResetDashboardConfig = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (profile: Pick<UserProfileRow, 'user_id' | 'email' | 'hotel_id'>) => {
+      await supabaseRest(`dashboard_config?user_id=eq.${profile.user_id}`, {
+        method: 'PATCH',
+        body: {
+          widgets: getDefaultDashboardConfigJson(),
+          updated_at: new Date().toISOString(),
+        },
+        errorLabel: 'Failed to reset dashboard config',
+      })
+      await recordAdminAction({
+        action: 'reset_dashboard_config',
+        targetType: 'dashboard_config',
+        targetId: profile.user_id,
+        targetLabel: profile.email,
+        hotelId: profile.hotel_id,
+      })
+    },
+    onSuccess: (_data, profile) => {
+      queryClient.invalidateQueries({ queryKey: ['dashboard-config', profile.user_id] })
+      queryClient.invalidateQueries({ queryKey: ['admin-audit-log'] })
+    },
+  })
+}
+
+export type HotelDraft = Pick<HotelRow, 'hotel_id' | 'code' | 'name'> & { id?: string }
+
+export const useSaveHotel = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, ...hotel }: HotelDraft) => {
+      await supabaseRest(id ? `hotels?id=eq.${id}` : 'hotels', {
+        method: id ? 'PATCH' : 'POST',
+        body: hotel,
+        errorLabel: 'Failed to save hotel',
+      })
+      await recordAdminAction({
+        action: id ? 'update_hotel' : 'create_hotel',
+        targetType: 'hotel',
+        targetId: id ?? hotel.hotel_id,
+        targetLabel: hotel.name || hotel.hotel_id,
+        hotelId: hotel.hotel_id,
+        details: hotel,
+      })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['hotels'] })
+      queryClient.invalidateQueries({ queryKey: ['admin-hotels'] })
+      queryClient.invalidateQueries({ queryKey: ['hotel-by-id'] })
+      queryClient.invalidateQueries({ queryKey: ['user-hotels'] })
+      queryClient.invalidateQueries({ queryKey: ['admin-audit-log'] })
+    },
+  })
+}
+
+export type CompetitorDraft = Pick<CompetitorRow, 'competitor_name' | 'source' | 'display_order' | 'is_active'> & {
+  id?: string
+  hotel_id: string
+}
+
+const invalidateCompetitorQueries = (queryClient: ReturnType<typeof useQueryClient>, hotelId: string) => {
+  queryClient.invalidateQueries({ queryKey: ['competitors', hotelId] })
+  queryClient.invalidateQueries({ queryKey: ['competitors-settings', hotelId] })
+  queryClient.invalidateQueries({ queryKey: ['competitors-list', hotelId] })
+  queryClient.invalidateQueries({ queryKey: ['admin-audit-log'] })
+}
+
+export const useSaveCompetitor = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, ...competitor }: CompetitorDraft) => {
+      await supabaseRest(id ? `hotels_concurrents?id=eq.${id}` : 'hotels_concurrents', {
+        method: id ? 'PATCH' : 'POST',
+        body: competitor,
+        errorLabel: 'Failed to save competitor',
+      })
+      await recordAdminAction({
+        action: id ? 'update_competitor' : 'create_competitor',
+        targetType: 'competitor',
+        targetId: id ?? null,
+        targetLabel: competitor.competitor_name,
+        hotelId: competitor.hotel_id,
+        details: competitor,
+      })
+    },
+    onSuccess: (_data, competitor) => invalidateCompetitorQueries(queryClient, competitor.hotel_id),
+  })
+}
+
+export const useDeleteCompetitor = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (competitor: Pick<CompetitorRow, 'id' | 'competitor_name'> & { hotel_id: string }) => {
+      await supabaseRest(`hotels_concurrents?id=eq.${competitor.id}`, {
+        method: 'DELETE',
+        errorLabel: 'Failed to delete competitor',
+      })
+      await recordAdminAction({
+        action: 'delete_competitor',
+        targetType: 'competitor',
+        targetId: competitor.id,
+        targetLabel: competitor.competitor_name,
+        hotelId: competitor.hotel_id,
+      })
+    },
+    onSuccess: (_data, competitor) => invalidateCompetitorQueries(queryClient, competitor.hotel_id),
+  })
+}
@@ -0,0 +1,45 @@
+import { useMemo } from 'react'
+import { addDays, startOfDay } from 'date-fns'
+import { useBookingApercu, useBookingExport } from './useBookingData'
+import { useEvents, useReservations } from './useHotelData'
+import { useChannelCommissions } from './useOtaConfig'
+import type { BacktestInput } from '../utils/backtest'
+import { STLY_OFFSET_DAYS, toPaceDateKey } from '../utils/bookingPace'
+import { eachDateKey } from '../utils/normalization'
+
+// Reservations arriving this many days before the window can still occupy its first nights.
+const ARRIVAL_PADDING_DAYS = 14
+
+/**
+ * Market snapshots, reservations, last year's bookings and events for the
+ * `windowDays` nights ending yesterday, shaped as a backtest input.
+ */
+export const useBacktestData = (hotelId: string, windowDays: number) => {
+  // Dates are memoized because some query keys hold Date objects.
+  const { windowStart, windowEnd, arrivalsStart } = useMemo(() => {
+    const end = addDays(startOfDay(new Date()), -1)
+    const start = addDays(end, -(windowDays - 1))
+    return { windowStart: start, windowEnd: end, arrivalsStart: addDays(start, -ARRIVAL_PADDING_DAYS) }
+  }, [windowDays])
+
+  const { data: apercuData, isLoading: loadingApercu } = useBookingApercu(hotelId, windowStart, windowEnd)
+  const { data: reservationsData, isLoading: loadingReservations } = useReservations(hotelId, arrivalsStart, windowEnd)
+  const { data: eventsData } = useEvents(hotelId, windowStart, windowEnd)
+  const { data: channelCommissions } = useChannelCommissions(hotelId)
+  const { data: bookingExportStlyData } = useBookingExport(
+    hotelId,
+    addDays(arrivalsStart, -STLY_OFFSET_DAYS),
+    addDays(windowEnd, -STLY_OFFSET_DAYS)
+  )
+
+  const input: Omit<BacktestInput, 'leadDays'> = useMemo(() => ({
+    stayDates: eachDateKey(toPaceDateKey(windowStart), toPaceDateKey(windowEnd)),
+    marketSnapshots: apercuData?.items || [],
+    reservations: reservationsData?.items || [],
+    historicalReservations: bookingExportStlyData?.items || [],
+    events: eventsData?.items || [],
+    channelCommissions: channelCommissions || [],
+  }), [apercuData, bookingExportStlyData, channelCommissions, eventsData, reservationsData, windowEnd, windowStart])
+
+  return { input, isLoading: loadingApercu || loadingReservations }
+}
@@ -2,7 +2,15 @@ import { addDays, format, startOfDay } from 'date-fns'
 import { useQuery } from '@tanstack/react-query'
 import { supabase } from '../lib/supabase'
 import type { Database } from '../types/database.types'
+import type { MarketDay, Normalized, Reservation } from '../types/domain'
 import { pushMetric } from '../utils/metricsLogger'
+import {
+  normalizeKey,
+  normalizeMarketDays,
+  normalizeReservations,
+  parseDate,
+  reportNormalizationIssues,
+} from '../utils/normalization'
 
 type BookingApercu = Database['public']['Tables']['booking_apercu']['Row']
 type BookingExport = Database['public']['Tables']['booking_export']['Row']
@@ -20,44 +28,6 @@ const BOOKING_EXPORT_CHUNK_SIZE = 20000
 const BOOKING_EXPORT_MAX_SCAN = 200000
 const ARRIVAL_COLUMNS = ['arrival_date']
 
-const normalizeKey = (value: string) =>
-  value
-    .normalize('NFD')
-    .replace(/[\u0300-\u036f]/g, '')
-    .replace(/[^a-zA-Z0-9]/g, '')
-    .toLowerCase()
-
-const toDate = (value: string | null | undefined): Date | null => {
-  if (!value) return null
-  const trimmed = value.trim()
-  if (!trimmed) return null
-
-  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})$/)
-  if (iso) {
-    const [, y, m, d] = iso
-    const local = new Date(Number(y), Number(m) - 1, Number(d))
-    if (!Number.isNaN(local.getTime())) return local
-  }
-
-  const frDash = trimmed.match(/^(\d{2})-(\d{2})-(\d{4})$/)
-  if (frDash) {
-    const [, d, m, y] = frDash
-    const local = new Date(Number(y), Number(m) - 1, Number(d))
-    if (!Number.isNaN(local.getTime())) return local
-  }
-
-  const frSlash = trimmed.match(/^(\d{2})\/(\d{2})\/(\d{4})$/)
-  if (frSlash) {
-    const [, d, m, y] = frSlash
-    const local = new Date(Number(y), Number(m) - 1, Number(d))
-    if (!Number.isNaN(local.getTime())) return local
-  }
-
-  const parsed = new Date(trimmed)
-  if (!Number.isNaN(parsed.getTime())) return parsed
-  return null
-}
-
 const getEffectiveWindow = (startDate: Date, endDate: Date) => {
   const today = startOfDay(new Date())
   const priorityEndCap = addDays(today, PRIORITY_WINDOW_DAYS)
@@ -111,7 +81,7 @@ const inferArrivalKey = (rows: BookingExportLike[], rangeStart: Date, rangeEnd:
     const record = row as Record<string, unknown>
     Object.entries(record).forEach(([key, raw]) => {
       if (typeof raw !== 'string' || raw.trim() === '') return
-      const parsed = toDate(raw)
+      const parsed = parseDate(raw)
       if (!parsed) return
 
       const current = candidates.get(key) || { parseable: 0, inRange: 0 }
@@ -170,18 +140,18 @@ const extractArrivalRaw = (row: BookingExportLike, preferredKey?: string | null)
 }
 
 const getArrivalDate = (row: BookingExportLike, preferredKey?: string | null): Date | null => {
-  return toDate(extractArrivalRaw(row, preferredKey))
+  return parseDate(extractArrivalRaw(row, preferredKey))
 }
 
 const getApercuDate = (row: BookingApercuLike): Date | null => {
   const record = row as Record<string, unknown>
   const rawDate = row.date || (typeof record.Date === 'string' ? record.Date : null)
-  return toDate(rawDate)
+  return parseDate(rawDate)
 }
 
-const fetchBookingApercu = async (hotelId: string, startDate: Date, endDate: Date): Promise<BookingApercu[]> => {
+const fetchBookingApercu = async (hotelId: string, startDate: Date, endDate: Date): Promise<Normalized<MarketDay>> => {
   const { priorityStart, priorityEnd, requestedStart, requestedEnd, shouldFallbackToRequested, isValid } = getEffectiveWindow(startDate, endDate)
-  if (!isValid) return []
+  if (!isValid) return { items: [], issues: [] }
 
   const queryApercuRange = async (rangeStart: Date, rangeEnd: Date) => {
     const { data, error } = await supabase
@@ -198,7 +168,7 @@ const fetchBookingApercu = async (hotelId: string, startDate: Date, endDate: Dat
   }
 
   const t0 = performance.now()
-  let rows = await queryApercuRange(priorityStart, priorityEnd)
+  let rows: BookingApercu[] = await queryApercuRange(priorityStart, priorityEnd)
   let strategy = 'priority'
 
   if (rows.length === 0 && shouldFallbackToRequested) {
@@ -227,7 +197,9 @@ const fetchBookingApercu = async (hotelId: string, startDate: Date, endDate: Dat
     ms: Math.round(performance.now() - t0),
   })
 
-  return filtered
+  const normalized = normalizeMarketDays(filtered)
+  reportNormalizationIssues(hotelId, 'booking_apercu', normalized)
+  return normalized
 }
 
 const queryByArrivalColumn = async (hotelId: string, column: string, startDate: Date, endDate: Date): Promise<BookingExportLike[]> => {
@@ -303,9 +275,9 @@ const scanBookingExport = async (hotelId: string | null, rangeStart: Date, range
   return matches
 }
 
-const fetchBookingExport = async (hotelId: string, startDate: Date, endDate: Date): Promise<BookingExport[]> => {
+const fetchBookingExport = async (hotelId: string, startDate: Date, endDate: Date): Promise<Normalized<Reservation>> => {
   const { priorityStart, priorityEnd, requestedStart, requestedEnd, shouldFallbackToRequested, isValid } = getEffectiveWindow(startDate, endDate)
-  if (!isValid) return []
+  if (!isValid) return { items: [], issues: [] }
 
   const t0 = performance.now()
   pushMetric('booking_export_fetch_start', {
@@ -336,22 +308,20 @@ const fetchBookingExport = async (hotelId: string, startDate: Date, endDate: Dat
       strategy = 'scan-global'
     }
 
-    const sorted = rows.sort((a, b) => {
-      const da = getArrivalDate(a)?.getTime() ?? 0
-      const db = getArrivalDate(b)?.getTime() ?? 0
-      return da - db
-    })
+    const normalized = normalizeReservations(rows)
+    normalized.items.sort((a, b) => a.arrivalDate.localeCompare(b.arrivalDate))
 
     pushMetric('booking_export_fetch', {
       hotelId,
       strategy,
       requestedStart: format(requestedStart, 'yyyy-MM-dd'),
       requestedEnd: format(requestedEnd, 'yyyy-MM-dd'),
-      rowsReturned: sorted.length,
+      rowsReturned: normalized.items.length,
       ms: Math.round(performance.now() - t0),
     })
+    reportNormalizationIssues(hotelId, 'booking_export', normalized)
 
-    return sorted
+    return normalized
   } catch (error) {
     pushMetric('booking_export_fetch_error', {
       hotelId,
@@ -0,0 +1,39 @@
+import { useMemo } from 'react'
+import { addDays } from 'date-fns'
+import { useBookingExport } from './useBookingData'
+import { useAttritionHistory } from './useOverbookingPlan'
+import { STLY_OFFSET_DAYS, toPaceDateKey } from '../utils/bookingPace'
+import { buildCancellationTimingCurve, forecastCancellations, summarizeCancellations } from '../utils/cancellationAnalytics'
+import { eachDateKey } from '../utils/normalization'
+import { buildAttritionModel } from '../utils/overbooking'
+
+/**
+ * Cancellation analytics over the attrition history, and the cancellations
+ * expected on the period. The forecast learns its rates on last year's
+ * reservations, like the RMS engine when it nets the rooms on the books.
+ */
+export const useCancellationAnalytics = (hotelId: string, startDate: Date, endDate: Date) => {
+  const { history, isLoading: loadingHistory } = useAttritionHistory(hotelId)
+  const { data: bookingExportData, isLoading: loadingBookings } = useBookingExport(hotelId, startDate, endDate)
+  const { data: bookingExportStlyData } = useBookingExport(
+    hotelId,
+    addDays(startDate, -STLY_OFFSET_DAYS),
+    addDays(endDate, -STLY_OFFSET_DAYS)
+  )
+
+  const summary = useMemo(() => summarizeCancellations(history), [history])
+  const timingCurve = useMemo(() => buildCancellationTimingCurve(history), [history])
+
+  const forecast = useMemo(() => {
+    const asOf = new Date()
+    const model = buildAttritionModel(bookingExportStlyData?.items ?? [], asOf)
+    return forecastCancellations(
+      eachDateKey(toPaceDateKey(startDate), toPaceDateKey(endDate)),
+      bookingExportData?.items ?? [],
+      model,
+      asOf
+    )
+  }, [bookingExportData, bookingExportStlyData, endDate, startDate])
+
+  return { history, summary, timingCurve, forecast, isLoading: loadingHistory || loadingBookings }
+}
@@ -0,0 +1,198 @@
+import { useMemo, useState } from 'react'
+import { addDays, startOfDay } from 'date-fns'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { supabaseRest } from '../lib/supabaseRest'
+import { useAuthStore } from '../store/useAuthStore'
+import type { Database, Json } from '../types/database.types'
+import {
+  DEFAULT_COMPETITOR_ALERT_RULES,
+  evaluateCompetitorAlerts,
+  getCompetitorAlertKey,
+  type CompetitorAlertRule,
+  type CompetitorAlertState,
+  type CompetitorAlertTrigger,
+} from '../utils/competitorAlerts'
+import { pushMetric } from '../utils/metricsLogger'
+import { toDateKey } from '../utils/normalization'
+import { useCompetitorRateHistory, useCompset } from './useCompetitorData'
+
+export type CompetitorAlert = Database['public']['Tables']['competitor_alerts']['Row']
+type CompetitorAlertRuleRow = Database['public']['Tables']['competitor_alert_rules']['Row']
+
+const OPEN_STATES: CompetitorAlertState[] = ['new', 'acknowledged']
+
+/** Saved rules of the hotel, completed with the defaults for the kinds never configured. */
+const fetchCompetitorAlertRules = async (hotelId: string): Promise<CompetitorAlertRule[]> => {
+  const { data, error } = await supabase
+    .from('competitor_alert_rules')
+    .select('*')
+    .eq('hotel_id', hotelId)
+
+  if (error) throw error
+  const saved = new Map(((data || []) as CompetitorAlertRuleRow[]).map((row) => [row.kind, row] as const))
+
+  return DEFAULT_COMPETITOR_ALERT_RULES.map((rule) => {
+    const row = saved.get(rule.kind)
+    if (!row) return rule
+    return {
+      kind: rule.kind,
+      enabled: row.enabled,
+      thresholdPct: Number(row.threshold_pct),
+      horizonDays: row.horizon_days,
+      comparisonDays: row.comparison_days,
+    }
+  })
+}
+
+export const useCompetitorAlertRules = (hotelId: string) => {
+  return useQuery({
+    queryKey: ['competitor-alert-rules', hotelId],
+    queryFn: () => fetchCompetitorAlertRules(hotelId),
+    enabled: !!hotelId,
+  })
+}
+
+export const useSaveCompetitorAlertRules = (hotelId: string) => {
+  const queryClient = useQueryClient()
+  const { user, profile } = useAuthStore()
+
+  return useMutation({
+    mutationFn: async (rules: CompetitorAlertRule[]) => {
+      await supabaseRest('competitor_alert_rules?on_conflict=hotel_id,kind', {
+        method: 'POST',
+        prefer: 'resolution=merge-duplicates,return=minimal',
+        body: rules.map((rule) => ({
+          hotel_id: hotelId,
+          kind: rule.kind,
+          enabled: rule.enabled,
+          threshold_pct: rule.thresholdPct,
+          horizon_days: rule.horizonDays,
+          comparison_days: rule.comparisonDays,
+          updated_by: user?.email ?? profile?.email ?? null,
+          updated_at: new Date().toISOString(),
+        })),
+        errorLabel: 'Failed to save competitor alert rules',
+      })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['competitor-alert-rules', hotelId] })
+      queryClient.invalidateQueries({ queryKey: ['competitor-alerts', hotelId] })
+    },
+  })
+}
+
+const fetchOpenAlerts = async (hotelId: string): Promise<CompetitorAlert[]> => {
+  const { data, error } = await supabase
+    .from('competitor_alerts')
+    .select('*')
+    .eq('hotel_id', hotelId)
+    .in('state', OPEN_STATES)
+    .order('stay_date', { ascending: true })
+
+  if (error) throw error
+  return (data || []) as CompetitorAlert[]
+}
+
+/**
+ * Stores the triggers that have no open alert yet and resolves the open alerts
+ * whose condition no longer holds. Returns the open alerts after the sync.
+ */
+const syncCompetitorAlerts = async (hotelId: string, triggers: CompetitorAlertTrigger[], canResolve: boolean) => {
+  const open = await fetchOpenAlerts(hotelId)
+  const openKeys = new Set(open.map((alert) => getCompetitorAlertKey(alert.kind, alert.stay_date, alert.competitor_name)))
+  const triggerKeys = new Set(triggers.map((trigger) => getCompetitorAlertKey(trigger.kind, trigger.stayDate, trigger.competitor)))
+
+  const raised = triggers.filter((trigger) => !openKeys.has(getCompetitorAlertKey(trigger.kind, trigger.stayDate, trigger.competitor)))
+  const resolved = canResolve
+    ? open.filter((alert) => !triggerKeys.has(getCompetitorAlertKey(alert.kind, alert.stay_date, alert.competitor_name)))
+    : []
+
+  if (raised.length > 0) {
+    await supabaseRest('competitor_alerts?on_conflict=fingerprint', {
+      method: 'POST',
+      prefer: 'resolution=ignore-duplicates,return=minimal',
+      body: raised.map((trigger) => ({
+        hotel_id: hotelId,
+        kind: trigger.kind,
+        stay_date: trigger.stayDate,
+        competitor_name: trigger.competitor,
+        shopped_at: trigger.shoppedAt,
+        fingerprint: `${getCompetitorAlertKey(trigger.kind, trigger.stayDate, trigger.competitor)}|${trigger.shoppedAt}`,
+        message: trigger.message,
+        details: trigger.details as Json,
+      })),
+      errorLabel: 'Failed to record competitor alerts',
+    })
+  }
+
+  if (resolved.length > 0) {
+    await supabaseRest(`competitor_alerts?id=in.(${resolved.map((alert) => alert.id).join(',')})`, {
+      method: 'PATCH',
+      body: { state: 'resolved', resolved_at: new Date().toISOString() },
+      errorLabel: 'Failed to resolve competitor alerts',
+    })
+  }
+
+  if (raised.length > 0 || resolved.length > 0) {
+    pushMetric('competitor_alerts_sync', { hotelId, raised: raised.length, resolved: resolved.length })
+    return fetchOpenAlerts(hotelId)
+  }
+  return open
+}
+
+/**
+ * Open competitor alerts of the hotel. The rules are evaluated against the rate
+ * shopper history of the coming dates each time a new collection (or a rule or
+ * compset change) is seen, and the alert table is brought up to date first.
+ */
+export const useCompetitorAlerts = (hotelId: string) => {
+  const [today] = useState(() => startOfDay(new Date()))
+  const { data: rules } = useCompetitorAlertRules(hotelId)
+  const compset = useCompset(hotelId)
+
+  const horizonEnd = useMemo(() => {
+    const horizon = Math.max(0, ...(rules || []).filter((rule) => rule.enabled).map((rule) => rule.horizonDays))
+    return addDays(today, horizon)
+  }, [rules, today])
+
+  const { data: history } = useCompetitorRateHistory(hotelId, today, horizonEnd)
+  const latestShop = useMemo(
+    () => (history?.items || []).reduce((max, rate) => (rate.shoppedAt > max ? rate.shoppedAt : max), ''),
+    [history]
+  )
+  const compsetKey = Array.from(compset.members).sort().join('|')
+  const todayKey = toDateKey(today)
+
+  return useQuery({
+    queryKey: ['competitor-alerts', hotelId, todayKey, latestShop, rules, compsetKey],
+    queryFn: () => {
+      const items = history?.items || []
+      const triggers = evaluateCompetitorAlerts(rules || [], items, compset.isInCompset, todayKey)
+      // Without any collection for the coming dates nothing can be confirmed, so nothing is resolved either.
+      return syncCompetitorAlerts(hotelId, triggers, items.length > 0)
+    },
+    enabled: !!hotelId && !!rules && !!history,
+  })
+}
+
+export const useUpdateCompetitorAlertState = (hotelId: string) => {
+  const queryClient = useQueryClient()
+  const { user, profile } = useAuthStore()
+
+  return useMutation({
+    mutationFn: async ({ alert, state }: { alert: CompetitorAlert; state: Exclude<CompetitorAlertState, 'new'> }) => {
+      const now = new Date().toISOString()
+      await supabaseRest(`competitor_alerts?id=eq.${alert.id}`, {
+        method: 'PATCH',
+        body: state === 'acknowledged'
+          ? { state, acknowledged_at: now, acknowledged_by: user?.email ?? profile?.email ?? null }
+          : { state, resolved_at: now },
+        errorLabel: 'Failed to update competitor alert',
+      })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['competitor-alerts', hotelId] })
+    },
+  })
+}
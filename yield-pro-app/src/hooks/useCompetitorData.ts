@@ -1,53 +1,75 @@
-import { useQuery } from '@tanstack/react-query'
+import { format, subDays } from 'date-fns'
+import { useMemo } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { supabase } from '../lib/supabase'
+import { supabaseRest } from '../lib/supabaseRest'
 import type { Database } from '../types/database.types'
+import type { CompetitorRate, Normalized } from '../types/domain'
+import { selectRateSnapshot } from '../utils/competitorTrends'
+import { normalizeCompetitorRates, normalizeKey, reportNormalizationIssues } from '../utils/normalization'
 
-type BookingTarifs = Database['public']['Tables']['booking_tarifs']['Row']
 type HotelConcurrent = Database['public']['Tables']['hotels_concurrents']['Row']
-type GenericTrendRow = Record<string, unknown>
-type LooseSelectQuery = {
-    select: (columns: string) => LooseFilterQuery
-}
-type LooseFilterQuery = {
-    eq: (column: string, value: unknown) => LooseFilterQuery
-    gte: (column: string, value: string) => LooseFilterQuery
-    lte: (column: string, value: string) => LooseFilterQuery
-    order: (column: string, opts: { ascending: boolean }) => Promise<{ data: unknown[] | null; error: { message: string } | null }>
-}
+type HotelRow = Database['public']['Tables']['hotels']['Row']
 
-const fetchCompetitorRates = async (hotelId: string, startDate: Date, endDate: Date): Promise<BookingTarifs[]> => {
+const PAGE_SIZE = 1000
+// Collections older than this before the first stay date are not needed for the J-3 / J-7 views.
+const HISTORY_LOOKBACK_DAYS = 30
+
+/** Name of the hotel in the hotels table, used to find its own rates among the rate shopper rows. */
+const fetchOwnHotelName = async (hotelId: string): Promise<string | null> => {
     const { data, error } = await supabase
-        .from('booking_tarifs')
+        .from('hotels')
         .select('*')
-        .eq('hotel_id', hotelId)
-        .gte('Date', startDate.toISOString().split('T')[0])
-        .lte('Date', endDate.toISOString().split('T')[0])
-        .order('Date', { ascending: true })
+        .or(`hotel_id.eq.${hotelId},code.eq.${hotelId}`)
+        .limit(1)
+        .maybeSingle()
 
     if (error) throw error
-    return data || []
+    return (data as HotelRow | null)?.name ?? null
 }
 
-const fetchCompetitorTrendTable = async (
-    tableName: 'booking_vs_3j' | 'booking_vs_7j',
-    hotelId: string,
-    startDate: Date,
-    endDate: Date
-): Promise<GenericTrendRow[]> => {
-    const client = supabase as unknown as { from: (table: string) => LooseSelectQuery }
+/** Every collection of the rate shopper for the stay dates of the range. */
+const fetchCompetitorRateHistory = async (hotelId: string, startDate: Date, endDate: Date): Promise<Normalized<CompetitorRate>> => {
+    const ownHotelName = await fetchOwnHotelName(hotelId)
+    const rows: Array<Database['public']['Tables']['competitor_rates']['Row']> = []
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+        const { data, error } = await supabase
+            .from('competitor_rates')
+            .select('*')
+            .eq('hotel_id', hotelId)
+            .gte('stay_date', format(startDate, 'yyyy-MM-dd'))
+            .lte('stay_date', format(endDate, 'yyyy-MM-dd'))
+            .gte('shopped_at', format(subDays(startDate, HISTORY_LOOKBACK_DAYS), 'yyyy-MM-dd'))
+            .order('stay_date', { ascending: true })
+            .order('shopped_at', { ascending: true })
+            .range(offset, offset + PAGE_SIZE - 1)
 
-    const { data, error } = await client
-        .from(tableName)
-        .select('*')
-        .eq('hotel_id', hotelId)
-        .gte('Date', startDate.toISOString().split('T')[0])
-        .lte('Date', endDate.toISOString().split('T')[0])
-        .order('Date', { ascending: true })
+        if (error) throw error
+        rows.push(...(data || []))
+        if (!data || data.length < PAGE_SIZE) break
+    }
 
-    if (error) throw error
-    return (data || []) as GenericTrendRow[]
+    const normalized = normalizeCompetitorRates(rows, ownHotelName)
+    reportNormalizationIssues(hotelId, 'competitor_rates', normalized)
+    return normalized
 }
 
+const snapshotSelector = (daysBack: number) => (history: Normalized<CompetitorRate>): Normalized<CompetitorRate> => ({
+    items: selectRateSnapshot(history.items, daysBack),
+    issues: history.issues,
+})
+
+// Module-level so react-query keeps the memoized result between renders.
+const selectLatestRates = snapshotSelector(0)
+const selectRatesVs3j = snapshotSelector(3)
+const selectRatesVs7j = snapshotSelector(7)
+
+const competitorRateHistoryQuery = (hotelId: string, startDate: Date, endDate: Date) => ({
+    queryKey: ['competitor-rate-history', hotelId, startDate, endDate],
+    queryFn: () => fetchCompetitorRateHistory(hotelId, startDate, endDate),
+    enabled: !!hotelId,
+})
+
 const fetchCompetitorsList = async (hotelId: string): Promise<HotelConcurrent[]> => {
     const { data, error } = await supabase
         .from('hotels_concurrents')
@@ -60,12 +82,13 @@ const fetchCompetitorsList = async (hotelId: string): Promise<HotelConcurrent[]>
     return data || []
 }
 
+export const useCompetitorRateHistory = (hotelId: string, startDate: Date, endDate: Date) => {
+    return useQuery(competitorRateHistoryQuery(hotelId, startDate, endDate))
+}
+
+/** Latest collected rate per hotel and stay date. */
 export const useCompetitorRates = (hotelId: string, startDate: Date, endDate: Date) => {
-    return useQuery({
-        queryKey: ['competitor-rates', hotelId, startDate, endDate],
-        queryFn: () => fetchCompetitorRates(hotelId, startDate, endDate),
-        enabled: !!hotelId,
-    })
+    return useQuery({ ...competitorRateHistoryQuery(hotelId, startDate, endDate), select: selectLatestRates })
 }
 
 export const useCompetitorsList = (hotelId: string) => {
@@ -76,18 +99,55 @@ export const useCompetitorsList = (hotelId: string) => {
     })
 }
 
-export const useCompetitorRatesVs3j = (hotelId: string, startDate: Date, endDate: Date) => {
-    return useQuery({
-        queryKey: ['competitor-rates-vs-3j', hotelId, startDate, endDate],
-        queryFn: () => fetchCompetitorTrendTable('booking_vs_3j', hotelId, startDate, endDate),
-        enabled: !!hotelId,
+/**
+ * Hotels whose rates make up the compset median. Falls back to every competitor
+ * while hotels_concurrents has no active hotel for this property.
+ */
+export const useCompset = (hotelId: string) => {
+    const { data: competitors } = useCompetitorsList(hotelId)
+
+    return useMemo(() => {
+        const members = new Set((competitors || [])
+            .filter((competitor) => competitor.in_compset !== false && competitor.competitor_name)
+            .map((competitor) => normalizeKey(competitor.competitor_name || '')))
+        const isConfigured = (competitors || []).length > 0
+        return {
+            members,
+            isInCompset: (competitorName: string) => !isConfigured || members.has(normalizeKey(competitorName)),
+        }
+    }, [competitors])
+}
+
+/** Stores which active competitors count in the compset median. */
+export const useSaveCompset = (hotelId: string) => {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async (rows: Array<Pick<HotelConcurrent, 'id' | 'in_compset'>>) => {
+            for (const inCompset of [true, false]) {
+                const ids = rows.filter((row) => row.in_compset === inCompset).map((row) => row.id)
+                if (ids.length === 0) continue
+                await supabaseRest(`hotels_concurrents?id=in.(${ids.join(',')})`, {
+                    method: 'PATCH',
+                    body: { in_compset: inCompset },
+                    errorLabel: 'Failed to save compset',
+                })
+            }
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['competitors-list', hotelId] })
+            queryClient.invalidateQueries({ queryKey: ['competitors-settings', hotelId] })
+            queryClient.invalidateQueries({ queryKey: ['competitors', hotelId] })
+        },
     })
 }
 
+/** Rates as collected 3 days before the latest collection. */
+export const useCompetitorRatesVs3j = (hotelId: string, startDate: Date, endDate: Date) => {
+    return useQuery({ ...competitorRateHistoryQuery(hotelId, startDate, endDate), select: selectRatesVs3j })
+}
+
+/** Rates as collected 7 days before the latest collection. */
 export const useCompetitorRatesVs7j = (hotelId: string, startDate: Date, endDate: Date) => {
-    return useQuery({
-        queryKey: ['competitor-rates-vs-7j', hotelId, startDate, endDate],
-        queryFn: () => fetchCompetitorTrendTable('booking_vs_7j', hotelId, startDate, endDate),
-        enabled: !!hotelId,
-    })
+    return useQuery({ ...competitorRateHistoryQuery(hotelId, startDate, endDate), select: selectRatesVs7j })
 }
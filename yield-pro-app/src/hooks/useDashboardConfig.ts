@@ -2,6 +2,16 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { supabase } from '../lib/supabase'
 import { useAuthStore } from '../store/useAuthStore'
 import type { Database, Json } from '../types/database.types'
+import { pushMetric } from '../utils/metricsLogger'
+import { DEFAULT_OVERBOOKING_SETTINGS, type OverbookingSettings } from '../utils/overbooking'
+import { DEFAULT_PRICING_CALENDAR, type PricingCalendarSettings, type PricingSeason } from '../utils/pricingCalendar'
+import {
+    DEFAULT_RATE_PLAN_RULES,
+    type RatePlanDerivationSettings,
+    type RatePlanRounding,
+    type RatePlanRule
+} from '../utils/ratePlanRules'
+import { recordSettingsChange } from './useSettingsHistory'
 
 export interface DashboardWidgets {
     revenue: boolean
@@ -14,11 +24,14 @@ export interface DashboardWidgets {
     alerts: boolean
     events: boolean
     bookingPace: boolean
+    acquisitionCost: boolean
 }
 
 export interface RMSSettings {
     hotelCapacity: number
     roomTypeCapacities: Record<string, number>
+    baseRoomType: string
+    roomTypeDifferentials: Record<string, number>
     strategy: 'conservative' | 'balanced' | 'aggressive'
     targetOccupancy: number
     minAdr: number
@@ -33,6 +46,11 @@ export interface RMSSettings {
     pickupWeight: number
     priceStep: number
     autoApproveThresholdPct: number
+    ratePlans: RatePlanDerivationSettings
+    calendar: PricingCalendarSettings
+    overbooking: OverbookingSettings
+    // Takes the cancellations expected before arrival off the rooms on the books fed to the forecast.
+    netExpectedCancellations: boolean
 }
 
 export interface UISettings {
@@ -57,12 +75,15 @@ const defaultWidgets: DashboardWidgets = {
     yieldRecommendations: true,
     alerts: true,
     events: true,
-    bookingPace: true
+    bookingPace: true,
+    acquisitionCost: true
 }
 
 const defaultRmsSettings: RMSSettings = {
     hotelCapacity: 45,
     roomTypeCapacities: {},
+    baseRoomType: 'Double Classique',
+    roomTypeDifferentials: {},
     strategy: 'balanced',
     targetOccupancy: 82,
     minAdr: 95,
@@ -76,7 +97,16 @@ const defaultRmsSettings: RMSSettings = {
     eventWeight: 0.2,
     pickupWeight: 0.15,
     priceStep: 2,
-    autoApproveThresholdPct: 4
+    autoApproveThresholdPct: 4,
+    ratePlans: {
+        barPlanCode: 'OTA-RO-FLEX',
+        breakfastPrice: 15,
+        rounding: 'unit',
+        rules: DEFAULT_RATE_PLAN_RULES
+    },
+    calendar: DEFAULT_PRICING_CALENDAR,
+    overbooking: DEFAULT_OVERBOOKING_SETTINGS,
+    netExpectedCancellations: false
 }
 
 const defaultUI: UISettings = {
@@ -118,6 +148,82 @@ const parseStrategy = (value: unknown, fallback: RMSSettings['strategy']) => {
     return fallback
 }
 
+const parseRounding = (value: unknown, fallback: RatePlanRounding): RatePlanRounding => {
+    if (value === 'none' || value === 'unit' || value === 'five' || value === 'nine') {
+        return value
+    }
+    return fallback
+}
+
+const parseRatePlans = (value: unknown): RatePlanDerivationSettings => {
+    const fallback = defaultRmsSettings.ratePlans
+    const node = asRecord(value)
+    if (!node) return fallback
+
+    const rules = Array.isArray(node.rules)
+        ? node.rules.reduce<RatePlanRule[]>((acc, entry, index) => {
+            const rule = asRecord(entry)
+            if (!rule || typeof rule.pattern !== 'string' || !rule.pattern.trim()) return acc
+            acc.push({
+                id: typeof rule.id === 'string' && rule.id ? rule.id : `rule-${index}`,
+                label: typeof rule.label === 'string' ? rule.label : rule.pattern,
+                pattern: rule.pattern,
+                adjustmentPct: parseNumber(rule.adjustmentPct, 0),
+                adjustmentAmount: parseNumber(rule.adjustmentAmount, 0),
+                breakfastCount: Math.max(0, parseNumber(rule.breakfastCount, 0)),
+                floor: Math.max(0, parseNumber(rule.floor, 0))
+            })
+            return acc
+        }, [])
+        : fallback.rules
+
+    return {
+        barPlanCode: typeof node.barPlanCode === 'string' && node.barPlanCode.trim() ? node.barPlanCode : fallback.barPlanCode,
+        breakfastPrice: Math.max(0, parseNumber(node.breakfastPrice, fallback.breakfastPrice)),
+        rounding: parseRounding(node.rounding, fallback.rounding),
+        rules
+    }
+}
+
+const parseCalendar = (value: unknown): PricingCalendarSettings => {
+    const fallback = defaultRmsSettings.calendar
+    const node = asRecord(value)
+    if (!node) return fallback
+
+    const weekdays = Array.isArray(node.weekdayAdjustmentsPct) ? node.weekdayAdjustmentsPct : []
+    const seasons = Array.isArray(node.seasons)
+        ? node.seasons.reduce<PricingSeason[]>((acc, entry, index) => {
+            const season = asRecord(entry)
+            if (!season || typeof season.startDate !== 'string' || typeof season.endDate !== 'string') return acc
+            if (!season.startDate || season.endDate < season.startDate) return acc
+            acc.push({
+                id: typeof season.id === 'string' && season.id ? season.id : `season-${index}`,
+                name: typeof season.name === 'string' && season.name.trim() ? season.name : `Saison ${index + 1}`,
+                startDate: season.startDate,
+                endDate: season.endDate,
+                adjustmentPct: parseNumber(season.adjustmentPct, 0)
+            })
+            return acc
+        }, [])
+        : fallback.seasons
+
+    return {
+        weekdayAdjustmentsPct: fallback.weekdayAdjustmentsPct.map((pct, weekday) => parseNumber(weekdays[weekday], pct)),
+        seasons,
+        holidayAdjustmentPct: parseNumber(node.holidayAdjustmentPct, fallback.holidayAdjustmentPct)
+    }
+}
+
+const parseOverbooking = (value: unknown): OverbookingSettings => {
+    const fallback = defaultRmsSettings.overbooking
+    const node = asRecord(value)
+    if (!node) return fallback
+    return {
+        walkCost: Math.max(0, parseNumber(node.walkCost, fallback.walkCost)),
+        maxOverbookingPct: Math.max(0, parseNumber(node.maxOverbookingPct, fallback.maxOverbookingPct))
+    }
+}
+
 const parseConfig = (input: Json | null | undefined): DashboardConfigPayload => {
     const root = asRecord(input)
     if (!root) return defaultConfig
@@ -153,6 +259,13 @@ const parseConfig = (input: Json | null | undefined): DashboardConfigPayload =>
         return acc
     }, {})
 
+    const roomTypeDifferentialsNode = asRecord(rmsNode.roomTypeDifferentials)
+    const roomTypeDifferentials = Object.entries(roomTypeDifferentialsNode || {}).reduce<Record<string, number>>((acc, [key, value]) => {
+        const parsed = parseNumber(value, 0)
+        if (key.trim() && parsed > -100) acc[key] = parsed
+        return acc
+    }, {})
+
     return {
         version: parseNumber(root.version, 2),
         widgets: {
@@ -165,11 +278,16 @@ const parseConfig = (input: Json | null | undefined): DashboardConfigPayload =>
             yieldRecommendations: parseBoolean(widgetsNode.yieldRecommendations, defaultWidgets.yieldRecommendations),
             alerts: parseBoolean(widgetsNode.alerts, defaultWidgets.alerts),
             events: parseBoolean(widgetsNode.events, defaultWidgets.events),
-            bookingPace: parseBoolean(widgetsNode.bookingPace, defaultWidgets.bookingPace)
+            bookingPace: parseBoolean(widgetsNode.bookingPace, defaultWidgets.bookingPace),
+            acquisitionCost: parseBoolean(widgetsNode.acquisitionCost, defaultWidgets.acquisitionCost)
         },
         rms: {
             hotelCapacity: parseNumber(rmsNode.hotelCapacity, defaultRmsSettings.hotelCapacity),
             roomTypeCapacities,
+            baseRoomType: typeof rmsNode.baseRoomType === 'string' && rmsNode.baseRoomType.trim()
+                ? rmsNode.baseRoomType
+                : defaultRmsSettings.baseRoomType,
+            roomTypeDifferentials,
             strategy: parseStrategy(rmsNode.strategy, defaultRmsSettings.strategy),
             targetOccupancy: parseNumber(rmsNode.targetOccupancy, defaultRmsSettings.targetOccupancy),
             minAdr: parseNumber(rmsNode.minAdr, defaultRmsSettings.minAdr),
@@ -183,7 +301,11 @@ const parseConfig = (input: Json | null | undefined): DashboardConfigPayload =>
             eventWeight: parseNumber(rmsNode.eventWeight, defaultRmsSettings.eventWeight),
             pickupWeight: parseNumber(rmsNode.pickupWeight, defaultRmsSettings.pickupWeight),
             priceStep: parseNumber(rmsNode.priceStep, defaultRmsSettings.priceStep),
-            autoApproveThresholdPct: parseNumber(rmsNode.autoApproveThresholdPct, defaultRmsSettings.autoApproveThresholdPct)
+            autoApproveThresholdPct: parseNumber(rmsNode.autoApproveThresholdPct, defaultRmsSettings.autoApproveThresholdPct),
+            ratePlans: parseRatePlans(rmsNode.ratePlans),
+            calendar: parseCalendar(rmsNode.calendar),
+            overbooking: parseOverbooking(rmsNode.overbooking),
+            netExpectedCancellations: parseBoolean(rmsNode.netExpectedCancellations, defaultRmsSettings.netExpectedCancellations)
         },
         ui: {
             compactMode: parseBoolean(uiNode.compactMode, defaultUI.compactMode),
@@ -201,8 +323,15 @@ const toJsonPayload = (config: DashboardConfigPayload): Json => {
     } as unknown as Json
 }
 
+/** Stored payload of a fresh configuration, written when an administrator resets a user. */
+export const getDefaultDashboardConfigJson = (): Json => toJsonPayload(defaultConfig)
+
+/** RMS settings stored outside dashboard_config (sandbox scenarios), with the same defaults and validation. */
+export const parseRmsSettings = (input: Json | null | undefined): RMSSettings =>
+    parseConfig({ version: 2, widgets: {}, rms: input ?? {} }).rms
+
 export const useDashboardConfig = () => {
-    const { user } = useAuthStore()
+    const { user, profile } = useAuthStore()
     const queryClient = useQueryClient()
 
     const { data: config = defaultConfig, isLoading } = useQuery({
@@ -226,6 +355,7 @@ export const useDashboardConfig = () => {
     const updateConfig = useMutation({
         mutationFn: async (nextConfig: DashboardConfigPayload) => {
             if (!user) return
+            const previousRms = config.rms
 
             const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
             const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
@@ -257,9 +387,27 @@ export const useDashboardConfig = () => {
                 const errorText = await response.text()
                 throw new Error(`Failed to save dashboard config: ${errorText}`)
             }
+
+            if (JSON.stringify(previousRms) !== JSON.stringify(nextConfig.rms)) {
+                // The config itself is saved at this point; a failed audit row must not fail the save.
+                try {
+                    await recordSettingsChange({
+                        hotel_id: profile?.hotel_id || null,
+                        user_id: user.id,
+                        user_email: user.email ?? profile?.email ?? null,
+                        before: previousRms,
+                        after: nextConfig.rms
+                    })
+                } catch (error) {
+                    pushMetric('settings_history_error', {
+                        message: error instanceof Error ? error.message : String(error)
+                    })
+                }
+            }
         },
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ['dashboard-config', user?.id] })
+            queryClient.invalidateQueries({ queryKey: ['settings-history'] })
         }
     })
 
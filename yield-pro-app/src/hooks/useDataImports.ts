@@ -0,0 +1,237 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { supabaseRest } from '../lib/supabaseRest'
+import { useAuthStore } from '../store/useAuthStore'
+import type { Database, Json } from '../types/database.types'
+import { IMPORT_TARGETS, getNaturalKey, type ImportTable, type ImportValue } from '../utils/importMapping'
+import { pushMetric } from '../utils/metricsLogger'
+
+export type ImportBatch = Database['public']['Tables']['import_batches']['Row']
+type ImportBatchRowRecord = Database['public']['Tables']['import_batch_rows']['Row']
+type StoredRow = Record<string, unknown> & { id: string }
+
+export interface RunImportInput {
+  table: ImportTable
+  fileName: string
+  records: Array<Record<string, ImportValue>>
+  skippedCount: number
+}
+
+const WRITE_CHUNK_SIZE = 500
+const KEY_CHUNK_SIZE = 150
+const READ_PAGE_SIZE = 1000
+
+// Query prefixes to refresh once a table has been written.
+const AFFECTED_QUERY_KEYS: Record<ImportTable, string[]> = {
+  booking_export: ['booking-export', 'reservations'],
+  booking_apercu: ['booking-apercu'],
+  booking_tarifs: ['competitor-rate-history'],
+  disponibilites: ['disponibilites'],
+}
+
+const chunk = <T,>(items: T[], size: number) => {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size))
+  return chunks
+}
+
+const inFilter = (values: string[]) => `in.(${values.map((value) => `"${value.replace(/"/g, '\\"')}"`).map(encodeURIComponent).join(',')})`
+
+/** Existing rows of the hotel that share a natural key with the import, keyed like getNaturalKey. */
+const fetchExistingRows = async (table: ImportTable, hotelId: string, records: Array<Record<string, ImportValue>>) => {
+  const [lookupColumn] = IMPORT_TARGETS[table].naturalKey
+  const lookupValues = Array.from(new Set(records.map((record) => String(record[lookupColumn] ?? '')).filter(Boolean)))
+  const existing = new Map<string, StoredRow>()
+
+  for (const values of chunk(lookupValues, KEY_CHUNK_SIZE)) {
+    const rows = (await supabaseRest(
+      `${table}?select=*&hotel_id=eq.${encodeURIComponent(hotelId)}&${encodeURIComponent(lookupColumn)}=${inFilter(values)}`,
+      { method: 'GET', errorLabel: `Failed to read ${table}` }
+    )) as StoredRow[]
+    rows.forEach((row) => {
+      const key = getNaturalKey(row as Record<string, ImportValue>, table)
+      if (!existing.has(key)) existing.set(key, row)
+    })
+  }
+
+  return existing
+}
+
+const fetchBatchRows = async (batchId: string) => {
+  const rows: ImportBatchRowRecord[] = []
+  for (let offset = 0; ; offset += READ_PAGE_SIZE) {
+    const page = (await supabaseRest(
+      `import_batch_rows?select=*&batch_id=eq.${batchId}&order=id&limit=${READ_PAGE_SIZE}&offset=${offset}`,
+      { method: 'GET', errorLabel: 'Failed to read import batch rows' }
+    )) as ImportBatchRowRecord[]
+    rows.push(...page)
+    if (page.length < READ_PAGE_SIZE) break
+  }
+  return rows
+}
+
+const fetchImportBatches = async (hotelId: string): Promise<ImportBatch[]> => {
+  const { data, error } = await supabase
+    .from('import_batches')
+    .select('*')
+    .eq('hotel_id', hotelId)
+    .order('created_at', { ascending: false })
+    .limit(50)
+
+  if (error) throw error
+  return data || []
+}
+
+export const useImportBatches = (hotelId: string) => {
+  return useQuery({
+    queryKey: ['import-batches', hotelId],
+    queryFn: () => fetchImportBatches(hotelId),
+    enabled: !!hotelId,
+  })
+}
+
+const invalidateImportedData = (queryClient: ReturnType<typeof useQueryClient>, hotelId: string, table: ImportTable) => {
+  queryClient.invalidateQueries({ queryKey: ['import-batches', hotelId] })
+  AFFECTED_QUERY_KEYS[table].forEach((prefix) => {
+    queryClient.invalidateQueries({ queryKey: [prefix, hotelId] })
+  })
+}
+
+/**
+ * Upserts by natural key: rows already stored for the hotel are updated in place
+ * (their previous state is journaled first), the others are inserted with an id
+ * generated here so they are journaled before being written too.
+ */
+export const useRunImport = (hotelId: string) => {
+  const queryClient = useQueryClient()
+  const { user, profile } = useAuthStore()
+
+  return useMutation({
+    mutationFn: async ({ table, fileName, records, skippedCount }: RunImportInput) => {
+      const t0 = performance.now()
+      const rows = records.map((record) => ({ ...record, hotel_id: hotelId }))
+      const existing = await fetchExistingRows(table, hotelId, rows)
+
+      const updates: Array<{ row: Record<string, unknown>; previous: StoredRow }> = []
+      const inserts: StoredRow[] = []
+      rows.forEach((row) => {
+        const previous = existing.get(getNaturalKey(row, table))
+        if (previous) updates.push({ row: { ...row, id: previous.id }, previous })
+        else inserts.push({ ...row, id: crypto.randomUUID() })
+      })
+
+      const [batch] = (await supabaseRest('import_batches', {
+        method: 'POST',
+        prefer: 'return=representation',
+        body: {
+          hotel_id: hotelId,
+          target_table: table,
+          file_name: fileName,
+          row_count: rows.length,
+          inserted_count: inserts.length,
+          updated_count: updates.length,
+          skipped_count: skippedCount,
+          user_id: user?.id ?? null,
+          user_email: user?.email ?? profile?.email ?? null,
+        },
+        errorLabel: 'Failed to create import batch',
+      })) as ImportBatch[]
+
+      // Journal every row before writing it so the batch can always be rolled back.
+      for (const part of chunk(updates, WRITE_CHUNK_SIZE)) {
+        await supabaseRest('import_batch_rows', {
+          method: 'POST',
+          body: part.map(({ previous }) => ({
+            batch_id: batch.id,
+            target_table: table,
+            row_id: previous.id,
+            action: 'update',
+            previous: previous as unknown as Json,
+          })),
+          errorLabel: 'Failed to journal import rows',
+        })
+        await supabaseRest(`${table}?on_conflict=id`, {
+          method: 'POST',
+          prefer: 'resolution=merge-duplicates,return=minimal',
+          body: part.map(({ row }) => row),
+          errorLabel: `Failed to update ${table}`,
+        })
+      }
+
+      for (const part of chunk(inserts, WRITE_CHUNK_SIZE)) {
+        await supabaseRest('import_batch_rows', {
+          method: 'POST',
+          body: part.map((row) => ({ batch_id: batch.id, target_table: table, row_id: row.id, action: 'insert', previous: null })),
+          errorLabel: 'Failed to journal import rows',
+        })
+        await supabaseRest(table, {
+          method: 'POST',
+          body: part,
+          errorLabel: `Failed to insert into ${table}`,
+        })
+      }
+
+      pushMetric('data_import', {
+        hotelId,
+        table,
+        fileName,
+        inserted: inserts.length,
+        updated: updates.length,
+        skipped: skippedCount,
+        ms: Math.round(performance.now() - t0),
+      })
+
+      return batch
+    },
+    onSuccess: (_batch, variables) => invalidateImportedData(queryClient, hotelId, variables.table),
+  })
+}
+
+/** Deletes the rows a batch inserted and restores the ones it overwrote. */
+export const useRollbackImport = (hotelId: string) => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (batch: ImportBatch) => {
+      if (batch.status !== 'applied') return batch.target_table
+      const journal = await fetchBatchRows(batch.id)
+      const insertedIds = journal.filter((row) => row.action === 'insert').map((row) => row.row_id)
+      const previousRows = journal
+        .filter((row) => row.action === 'update' && row.previous)
+        .map((row) => row.previous as Record<string, unknown>)
+
+      for (const ids of chunk(insertedIds, KEY_CHUNK_SIZE)) {
+        await supabaseRest(`${batch.target_table}?id=in.(${ids.join(',')})`, {
+          method: 'DELETE',
+          errorLabel: `Failed to delete imported ${batch.target_table} rows`,
+        })
+      }
+
+      for (const part of chunk(previousRows, WRITE_CHUNK_SIZE)) {
+        await supabaseRest(`${batch.target_table}?on_conflict=id`, {
+          method: 'POST',
+          prefer: 'resolution=merge-duplicates,return=minimal',
+          body: part,
+          errorLabel: `Failed to restore ${batch.target_table} rows`,
+        })
+      }
+
+      await supabaseRest(`import_batches?id=eq.${batch.id}`, {
+        method: 'PATCH',
+        body: { status: 'rolled_back', rolled_back_at: new Date().toISOString() },
+        errorLabel: 'Failed to mark import batch as rolled back',
+      })
+
+      pushMetric('data_import_rollback', {
+        hotelId,
+        table: batch.target_table,
+        batchId: batch.id,
+        deleted: insertedIds.length,
+        restored: previousRows.length,
+      })
+
+      return batch.target_table
+    },
+    onSuccess: (table) => invalidateImportedData(queryClient, hotelId, table),
+  })
+}
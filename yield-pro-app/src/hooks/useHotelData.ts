@@ -2,9 +2,16 @@ import { addDays, format, startOfDay } from 'date-fns'
 import { useQuery } from '@tanstack/react-query'
 import { supabase } from '../lib/supabase'
 import type { Database } from '../types/database.types'
+import type { HotelEvent, InventoryDay, Normalized, Reservation } from '../types/domain'
+import {
+  normalizeHotelEvents,
+  normalizeInventoryDays,
+  normalizeReservations,
+  parseDate,
+  reportNormalizationIssues,
+} from '../utils/normalization'
 
 type EventsCalendar = Database['public']['Tables']['events_calendar']['Row']
-type Disponibilites = Database['public']['Tables']['disponibilites']['Row']
 type BookingExport = Database['public']['Tables']['booking_export']['Row']
 
 type BookingExportLike = BookingExport & {
@@ -17,30 +24,6 @@ const PRIORITY_WINDOW_DAYS = 90
 const BOOKING_EXPORT_CHUNK_SIZE = 20000
 const BOOKING_EXPORT_MAX_SCAN = 120000
 
-const toDate = (value: string | null | undefined): Date | null => {
-  if (!value) return null
-
-  const isoMatch = value.match(/^(\d{4})-(\d{2})-(\d{2})$/)
-  if (isoMatch) {
-    const [, year, month, day] = isoMatch
-    const localIso = new Date(Number(year), Number(month) - 1, Number(day))
-    if (!Number.isNaN(localIso.getTime())) return localIso
-  }
-
-  const parsed = new Date(value)
-  if (!Number.isNaN(parsed.getTime())) return parsed
-
-  if (value.includes('/')) {
-    const [day, month, year] = value.split('/').map(Number)
-    if (day && month && year) {
-      const fallback = new Date(year, month - 1, day)
-      if (!Number.isNaN(fallback.getTime())) return fallback
-    }
-  }
-
-  return null
-}
-
 const getEffectiveWindow = (startDate: Date, endDate: Date) => {
   const today = startOfDay(new Date())
   const priorityEndCap = addDays(today, PRIORITY_WINDOW_DAYS)
@@ -83,7 +66,7 @@ const getArrivalDate = (row: BookingExportLike): Date | null => {
     || (typeof record["Date d'arrivÃ©e"] === 'string' ? record["Date d'arrivÃ©e"] : null)
     || (typeof record["Date d'arrivÃƒÂ©e"] === 'string' ? record["Date d'arrivÃƒÂ©e"] : null)
 
-  return toDate(rawArrival)
+  return parseDate(rawArrival)
 }
 
 const scanBookingExport = async (hotelId: string | null, rangeStart: Date, rangeEnd: Date): Promise<BookingExportLike[]> => {
@@ -120,18 +103,13 @@ const scanBookingExport = async (hotelId: string | null, rangeStart: Date, range
   return matches
 }
 
-const fetchEvents = async (hotelId: string, startDate: Date, endDate: Date): Promise<EventsCalendar[]> => {
+const fetchEvents = async (hotelId: string, startDate: Date, endDate: Date): Promise<Normalized<HotelEvent>> => {
   const { priorityStart, priorityEnd, requestedStart, requestedEnd, shouldFallbackToRequested, isValid } = getEffectiveWindow(startDate, endDate)
-  if (!isValid) return []
-
-  const parseEventDate = (value: unknown) => {
-    if (typeof value !== 'string' || !value.trim()) return null
-    return toDate(value)
-  }
+  if (!isValid) return { items: [], issues: [] }
 
   const eventOverlaps = (row: EventLike, rangeStart: Date, rangeEnd: Date) => {
-    const start = parseEventDate(row['DÃ©but'] ?? row['Début'] ?? row.start_date)
-    const end = parseEventDate(row['Fin'] ?? row.end_date) || start
+    const start = parseDate(row['DÃ©but'] ?? row['Début'] ?? row.start_date)
+    const end = parseDate(row['Fin'] ?? row.end_date) || start
     if (!start || !end) return false
     return start <= rangeEnd && end >= rangeStart
   }
@@ -152,7 +130,9 @@ const fetchEvents = async (hotelId: string, startDate: Date, endDate: Date): Pro
     rows = await queryRange(requestedStart, requestedEnd)
   }
 
-  return rows as EventsCalendar[]
+  const normalized = normalizeHotelEvents(rows as EventsCalendar[])
+  reportNormalizationIssues(hotelId, 'events_calendar', normalized)
+  return normalized
 }
 
 export const useEvents = (hotelId: string, startDate: Date, endDate: Date) => {
@@ -163,9 +143,9 @@ export const useEvents = (hotelId: string, startDate: Date, endDate: Date) => {
   })
 }
 
-const fetchDisponibilites = async (hotelId: string, startDate: Date, endDate: Date): Promise<Disponibilites[]> => {
+const fetchDisponibilites = async (hotelId: string, startDate: Date, endDate: Date): Promise<Normalized<InventoryDay>> => {
   const { priorityStart, priorityEnd, requestedStart, requestedEnd, shouldFallbackToRequested, isValid } = getEffectiveWindow(startDate, endDate)
-  if (!isValid) return []
+  if (!isValid) return { items: [], issues: [] }
 
   const queryRange = async (rangeStart: Date, rangeEnd: Date) => {
     const { data, error } = await supabase
@@ -185,7 +165,9 @@ const fetchDisponibilites = async (hotelId: string, startDate: Date, endDate: Da
     rows = await queryRange(requestedStart, requestedEnd)
   }
 
-  return rows
+  const normalized = normalizeInventoryDays(rows)
+  reportNormalizationIssues(hotelId, 'disponibilites', normalized)
+  return normalized
 }
 
 export const useDisponibilites = (hotelId: string, startDate: Date, endDate: Date) => {
@@ -196,9 +178,9 @@ export const useDisponibilites = (hotelId: string, startDate: Date, endDate: Dat
   })
 }
 
-const fetchReservations = async (hotelId: string, startDate: Date, endDate: Date): Promise<BookingExport[]> => {
+const fetchReservations = async (hotelId: string, startDate: Date, endDate: Date): Promise<Normalized<Reservation>> => {
   const { priorityStart, priorityEnd, requestedStart, requestedEnd, shouldFallbackToRequested, isValid } = getEffectiveWindow(startDate, endDate)
-  if (!isValid) return []
+  if (!isValid) return { items: [], issues: [] }
 
   let rows = await scanBookingExport(hotelId, priorityStart, priorityEnd)
   if (rows.length === 0 && shouldFallbackToRequested) {
@@ -209,11 +191,10 @@ const fetchReservations = async (hotelId: string, startDate: Date, endDate: Date
     rows = await scanBookingExport(null, requestedStart, requestedEnd)
   }
 
-  return rows.sort((a, b) => {
-    const da = getArrivalDate(a)?.getTime() ?? 0
-    const db = getArrivalDate(b)?.getTime() ?? 0
-    return da - db
-  })
+  const normalized = normalizeReservations(rows)
+  normalized.items.sort((a, b) => a.arrivalDate.localeCompare(b.arrivalDate))
+  reportNormalizationIssues(hotelId, 'booking_export', normalized)
+  return normalized
 }
 
 export const useReservations = (hotelId: string, startDate: Date, endDate: Date) => {
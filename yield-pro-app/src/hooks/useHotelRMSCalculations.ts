@@ -0,0 +1,52 @@
+import { useMemo } from 'react'
+import { addDays } from 'date-fns'
+import { useBookingApercu, useBookingExport } from './useBookingData'
+import { useDashboardConfig } from './useDashboardConfig'
+import { useDisponibilites, useEvents, useReservations } from './useHotelData'
+import { useChannelCommissions } from './useOtaConfig'
+import { useRMSCalculations } from './useRMSCalculations'
+import { STLY_OFFSET_DAYS } from '../utils/bookingPace'
+
+/**
+ * RMS engine over the hotel data of the period, fed like the dashboard:
+ * reservations, availability, market overview, events, last year's
+ * booking_export for the pace and the partner commissions. Pages showing
+ * recommendations use it so they agree on the decision of a date.
+ */
+export const useHotelRMSCalculations = (hotelId: string, startDate: Date, endDate: Date) => {
+  const { config } = useDashboardConfig()
+  const { data: reservationsData, isLoading: loadingReservations } = useReservations(hotelId, startDate, endDate)
+  const { data: disponibilitesData, isLoading: loadingDisponibilites } = useDisponibilites(hotelId, startDate, endDate)
+  const { data: apercuData, isLoading: loadingApercu } = useBookingApercu(hotelId, startDate, endDate)
+  const { data: eventsData, isLoading: loadingEvents } = useEvents(hotelId, startDate, endDate)
+  const { data: bookingExportStlyData } = useBookingExport(
+    hotelId,
+    addDays(startDate, -STLY_OFFSET_DAYS),
+    addDays(endDate, -STLY_OFFSET_DAYS)
+  )
+  const { data: channelCommissions } = useChannelCommissions(hotelId)
+
+  const reservations = useMemo(() => reservationsData?.items ?? [], [reservationsData])
+  const inventory = useMemo(() => disponibilitesData?.items ?? [], [disponibilitesData])
+  const apercu = useMemo(() => apercuData?.items ?? [], [apercuData])
+  const events = useMemo(() => eventsData?.items ?? [], [eventsData])
+  const historicalReservations = useMemo(() => bookingExportStlyData?.items ?? [], [bookingExportStlyData])
+
+  const calculations = useRMSCalculations(
+    reservations,
+    inventory,
+    apercu,
+    config.rms,
+    events,
+    historicalReservations,
+    channelCommissions
+  )
+
+  return {
+    ...calculations,
+    inventory,
+    apercu,
+    events,
+    isLoading: loadingReservations || loadingDisponibilites || loadingApercu || loadingEvents,
+  }
+}
@@ -1,10 +1,25 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { supabase } from '../lib/supabase'
+import { supabaseRest } from '../lib/supabaseRest'
+import { useActiveHotelStore } from '../store/useActiveHotelStore'
+import { useAuthStore } from '../store/useAuthStore'
 import type { Database } from '../types/database.types'
+import { LEGACY_HOTEL_ROLE, type HotelRole } from '../utils/permissions'
+import { recordAdminAction } from './useAdmin'
 
 type HotelRow = Database['public']['Tables']['hotels']['Row']
 type CompetitorRow = Database['public']['Tables']['hotels_concurrents']['Row']
 type UserProfileRow = Database['public']['Tables']['user_profiles']['Row']
+export type UserHotelRow = Database['public']['Tables']['user_hotels']['Row']
+
+export const DEFAULT_HOTEL_ID = 'H2258'
+
+export type PortfolioHotel = {
+  hotelId: string
+  name: string
+  isDefault: boolean
+  role: HotelRole
+}
 
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
 
@@ -60,6 +75,125 @@ export const useHotelByHotelId = (hotelId: string | null | undefined) => {
   })
 }
 
+/**
+ * Hotel every page works on: the one opened from the portfolio in this tab,
+ * otherwise the profile hotel. Opening a hotel never rewrites the profile.
+ */
+export const useActiveHotelId = () => {
+  const { profile } = useAuthStore()
+  const activeHotelId = useActiveHotelStore((state) => state.activeHotelId)
+  return activeHotelId || profile?.hotel_id || DEFAULT_HOTEL_ID
+}
+
+const fetchUserHotels = async (userId: string, defaultHotelId: string | null, isAdmin: boolean): Promise<PortfolioHotel[]> => {
+  const [{ data, error }, hotels] = await Promise.all([
+    supabase.from('user_hotels').select('*').eq('user_id', userId),
+    fetchHotels(),
+  ])
+
+  if (error) throw error
+  const roles = new Map(((data || []) as UserHotelRow[]).map((row) => [row.hotel_id, row.role] as const))
+  // Profiles created before the memberships still see their own hotel.
+  if (defaultHotelId && !roles.has(defaultHotelId)) roles.set(defaultHotelId, LEGACY_HOTEL_ROLE)
+
+  return Array.from(roles.entries())
+    .map(([hotelId, role]) => {
+      const hotel = hotels.find((row) => row.hotel_id === hotelId || row.code === hotelId)
+      return {
+        hotelId,
+        name: hotel?.name || hotelId,
+        isDefault: hotelId === defaultHotelId,
+        // Same rule as hotel_role() in USER_ROLES.sql: the platform admin is group admin everywhere.
+        role: isAdmin ? 'group_admin' : role,
+      }
+    })
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/** Hotels the signed-in user is responsible for, the profile hotel included. */
+export const useUserHotels = () => {
+  const { user, profile } = useAuthStore()
+  const defaultHotelId = profile?.hotel_id || null
+  const isAdmin = profile?.role === 'admin'
+
+  return useQuery({
+    queryKey: ['user-hotels', user?.id, defaultHotelId, isAdmin],
+    queryFn: async (): Promise<PortfolioHotel[]> => {
+      if (!user) return []
+      return fetchUserHotels(user.id, defaultHotelId, isAdmin)
+    },
+    enabled: !!user,
+  })
+}
+
+/** Every membership the signed-in user may see: their own, or those of the hotels they manage. */
+export const useHotelMemberships = () => {
+  return useQuery({
+    queryKey: ['hotel-memberships'],
+    queryFn: async (): Promise<UserHotelRow[]> => {
+      const { data, error } = await supabase
+        .from('user_hotels')
+        .select('*')
+        .order('hotel_id', { ascending: true })
+
+      if (error) throw error
+      return (data || []) as UserHotelRow[]
+    },
+  })
+}
+
+export const useSaveHotelMembership = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ previousRole, ...payload }: Pick<UserHotelRow, 'user_id' | 'hotel_id' | 'role'> & { previousRole?: HotelRole }) => {
+      await supabaseRest('user_hotels?on_conflict=user_id,hotel_id', {
+        method: 'POST',
+        prefer: 'resolution=merge-duplicates,return=minimal',
+        body: payload,
+        errorLabel: 'Failed to save hotel membership',
+      })
+      await recordAdminAction({
+        action: previousRole ? 'change_hotel_role' : 'add_hotel_membership',
+        targetType: 'membership',
+        targetId: payload.user_id,
+        hotelId: payload.hotel_id,
+        details: { before: previousRole ?? null, after: payload.role },
+      })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['hotel-memberships'] })
+      queryClient.invalidateQueries({ queryKey: ['user-hotels'] })
+      queryClient.invalidateQueries({ queryKey: ['admin-audit-log'] })
+    },
+  })
+}
+
+export const useRemoveHotelMembership = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (membership: Pick<UserHotelRow, 'id' | 'user_id' | 'hotel_id' | 'role'>) => {
+      await supabaseRest(`user_hotels?id=eq.${membership.id}`, {
+        method: 'DELETE',
+        errorLabel: 'Failed to remove hotel membership',
+      })
+      await recordAdminAction({
+        action: 'remove_hotel_membership',
+        targetType: 'membership',
+        targetId: membership.user_id,
+        hotelId: membership.hotel_id,
+        details: { before: membership.role },
+      })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['hotel-memberships'] })
+      queryClient.invalidateQueries({ queryKey: ['user-hotels'] })
+      queryClient.invalidateQueries({ queryKey: ['admin-audit-log'] })
+    },
+  })
+}
+
 export const useUpdateCurrentUserHotel = () => {
   const queryClient = useQueryClient()
 
@@ -0,0 +1,107 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { supabaseRest } from '../lib/supabaseRest'
+import { useAuthStore } from '../store/useAuthStore'
+import type { Database } from '../types/database.types'
+import type { ChannelCommission } from '../utils/channelMix'
+import type { OtaConfig } from '../utils/otaConfig'
+
+type OtaPartnerRow = Database['public']['Tables']['ota_partners']['Row']
+type OtaDisplayOrderRow = Database['public']['Tables']['ota_display_orders']['Row']
+
+// Configuration of a hotel without saved partners: no commission and no distributed plan.
+export const EMPTY_OTA_CONFIG: OtaConfig = { partners: [], roomOrder: [], planOrder: [] }
+
+/** Saved partners and display orders of the hotel; each part is empty while the hotel has none. */
+const fetchOtaConfig = async (hotelId: string): Promise<OtaConfig> => {
+  const [partnersResult, orderResult] = await Promise.all([
+    supabase.from('ota_partners').select('*').eq('hotel_id', hotelId).order('display_order', { ascending: true }),
+    supabase.from('ota_display_orders').select('*').eq('hotel_id', hotelId).maybeSingle(),
+  ])
+
+  if (partnersResult.error) throw partnersResult.error
+  if (orderResult.error) throw orderResult.error
+  const partners = (partnersResult.data || []) as OtaPartnerRow[]
+  const order = orderResult.data as OtaDisplayOrderRow | null
+
+  return {
+    partners: partners.map((row) => ({ partner: row.partner, commissionPct: Number(row.commission_pct), planCodes: row.plan_codes || [] })),
+    roomOrder: order?.room_order ?? EMPTY_OTA_CONFIG.roomOrder,
+    planOrder: order?.plan_order ?? EMPTY_OTA_CONFIG.planOrder,
+  }
+}
+
+const toChannelCommissions = (config: OtaConfig): ChannelCommission[] =>
+  config.partners.map(({ partner, commissionPct }) => ({ partner, commissionPct }))
+
+const otaConfigQuery = (hotelId: string) => ({
+  queryKey: ['ota-config', hotelId],
+  queryFn: () => fetchOtaConfig(hotelId),
+  enabled: !!hotelId,
+})
+
+export const useOtaConfig = (hotelId: string) => {
+  return useQuery(otaConfigQuery(hotelId))
+}
+
+export const useChannelCommissions = (hotelId: string) => {
+  return useQuery({ ...otaConfigQuery(hotelId), select: toChannelCommissions })
+}
+
+/** Replaces the hotel's configuration: partners left out of the list are deleted. */
+export const useSaveOtaConfig = (hotelId: string) => {
+  const queryClient = useQueryClient()
+  const { user, profile } = useAuthStore()
+
+  return useMutation({
+    mutationFn: async (config: OtaConfig) => {
+      const updatedBy = user?.email ?? profile?.email ?? null
+      const updatedAt = new Date().toISOString()
+
+      const { data: existing, error } = await supabase.from('ota_partners').select('id, partner').eq('hotel_id', hotelId)
+      if (error) throw error
+      const kept = new Set(config.partners.map((entry) => entry.partner))
+      const removed = ((existing || []) as Pick<OtaPartnerRow, 'id' | 'partner'>[]).filter((row) => !kept.has(row.partner))
+
+      if (config.partners.length > 0) {
+        await supabaseRest('ota_partners?on_conflict=hotel_id,partner', {
+          method: 'POST',
+          prefer: 'resolution=merge-duplicates,return=minimal',
+          body: config.partners.map((entry, index) => ({
+            hotel_id: hotelId,
+            partner: entry.partner,
+            commission_pct: entry.commissionPct,
+            plan_codes: entry.planCodes,
+            display_order: index,
+            updated_by: updatedBy,
+            updated_at: updatedAt,
+          })),
+          errorLabel: 'Failed to save OTA partners',
+        })
+      }
+
+      if (removed.length > 0) {
+        await supabaseRest(`ota_partners?id=in.(${removed.map((row) => row.id).join(',')})`, {
+          method: 'DELETE',
+          errorLabel: 'Failed to delete OTA partners',
+        })
+      }
+
+      await supabaseRest('ota_display_orders?on_conflict=hotel_id', {
+        method: 'POST',
+        prefer: 'resolution=merge-duplicates,return=minimal',
+        body: {
+          hotel_id: hotelId,
+          room_order: config.roomOrder,
+          plan_order: config.planOrder,
+          updated_by: updatedBy,
+          updated_at: updatedAt,
+        },
+        errorLabel: 'Failed to save OTA display orders',
+      })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['ota-config', hotelId] })
+    },
+  })
+}
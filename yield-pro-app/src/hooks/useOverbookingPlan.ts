@@ -0,0 +1,51 @@
+import { useMemo } from 'react'
+import { addDays, startOfDay } from 'date-fns'
+import { useBookingExport } from './useBookingData'
+import { useDashboardConfig } from './useDashboardConfig'
+import { toPaceDateKey } from '../utils/bookingPace'
+import { eachDateKey } from '../utils/normalization'
+import { buildAttritionModel, planOverbooking } from '../utils/overbooking'
+
+// Past arrivals the cancellation and no-show rates are learnt from.
+export const ATTRITION_HISTORY_DAYS = 180
+
+/** booking_export rows arriving over the last ATTRITION_HISTORY_DAYS, up to yesterday. */
+export const useAttritionHistory = (hotelId: string) => {
+  // Dates are memoized because some query keys hold Date objects.
+  const { historyStart, historyEnd } = useMemo(() => {
+    const today = startOfDay(new Date())
+    return { historyStart: addDays(today, -ATTRITION_HISTORY_DAYS), historyEnd: addDays(today, -1) }
+  }, [])
+
+  const { data, isLoading } = useBookingExport(hotelId, historyStart, historyEnd)
+  const history = useMemo(() => data?.items ?? [], [data])
+  return { history, isLoading }
+}
+
+/**
+ * Attrition model learnt on the last ATTRITION_HISTORY_DAYS of booking_export
+ * arrivals, and the authorised overbooking of every room type over the period.
+ */
+export const useOverbookingPlan = (hotelId: string, startDate: Date, endDate: Date) => {
+  const { config } = useDashboardConfig()
+  const { history, isLoading: loadingHistory } = useAttritionHistory(hotelId)
+  const { data: bookingExportData, isLoading: loadingBookings } = useBookingExport(hotelId, startDate, endDate)
+
+  const model = useMemo(() => buildAttritionModel(history, new Date()), [history])
+
+  const days = useMemo(
+    () =>
+      planOverbooking({
+        stayDates: eachDateKey(toPaceDateKey(startDate), toPaceDateKey(endDate)),
+        reservations: bookingExportData?.items ?? [],
+        model,
+        settings: config.rms,
+        asOf: new Date(),
+      }),
+    [bookingExportData, config.rms, endDate, model, startDate]
+  )
+
+  const overLimit = useMemo(() => days.filter((day) => day.status === 'over_limit'), [days])
+
+  return { model, days, overLimit, isLoading: loadingHistory || loadingBookings }
+}
@@ -0,0 +1,28 @@
+import { useCallback, useMemo } from 'react'
+import { useAuthStore } from '../store/useAuthStore'
+import { hasPermission, type HotelRole, type Permission } from '../utils/permissions'
+import { useUserHotels } from './useHotels'
+
+/**
+ * Role of the signed-in user on a hotel and the permission check used to hide
+ * or disable actions. Supabase RLS enforces the same rules on write.
+ */
+export const usePermissions = (hotelId: string) => {
+  const { profile } = useAuthStore()
+  const { data: hotels, isLoading } = useUserHotels()
+
+  const role = useMemo<HotelRole | null>(() => {
+    if (profile?.role === 'admin') return 'group_admin'
+    return hotels?.find((hotel) => hotel.hotelId === hotelId)?.role ?? null
+  }, [hotelId, hotels, profile?.role])
+
+  const can = useCallback((permission: Permission) => hasPermission(role, permission), [role])
+
+  // User management spans the portfolio: managing one hotel is enough to open the admin screens.
+  const canOnAnyHotel = useCallback(
+    (permission: Permission) => profile?.role === 'admin' || (hotels || []).some((hotel) => hasPermission(hotel.role, permission)),
+    [hotels, profile?.role]
+  )
+
+  return { role, can, canOnAnyHotel, isLoading }
+}
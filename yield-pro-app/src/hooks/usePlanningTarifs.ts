@@ -5,6 +5,7 @@ import type { Database } from '../types/database.types'
 import { pushMetric } from '../utils/metricsLogger'
 
 type PlanningTarifRow = Database['public']['Tables']['planning_tarifs']['Row']
+export type PlanningTarifHistoryRow = Database['public']['Tables']['planning_tarifs_history']['Row']
 
 type PlanningTarifLike = PlanningTarifRow & {
   date: string
@@ -135,3 +136,29 @@ export const usePlanningTarifs = (hotelId: string, startDate: Date, endDate: Dat
     enabled: !!hotelId,
   })
 }
+
+// Filled by a trigger on planning_tarifs (SETTINGS_HISTORY.sql), whatever wrote the price.
+const fetchPlanningTarifsHistory = async (hotelId: string, fromIso: string, toIso: string): Promise<PlanningTarifHistoryRow[]> => {
+  const { data, error } = await supabase
+    .from('planning_tarifs_history')
+    .select('*')
+    .eq('hotel_id', hotelId)
+    .gte('changed_at', `${fromIso}T00:00:00`)
+    .lte('changed_at', `${toIso}T23:59:59.999`)
+    .order('changed_at', { ascending: false })
+    .limit(2000)
+
+  if (error) throw error
+  return data || []
+}
+
+export const usePlanningTarifsHistory = (hotelId: string, from: Date, to: Date) => {
+  const fromIso = format(from, 'yyyy-MM-dd')
+  const toIso = format(to, 'yyyy-MM-dd')
+
+  return useQuery({
+    queryKey: ['planning-tarifs-history', hotelId, fromIso, toIso],
+    queryFn: () => fetchPlanningTarifsHistory(hotelId, fromIso, toIso),
+    enabled: !!hotelId,
+  })
+}
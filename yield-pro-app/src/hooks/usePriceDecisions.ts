@@ -0,0 +1,91 @@
+import { format } from 'date-fns'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { supabaseRest } from '../lib/supabaseRest'
+import type { Database } from '../types/database.types'
+
+export type PriceDecisionRow = Database['public']['Tables']['price_decisions']['Row']
+export type PriceDecisionInsert = Database['public']['Tables']['price_decisions']['Insert']
+export type PriceDecisionStatus = PriceDecisionRow['decision']
+
+const fetchPriceDecisions = async (hotelId: string, startIso: string, endIso: string): Promise<PriceDecisionRow[]> => {
+  const { data, error } = await supabase
+    .from('price_decisions')
+    .select('*')
+    .eq('hotel_id', hotelId)
+    .gte('stay_date', startIso)
+    .lte('stay_date', endIso)
+    .order('decided_at', { ascending: false })
+    .limit(5000)
+
+  if (error) throw error
+  return data || []
+}
+
+export const usePriceDecisions = (hotelId: string, startDate: Date, endDate: Date) => {
+  const startIso = format(startDate, 'yyyy-MM-dd')
+  const endIso = format(endDate, 'yyyy-MM-dd')
+
+  return useQuery({
+    queryKey: ['price-decisions', hotelId, startIso, endIso],
+    queryFn: () => fetchPriceDecisions(hotelId, startIso, endIso),
+    enabled: !!hotelId,
+  })
+}
+
+const fetchPriceDecisionLog = async (hotelId: string, fromIso: string, toIso: string): Promise<PriceDecisionRow[]> => {
+  const { data, error } = await supabase
+    .from('price_decisions')
+    .select('*')
+    .eq('hotel_id', hotelId)
+    .gte('decided_at', `${fromIso}T00:00:00`)
+    .lte('decided_at', `${toIso}T23:59:59.999`)
+    .order('decided_at', { ascending: false })
+    .limit(5000)
+
+  if (error) throw error
+  return data || []
+}
+
+/** Same table as usePriceDecisions, but windowed on when the decision was taken rather than on the stay date. */
+export const usePriceDecisionLog = (hotelId: string, from: Date, to: Date) => {
+  const fromIso = format(from, 'yyyy-MM-dd')
+  const toIso = format(to, 'yyyy-MM-dd')
+
+  return useQuery({
+    queryKey: ['price-decisions', hotelId, 'log', fromIso, toIso],
+    queryFn: () => fetchPriceDecisionLog(hotelId, fromIso, toIso),
+    enabled: !!hotelId,
+  })
+}
+
+/**
+ * Rows are ordered newest first, so the first row seen per stay date is the one in force.
+ * `roomType` null selects the base room decisions.
+ */
+export const getLatestDecisionByDate = (rows: PriceDecisionRow[], roomType: string | null = null) => {
+  const map = new Map<string, PriceDecisionRow>()
+  rows.forEach((row) => {
+    if ((row.room_type ?? null) !== roomType) return
+    if (!map.has(row.stay_date)) map.set(row.stay_date, row)
+  })
+  return map
+}
+
+export const useRecordPriceDecisions = (hotelId: string) => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (rows: PriceDecisionInsert[]) => {
+      if (rows.length === 0) return
+      await supabaseRest('price_decisions', {
+        method: 'POST',
+        body: rows,
+        errorLabel: 'Failed to record price decisions',
+      })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['price-decisions', hotelId] })
+    },
+  })
+}
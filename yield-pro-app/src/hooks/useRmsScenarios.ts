@@ -0,0 +1,111 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { supabaseRest } from '../lib/supabaseRest'
+import { useAuthStore } from '../store/useAuthStore'
+import type { Database, Json } from '../types/database.types'
+import { parseRmsSettings, type RMSSettings } from './useDashboardConfig'
+
+type RmsScenarioRow = Database['public']['Tables']['rms_scenarios']['Row']
+
+export interface RmsScenario {
+  id: string
+  name: string
+  hotelId: string
+  settings: RMSSettings
+  updatedAt: string
+  promotedAt: string | null
+}
+
+const toScenario = (row: RmsScenarioRow): RmsScenario => ({
+  id: row.id,
+  name: row.name,
+  hotelId: row.hotel_id,
+  settings: parseRmsSettings(row.settings),
+  updatedAt: row.updated_at,
+  promotedAt: row.promoted_at,
+})
+
+/** Sandbox scenarios of the signed-in user for one hotel, most recently edited first. */
+export const useRmsScenarios = (hotelId: string) => {
+  const { user } = useAuthStore()
+
+  return useQuery({
+    queryKey: ['rms-scenarios', user?.id, hotelId],
+    queryFn: async (): Promise<RmsScenario[]> => {
+      if (!user) return []
+      const { data, error } = await supabase
+        .from('rms_scenarios')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('hotel_id', hotelId)
+        .order('updated_at', { ascending: false })
+
+      if (error) throw error
+      return ((data || []) as RmsScenarioRow[]).map(toScenario)
+    },
+    enabled: !!user && !!hotelId,
+  })
+}
+
+/** Saving under an existing name replaces that scenario. */
+export const useSaveRmsScenario = (hotelId: string) => {
+  const queryClient = useQueryClient()
+  const { user } = useAuthStore()
+
+  return useMutation({
+    mutationFn: async (payload: { name: string; settings: RMSSettings }) => {
+      if (!user) return
+      await supabaseRest('rms_scenarios?on_conflict=user_id,hotel_id,name', {
+        method: 'POST',
+        prefer: 'resolution=merge-duplicates,return=minimal',
+        body: {
+          user_id: user.id,
+          hotel_id: hotelId,
+          name: payload.name.trim(),
+          settings: payload.settings as unknown as Json,
+          updated_at: new Date().toISOString(),
+        },
+        errorLabel: 'Failed to save scenario',
+      })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['rms-scenarios', user?.id, hotelId] })
+    },
+  })
+}
+
+export const useDeleteRmsScenario = (hotelId: string) => {
+  const queryClient = useQueryClient()
+  const { user } = useAuthStore()
+
+  return useMutation({
+    mutationFn: async (scenarioId: string) => {
+      await supabaseRest(`rms_scenarios?id=eq.${scenarioId}`, {
+        method: 'DELETE',
+        errorLabel: 'Failed to delete scenario',
+      })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['rms-scenarios', user?.id, hotelId] })
+    },
+  })
+}
+
+/** Stamps the scenario once its settings were written to the live config. */
+export const useMarkScenarioPromoted = (hotelId: string) => {
+  const queryClient = useQueryClient()
+  const { user } = useAuthStore()
+
+  return useMutation({
+    mutationFn: async (scenarioId: string) => {
+      await supabaseRest(`rms_scenarios?id=eq.${scenarioId}`, {
+        method: 'PATCH',
+        body: { promoted_at: new Date().toISOString() },
+        errorLabel: 'Failed to mark scenario as promoted',
+      })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['rms-scenarios', user?.id, hotelId] })
+    },
+  })
+}
@@ -0,0 +1,45 @@
+import { format } from 'date-fns'
+import { useQuery } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { supabaseRest } from '../lib/supabaseRest'
+import type { Database, Json } from '../types/database.types'
+
+export type SettingsHistoryRow = Database['public']['Tables']['settings_history']['Row']
+type SettingsHistoryInsert = Database['public']['Tables']['settings_history']['Insert']
+
+const fetchSettingsHistory = async (hotelId: string, fromIso: string, toIso: string): Promise<SettingsHistoryRow[]> => {
+  const { data, error } = await supabase
+    .from('settings_history')
+    .select('*')
+    .eq('hotel_id', hotelId)
+    .gte('changed_at', `${fromIso}T00:00:00`)
+    .lte('changed_at', `${toIso}T23:59:59.999`)
+    .order('changed_at', { ascending: false })
+    .limit(2000)
+
+  if (error) throw error
+  return data || []
+}
+
+export const useSettingsHistory = (hotelId: string, from: Date, to: Date) => {
+  const fromIso = format(from, 'yyyy-MM-dd')
+  const toIso = format(to, 'yyyy-MM-dd')
+
+  return useQuery({
+    queryKey: ['settings-history', hotelId, fromIso, toIso],
+    queryFn: () => fetchSettingsHistory(hotelId, fromIso, toIso),
+    enabled: !!hotelId,
+  })
+}
+
+export const recordSettingsChange = async (payload: Omit<SettingsHistoryInsert, 'before' | 'after'> & { before: unknown; after: unknown }) => {
+  await supabaseRest('settings_history', {
+    method: 'POST',
+    body: {
+      ...payload,
+      before: payload.before as Json,
+      after: payload.after as Json,
+    },
+    errorLabel: 'Failed to record settings change',
+  })
+}
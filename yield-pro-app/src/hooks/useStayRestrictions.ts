@@ -0,0 +1,49 @@
+import { useMemo } from 'react'
+import { addDays } from 'date-fns'
+import { useBookingApercu, useBookingExport } from './useBookingData'
+import { useDashboardConfig } from './useDashboardConfig'
+import { useDisponibilites, useEvents } from './useHotelData'
+import { useRMSCalculations } from './useRMSCalculations'
+import { STLY_OFFSET_DAYS, shiftDateKey } from '../utils/bookingPace'
+import { recommendStayRestrictions, type StayRestriction } from '../utils/stayRestrictions'
+
+/**
+ * Stay restriction recommendations for the period. Stay patterns combine the
+ * booking_export reservations on the books with last year's, moved forward by
+ * STLY_OFFSET_DAYS so each night lines up with the same weekday last year.
+ */
+export const useStayRestrictions = (hotelId: string, startDate: Date, endDate: Date) => {
+  const { config } = useDashboardConfig()
+  const { data: apercuData, isLoading: loadingApercu } = useBookingApercu(hotelId, startDate, endDate)
+  const { data: disponibilitesData } = useDisponibilites(hotelId, startDate, endDate)
+  const { data: eventsData } = useEvents(hotelId, startDate, endDate)
+  const { data: bookingExportData, isLoading: loadingBookingExport } = useBookingExport(hotelId, startDate, endDate)
+  const { data: bookingExportStlyData } = useBookingExport(
+    hotelId,
+    addDays(startDate, -STLY_OFFSET_DAYS),
+    addDays(endDate, -STLY_OFFSET_DAYS)
+  )
+
+  const reservations = useMemo(() => bookingExportData?.items ?? [], [bookingExportData])
+  const historicalReservations = useMemo(() => bookingExportStlyData?.items ?? [], [bookingExportStlyData])
+  const inventory = useMemo(() => disponibilitesData?.items ?? [], [disponibilitesData])
+  const apercu = useMemo(() => apercuData?.items ?? [], [apercuData])
+  const events = useMemo(() => eventsData?.items ?? [], [eventsData])
+
+  const { dailyDecisions, rmsSettings } = useRMSCalculations(reservations, inventory, apercu, config.rms, events, historicalReservations)
+
+  const restrictions = useMemo(() => {
+    const lastYear = historicalReservations.map((reservation) => ({
+      ...reservation,
+      arrivalDate: shiftDateKey(reservation.arrivalDate, STLY_OFFSET_DAYS),
+    }))
+    return recommendStayRestrictions(dailyDecisions, [...reservations, ...lastYear], rmsSettings)
+  }, [dailyDecisions, historicalReservations, reservations, rmsSettings])
+
+  const restrictionByDate = useMemo(
+    () => new Map<string, StayRestriction>(restrictions.map((restriction) => [restriction.date, restriction])),
+    [restrictions]
+  )
+
+  return { restrictions, restrictionByDate, isLoading: loadingApercu || loadingBookingExport }
+}
@@ -0,0 +1,45 @@
+import { supabase } from './supabase'
+
+type RestMethod = 'GET' | 'POST' | 'PATCH' | 'DELETE'
+
+interface RestRequestOptions {
+    method: RestMethod
+    body?: unknown
+    prefer?: string
+    errorLabel: string
+}
+
+// Typed inserts/updates resolve to `never` with our hand-written Database types,
+// so writes go through PostgREST directly with the current session token.
+// GET is used for reads whose filters are built at runtime (dynamic table or column).
+export const supabaseRest = async (path: string, { method, body, prefer = 'return=minimal', errorLabel }: RestRequestOptions) => {
+    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
+    const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
+    if (!supabaseUrl || !supabaseAnonKey) {
+        throw new Error('Supabase configuration is missing')
+    }
+
+    const { data: { session } } = await supabase.auth.getSession()
+    const authToken = session?.access_token || supabaseAnonKey
+
+    const response = await fetch(`${supabaseUrl}/rest/v1/${path}`, {
+        method,
+        headers: {
+            apikey: supabaseAnonKey,
+            Authorization: `Bearer ${authToken}`,
+            'Content-Type': 'application/json',
+            Prefer: prefer
+        },
+        body: body === undefined ? undefined : JSON.stringify(body)
+    })
+
+    if (!response.ok) {
+        const errorText = await response.text()
+        throw new Error(`${errorLabel}: ${errorText}`)
+    }
+
+    if (method === 'GET' || prefer.includes('return=representation')) {
+        return response.json() as Promise<unknown>
+    }
+    return null
+}
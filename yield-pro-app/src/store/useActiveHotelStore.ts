@@ -0,0 +1,20 @@
+import { create } from 'zustand'
+
+interface ActiveHotelState {
+  // Hotel opened from the portfolio; null falls back to the profile hotel.
+  activeHotelId: string | null
+  setActiveHotel: (hotelId: string | null) => void
+}
+
+// Per tab, so two tabs can follow two hotels of the portfolio.
+const STORAGE_KEY = 'yieldpro-active-hotel'
+
+export const useActiveHotelStore = create<ActiveHotelState>((set) => ({
+  activeHotelId: sessionStorage.getItem(STORAGE_KEY),
+
+  setActiveHotel: (hotelId) => {
+    if (hotelId) sessionStorage.setItem(STORAGE_KEY, hotelId)
+    else sessionStorage.removeItem(STORAGE_KEY)
+    set({ activeHotelId: hotelId })
+  },
+}))
@@ -1,6 +1,7 @@
 import { create } from 'zustand'
 import { supabase } from '../lib/supabase'
 import type { User } from '@supabase/supabase-js'
+import { useActiveHotelStore } from './useActiveHotelStore'
 
 interface UserProfile {
     id: string
@@ -9,6 +10,7 @@ interface UserProfile {
     full_name: string | null
     role: 'user' | 'admin'
     hotel_id: string | null
+    is_active: boolean
 }
 
 interface AuthState {
@@ -16,6 +18,8 @@ interface AuthState {
     profile: UserProfile | null
     loading: boolean
     initialized: boolean
+    // Set when a deactivated account was signed out, shown on the login form
+    accountDisabled: boolean
     setUser: (user: User | null) => void
     setProfile: (profile: UserProfile | null) => void
     signOut: () => Promise<void>
@@ -26,10 +30,12 @@ export const useAuthStore = create<AuthState>((set) => ({
     profile: null,
     loading: true,
     initialized: false,
+    accountDisabled: false,
     setUser: (user) => set({ user }),
     setProfile: (profile) => set({ profile }),
     signOut: async () => {
         await supabase.auth.signOut()
+        useActiveHotelStore.getState().setActiveHotel(null)
         set({ user: null, profile: null })
     }
 }))
@@ -296,6 +296,7 @@ export interface Database {
                     display_order: number | null
                     is_active: boolean | null
                     last_seen_at: string | null
+                    in_compset: boolean
                 }
                 Insert: {
                     id?: string
@@ -305,6 +306,7 @@ export interface Database {
                     display_order?: number | null
                     is_active?: boolean | null
                     last_seen_at?: string | null
+                    in_compset?: boolean
                 }
                 Update: {
                     id?: string
@@ -314,6 +316,313 @@ export interface Database {
                     display_order?: number | null
                     is_active?: boolean | null
                     last_seen_at?: string | null
+                    in_compset?: boolean
+                }
+            }
+            competitor_rates: {
+                Row: {
+                    id: string
+                    hotel_id: string
+                    competitor_name: string
+                    stay_date: string
+                    shopped_at: string
+                    price: number | null
+                    is_sold_out: boolean
+                    market_demand: number | null
+                    source: string
+                    source_row_id: string | null
+                    created_at: string
+                }
+                Insert: {
+                    id?: string
+                    hotel_id: string
+                    competitor_name: string
+                    stay_date: string
+                    shopped_at?: string
+                    price?: number | null
+                    is_sold_out?: boolean
+                    market_demand?: number | null
+                    source?: string
+                    source_row_id?: string | null
+                    created_at?: string
+                }
+                Update: {
+                    id?: string
+                    hotel_id?: string
+                    competitor_name?: string
+                    stay_date?: string
+                    shopped_at?: string
+                    price?: number | null
+                    is_sold_out?: boolean
+                    market_demand?: number | null
+                    source?: string
+                    source_row_id?: string | null
+                    created_at?: string
+                }
+            }
+            competitor_alert_rules: {
+                Row: {
+                    id: string
+                    hotel_id: string
+                    kind: 'competitor_drop' | 'own_most_expensive' | 'median_rise_while_hold'
+                    enabled: boolean
+                    threshold_pct: number
+                    horizon_days: number
+                    comparison_days: number
+                    updated_by: string | null
+                    updated_at: string
+                }
+                Insert: {
+                    id?: string
+                    hotel_id: string
+                    kind: 'competitor_drop' | 'own_most_expensive' | 'median_rise_while_hold'
+                    enabled?: boolean
+                    threshold_pct?: number
+                    horizon_days?: number
+                    comparison_days?: number
+                    updated_by?: string | null
+                    updated_at?: string
+                }
+                Update: {
+                    id?: string
+                    hotel_id?: string
+                    kind?: 'competitor_drop' | 'own_most_expensive' | 'median_rise_while_hold'
+                    enabled?: boolean
+                    threshold_pct?: number
+                    horizon_days?: number
+                    comparison_days?: number
+                    updated_by?: string | null
+                    updated_at?: string
+                }
+            }
+            competitor_alerts: {
+                Row: {
+                    id: string
+                    hotel_id: string
+                    kind: 'competitor_drop' | 'own_most_expensive' | 'median_rise_while_hold'
+                    stay_date: string
+                    competitor_name: string | null
+                    shopped_at: string
+                    fingerprint: string
+                    state: 'new' | 'acknowledged' | 'resolved'
+                    message: string
+                    details: Json | null
+                    created_at: string
+                    acknowledged_at: string | null
+                    acknowledged_by: string | null
+                    resolved_at: string | null
+                }
+                Insert: {
+                    id?: string
+                    hotel_id: string
+                    kind: 'competitor_drop' | 'own_most_expensive' | 'median_rise_while_hold'
+                    stay_date: string
+                    competitor_name?: string | null
+                    shopped_at: string
+                    fingerprint: string
+                    state?: 'new' | 'acknowledged' | 'resolved'
+                    message: string
+                    details?: Json | null
+                    created_at?: string
+                    acknowledged_at?: string | null
+                    acknowledged_by?: string | null
+                    resolved_at?: string | null
+                }
+                Update: {
+                    id?: string
+                    hotel_id?: string
+                    kind?: 'competitor_drop' | 'own_most_expensive' | 'median_rise_while_hold'
+                    stay_date?: string
+                    competitor_name?: string | null
+                    shopped_at?: string
+                    fingerprint?: string
+                    state?: 'new' | 'acknowledged' | 'resolved'
+                    message?: string
+                    details?: Json | null
+                    created_at?: string
+                    acknowledged_at?: string | null
+                    acknowledged_by?: string | null
+                    resolved_at?: string | null
+                }
+            }
+            ota_partners: {
+                Row: {
+                    id: string
+                    hotel_id: string
+                    partner: string
+                    commission_pct: number
+                    plan_codes: string[]
+                    display_order: number
+                    updated_by: string | null
+                    updated_at: string
+                }
+                Insert: {
+                    id?: string
+                    hotel_id: string
+                    partner: string
+                    commission_pct?: number
+                    plan_codes?: string[]
+                    display_order?: number
+                    updated_by?: string | null
+                    updated_at?: string
+                }
+                Update: {
+                    id?: string
+                    hotel_id?: string
+                    partner?: string
+                    commission_pct?: number
+                    plan_codes?: string[]
+                    display_order?: number
+                    updated_by?: string | null
+                    updated_at?: string
+                }
+            }
+            ota_display_orders: {
+                Row: {
+                    hotel_id: string
+                    room_order: string[]
+                    plan_order: string[]
+                    updated_by: string | null
+                    updated_at: string
+                }
+                Insert: {
+                    hotel_id: string
+                    room_order?: string[]
+                    plan_order?: string[]
+                    updated_by?: string | null
+                    updated_at?: string
+                }
+                Update: {
+                    hotel_id?: string
+                    room_order?: string[]
+                    plan_order?: string[]
+                    updated_by?: string | null
+                    updated_at?: string
+                }
+            }
+            user_hotels: {
+                Row: {
+                    id: string
+                    user_id: string
+                    hotel_id: string
+                    role: 'viewer' | 'analyst' | 'revenue_manager' | 'hotel_admin' | 'group_admin'
+                    created_at: string
+                }
+                Insert: {
+                    id?: string
+                    user_id: string
+                    hotel_id: string
+                    role?: 'viewer' | 'analyst' | 'revenue_manager' | 'hotel_admin' | 'group_admin'
+                    created_at?: string
+                }
+                Update: {
+                    id?: string
+                    user_id?: string
+                    hotel_id?: string
+                    role?: 'viewer' | 'analyst' | 'revenue_manager' | 'hotel_admin' | 'group_admin'
+                    created_at?: string
+                }
+            }
+            user_invitations: {
+                Row: {
+                    id: string
+                    email: string
+                    hotel_id: string
+                    role: 'viewer' | 'analyst' | 'revenue_manager' | 'hotel_admin' | 'group_admin'
+                    invited_by: string | null
+                    invited_by_email: string | null
+                    created_at: string
+                    accepted_at: string | null
+                }
+                Insert: {
+                    id?: string
+                    email: string
+                    hotel_id: string
+                    role?: 'viewer' | 'analyst' | 'revenue_manager' | 'hotel_admin' | 'group_admin'
+                    invited_by?: string | null
+                    invited_by_email?: string | null
+                    created_at?: string
+                    accepted_at?: string | null
+                }
+                Update: {
+                    id?: string
+                    email?: string
+                    hotel_id?: string
+                    role?: 'viewer' | 'analyst' | 'revenue_manager' | 'hotel_admin' | 'group_admin'
+                    invited_by?: string | null
+                    invited_by_email?: string | null
+                    created_at?: string
+                    accepted_at?: string | null
+                }
+            }
+            admin_audit_log: {
+                Row: {
+                    id: string
+                    actor_id: string | null
+                    actor_email: string | null
+                    action: string
+                    target_type: 'user' | 'invitation' | 'membership' | 'dashboard_config' | 'hotel' | 'competitor'
+                    target_id: string | null
+                    target_label: string | null
+                    hotel_id: string | null
+                    details: Json
+                    created_at: string
+                }
+                Insert: {
+                    id?: string
+                    actor_id?: string | null
+                    actor_email?: string | null
+                    action: string
+                    target_type: 'user' | 'invitation' | 'membership' | 'dashboard_config' | 'hotel' | 'competitor'
+                    target_id?: string | null
+                    target_label?: string | null
+                    hotel_id?: string | null
+                    details?: Json
+                    created_at?: string
+                }
+                Update: {
+                    id?: string
+                    actor_id?: string | null
+                    actor_email?: string | null
+                    action?: string
+                    target_type?: 'user' | 'invitation' | 'membership' | 'dashboard_config' | 'hotel' | 'competitor'
+                    target_id?: string | null
+                    target_label?: string | null
+                    hotel_id?: string | null
+                    details?: Json
+                    created_at?: string
+                }
+            }
+            rms_scenarios: {
+                Row: {
+                    id: string
+                    user_id: string
+                    hotel_id: string
+                    name: string
+                    settings: Json
+                    created_at: string
+                    updated_at: string
+                    promoted_at: string | null
+                }
+                Insert: {
+                    id?: string
+                    user_id: string
+                    hotel_id: string
+                    name: string
+                    settings?: Json
+                    created_at?: string
+                    updated_at?: string
+                    promoted_at?: string | null
+                }
+                Update: {
+                    id?: string
+                    user_id?: string
+                    hotel_id?: string
+                    name?: string
+                    settings?: Json
+                    created_at?: string
+                    updated_at?: string
+                    promoted_at?: string | null
                 }
             }
             user_profiles: {
@@ -324,6 +633,7 @@ export interface Database {
                     full_name: string | null
                     role: 'user' | 'admin'
                     hotel_id: string | null
+                    is_active: boolean
                     created_at: string | null
                     updated_at: string | null
                 }
@@ -334,6 +644,7 @@ export interface Database {
                     full_name?: string | null
                     role?: 'user' | 'admin'
                     hotel_id?: string | null
+                    is_active?: boolean
                     created_at?: string | null
                     updated_at?: string | null
                 }
@@ -344,6 +655,7 @@ export interface Database {
                     full_name?: string | null
                     role?: 'user' | 'admin'
                     hotel_id?: string | null
+                    is_active?: boolean
                     created_at?: string | null
                     updated_at?: string | null
                 }
@@ -371,6 +683,202 @@ export interface Database {
                     updated_at?: string | null
                 }
             }
+            price_decisions: {
+                Row: {
+                    id: string
+                    hotel_id: string
+                    stay_date: string
+                    room_type: string | null
+                    decision: 'approved' | 'rejected' | 'overridden'
+                    current_price: number | null
+                    suggested_price: number | null
+                    final_price: number | null
+                    formula_text: string | null
+                    reason: string | null
+                    engine_version: string | null
+                    supersedes_id: string | null
+                    user_id: string | null
+                    user_email: string | null
+                    decided_at: string
+                }
+                Insert: {
+                    id?: string
+                    hotel_id: string
+                    stay_date: string
+                    room_type?: string | null
+                    decision: 'approved' | 'rejected' | 'overridden'
+                    current_price?: number | null
+                    suggested_price?: number | null
+                    final_price?: number | null
+                    formula_text?: string | null
+                    reason?: string | null
+                    engine_version?: string | null
+                    supersedes_id?: string | null
+                    user_id?: string | null
+                    user_email?: string | null
+                    decided_at?: string
+                }
+                Update: {
+                    id?: string
+                    hotel_id?: string
+                    stay_date?: string
+                    room_type?: string | null
+                    decision?: 'approved' | 'rejected' | 'overridden'
+                    current_price?: number | null
+                    suggested_price?: number | null
+                    final_price?: number | null
+                    formula_text?: string | null
+                    reason?: string | null
+                    engine_version?: string | null
+                    supersedes_id?: string | null
+                    user_id?: string | null
+                    user_email?: string | null
+                    decided_at?: string
+                }
+            }
+            settings_history: {
+                Row: {
+                    id: string
+                    hotel_id: string | null
+                    user_id: string | null
+                    user_email: string | null
+                    before: Json
+                    after: Json
+                    changed_at: string
+                }
+                Insert: {
+                    id?: string
+                    hotel_id?: string | null
+                    user_id?: string | null
+                    user_email?: string | null
+                    before: Json
+                    after: Json
+                    changed_at?: string
+                }
+                Update: {
+                    id?: string
+                    hotel_id?: string | null
+                    user_id?: string | null
+                    user_email?: string | null
+                    before?: Json
+                    after?: Json
+                    changed_at?: string
+                }
+            }
+            planning_tarifs_history: {
+                Row: {
+                    id: string
+                    hotel_id: string | null
+                    stay_date: string | null
+                    type_de_chambre: string | null
+                    plan_tarifaire: string | null
+                    action: 'insert' | 'update' | 'delete'
+                    old_tarif: number | null
+                    new_tarif: number | null
+                    user_id: string | null
+                    user_email: string | null
+                    changed_at: string
+                }
+                Insert: {
+                    id?: string
+                    hotel_id?: string | null
+                    stay_date?: string | null
+                    type_de_chambre?: string | null
+                    plan_tarifaire?: string | null
+                    action: 'insert' | 'update' | 'delete'
+                    old_tarif?: number | null
+                    new_tarif?: number | null
+                    user_id?: string | null
+                    user_email?: string | null
+                    changed_at?: string
+                }
+                Update: {
+                    id?: string
+                    hotel_id?: string | null
+                    stay_date?: string | null
+                    type_de_chambre?: string | null
+                    plan_tarifaire?: string | null
+                    action?: 'insert' | 'update' | 'delete'
+                    old_tarif?: number | null
+                    new_tarif?: number | null
+                    user_id?: string | null
+                    user_email?: string | null
+                    changed_at?: string
+                }
+            }
+            import_batches: {
+                Row: {
+                    id: string
+                    hotel_id: string
+                    target_table: 'booking_export' | 'booking_apercu' | 'booking_tarifs' | 'disponibilites'
+                    file_name: string | null
+                    status: 'applied' | 'rolled_back'
+                    row_count: number
+                    inserted_count: number
+                    updated_count: number
+                    skipped_count: number
+                    user_id: string | null
+                    user_email: string | null
+                    created_at: string
+                    rolled_back_at: string | null
+                }
+                Insert: {
+                    id?: string
+                    hotel_id: string
+                    target_table: 'booking_export' | 'booking_apercu' | 'booking_tarifs' | 'disponibilites'
+                    file_name?: string | null
+                    status?: 'applied' | 'rolled_back'
+                    row_count?: number
+                    inserted_count?: number
+                    updated_count?: number
+                    skipped_count?: number
+                    user_id?: string | null
+                    user_email?: string | null
+                    created_at?: string
+                    rolled_back_at?: string | null
+                }
+                Update: {
+                    id?: string
+                    hotel_id?: string
+                    target_table?: 'booking_export' | 'booking_apercu' | 'booking_tarifs' | 'disponibilites'
+                    file_name?: string | null
+                    status?: 'applied' | 'rolled_back'
+                    row_count?: number
+                    inserted_count?: number
+                    updated_count?: number
+                    skipped_count?: number
+                    user_id?: string | null
+                    user_email?: string | null
+                    created_at?: string
+                    rolled_back_at?: string | null
+                }
+            }
+            import_batch_rows: {
+                Row: {
+                    id: string
+                    batch_id: string
+                    target_table: string
+                    row_id: string
+                    action: 'insert' | 'update'
+                    previous: Json | null
+                }
+                Insert: {
+                    id?: string
+                    batch_id: string
+                    target_table: string
+                    row_id: string
+                    action: 'insert' | 'update'
+                    previous?: Json | null
+                }
+                Update: {
+                    id?: string
+                    batch_id?: string
+                    target_table?: string
+                    row_id?: string
+                    action?: 'insert' | 'update'
+                    previous?: Json | null
+                }
+            }
         }
         Views: {
             [_ in never]: never
@@ -0,0 +1,103 @@
+// Canonical domain objects built once at fetch time from the raw Supabase rows
+// (see utils/normalization.ts). Dates are local 'yyyy-MM-dd' keys.
+
+export type NormalizationSource =
+  | 'booking_export'
+  | 'booking_apercu'
+  | 'disponibilites'
+  | 'events_calendar'
+  | 'competitor_rates'
+
+export interface NormalizationIssue {
+  source: NormalizationSource
+  rowId: string | null
+  field: string
+  value: string
+  message: string
+  // Dropped rows are missing from `items`; the others were kept with a default value.
+  dropped: boolean
+}
+
+export interface Normalized<T> {
+  items: T[]
+  issues: NormalizationIssue[]
+}
+
+export interface Reservation {
+  id: string
+  hotelId: string | null
+  reference: string
+  status: string
+  isCancelled: boolean
+  arrivalDate: string
+  departureDate: string | null
+  purchaseDate: string | null
+  cancellationDate: string | null
+  roomType: string
+  // At least 1: taken from the nights column, else from the departure date.
+  nights: number
+  // At least 1, and 2 for the "deux chambres adjacentes" room types.
+  rooms: number
+  adults: number
+  children: number
+  totalAmount: number
+  country: string
+  origin: string
+  originType: string
+  // Rate plan code or label when the extract has one, else empty.
+  ratePlan: string
+}
+
+export interface MarketDay {
+  id: string
+  date: string
+  weekday: string
+  ownPrice: number | null
+  lowestPrice: number | null
+  compsetMedian: number | null
+  compsetRanking: string
+  // 0-100, extracts sometimes store it as a 0-1 ratio.
+  marketDemand: number | null
+  bookingRanking: string
+  holidays: string
+  events: string
+  updatedAt: string | null
+}
+
+export interface InventoryDay {
+  id: string
+  date: string
+  // Null means the row applies to the whole hotel.
+  roomType: string | null
+  available: number | null
+  closedToSale: boolean
+  updatedAt: string | null
+}
+
+export interface CompetitorRate {
+  date: string
+  competitor: string
+  isOwnHotel: boolean
+  // Null when the hotel was sold out for that date.
+  price: number | null
+  isSoldOut: boolean
+  // Day the rate shopper collected the rate; a stay date has one rate per collection.
+  shoppedAt: string
+  // Market demand (0-100) published by the rate shopper for the same date.
+  marketDemand: number | null
+  updatedAt: string | null
+}
+
+export interface HotelEvent {
+  id: string
+  name: string
+  startDate: string
+  endDate: string
+  // 0-10 as entered in events_calendar.
+  impactScore: number
+  // impactScore on a 0-100 scale, as used by the RMS engine.
+  impactPct: number
+  multiplier: number | null
+  rationale: string
+  advice: string
+}
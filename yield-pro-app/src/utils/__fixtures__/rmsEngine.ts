@@ -0,0 +1,87 @@
+import type { RMSSettings } from '../../hooks/useDashboardConfig'
+import type { InventoryDay, MarketDay, Reservation } from '../../types/domain'
+import { resolveRMSSettings, type DecisionInput } from '../rmsEngine'
+
+// Wednesday and Saturday stay dates; decisions are taken ten days ahead unless a test says otherwise.
+export const WEEKDAY = '2026-03-11'
+export const SATURDAY = '2026-03-14'
+export const TEN_DAYS_BEFORE = new Date(2026, 2, 1)
+
+export const fixtureSettings = (overrides: Partial<RMSSettings> = {}): RMSSettings =>
+  resolveRMSSettings({ hotelCapacity: 100, targetOccupancy: 80, priceStep: 2, ...overrides })
+
+/**
+ * Every term of the signal at its neutral point for fixtureSettings(): demand 50,
+ * BAR on the compset median, event impact 50, 30% pickup and forecast on target.
+ * The recommendation is then the current BAR.
+ */
+export const neutralInput = (overrides: Partial<DecisionInput> = {}): DecisionInput => ({
+  date: WEEKDAY,
+  currentPrice: 150,
+  competitorMedian: 150,
+  demandIndex: 50,
+  eventImpact: 50,
+  roomsOnBooks: 60,
+  pickupRooms: 30,
+  capacity: 100,
+  priceFactor: 1,
+  forecast: {
+    expectedPickup: 20,
+    unconstrainedOccupancy: 80,
+    forecastRooms: 80,
+    forecastOccupancy: 80,
+    forecastOccupancyLow: 75,
+    forecastOccupancyHigh: 85,
+  },
+  asOf: TEN_DAYS_BEFORE,
+  ...overrides,
+})
+
+export const makeReservation = (overrides: Partial<Reservation> = {}): Reservation => ({
+  id: 'r1',
+  hotelId: 'H2258',
+  reference: 'REF-1',
+  status: 'Confirmée',
+  isCancelled: false,
+  arrivalDate: WEEKDAY,
+  departureDate: '2026-03-12',
+  purchaseDate: '2026-02-10',
+  cancellationDate: null,
+  roomType: 'Double Classique',
+  nights: 1,
+  rooms: 1,
+  adults: 2,
+  children: 0,
+  totalAmount: 140,
+  country: 'FR',
+  origin: 'Booking.com',
+  originType: 'OTA',
+  ratePlan: 'OTA-RO-FLEX',
+  ...overrides,
+})
+
+export const makeMarketDay = (overrides: Partial<MarketDay> = {}): MarketDay => ({
+  id: 'm1',
+  date: WEEKDAY,
+  weekday: 'mercredi',
+  ownPrice: 150,
+  lowestPrice: 120,
+  compsetMedian: 150,
+  compsetRanking: '',
+  marketDemand: 50,
+  bookingRanking: '',
+  holidays: '',
+  events: '',
+  updatedAt: '2026-03-01',
+  ...overrides,
+})
+
+export const makeInventoryDay = (overrides: Partial<InventoryDay> = {}): InventoryDay => ({
+  id: 'i1',
+  date: WEEKDAY,
+  roomType: 'Double Classique',
+  available: 20,
+  closedToSale: false,
+  updatedAt: '2026-03-01',
+  ...overrides,
+})
@@ -0,0 +1,258 @@
+import type { RMSSettings } from '../hooks/useDashboardConfig'
+import type { HotelEvent, MarketDay, Reservation } from '../types/domain'
+import { buildPaceCurves, shiftDateKey, toPaceDateKey } from './bookingPace'
+import { createNetAmountLookup, type ChannelCommission } from './channelMix'
+import { buildDemandForecast, type DemandForecastDay } from './demandForecast'
+import { parseDate } from './normalization'
+import { buildEventImpactByDate, computeDailyDecision, toMarketSignal, type MarketSignal } from './rmsEngine'
+
+export interface BacktestInput {
+  stayDates: string[]
+  // Every booking_apercu row of the window, all date_mise_a_jour versions included.
+  marketSnapshots: MarketDay[]
+  reservations: Reservation[]
+  historicalReservations: Reservation[]
+  events: HotelEvent[]
+  // Partner commissions of the hotel, for the revenue and ADR net of commission.
+  channelCommissions?: ChannelCommission[]
+  // Days between the decision and the stay date.
+  leadDays: number
+  asOf?: Date
+}
+
+export interface BacktestSettingSet {
+  id: string
+  label: string
+  settings: RMSSettings
+}
+
+export interface BacktestDay {
+  date: string
+  cutoff: string
+  snapshotUpdatedAt: string
+  priceAtCutoff: number
+  recommendedPrice: number
+  forecastOccupancy: number
+  finalOccupancy: number
+  roomsSold: number
+  revenue: number
+  netRevenue: number
+  soldAdr: number
+  netSoldAdr: number
+  priceError: number
+  // Revenue left on the table: rooms sold below the recommendation on a night that reached target.
+  opportunity: number
+  directionHit: boolean
+}
+
+export interface BacktestSummary {
+  setId: string
+  label: string
+  days: BacktestDay[]
+  evaluatedDays: number
+  skippedDays: number
+  priceMae: number
+  priceMape: number
+  priceBias: number
+  occupancyMae: number
+  directionHitRate: number
+  actualRevenue: number
+  actualNetRevenue: number
+  revenueOpportunity: number
+  revenueOpportunityPct: number
+}
+
+// Past windows (nights) and decision lead times offered by the backtest and the calibration.
+export const BACKTEST_WINDOW_OPTIONS = [30, 60, 90]
+export const BACKTEST_LEAD_OPTIONS = [1, 3, 7, 14]
+
+// A "hold" is right when the night finished within this many points of the target.
+const HOLD_TOLERANCE_PCT = 5
+
+const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0)
+
+/**
+ * Latest market snapshot of the stay date published on or before the cut-off.
+ * Rows without date_mise_a_jour are ignored: we cannot tell when they were known.
+ */
+const findSnapshotAt = (snapshots: MarketDay[], cutoff: string) =>
+  snapshots.reduce<{ day: MarketDay; key: string } | null>((latest, day) => {
+    const updated = parseDate(day.updatedAt)
+    if (!updated || day.ownPrice === null) return latest
+    const key = toPaceDateKey(updated)
+    if (key > cutoff) return latest
+    return !latest || key > latest.key ? { day, key } : latest
+  }, null)
+
+// Bookings made by the cut-off and not yet cancelled at that point.
+const isKnownAt = (reservation: Reservation, cutoff: string) => {
+  if (!reservation.purchaseDate || reservation.purchaseDate.slice(0, 10) > cutoff) return false
+  if (!reservation.isCancelled) return true
+  return !!reservation.cancellationDate && reservation.cancellationDate.slice(0, 10) > cutoff
+}
+
+interface ReplayDay {
+  date: string
+  cutoff: string
+  cutoffDate: Date
+  signal: MarketSignal
+  snapshotKey: string
+  arrivals: Reservation[]
+  knownReservations: Reservation[]
+  roomsSold: number
+  revenue: number
+  netRevenue: number
+}
+
+export interface BacktestReplay {
+  stayDates: string[]
+  days: ReplayDay[]
+  forecastFor: (day: ReplayDay, capacity: number) => DemandForecastDay | undefined
+}
+
+/**
+ * Rebuilds each past stay date as it was known `leadDays` before arrival: market
+ * snapshot, reservations on the books and final outcome. Setting-independent, so
+ * one replay can score any number of setting sets.
+ */
+export const prepareBacktest = (input: BacktestInput): BacktestReplay => {
+  const { stayDates, marketSnapshots, reservations, historicalReservations, events, channelCommissions = [], leadDays, asOf = new Date() } = input
+  const eventImpactByDate = buildEventImpactByDate(events)
+  const finalCurves = buildPaceCurves(reservations, stayDates, asOf, 0)
+
+  // Net over gross revenue of the bookings staying each night, spread evenly across nights as in the pace curves.
+  const getNetAmount = createNetAmountLookup(channelCommissions)
+  const revenueByNight = new Map<string, { gross: number; net: number }>()
+  reservations.forEach((reservation) => {
+    if (reservation.isCancelled || reservation.nights <= 0) return
+    const net = getNetAmount(reservation)
+    for (let night = 0; night < reservation.nights; night += 1) {
+      const key = shiftDateKey(reservation.arrivalDate.slice(0, 10), night)
+      const current = revenueByNight.get(key) || { gross: 0, net: 0 }
+      current.gross += reservation.totalAmount / reservation.nights
+      current.net += net / reservation.nights
+      revenueByNight.set(key, current)
+    }
+  })
+  const netRatioFor = (date: string) => {
+    const night = revenueByNight.get(date)
+    return night && night.gross > 0 ? night.net / night.gross : 1
+  }
+
+  const snapshotsByDate = new Map<string, MarketDay[]>()
+  marketSnapshots.forEach((day) => {
+    snapshotsByDate.set(day.date, [...(snapshotsByDate.get(day.date) || []), day])
+  })
+
+  const replayDays: ReplayDay[] = []
+  stayDates.forEach((date) => {
+    const cutoff = shiftDateKey(date, -leadDays)
+    const cutoffDate = parseDate(cutoff)
+    const found = findSnapshotAt(snapshotsByDate.get(date) || [], cutoff)
+    const finalPoint = finalCurves.get(date)?.points[0]
+    if (!cutoffDate || !found || !finalPoint || finalPoint.rooms === null) return
+
+    const knownReservations = reservations.filter((reservation) => isKnownAt(reservation, cutoff))
+    replayDays.push({
+      date,
+      cutoff,
+      cutoffDate,
+      signal: toMarketSignal(found.day, eventImpactByDate),
+      snapshotKey: found.key,
+      arrivals: knownReservations.filter((reservation) => reservation.arrivalDate.slice(0, 10) === date),
+      knownReservations,
+      roomsSold: finalPoint.rooms,
+      revenue: finalPoint.revenue ?? 0,
+      netRevenue: (finalPoint.revenue ?? 0) * netRatioFor(date),
+    })
+  })
+
+  // The pickup model only depends on capacity, so forecasts are shared by setting sets of the same hotel size.
+  const forecastCache = new Map<string, ReturnType<typeof buildDemandForecast>>()
+  const forecastFor = (day: ReplayDay, capacity: number) => {
+    const key = `${day.date}|${capacity}`
+    const cached = forecastCache.get(key)
+    if (cached) return cached.get(day.date)
+    const forecast = buildDemandForecast(day.knownReservations, historicalReservations, [day.date], {
+      capacity,
+      eventImpactByDate,
+      asOf: day.cutoffDate,
+    })
+    forecastCache.set(key, forecast)
+    return forecast.get(day.date)
+  }
+
+  return { stayDates, days: replayDays, forecastFor }
+}
+
+/**
+ * Scores one setting set against what was actually sold. Only the recommendation
+ * is evaluated: the rate sold is the one that was live, so the opportunity
+ * estimate assumes the same rooms would have sold at the recommended rate on
+ * nights that filled to target, and counts no gain on softer nights.
+ */
+export const evaluateBacktest = (replay: BacktestReplay, { id, label, settings }: BacktestSettingSet): BacktestSummary => {
+  const capacity = Math.max(1, settings.hotelCapacity)
+
+  const days: BacktestDay[] = replay.days.map((day) => {
+    const decision = computeDailyDecision(
+      day.signal,
+      day.arrivals,
+      settings,
+      replay.forecastFor(day, settings.hotelCapacity),
+      day.cutoffDate
+    )
+    const soldAdr = day.roomsSold > 0 ? day.revenue / day.roomsSold : 0
+    const finalOccupancy = (day.roomsSold / capacity) * 100
+    const move = decision.recommendedPrice - decision.currentPrice
+    const reachedTarget = finalOccupancy >= settings.targetOccupancy
+    const directionHit = Math.round(move) === 0
+      ? Math.abs(finalOccupancy - settings.targetOccupancy) <= HOLD_TOLERANCE_PCT
+      : move > 0 === reachedTarget
+
+    return {
+      date: day.date,
+      cutoff: day.cutoff,
+      snapshotUpdatedAt: day.snapshotKey,
+      priceAtCutoff: decision.currentPrice,
+      recommendedPrice: decision.recommendedPrice,
+      forecastOccupancy: decision.forecastOccupancy,
+      finalOccupancy,
+      roomsSold: day.roomsSold,
+      revenue: day.revenue,
+      netRevenue: day.netRevenue,
+      soldAdr,
+      netSoldAdr: day.roomsSold > 0 ? day.netRevenue / day.roomsSold : 0,
+      priceError: soldAdr > 0 ? decision.recommendedPrice - soldAdr : 0,
+      opportunity: reachedTarget && soldAdr > 0 ? Math.max(0, decision.recommendedPrice - soldAdr) * day.roomsSold : 0,
+      directionHit,
+    }
+  })
+
+  const priced = days.filter((day) => day.soldAdr > 0)
+  const actualRevenue = days.reduce((sum, day) => sum + day.revenue, 0)
+  const revenueOpportunity = days.reduce((sum, day) => sum + day.opportunity, 0)
+
+  return {
+    setId: id,
+    label,
+    days,
+    evaluatedDays: days.length,
+    skippedDays: replay.stayDates.length - days.length,
+    priceMae: average(priced.map((day) => Math.abs(day.priceError))),
+    priceMape: average(priced.map((day) => (Math.abs(day.priceError) / day.soldAdr) * 100)),
+    priceBias: average(priced.map((day) => day.priceError)),
+    occupancyMae: average(days.map((day) => Math.abs(day.forecastOccupancy - day.finalOccupancy))),
+    directionHitRate: days.length > 0 ? (days.filter((day) => day.directionHit).length / days.length) * 100 : 0,
+    actualRevenue,
+    actualNetRevenue: days.reduce((sum, day) => sum + day.netRevenue, 0),
+    revenueOpportunity,
+    revenueOpportunityPct: actualRevenue > 0 ? (revenueOpportunity / actualRevenue) * 100 : 0,
+  }
+}
+
+/** Replays the past window once and scores every setting set on it. */
+export const runBacktests = (input: BacktestInput, settingSets: BacktestSettingSet[]): BacktestSummary[] => {
+  const replay = prepareBacktest(input)
+  return settingSets.map((settingSet) => evaluateBacktest(replay, settingSet))
+}
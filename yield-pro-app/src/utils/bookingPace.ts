@@ -0,0 +1,280 @@
+import type { Reservation } from '../types/domain'
+import { parseDate } from './normalization'
+
+export const PACE_MAX_DAYS_OUT = 90
+// 364 days keeps the same weekday, which matters more for hotel pace than the calendar date.
+export const STLY_OFFSET_DAYS = 364
+
+export interface PacePoint {
+  daysOut: number
+  rooms: number | null
+  revenue: number | null
+}
+
+export interface PaceCurve {
+  stayDate: string
+  points: PacePoint[]
+}
+
+export interface PaceComparisonPoint {
+  daysOut: number
+  label: string
+  rooms: number | null
+  revenue: number | null
+  stlyRooms: number | null
+  stlyRevenue: number | null
+  referenceRooms: number | null
+  referenceRevenue: number | null
+}
+
+export interface PaceComparison {
+  stayDates: string[]
+  points: PaceComparisonPoint[]
+  roomsOnBooks: number
+  stlyRoomsAtSameDaysOut: number
+  referenceRoomsAtSameDaysOut: number
+  paceVsStlyPct: number | null
+  paceVsReferencePct: number | null
+}
+
+interface StayNightContribution {
+  stayDate: string
+  bookedOn: string
+  cancelledOn: string | null
+  rooms: number
+  revenue: number
+}
+
+const DAY_MS = 86400000
+
+export const toPaceDateKey = (date: Date) => {
+  const yyyy = date.getFullYear()
+  const mm = `${date.getMonth() + 1}`.padStart(2, '0')
+  const dd = `${date.getDate()}`.padStart(2, '0')
+  return `${yyyy}-${mm}-${dd}`
+}
+
+export const shiftDateKey = (dateKey: string, days: number) => {
+  const date = parseDate(dateKey)
+  if (!date) return dateKey
+  date.setDate(date.getDate() + days)
+  return toPaceDateKey(date)
+}
+
+/**
+ * Splits every reservation into one contribution per night stayed, so a 3-night
+ * booking counts on each of its stay dates. Revenue is spread evenly across nights.
+ * Cancelled bookings stay on the books until their cancellation date; without one
+ * they are dropped since we cannot tell when they left.
+ */
+const explodeStayNights = (reservations: Reservation[]): StayNightContribution[] => {
+  const contributions: StayNightContribution[] = []
+
+  reservations.forEach((reservation) => {
+    const arrival = parseDate(reservation.arrivalDate)
+    if (!arrival || !reservation.purchaseDate) return
+
+    let cancelledOn: string | null = null
+    if (reservation.isCancelled) {
+      if (!reservation.cancellationDate) return
+      cancelledOn = reservation.cancellationDate
+    }
+
+    const revenuePerNight = reservation.totalAmount / reservation.nights
+    const bookedOn = reservation.purchaseDate
+
+    for (let i = 0; i < reservation.nights; i += 1) {
+      const stay = new Date(arrival)
+      stay.setDate(arrival.getDate() + i)
+      contributions.push({ stayDate: toPaceDateKey(stay), bookedOn, cancelledOn, rooms: reservation.rooms, revenue: revenuePerNight })
+    }
+  })
+
+  return contributions
+}
+
+export const getDaysOut = (stayDate: string, asOf: Date) => {
+  const stay = parseDate(stayDate)
+  if (!stay) return Number.NaN
+  const today = new Date(asOf.getFullYear(), asOf.getMonth(), asOf.getDate())
+  return Math.round((stay.getTime() - today.getTime()) / DAY_MS)
+}
+
+/** Every stay date (night) covered by at least one reservation, sorted. */
+export const collectStayDates = (reservations: Reservation[]) =>
+  Array.from(new Set(explodeStayNights(reservations).map((contribution) => contribution.stayDate))).sort()
+
+/**
+ * Rebuilds the on-the-books position of each stay date from D-maxDaysOut to D-0.
+ * Points that lie after `asOf` are not observable yet and are returned as null.
+ */
+export const buildPaceCurves = (
+  reservations: Reservation[],
+  stayDates: string[],
+  asOf: Date = new Date(),
+  maxDaysOut = PACE_MAX_DAYS_OUT
+): Map<string, PaceCurve> => {
+  const asOfKey = toPaceDateKey(asOf)
+  const wanted = new Set(stayDates)
+  const byStayDate = new Map<string, StayNightContribution[]>()
+
+  explodeStayNights(reservations).forEach((contribution) => {
+    if (!wanted.has(contribution.stayDate)) return
+    const list = byStayDate.get(contribution.stayDate) || []
+    list.push(contribution)
+    byStayDate.set(contribution.stayDate, list)
+  })
+
+  const curves = new Map<string, PaceCurve>()
+  stayDates.forEach((stayDate) => {
+    const contributions = byStayDate.get(stayDate) || []
+    const points: PacePoint[] = []
+
+    for (let daysOut = maxDaysOut; daysOut >= 0; daysOut -= 1) {
+      const snapshotKey = shiftDateKey(stayDate, -daysOut)
+      if (snapshotKey > asOfKey) {
+        points.push({ daysOut, rooms: null, revenue: null })
+        continue
+      }
+
+      let rooms = 0
+      let revenue = 0
+      contributions.forEach((contribution) => {
+        if (contribution.bookedOn > snapshotKey) return
+        if (contribution.cancelledOn && contribution.cancelledOn <= snapshotKey) return
+        rooms += contribution.rooms
+        revenue += contribution.revenue
+      })
+      points.push({ daysOut, rooms, revenue })
+    }
+
+    curves.set(stayDate, { stayDate, points })
+  })
+
+  return curves
+}
+
+// Curve points run from D-maxDaysOut down to D-0.
+const pointAt = (curve: PaceCurve | undefined, daysOut: number, maxDaysOut: number) =>
+  curve?.points[maxDaysOut - daysOut]
+
+export const getWeekday = (dateKey: string) => parseDate(dateKey)?.getDay() ?? -1
+
+/**
+ * Reference curve: for each weekday, the average last-year curve of that weekday
+ * over the comparison window. It smooths out the noise of a single STLY date.
+ */
+const buildWeekdayReference = (lastYearCurves: Map<string, PaceCurve>, maxDaysOut: number) => {
+  const sums = new Map<number, { rooms: number[]; revenue: number[]; count: number }>()
+
+  lastYearCurves.forEach((curve) => {
+    const weekday = getWeekday(curve.stayDate)
+    const current = sums.get(weekday) || {
+      rooms: new Array(maxDaysOut + 1).fill(0),
+      revenue: new Array(maxDaysOut + 1).fill(0),
+      count: 0,
+    }
+    curve.points.forEach((point) => {
+      current.rooms[point.daysOut] += point.rooms ?? 0
+      current.revenue[point.daysOut] += point.revenue ?? 0
+    })
+    current.count += 1
+    sums.set(weekday, current)
+  })
+
+  const reference = new Map<number, { rooms: number[]; revenue: number[] }>()
+  sums.forEach((value, weekday) => {
+    reference.set(weekday, {
+      rooms: value.rooms.map((total) => total / value.count),
+      revenue: value.revenue.map((total) => total / value.count),
+    })
+  })
+  return reference
+}
+
+const pctGap = (current: number, reference: number): number | null => {
+  if (reference <= 0) return null
+  return ((current - reference) / reference) * 100
+}
+
+/**
+ * Sums the current, STLY and reference curves of the given stay dates into one
+ * pace chart. `lastYearReservations` must cover the stay dates shifted by STLY_OFFSET_DAYS.
+ */
+export const buildPaceComparison = (
+  reservations: Reservation[],
+  lastYearReservations: Reservation[],
+  stayDates: string[],
+  asOf: Date = new Date(),
+  maxDaysOut = PACE_MAX_DAYS_OUT
+): PaceComparison => {
+  const lastYearStayDates = stayDates.map((date) => shiftDateKey(date, -STLY_OFFSET_DAYS))
+
+  const curves = buildPaceCurves(reservations, stayDates, asOf, maxDaysOut)
+  const lastYearCurves = buildPaceCurves(lastYearReservations, lastYearStayDates, asOf, maxDaysOut)
+  const reference = buildWeekdayReference(lastYearCurves, maxDaysOut)
+
+  const points: PaceComparisonPoint[] = []
+  for (let daysOut = maxDaysOut; daysOut >= 0; daysOut -= 1) {
+    let rooms = 0
+    let revenue = 0
+    let observable = stayDates.length > 0
+    let stlyRooms = 0
+    let stlyRevenue = 0
+    let referenceRooms = 0
+    let referenceRevenue = 0
+
+    stayDates.forEach((stayDate, index) => {
+      const point = pointAt(curves.get(stayDate), daysOut, maxDaysOut)
+      if (!point || point.rooms === null) {
+        observable = false
+      } else {
+        rooms += point.rooms
+        revenue += point.revenue ?? 0
+      }
+
+      const stlyPoint = pointAt(lastYearCurves.get(lastYearStayDates[index]), daysOut, maxDaysOut)
+      stlyRooms += stlyPoint?.rooms ?? 0
+      stlyRevenue += stlyPoint?.revenue ?? 0
+
+      const weekdayReference = reference.get(getWeekday(stayDate))
+      referenceRooms += weekdayReference?.rooms[daysOut] ?? 0
+      referenceRevenue += weekdayReference?.revenue[daysOut] ?? 0
+    })
+
+    points.push({
+      daysOut,
+      label: `J-${daysOut}`,
+      // A partial sum would show a fake drop, so the current curve stops where the latest stay date is not observable yet.
+      rooms: observable ? rooms : null,
+      revenue: observable ? revenue : null,
+      stlyRooms,
+      stlyRevenue,
+      referenceRooms,
+      referenceRevenue,
+    })
+  }
+
+  // Compare like for like: every stay date at its own current distance to arrival.
+  let roomsOnBooks = 0
+  let stlyRoomsAtSameDaysOut = 0
+  let referenceRoomsAtSameDaysOut = 0
+  stayDates.forEach((stayDate, index) => {
+    const daysOut = getDaysOut(stayDate, asOf)
+    if (!Number.isFinite(daysOut) || daysOut < 0 || daysOut > maxDaysOut) return
+
+    roomsOnBooks += pointAt(curves.get(stayDate), daysOut, maxDaysOut)?.rooms ?? 0
+    stlyRoomsAtSameDaysOut += pointAt(lastYearCurves.get(lastYearStayDates[index]), daysOut, maxDaysOut)?.rooms ?? 0
+    referenceRoomsAtSameDaysOut += reference.get(getWeekday(stayDate))?.rooms[daysOut] ?? 0
+  })
+
+  return {
+    stayDates,
+    points,
+    roomsOnBooks,
+    stlyRoomsAtSameDaysOut,
+    referenceRoomsAtSameDaysOut,
+    paceVsStlyPct: pctGap(roomsOnBooks, stlyRoomsAtSameDaysOut),
+    paceVsReferencePct: pctGap(roomsOnBooks, referenceRoomsAtSameDaysOut),
+  }
+}
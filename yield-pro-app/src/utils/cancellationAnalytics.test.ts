@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import type { Reservation } from '../types/domain'
+import {
+  buildCancellationBreakdown,
+  buildCancellationTimingCurve,
+  forecastCancellations,
+  getRatePlanPolicy,
+  summarizeCancellations
+} from './cancellationAnalytics'
+import { TEN_DAYS_BEFORE, WEEKDAY, makeReservation } from './__fixtures__/rmsEngine'
+
+const ARRIVAL = '2026-02-21'
+
+const cancelled = (id: string, cancellationDate: string | null, overrides: Partial<Reservation> = {}) =>
+  makeReservation({ id, arrivalDate: ARRIVAL, isCancelled: true, status: 'Annulée', cancellationDate, ...overrides })
+
+describe('cancellation analytics', () => {
+  it('tells non-refundable from flexible rate plans', () => {
+    expect(getRatePlanPolicy(makeReservation({ ratePlan: 'OTA-RO-NANR' }))).toBe('Non remboursable')
+    expect(getRatePlanPolicy(makeReservation({ ratePlan: 'Tarif non remboursable' }))).toBe('Non remboursable')
+    expect(getRatePlanPolicy(makeReservation({ ratePlan: 'OTA-RO-FLEX' }))).toBe('Flexible')
+    expect(getRatePlanPolicy(makeReservation({ ratePlan: '' }))).toBe('Non défini')
+  })
+
+  it('breaks the cancellation rate and lost revenue down by segment, leaving no-shows out', () => {
+    const history = [
+      makeReservation({ id: 'a', arrivalDate: ARRIVAL }),
+      cancelled('b', '2026-02-10', { totalAmount: 300, nights: 2 }),
+      makeReservation({ id: 'c', arrivalDate: ARRIVAL, origin: 'Direct' }),
+      makeReservation({ id: 'd', arrivalDate: ARRIVAL, origin: 'Direct', status: 'No show', isCancelled: true }),
+    ]
+
+    expect(buildCancellationBreakdown(history, 'channel')).toEqual([
+      { segment: 'Booking.com', bookings: 2, cancelledBookings: 1, cancellationRate: 0.5, lostRevenue: 300, lostRoomNights: 2 },
+      { segment: 'Direct', bookings: 1, cancelledBookings: 0, cancellationRate: 0, lostRevenue: 0, lostRoomNights: 0 },
+    ])
+    expect(summarizeCancellations(history)).toMatchObject({ bookings: 3, cancelledBookings: 1, lostRevenue: 300, averageCancelDaysOut: 11 })
+  })
+
+  it('orders the lead time breakdown from the shortest booking window', () => {
+    const history = [
+      makeReservation({ id: 'far', arrivalDate: ARRIVAL, purchaseDate: '2025-12-01' }),
+      makeReservation({ id: 'near', arrivalDate: ARRIVAL, purchaseDate: '2026-02-20' }),
+    ]
+    expect(buildCancellationBreakdown(history, 'bookingWindow').map((row) => row.segment)).toEqual(['J-0 a J-1', 'J-61 a J-90'])
+  })
+
+  it('builds the cancellation timing curve from far to near, skipping undated cancellations', () => {
+    const curve = buildCancellationTimingCurve([
+      cancelled('a', '2026-01-01'),
+      cancelled('b', '2026-02-16'),
+      cancelled('c', '2026-02-20'),
+      cancelled('d', '2026-02-21'),
+      cancelled('e', null),
+    ])
+
+    expect(curve.map((bucket) => [bucket.label, bucket.cancelledBookings])).toEqual([
+      ['J-91 et plus', 0],
+      ['J-61 a J-90', 0],
+      ['J-31 a J-60', 1],
+      ['J-15 a J-30', 0],
+      ['J-8 a J-14', 0],
+      ['J-2 a J-7', 1],
+      ['J-0 a J-1', 2],
+    ])
+    expect(curve[curve.length - 1]).toMatchObject({ share: 0.5, cumulativeShare: 1 })
+  })
+
+  it('forecasts expected cancellations per stay night from the channel and lead time probabilities', () => {
+    const model = { cancelProbability: (channel: string | null) => (channel === 'Direct' ? 0.05 : 0.2) }
+    const reservations = [
+      makeReservation({ id: 'ota', rooms: 2, nights: 2, totalAmount: 400 }),
+      makeReservation({ id: 'direct', origin: 'Direct' }),
+      makeReservation({ id: 'gone', isCancelled: true }),
+    ]
+    const [first, second] = forecastCancellations([WEEKDAY, '2026-03-12'], reservations, model, TEN_DAYS_BEFORE)
+
+    expect(first).toMatchObject({ date: WEEKDAY, roomsOnBooks: 3 })
+    expect(first.expectedCancelledRooms).toBeCloseTo(0.45)
+    expect(first.netRooms).toBeCloseTo(2.55)
+    expect(second.expectedCancelledRooms).toBeCloseTo(0.4)
+    expect(second.expectedLostRevenue).toBeCloseTo(40)
+  })
+
+  it('expects no cancellation on stays that have already started', () => {
+    const model = { cancelProbability: () => 0.5 }
+    const [day] = forecastCancellations([WEEKDAY], [makeReservation()], model, new Date(2026, 2, 11))
+    expect(day.expectedCancelledRooms).toBe(0)
+  })
+})
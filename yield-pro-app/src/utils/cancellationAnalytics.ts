@@ -0,0 +1,196 @@
+import type { Reservation } from '../types/domain'
+import { getDaysOut, shiftDateKey } from './bookingPace'
+import { normalizeKey, parseDate } from './normalization'
+import { getChannel, isNoShow, type AttritionModel } from './overbooking'
+import {
+  SEGMENT_DIMENSION_LABELS,
+  UNKNOWN_SEGMENT,
+  bookingWindowOrder,
+  getSegmentKey,
+  type SegmentDimension
+} from './segmentAnalytics'
+
+export type CancellationDimension = SegmentDimension | 'ratePlan'
+
+export const CANCELLATION_DIMENSION_LABELS: Record<CancellationDimension, string> = {
+  ...SEGMENT_DIMENSION_LABELS,
+  ratePlan: 'Plan tarifaire',
+}
+
+export const NANR_POLICY = 'Non remboursable'
+export const FLEXIBLE_POLICY = 'Flexible'
+
+const NANR_TOKENS = ['nanr', 'nonremb', 'nonrefund', 'prepaid', 'prepaye']
+
+export interface CancellationBreakdownRow {
+  segment: string
+  bookings: number
+  cancelledBookings: number
+  cancellationRate: number
+  lostRevenue: number
+  lostRoomNights: number
+}
+
+export interface CancellationSummary {
+  bookings: number
+  cancelledBookings: number
+  cancellationRate: number
+  lostRevenue: number
+  lostRoomNights: number
+  // Mean days between the cancellation and the arrival, over dated cancellations.
+  averageCancelDaysOut: number | null
+}
+
+export interface CancellationTimingBucket {
+  label: string
+  minDays: number
+  cancelledBookings: number
+  share: number
+  // Share of the dated cancellations already made once this bucket is reached, counting down to arrival.
+  cumulativeShare: number
+}
+
+export interface CancellationForecastDay {
+  date: string
+  roomsOnBooks: number
+  expectedCancelledRooms: number
+  netRooms: number
+  expectedLostRevenue: number
+}
+
+// Lower bounds, in days before arrival, of the timing curve buckets; far to near.
+const TIMING_BUCKETS: Array<{ label: string; minDays: number }> = [
+  { label: 'J-91 et plus', minDays: 91 },
+  { label: 'J-61 a J-90', minDays: 61 },
+  { label: 'J-31 a J-60', minDays: 31 },
+  { label: 'J-15 a J-30', minDays: 15 },
+  { label: 'J-8 a J-14', minDays: 8 },
+  { label: 'J-2 a J-7', minDays: 2 },
+  { label: 'J-0 a J-1', minDays: 0 },
+]
+
+/** Flex vs non-refundable from the rate plan code, e.g. "OTA-RO-NANR" or "Non remboursable". */
+export const getRatePlanPolicy = (reservation: Reservation) => {
+  const token = normalizeKey(reservation.ratePlan)
+  if (!token) return UNKNOWN_SEGMENT
+  return NANR_TOKENS.some((nanr) => token.includes(nanr)) ? NANR_POLICY : FLEXIBLE_POLICY
+}
+
+export const getCancellationSegmentKey = (reservation: Reservation, dimension: CancellationDimension) =>
+  dimension === 'ratePlan' ? getRatePlanPolicy(reservation) : getSegmentKey(reservation, dimension)
+
+// No-shows are often exported with a cancelled status: they are a distinct loss, handled by the overbooking model.
+const isCancellation = (reservation: Reservation) => reservation.isCancelled && !isNoShow(reservation)
+
+const getCancelDaysOut = (reservation: Reservation) => {
+  const cancelledOn = parseDate(reservation.cancellationDate)
+  return cancelledOn ? Math.max(0, getDaysOut(reservation.arrivalDate, cancelledOn)) : null
+}
+
+/** Cancellation rate, revenue and room nights lost per segment, counted in bookings like the segment analysis. */
+export const buildCancellationBreakdown = (
+  reservations: Reservation[],
+  dimension: CancellationDimension
+): CancellationBreakdownRow[] => {
+  const map = new Map<string, CancellationBreakdownRow>()
+
+  reservations.forEach((reservation) => {
+    if (isNoShow(reservation)) return
+    const segment = getCancellationSegmentKey(reservation, dimension)
+    const row = map.get(segment) || { segment, bookings: 0, cancelledBookings: 0, cancellationRate: 0, lostRevenue: 0, lostRoomNights: 0 }
+    row.bookings += 1
+    if (isCancellation(reservation)) {
+      row.cancelledBookings += 1
+      row.lostRevenue += reservation.totalAmount
+      row.lostRoomNights += reservation.nights * reservation.rooms
+    }
+    map.set(segment, row)
+  })
+
+  const rows = Array.from(map.values()).map((row) => ({
+    ...row,
+    cancellationRate: row.bookings > 0 ? row.cancelledBookings / row.bookings : 0,
+  }))
+  if (dimension === 'bookingWindow') {
+    return rows.sort((a, b) => bookingWindowOrder(a.segment) - bookingWindowOrder(b.segment))
+  }
+  return rows.sort((a, b) => b.bookings - a.bookings || a.segment.localeCompare(b.segment))
+}
+
+export const summarizeCancellations = (reservations: Reservation[]): CancellationSummary => {
+  const kept = reservations.filter((reservation) => !isNoShow(reservation))
+  const cancelled = kept.filter(isCancellation)
+  const cancelDaysOut = cancelled.map(getCancelDaysOut).filter((daysOut): daysOut is number => daysOut !== null)
+
+  return {
+    bookings: kept.length,
+    cancelledBookings: cancelled.length,
+    cancellationRate: kept.length > 0 ? cancelled.length / kept.length : 0,
+    lostRevenue: cancelled.reduce((sum, reservation) => sum + reservation.totalAmount, 0),
+    lostRoomNights: cancelled.reduce((sum, reservation) => sum + reservation.nights * reservation.rooms, 0),
+    averageCancelDaysOut: cancelDaysOut.length > 0 ? cancelDaysOut.reduce((sum, daysOut) => sum + daysOut, 0) / cancelDaysOut.length : null,
+  }
+}
+
+/** When cancellations happen, in days before arrival. Cancellations without a date are left out. */
+export const buildCancellationTimingCurve = (reservations: Reservation[]): CancellationTimingBucket[] => {
+  const counts = TIMING_BUCKETS.map(() => 0)
+  reservations.filter(isCancellation).forEach((reservation) => {
+    const daysOut = getCancelDaysOut(reservation)
+    if (daysOut === null) return
+    counts[TIMING_BUCKETS.findIndex((bucket) => daysOut >= bucket.minDays)] += 1
+  })
+
+  const total = counts.reduce((sum, count) => sum + count, 0)
+  let cumulative = 0
+  return TIMING_BUCKETS.map((bucket, index) => {
+    cumulative += counts[index]
+    return {
+      label: bucket.label,
+      minDays: bucket.minDays,
+      cancelledBookings: counts[index],
+      share: total > 0 ? counts[index] / total : 0,
+      cumulativeShare: total > 0 ? cumulative / total : 0,
+    }
+  })
+}
+
+/**
+ * Rooms on the books per stay night and the share expected to cancel before
+ * arrival, from the channel and lead time probabilities of the attrition model.
+ * Stays that have started can no longer cancel.
+ */
+export const forecastCancellations = (
+  stayDates: string[],
+  reservations: Reservation[],
+  model: Pick<AttritionModel, 'cancelProbability'>,
+  asOf: Date
+): CancellationForecastDay[] => {
+  const byDate = new Map(stayDates.map((date) => [date, { rooms: 0, expected: 0, lostRevenue: 0 }]))
+
+  reservations.forEach((reservation) => {
+    if (reservation.isCancelled || isNoShow(reservation)) return
+    const daysOut = getDaysOut(reservation.arrivalDate, asOf)
+    const probability = daysOut > 0 ? model.cancelProbability(getChannel(reservation), daysOut) : 0
+    const nightlyRevenue = reservation.totalAmount / reservation.nights
+
+    for (let night = 0; night < reservation.nights; night += 1) {
+      const day = byDate.get(shiftDateKey(reservation.arrivalDate, night))
+      if (!day) continue
+      day.rooms += reservation.rooms
+      day.expected += reservation.rooms * probability
+      day.lostRevenue += nightlyRevenue * probability
+    }
+  })
+
+  return stayDates.map((date) => {
+    const day = byDate.get(date) as { rooms: number; expected: number; lostRevenue: number }
+    return {
+      date,
+      roomsOnBooks: day.rooms,
+      expectedCancelledRooms: day.expected,
+      netRooms: day.rooms - day.expected,
+      expectedLostRevenue: day.lostRevenue,
+    }
+  })
+}
@@ -0,0 +1,323 @@
+import type { InventoryDay } from '../types/domain'
+import {
+  deriveRatePlanPrice,
+  extractPlanCode,
+  matchRatePlanRules,
+  type PlanningTarifLike,
+  type RatePlanDerivationSettings,
+} from './ratePlanRules'
+import { createRoomTypeDifferentialLookup } from './rmsEngine'
+import type { StayRestriction } from './stayRestrictions'
+
+export type ChannelExportFormat = 'csv' | 'xml'
+export type ChannelCellStatus = 'new' | 'changed' | 'unchanged'
+
+export interface ChannelRateCell {
+  date: string
+  roomType: string
+  planCode: string
+  price: number
+}
+
+export interface ChannelDiffCell extends ChannelRateCell {
+  previous: number | null
+  status: ChannelCellStatus
+}
+
+export interface ChannelExportIssue {
+  date: string
+  roomType: string
+  message: string
+}
+
+export interface DecidedRate {
+  decision: 'approved' | 'rejected' | 'overridden'
+  final_price: number | null
+}
+
+export interface ChannelExportInput {
+  stayDates: string[]
+  baseDecisions: Map<string, DecidedRate>
+  roomTypeDecisions: Map<string, Map<string, DecidedRate>>
+  roomTypes: string[]
+  baseRoomType: string
+  roomTypeDifferentials: Record<string, number>
+  planCodes: string[]
+  ratePlans: RatePlanDerivationSettings
+}
+
+export interface ChannelValidationLimits {
+  // Base room bounds; each room type is checked against them moved by its differential.
+  minPrice: number
+  maxPrice: number
+  baseRoomType: string
+  roomTypeDifferentials: Record<string, number>
+  inventory: InventoryDay[]
+}
+
+export interface ChannelCsvOptions {
+  currency?: string
+  // When given, each row also carries the stay restrictions of its date.
+  restrictions?: Map<string, StayRestriction>
+}
+
+export interface OtaXmlOptions {
+  hotelCode: string
+  currency?: string
+  timestamp?: Date
+}
+
+// Cells closer than this to the planning price are not pushed again.
+const DIFF_TOLERANCE = 0.5
+
+const cellKey = (date: string, roomType: string, planCode: string) => `${date}|${roomType.trim().toLowerCase()}|${planCode}`
+
+const toPrice = (value: number) => Math.round(value * 100) / 100
+
+const decidedPrice = (row: DecidedRate | undefined) => {
+  if (!row || row.decision === 'rejected') return null
+  return typeof row.final_price === 'number' && row.final_price > 0 ? row.final_price : null
+}
+
+/**
+ * Expands approved and overridden decisions into one price per date, room type
+ * and plan code. A room type uses its own decision when one is in force,
+ * otherwise the base decision moved by its differential.
+ */
+export const buildChannelRateCells = (input: ChannelExportInput): ChannelRateCell[] => {
+  const barCode = extractPlanCode(input.ratePlans.barPlanCode)
+  const planCodes = Array.from(new Set([barCode, ...input.planCodes.map(extractPlanCode).filter(Boolean)]))
+  const rulesByPlan = new Map(planCodes.map((code) => [code, code === barCode ? [] : matchRatePlanRules(code, input.ratePlans.rules)]))
+  const getDifferentialPct = createRoomTypeDifferentialLookup(input)
+  const cells: ChannelRateCell[] = []
+
+  input.stayDates.forEach((date) => {
+    const baseBar = decidedPrice(input.baseDecisions.get(date))
+
+    input.roomTypes.forEach((roomType) => {
+      const ownBar = decidedPrice(input.roomTypeDecisions.get(roomType)?.get(date))
+      const roomBar = ownBar ?? (baseBar === null ? null : baseBar * (1 + getDifferentialPct(roomType) / 100))
+      if (roomBar === null) return
+
+      planCodes.forEach((planCode) => {
+        cells.push({
+          date,
+          roomType,
+          planCode,
+          price: toPrice(deriveRatePlanPrice(roomBar, rulesByPlan.get(planCode) || [], input.ratePlans)),
+        })
+      })
+    })
+  })
+
+  return cells
+}
+
+/**
+ * Splits cells into exportable ones and blocking issues. Room BARs must stay
+ * inside the RMS min/max prices scaled by the room type differential, as the
+ * engine bounds them, and closed dates are never pushed. A closed row without
+ * room type closes the whole hotel for that date.
+ */
+export const validateChannelRateCells = (
+  cells: ChannelRateCell[],
+  barPlanCode: string,
+  limits: ChannelValidationLimits
+) => {
+  const barCode = extractPlanCode(barPlanCode)
+  const getDifferentialPct = createRoomTypeDifferentialLookup(limits)
+  const closed = new Set<string>()
+  limits.inventory.forEach((day) => {
+    if (!day.closedToSale) return
+    closed.add(`${day.date}|${(day.roomType || '*').trim().toLowerCase()}`)
+  })
+
+  const issues: ChannelExportIssue[] = []
+  const blocked = new Set<string>()
+  const addIssue = (date: string, roomType: string, message: string) => {
+    const key = `${date}|${roomType}`
+    if (blocked.has(key)) return
+    blocked.add(key)
+    issues.push({ date, roomType, message })
+  }
+
+  cells.forEach((cell) => {
+    const roomToken = cell.roomType.trim().toLowerCase()
+    if (closed.has(`${cell.date}|*`) || closed.has(`${cell.date}|${roomToken}`)) {
+      addIssue(cell.date, cell.roomType, 'Ferme a la vente')
+      return
+    }
+    if (cell.planCode !== barCode) return
+    const priceFactor = 1 + getDifferentialPct(cell.roomType) / 100
+    const minPrice = toPrice(limits.minPrice * priceFactor)
+    const maxPrice = toPrice(limits.maxPrice * priceFactor)
+    if (cell.price < minPrice) addIssue(cell.date, cell.roomType, `BAR ${cell.price} € sous le prix min (${minPrice} €)`)
+    if (cell.price > maxPrice) addIssue(cell.date, cell.roomType, `BAR ${cell.price} € au-dessus du prix max (${maxPrice} €)`)
+  })
+
+  return {
+    valid: cells.filter((cell) => !blocked.has(`${cell.date}|${cell.roomType}`)),
+    issues: issues.sort((a, b) => a.date.localeCompare(b.date) || a.roomType.localeCompare(b.roomType)),
+  }
+}
+
+export const diffAgainstPlanning = (cells: ChannelRateCell[], planningRows: PlanningTarifLike[]): ChannelDiffCell[] => {
+  const current = new Map<string, number>()
+  planningRows.forEach((row) => {
+    if (!row.date || !row.type_de_chambre || typeof row.tarif !== 'number') return
+    current.set(cellKey(row.date, row.type_de_chambre, extractPlanCode(row.plan_tarifaire)), row.tarif)
+  })
+
+  return cells.map((cell) => {
+    const previous = current.get(cellKey(cell.date, cell.roomType, cell.planCode)) ?? null
+    const status: ChannelCellStatus = previous === null
+      ? 'new'
+      : Math.abs(previous - cell.price) > DIFF_TOLERANCE ? 'changed' : 'unchanged'
+    return { ...cell, previous, status }
+  })
+}
+
+const csvEscape = (value: string) => (/[;"\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)
+
+const restrictionColumns = (restriction: StayRestriction | undefined) => [
+  restriction?.minLos ? `${restriction.minLos}` : '',
+  restriction?.maxLos ? `${restriction.maxLos}` : '',
+  restriction?.closedToArrival ? '1' : '0',
+  restriction?.closedToDeparture ? '1' : '0',
+]
+
+export const toChannelCsv = (cells: ChannelRateCell[], { currency = 'EUR', restrictions }: ChannelCsvOptions = {}) => {
+  const header = ['date', 'room_type', 'rate_plan', 'price', 'currency', ...(restrictions ? ['min_los', 'max_los', 'cta', 'ctd'] : [])].join(';')
+  const lines = cells.map((cell) =>
+    [
+      cell.date,
+      csvEscape(cell.roomType),
+      csvEscape(cell.planCode),
+      cell.price.toFixed(2),
+      currency,
+      ...(restrictions ? restrictionColumns(restrictions.get(cell.date)) : []),
+    ].join(';')
+  )
+  return [header, ...lines].join('\n')
+}
+
+const xmlEscape = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const nextDateKey = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number)
+  const next = new Date(Date.UTC(year, month - 1, day + 1))
+  return next.toISOString().slice(0, 10)
+}
+
+/** Consecutive dates with the same room, plan and price collapse into one Start/End message. */
+const groupDateRuns = (cells: ChannelRateCell[]) => {
+  const sorted = [...cells].sort((a, b) =>
+    a.roomType.localeCompare(b.roomType) || a.planCode.localeCompare(b.planCode) || a.date.localeCompare(b.date)
+  )
+  const runs: Array<ChannelRateCell & { end: string }> = []
+
+  sorted.forEach((cell) => {
+    const last = runs[runs.length - 1]
+    if (
+      last &&
+      last.roomType === cell.roomType &&
+      last.planCode === cell.planCode &&
+      last.price === cell.price &&
+      nextDateKey(last.end) === cell.date
+    ) {
+      last.end = cell.date
+      return
+    }
+    runs.push({ ...cell, end: cell.date })
+  })
+
+  return runs
+}
+
+/** Builds a message modelled on OpenTravel OTA_HotelRateAmountNotifRQ (2003/05 namespace). */
+export const toOtaRateAmountXml = (cells: ChannelRateCell[], { hotelCode, currency = 'EUR', timestamp = new Date() }: OtaXmlOptions) => {
+  const messages = groupDateRuns(cells).map((run) => [
+    '    <RateAmountMessage>',
+    `      <StatusApplicationControl Start="${run.date}" End="${run.end}" InvTypeCode="${xmlEscape(run.roomType)}" RatePlanCode="${xmlEscape(run.planCode)}"/>`,
+    '      <Rates>',
+    '        <Rate>',
+    '          <BaseByGuestAmts>',
+    `            <BaseByGuestAmt AmountAfterTax="${run.price.toFixed(2)}" CurrencyCode="${xmlEscape(currency)}"/>`,
+    '          </BaseByGuestAmts>',
+    '        </Rate>',
+    '      </Rates>',
+    '    </RateAmountMessage>',
+  ].join('\n'))
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<OTA_HotelRateAmountNotifRQ xmlns="http://www.opentravel.org/OTA/2003/05" Version="1.0" TimeStamp="${timestamp.toISOString()}" EchoToken="yieldpro-${timestamp.getTime()}">`,
+    `  <RateAmountMessages HotelCode="${xmlEscape(hotelCode)}">`,
+    ...messages,
+    '  </RateAmountMessages>',
+    '</OTA_HotelRateAmountNotifRQ>',
+    '',
+  ].join('\n')
+}
+
+const restrictionSignature = (restriction: StayRestriction) =>
+  [restriction.minLos ?? '', restriction.maxLos ?? '', restriction.closedToArrival, restriction.closedToDeparture].join('|')
+
+/** Consecutive dates with the same restrictions collapse into one Start/End run. */
+const groupRestrictionRuns = (restrictions: StayRestriction[]) => {
+  const runs: Array<StayRestriction & { end: string }> = []
+  ;[...restrictions].sort((a, b) => a.date.localeCompare(b.date)).forEach((restriction) => {
+    const last = runs[runs.length - 1]
+    if (last && restrictionSignature(last) === restrictionSignature(restriction) && nextDateKey(last.end) === restriction.date) {
+      last.end = restriction.date
+      return
+    }
+    runs.push({ ...restriction, end: restriction.date })
+  })
+  return runs
+}
+
+/**
+ * Builds a message modelled on OpenTravel OTA_HotelAvailNotifRQ carrying the
+ * stay restrictions of every exported room type and plan code. Each restriction
+ * gets its own AvailStatusMessage, as the schema allows one RestrictionStatus per message.
+ */
+export const toOtaRestrictionXml = (
+  restrictions: StayRestriction[],
+  cells: ChannelRateCell[],
+  { hotelCode, timestamp = new Date() }: OtaXmlOptions
+) => {
+  const targets = Array.from(new Map(cells.map((cell) => [`${cell.roomType}|${cell.planCode}`, cell])).values())
+    .sort((a, b) => a.roomType.localeCompare(b.roomType) || a.planCode.localeCompare(b.planCode))
+  const messages: string[] = []
+
+  groupRestrictionRuns(restrictions).forEach((run) => {
+    targets.forEach((target) => {
+      const control = `      <StatusApplicationControl Start="${run.date}" End="${run.end}" InvTypeCode="${xmlEscape(target.roomType)}" RatePlanCode="${xmlEscape(target.planCode)}"/>`
+      const lengths = [
+        ...(run.minLos ? [`          <LengthOfStay MinMaxMessageType="SetMinLOS" Time="${run.minLos}" TimeUnit="Day"/>`] : []),
+        ...(run.maxLos ? [`          <LengthOfStay MinMaxMessageType="SetMaxLOS" Time="${run.maxLos}" TimeUnit="Day"/>`] : []),
+      ]
+      if (lengths.length > 0) {
+        messages.push(['    <AvailStatusMessage>', control, '      <LengthsOfStay>', ...lengths, '      </LengthsOfStay>', '    </AvailStatusMessage>'].join('\n'))
+      }
+      if (run.closedToArrival) {
+        messages.push(['    <AvailStatusMessage>', control, '      <RestrictionStatus Restriction="Arrival" Status="Close"/>', '    </AvailStatusMessage>'].join('\n'))
+      }
+      if (run.closedToDeparture) {
+        messages.push(['    <AvailStatusMessage>', control, '      <RestrictionStatus Restriction="Departure" Status="Close"/>', '    </AvailStatusMessage>'].join('\n'))
+      }
+    })
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<OTA_HotelAvailNotifRQ xmlns="http://www.opentravel.org/OTA/2003/05" Version="1.0" TimeStamp="${timestamp.toISOString()}" EchoToken="yieldpro-${timestamp.getTime()}">`,
+    `  <AvailStatusMessages HotelCode="${xmlEscape(hotelCode)}">`,
+    ...messages,
+    '  </AvailStatusMessages>',
+    '</OTA_HotelAvailNotifRQ>',
+    '',
+  ].join('\n')
+}
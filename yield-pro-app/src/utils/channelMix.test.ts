@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import { buildChannelMix, buildChannelMixTimeline, matchChannelCommission, summarizeNetRevenue } from './channelMix'
+import { WEEKDAY, makeReservation } from './__fixtures__/rmsEngine'
+
+const COMMISSIONS = [
+  { partner: 'Booking.com (6562)', commissionPct: 15 },
+  { partner: 'Expedia (1903)', commissionPct: 18 },
+  { partner: 'Airbnb', commissionPct: 15 },
+]
+
+describe('channel mix', () => {
+  it('matches booking_export origins to partners without their channel manager identifier', () => {
+    expect(matchChannelCommission('Booking.com', COMMISSIONS)?.partner).toBe('Booking.com (6562)')
+    expect(matchChannelCommission('Expedia', COMMISSIONS)?.partner).toBe('Expedia (1903)')
+    expect(matchChannelCommission('Expedia Affiliate Network', COMMISSIONS)?.partner).toBe('Expedia (1903)')
+    expect(matchChannelCommission('Direct', COMMISSIONS)).toBeNull()
+    expect(matchChannelCommission('', COMMISSIONS)).toBeNull()
+  })
+
+  it('splits gross revenue into commission and net revenue per channel, leaving cancellations out', () => {
+    const mix = buildChannelMix(
+      [
+        makeReservation({ id: 'a', totalAmount: 200, nights: 2 }),
+        makeReservation({ id: 'b', totalAmount: 100, origin: 'Direct' }),
+        makeReservation({ id: 'c', totalAmount: 500, isCancelled: true }),
+      ],
+      COMMISSIONS
+    )
+
+    expect(mix).toEqual([
+      {
+        channel: 'Booking.com',
+        partner: 'Booking.com (6562)',
+        commissionPct: 15,
+        bookings: 1,
+        roomNights: 2,
+        grossRevenue: 200,
+        commission: 30,
+        netRevenue: 170,
+        share: 200 / 300,
+        grossAdr: 100,
+        netAdr: 85,
+      },
+      {
+        channel: 'Direct',
+        partner: null,
+        commissionPct: 0,
+        bookings: 1,
+        roomNights: 1,
+        grossRevenue: 100,
+        commission: 0,
+        netRevenue: 100,
+        share: 100 / 300,
+        grossAdr: 100,
+        netAdr: 100,
+      },
+    ])
+  })
+
+  it('summarizes the acquisition cost and the net revenue ratio', () => {
+    const summary = summarizeNetRevenue(
+      [makeReservation({ id: 'a', totalAmount: 300 }), makeReservation({ id: 'b', totalAmount: 100, origin: 'Expedia' })],
+      COMMISSIONS
+    )
+
+    expect(summary).toMatchObject({ grossRevenue: 400, commission: 63, netRevenue: 337, roomNights: 2 })
+    expect(summary.acquisitionCostPct).toBeCloseTo(15.75)
+    expect(summary.netRevenueRatio).toBeCloseTo(0.8425)
+    expect(summary.acquisitionCostPerRoomNight).toBeCloseTo(31.5)
+    expect(summarizeNetRevenue([], COMMISSIONS).netRevenueRatio).toBe(1)
+  })
+
+  it('buckets the mix by arrival week from Monday or by month', () => {
+    const reservations = [
+      makeReservation({ id: 'a', arrivalDate: WEEKDAY, totalAmount: 100 }),
+      makeReservation({ id: 'b', arrivalDate: '2026-03-15', totalAmount: 100, origin: 'Direct' }),
+      makeReservation({ id: 'c', arrivalDate: '2026-03-16', totalAmount: 200 }),
+    ]
+
+    const weeks = buildChannelMixTimeline(reservations, COMMISSIONS, 'week')
+    expect(weeks.map((period) => period.period)).toEqual(['2026-03-09', '2026-03-16'])
+    expect(weeks[0]).toMatchObject({ grossRevenue: 200, netRevenue: 185 })
+    expect(weeks[0].byChannel.Direct.share).toBe(0.5)
+
+    const months = buildChannelMixTimeline(reservations, COMMISSIONS, 'month')
+    expect(months).toHaveLength(1)
+    expect(months[0]).toMatchObject({ period: '2026-03-01', grossRevenue: 400, netRevenue: 355 })
+  })
+})
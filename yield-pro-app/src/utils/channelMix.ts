@@ -0,0 +1,188 @@
+import type { Reservation } from '../types/domain'
+import { normalizeKey, parseDate, toDateKey } from './normalization'
+import { getSegmentKey } from './segmentAnalytics'
+
+export interface ChannelCommission {
+  // Channel manager name, e.g. "Expedia (1903)".
+  partner: string
+  commissionPct: number
+}
+
+export type ChannelMixGranularity = 'week' | 'month'
+
+export interface ChannelMixRow {
+  channel: string
+  // Matched partner, null for channels without commission (direct, walk-in...).
+  partner: string | null
+  commissionPct: number
+  bookings: number
+  roomNights: number
+  grossRevenue: number
+  commission: number
+  netRevenue: number
+  // Share of the gross revenue.
+  share: number
+  grossAdr: number
+  netAdr: number
+}
+
+export interface NetRevenueSummary {
+  grossRevenue: number
+  commission: number
+  netRevenue: number
+  roomNights: number
+  grossAdr: number
+  netAdr: number
+  // Net over gross revenue, 1 without reservations: scales any gross ADR or RevPAR to net.
+  netRevenueRatio: number
+  // Commission over gross revenue.
+  acquisitionCostPct: number
+  acquisitionCostPerRoomNight: number
+}
+
+export interface ChannelMixPeriod {
+  // First stay date of the week or month.
+  period: string
+  grossRevenue: number
+  netRevenue: number
+  byChannel: Record<string, { grossRevenue: number; netRevenue: number; share: number }>
+}
+
+const MIN_TOKEN_LENGTH = 3
+
+/** "Expedia (1903)" and "Expedia" share the token "expedia". */
+export const getPartnerToken = (partner: string) => normalizeKey(partner.replace(/\(\s*\d+\s*\)\s*$/, ''))
+
+/**
+ * Partner of a booking_export Origine: same token, else the longest partner token
+ * contained in the origin or containing it.
+ */
+export const matchChannelCommission = (origin: string, commissions: ChannelCommission[]): ChannelCommission | null => {
+  const token = normalizeKey(origin)
+  if (token.length < MIN_TOKEN_LENGTH) return null
+
+  let best: { commission: ChannelCommission; length: number } | null = null
+  for (const commission of commissions) {
+    const partnerToken = getPartnerToken(commission.partner)
+    if (partnerToken.length < MIN_TOKEN_LENGTH) continue
+    if (partnerToken === token) return commission
+    if ((token.includes(partnerToken) || partnerToken.includes(token)) && (!best || partnerToken.length > best.length)) {
+      best = { commission, length: partnerToken.length }
+    }
+  }
+  return best?.commission ?? null
+}
+
+const createCommissionLookup = (commissions: ChannelCommission[]) => {
+  const cache = new Map<string, ChannelCommission | null>()
+  return (origin: string) => {
+    if (!cache.has(origin)) cache.set(origin, matchChannelCommission(origin, commissions))
+    return cache.get(origin) ?? null
+  }
+}
+
+/** Amount of a reservation once the commission of its channel's partner is taken off. */
+export const createNetAmountLookup = (commissions: ChannelCommission[]) => {
+  const lookup = createCommissionLookup(commissions)
+  return (reservation: Reservation) =>
+    reservation.totalAmount * (1 - (lookup(getSegmentKey(reservation, 'channel'))?.commissionPct ?? 0) / 100)
+}
+
+/** Cancelled reservations are left out, as in the segment analysis. */
+export const buildChannelMix = (reservations: Reservation[], commissions: ChannelCommission[]): ChannelMixRow[] => {
+  const lookup = createCommissionLookup(commissions)
+  const map = new Map<string, ChannelMixRow>()
+
+  reservations.forEach((reservation) => {
+    if (reservation.isCancelled) return
+    const channel = getSegmentKey(reservation, 'channel')
+    const partner = lookup(channel)
+    const commissionPct = partner?.commissionPct ?? 0
+    const row = map.get(channel) || {
+      channel,
+      partner: partner?.partner ?? null,
+      commissionPct,
+      bookings: 0,
+      roomNights: 0,
+      grossRevenue: 0,
+      commission: 0,
+      netRevenue: 0,
+      share: 0,
+      grossAdr: 0,
+      netAdr: 0,
+    }
+    const commission = (reservation.totalAmount * commissionPct) / 100
+    row.bookings += 1
+    row.roomNights += reservation.nights * reservation.rooms
+    row.grossRevenue += reservation.totalAmount
+    row.commission += commission
+    row.netRevenue += reservation.totalAmount - commission
+    map.set(channel, row)
+  })
+
+  const totalGross = Array.from(map.values()).reduce((sum, row) => sum + row.grossRevenue, 0)
+  return Array.from(map.values())
+    .map((row) => ({
+      ...row,
+      share: totalGross > 0 ? row.grossRevenue / totalGross : 0,
+      grossAdr: row.roomNights > 0 ? row.grossRevenue / row.roomNights : 0,
+      netAdr: row.roomNights > 0 ? row.netRevenue / row.roomNights : 0,
+    }))
+    .sort((a, b) => b.grossRevenue - a.grossRevenue || a.channel.localeCompare(b.channel))
+}
+
+export const summarizeNetRevenue = (reservations: Reservation[], commissions: ChannelCommission[]): NetRevenueSummary => {
+  const rows = buildChannelMix(reservations, commissions)
+  const grossRevenue = rows.reduce((sum, row) => sum + row.grossRevenue, 0)
+  const commission = rows.reduce((sum, row) => sum + row.commission, 0)
+  const roomNights = rows.reduce((sum, row) => sum + row.roomNights, 0)
+  const netRevenue = grossRevenue - commission
+
+  return {
+    grossRevenue,
+    commission,
+    netRevenue,
+    roomNights,
+    grossAdr: roomNights > 0 ? grossRevenue / roomNights : 0,
+    netAdr: roomNights > 0 ? netRevenue / roomNights : 0,
+    netRevenueRatio: grossRevenue > 0 ? netRevenue / grossRevenue : 1,
+    acquisitionCostPct: grossRevenue > 0 ? (commission / grossRevenue) * 100 : 0,
+    acquisitionCostPerRoomNight: roomNights > 0 ? commission / roomNights : 0,
+  }
+}
+
+const getPeriodKey = (arrivalDate: string, granularity: ChannelMixGranularity) => {
+  if (granularity === 'month') return `${arrivalDate.slice(0, 7)}-01`
+  const date = parseDate(arrivalDate)
+  if (!date) return arrivalDate
+  // Weeks start on Monday.
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7))
+  return toDateKey(date)
+}
+
+/** Gross and net revenue per channel by week or month of arrival, with each channel's share of the period. */
+export const buildChannelMixTimeline = (
+  reservations: Reservation[],
+  commissions: ChannelCommission[],
+  granularity: ChannelMixGranularity
+): ChannelMixPeriod[] => {
+  const byPeriod = new Map<string, Reservation[]>()
+  reservations.forEach((reservation) => {
+    const key = getPeriodKey(reservation.arrivalDate, granularity)
+    byPeriod.set(key, [...(byPeriod.get(key) || []), reservation])
+  })
+
+  return Array.from(byPeriod.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, rows]) => {
+      const mix = buildChannelMix(rows, commissions)
+      return {
+        period,
+        grossRevenue: mix.reduce((sum, row) => sum + row.grossRevenue, 0),
+        netRevenue: mix.reduce((sum, row) => sum + row.netRevenue, 0),
+        byChannel: Object.fromEntries(
+          mix.map((row) => [row.channel, { grossRevenue: row.grossRevenue, netRevenue: row.netRevenue, share: row.share }])
+        ),
+      }
+    })
+}
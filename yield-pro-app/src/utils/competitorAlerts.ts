@@ -0,0 +1,140 @@
+import type { CompetitorRate } from '../types/domain'
+import { shiftDateKey } from './bookingPace'
+import { buildTariffSnapshots, selectRateSnapshot, type CompsetFilter } from './competitorTrends'
+
+export type CompetitorAlertKind = 'competitor_drop' | 'own_most_expensive' | 'median_rise_while_hold'
+export type CompetitorAlertState = 'new' | 'acknowledged' | 'resolved'
+
+export interface CompetitorAlertRule {
+  kind: CompetitorAlertKind
+  enabled: boolean
+  // Drop or rise that fires the rule; for own_most_expensive, the margin above the most expensive hotel.
+  thresholdPct: number
+  // Only stay dates from today to today + horizonDays are watched.
+  horizonDays: number
+  // Collection the latest one is compared with, in days back.
+  comparisonDays: number
+}
+
+export interface CompetitorAlertTrigger {
+  kind: CompetitorAlertKind
+  stayDate: string
+  competitor: string | null
+  shoppedAt: string
+  message: string
+  details: Record<string, number | string | null>
+}
+
+export const COMPETITOR_ALERT_LABELS: Record<CompetitorAlertKind, string> = {
+  competitor_drop: 'Baisse de tarif d\'un concurrent du compset',
+  own_most_expensive: 'Nous devenons le plus cher du compset',
+  median_rise_while_hold: 'La mediane compset monte alors que nous restons stables',
+}
+
+export const DEFAULT_COMPETITOR_ALERT_RULES: CompetitorAlertRule[] = [
+  { kind: 'competitor_drop', enabled: true, thresholdPct: 15, horizonDays: 14, comparisonDays: 1 },
+  { kind: 'own_most_expensive', enabled: true, thresholdPct: 0, horizonDays: 30, comparisonDays: 1 },
+  { kind: 'median_rise_while_hold', enabled: true, thresholdPct: 5, horizonDays: 30, comparisonDays: 3 },
+]
+
+// Our rate is "held" while it moves less than this between the two collections.
+const HOLD_TOLERANCE_PCT = 1
+
+const pctChange = (current: number, previous: number) => ((current - previous) / previous) * 100
+
+/** Identifies one alert across evaluations: the same condition on the same date is not raised twice. */
+export const getCompetitorAlertKey = (kind: CompetitorAlertKind, stayDate: string, competitor: string | null) =>
+  `${kind}|${stayDate}|${competitor ?? ''}`
+
+/**
+ * Runs the enabled rules against the latest collection of the rate shopper.
+ * Each returned trigger is a condition that holds right now; alerts whose key is
+ * not returned any more can be resolved.
+ */
+export const evaluateCompetitorAlerts = (
+  rules: CompetitorAlertRule[],
+  history: CompetitorRate[],
+  isInCompset: CompsetFilter,
+  todayKey: string
+): CompetitorAlertTrigger[] => {
+  const latest = selectRateSnapshot(history)
+  if (latest.length === 0) return []
+  const shoppedAt = latest.reduce((max, rate) => (rate.shoppedAt > max ? rate.shoppedAt : max), '')
+  const triggers: CompetitorAlertTrigger[] = []
+
+  rules.filter((rule) => rule.enabled).forEach((rule) => {
+    const lastDate = shiftDateKey(todayKey, rule.horizonDays)
+    const inHorizon = (date: string) => date >= todayKey && date <= lastDate
+
+    if (rule.kind === 'competitor_drop') {
+      const previousByKey = new Map(
+        selectRateSnapshot(history, rule.comparisonDays).map((rate) => [`${rate.competitor}|${rate.date}`, rate] as const)
+      )
+      latest.forEach((rate) => {
+        if (rate.isOwnHotel || rate.price === null || !inHorizon(rate.date) || !isInCompset(rate.competitor)) return
+        const previous = previousByKey.get(`${rate.competitor}|${rate.date}`)
+        if (!previous || previous.price === null) return
+        const change = pctChange(rate.price, previous.price)
+        if (change > -rule.thresholdPct) return
+        triggers.push({
+          kind: rule.kind,
+          stayDate: rate.date,
+          competitor: rate.competitor,
+          shoppedAt,
+          message: `${rate.competitor} baisse de ${Math.abs(change).toFixed(0)}% (${previous.price.toFixed(0)}€ -> ${rate.price.toFixed(0)}€) pour le ${rate.date}.`,
+          details: { previousPrice: previous.price, price: rate.price, changePct: Number(change.toFixed(1)), previousShoppedAt: previous.shoppedAt },
+        })
+      })
+    }
+
+    if (rule.kind === 'own_most_expensive') {
+      const byDate = new Map<string, { own: number | null; highest: number | null; highestName: string | null }>()
+      latest.forEach((rate) => {
+        if (rate.price === null || !inHorizon(rate.date)) return
+        const current = byDate.get(rate.date) || { own: null, highest: null, highestName: null }
+        if (rate.isOwnHotel) current.own = rate.price
+        else if (isInCompset(rate.competitor) && (current.highest === null || rate.price > current.highest)) {
+          current.highest = rate.price
+          current.highestName = rate.competitor
+        }
+        byDate.set(rate.date, current)
+      })
+      byDate.forEach(({ own, highest, highestName }, date) => {
+        if (own === null || highest === null) return
+        if (own <= highest * (1 + rule.thresholdPct / 100)) return
+        triggers.push({
+          kind: rule.kind,
+          stayDate: date,
+          competitor: null,
+          shoppedAt,
+          message: `Nous sommes le plus cher du compset le ${date}: ${own.toFixed(0)}€ contre ${highest.toFixed(0)}€ pour ${highestName}.`,
+          details: { ownPrice: own, highestPrice: highest, highestCompetitor: highestName },
+        })
+      })
+    }
+
+    if (rule.kind === 'median_rise_while_hold') {
+      const previousByDate = new Map(
+        buildTariffSnapshots(selectRateSnapshot(history, rule.comparisonDays), isInCompset).map((row) => [row.date, row] as const)
+      )
+      buildTariffSnapshots(latest, isInCompset).forEach((row) => {
+        if (!inHorizon(row.date)) return
+        const previous = previousByDate.get(row.date)
+        if (!previous || previous.compsetMedian <= 0 || previous.ownPrice <= 0 || row.compsetMedian <= 0 || row.ownPrice <= 0) return
+        const medianChange = pctChange(row.compsetMedian, previous.compsetMedian)
+        const ownChange = pctChange(row.ownPrice, previous.ownPrice)
+        if (medianChange < rule.thresholdPct || Math.abs(ownChange) >= HOLD_TOLERANCE_PCT) return
+        triggers.push({
+          kind: rule.kind,
+          stayDate: row.date,
+          competitor: null,
+          shoppedAt,
+          message: `Mediane compset +${medianChange.toFixed(0)}% sur ${rule.comparisonDays}j pour le ${row.date} (${previous.compsetMedian.toFixed(0)}€ -> ${row.compsetMedian.toFixed(0)}€), notre tarif reste a ${row.ownPrice.toFixed(0)}€.`,
+          details: { previousMedian: previous.compsetMedian, median: row.compsetMedian, changePct: Number(medianChange.toFixed(1)), ownPrice: row.ownPrice },
+        })
+      })
+    }
+  })
+
+  return triggers
+}
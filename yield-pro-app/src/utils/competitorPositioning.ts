@@ -0,0 +1,176 @@
+import type { CompetitorRate } from '../types/domain'
+import { median, type CompsetFilter } from './competitorTrends'
+
+export interface CompetitorPositioning {
+  competitor: string
+  isOwnHotel: boolean
+  inCompset: boolean
+  pricedDays: number
+  avgPrice: number | null
+  // Their rate as a percentage of ours, averaged over the dates both of us are priced.
+  priceIndex: number | null
+  // 1 = cheapest of the hotels priced that date.
+  avgRank: number | null
+  comparedDays: number
+  undercutDays: number
+  undercutRate: number | null
+  // Mean absolute change (%) between two successive collections of the same stay date.
+  volatilityPct: number | null
+  soldOutDates: string[]
+}
+
+export interface PositionDay {
+  date: string
+  ownPrice: number | null
+  compsetMedian: number | null
+  ownRank: number | null
+  pricedHotels: number
+  ranks: Record<string, number>
+}
+
+export interface ShoppingHistoryRow {
+  shoppedAt: string
+  prices: Record<string, number | null>
+}
+
+const mean = (values: number[]) =>
+  values.length === 0 ? null : values.reduce((sum, value) => sum + value, 0) / values.length
+
+/**
+ * Per-date position of every hotel in the latest collected rates: rank by price,
+ * our rate and the median of the compset hotels.
+ */
+export const buildPositionDays = (rates: CompetitorRate[], isInCompset: CompsetFilter): PositionDay[] => {
+  const byDate = new Map<string, CompetitorRate[]>()
+  rates.forEach((rate) => {
+    const list = byDate.get(rate.date) || []
+    list.push(rate)
+    byDate.set(rate.date, list)
+  })
+
+  return Array.from(byDate.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, dayRates]) => {
+      const priced = dayRates
+        .filter((rate): rate is CompetitorRate & { price: number } => rate.price !== null)
+        .sort((a, b) => a.price - b.price)
+
+      // Hotels at the same price share the same rank.
+      const ranks: Record<string, number> = {}
+      priced.forEach((rate, index) => {
+        const previous = priced[index - 1]
+        ranks[rate.competitor] = previous && previous.price === rate.price ? ranks[previous.competitor] : index + 1
+      })
+
+      const own = priced.find((rate) => rate.isOwnHotel)
+      const compsetPrices = priced.filter((rate) => !rate.isOwnHotel && isInCompset(rate.competitor)).map((rate) => rate.price)
+
+      return {
+        date,
+        ownPrice: own?.price ?? null,
+        compsetMedian: compsetPrices.length > 0 ? median(compsetPrices) : null,
+        ownRank: own ? ranks[own.competitor] : null,
+        pricedHotels: priced.length,
+        ranks,
+      }
+    })
+}
+
+const getVolatilityPct = (history: CompetitorRate[]) => {
+  const byStayDate = new Map<string, CompetitorRate[]>()
+  history.forEach((rate) => {
+    if (rate.price === null) return
+    const list = byStayDate.get(rate.date) || []
+    list.push(rate)
+    byStayDate.set(rate.date, list)
+  })
+
+  const changes: number[] = []
+  byStayDate.forEach((collections) => {
+    collections.sort((a, b) => a.shoppedAt.localeCompare(b.shoppedAt))
+    for (let i = 1; i < collections.length; i += 1) {
+      const previous = collections[i - 1].price as number
+      const current = collections[i].price as number
+      changes.push((Math.abs(current - previous) / previous) * 100)
+    }
+  })
+  return mean(changes)
+}
+
+/**
+ * Positioning KPIs per hotel over the range. `latestRates` holds one rate per hotel and
+ * stay date (see selectRateSnapshot); `history` every collection, for the volatility.
+ */
+export const buildCompetitorPositioning = (
+  latestRates: CompetitorRate[],
+  history: CompetitorRate[],
+  isInCompset: CompsetFilter
+): CompetitorPositioning[] => {
+  const days = buildPositionDays(latestRates, isInCompset)
+  const ownPriceByDate = new Map(days.map((day) => [day.date, day.ownPrice] as const))
+  const rankByDate = new Map(days.map((day) => [day.date, day.ranks] as const))
+
+  const byCompetitor = new Map<string, CompetitorRate[]>()
+  latestRates.forEach((rate) => {
+    const list = byCompetitor.get(rate.competitor) || []
+    list.push(rate)
+    byCompetitor.set(rate.competitor, list)
+  })
+
+  const historyByCompetitor = new Map<string, CompetitorRate[]>()
+  history.forEach((rate) => {
+    const list = historyByCompetitor.get(rate.competitor) || []
+    list.push(rate)
+    historyByCompetitor.set(rate.competitor, list)
+  })
+
+  return Array.from(byCompetitor.entries())
+    .map(([competitor, rates]) => {
+      const isOwnHotel = rates.some((rate) => rate.isOwnHotel)
+      const prices: number[] = []
+      const indexes: number[] = []
+      const ranks: number[] = []
+      let undercutDays = 0
+
+      rates.forEach((rate) => {
+        if (rate.price === null) return
+        prices.push(rate.price)
+        const rank = rankByDate.get(rate.date)?.[competitor]
+        if (rank !== undefined) ranks.push(rank)
+
+        const ownPrice = ownPriceByDate.get(rate.date)
+        if (isOwnHotel || ownPrice === null || ownPrice === undefined) return
+        indexes.push((rate.price / ownPrice) * 100)
+        if (rate.price < ownPrice) undercutDays += 1
+      })
+
+      const avgIndex = mean(indexes)
+      return {
+        competitor,
+        isOwnHotel,
+        inCompset: !isOwnHotel && isInCompset(competitor),
+        pricedDays: prices.length,
+        avgPrice: mean(prices),
+        priceIndex: isOwnHotel ? 100 : avgIndex,
+        avgRank: mean(ranks),
+        comparedDays: indexes.length,
+        undercutDays,
+        undercutRate: indexes.length > 0 ? undercutDays / indexes.length : null,
+        volatilityPct: getVolatilityPct(historyByCompetitor.get(competitor) || []),
+        soldOutDates: rates.filter((rate) => rate.isSoldOut).map((rate) => rate.date).sort(),
+      }
+    })
+    .sort((a, b) => Number(b.isOwnHotel) - Number(a.isOwnHotel) || (a.avgRank ?? Infinity) - (b.avgRank ?? Infinity))
+}
+
+/** Every collection of one stay date, oldest first, with the rate of each hotel. */
+export const buildShoppingHistory = (history: CompetitorRate[], stayDate: string): ShoppingHistoryRow[] => {
+  const byShop = new Map<string, ShoppingHistoryRow>()
+  history.forEach((rate) => {
+    if (rate.date !== stayDate) return
+    const row = byShop.get(rate.shoppedAt) ?? { shoppedAt: rate.shoppedAt, prices: {} }
+    row.prices[rate.competitor] = rate.price
+    byShop.set(rate.shoppedAt, row)
+  })
+  return Array.from(byShop.values()).sort((a, b) => a.shoppedAt.localeCompare(b.shoppedAt))
+}
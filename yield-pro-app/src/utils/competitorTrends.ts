@@ -1,4 +1,5 @@
-export type GenericTarifRow = Record<string, unknown>
+import type { CompetitorRate } from '../types/domain'
+import { shiftDateKey } from './bookingPace'
 
 export interface TariffSnapshot {
   date: string
@@ -31,70 +32,7 @@ export interface TrendSummary {
   comparedDays7j: number
 }
 
-const parseNumberLike = (value: unknown): number => {
-  if (typeof value === 'number' && Number.isFinite(value)) return value
-  if (typeof value !== 'string') return 0
-
-  const cleaned = value
-    .trim()
-    .replace(/\u00A0/g, '')
-    .replace(/\s+/g, '')
-    .replace(/[€$£%]/g, '')
-    .replace(/[^\d,.-]/g, '')
-
-  if (!cleaned) return 0
-  if (cleaned.includes(',') && cleaned.includes('.')) {
-    if (cleaned.lastIndexOf(',') > cleaned.lastIndexOf('.')) {
-      const parsed = Number(cleaned.replace(/\./g, '').replace(',', '.'))
-      return Number.isFinite(parsed) ? parsed : 0
-    }
-    const parsed = Number(cleaned.replace(/,/g, ''))
-    return Number.isFinite(parsed) ? parsed : 0
-  }
-  if (cleaned.includes(',')) {
-    const parsed = Number(cleaned.replace(',', '.'))
-    return Number.isFinite(parsed) ? parsed : 0
-  }
-
-  const parsed = Number(cleaned)
-  return Number.isFinite(parsed) ? parsed : 0
-}
-
-const normalize = (value: string) =>
-  value
-    .normalize('NFD')
-    .replace(/[\u0300-\u036f]/g, '')
-    .replace(/[^a-zA-Z0-9]/g, '')
-    .toLowerCase()
-
-const isMetaColumn = (column: string) => {
-  const n = normalize(column)
-  return (
-    n === 'id' ||
-    n === 'hotelid' ||
-    n.includes('date') ||
-    n === 'jour' ||
-    n.includes('miseajour')
-  )
-}
-
-const toDateKey = (value: string): string => {
-  if (!value) return ''
-  const trimmed = value.trim()
-  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return trimmed
-  if (/^\d{2}\/\d{2}\/\d{4}$/.test(trimmed)) {
-    const [d, m, y] = trimmed.split('/')
-    return `${y}-${m}-${d}`
-  }
-  const parsed = new Date(trimmed)
-  if (Number.isNaN(parsed.getTime())) return ''
-  const yyyy = parsed.getFullYear()
-  const mm = `${parsed.getMonth() + 1}`.padStart(2, '0')
-  const dd = `${parsed.getDate()}`.padStart(2, '0')
-  return `${yyyy}-${mm}-${dd}`
-}
-
-const median = (values: number[]) => {
+export const median = (values: number[]) => {
   if (values.length === 0) return 0
   const sorted = [...values].sort((a, b) => a - b)
   const mid = Math.floor(sorted.length / 2)
@@ -102,38 +40,52 @@ const median = (values: number[]) => {
   return sorted[mid]
 }
 
-export const extractTariffSnapshot = (row: GenericTarifRow): TariffSnapshot | null => {
-  const dateRaw = typeof row.Date === 'string' ? row.Date : (typeof row.date === 'string' ? row.date : '')
-  const date = toDateKey(dateRaw)
-  if (!date) return null
-
-  let demand = 0
-  let ownPrice = 0
-  const competitorPrices: number[] = []
-
-  Object.entries(row).forEach(([key, value]) => {
-    if (isMetaColumn(key)) return
-    const nKey = normalize(key)
-    const numeric = parseNumberLike(value)
-    if (numeric <= 0) return
+export type CompsetFilter = (competitorName: string) => boolean
+
+const includeAll: CompsetFilter = () => true
+
+/**
+ * Rates as the rate shopper knew them `daysBack` days before its latest collection:
+ * for each hotel and stay date, the most recent collection made on or before that day.
+ */
+export const selectRateSnapshot = (history: CompetitorRate[], daysBack = 0): CompetitorRate[] => {
+  if (history.length === 0) return []
+  const latestShop = history.reduce((latest, rate) => (rate.shoppedAt > latest ? rate.shoppedAt : latest), '')
+  const cutoff = daysBack > 0 ? shiftDateKey(latestShop, -daysBack) : latestShop
+
+  const byKey = new Map<string, CompetitorRate>()
+  history.forEach((rate) => {
+    if (rate.shoppedAt > cutoff) return
+    const key = `${rate.competitor}|${rate.date}`
+    const current = byKey.get(key)
+    if (!current || rate.shoppedAt > current.shoppedAt) byKey.set(key, rate)
+  })
+  return Array.from(byKey.values()).sort((a, b) => a.date.localeCompare(b.date))
+}
 
-    if (nKey.includes('demandedumarche') || (nKey.includes('demande') && nKey.includes('marche'))) {
-      demand = numeric <= 1 ? numeric * 100 : numeric
-      return
+/**
+ * One snapshot per date: our own rate, the median of the compset hotels and the market demand.
+ * Sold-out hotels have no rate and stay out of the median.
+ */
+export const buildTariffSnapshots = (rates: CompetitorRate[], isInCompset: CompsetFilter = includeAll): TariffSnapshot[] => {
+  const byDate = new Map<string, { demand: number; ownPrice: number; competitorPrices: number[] }>()
+
+  rates.forEach((rate) => {
+    const current = byDate.get(rate.date) || { demand: 0, ownPrice: 0, competitorPrices: [] }
+    if (rate.marketDemand !== null) current.demand = rate.marketDemand
+    if (rate.price !== null) {
+      if (rate.isOwnHotel) current.ownPrice = rate.price
+      else if (isInCompset(rate.competitor)) current.competitorPrices.push(rate.price)
     }
-    if (nKey.includes('folkestone')) {
-      ownPrice = numeric
-      return
-    }
-    competitorPrices.push(numeric)
+    byDate.set(rate.date, current)
   })
 
-  return {
+  return Array.from(byDate.entries()).map(([date, snapshot]) => ({
     date,
-    demand,
-    ownPrice,
-    compsetMedian: median(competitorPrices),
-  }
+    demand: snapshot.demand,
+    ownPrice: snapshot.ownPrice,
+    compsetMedian: median(snapshot.competitorPrices),
+  }))
 }
 
 const avg = (values: Array<number | null>) => {
@@ -143,23 +95,14 @@ const avg = (values: Array<number | null>) => {
 }
 
 export const buildTrendSeries = (
-  currentRows: GenericTarifRow[],
-  vs3Rows: GenericTarifRow[],
-  vs7Rows: GenericTarifRow[]
+  currentRates: CompetitorRate[],
+  vs3Rates: CompetitorRate[],
+  vs7Rates: CompetitorRate[],
+  isInCompset: CompsetFilter = includeAll
 ) => {
-  const current = currentRows.map(extractTariffSnapshot).filter((r): r is TariffSnapshot => Boolean(r))
-  const vs3Map = new Map(
-    vs3Rows
-      .map(extractTariffSnapshot)
-      .filter((r): r is TariffSnapshot => Boolean(r))
-      .map((r) => [r.date, r] as const)
-  )
-  const vs7Map = new Map(
-    vs7Rows
-      .map(extractTariffSnapshot)
-      .filter((r): r is TariffSnapshot => Boolean(r))
-      .map((r) => [r.date, r] as const)
-  )
+  const current = buildTariffSnapshots(currentRates, isInCompset)
+  const vs3Map = new Map(buildTariffSnapshots(vs3Rates, isInCompset).map((r) => [r.date, r] as const))
+  const vs7Map = new Map(buildTariffSnapshots(vs7Rates, isInCompset).map((r) => [r.date, r] as const))
 
   const series: TrendSeriesRow[] = current
     .map((row) => {
@@ -0,0 +1,174 @@
+import {
+  PACE_MAX_DAYS_OUT,
+  buildPaceCurves,
+  collectStayDates,
+  getDaysOut,
+  getWeekday,
+  toPaceDateKey
+} from './bookingPace'
+import type { Reservation } from '../types/domain'
+
+export interface DemandForecastDay {
+  date: string
+  daysOut: number
+  roomsOnBooks: number
+  // Rooms expected to cancel before arrival, already taken off roomsOnBooks.
+  expectedCancellations: number
+  expectedPickup: number
+  unconstrainedRooms: number
+  forecastRooms: number
+  forecastLow: number
+  forecastHigh: number
+  forecastOccupancy: number
+  forecastOccupancyLow: number
+  forecastOccupancyHigh: number
+  unconstrainedOccupancy: number
+  sampleSize: number
+}
+
+export interface DemandForecastOptions {
+  capacity: number
+  eventImpactByDate?: Map<string, number>
+  // Expected cancellations per stay date, netted from the rooms on the books.
+  expectedCancellationsByDate?: Map<string, number>
+  asOf?: Date
+}
+
+// Extra pickup expected at an event impact of 100 (10/10 in events_calendar).
+const EVENT_PICKUP_LIFT = 0.5
+// 80% band assuming roughly normal pickup errors.
+const BAND_Z = 1.28
+const MIN_WEEKDAY_SAMPLES = 3
+
+interface PickupStats {
+  mean: number
+  std: number
+  count: number
+}
+
+const toStats = (values: number[]): PickupStats => {
+  if (values.length === 0) return { mean: 0, std: 0, count: 0 }
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length
+  return { mean, std: Math.sqrt(variance), count: values.length }
+}
+
+/**
+ * Learns, from completed stay dates, how many rooms were still picked up after
+ * each day before arrival. Samples are kept per weekday and pooled.
+ */
+const buildPickupModel = (history: Reservation[], asOf: Date) => {
+  const asOfKey = toPaceDateKey(asOf)
+  const completedStayDates = collectStayDates(history).filter((date) => date < asOfKey)
+  const curves = buildPaceCurves(history, completedStayDates, asOf, PACE_MAX_DAYS_OUT)
+
+  const byWeekday = new Map<number, number[][]>()
+  const pooled: number[][] = Array.from({ length: PACE_MAX_DAYS_OUT + 1 }, () => [])
+  const finalsByWeekday = new Map<number, number[]>()
+  const finals: number[] = []
+
+  curves.forEach((curve) => {
+    const finalRooms = curve.points[curve.points.length - 1]?.rooms ?? 0
+    const weekday = getWeekday(curve.stayDate)
+    const weekdaySamples = byWeekday.get(weekday) || Array.from({ length: PACE_MAX_DAYS_OUT + 1 }, () => [])
+
+    curve.points.forEach((point) => {
+      if (point.rooms === null) return
+      const pickup = finalRooms - point.rooms
+      weekdaySamples[point.daysOut].push(pickup)
+      pooled[point.daysOut].push(pickup)
+    })
+
+    byWeekday.set(weekday, weekdaySamples)
+    finalsByWeekday.set(weekday, [...(finalsByWeekday.get(weekday) || []), finalRooms])
+    finals.push(finalRooms)
+  })
+
+  const overallFinal = toStats(finals).mean
+  const weekdayIndex = (weekday: number) => {
+    const weekdayFinal = toStats(finalsByWeekday.get(weekday) || []).mean
+    return overallFinal > 0 && weekdayFinal > 0 ? weekdayFinal / overallFinal : 1
+  }
+
+  return {
+    // Falls back to pooled samples scaled by the weekday index when the weekday history is too thin.
+    pickupAt: (weekday: number, daysOut: number): PickupStats => {
+      const k = Math.min(PACE_MAX_DAYS_OUT, Math.max(0, daysOut))
+      const weekdayStats = toStats(byWeekday.get(weekday)?.[k] || [])
+      if (weekdayStats.count >= MIN_WEEKDAY_SAMPLES) return weekdayStats
+
+      const pooledStats = toStats(pooled[k])
+      const index = weekdayIndex(weekday)
+      return { mean: pooledStats.mean * index, std: pooledStats.std * index, count: pooledStats.count }
+    },
+  }
+}
+
+/**
+ * Projects final rooms sold per stay date: rooms on books today plus the pickup
+ * historically observed from the same distance to arrival, lifted by event impact.
+ * The unconstrained figure is not capped by capacity so demand spill stays visible.
+ */
+export const buildDemandForecast = (
+  reservations: Reservation[],
+  historicalReservations: Reservation[],
+  stayDates: string[],
+  { capacity, eventImpactByDate, expectedCancellationsByDate, asOf = new Date() }: DemandForecastOptions
+): Map<string, DemandForecastDay> => {
+  const forecasts = new Map<string, DemandForecastDay>()
+  if (stayDates.length === 0) return forecasts
+
+  const safeCapacity = Math.max(1, capacity)
+  const model = buildPickupModel([...historicalReservations, ...reservations], asOf)
+  const maxDaysOut = Math.max(
+    PACE_MAX_DAYS_OUT,
+    ...stayDates.map((date) => getDaysOut(date, asOf)).filter((daysOut) => Number.isFinite(daysOut))
+  )
+  const curves = buildPaceCurves(reservations, stayDates, asOf, maxDaysOut)
+
+  stayDates.forEach((date) => {
+    const daysOut = getDaysOut(date, asOf)
+    if (!Number.isFinite(daysOut)) return
+
+    const points = curves.get(date)?.points || []
+    const snapshot = daysOut >= 0 ? points[maxDaysOut - daysOut] : points[points.length - 1]
+    const grossRoomsOnBooks = snapshot?.rooms ?? 0
+    const expectedCancellations = daysOut > 0 ? Math.min(grossRoomsOnBooks, expectedCancellationsByDate?.get(date) ?? 0) : 0
+    const roomsOnBooks = grossRoomsOnBooks - expectedCancellations
+
+    let expectedPickup = 0
+    let spread = 0
+    let sampleSize = 0
+    if (daysOut > 0) {
+      const stats = model.pickupAt(getWeekday(date), daysOut)
+      const eventLift = 1 + ((eventImpactByDate?.get(date) || 0) / 100) * EVENT_PICKUP_LIFT
+      expectedPickup = Math.max(0, stats.mean * eventLift)
+      spread = stats.std * eventLift * BAND_Z
+      sampleSize = stats.count
+    }
+
+    const unconstrainedRooms = roomsOnBooks + expectedPickup
+    const forecastRooms = Math.min(safeCapacity, unconstrainedRooms)
+    const forecastLow = Math.min(safeCapacity, Math.max(roomsOnBooks, unconstrainedRooms - spread))
+    const forecastHigh = Math.min(safeCapacity, unconstrainedRooms + spread)
+
+    forecasts.set(date, {
+      date,
+      daysOut,
+      roomsOnBooks,
+      expectedCancellations,
+      expectedPickup,
+      unconstrainedRooms,
+      forecastRooms,
+      forecastLow,
+      forecastHigh,
+      forecastOccupancy: (forecastRooms / safeCapacity) * 100,
+      forecastOccupancyLow: (forecastLow / safeCapacity) * 100,
+      forecastOccupancyHigh: (forecastHigh / safeCapacity) * 100,
+      unconstrainedOccupancy: (unconstrainedRooms / safeCapacity) * 100,
+      sampleSize,
+    })
+  })
+
+  return forecasts
+}
@@ -0,0 +1,163 @@
+import type { Database } from '../types/database.types'
+
+type PriceDecisionRow = Database['public']['Tables']['price_decisions']['Row']
+type SettingsHistoryRow = Database['public']['Tables']['settings_history']['Row']
+type PlanningTarifHistoryRow = Database['public']['Tables']['planning_tarifs_history']['Row']
+
+export type HistoryEntryType = 'price' | 'rms_settings' | 'decision'
+
+export interface HistoryDiff {
+  field: string
+  before: string
+  after: string
+}
+
+export interface HistoryEntry {
+  id: string
+  type: HistoryEntryType
+  at: string
+  userEmail: string
+  stayDate: string | null
+  title: string
+  reason: string
+  formulaText: string
+  diffs: HistoryDiff[]
+}
+
+export interface HistoryFilters {
+  type: HistoryEntryType | 'all'
+  userEmail: string
+  stayDate: string
+}
+
+const SETTINGS_LABELS: Record<string, string> = {
+  hotelCapacity: 'Capacite hotel',
+  roomTypeCapacities: 'Capacites par type',
+  baseRoomType: 'Chambre de reference',
+  roomTypeDifferentials: 'Differentiels par type',
+  strategy: 'Strategie',
+  targetOccupancy: 'Objectif occupation',
+  minAdr: 'ADR min',
+  maxAdr: 'ADR max',
+  minPrice: 'Prix min',
+  maxPrice: 'Prix max',
+  weekendPremiumPct: 'Premium weekend',
+  lastMinuteDiscountPct: 'Discount last minute',
+  demandWeight: 'Poids demande',
+  competitorWeight: 'Poids concurrence',
+  eventWeight: 'Poids evenements',
+  pickupWeight: 'Poids pickup',
+  priceStep: 'Pas de recommandation',
+  autoApproveThresholdPct: 'Auto-approve max variation',
+  ratePlans: 'Regles plans tarifaires',
+  calendar: 'Calendrier tarifaire',
+  overbooking: 'Surreservation',
+  netExpectedCancellations: 'Annulations attendues deduites',
+}
+
+const DECISION_TITLES: Record<PriceDecisionRow['decision'], string> = {
+  approved: 'Suggestion approuvee',
+  rejected: 'Suggestion rejetee',
+  overridden: 'Tarif force',
+}
+
+const TARIF_CHANGE_TITLES: Record<PlanningTarifHistoryRow['action'], string> = {
+  insert: 'Tarif ajoute',
+  update: 'Tarif modifie',
+  delete: 'Tarif supprime',
+}
+
+const asRecord = (value: unknown): Record<string, unknown> => {
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) return value as Record<string, unknown>
+  return {}
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '-'
+  if (typeof value === 'number') return Number.isInteger(value) ? `${value}` : value.toFixed(2)
+  if (typeof value === 'string') return value
+  return JSON.stringify(value)
+}
+
+const formatPrice = (value: number | null) => (value === null ? '-' : `${Math.round(value)} €`)
+
+export const diffSettings = (before: unknown, after: unknown): HistoryDiff[] => {
+  const left = asRecord(before)
+  const right = asRecord(after)
+  const keys = Array.from(new Set([...Object.keys(left), ...Object.keys(right)]))
+
+  return keys
+    .filter((key) => JSON.stringify(left[key]) !== JSON.stringify(right[key]))
+    .map((key) => ({
+      field: SETTINGS_LABELS[key] || key,
+      before: formatValue(left[key]),
+      after: formatValue(right[key]),
+    }))
+}
+
+/**
+ * A decision that moved the price (approved or overridden with a different final
+ * price) is reported as a price change; everything else stays a plain decision.
+ */
+const decisionToEntry = (row: PriceDecisionRow): HistoryEntry => {
+  const movedPrice = row.decision !== 'rejected' && row.final_price !== null && row.final_price !== row.current_price
+  const diffs: HistoryDiff[] = [{ field: 'Tarif', before: formatPrice(row.current_price), after: formatPrice(row.decision === 'rejected' ? row.current_price : row.final_price) }]
+  if (row.suggested_price !== null && row.suggested_price !== row.final_price) {
+    diffs.push({ field: 'Suggestion RMS', before: formatPrice(row.suggested_price), after: formatPrice(row.final_price) })
+  }
+
+  return {
+    id: `decision-${row.id}`,
+    type: movedPrice ? 'price' : 'decision',
+    at: row.decided_at,
+    userEmail: row.user_email || 'Utilisateur inconnu',
+    stayDate: row.stay_date,
+    title: [DECISION_TITLES[row.decision], row.room_type, row.supersedes_id ? 'revision' : ''].filter(Boolean).join(' · '),
+    reason: row.reason || '',
+    formulaText: row.formula_text || '',
+    diffs,
+  }
+}
+
+const settingsToEntry = (row: SettingsHistoryRow): HistoryEntry => ({
+  id: `settings-${row.id}`,
+  type: 'rms_settings',
+  at: row.changed_at,
+  userEmail: row.user_email || 'Utilisateur inconnu',
+  stayDate: null,
+  title: 'Parametres RMS modifies',
+  reason: '',
+  formulaText: '',
+  diffs: diffSettings(row.before, row.after),
+})
+
+/** planning_tarifs rows written outside the grid (imports, channel manager sync) have no user. */
+const tarifChangeToEntry = (row: PlanningTarifHistoryRow): HistoryEntry => ({
+  id: `tarif-${row.id}`,
+  type: 'price',
+  at: row.changed_at,
+  userEmail: row.user_email || 'Synchronisation planning',
+  stayDate: row.stay_date,
+  title: [TARIF_CHANGE_TITLES[row.action], row.type_de_chambre, row.plan_tarifaire].filter(Boolean).join(' · '),
+  reason: '',
+  formulaText: '',
+  diffs: [{ field: 'Tarif planning', before: formatPrice(row.old_tarif), after: formatPrice(row.new_tarif) }],
+})
+
+export const buildHistoryTimeline = (
+  decisions: PriceDecisionRow[],
+  settingsChanges: SettingsHistoryRow[],
+  tarifChanges: PlanningTarifHistoryRow[] = []
+): HistoryEntry[] => {
+  return [...decisions.map(decisionToEntry), ...settingsChanges.map(settingsToEntry), ...tarifChanges.map(tarifChangeToEntry)]
+    .sort((a, b) => b.at.localeCompare(a.at))
+}
+
+export const filterHistory = (entries: HistoryEntry[], filters: HistoryFilters): HistoryEntry[] => {
+  return entries.filter((entry) => {
+    if (filters.type !== 'all' && entry.type !== filters.type) return false
+    if (filters.userEmail && entry.userEmail !== filters.userEmail) return false
+    if (filters.stayDate && entry.stayDate !== filters.stayDate) return false
+    return true
+  })
+}
@@ -0,0 +1,239 @@
+import { normalizeKey, parseDateKey, parseLocalizedNumber, repairMojibake, toDateKey } from './normalization'
+import type { ParsedSheet } from './spreadsheetParser'
+
+export type ImportTable = 'booking_export' | 'booking_apercu' | 'booking_tarifs' | 'disponibilites'
+export type ImportColumnType = 'text' | 'number' | 'date'
+export type ImportValue = string | number | null
+
+export interface ImportColumn {
+  name: string
+  type: ImportColumnType
+  required?: boolean
+  aliases?: string[]
+}
+
+export interface ImportTarget {
+  label: string
+  columns: ImportColumn[]
+  naturalKey: string[]
+  // Snapshot date column, stamped with the import date when the file leaves it empty.
+  snapshotColumn?: string
+}
+
+export interface ImportPreviewRow {
+  line: number
+  values: Record<string, ImportValue>
+  errors: string[]
+  duplicate: boolean
+}
+
+export interface ImportPreview {
+  rows: ImportPreviewRow[]
+  mappingErrors: string[]
+  validCount: number
+  errorCount: number
+  duplicateCount: number
+}
+
+const COMPETITOR_TARIF_COLUMNS = [
+  'Folkestone Opéra',
+  'Hôtel Madeleine Haussmann',
+  "Hôtel De l'Arcade",
+  'Hôtel Cordelia Opéra-Madeleine',
+  'Queen Mary Opera',
+  "Hôtel du Triangle d'Or",
+  'Best Western Plus Hotel Sydney Opera',
+  'Hotel Opéra Opal',
+  'Hôtel Royal Opéra',
+  'Hotel George Sand Opéra Paris',
+  'Hotel Chavanel',
+]
+
+const SNAPSHOT_DATE_ALIASES = ['mise a jour', 'date de mise a jour', 'updated at', 'updated_at', 'extraction', 'date extraction']
+
+// Canonical columns follow database.types.ts; aliases cover the English and shortened headers seen in extracts.
+export const IMPORT_TARGETS: Record<ImportTable, ImportTarget> = {
+  booking_export: {
+    label: 'Reservations (booking_export)',
+    naturalKey: ['Référence'],
+    columns: [
+      { name: 'Référence', type: 'text', required: true, aliases: ['ref', 'reference', 'booking reference', 'numero de reservation'] },
+      { name: 'Etat', type: 'text', aliases: ['statut', 'status'] },
+      { name: "Date d'arrivée", type: 'date', required: true, aliases: ['arrivee', 'arrival', 'arrival date', 'check in', 'arrival_date'] },
+      { name: 'Date de départ', type: 'date', aliases: ['depart', 'departure', 'departure date', 'check out', 'departure_date'] },
+      { name: "Date d'achat", type: 'date', aliases: ['achat', 'purchase date', 'booking date', 'date de reservation', 'purchase_date'] },
+      { name: 'Type de chambre', type: 'text', aliases: ['chambre', 'room type', 'room_type'] },
+      { name: 'Montant total', type: 'number', aliases: ['montant', 'total', 'amount', 'total amount', 'total_amount'] },
+      { name: 'Nuits', type: 'number', aliases: ['nights', 'nb nuits'] },
+      { name: 'Chambres', type: 'number', aliases: ['rooms', 'nb chambres'] },
+      { name: 'Adultes', type: 'number', aliases: ['adults'] },
+      { name: 'Enfants', type: 'number', aliases: ['children'] },
+      { name: 'Pays', type: 'text', aliases: ['country'] },
+      { name: 'Origine', type: 'text', aliases: ['origin', 'canal', 'channel', 'source'] },
+      { name: "Type d'origine", type: 'text', aliases: ['origin type', 'type origine'] },
+    ],
+  },
+  booking_apercu: {
+    label: 'Apercu marche (booking_apercu)',
+    naturalKey: ['Date', 'date_mise_a_jour'],
+    snapshotColumn: 'date_mise_a_jour',
+    columns: [
+      { name: 'Date', type: 'date', required: true, aliases: ['date'] },
+      { name: 'date_mise_a_jour', type: 'date', aliases: SNAPSHOT_DATE_ALIASES },
+      { name: 'Jour', type: 'text', aliases: ['day'] },
+      { name: 'Votre hôtel le plus bas', type: 'number', aliases: ['own price', 'own_price', 'votre hotel'] },
+      { name: 'Tarif le plus bas', type: 'number', aliases: ['lowest rate', 'lowest price'] },
+      { name: 'médiane du compset', type: 'number', aliases: ['compset median', 'compset_median', 'mediane compset'] },
+      { name: 'Classement des tarifs du compset', type: 'text', aliases: ['compset ranking'] },
+      { name: 'Demande du marché', type: 'number', aliases: ['market demand', 'market_demand', 'demande'] },
+      { name: 'Booking.com Classement', type: 'text', aliases: ['booking ranking', 'classement booking'] },
+      { name: 'Jours fériés', type: 'text', aliases: ['holidays', 'jours feries'] },
+      { name: 'Événements', type: 'text', aliases: ['events', 'evenements'] },
+    ],
+  },
+  booking_tarifs: {
+    label: 'Tarifs concurrents (booking_tarifs)',
+    naturalKey: ['Date', 'date_mise_a_jour'],
+    snapshotColumn: 'date_mise_a_jour',
+    columns: [
+      { name: 'Date', type: 'date', required: true, aliases: ['date'] },
+      { name: 'date_mise_a_jour', type: 'date', aliases: SNAPSHOT_DATE_ALIASES },
+      { name: 'Jour', type: 'text', aliases: ['day'] },
+      { name: 'Demande du marché', type: 'number', aliases: ['market demand', 'demande'] },
+      ...COMPETITOR_TARIF_COLUMNS.map((name): ImportColumn => ({ name, type: 'number' })),
+    ],
+  },
+  disponibilites: {
+    label: 'Disponibilites (disponibilites)',
+    naturalKey: ['date', 'type_de_chambre'],
+    columns: [
+      { name: 'date', type: 'date', required: true, aliases: ['jour', 'day'] },
+      { name: 'type_de_chambre', type: 'text', required: true, aliases: ['type de chambre', 'room type', 'chambre'] },
+      { name: 'disponibilites', type: 'number', aliases: ['disponibilite', 'dispo', 'available', 'stock', 'allotement'] },
+      { name: 'ferme_a_la_vente', type: 'text', aliases: ['ferme a la vente', 'ferme', 'closed', 'stop sell'] },
+    ],
+  },
+}
+
+/** Maps each source header (by position) to a canonical column, or null when nothing matches. */
+export const autoMapColumns = (headers: string[], table: ImportTable): Array<string | null> => {
+  const lookup = new Map<string, string>()
+  IMPORT_TARGETS[table].columns.forEach((column) => {
+    ;[column.name, ...(column.aliases || [])].forEach((alias) => {
+      const key = normalizeKey(alias)
+      if (!lookup.has(key)) lookup.set(key, column.name)
+    })
+  })
+
+  const used = new Set<string>()
+  return headers.map((header) => {
+    const column = lookup.get(normalizeKey(header))
+    if (!column || used.has(column)) return null
+    used.add(column)
+    return column
+  })
+}
+
+// Null for an empty cell, undefined when it cannot be parsed.
+const parseNumberCell = (raw: string): number | null | undefined => {
+  if (!raw) return null
+  const parsed = parseLocalizedNumber(raw)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+const parseDateCell = (raw: string): string | null | undefined => {
+  if (!raw) return null
+
+  // XLSX stores dates as serial days since 1899-12-30.
+  if (/^\d{5}(\.\d+)?$/.test(raw)) {
+    const date = new Date(Date.UTC(1899, 11, 30) + Math.floor(Number(raw)) * 86400000)
+    return toDateKey(new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+  }
+
+  return parseDateKey(raw) ?? undefined
+}
+
+/** Date columns are compared on their day, so stored timestamps match the imported dates. */
+export const getNaturalKey = (values: Record<string, ImportValue>, table: ImportTable) => {
+  const dateColumns = new Set(IMPORT_TARGETS[table].columns.filter((column) => column.type === 'date').map((column) => column.name))
+  return IMPORT_TARGETS[table].naturalKey
+    .map((column) => {
+      const value = String(values[column] ?? '').trim()
+      return dateColumns.has(column) ? (parseDateKey(value) ?? value) : value.toLowerCase()
+    })
+    .join('|')
+}
+
+/**
+ * Converts sheet rows into typed records for the target table and validates them.
+ * Rows sharing a natural key are deduplicated: the last one in the file wins.
+ * Snapshot tables get the import date when the file has no update date, so a
+ * re-import adds a dated snapshot instead of overwriting the previous one.
+ */
+export const buildImportPreview = (
+  sheet: ParsedSheet,
+  mapping: Array<string | null>,
+  table: ImportTable,
+  importedAt: Date = new Date()
+): ImportPreview => {
+  const target = IMPORT_TARGETS[table]
+  const columnsByName = new Map(target.columns.map((column) => [column.name, column]))
+  const mapped = new Set(mapping.filter((column): column is string => Boolean(column)))
+  const mappingErrors = target.columns
+    .filter((column) => column.required && !mapped.has(column.name))
+    .map((column) => `Colonne obligatoire non mappee : ${column.name}`)
+
+  const rows: ImportPreviewRow[] = sheet.rows.map((cells, index) => {
+    const values: Record<string, ImportValue> = {}
+    const errors: string[] = []
+
+    mapping.forEach((columnName, position) => {
+      if (!columnName) return
+      const column = columnsByName.get(columnName)
+      if (!column) return
+      const raw = repairMojibake(String(cells[position] ?? '')).trim()
+
+      if (column.type === 'number') {
+        const parsed = parseNumberCell(raw)
+        if (parsed === undefined) errors.push(`${column.name} : nombre invalide "${raw}"`)
+        values[column.name] = parsed ?? null
+      } else if (column.type === 'date') {
+        const parsed = parseDateCell(raw)
+        if (parsed === undefined) errors.push(`${column.name} : date invalide "${raw}"`)
+        values[column.name] = parsed ?? null
+      } else {
+        values[column.name] = raw || null
+      }
+    })
+
+    if (target.snapshotColumn && !values[target.snapshotColumn]) values[target.snapshotColumn] = toDateKey(importedAt)
+
+    target.columns.forEach((column) => {
+      if (column.required && mapped.has(column.name) && (values[column.name] === null || values[column.name] === undefined)) {
+        errors.push(`${column.name} : valeur obligatoire manquante`)
+      }
+    })
+
+    return { line: index + 2, values, errors, duplicate: false }
+  })
+
+  const lastIndexByKey = new Map<string, number>()
+  rows.forEach((row, index) => {
+    if (row.errors.length === 0) lastIndexByKey.set(getNaturalKey(row.values, table), index)
+  })
+  rows.forEach((row, index) => {
+    if (row.errors.length > 0) return
+    row.duplicate = lastIndexByKey.get(getNaturalKey(row.values, table)) !== index
+  })
+
+  const errorCount = rows.filter((row) => row.errors.length > 0).length
+  const duplicateCount = rows.filter((row) => row.duplicate).length
+
+  return {
+    rows,
+    mappingErrors,
+    validCount: mappingErrors.length > 0 ? 0 : rows.length - errorCount - duplicateCount,
+    errorCount,
+    duplicateCount,
+  }
+}
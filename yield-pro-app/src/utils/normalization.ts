@@ -0,0 +1,488 @@
+import type {
+  CompetitorRate,
+  HotelEvent,
+  InventoryDay,
+  MarketDay,
+  Normalized,
+  NormalizationIssue,
+  NormalizationSource,
+  Reservation,
+} from '../types/domain'
+import { pushMetric } from './metricsLogger'
+
+type RawRow = Record<string, unknown>
+
+// Windows-1252 characters in the 0x80-0x9F range, needed to undo "Ã‰" style double encoding.
+const CP1252_BYTES: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89,
+  'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95,
+  '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+}
+
+const repairOnce = (value: string) => {
+  if (!/[ÃÂâ]/.test(value)) return value
+  const bytes: number[] = []
+  for (const char of value) {
+    const code = char.charCodeAt(0)
+    if (code < 0x100) bytes.push(code)
+    else if (CP1252_BYTES[char] !== undefined) bytes.push(CP1252_BYTES[char])
+    else return value
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(new Uint8Array(bytes))
+  } catch {
+    return value
+  }
+}
+
+/**
+ * Turns UTF-8 text that was decoded as Windows-1252 ("Date d'arrivÃ©e") back into "Date d'arrivée".
+ * Some columns went through the round trip more than once, so it repeats until the text is stable.
+ */
+export const repairMojibake = (value: string) => {
+  let current = value
+  for (let i = 0; i < 3; i += 1) {
+    const next = repairOnce(current)
+    if (next === current) break
+    current = next
+  }
+  return current
+}
+
+/** Accent, case and punctuation insensitive key: "Date d'arrivÃ©e" and "date_arrivee" both give "datedarrivee" / "datearrivee". */
+export const normalizeKey = (value: string) =>
+  repairMojibake(value)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9]/g, '')
+    .toLowerCase()
+
+/** Parses "1 234,50 €", "1,234.50" or "12%" style values. Returns NaN when nothing numeric is left. */
+export const parseLocalizedNumber = (input: string): number => {
+  const cleaned = input
+    .trim()
+    .replace(/\u00A0/g, '')
+    .replace(/\s+/g, '')
+    .replace(/[€$£%]/g, '')
+    .replace(/[^\d,.-]/g, '')
+
+  if (!cleaned) return Number.NaN
+
+  if (cleaned.includes(',') && cleaned.includes('.')) {
+    if (cleaned.lastIndexOf(',') > cleaned.lastIndexOf('.')) {
+      return Number(cleaned.replace(/\./g, '').replace(',', '.'))
+    }
+    return Number(cleaned.replace(/,/g, ''))
+  }
+
+  if (cleaned.includes(',')) return Number(cleaned.replace(',', '.'))
+  return Number(cleaned)
+}
+
+export const toDateKey = (date: Date) => {
+  const yyyy = date.getFullYear()
+  const mm = `${date.getMonth() + 1}`.padStart(2, '0')
+  const dd = `${date.getDate()}`.padStart(2, '0')
+  return `${yyyy}-${mm}-${dd}`
+}
+
+const makeLocalDate = (year: number, month: number, day: number): Date | null => {
+  const date = new Date(year, month - 1, day)
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null
+  return date
+}
+
+/** Local midnight for ISO ("2025-03-14", with or without time) and French ("14/03/2025", "14-03-2025") dates. */
+export const parseDate = (value: unknown): Date | null => {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : new Date(value.getFullYear(), value.getMonth(), value.getDate())
+  }
+  if (typeof value !== 'string') return null
+  const trimmed = value.trim()
+  if (!trimmed) return null
+
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/)
+  if (iso) return makeLocalDate(Number(iso[1]), Number(iso[2]), Number(iso[3]))
+
+  const fr = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})/)
+  if (fr) return makeLocalDate(Number(fr[3]), Number(fr[2]), Number(fr[1]))
+
+  const parsed = new Date(trimmed)
+  if (Number.isNaN(parsed.getTime())) return null
+  return new Date(parsed.getFullYear(), parsed.getMonth(), parsed.getDate())
+}
+
+export const parseDateKey = (value: unknown): string | null => {
+  const date = parseDate(value)
+  return date ? toDateKey(date) : null
+}
+
+/** Every date key from start to end included. */
+export const eachDateKey = (startKey: string, endKey: string): string[] => {
+  const cursor = parseDate(startKey)
+  const last = parseDate(endKey)
+  if (!cursor || !last) return []
+  const keys: string[] = []
+  while (cursor <= last) {
+    keys.push(toDateKey(cursor))
+    cursor.setDate(cursor.getDate() + 1)
+  }
+  return keys
+}
+
+const isBlank = (value: unknown) =>
+  value === null || value === undefined || (typeof value === 'string' && value.trim() === '')
+
+// Null when the cell is empty, NaN when it holds something that is not a number.
+const readNumber = (value: unknown): number | null => {
+  if (isBlank(value)) return null
+  if (typeof value === 'number') return Number.isFinite(value) ? value : Number.NaN
+  if (typeof value === 'string') return parseLocalizedNumber(value)
+  return Number.NaN
+}
+
+const keys = (...aliases: string[]) => aliases.map(normalizeKey)
+
+const RESERVATION_FIELDS = {
+  reference: keys('Référence', 'reference', 'booking_reference'),
+  status: keys('Etat', 'status', 'statut'),
+  arrivalDate: keys('arrival_date', "Date d'arrivée", 'Date arrivee', 'Arrivee', 'Arrival', 'Check-in'),
+  departureDate: keys('departure_date', 'Date de départ', 'Date depart', 'Departure', 'Check-out'),
+  purchaseDate: keys('purchase_date', "Date d'achat", 'booking_date'),
+  cancellationDate: keys('cancellation_date', "Date d'annulation", "Date d'annul"),
+  roomType: keys('Type de chambre', 'type_de_chambre', 'room_type'),
+  nights: keys('Nuits', 'Nuitées', 'nights'),
+  rooms: keys('Chambres', 'rooms'),
+  adults: keys('Adultes', 'adults'),
+  children: keys('Enfants', 'children'),
+  totalAmount: keys('total_amount', 'Montant total', 'montant_total'),
+  country: keys('Pays', 'country'),
+  origin: keys('Origine', 'origin', 'Plateforme', 'platform'),
+  originType: keys("Type d'origine", 'origin_type'),
+  ratePlan: keys('Plan tarifaire', 'Code tarif', 'Tarif', 'rate_plan', 'Rate plan'),
+}
+
+const MARKET_DAY_FIELDS = {
+  date: keys('date', 'Date'),
+  weekday: keys('Jour', 'weekday'),
+  ownPrice: keys('own_price', 'Votre hôtel le plus bas'),
+  lowestPrice: keys('Tarif le plus bas', 'lowest_price'),
+  compsetMedian: keys('compset_median', 'médiane du compset'),
+  compsetRanking: keys('Classement des tarifs du compset', 'compset_ranking'),
+  marketDemand: keys('market_demand', 'Demande du marché'),
+  bookingRanking: keys('Booking.com Classement', 'booking_ranking'),
+  holidays: keys('Jours fériés', 'holidays'),
+  events: keys('events', 'Événements'),
+  updatedAt: keys('date_mise_a_jour', 'updated_at'),
+}
+
+const INVENTORY_FIELDS = {
+  date: keys('date', 'Date'),
+  roomType: keys('type_de_chambre', 'Type de chambre', 'room_type'),
+  available: keys('disponibilites', 'available'),
+  closedToSale: keys('ferme_a_la_vente', 'closed_to_sale'),
+  updatedAt: keys('date_mise_a_jour', 'updated_at'),
+}
+
+const EVENT_FIELDS = {
+  name: keys('Événement', 'event', 'name'),
+  startDate: keys('Début', 'start_date'),
+  endDate: keys('Fin', 'end_date'),
+  impactScore: keys('Indice impact attendu sur la demande /10', 'impact_index', 'impact'),
+  multiplier: keys('Multiplicateur', 'multiplier'),
+  rationale: keys('Pourquoi cet indice', 'rationale'),
+  advice: keys('Conseils yield', 'advice'),
+}
+
+const COMPETITOR_RATE_FIELDS = {
+  competitor: keys('competitor_name'),
+  date: keys('stay_date'),
+  shoppedAt: keys('shopped_at'),
+  price: keys('price'),
+  isSoldOut: keys('is_sold_out'),
+  marketDemand: keys('market_demand'),
+  updatedAt: keys('created_at'),
+}
+
+const CLOSED_TO_SALE_VALUES = new Set(['x', 'oui', 'yes', 'true', '1', 'ferme', 'closed'])
+
+// Rate shoppers and the hotels table do not agree on the "Hotel" prefix.
+const toHotelNameKey = (name: string) => normalizeKey(name).replace(/^hotel/, '')
+
+const createOwnHotelMatcher = (ownHotelName: string | null) => {
+  const ownKey = toHotelNameKey(ownHotelName || '')
+  return (competitor: string) => ownKey !== '' && toHotelNameKey(competitor).includes(ownKey)
+}
+
+const isArrivalKey = (key: string) =>
+  (key.includes('arriv') || key.includes('checkin')) && !key.includes('depart') && !key.includes('checkout')
+const isDepartureKey = (key: string) => key.includes('depart') || key.includes('checkout')
+
+const headerKeyCache = new Map<string, string>()
+
+const indexRow = (row: RawRow) => {
+  const index = new Map<string, unknown>()
+  Object.entries(row).forEach(([key, value]) => {
+    let normalized = headerKeyCache.get(key)
+    if (normalized === undefined) {
+      normalized = normalizeKey(key)
+      headerKeyCache.set(key, normalized)
+    }
+    // The same column can exist twice (renamed copy and mojibake original): keep the first filled one.
+    if (isBlank(index.get(normalized))) index.set(normalized, value)
+  })
+  return index
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+const toDemandPercent = (value: number | null) => {
+  if (value === null) return null
+  return clamp(value <= 1 ? value * 100 : value, 0, 100)
+}
+
+const createRowReader = (source: NormalizationSource, row: RawRow, issues: NormalizationIssue[]) => {
+  const index = indexRow(row)
+  const rowId = isBlank(row.id) ? null : String(row.id)
+
+  const report = (field: string, value: unknown, message: string, dropped = false) => {
+    issues.push({ source, rowId, field, value: String(value ?? '').slice(0, 80), message, dropped })
+  }
+
+  const find = (aliases: string[], fallback?: (key: string) => boolean): unknown => {
+    for (const alias of aliases) {
+      const value = index.get(alias)
+      if (!isBlank(value)) return value
+    }
+    if (!fallback) return undefined
+    for (const [key, value] of index) {
+      if (fallback(key) && !isBlank(value)) return value
+    }
+    return undefined
+  }
+
+  return {
+    report,
+    text: (aliases: string[]) => {
+      const value = find(aliases)
+      if (isBlank(value)) return ''
+      return repairMojibake(String(value)).trim()
+    },
+    number: (field: string, aliases: string[]) => {
+      const value = find(aliases)
+      const parsed = readNumber(value)
+      if (parsed !== null && Number.isNaN(parsed)) {
+        report(field, value, 'Nombre illisible, valeur ignoree')
+        return null
+      }
+      return parsed
+    },
+    date: (field: string, aliases: string[], fallback?: (key: string) => boolean) => {
+      const value = find(aliases, fallback)
+      if (isBlank(value)) return null
+      const parsed = parseDateKey(value)
+      if (!parsed) report(field, value, 'Date illisible, valeur ignoree')
+      return parsed
+    },
+  }
+}
+
+/** Reservations without a readable arrival date are dropped and reported. */
+export const normalizeReservations = (rows: RawRow[]): Normalized<Reservation> => {
+  const issues: NormalizationIssue[] = []
+  const items: Reservation[] = []
+
+  rows.forEach((row) => {
+    const read = createRowReader('booking_export', row, issues)
+    const arrivalDate = read.date('arrivalDate', RESERVATION_FIELDS.arrivalDate, isArrivalKey)
+    if (!arrivalDate) {
+      read.report('arrivalDate', '', "Date d'arrivee manquante ou illisible, ligne ignoree", true)
+      return
+    }
+
+    const departureDate = read.date('departureDate', RESERVATION_FIELDS.departureDate, isDepartureKey)
+    const roomType = read.text(RESERVATION_FIELDS.roomType)
+    const status = read.text(RESERVATION_FIELDS.status)
+    const lowerStatus = status.toLowerCase()
+
+    let nights = Math.floor(read.number('nights', RESERVATION_FIELDS.nights) ?? 0)
+    const arrival = parseDate(arrivalDate)
+    const departure = parseDate(departureDate)
+    if (nights <= 0 && arrival && departure) {
+      nights = Math.round((departure.getTime() - arrival.getTime()) / 86400000)
+    }
+
+    const roomsValue = read.number('rooms', RESERVATION_FIELDS.rooms) ?? 0
+    const roomTypeKey = normalizeKey(roomType)
+    const adjacentRooms = roomTypeKey.includes('deuxchambresadjacentes') || roomTypeKey.includes('2chambresadjacentes') ? 2 : 1
+
+    items.push({
+      id: String(row.id ?? ''),
+      hotelId: typeof row.hotel_id === 'string' ? row.hotel_id : null,
+      reference: read.text(RESERVATION_FIELDS.reference),
+      status,
+      isCancelled: lowerStatus.includes('annul') || lowerStatus.includes('cancel'),
+      arrivalDate,
+      departureDate,
+      purchaseDate: read.date('purchaseDate', RESERVATION_FIELDS.purchaseDate),
+      cancellationDate: read.date('cancellationDate', RESERVATION_FIELDS.cancellationDate),
+      roomType,
+      nights: Math.max(1, nights),
+      rooms: Math.max(roomsValue > 0 ? roomsValue : 1, adjacentRooms),
+      adults: read.number('adults', RESERVATION_FIELDS.adults) ?? 0,
+      children: read.number('children', RESERVATION_FIELDS.children) ?? 0,
+      totalAmount: read.number('totalAmount', RESERVATION_FIELDS.totalAmount) ?? 0,
+      country: read.text(RESERVATION_FIELDS.country),
+      origin: read.text(RESERVATION_FIELDS.origin),
+      originType: read.text(RESERVATION_FIELDS.originType),
+      ratePlan: read.text(RESERVATION_FIELDS.ratePlan),
+    })
+  })
+
+  return { items, issues }
+}
+
+export const normalizeMarketDays = (rows: RawRow[]): Normalized<MarketDay> => {
+  const issues: NormalizationIssue[] = []
+  const items: MarketDay[] = []
+
+  rows.forEach((row) => {
+    const read = createRowReader('booking_apercu', row, issues)
+    const date = read.date('date', MARKET_DAY_FIELDS.date)
+    if (!date) {
+      read.report('date', '', 'Date manquante ou illisible, ligne ignoree', true)
+      return
+    }
+
+    items.push({
+      id: String(row.id ?? ''),
+      date,
+      weekday: read.text(MARKET_DAY_FIELDS.weekday),
+      ownPrice: read.number('ownPrice', MARKET_DAY_FIELDS.ownPrice),
+      lowestPrice: read.number('lowestPrice', MARKET_DAY_FIELDS.lowestPrice),
+      compsetMedian: read.number('compsetMedian', MARKET_DAY_FIELDS.compsetMedian),
+      compsetRanking: read.text(MARKET_DAY_FIELDS.compsetRanking),
+      marketDemand: toDemandPercent(read.number('marketDemand', MARKET_DAY_FIELDS.marketDemand)),
+      bookingRanking: read.text(MARKET_DAY_FIELDS.bookingRanking),
+      holidays: read.text(MARKET_DAY_FIELDS.holidays),
+      events: read.text(MARKET_DAY_FIELDS.events),
+      updatedAt: read.text(MARKET_DAY_FIELDS.updatedAt) || null,
+    })
+  })
+
+  return { items, issues }
+}
+
+export const normalizeInventoryDays = (rows: RawRow[]): Normalized<InventoryDay> => {
+  const issues: NormalizationIssue[] = []
+  const items: InventoryDay[] = []
+
+  rows.forEach((row) => {
+    const read = createRowReader('disponibilites', row, issues)
+    const date = read.date('date', INVENTORY_FIELDS.date)
+    if (!date) {
+      read.report('date', '', 'Date manquante ou illisible, ligne ignoree', true)
+      return
+    }
+
+    items.push({
+      id: String(row.id ?? ''),
+      date,
+      roomType: read.text(INVENTORY_FIELDS.roomType) || null,
+      available: read.number('available', INVENTORY_FIELDS.available),
+      closedToSale: CLOSED_TO_SALE_VALUES.has(read.text(INVENTORY_FIELDS.closedToSale).toLowerCase()),
+      updatedAt: read.text(INVENTORY_FIELDS.updatedAt) || null,
+    })
+  })
+
+  return { items, issues }
+}
+
+/** Events without a start date are dropped; an end before the start is treated as a one-day event. */
+export const normalizeHotelEvents = (rows: RawRow[]): Normalized<HotelEvent> => {
+  const issues: NormalizationIssue[] = []
+  const items: HotelEvent[] = []
+
+  rows.forEach((row) => {
+    const read = createRowReader('events_calendar', row, issues)
+    const startDate = read.date('startDate', EVENT_FIELDS.startDate)
+    if (!startDate) {
+      read.report('startDate', '', 'Date de debut manquante ou illisible, evenement ignore', true)
+      return
+    }
+
+    let endDate = read.date('endDate', EVENT_FIELDS.endDate) || startDate
+    if (endDate < startDate) {
+      read.report('endDate', endDate, 'Date de fin avant le debut, evenement ramene a un jour')
+      endDate = startDate
+    }
+
+    const impactScore = clamp(read.number('impactScore', EVENT_FIELDS.impactScore) ?? 0, 0, 10)
+
+    items.push({
+      id: String(row.id ?? ''),
+      name: read.text(EVENT_FIELDS.name) || 'Evenement',
+      startDate,
+      endDate,
+      impactScore,
+      impactPct: impactScore * 10,
+      multiplier: read.number('multiplier', EVENT_FIELDS.multiplier),
+      rationale: read.text(EVENT_FIELDS.rationale),
+      advice: read.text(EVENT_FIELDS.advice),
+    })
+  })
+
+  return { items, issues }
+}
+
+/**
+ * competitor_rates rows (one per hotel, stay date and collection day). Rows without a
+ * hotel name or stay date are dropped; a row with neither price nor sold-out flag is skipped.
+ * ownHotelName is the active hotel's name: rows whose hotel contains it are its own rates.
+ */
+export const normalizeCompetitorRates = (rows: RawRow[], ownHotelName: string | null): Normalized<CompetitorRate> => {
+  const issues: NormalizationIssue[] = []
+  const items: CompetitorRate[] = []
+  const isOwnHotel = createOwnHotelMatcher(ownHotelName)
+
+  rows.forEach((row) => {
+    const read = createRowReader('competitor_rates', row, issues)
+    const competitor = read.text(COMPETITOR_RATE_FIELDS.competitor)
+    const date = read.date('date', COMPETITOR_RATE_FIELDS.date)
+    if (!competitor || !date) {
+      read.report(competitor ? 'date' : 'competitor', '', 'Hotel ou date de sejour manquant, ligne ignoree', true)
+      return
+    }
+
+    const rawPrice = read.number('price', COMPETITOR_RATE_FIELDS.price)
+    const price = rawPrice !== null && rawPrice > 0 ? rawPrice : null
+    const isSoldOut = CLOSED_TO_SALE_VALUES.has(read.text(COMPETITOR_RATE_FIELDS.isSoldOut).toLowerCase())
+    if (price === null && !isSoldOut) return
+
+    items.push({
+      date,
+      competitor,
+      isOwnHotel: isOwnHotel(competitor),
+      price: isSoldOut ? null : price,
+      isSoldOut,
+      shoppedAt: read.date('shoppedAt', COMPETITOR_RATE_FIELDS.shoppedAt) || date,
+      marketDemand: toDemandPercent(read.number('marketDemand', COMPETITOR_RATE_FIELDS.marketDemand)),
+      updatedAt: read.text(COMPETITOR_RATE_FIELDS.updatedAt) || null,
+    })
+  })
+
+  return { items, issues }
+}
+
+/** Logs the parse failures of a fetch, with a small sample, to the metrics log. */
+export const reportNormalizationIssues = (hotelId: string, source: NormalizationSource, result: Normalized<unknown>) => {
+  if (result.issues.length === 0) return
+  pushMetric('normalization_issues', {
+    hotelId,
+    source,
+    items: result.items.length,
+    issues: result.issues.length,
+    dropped: result.issues.filter((issue) => issue.dropped).length,
+    sample: result.issues.slice(0, 5).map((issue) => `${issue.rowId ?? '?'} ${issue.field}="${issue.value}" ${issue.message}`),
+  })
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { findUnknownPlanCodes, getPartnerPlanCodes, orderByConfig, parseOtaConfigFile } from './otaConfig'
+import { extractPlanCode } from './ratePlanRules'
+
+const CONFIG = parseOtaConfigFile({
+  partners: {
+    'Expedia (1903)': { commission: 18, codes: ['OTA-RO-FLEX', 'MOBILE-RO-FLEX - MOBILE RO FLEX'] },
+    'Booking.com (6562)': { commission: 0, codes: ['OTA-RO-FLEX', 'OTA-BB-FLEX-2P'] },
+  },
+  displayOrder: { rooms: ['Double Classique', 'Twin'], plans: ['OTA RO FLEX (OTA-RO-FLEX)', 'VIP-RATE-FLEX'] },
+})
+
+describe('OTA configuration', () => {
+  it('reads the channel manager file into partners and display orders', () => {
+    expect(CONFIG.partners[0]).toEqual({ partner: 'Expedia (1903)', commissionPct: 18, planCodes: ['OTA-RO-FLEX', 'MOBILE-RO-FLEX - MOBILE RO FLEX'] })
+    expect(CONFIG.roomOrder).toEqual(['Double Classique', 'Twin'])
+  })
+
+  it('lists the plan codes of one partner or of every partner without duplicates', () => {
+    expect(getPartnerPlanCodes(CONFIG, 'Booking.com (6562)')).toEqual(['OTA-RO-FLEX', 'OTA-BB-FLEX-2P'])
+    expect(getPartnerPlanCodes(CONFIG, null)).toEqual(['OTA-RO-FLEX', 'MOBILE-RO-FLEX - MOBILE RO FLEX', 'OTA-BB-FLEX-2P'])
+    expect(getPartnerPlanCodes(CONFIG, 'Airbnb')).toEqual([])
+  })
+
+  it('puts the configured values first, then the others in their original order', () => {
+    expect(orderByConfig(['Suite', 'Twin', 'Double Classique', 'Single'], CONFIG.roomOrder)).toEqual(['Double Classique', 'Twin', 'Suite', 'Single'])
+    expect(orderByConfig(['OTA-BB-FLEX-2P', 'VIP-RATE-FLEX', 'OTA-RO-FLEX'], CONFIG.planOrder, extractPlanCode)).toEqual([
+      'OTA-RO-FLEX',
+      'VIP-RATE-FLEX',
+      'OTA-BB-FLEX-2P',
+    ])
+  })
+
+  it('flags the plan codes that planning_tarifs does not carry', () => {
+    const planning = ['OTA-RO-FLEX', 'MOBILE RO FLEX (MOBILE-RO-FLEX)', 'VIP-RATE-FLEX', null]
+    expect(findUnknownPlanCodes(CONFIG, planning)).toEqual([{ partner: 'Booking.com (6562)', planCode: 'OTA-BB-FLEX-2P' }])
+    expect(findUnknownPlanCodes(CONFIG, ['OTA-RO-FLEX', 'OTA-BB-FLEX-2P', 'MOBILE-RO-FLEX'])).toEqual([
+      { partner: null, planCode: 'VIP-RATE-FLEX' },
+    ])
+  })
+})
@@ -0,0 +1,71 @@
+import type { ChannelCommission } from './channelMix'
+import { extractPlanCode } from './ratePlanRules'
+
+export interface OtaPartnerConfig extends ChannelCommission {
+  // plan_tarifaire codes distributed on the partner, as in planning_tarifs.
+  planCodes: string[]
+}
+
+export interface OtaConfig {
+  partners: OtaPartnerConfig[]
+  // Display order of the room types and rate plans; unlisted ones follow.
+  roomOrder: string[]
+  planOrder: string[]
+}
+
+/** Shape of config_ota_folkestone.json, the Folkestone configuration seeded by OTA_PARTNERS.sql. */
+export interface OtaConfigFile {
+  partners: Record<string, { commission: number; codes: string[] }>
+  displayOrder: { rooms: string[]; plans: string[] }
+}
+
+export interface OtaPlanCodeIssue {
+  // null for the plan display order.
+  partner: string | null
+  planCode: string
+}
+
+export const parseOtaConfigFile = (file: OtaConfigFile): OtaConfig => ({
+  partners: Object.entries(file.partners || {}).map(([partner, entry]) => ({
+    partner,
+    commissionPct: entry.commission || 0,
+    planCodes: entry.codes || [],
+  })),
+  roomOrder: file.displayOrder?.rooms || [],
+  planOrder: file.displayOrder?.plans || [],
+})
+
+/** Plan codes of one partner, or of every partner without duplicates when partner is null. */
+export const getPartnerPlanCodes = (config: OtaConfig, partner: string | null): string[] => {
+  if (partner !== null) return config.partners.find((entry) => entry.partner === partner)?.planCodes || []
+  return Array.from(new Set(config.partners.flatMap((entry) => entry.planCodes)))
+}
+
+/**
+ * Values listed in the configured order first, then the others in their
+ * original order. getKey compares plan names on their code.
+ */
+export const orderByConfig = (values: string[], order: string[], getKey: (value: string) => string = (value) => value): string[] => {
+  const rank = new Map<string, number>()
+  order.forEach((entry, index) => {
+    const key = getKey(entry)
+    if (!rank.has(key)) rank.set(key, index)
+  })
+  return values
+    .map((value, index) => ({ value, index, rank: rank.get(getKey(value)) ?? order.length }))
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .map((entry) => entry.value)
+}
+
+/** Plan codes of the partners and of the plan order that no planning_tarifs row carries. */
+export const findUnknownPlanCodes = (config: OtaConfig, planningPlans: Array<string | null>): OtaPlanCodeIssue[] => {
+  const known = new Set(planningPlans.map(extractPlanCode).filter(Boolean))
+  const isUnknown = (planCode: string) => !known.has(extractPlanCode(planCode))
+
+  return [
+    ...config.partners.flatMap((entry) =>
+      entry.planCodes.filter(isUnknown).map((planCode) => ({ partner: entry.partner, planCode }))
+    ),
+    ...config.planOrder.filter(isUnknown).map((planCode) => ({ partner: null, planCode })),
+  ]
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest'
+import type { Reservation } from '../types/domain'
+import { buildAttritionModel, planOverbooking, type AttritionModel, type OverbookingSettings } from './overbooking'
+import { TEN_DAYS_BEFORE, WEEKDAY, makeReservation } from './__fixtures__/rmsEngine'
+
+const HISTORY_ARRIVAL = '2026-02-21'
+
+const booked = (count: number, overrides: Partial<Reservation> = {}) =>
+  Array.from({ length: count }, (_, index) => makeReservation({ id: `r${index}`, purchaseDate: '2026-02-01', arrivalDate: HISTORY_ARRIVAL, ...overrides }))
+
+const makeModel = (cancel: number, noShow: number): AttritionModel => ({
+  segments: [],
+  noShowByChannel: new Map(),
+  overallNoShowRate: noShow,
+  historyRooms: 0,
+  averageAdr: 140,
+  cancelProbability: () => cancel,
+  noShowProbability: () => noShow,
+})
+
+const plan = (onBooks: number, model: AttritionModel, overbooking: Partial<OverbookingSettings> = {}, roomTypeCapacities: Record<string, number> = {}) =>
+  planOverbooking({
+    stayDates: [WEEKDAY],
+    reservations: Array.from({ length: onBooks }, (_, index) => makeReservation({ id: `b${index}` })),
+    model,
+    settings: { hotelCapacity: 100, roomTypeCapacities, overbooking: { walkCost: 250, maxOverbookingPct: 10, ...overbooking } },
+    asOf: TEN_DAYS_BEFORE,
+  })
+
+describe('buildAttritionModel', () => {
+  it('learns cancellation rates conditional on the booking still being on the books at each lead time', () => {
+    const history = [
+      ...booked(6),
+      ...booked(4, { isCancelled: true, status: 'Annulée', cancellationDate: '2026-02-16' }),
+    ]
+    const model = buildAttritionModel(history, TEN_DAYS_BEFORE)
+
+    // Booked 20 days out and cancelled 5 days out: at risk from J-14 and J-7, gone by J-3.
+    expect(model.cancelProbability('Booking.com', 14)).toBeCloseTo(0.4)
+    expect(model.cancelProbability('Booking.com', 7)).toBeCloseTo(0.4)
+    expect(model.cancelProbability('Booking.com', 3)).toBe(0)
+    expect(model.segments.find((segment) => segment.leadDays === 14)).toMatchObject({ atRiskRooms: 10, cancelledRooms: 4 })
+  })
+
+  it('separates channels and pulls thin segments towards the all-channel rate', () => {
+    const history = [
+      ...booked(6),
+      ...booked(4, { isCancelled: true, cancellationDate: '2026-02-16' }),
+      ...booked(10, { origin: 'Direct', originType: 'Direct' }),
+    ]
+    const model = buildAttritionModel(history, TEN_DAYS_BEFORE)
+
+    expect(model.cancelProbability('Booking.com', 7)).toBeCloseTo(8 / 30)
+    expect(model.cancelProbability('Direct', 7)).toBeCloseTo(4 / 30)
+    expect(model.cancelProbability('Expedia', 7)).toBeCloseTo(0.2)
+    expect(model.cancelProbability(null, 7)).toBeCloseTo(0.2)
+  })
+
+  it('reads no-shows from the reservation status and keeps them out of cancellations', () => {
+    const history = [...booked(7), ...booked(1, { status: 'No-show', isCancelled: true })]
+    const model = buildAttritionModel(history, TEN_DAYS_BEFORE)
+
+    expect(model.overallNoShowRate).toBeCloseTo(1 / 8)
+    expect(model.noShowProbability('Booking.com')).toBeCloseTo(1 / 8)
+    expect(model.cancelProbability('Booking.com', 7)).toBe(0)
+    expect(model.averageAdr).toBe(140)
+  })
+
+  it('ignores arrivals after the cut-off and rows without a purchase date', () => {
+    const history = [...booked(3, { arrivalDate: '2026-03-05' }), ...booked(2, { purchaseDate: null })]
+    expect(buildAttritionModel(history, TEN_DAYS_BEFORE).historyRooms).toBe(0)
+  })
+})
+
+describe('planOverbooking', () => {
+  it('authorises more overbooking as attrition grows, within the configured cap', () => {
+    const [low] = plan(100, makeModel(0.02, 0.01))
+    const [high] = plan(100, makeModel(0.1, 0.05))
+    const [capped] = plan(100, makeModel(0.1, 0.05), { maxOverbookingPct: 5 })
+
+    expect(low.authorisedOverbooking).toBe(2)
+    expect(high.authorisedOverbooking).toBe(10)
+    expect(capped.authorisedOverbooking).toBe(5)
+    expect(capped.safeLimit).toBe(105)
+    expect(high.expectedCancellations).toBeCloseTo(10)
+    expect(high.expectedNoShows).toBeCloseTo(4.5)
+  })
+
+  it('authorises nothing without attrition', () => {
+    expect(plan(100, makeModel(0, 0))[0]).toMatchObject({ authorisedOverbooking: 0, safeLimit: 100, status: 'ok' })
+  })
+
+  it('lowers the authorised level when walking a guest costs more', () => {
+    const [cheap] = plan(100, makeModel(0.1, 0.05))
+    const [costly] = plan(100, makeModel(0.1, 0.05), { walkCost: 2000 })
+
+    expect(costly.authorisedOverbooking).toBeLessThan(cheap.authorisedOverbooking)
+  })
+
+  it('flags dates where the bookings exceed the safe limit', () => {
+    const [authorised] = plan(104, makeModel(0.1, 0.05))
+    const [overLimit] = plan(112, makeModel(0.02, 0.01))
+
+    expect(authorised.status).toBe('overbooked')
+    expect(overLimit).toMatchObject({ onBooks: 112, safeLimit: 103, status: 'over_limit' })
+    expect(overLimit.expectedWalks).toBeGreaterThan(5)
+    expect(overLimit.expectedWalkCost).toBeCloseTo(overLimit.expectedWalks * 250)
+  })
+
+  it('plans each configured room type against its own capacity', () => {
+    const days = plan(12, makeModel(0.1, 0.05), {}, { Double: 10, Suite: 2 })
+
+    expect(days.map((day) => [day.roomType, day.onBooks, day.status])).toEqual([
+      ['Double', 12, 'over_limit'],
+      ['Suite', 0, 'ok'],
+    ])
+  })
+
+  it('books a room type on its exact name first, then on the longest matching name', () => {
+    const days = planOverbooking({
+      stayDates: [WEEKDAY],
+      reservations: [
+        makeReservation({ id: 'exact', roomType: 'Double Classique' }),
+        makeReservation({ id: 'longest', roomType: 'Double Classique Vue Jardin' }),
+        makeReservation({ id: 'short', roomType: 'Double' }),
+      ],
+      model: makeModel(0.1, 0.05),
+      settings: { hotelCapacity: 20, roomTypeCapacities: { Double: 10, 'Double Classique': 10 }, overbooking: { walkCost: 250, maxOverbookingPct: 10 } },
+      asOf: TEN_DAYS_BEFORE,
+    })
+
+    expect(days.map((day) => [day.roomType, day.onBooks])).toEqual([
+      ['Double', 1],
+      ['Double Classique', 2],
+    ])
+  })
+})
@@ -0,0 +1,299 @@
+import type { RMSSettings } from '../hooks/useDashboardConfig'
+import type { Reservation } from '../types/domain'
+import { getDaysOut, shiftDateKey } from './bookingPace'
+import { normalizeKey, parseDate } from './normalization'
+
+export interface OverbookingSettings {
+  // Expected cost of walking one guest: relocation, transport, compensation and goodwill.
+  walkCost: number
+  // Hard cap on the authorised overbooking, as a share of the room type capacity.
+  maxOverbookingPct: number
+}
+
+export const DEFAULT_OVERBOOKING_SETTINGS: OverbookingSettings = {
+  walkCost: 250,
+  maxOverbookingPct: 5,
+}
+
+// Lower bounds, in days before arrival, of the lead time buckets.
+export const LEAD_TIME_BUCKETS = [0, 3, 7, 14, 30, 60]
+// Pseudo-rooms pulling a thin segment towards the all-channel rate.
+const PRIOR_ROOMS = 20
+const HOTEL_ROW_LABEL = 'Hotel'
+
+export interface AttritionSegment {
+  channel: string
+  leadDays: number
+  atRiskRooms: number
+  cancelledRooms: number
+  cancelProbability: number
+}
+
+export interface AttritionModel {
+  segments: AttritionSegment[]
+  noShowByChannel: Map<string, number>
+  overallNoShowRate: number
+  historyRooms: number
+  averageAdr: number
+  // A null or unknown channel gets the all-channel probability.
+  cancelProbability: (channel: string | null, daysOut: number) => number
+  noShowProbability: (channel: string) => number
+}
+
+export type OverbookingStatus = 'ok' | 'overbooked' | 'over_limit'
+
+export interface OverbookingDay {
+  date: string
+  roomType: string
+  capacity: number
+  onBooks: number
+  expectedCancellations: number
+  expectedNoShows: number
+  // Authorised rooms above capacity, and capacity + authorised.
+  authorisedOverbooking: number
+  safeLimit: number
+  expectedWalks: number
+  expectedWalkCost: number
+  status: OverbookingStatus
+}
+
+export const getChannel = (reservation: Reservation) => (reservation.origin || reservation.originType || 'Non defini').trim()
+
+export const isNoShow = (reservation: Reservation) => {
+  const status = normalizeKey(reservation.status)
+  return status.includes('noshow') || status.includes('nonpresente') || status.includes('nonvenu')
+}
+
+export const getLeadBucket = (daysOut: number) =>
+  LEAD_TIME_BUCKETS.reduce((bucket, lowerBound) => (daysOut >= lowerBound ? lowerBound : bucket), 0)
+
+const smoothed = (events: number, rooms: number, prior: number) => (events + PRIOR_ROOMS * prior) / (rooms + PRIOR_ROOMS)
+
+/**
+ * Cancellation and no-show probabilities learnt from past booking_export rows.
+ * The cancellation probability of a segment is conditional: among the rooms
+ * still on the books `leadDays` before arrival, the share that cancelled
+ * afterwards. Only arrivals before `asOf` with a known purchase date count.
+ */
+export const buildAttritionModel = (history: Reservation[], asOf: Date): AttritionModel => {
+  const past = history.filter((reservation) => {
+    const arrival = parseDate(reservation.arrivalDate)
+    return !!arrival && arrival < asOf && !!parseDate(reservation.purchaseDate)
+  })
+
+  const atRisk = new Map<string, { rooms: number; cancelled: number }>()
+  const add = (key: string, rooms: number, cancelled: boolean) => {
+    const current = atRisk.get(key) || { rooms: 0, cancelled: 0 }
+    current.rooms += rooms
+    if (cancelled) current.cancelled += rooms
+    atRisk.set(key, current)
+  }
+  const arrivals = new Map<string, { rooms: number; noShows: number }>()
+  let totalArrivedRooms = 0
+  let totalNoShows = 0
+  let revenue = 0
+  let roomNights = 0
+
+  past.forEach((reservation) => {
+    const channel = getChannel(reservation)
+    const bookedDaysOut = Math.max(0, getDaysOut(reservation.arrivalDate, parseDate(reservation.purchaseDate) as Date))
+    const noShow = isNoShow(reservation)
+    const cancelled = reservation.isCancelled && !noShow
+    const cancelledOn = cancelled ? parseDate(reservation.cancellationDate) : null
+    // Cancellations without a date cannot be placed on the lead time axis.
+    if (cancelled && !cancelledOn) return
+    const cancelDaysOut = cancelledOn ? getDaysOut(reservation.arrivalDate, cancelledOn) : -1
+
+    LEAD_TIME_BUCKETS.forEach((leadDays) => {
+      if (bookedDaysOut < leadDays) return
+      if (cancelled && cancelDaysOut > leadDays) return
+      add(`${channel}|${leadDays}`, reservation.rooms, cancelled)
+      add(`*|${leadDays}`, reservation.rooms, cancelled)
+    })
+
+    if (cancelled) return
+    const channelArrivals = arrivals.get(channel) || { rooms: 0, noShows: 0 }
+    channelArrivals.rooms += reservation.rooms
+    if (noShow) channelArrivals.noShows += reservation.rooms
+    arrivals.set(channel, channelArrivals)
+    totalArrivedRooms += reservation.rooms
+    if (noShow) totalNoShows += reservation.rooms
+    if (!noShow && reservation.totalAmount > 0) {
+      revenue += reservation.totalAmount
+      roomNights += reservation.nights * reservation.rooms
+    }
+  })
+
+  const overallCancel = new Map(LEAD_TIME_BUCKETS.map((leadDays) => {
+    const counts = atRisk.get(`*|${leadDays}`)
+    return [leadDays, counts && counts.rooms > 0 ? counts.cancelled / counts.rooms : 0]
+  }))
+  const overallNoShowRate = totalArrivedRooms > 0 ? totalNoShows / totalArrivedRooms : 0
+
+  const segments: AttritionSegment[] = []
+  atRisk.forEach((counts, key) => {
+    const [channel, leadDays] = key.split('|')
+    if (channel === '*') return
+    const bucket = Number(leadDays)
+    segments.push({
+      channel,
+      leadDays: bucket,
+      atRiskRooms: counts.rooms,
+      cancelledRooms: counts.cancelled,
+      cancelProbability: smoothed(counts.cancelled, counts.rooms, overallCancel.get(bucket) ?? 0),
+    })
+  })
+  segments.sort((a, b) => a.channel.localeCompare(b.channel) || a.leadDays - b.leadDays)
+
+  const noShowByChannel = new Map<string, number>()
+  arrivals.forEach((counts, channel) => noShowByChannel.set(channel, smoothed(counts.noShows, counts.rooms, overallNoShowRate)))
+  const segmentByKey = new Map(segments.map((segment) => [`${segment.channel}|${segment.leadDays}`, segment]))
+
+  return {
+    segments,
+    noShowByChannel,
+    overallNoShowRate,
+    historyRooms: past.reduce((sum, reservation) => sum + reservation.rooms, 0),
+    averageAdr: roomNights > 0 ? revenue / roomNights : 0,
+    cancelProbability: (channel, daysOut) => {
+      const bucket = getLeadBucket(daysOut)
+      return segmentByKey.get(`${channel}|${bucket}`)?.cancelProbability ?? overallCancel.get(bucket) ?? 0
+    },
+    noShowProbability: (channel) => noShowByChannel.get(channel) ?? overallNoShowRate,
+  }
+}
+
+// Abramowitz & Stegun 7.1.26, accurate to 1.5e-7: plenty for a room count.
+const normalCdf = (z: number) => {
+  const x = Math.abs(z) / Math.SQRT2
+  const t = 1 / (1 + 0.3275911 * x)
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x)
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2
+}
+
+const normalPdf = (z: number) => Math.exp(-(z * z) / 2) / Math.sqrt(2 * Math.PI)
+
+/** E[max(0, X - threshold)] for X ~ N(mean, sd). */
+const expectedExcess = (mean: number, sd: number, threshold: number) => {
+  if (sd <= 0) return Math.max(0, mean - threshold)
+  const z = (threshold - mean) / sd
+  return sd * normalPdf(z) + (mean - threshold) * (1 - normalCdf(z))
+}
+
+interface OverbookingInput {
+  stayDates: string[]
+  reservations: Reservation[]
+  model: AttritionModel
+  settings: Pick<RMSSettings, 'hotelCapacity' | 'roomTypeCapacities' | 'overbooking'>
+  asOf: Date
+}
+
+/**
+ * Authorised overbooking per room type and stay date. Every room on the books
+ * shows up with probability (1 - cancel)(1 - no-show) for its channel and lead
+ * time, and attrition on a full house is approximated by a normal law. One more
+ * room is authorised while the chance that attrition frees it stays above
+ * walkCost / (walkCost + ADR), the point where the expected revenue of selling
+ * it still outweighs the expected cost of walking a guest.
+ */
+export const planOverbooking = ({ stayDates, reservations, model, settings, asOf }: OverbookingInput): OverbookingDay[] => {
+  const configured = Object.entries(settings.roomTypeCapacities || {})
+    .filter(([roomType, capacity]) => roomType.trim() && capacity > 0)
+    .map(([roomType, capacity]) => ({ roomType, capacity, token: normalizeKey(roomType) }))
+  const roomTypes = configured.length > 0
+    ? configured
+    : [{ roomType: HOTEL_ROW_LABEL, capacity: Math.max(1, settings.hotelCapacity), token: '' }]
+  // An exact name wins; otherwise the longest configured name containing or contained in the booked one.
+  const matchRoomType = (reservation: Reservation) => {
+    if (configured.length === 0) return roomTypes[0]
+    const token = normalizeKey(reservation.roomType)
+    if (!token) return null
+    let best: (typeof configured)[number] | null = null
+    for (const entry of configured) {
+      if (!entry.token) continue
+      if (entry.token === token) return entry
+      if ((token.includes(entry.token) || entry.token.includes(token)) && (!best || entry.token.length > best.token.length)) {
+        best = entry
+      }
+    }
+    return best
+  }
+
+  type Booked = { rooms: number; show: number; cancel: number; noShow: number; adr: number }
+  const bookedByKey = new Map<string, Booked[]>()
+  reservations.forEach((reservation) => {
+    if (reservation.isCancelled || isNoShow(reservation)) return
+    const match = matchRoomType(reservation)
+    if (!match) return
+    const channel = getChannel(reservation)
+    const daysOut = getDaysOut(reservation.arrivalDate, asOf)
+    // Guests already in house can neither cancel nor fail to show.
+    const cancel = daysOut > 0 ? model.cancelProbability(channel, daysOut) : 0
+    const noShow = daysOut >= 0 ? model.noShowProbability(channel) : 0
+    const adr = reservation.totalAmount > 0 ? reservation.totalAmount / (reservation.nights * reservation.rooms) : 0
+
+    for (let night = 0; night < reservation.nights; night += 1) {
+      const key = `${shiftDateKey(reservation.arrivalDate, night)}|${match.roomType}`
+      const list = bookedByKey.get(key) || []
+      list.push({ rooms: reservation.rooms, show: (1 - cancel) * (1 - noShow), cancel, noShow: (1 - cancel) * noShow, adr })
+      bookedByKey.set(key, list)
+    }
+  })
+
+  const walkCost = Math.max(0, settings.overbooking.walkCost)
+  const days: OverbookingDay[] = []
+
+  stayDates.forEach((date) => {
+    const defaultLoss = 1 - (1 - model.cancelProbability(null, getDaysOut(date, asOf))) * (1 - model.overallNoShowRate)
+
+    roomTypes.forEach(({ roomType, capacity }) => {
+      const booked = bookedByKey.get(`${date}|${roomType}`) || []
+      const onBooks = booked.reduce((sum, entry) => sum + entry.rooms, 0)
+      const priced = booked.filter((entry) => entry.adr > 0)
+      const pricedRooms = priced.reduce((sum, entry) => sum + entry.rooms, 0)
+      const adr = pricedRooms > 0 ? priced.reduce((sum, entry) => sum + entry.adr * entry.rooms, 0) / pricedRooms : model.averageAdr
+
+      // Attrition rate and per-room variance of the booked mix, or of the average booking when nothing is sold yet.
+      const loss = onBooks > 0 ? booked.reduce((sum, entry) => sum + entry.rooms * (1 - entry.show), 0) / onBooks : defaultLoss
+      const lossVariance = onBooks > 0
+        ? booked.reduce((sum, entry) => sum + entry.rooms * (1 - entry.show) * entry.show, 0) / onBooks
+        : defaultLoss * (1 - defaultLoss)
+
+      const houseRooms = Math.max(onBooks, capacity)
+      const attritionMean = houseRooms * loss
+      const attritionSd = Math.sqrt(houseRooms * lossVariance)
+      const criticalRatio = adr > 0 ? walkCost / (walkCost + adr) : 1
+      const cap = Math.floor((capacity * Math.max(0, settings.overbooking.maxOverbookingPct)) / 100)
+
+      let authorisedOverbooking = 0
+      for (let extra = 1; extra <= cap; extra += 1) {
+        const freedProbability = attritionSd > 0
+          ? 1 - normalCdf((extra - 0.5 - attritionMean) / attritionSd)
+          : (attritionMean >= extra - 0.5 ? 1 : 0)
+        if (freedProbability < criticalRatio) break
+        authorisedOverbooking = extra
+      }
+
+      const showMean = booked.reduce((sum, entry) => sum + entry.rooms * entry.show, 0)
+      const showSd = Math.sqrt(booked.reduce((sum, entry) => sum + entry.rooms * entry.rooms * entry.show * (1 - entry.show), 0))
+      const expectedWalks = expectedExcess(showMean, showSd, capacity)
+      const safeLimit = capacity + authorisedOverbooking
+
+      days.push({
+        date,
+        roomType,
+        capacity,
+        onBooks,
+        expectedCancellations: booked.reduce((sum, entry) => sum + entry.rooms * entry.cancel, 0),
+        expectedNoShows: booked.reduce((sum, entry) => sum + entry.rooms * entry.noShow, 0),
+        authorisedOverbooking,
+        safeLimit,
+        expectedWalks,
+        expectedWalkCost: expectedWalks * walkCost,
+        status: onBooks > safeLimit ? 'over_limit' : onBooks > capacity ? 'overbooked' : 'ok',
+      })
+    })
+  })
+
+  return days
+}
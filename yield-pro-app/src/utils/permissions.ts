@@ -0,0 +1,64 @@
+import type { Database } from '../types/database.types'
+
+export type HotelRole = Database['public']['Tables']['user_hotels']['Row']['role']
+
+export type Permission =
+  | 'import_data'
+  | 'approve_prices'
+  | 'approve_prices_above_threshold'
+  | 'edit_rms_settings'
+  | 'manage_users'
+
+export const HOTEL_ROLES: HotelRole[] = ['viewer', 'analyst', 'revenue_manager', 'hotel_admin', 'group_admin']
+
+export const HOTEL_ROLE_LABELS: Record<HotelRole, string> = {
+  viewer: 'Lecteur',
+  analyst: 'Analyste',
+  revenue_manager: 'Revenue manager',
+  hotel_admin: 'Admin hotel',
+  group_admin: 'Admin groupe',
+}
+
+// Profiles without a membership row keep the rights they had before roles existed.
+export const LEGACY_HOTEL_ROLE: HotelRole = 'revenue_manager'
+
+// Same ranks and thresholds as hotel_role_rank / has_hotel_permission in USER_ROLES.sql.
+const ROLE_RANK: Record<HotelRole, number> = {
+  viewer: 1,
+  analyst: 2,
+  revenue_manager: 3,
+  hotel_admin: 4,
+  group_admin: 5,
+}
+
+const PERMISSION_MIN_ROLE: Record<Permission, HotelRole> = {
+  import_data: 'analyst',
+  approve_prices: 'analyst',
+  approve_prices_above_threshold: 'revenue_manager',
+  edit_rms_settings: 'revenue_manager',
+  manage_users: 'hotel_admin',
+}
+
+export const hasPermission = (role: HotelRole | null, permission: Permission) =>
+  role !== null && ROLE_RANK[role] >= ROLE_RANK[PERMISSION_MIN_ROLE[permission]]
+
+/** A manager only hands out, or changes, roles up to their own. */
+export const canAssignRole = (managerRole: HotelRole | null, role: HotelRole) =>
+  hasPermission(managerRole, 'manage_users') && managerRole !== null && ROLE_RANK[role] <= ROLE_RANK[managerRole]
+
+/**
+ * Permission needed to record a price decision: rejecting or moving the price
+ * within the auto-approve threshold only needs approve_prices.
+ */
+export const getPriceDecisionPermission = (
+  decision: 'approved' | 'rejected' | 'overridden',
+  currentPrice: number,
+  finalPrice: number,
+  autoApproveThresholdPct: number
+): Permission => {
+  if (decision === 'rejected') return 'approve_prices'
+  if (currentPrice > 0 && (Math.abs(finalPrice - currentPrice) / currentPrice) * 100 <= autoApproveThresholdPct) {
+    return 'approve_prices'
+  }
+  return 'approve_prices_above_threshold'
+}
@@ -0,0 +1,68 @@
+import type { PricingSuggestion } from './rmsEngine'
+
+export interface PortfolioHotelSummary {
+  hotelId: string
+  occupancyRate: number
+  adr: number
+  revpar: number
+  netAdr: number
+  netRevpar: number
+  pickupRooms: number
+  pickupRevenue: number
+  occupiedRooms: number
+  totalRooms: number
+  revenue: number
+  // Revenue after OTA commissions.
+  netRevenue: number
+  openSuggestions: number
+}
+
+export type PortfolioSortKey = 'name' | 'occupancyRate' | 'adr' | 'revpar' | 'netAdr' | 'netRevpar' | 'pickupRooms' | 'openSuggestions'
+
+export type PortfolioSort = {
+  key: PortfolioSortKey
+  direction: 'asc' | 'desc'
+}
+
+/** Suggestions from today on that nobody approved, rejected or overrode yet. */
+export const countOpenSuggestions = (
+  suggestions: PricingSuggestion[],
+  decidedDates: ReadonlyMap<string, unknown>,
+  todayKey: string
+) => suggestions.filter((suggestion) => suggestion.date >= todayKey && !decidedDates.has(suggestion.date)).length
+
+/** Hotels whose figures are not loaded yet stay at the bottom whatever the direction. */
+export const sortPortfolioHotels = <T extends { hotelId: string; name: string }>(
+  hotels: T[],
+  summaries: Record<string, PortfolioHotelSummary>,
+  sort: PortfolioSort
+): T[] => {
+  const factor = sort.direction === 'asc' ? 1 : -1
+
+  return [...hotels].sort((a, b) => {
+    if (sort.key === 'name') return a.name.localeCompare(b.name) * factor
+    const left = summaries[a.hotelId]
+    const right = summaries[b.hotelId]
+    if (!left || !right) return (left ? 0 : 1) - (right ? 0 : 1)
+    return (left[sort.key] - right[sort.key]) * factor || a.name.localeCompare(b.name)
+  })
+}
+
+/** Portfolio figures are recomputed from the room nights, not averaged from the hotel ratios. */
+export const buildPortfolioTotals = (summaries: PortfolioHotelSummary[]) => {
+  const occupiedRooms = summaries.reduce((sum, row) => sum + row.occupiedRooms, 0)
+  const totalRooms = summaries.reduce((sum, row) => sum + row.totalRooms, 0)
+  const revenue = summaries.reduce((sum, row) => sum + row.revenue, 0)
+  const netRevenue = summaries.reduce((sum, row) => sum + row.netRevenue, 0)
+
+  return {
+    occupancyRate: totalRooms > 0 ? (occupiedRooms / totalRooms) * 100 : 0,
+    adr: occupiedRooms > 0 ? revenue / occupiedRooms : 0,
+    revpar: totalRooms > 0 ? revenue / totalRooms : 0,
+    netAdr: occupiedRooms > 0 ? netRevenue / occupiedRooms : 0,
+    netRevpar: totalRooms > 0 ? netRevenue / totalRooms : 0,
+    pickupRooms: summaries.reduce((sum, row) => sum + row.pickupRooms, 0),
+    pickupRevenue: summaries.reduce((sum, row) => sum + row.pickupRevenue, 0),
+    openSuggestions: summaries.reduce((sum, row) => sum + row.openSuggestions, 0),
+  }
+}
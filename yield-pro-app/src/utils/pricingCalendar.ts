@@ -0,0 +1,61 @@
+export interface PricingSeason {
+  id: string
+  name: string
+  // Inclusive yyyy-MM-dd bounds.
+  startDate: string
+  endDate: string
+  adjustmentPct: number
+}
+
+export interface PricingCalendarSettings {
+  // Indexed like Date.getDay() (0 = dimanche), applied on top of the weekend premium.
+  weekdayAdjustmentsPct: number[]
+  seasons: PricingSeason[]
+  // Applied when the "Jours fériés" column of booking_apercu is filled for the stay date.
+  holidayAdjustmentPct: number
+}
+
+export interface CalendarAdjustment {
+  label: string
+  pct: number
+}
+
+export const WEEKDAY_LABELS = ['Dimanche', 'Lundi', 'Mardi', 'Mercredi', 'Jeudi', 'Vendredi', 'Samedi']
+
+export const DEFAULT_PRICING_CALENDAR: PricingCalendarSettings = {
+  weekdayAdjustmentsPct: [0, 0, 0, 0, 0, 0, 0],
+  seasons: [],
+  holidayAdjustmentPct: 0,
+}
+
+// Extracts put a dash in the holiday column on ordinary days.
+export const isHolidayLabel = (holiday: string) => {
+  const label = holiday.trim()
+  return label !== '' && label !== '-'
+}
+
+export const getSeasonsForDate = (seasons: PricingSeason[], date: string) =>
+  seasons.filter((season) => season.startDate <= date && date <= season.endDate)
+
+/**
+ * Weekday, season and holiday adjustments of one stay date, in the order the
+ * engine applies them. Zero adjustments are left out so the formula only lists
+ * what moved the price.
+ */
+export const getCalendarAdjustments = (
+  calendar: PricingCalendarSettings,
+  date: string,
+  weekday: number,
+  holiday: string
+): CalendarAdjustment[] => {
+  const adjustments: CalendarAdjustment[] = [
+    { label: (WEEKDAY_LABELS[weekday] || '').toLowerCase(), pct: calendar.weekdayAdjustmentsPct[weekday] ?? 0 },
+    ...getSeasonsForDate(calendar.seasons, date).map((season) => ({ label: `saison ${season.name}`, pct: season.adjustmentPct })),
+  ]
+  if (isHolidayLabel(holiday)) {
+    adjustments.push({ label: `ferie (${holiday.trim()})`, pct: calendar.holidayAdjustmentPct })
+  }
+  return adjustments.filter((adjustment) => adjustment.pct !== 0)
+}
+
+export const formatAdjustmentPct = (pct: number) => `${pct > 0 ? '+' : ''}${pct}%`
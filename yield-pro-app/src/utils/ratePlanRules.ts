@@ -0,0 +1,186 @@
+export type RatePlanRounding = 'none' | 'unit' | 'five' | 'nine'
+
+export interface RatePlanRule {
+  id: string
+  label: string
+  // Plan code, '*' matches any run of characters (e.g. MOBILE-*, *-BB-*2P*).
+  pattern: string
+  adjustmentPct: number
+  adjustmentAmount: number
+  breakfastCount: number
+  floor: number
+}
+
+export interface RatePlanDerivationSettings {
+  barPlanCode: string
+  breakfastPrice: number
+  rounding: RatePlanRounding
+  rules: RatePlanRule[]
+}
+
+export interface RatePlanMatrixRow {
+  planCode: string
+  rules: RatePlanRule[]
+  prices: Record<string, number>
+}
+
+export interface RatePlanViolation {
+  date: string
+  roomType: string
+  planCode: string
+  bar: number
+  expected: number
+  actual: number
+  gap: number
+  rules: RatePlanRule[]
+}
+
+export interface PlanningTarifLike {
+  date: string | null
+  type_de_chambre: string | null
+  plan_tarifaire: string | null
+  tarif: number | null
+}
+
+export const RATE_PLAN_ROUNDING_LABELS: Record<RatePlanRounding, string> = {
+  none: 'Aucun',
+  unit: "A l'euro",
+  five: 'Multiple de 5',
+  nine: 'Terminaison 9',
+}
+
+// Planning rows are rounded by the channel manager, so a one euro gap is not a violation.
+export const VIOLATION_TOLERANCE = 1
+
+export const DEFAULT_RATE_PLAN_RULES: RatePlanRule[] = [
+  { id: 'nanr', label: 'Non remboursable', pattern: '*NANR*', adjustmentPct: -10, adjustmentAmount: 0, breakfastCount: 0, floor: 0 },
+  { id: 'mobile', label: 'Mobile', pattern: 'MOBILE-*', adjustmentPct: -5, adjustmentAmount: 0, breakfastCount: 0, floor: 0 },
+  { id: 'bb-1p', label: 'Petit-dejeuner 1 pers.', pattern: '*-BB-*1P*', adjustmentPct: 0, adjustmentAmount: 0, breakfastCount: 1, floor: 0 },
+  { id: 'bb-2p', label: 'Petit-dejeuner 2 pers.', pattern: '*-BB-*2P*', adjustmentPct: 0, adjustmentAmount: 0, breakfastCount: 2, floor: 0 },
+  { id: 'bb-4p', label: 'Petit-dejeuner 4 pers.', pattern: '*-BB-*4P*', adjustmentPct: 0, adjustmentAmount: 0, breakfastCount: 4, floor: 0 },
+]
+
+const normalizeCode = (value: string | null | undefined) => (value || '').trim().toUpperCase()
+
+/** Accepts "OTA-RO-FLEX", "OTA RO FLEX (OTA-RO-FLEX)" and "OTA-RO-FLEX - OTA RO FLEX". */
+export const extractPlanCode = (value: string | null | undefined): string => {
+  const raw = value || ''
+  const match = raw.match(/\(([^)]+)\)/)
+  return normalizeCode((match?.[1] || raw).split(' - ')[0])
+}
+
+const patternToRegex = (pattern: string) => {
+  const escaped = normalizeCode(pattern)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${escaped}$`)
+}
+
+export const matchRatePlanRules = (planCode: string, rules: RatePlanRule[]): RatePlanRule[] => {
+  const code = extractPlanCode(planCode)
+  if (!code) return []
+  return rules.filter((rule) => rule.pattern.trim() && patternToRegex(rule.pattern).test(code))
+}
+
+export const roundRatePlanPrice = (value: number, rounding: RatePlanRounding) => {
+  if (rounding === 'unit') return Math.round(value)
+  if (rounding === 'five') return Math.round(value / 5) * 5
+  if (rounding === 'nine') return Math.max(9, Math.round((value + 1) / 10) * 10 - 1)
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Derives a plan price from the BAR. Every matching rule applies: percentages
+ * compound first, fixed amounts and breakfasts are added next, then rounding,
+ * and the highest floor among the matching rules wins.
+ */
+export const deriveRatePlanPrice = (
+  bar: number,
+  rules: RatePlanRule[],
+  settings: Pick<RatePlanDerivationSettings, 'breakfastPrice' | 'rounding'>
+) => {
+  if (rules.length === 0) return roundRatePlanPrice(bar, settings.rounding)
+
+  const multiplier = rules.reduce((acc, rule) => acc * (1 + rule.adjustmentPct / 100), 1)
+  const additions = rules.reduce(
+    (acc, rule) => acc + rule.adjustmentAmount + rule.breakfastCount * settings.breakfastPrice,
+    0
+  )
+  const floor = Math.max(0, ...rules.map((rule) => rule.floor))
+  return Math.max(floor, roundRatePlanPrice(bar * multiplier + additions, settings.rounding))
+}
+
+/** Prices every plan for every room type, the room BAR being the reference BAR moved by its differential. */
+export const buildRatePlanMatrix = (
+  bar: number,
+  planCodes: string[],
+  roomTypes: Array<{ roomType: string; differentialPct: number }>,
+  settings: RatePlanDerivationSettings
+): RatePlanMatrixRow[] => {
+  const barCode = extractPlanCode(settings.barPlanCode)
+  const codes = Array.from(new Set(planCodes.map(extractPlanCode).filter(Boolean)))
+  const ordered = codes.includes(barCode) ? [barCode, ...codes.filter((code) => code !== barCode)] : [barCode, ...codes]
+
+  return ordered.map((planCode) => {
+    const rules = planCode === barCode ? [] : matchRatePlanRules(planCode, settings.rules)
+    const prices = roomTypes.reduce<Record<string, number>>((acc, item) => {
+      const roomBar = bar * (1 + item.differentialPct / 100)
+      acc[item.roomType] = deriveRatePlanPrice(roomBar, rules, settings)
+      return acc
+    }, {})
+    return { planCode, rules, prices }
+  })
+}
+
+/**
+ * Checks loaded planning prices against their rules, using the BAR plan row of
+ * the same date and room type as the base. Plans with no matching rule are skipped.
+ */
+export const findRatePlanViolations = (
+  rows: PlanningTarifLike[],
+  settings: RatePlanDerivationSettings,
+  tolerance = VIOLATION_TOLERANCE
+): RatePlanViolation[] => {
+  const barCode = extractPlanCode(settings.barPlanCode)
+  const barByKey = new Map<string, number>()
+
+  rows.forEach((row) => {
+    if (!row.date || !row.type_de_chambre || typeof row.tarif !== 'number' || row.tarif <= 0) return
+    if (extractPlanCode(row.plan_tarifaire) !== barCode) return
+    barByKey.set(`${row.date}|${row.type_de_chambre}`, row.tarif)
+  })
+
+  const rulesByPlan = new Map<string, RatePlanRule[]>()
+  const violations: RatePlanViolation[] = []
+
+  rows.forEach((row) => {
+    if (!row.date || !row.type_de_chambre || typeof row.tarif !== 'number' || row.tarif <= 0) return
+    const planCode = extractPlanCode(row.plan_tarifaire)
+    if (!planCode || planCode === barCode) return
+
+    const bar = barByKey.get(`${row.date}|${row.type_de_chambre}`)
+    if (bar === undefined) return
+
+    if (!rulesByPlan.has(planCode)) rulesByPlan.set(planCode, matchRatePlanRules(planCode, settings.rules))
+    const rules = rulesByPlan.get(planCode) || []
+    if (rules.length === 0) return
+
+    const expected = deriveRatePlanPrice(bar, rules, settings)
+    const gap = row.tarif - expected
+    if (Math.abs(gap) <= tolerance) return
+
+    violations.push({
+      date: row.date,
+      roomType: row.type_de_chambre,
+      planCode,
+      bar,
+      expected,
+      actual: row.tarif,
+      gap,
+      rules,
+    })
+  })
+
+  return violations.sort((a, b) => a.date.localeCompare(b.date) || a.planCode.localeCompare(b.planCode))
+}
@@ -0,0 +1,293 @@
+import { describe, expect, it } from 'vitest'
+import {
+  RMS_ENGINE_VERSION,
+  computeDecision,
+  createRoomTypeDifferentialLookup,
+  roundToStep,
+  runRmsEngine,
+  toPricingSuggestions,
+} from './rmsEngine'
+import { DEFAULT_PRICING_CALENDAR, type PricingCalendarSettings } from './pricingCalendar'
+import {
+  SATURDAY,
+  TEN_DAYS_BEFORE,
+  WEEKDAY,
+  fixtureSettings,
+  makeInventoryDay,
+  makeMarketDay,
+  makeReservation,
+  neutralInput,
+} from './__fixtures__/rmsEngine'
+
+const TWO_DAYS_BEFORE = new Date(2026, 2, 9)
+
+describe('computeDecision formula', () => {
+  it('keeps the current BAR when every signal is neutral', () => {
+    const decision = computeDecision(neutralInput(), fixtureSettings())
+    expect(decision.recommendedPrice).toBe(150)
+    expect(decision.reason).toBe('Maintien conseillé')
+    expect(decision.shouldAutoApprove).toBe(true)
+  })
+
+  it('weights market demand', () => {
+    // (70 - 50) x 0.35 = +7% -> 160.5, rounded to the 2 EUR step.
+    const decision = computeDecision(neutralInput({ demandIndex: 70 }), fixtureSettings())
+    expect(decision.recommendedPrice).toBe(160)
+    expect(decision.shouldAutoApprove).toBe(false)
+  })
+
+  it('weights the gap to the compset median', () => {
+    // 25% under a 200 median x 0.30 = +7.5% -> 161.25.
+    const decision = computeDecision(neutralInput({ competitorMedian: 200 }), fixtureSettings())
+    expect(decision.recommendedPrice).toBe(162)
+  })
+
+  it('weights the forecast occupancy against the target', () => {
+    // (90 - 80) x 0.20 = +2% -> 153, rounded half up to 154.
+    const forecast = { ...neutralInput().forecast!, forecastOccupancy: 90 }
+    expect(computeDecision(neutralInput({ forecast }), fixtureSettings()).recommendedPrice).toBe(154)
+  })
+
+  it('adds the weekend premium on Friday and Saturday nights', () => {
+    const decision = computeDecision(neutralInput({ date: SATURDAY }), fixtureSettings())
+    expect(decision.recommendedPrice).toBe(168)
+  })
+
+  it('applies the last minute discount only close to arrival and well under target', () => {
+    // (60 - 80) x 0.20 = -4% -> 144, then -8% -> 132.48.
+    const forecast = { ...neutralInput().forecast!, forecastOccupancy: 60 }
+    expect(computeDecision(neutralInput({ forecast, asOf: TWO_DAYS_BEFORE }), fixtureSettings()).recommendedPrice).toBe(132)
+    expect(computeDecision(neutralInput({ forecast }), fixtureSettings()).recommendedPrice).toBe(144)
+  })
+
+  it('halves the move in conservative mode and adds 3% in aggressive mode', () => {
+    const input = neutralInput({ demandIndex: 70 })
+    expect(computeDecision(input, fixtureSettings({ strategy: 'conservative' })).recommendedPrice).toBe(156)
+    expect(computeDecision(input, fixtureSettings({ strategy: 'aggressive' })).recommendedPrice).toBe(166)
+  })
+
+  it('tags every decision with the engine version', () => {
+    expect(computeDecision(neutralInput(), fixtureSettings()).engineVersion).toBe(RMS_ENGINE_VERSION)
+  })
+})
+
+describe('pricing calendar', () => {
+  const calendar = (overrides: Partial<PricingCalendarSettings> = {}): PricingCalendarSettings => ({
+    ...DEFAULT_PRICING_CALENDAR,
+    ...overrides,
+  })
+
+  it('applies the adjustment of the stay weekday', () => {
+    // Wednesday +8% -> 162; the Tuesday adjustment does not apply.
+    const settings = fixtureSettings({ calendar: calendar({ weekdayAdjustmentsPct: [0, 0, -5, 8, 0, 0, 0] }) })
+    expect(computeDecision(neutralInput(), settings).recommendedPrice).toBe(162)
+  })
+
+  it('applies every season covering the stay date, bounds included', () => {
+    const seasons = [
+      { id: 's1', name: 'Printemps', startDate: '2026-03-01', endDate: WEEKDAY, adjustmentPct: 4 },
+      { id: 's2', name: 'Salon', startDate: WEEKDAY, endDate: WEEKDAY, adjustmentPct: -10 },
+      { id: 's3', name: 'Ete', startDate: '2026-06-01', endDate: '2026-08-31', adjustmentPct: 20 },
+    ]
+    // 150 x 1.04 x 0.90 = 140.4.
+    expect(computeDecision(neutralInput(), fixtureSettings({ calendar: calendar({ seasons }) })).recommendedPrice).toBe(140)
+  })
+
+  it('applies the holiday adjustment only when the Jours feries column is filled', () => {
+    const settings = fixtureSettings({ calendar: calendar({ holidayAdjustmentPct: 6 }) })
+    // 150 x 1.06 = 159, rounded half up to 160.
+    expect(computeDecision(neutralInput({ holiday: 'Lundi de Paques' }), settings).recommendedPrice).toBe(160)
+    expect(computeDecision(neutralInput({ holiday: '-' }), settings).recommendedPrice).toBe(150)
+    expect(computeDecision(neutralInput(), settings).recommendedPrice).toBe(150)
+  })
+
+  it('itemises each applied adjustment in the formula', () => {
+    const settings = fixtureSettings({
+      calendar: calendar({
+        weekdayAdjustmentsPct: [0, 0, 0, 0, 0, 0, 3],
+        seasons: [{ id: 's1', name: 'Printemps', startDate: '2026-03-01', endDate: '2026-03-31', adjustmentPct: 5 }],
+        holidayAdjustmentPct: 6,
+      }),
+    })
+    const decision = computeDecision(neutralInput({ date: SATURDAY, holiday: 'Fete locale' }), settings)
+
+    expect(decision.formulaText).toContain('Ajustements: weekend +12%, samedi +3%, saison Printemps +5%, ferie (Fete locale) +6%.')
+    expect(computeDecision(neutralInput(), fixtureSettings()).formulaText).toContain('Ajustements: aucun.')
+  })
+
+  it('lists the last minute discount after the calendar adjustments', () => {
+    const forecast = { ...neutralInput().forecast!, forecastOccupancy: 60 }
+    const settings = fixtureSettings({ calendar: calendar({ weekdayAdjustmentsPct: [0, 0, 0, -5, 0, 0, 0] }) })
+    const decision = computeDecision(neutralInput({ forecast, asOf: TWO_DAYS_BEFORE }), settings)
+    expect(decision.formulaText).toContain('Ajustements: mercredi -5%, last minute -8%.')
+  })
+
+  it('passes the apercu holiday through the market signal', () => {
+    const output = runRmsEngine({
+      reservations: [],
+      inventory: [makeInventoryDay()],
+      apercu: [makeMarketDay({ holidays: 'Fete locale' })],
+      settings: fixtureSettings({ calendar: calendar({ holidayAdjustmentPct: 6 }) }),
+      asOf: TEN_DAYS_BEFORE,
+    })
+    expect(output.dailyDecisions[0].formulaText).toContain('ferie (Fete locale) +6%')
+  })
+})
+
+describe('clamping', () => {
+  it('caps at the lower of maxAdr and maxPrice', () => {
+    const decision = computeDecision(
+      neutralInput({ currentPrice: 280, competitorMedian: 280, demandIndex: 100 }),
+      fixtureSettings({ maxAdr: 290, maxPrice: 340 })
+    )
+    expect(decision.recommendedPrice).toBe(290)
+  })
+
+  it('floors at the higher of minAdr and minPrice', () => {
+    const decision = computeDecision(
+      neutralInput({ currentPrice: 100, competitorMedian: 100, demandIndex: 0 }),
+      fixtureSettings({ minAdr: 95, minPrice: 79 })
+    )
+    expect(decision.recommendedPrice).toBe(95)
+  })
+
+  it('scales the bounds with the room type differential', () => {
+    // Bounds 95..290 become 114..348 at +20%.
+    const decision = computeDecision(
+      neutralInput({ currentPrice: 100, competitorMedian: 100, demandIndex: 0, priceFactor: 1.2 }),
+      fixtureSettings()
+    )
+    expect(decision.currentPrice).toBe(120)
+    expect(decision.recommendedPrice).toBe(114)
+  })
+
+  it('looks the differential up on the normalised room type name', () => {
+    const getDifferentialPct = createRoomTypeDifferentialLookup({
+      baseRoomType: 'Double Classique',
+      roomTypeDifferentials: { 'Suite Junior': 20, 'double classique': 15 },
+    })
+    expect(getDifferentialPct('SUITE  junior ')).toBe(20)
+    expect(getDifferentialPct('Double classique')).toBe(0)
+    expect(getDifferentialPct('Triple')).toBe(0)
+  })
+})
+
+describe('rounding', () => {
+  it('rounds to the nearest price step', () => {
+    expect(roundToStep(161.25, 2)).toBe(162)
+    expect(roundToStep(161.25, 5)).toBe(160)
+    expect(roundToStep(163, 5)).toBe(165)
+  })
+
+  it('rounds to the unit when the step is zero or negative', () => {
+    expect(roundToStep(161.25, 0)).toBe(161)
+    expect(roundToStep(161.75, -1)).toBe(162)
+  })
+
+  it('clamps after rounding, so bounds off the step grid win', () => {
+    const decision = computeDecision(
+      neutralInput({ currentPrice: 100, competitorMedian: 100, demandIndex: 0 }),
+      fixtureSettings({ minAdr: 97 })
+    )
+    expect(decision.recommendedPrice).toBe(97)
+  })
+
+  it('rounds suggestions to whole euros and drops unchanged dates', () => {
+    const settings = fixtureSettings({ priceStep: 0.5 })
+    const moved = computeDecision(neutralInput({ competitorMedian: 200 }), settings)
+    const held = computeDecision(neutralInput({ date: '2026-03-12' }), settings)
+    const suggestions = toPricingSuggestions([moved, held])
+
+    expect(moved.recommendedPrice).toBe(161.5)
+    expect(suggestions).toHaveLength(1)
+    expect(suggestions[0]).toMatchObject({ date: WEEKDAY, currentPrice: 150, suggestedPrice: 162, change: 12, changePercent: 7.7 })
+    expect(suggestions[0].engineVersion).toBe(RMS_ENGINE_VERSION)
+  })
+})
+
+describe('cancellation netting', () => {
+  // Last year: booked 30 days out, 4 in 10 cancelled 5 days before arrival.
+  const lastYear = Array.from({ length: 10 }, (_, index) => makeReservation({
+    id: `ly${index}`,
+    arrivalDate: '2025-03-12',
+    purchaseDate: '2025-02-10',
+    ...(index < 4 ? { isCancelled: true, cancellationDate: '2025-03-07' } : {}),
+  }))
+  const run = (netExpectedCancellations: boolean) => runRmsEngine({
+    reservations: Array.from({ length: 10 }, (_, index) => makeReservation({ id: `r${index}` })),
+    inventory: [makeInventoryDay()],
+    apercu: [makeMarketDay()],
+    settings: fixtureSettings({ netExpectedCancellations }),
+    historicalReservations: lastYear,
+    asOf: TEN_DAYS_BEFORE,
+  }).dailyDecisions[0]
+
+  it('leaves the rooms on the books untouched by default', () => {
+    expect(run(false).formulaText).not.toContain('Annulations attendues')
+  })
+
+  it('takes the expected cancellations off the forecast when enabled', () => {
+    const gross = run(false)
+    const net = run(true)
+
+    expect(gross.forecastRooms - net.forecastRooms).toBeCloseTo(4)
+    expect(net.formulaText).toContain('Annulations attendues deduites: 4.0 ch.')
+  })
+})
+
+describe('runRmsEngine', () => {
+  const output = runRmsEngine({
+    reservations: [
+      makeReservation({ id: 'r1', rooms: 2, totalAmount: 300 }),
+      makeReservation({ id: 'r2', arrivalDate: SATURDAY, departureDate: '2026-03-15', totalAmount: 180 }),
+      makeReservation({ id: 'r3', isCancelled: true, cancellationDate: '2026-02-20' }),
+    ],
+    inventory: [makeInventoryDay(), makeInventoryDay({ id: 'i2', date: SATURDAY })],
+    apercu: [makeMarketDay(), makeMarketDay({ id: 'm2', date: SATURDAY, weekday: 'samedi' })],
+    settings: fixtureSettings(),
+    asOf: TEN_DAYS_BEFORE,
+  })
+
+  it('produces one hotel decision per market day, tagged with the engine version', () => {
+    expect(output.engineVersion).toBe(RMS_ENGINE_VERSION)
+    expect(output.dailyDecisions.map((decision) => decision.date)).toEqual([WEEKDAY, SATURDAY])
+    expect(output.dailyDecisions.every((decision) => decision.engineVersion === RMS_ENGINE_VERSION)).toBe(true)
+    expect(output.pricingSuggestions.every((suggestion) => suggestion.engineVersion === RMS_ENGINE_VERSION)).toBe(true)
+  })
+
+  it('ignores cancelled reservations in the KPIs', () => {
+    expect(output.kpis.occupiedRooms).toBe(3)
+    expect(output.kpis.adr).toBe(160)
+    expect(output.kpis.totalRooms).toBe(200)
+  })
+
+  it('takes the partner commissions off the net ADR and RevPAR', () => {
+    expect(output.kpis.netAdr).toBe(output.kpis.adr)
+
+    const { kpis } = runRmsEngine({
+      reservations: [
+        makeReservation({ id: 'r1', rooms: 2, totalAmount: 300, origin: 'Direct', originType: 'Direct' }),
+        makeReservation({ id: 'r2', arrivalDate: SATURDAY, departureDate: '2026-03-15', totalAmount: 180 }),
+      ],
+      inventory: [makeInventoryDay(), makeInventoryDay({ id: 'i2', date: SATURDAY })],
+      apercu: [makeMarketDay(), makeMarketDay({ id: 'm2', date: SATURDAY, weekday: 'samedi' })],
+      settings: fixtureSettings(),
+      channelCommissions: [{ partner: 'Booking.com (1903)', commissionPct: 15 }],
+      asOf: TEN_DAYS_BEFORE,
+    })
+    // 300 direct + 180 less 15% = 453 over 3 rooms and 200 room nights.
+    expect(kpis.adr).toBe(160)
+    expect(kpis.netAdr).toBeCloseTo(151)
+    expect(kpis.netRevpar).toBeCloseTo(2.265)
+  })
+
+  it('prices the base room type per date', () => {
+    expect(output.roomTypes).toEqual(['Double Classique'])
+    expect(output.roomTypeDecisions).toHaveLength(2)
+    expect(output.roomTypeDecisions.every((decision) => decision.differentialPct === 0)).toBe(true)
+  })
+
+  it('raises alerts against the settings', () => {
+    expect(output.alerts).toContain('Occupation en dessous de la cible: activer une stratégie de stimulation.')
+  })
+})
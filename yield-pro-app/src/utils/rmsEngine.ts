@@ -0,0 +1,678 @@
+import type { RMSSettings } from '../hooks/useDashboardConfig'
+import type { HotelEvent, InventoryDay, MarketDay, Reservation } from '../types/domain'
+import { forecastCancellations } from './cancellationAnalytics'
+import { createNetAmountLookup, type ChannelCommission } from './channelMix'
+import { buildDemandForecast, type DemandForecastDay } from './demandForecast'
+import { eachDateKey, normalizeKey, parseDate, toDateKey } from './normalization'
+import { DEFAULT_OVERBOOKING_SETTINGS, buildAttritionModel } from './overbooking'
+import { DEFAULT_PRICING_CALENDAR, formatAdjustmentPct, getCalendarAdjustments, type CalendarAdjustment } from './pricingCalendar'
+import { DEFAULT_RATE_PLAN_RULES } from './ratePlanRules'
+
+/**
+ * Version of the pricing algorithm, stamped on every decision and suggestion it
+ * produces. Bump it whenever a change moves a recommended price.
+ */
+export const RMS_ENGINE_VERSION = '1.2.0'
+
+export interface KPIData {
+  occupancyRate: number
+  adr: number
+  revpar: number
+  // After OTA commissions; equal to adr / revpar when no commission is configured.
+  netAdr: number
+  netRevpar: number
+  pickupRooms: number
+  pickupRevenue: number
+  totalRooms: number
+  occupiedRooms: number
+  availableRooms: number
+  projectedOccupancy: number
+  projectedOccupancyLow: number
+  projectedOccupancyHigh: number
+}
+
+export interface PricingSuggestion {
+  date: string
+  currentPrice: number
+  suggestedPrice: number
+  change: number
+  changePercent: number
+  reason: string
+  formulaText: string
+  confidence: number
+  shouldAutoApprove: boolean
+  engineVersion: string
+}
+
+export interface RMSDailyDecision {
+  date: string
+  occupancyOnBooks: number
+  demandIndex: number
+  competitorMedian: number
+  eventImpact: number
+  pickupRooms: number
+  forecastRooms: number
+  forecastOccupancy: number
+  forecastOccupancyLow: number
+  forecastOccupancyHigh: number
+  unconstrainedOccupancy: number
+  expectedPickupRooms: number
+  currentPrice: number
+  recommendedPrice: number
+  confidence: number
+  reason: string
+  formulaText: string
+  shouldAutoApprove: boolean
+  engineVersion: string
+}
+
+export interface RMSRoomTypeDecision extends RMSDailyDecision {
+  roomType: string
+  capacity: number
+  roomsOnBooks: number
+  differentialPct: number
+}
+
+export interface RoomTypePricingSuggestion extends PricingSuggestion {
+  roomType: string
+}
+
+const defaultSettings: RMSSettings = {
+  hotelCapacity: 45,
+  roomTypeCapacities: {},
+  baseRoomType: 'Double Classique',
+  roomTypeDifferentials: {},
+  strategy: 'balanced',
+  targetOccupancy: 82,
+  minAdr: 95,
+  maxAdr: 290,
+  minPrice: 79,
+  maxPrice: 340,
+  weekendPremiumPct: 12,
+  lastMinuteDiscountPct: 8,
+  demandWeight: 0.35,
+  competitorWeight: 0.3,
+  eventWeight: 0.2,
+  pickupWeight: 0.15,
+  priceStep: 2,
+  autoApproveThresholdPct: 4,
+  ratePlans: {
+    barPlanCode: 'OTA-RO-FLEX',
+    breakfastPrice: 15,
+    rounding: 'unit',
+    rules: DEFAULT_RATE_PLAN_RULES
+  },
+  calendar: DEFAULT_PRICING_CALENDAR,
+  overbooking: DEFAULT_OVERBOOKING_SETTINGS,
+  netExpectedCancellations: false
+}
+
+export const roundToStep = (value: number, step: number) => {
+  if (step <= 0) return Math.round(value)
+  return Math.round(value / step) * step
+}
+
+export const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+export const isRecentPurchase = (reservation: Reservation, days: number, asOf: Date = new Date()) => {
+  const purchaseDate = parseDate(reservation.purchaseDate)
+  if (!purchaseDate) return false
+  const threshold = new Date(asOf)
+  threshold.setDate(threshold.getDate() - days)
+  return purchaseDate >= threshold
+}
+
+export interface DecisionForecast {
+  expectedPickup: number
+  unconstrainedOccupancy: number
+  forecastRooms: number
+  forecastOccupancy: number
+  forecastOccupancyLow: number
+  forecastOccupancyHigh: number
+  expectedCancellations?: number
+}
+
+export interface DecisionInput {
+  date: string
+  currentPrice: number
+  competitorMedian: number
+  demandIndex: number
+  eventImpact: number
+  roomsOnBooks: number
+  pickupRooms: number
+  capacity: number
+  // Room type differential applied to the base BAR, compset reference and price bounds.
+  priceFactor: number
+  forecast?: DecisionForecast
+  // "Jours fériés" label of the stay date, empty on ordinary days.
+  holiday?: string
+  // Day the decision is taken; defaults to now, set to a past cut-off when backtesting.
+  asOf?: Date
+}
+
+/**
+ * The pricing formula: weighted market signal applied to the current BAR, then
+ * weekend / calendar / last-minute / strategy adjustments, rounded to the price
+ * step and clamped to the ADR and price bounds.
+ */
+export const computeDecision = (input: DecisionInput, rmsSettings: RMSSettings): RMSDailyDecision => {
+  const { date, demandIndex, eventImpact, pickupRooms, capacity, priceFactor, forecast, asOf = new Date() } = input
+  const currentPrice = input.currentPrice * priceFactor
+  const competitorMedian = input.competitorMedian * priceFactor
+  const minBound = Math.max(rmsSettings.minAdr, rmsSettings.minPrice) * priceFactor
+  const maxBound = Math.min(rmsSettings.maxAdr, rmsSettings.maxPrice) * priceFactor
+
+  const occupancyOnBooks = clamp((input.roomsOnBooks / Math.max(1, capacity)) * 100, 0, 100)
+  const forecastOccupancy = forecast?.forecastOccupancy ?? occupancyOnBooks
+  const pickupPressure = clamp((pickupRooms / Math.max(1, capacity)) * 100, 0, 100)
+  const competitorGapPct = competitorMedian > 0 ? ((competitorMedian - currentPrice) / competitorMedian) * 100 : 0
+  const occupancyPressure = forecastOccupancy - rmsSettings.targetOccupancy
+
+  const weightedSignal =
+    (demandIndex - 50) * rmsSettings.demandWeight +
+    competitorGapPct * rmsSettings.competitorWeight +
+    ((eventImpact - 50) * rmsSettings.eventWeight) / 2 +
+    (pickupPressure - 30) * rmsSettings.pickupWeight +
+    occupancyPressure * 0.2
+
+  let recommendedPrice = currentPrice * (1 + weightedSignal / 100)
+
+  const horizonDate = date ? new Date(date) : new Date()
+  const daysAhead = Math.ceil((horizonDate.getTime() - asOf.getTime()) / (1000 * 3600 * 24))
+  const isWeekend = horizonDate.getDay() === 5 || horizonDate.getDay() === 6
+
+  const adjustments: CalendarAdjustment[] = []
+  if (isWeekend && daysAhead >= 2) {
+    adjustments.push({ label: 'weekend', pct: rmsSettings.weekendPremiumPct })
+  }
+  adjustments.push(...getCalendarAdjustments(rmsSettings.calendar, date, horizonDate.getDay(), input.holiday || ''))
+  if (daysAhead <= 3 && forecastOccupancy < rmsSettings.targetOccupancy - 10) {
+    adjustments.push({ label: 'last minute', pct: -rmsSettings.lastMinuteDiscountPct })
+  }
+  adjustments.forEach((adjustment) => {
+    recommendedPrice *= 1 + adjustment.pct / 100
+  })
+
+  if (rmsSettings.strategy === 'conservative') {
+    recommendedPrice = (recommendedPrice + currentPrice) / 2
+  }
+
+  if (rmsSettings.strategy === 'aggressive') {
+    recommendedPrice *= 1.03
+  }
+
+  const boundedRecommended = clamp(roundToStep(recommendedPrice, rmsSettings.priceStep), minBound, maxBound)
+
+  const changePct = currentPrice > 0 ? ((boundedRecommended - currentPrice) / currentPrice) * 100 : 0
+  const confidence = clamp(45 + Math.abs(weightedSignal) * 1.1 + (eventImpact > 0 ? 8 : 0) + (pickupPressure > 15 ? 5 : 0), 50, 98)
+
+  let reason = 'Maintien conseillé'
+  if (changePct >= 6) reason = 'Hausse forte: demande soutenue et potentiel marché'
+  else if (changePct >= 2) reason = 'Hausse modérée: positionnement sous marché'
+  else if (changePct <= -6) reason = 'Baisse forte: risque de sous-occupation'
+  else if (changePct <= -2) reason = 'Baisse tactique: stimulation pickup court terme'
+
+  const differentialText = priceFactor !== 1 ? ` Differentiel type de chambre: x${priceFactor.toFixed(2)} sur BAR, compset et bornes.` : ''
+  const formulaText =
+    `Tarif suggéré = arrondi(clamp(BAR × (1 + signal/100) × ajustements, ${Math.round(minBound)}..${Math.round(maxBound)}), pas ${rmsSettings.priceStep}). ` +
+    `Signal = (Demande-50)*${rmsSettings.demandWeight.toFixed(2)} + EcartCompset*${rmsSettings.competitorWeight.toFixed(2)} + ((Evenement-50)/2)*${rmsSettings.eventWeight.toFixed(2)} + (Pickup-30)*${rmsSettings.pickupWeight.toFixed(2)} + (OccPrevue-Cible)*0.20. ` +
+    `Ajustements: ${adjustments.length > 0 ? adjustments.map((adjustment) => `${adjustment.label} ${formatAdjustmentPct(adjustment.pct)}`).join(', ') : 'aucun'}. ` +
+    (forecast?.expectedCancellations ? `Annulations attendues deduites: ${forecast.expectedCancellations.toFixed(1)} ch. ` : '') +
+    `Valeurs du jour: signal=${weightedSignal.toFixed(2)}, demande=${demandIndex.toFixed(1)}, ecartCompset=${competitorGapPct.toFixed(1)}%, evenement=${eventImpact.toFixed(1)}, pickup=${pickupPressure.toFixed(1)}, occ=${occupancyOnBooks.toFixed(1)}%, occPrevue=${forecastOccupancy.toFixed(1)}% (${(forecast?.forecastOccupancyLow ?? forecastOccupancy).toFixed(0)}-${(forecast?.forecastOccupancyHigh ?? forecastOccupancy).toFixed(0)}%).` +
+    differentialText
+
+  return {
+    date,
+    occupancyOnBooks,
+    demandIndex,
+    competitorMedian,
+    eventImpact,
+    pickupRooms,
+    forecastRooms: forecast?.forecastRooms ?? input.roomsOnBooks,
+    forecastOccupancy,
+    forecastOccupancyLow: forecast?.forecastOccupancyLow ?? forecastOccupancy,
+    forecastOccupancyHigh: forecast?.forecastOccupancyHigh ?? forecastOccupancy,
+    unconstrainedOccupancy: forecast?.unconstrainedOccupancy ?? forecastOccupancy,
+    expectedPickupRooms: forecast?.expectedPickup ?? 0,
+    currentPrice,
+    recommendedPrice: boundedRecommended,
+    confidence,
+    reason,
+    formulaText,
+    shouldAutoApprove: Math.abs(changePct) <= rmsSettings.autoApproveThresholdPct,
+    engineVersion: RMS_ENGINE_VERSION
+  }
+}
+
+export interface MarketSignal {
+  date: string
+  currentPrice: number
+  competitorMedian: number
+  demandIndex: number
+  eventImpact: number
+  holiday: string
+}
+
+export const resolveRMSSettings = (settings?: Partial<RMSSettings>): RMSSettings => ({
+  ...defaultSettings,
+  ...(settings || {})
+})
+
+/** Strongest event impact (0-100) per stay date. */
+export const buildEventImpactByDate = (events: HotelEvent[]) => {
+  const map = new Map<string, number>()
+  events.forEach((event) => {
+    eachDateKey(event.startDate, event.endDate).forEach((key) => {
+      map.set(key, Math.max(map.get(key) || 0, event.impactPct))
+    })
+  })
+  return map
+}
+
+export const toMarketSignal = (day: MarketDay, eventImpactByDate: Map<string, number>): MarketSignal => {
+  const currentPrice = day.ownPrice ?? 0
+  const competitorMedian = day.compsetMedian ?? currentPrice
+  const demandIndex = day.marketDemand ?? 50
+  const eventImpactFromCalendar = eventImpactByDate.get(day.date) || 0
+  const eventImpact = Math.max(day.events ? 100 : 0, eventImpactFromCalendar)
+
+  return { date: day.date, currentPrice, competitorMedian, demandIndex, eventImpact, holiday: day.holidays }
+}
+
+/**
+ * Hotel-level decision for one stay date, from the confirmed reservations arriving
+ * that day. The backtest replays it with the reservations known at a cut-off.
+ */
+export const computeDailyDecision = (
+  day: MarketSignal,
+  arrivalReservations: Reservation[],
+  rmsSettings: RMSSettings,
+  forecast?: DecisionForecast,
+  asOf: Date = new Date()
+): RMSDailyDecision => {
+  const roomsOnBooks = arrivalReservations.reduce((sum, reservation) => sum + reservation.rooms, 0)
+  const pickupRooms = arrivalReservations
+    .filter((reservation) => isRecentPurchase(reservation, 2, asOf))
+    .reduce((sum, reservation) => sum + reservation.rooms, 0)
+
+  return computeDecision({
+    ...day,
+    roomsOnBooks,
+    pickupRooms,
+    capacity: rmsSettings.hotelCapacity,
+    priceFactor: 1,
+    forecast,
+    asOf,
+  }, rmsSettings)
+}
+
+export const toSuggestion = (decision: RMSDailyDecision): PricingSuggestion => {
+  const change = decision.recommendedPrice - decision.currentPrice
+  const changePercent = decision.currentPrice > 0 ? (change / decision.currentPrice) * 100 : 0
+
+  return {
+    date: decision.date,
+    currentPrice: Math.round(decision.currentPrice),
+    suggestedPrice: Math.round(decision.recommendedPrice),
+    change: Math.round(change),
+    changePercent: Math.round(changePercent * 10) / 10,
+    reason: decision.reason,
+    formulaText: decision.formulaText,
+    confidence: Math.round(decision.confidence),
+    shouldAutoApprove: decision.shouldAutoApprove,
+    engineVersion: decision.engineVersion
+  }
+}
+
+
+export interface RmsEngineInput {
+  reservations: Reservation[]
+  inventory: InventoryDay[]
+  apercu: MarketDay[]
+  settings?: Partial<RMSSettings>
+  events?: HotelEvent[]
+  historicalReservations?: Reservation[]
+  // Partner commissions of the hotel, for the net ADR and RevPAR.
+  channelCommissions?: ChannelCommission[]
+  // Day the engine runs as of; defaults to now.
+  asOf?: Date
+}
+
+export interface RmsEngineOutput {
+  engineVersion: string
+  rmsSettings: RMSSettings
+  kpis: KPIData
+  pricingSuggestions: PricingSuggestion[]
+  dailyDecisions: RMSDailyDecision[]
+  roomTypes: string[]
+  roomTypeDecisions: RMSRoomTypeDecision[]
+  roomTypeSuggestions: RoomTypePricingSuggestion[]
+  alerts: string[]
+}
+
+export const getConfirmedReservations = (reservations: Reservation[]) =>
+  reservations.filter((reservation) => !reservation.isCancelled)
+
+export const groupReservationsByArrivalDate = (reservations: Reservation[]) => {
+  const map = new Map<string, Reservation[]>()
+  reservations.forEach((reservation) => {
+    const list = map.get(reservation.arrivalDate) || []
+    list.push(reservation)
+    map.set(reservation.arrivalDate, list)
+  })
+  return map
+}
+
+const collectStayDates = (inventory: InventoryDay[], apercu: MarketDay[]) => {
+  const stayDates = new Set<string>()
+  inventory.forEach((day) => stayDates.add(day.date))
+  apercu.forEach((day) => stayDates.add(day.date))
+  return Array.from(stayDates).sort()
+}
+
+/**
+ * Rooms expected to cancel before arrival per stay date, with cancellation rates
+ * learnt on the historical reservations. Empty unless netExpectedCancellations is on.
+ */
+export const buildExpectedCancellationsByDate = (
+  reservations: Reservation[],
+  historicalReservations: Reservation[],
+  inventory: InventoryDay[],
+  apercu: MarketDay[],
+  rmsSettings: RMSSettings,
+  asOf: Date = new Date()
+) => {
+  if (!rmsSettings.netExpectedCancellations) return new Map<string, number>()
+  const model = buildAttritionModel(historicalReservations, asOf)
+  return new Map(
+    forecastCancellations(collectStayDates(inventory, apercu), reservations, model, asOf)
+      .map((day) => [day.date, day.expectedCancelledRooms])
+  )
+}
+
+/** Demand forecast for every stay date seen in the inventory or the market extract. */
+export const buildForecastByDate = (
+  reservations: Reservation[],
+  historicalReservations: Reservation[],
+  inventory: InventoryDay[],
+  apercu: MarketDay[],
+  capacity: number,
+  eventImpactByDate: Map<string, number>,
+  expectedCancellationsByDate: Map<string, number> = new Map(),
+  asOf: Date = new Date()
+) =>
+  buildDemandForecast(reservations, historicalReservations, collectStayDates(inventory, apercu), {
+    capacity,
+    eventImpactByDate,
+    expectedCancellationsByDate,
+    asOf,
+  })
+
+export const computeKpis = (
+  confirmedReservations: Reservation[],
+  inventory: InventoryDay[],
+  apercu: MarketDay[],
+  forecastByDate: Map<string, DemandForecastDay>,
+  rmsSettings: RMSSettings,
+  channelCommissions: ChannelCommission[] = [],
+  asOf: Date = new Date()
+): KPIData => {
+  const uniqueAvailabilityDates = new Set(inventory.map((day) => day.date))
+  const dayCount = Math.max(uniqueAvailabilityDates.size, apercu.length, 1)
+  const totalRoomsCapacity = rmsSettings.hotelCapacity * dayCount
+
+  const occupiedRooms = confirmedReservations.reduce((sum, reservation) => sum + reservation.rooms, 0)
+  const totalRevenue = confirmedReservations.reduce((sum, reservation) => sum + reservation.totalAmount, 0)
+
+  const remainingRoomsFromAvailability = inventory.reduce((sum, day) => sum + (day.available ?? 0), 0)
+  const availableRooms = remainingRoomsFromAvailability > 0
+    ? remainingRoomsFromAvailability
+    : Math.max(0, totalRoomsCapacity - occupiedRooms)
+
+  const occupancyRate = totalRoomsCapacity > 0 ? (occupiedRooms / totalRoomsCapacity) * 100 : 0
+  const adr = occupiedRooms > 0 ? totalRevenue / occupiedRooms : 0
+  const revpar = totalRoomsCapacity > 0 ? totalRevenue / totalRoomsCapacity : 0
+  const getNetAmount = createNetAmountLookup(channelCommissions)
+  const netRevenue = confirmedReservations.reduce((sum, reservation) => sum + getNetAmount(reservation), 0)
+
+  const recentReservations = confirmedReservations.filter((reservation) => isRecentPurchase(reservation, 7, asOf))
+  const pickupRooms = recentReservations.reduce((sum, reservation) => sum + reservation.rooms, 0)
+  const pickupRevenue = recentReservations.reduce((sum, reservation) => sum + reservation.totalAmount, 0)
+
+  const forecasts = Array.from(forecastByDate.values())
+  const forecastCapacity = rmsSettings.hotelCapacity * forecasts.length
+  const sumForecast = (key: 'forecastRooms' | 'forecastLow' | 'forecastHigh') =>
+    forecasts.reduce((sum, day) => sum + day[key], 0)
+  const toProjected = (rooms: number) =>
+    forecastCapacity > 0 ? clamp((rooms / forecastCapacity) * 100, 0, 100) : occupancyRate
+
+  return {
+    occupancyRate,
+    adr,
+    revpar,
+    netAdr: occupiedRooms > 0 ? netRevenue / occupiedRooms : 0,
+    netRevpar: totalRoomsCapacity > 0 ? netRevenue / totalRoomsCapacity : 0,
+    pickupRooms,
+    pickupRevenue,
+    totalRooms: totalRoomsCapacity,
+    occupiedRooms,
+    availableRooms,
+    projectedOccupancy: toProjected(sumForecast('forecastRooms')),
+    projectedOccupancyLow: toProjected(sumForecast('forecastLow')),
+    projectedOccupancyHigh: toProjected(sumForecast('forecastHigh'))
+  }
+}
+
+export const computeDailyDecisions = (
+  marketDays: MarketSignal[],
+  reservationsByArrivalDate: Map<string, Reservation[]>,
+  forecastByDate: Map<string, DemandForecastDay>,
+  rmsSettings: RMSSettings,
+  asOf: Date = new Date()
+): RMSDailyDecision[] =>
+  marketDays.map((day) =>
+    computeDailyDecision(day, reservationsByArrivalDate.get(day.date) || [], rmsSettings, forecastByDate.get(day.date), asOf)
+  )
+
+/** Base room type, configured room types and inventory room types, deduplicated on their normalised name. */
+export const collectRoomTypes = (inventory: InventoryDay[], rmsSettings: RMSSettings) => {
+  const byToken = new Map<string, string>()
+  const add = (roomType: string | null | undefined) => {
+    const label = (roomType || '').trim()
+    if (label && !byToken.has(normalizeKey(label))) byToken.set(normalizeKey(label), label)
+  }
+  add(rmsSettings.baseRoomType)
+  Object.keys(rmsSettings.roomTypeCapacities || {}).forEach(add)
+  inventory.forEach((day) => add(day.roomType))
+  return Array.from(byToken.values()).sort((a, b) => a.localeCompare(b))
+}
+
+/**
+ * Differential (%) of a room type against the base BAR, matched on the normalised name;
+ * 0 for the base room type and for room types without a configured differential.
+ */
+export const createRoomTypeDifferentialLookup = (rmsSettings: Pick<RMSSettings, 'baseRoomType' | 'roomTypeDifferentials'>) => {
+  const differentialByToken = new Map<string, number>()
+  Object.entries(rmsSettings.roomTypeDifferentials || {}).forEach(([roomType, pct]) => {
+    differentialByToken.set(normalizeKey(roomType), pct)
+  })
+  const baseToken = normalizeKey(rmsSettings.baseRoomType)
+  return (roomType: string | null | undefined) => {
+    const token = normalizeKey(roomType || '')
+    return token === baseToken ? 0 : (differentialByToken.get(token) ?? 0)
+  }
+}
+
+export const computeRoomTypeDecisions = (
+  marketDays: MarketSignal[],
+  roomTypes: string[],
+  confirmedReservations: Reservation[],
+  inventory: InventoryDay[],
+  forecastByDate: Map<string, DemandForecastDay>,
+  rmsSettings: RMSSettings,
+  asOf: Date = new Date()
+): RMSRoomTypeDecision[] => {
+  if (!marketDays.length || !roomTypes.length) return []
+
+  const availabilityByTypeDate = new Map<string, number>()
+  inventory.forEach((day) => {
+    const key = `${normalizeKey(day.roomType || '')}|${day.date}`
+    availabilityByTypeDate.set(key, (availabilityByTypeDate.get(key) ?? 0) + (day.available ?? 0))
+  })
+
+  // Rooms on books per type and stay night (not only the arrival night), plus the last 2 days of pickup.
+  const onBooksByTypeDate = new Map<string, { rooms: number; pickup: number }>()
+  confirmedReservations.forEach((reservation) => {
+    const roomTypeToken = normalizeKey(reservation.roomType)
+    const arrival = parseDate(reservation.arrivalDate)
+    if (!roomTypeToken || !arrival) return
+
+    const recent = isRecentPurchase(reservation, 2, asOf)
+    for (let i = 0; i < reservation.nights; i += 1) {
+      const stay = new Date(arrival)
+      stay.setDate(arrival.getDate() + i)
+      const key = `${roomTypeToken}|${toDateKey(stay)}`
+      const current = onBooksByTypeDate.get(key) || { rooms: 0, pickup: 0 }
+      current.rooms += reservation.rooms
+      if (recent) current.pickup += reservation.rooms
+      onBooksByTypeDate.set(key, current)
+    }
+  })
+
+  const capacityByToken = new Map<string, number>()
+  Object.entries(rmsSettings.roomTypeCapacities || {}).forEach(([roomType, count]) => {
+    capacityByToken.set(normalizeKey(roomType), count)
+  })
+  const getDifferentialPct = createRoomTypeDifferentialLookup(rmsSettings)
+
+  const decisions: RMSRoomTypeDecision[] = []
+  roomTypes.forEach((roomType) => {
+    const token = normalizeKey(roomType)
+    const differentialPct = getDifferentialPct(roomType)
+
+    marketDays.forEach((day) => {
+      const onBooks = onBooksByTypeDate.get(`${token}|${day.date}`) || { rooms: 0, pickup: 0 }
+      const available = availabilityByTypeDate.get(`${token}|${day.date}`)
+      const capacity = capacityByToken.get(token) || (available !== undefined ? available + onBooks.rooms : 0)
+      if (capacity <= 0) return
+
+      // The hotel-level forecast pickup is shared out by inventory weight.
+      const hotelForecast = forecastByDate.get(day.date)
+      const share = capacity / Math.max(1, rmsSettings.hotelCapacity)
+      const expectedPickup = (hotelForecast?.expectedPickup ?? 0) * share
+      const spread = hotelForecast ? (hotelForecast.forecastHigh - hotelForecast.forecastRooms) * share : 0
+      const unconstrainedRooms = onBooks.rooms + expectedPickup
+      const forecastRooms = Math.min(capacity, unconstrainedRooms)
+
+      decisions.push({
+        ...computeDecision({
+          ...day,
+          roomsOnBooks: onBooks.rooms,
+          pickupRooms: onBooks.pickup,
+          capacity,
+          priceFactor: 1 + differentialPct / 100,
+          forecast: {
+            expectedPickup,
+            unconstrainedOccupancy: (unconstrainedRooms / capacity) * 100,
+            forecastRooms,
+            forecastOccupancy: (forecastRooms / capacity) * 100,
+            forecastOccupancyLow: (Math.min(capacity, Math.max(onBooks.rooms, unconstrainedRooms - spread)) / capacity) * 100,
+            forecastOccupancyHigh: (Math.min(capacity, unconstrainedRooms + spread) / capacity) * 100,
+          },
+          asOf,
+        }, rmsSettings),
+        roomType,
+        capacity,
+        roomsOnBooks: onBooks.rooms,
+        differentialPct,
+      })
+    })
+  })
+
+  return decisions
+}
+
+// Unchanged prices are not suggested.
+export const toPricingSuggestions = (decisions: RMSDailyDecision[]): PricingSuggestion[] =>
+  decisions.map(toSuggestion).filter((suggestion) => suggestion.change !== 0)
+
+export const toRoomTypeSuggestions = (decisions: RMSRoomTypeDecision[]): RoomTypePricingSuggestion[] =>
+  decisions
+    .map((decision) => ({ ...toSuggestion(decision), roomType: decision.roomType }))
+    .filter((suggestion) => suggestion.change !== 0)
+
+export const buildRmsAlerts = (kpis: KPIData, rmsSettings: RMSSettings) => {
+  const messages: string[] = []
+
+  if (kpis.occupancyRate < rmsSettings.targetOccupancy - 15) {
+    messages.push('Occupation en dessous de la cible: activer une stratégie de stimulation.')
+  }
+  if (kpis.adr < rmsSettings.minAdr) {
+    messages.push('ADR inférieur au plancher stratégique défini.')
+  }
+  if (kpis.projectedOccupancy > 92) {
+    messages.push('Pression d’occupation élevée: opportunité de hausse tarifaire.')
+  }
+
+  return messages
+}
+
+/**
+ * Runs the whole engine in one pass, outside React (scripts, workers, tests).
+ * useRMSCalculations chains the same steps with one memo per step.
+ */
+export const runRmsEngine = ({
+  reservations,
+  inventory,
+  apercu,
+  settings,
+  events = [],
+  historicalReservations = [],
+  channelCommissions = [],
+  asOf = new Date()
+}: RmsEngineInput): RmsEngineOutput => {
+  const rmsSettings = resolveRMSSettings(settings)
+  const confirmedReservations = getConfirmedReservations(reservations)
+  const eventImpactByDate = buildEventImpactByDate(events)
+  const forecastByDate = buildForecastByDate(
+    reservations,
+    historicalReservations,
+    inventory,
+    apercu,
+    rmsSettings.hotelCapacity,
+    eventImpactByDate,
+    buildExpectedCancellationsByDate(reservations, historicalReservations, inventory, apercu, rmsSettings, asOf),
+    asOf
+  )
+  const marketDays = apercu.map((day) => toMarketSignal(day, eventImpactByDate))
+  const kpis = computeKpis(confirmedReservations, inventory, apercu, forecastByDate, rmsSettings, channelCommissions, asOf)
+  const dailyDecisions = computeDailyDecisions(
+    marketDays,
+    groupReservationsByArrivalDate(confirmedReservations),
+    forecastByDate,
+    rmsSettings,
+    asOf
+  )
+  const roomTypes = collectRoomTypes(inventory, rmsSettings)
+  const roomTypeDecisions = computeRoomTypeDecisions(
+    marketDays,
+    roomTypes,
+    confirmedReservations,
+    inventory,
+    forecastByDate,
+    rmsSettings,
+    asOf
+  )
+
+  return {
+    engineVersion: RMS_ENGINE_VERSION,
+    rmsSettings,
+    kpis,
+    pricingSuggestions: toPricingSuggestions(dailyDecisions),
+    dailyDecisions,
+    roomTypes,
+    roomTypeDecisions,
+    roomTypeSuggestions: toRoomTypeSuggestions(roomTypeDecisions),
+    alerts: buildRmsAlerts(kpis, rmsSettings)
+  }
+}
@@ -0,0 +1,112 @@
+import type { RMSSettings } from '../hooks/useDashboardConfig'
+import { WEEKDAY_LABELS, formatAdjustmentPct, type PricingCalendarSettings } from './pricingCalendar'
+import type { RMSDailyDecision } from './rmsEngine'
+
+export interface ScenarioDay {
+  date: string
+  currentPrice: number
+  forecastRooms: number
+  livePrice: number
+  scenarioPrice: number
+  move: number
+  movePct: number
+}
+
+export interface ScenarioSummary {
+  days: ScenarioDay[]
+  changedDays: number
+  averageMove: number
+  averageAbsoluteMove: number
+  averageMovePct: number
+  liveRevenue: number
+  scenarioRevenue: number
+  revenueImpact: number
+  revenueImpactPct: number
+}
+
+// Settings a scenario simulates and promotes; the rest of RMSSettings (room types, rate plans,
+// overbooking, capacities) always stays the live one.
+export const SCENARIO_SETTING_LABELS: Array<{ key: keyof RMSSettings; label: string; suffix?: string }> = [
+  { key: 'strategy', label: 'Strategie' },
+  { key: 'targetOccupancy', label: 'Objectif occupation', suffix: '%' },
+  { key: 'demandWeight', label: 'Poids demande' },
+  { key: 'competitorWeight', label: 'Poids concurrence' },
+  { key: 'eventWeight', label: 'Poids evenements' },
+  { key: 'pickupWeight', label: 'Poids pickup' },
+  { key: 'weekendPremiumPct', label: 'Premium weekend', suffix: '%' },
+  { key: 'lastMinuteDiscountPct', label: 'Discount last minute', suffix: '%' },
+  { key: 'minPrice', label: 'Prix min' },
+  { key: 'maxPrice', label: 'Prix max' },
+  { key: 'priceStep', label: 'Pas de recommandation' },
+  { key: 'calendar', label: 'Calendrier tarifaire' },
+]
+
+/** Short description of a pricing calendar for the comparison table. */
+export const describePricingCalendar = (calendar: PricingCalendarSettings) => {
+  const weekdays = calendar.weekdayAdjustmentsPct
+    .map((pct, weekday) => (pct !== 0 ? `${WEEKDAY_LABELS[weekday].slice(0, 3).toLowerCase()} ${formatAdjustmentPct(pct)}` : ''))
+    .filter(Boolean)
+  const parts = [
+    ...weekdays,
+    calendar.seasons.length > 0 ? `${calendar.seasons.length} saison${calendar.seasons.length > 1 ? 's' : ''}` : '',
+    calendar.holidayAdjustmentPct !== 0 ? `feries ${formatAdjustmentPct(calendar.holidayAdjustmentPct)}` : '',
+  ].filter(Boolean)
+  return parts.length > 0 ? parts.join(', ') : 'Aucun ajustement'
+}
+
+/**
+ * Date-by-date comparison of the live recommendations with a scenario run over
+ * the same data. Revenue is forecast rooms x recommended price on each side:
+ * the forecast does not react to price, so the impact reflects the rate change
+ * only, without any demand response.
+ */
+export const compareScenarioDecisions = (live: RMSDailyDecision[], scenario: RMSDailyDecision[]): ScenarioSummary => {
+  const scenarioByDate = new Map(scenario.map((decision) => [decision.date, decision]))
+
+  const days: ScenarioDay[] = live.flatMap((liveDecision) => {
+    const scenarioDecision = scenarioByDate.get(liveDecision.date)
+    if (!scenarioDecision) return []
+    const move = scenarioDecision.recommendedPrice - liveDecision.recommendedPrice
+    return [{
+      date: liveDecision.date,
+      currentPrice: liveDecision.currentPrice,
+      forecastRooms: scenarioDecision.forecastRooms,
+      livePrice: liveDecision.recommendedPrice,
+      scenarioPrice: scenarioDecision.recommendedPrice,
+      move,
+      movePct: liveDecision.recommendedPrice > 0 ? (move / liveDecision.recommendedPrice) * 100 : 0,
+    }]
+  })
+
+  const changed = days.filter((day) => Math.round(day.move) !== 0)
+  const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0)
+  const liveRevenue = live.reduce((sum, decision) => (scenarioByDate.has(decision.date) ? sum + decision.forecastRooms * decision.recommendedPrice : sum), 0)
+  const scenarioRevenue = days.reduce((sum, day) => sum + day.forecastRooms * day.scenarioPrice, 0)
+  const revenueImpact = scenarioRevenue - liveRevenue
+
+  return {
+    days,
+    changedDays: changed.length,
+    averageMove: average(changed.map((day) => day.move)),
+    averageAbsoluteMove: average(changed.map((day) => Math.abs(day.move))),
+    averageMovePct: average(changed.map((day) => day.movePct)),
+    liveRevenue,
+    scenarioRevenue,
+    revenueImpact,
+    revenueImpactPct: liveRevenue > 0 ? (revenueImpact / liveRevenue) * 100 : 0,
+  }
+}
+
+/** Names of the simulated settings that differ from the live ones. */
+export const getChangedScenarioSettings = (live: RMSSettings, scenario: RMSSettings) =>
+  SCENARIO_SETTING_LABELS.filter(({ key }) => JSON.stringify(live[key]) !== JSON.stringify(scenario[key])).map(({ label }) => label)
+
+/**
+ * Live settings with the simulated ones of a scenario applied. Scenarios saved
+ * before a setting was simulated keep the live value for it.
+ */
+export const applyScenarioSettings = (live: RMSSettings, scenario: RMSSettings): RMSSettings =>
+  SCENARIO_SETTING_LABELS.reduce<RMSSettings>(
+    (settings, { key }) => (scenario[key] === undefined ? settings : { ...settings, [key]: scenario[key] }),
+    live
+  )
@@ -0,0 +1,156 @@
+import type { Reservation } from '../types/domain'
+import { parseDate } from './normalization'
+
+export type SegmentDimension = 'channel' | 'country' | 'roomType' | 'bookingWindow'
+
+export interface SegmentMetrics {
+  bookings: number
+  revenue: number
+  roomNights: number
+  stayNights: number
+  adr: number
+  alos: number
+}
+
+export interface SegmentComparisonRow {
+  segment: string
+  current: SegmentMetrics
+  lastYear: SegmentMetrics
+  previous: SegmentMetrics
+  revenueShare: number
+  revenueVsLastYearPct: number | null
+  revenueVsPreviousPct: number | null
+  roomNightsVsLastYearPct: number | null
+  roomNightsVsPreviousPct: number | null
+  adrVsLastYear: number
+  adrVsPrevious: number
+}
+
+export const SEGMENT_DIMENSION_LABELS: Record<SegmentDimension, string> = {
+  channel: 'Canal',
+  country: 'Pays',
+  roomType: 'Type de chambre',
+  bookingWindow: 'Fenetre de reservation',
+}
+
+const BOOKING_WINDOWS: Array<{ label: string; maxDays: number }> = [
+  { label: 'J-0 a J-1', maxDays: 1 },
+  { label: 'J-2 a J-7', maxDays: 7 },
+  { label: 'J-8 a J-14', maxDays: 14 },
+  { label: 'J-15 a J-30', maxDays: 30 },
+  { label: 'J-31 a J-60', maxDays: 60 },
+  { label: 'J-61 a J-90', maxDays: 90 },
+  { label: 'J-91 et plus', maxDays: Number.POSITIVE_INFINITY },
+]
+
+export const UNKNOWN_SEGMENT = 'Non défini'
+
+const emptyMetrics = (): SegmentMetrics => ({ bookings: 0, revenue: 0, roomNights: 0, stayNights: 0, adr: 0, alos: 0 })
+
+const getBookingWindowLabel = (reservation: Reservation): string => {
+  const arrival = parseDate(reservation.arrivalDate)
+  const purchase = parseDate(reservation.purchaseDate)
+  if (!arrival || !purchase) return UNKNOWN_SEGMENT
+
+  const leadDays = Math.max(0, Math.round((arrival.getTime() - purchase.getTime()) / 86400000))
+  return BOOKING_WINDOWS.find((window) => leadDays <= window.maxDays)?.label || UNKNOWN_SEGMENT
+}
+
+export const getSegmentKey = (reservation: Reservation, dimension: SegmentDimension): string => {
+  switch (dimension) {
+    case 'channel':
+      return reservation.origin || reservation.originType || UNKNOWN_SEGMENT
+    case 'country':
+      return reservation.country.toUpperCase() || UNKNOWN_SEGMENT
+    case 'roomType':
+      return reservation.roomType || UNKNOWN_SEGMENT
+    case 'bookingWindow':
+      return getBookingWindowLabel(reservation)
+  }
+}
+
+/** Cancelled reservations are left out: segments describe the business actually on the books. */
+export const aggregateSegments = (reservations: Reservation[], dimension: SegmentDimension): Map<string, SegmentMetrics> => {
+  const map = new Map<string, SegmentMetrics>()
+
+  reservations.forEach((reservation) => {
+    if (reservation.isCancelled) return
+
+    const key = getSegmentKey(reservation, dimension)
+    const current = map.get(key) || emptyMetrics()
+
+    current.bookings += 1
+    current.revenue += reservation.totalAmount
+    current.roomNights += reservation.nights * reservation.rooms
+    current.stayNights += reservation.nights
+    map.set(key, current)
+  })
+
+  map.forEach((metrics) => {
+    metrics.adr = metrics.roomNights > 0 ? metrics.revenue / metrics.roomNights : 0
+    metrics.alos = metrics.bookings > 0 ? metrics.stayNights / metrics.bookings : 0
+  })
+
+  return map
+}
+
+const pctChange = (current: number, reference: number): number | null => {
+  if (reference === 0) return null
+  return ((current - reference) / reference) * 100
+}
+
+export const bookingWindowOrder = (segment: string) => {
+  const index = BOOKING_WINDOWS.findIndex((window) => window.label === segment)
+  return index === -1 ? BOOKING_WINDOWS.length : index
+}
+
+export const buildSegmentComparison = (
+  currentRows: Reservation[],
+  lastYearRows: Reservation[],
+  previousRows: Reservation[],
+  dimension: SegmentDimension
+): SegmentComparisonRow[] => {
+  const current = aggregateSegments(currentRows, dimension)
+  const lastYear = aggregateSegments(lastYearRows, dimension)
+  const previous = aggregateSegments(previousRows, dimension)
+  const totalRevenue = Array.from(current.values()).reduce((sum, metrics) => sum + metrics.revenue, 0)
+  const segments = Array.from(new Set([...current.keys(), ...lastYear.keys(), ...previous.keys()]))
+
+  const rows = segments.map((segment) => {
+    const cur = current.get(segment) || emptyMetrics()
+    const ly = lastYear.get(segment) || emptyMetrics()
+    const prev = previous.get(segment) || emptyMetrics()
+
+    return {
+      segment,
+      current: cur,
+      lastYear: ly,
+      previous: prev,
+      revenueShare: totalRevenue > 0 ? (cur.revenue / totalRevenue) * 100 : 0,
+      revenueVsLastYearPct: pctChange(cur.revenue, ly.revenue),
+      revenueVsPreviousPct: pctChange(cur.revenue, prev.revenue),
+      roomNightsVsLastYearPct: pctChange(cur.roomNights, ly.roomNights),
+      roomNightsVsPreviousPct: pctChange(cur.roomNights, prev.roomNights),
+      adrVsLastYear: cur.adr - ly.adr,
+      adrVsPrevious: cur.adr - prev.adr,
+    }
+  })
+
+  if (dimension === 'bookingWindow') {
+    return rows.sort((a, b) => bookingWindowOrder(a.segment) - bookingWindowOrder(b.segment))
+  }
+  return rows.sort((a, b) => b.current.revenue - a.current.revenue || b.lastYear.revenue - a.lastYear.revenue)
+}
+
+export const summarizeSegments = (rows: Reservation[]): SegmentMetrics => {
+  const totals = emptyMetrics()
+  aggregateSegments(rows, 'channel').forEach((metrics) => {
+    totals.bookings += metrics.bookings
+    totals.revenue += metrics.revenue
+    totals.roomNights += metrics.roomNights
+    totals.stayNights += metrics.stayNights
+  })
+  totals.adr = totals.roomNights > 0 ? totals.revenue / totals.roomNights : 0
+  totals.alos = totals.bookings > 0 ? totals.stayNights / totals.bookings : 0
+  return totals
+}
@@ -0,0 +1,170 @@
+export interface ParsedSheet {
+  headers: string[]
+  rows: string[][]
+}
+
+const decodeText = (buffer: ArrayBuffer) => {
+  // Extracts come either as UTF-8 or as Excel's Windows-1252 CSV export.
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer)
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer)
+  }
+}
+
+const detectDelimiter = (text: string) => {
+  const firstLine = text.slice(0, text.search(/\r?\n/) === -1 ? text.length : text.search(/\r?\n/))
+  const counts = [';', ',', '\t'].map((delimiter) => ({
+    delimiter,
+    count: firstLine.split('"').filter((_, index) => index % 2 === 0).join('').split(delimiter).length - 1,
+  }))
+  counts.sort((a, b) => b.count - a.count)
+  return counts[0].count > 0 ? counts[0].delimiter : ';'
+}
+
+export const parseCsv = (input: string): ParsedSheet => {
+  const text = input.replace(/^\uFEFF/, '')
+  const delimiter = detectDelimiter(text)
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i]
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i += 1
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      record.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i += 1
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  const nonEmpty = records.filter((row) => row.some((cell) => cell.trim() !== ''))
+  const [headers = [], ...rows] = nonEmpty
+  return { headers: headers.map((header) => header.trim()), rows }
+}
+
+const readZipEntries = async (buffer: ArrayBuffer) => {
+  const view = new DataView(buffer)
+  let eocd = -1
+  for (let offset = buffer.byteLength - 22; offset >= Math.max(0, buffer.byteLength - 65557); offset -= 1) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      eocd = offset
+      break
+    }
+  }
+  if (eocd === -1) throw new Error('Fichier XLSX invalide (archive zip illisible)')
+
+  const entryCount = view.getUint16(eocd + 10, true)
+  let cursor = view.getUint32(eocd + 16, true)
+  const entries = new Map<string, () => Promise<string>>()
+  const nameDecoder = new TextDecoder('utf-8')
+
+  for (let i = 0; i < entryCount; i += 1) {
+    if (view.getUint32(cursor, true) !== 0x02014b50) break
+    const method = view.getUint16(cursor + 10, true)
+    const compressedSize = view.getUint32(cursor + 20, true)
+    const nameLength = view.getUint16(cursor + 28, true)
+    const extraLength = view.getUint16(cursor + 30, true)
+    const commentLength = view.getUint16(cursor + 32, true)
+    const localOffset = view.getUint32(cursor + 42, true)
+    const name = nameDecoder.decode(new Uint8Array(buffer, cursor + 46, nameLength))
+
+    entries.set(name, async () => {
+      const localNameLength = view.getUint16(localOffset + 26, true)
+      const localExtraLength = view.getUint16(localOffset + 28, true)
+      const start = localOffset + 30 + localNameLength + localExtraLength
+      const data = new Uint8Array(buffer, start, compressedSize)
+      if (method === 0) return nameDecoder.decode(data)
+      if (method !== 8) throw new Error(`Compression zip non supportee (${method})`)
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+      return new Response(stream).text()
+    })
+
+    cursor += 46 + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
+
+const columnIndex = (cellRef: string) => {
+  const letters = cellRef.replace(/[^A-Z]/gi, '').toUpperCase()
+  return letters.split('').reduce((acc, letter) => acc * 26 + (letter.charCodeAt(0) - 64), 0) - 1
+}
+
+/** Reads the first worksheet of an .xlsx file. Dates stay Excel serial numbers. */
+export const parseXlsx = async (buffer: ArrayBuffer): Promise<ParsedSheet> => {
+  const entries = await readZipEntries(buffer)
+  const parser = new DOMParser()
+  const readXml = async (path: string) => {
+    const reader = entries.get(path)
+    return reader ? parser.parseFromString(await reader(), 'application/xml') : null
+  }
+
+  const sharedStrings = Array.from((await readXml('xl/sharedStrings.xml'))?.getElementsByTagName('si') || []).map((node) =>
+    Array.from(node.getElementsByTagName('t')).map((t) => t.textContent || '').join('')
+  )
+
+  const workbook = await readXml('xl/workbook.xml')
+  const rels = await readXml('xl/_rels/workbook.xml.rels')
+  const firstSheetRelId = workbook?.getElementsByTagName('sheet')[0]?.getAttribute('r:id')
+  const target = Array.from(rels?.getElementsByTagName('Relationship') || [])
+    .find((rel) => rel.getAttribute('Id') === firstSheetRelId)
+    ?.getAttribute('Target')
+  const sheetPath = target ? `xl/${target.replace(/^\/?xl\//, '')}` : 'xl/worksheets/sheet1.xml'
+
+  const sheet = await readXml(sheetPath)
+  if (!sheet) throw new Error('Aucune feuille trouvee dans le fichier XLSX')
+
+  const matrix = Array.from(sheet.getElementsByTagName('row')).map((rowNode) => {
+    const cells: string[] = []
+    Array.from(rowNode.getElementsByTagName('c')).forEach((cellNode, position) => {
+      const ref = cellNode.getAttribute('r')
+      const index = ref ? columnIndex(ref) : position
+      const type = cellNode.getAttribute('t')
+      const raw = cellNode.getElementsByTagName('v')[0]?.textContent ?? ''
+      let value = raw
+      if (type === 's') value = sharedStrings[Number(raw)] ?? ''
+      if (type === 'inlineStr') value = Array.from(cellNode.getElementsByTagName('t')).map((t) => t.textContent || '').join('')
+      cells[index] = value
+    })
+    return Array.from(cells, (cell) => cell ?? '')
+  })
+
+  const nonEmpty = matrix.filter((row) => row.some((cell) => cell.trim() !== ''))
+  const [headers = [], ...rows] = nonEmpty
+  return { headers: headers.map((header) => header.trim()), rows }
+}
+
+export const readSpreadsheetFile = async (file: File): Promise<ParsedSheet> => {
+  const buffer = await file.arrayBuffer()
+  if (/\.xlsx$/i.test(file.name)) return parseXlsx(buffer)
+  if (/\.xls$/i.test(file.name)) throw new Error('Format .xls non supporte : enregistrez le fichier en .xlsx ou .csv')
+  return parseCsv(decodeText(buffer))
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import type { RMSDailyDecision } from './rmsEngine'
+import { describeStayRestriction, recommendStayRestrictions } from './stayRestrictions'
+import { makeReservation } from './__fixtures__/rmsEngine'
+
+const WEDNESDAY = '2026-03-11'
+const THURSDAY = '2026-03-12'
+const FRIDAY = '2026-03-13'
+const SATURDAY = '2026-03-14'
+const SUNDAY = '2026-03-15'
+
+const SETTINGS = { hotelCapacity: 100, targetOccupancy: 80 }
+
+const makeDecision = (date: string, forecastOccupancy: number, unconstrainedOccupancy = forecastOccupancy): RMSDailyDecision => ({
+  date,
+  occupancyOnBooks: forecastOccupancy,
+  demandIndex: 50,
+  competitorMedian: 150,
+  eventImpact: 0,
+  pickupRooms: 0,
+  forecastRooms: forecastOccupancy,
+  forecastOccupancy,
+  forecastOccupancyLow: forecastOccupancy,
+  forecastOccupancyHigh: forecastOccupancy,
+  unconstrainedOccupancy,
+  expectedPickupRooms: 0,
+  currentPrice: 150,
+  recommendedPrice: 150,
+  confidence: 80,
+  reason: '',
+  formulaText: '',
+  shouldAutoApprove: false,
+  engineVersion: 'test',
+})
+
+const stays = (count: number, arrivalDate: string, nights: number) =>
+  Array.from({ length: count }, (_, index) => makeReservation({ id: `${arrivalDate}-${nights}-${index}`, arrivalDate, nights }))
+
+describe('recommendStayRestrictions', () => {
+  it('sets MinLOS 2 on a peak night followed by a soft shoulder when one-night stays dominate', () => {
+    const decisions = [makeDecision(FRIDAY, 60), makeDecision(SATURDAY, 100, 105), makeDecision(SUNDAY, 50)]
+    const restrictions = recommendStayRestrictions(decisions, [...stays(6, SATURDAY, 1), ...stays(4, FRIDAY, 2)], SETTINGS)
+
+    expect(restrictions).toHaveLength(1)
+    expect(restrictions[0]).toMatchObject({ date: SATURDAY, minLos: 2, closedToArrival: false, closedToDeparture: false, protectedRooms: 50 })
+    expect(restrictions[0].reasons[0]).toContain(`nuit creuse le ${SUNDAY}`)
+    expect(restrictions[0].reasons[0]).toContain('60% des reservations de la nuit sont d\'une nuit')
+  })
+
+  it('closes departures on the soft night after a two-night peak', () => {
+    const decisions = [makeDecision(FRIDAY, 100, 104), makeDecision(SATURDAY, 100, 108), makeDecision(SUNDAY, 50)]
+    const restrictions = recommendStayRestrictions(decisions, [...stays(4, SATURDAY, 1), ...stays(6, FRIDAY, 2)], SETTINGS)
+
+    expect(restrictions.map((restriction) => [restriction.date, describeStayRestriction(restriction)])).toEqual([
+      [SATURDAY, ['MinLOS 2']],
+      [SUNDAY, ['CTD']],
+    ])
+  })
+
+  it('closes arrivals on a strong peak preceded by a soft night when most guests arrive on the day', () => {
+    const decisions = [makeDecision(FRIDAY, 55), makeDecision(SATURDAY, 100, 120), makeDecision(SUNDAY, 95)]
+    const restrictions = recommendStayRestrictions(decisions, [...stays(8, SATURDAY, 2), ...stays(2, FRIDAY, 2)], SETTINGS)
+
+    expect(restrictions).toHaveLength(1)
+    expect(restrictions[0]).toMatchObject({ date: SATURDAY, closedToArrival: true, minLos: null })
+    expect(restrictions[0].reasons[0]).toContain(`sur la veille, le ${FRIDAY}`)
+  })
+
+  it('caps the stay length on soft arrival dates just before a peak when long stays are common', () => {
+    const decisions = [makeDecision(WEDNESDAY, 50), makeDecision(THURSDAY, 60), makeDecision(FRIDAY, 100, 105)]
+    const restrictions = recommendStayRestrictions(decisions, stays(10, WEDNESDAY, 5), SETTINGS)
+
+    expect(restrictions.find((restriction) => restriction.date === WEDNESDAY)).toMatchObject({ maxLos: 3 })
+  })
+
+  it('recommends nothing without enough observed stays', () => {
+    const decisions = [makeDecision(FRIDAY, 60), makeDecision(SATURDAY, 100, 120), makeDecision(SUNDAY, 50)]
+    expect(recommendStayRestrictions(decisions, stays(3, SATURDAY, 1), SETTINGS)).toEqual([])
+  })
+
+  it('ignores cancelled reservations', () => {
+    const decisions = [makeDecision(FRIDAY, 60), makeDecision(SATURDAY, 100, 105), makeDecision(SUNDAY, 50)]
+    const cancelled = stays(10, SATURDAY, 1).map((reservation) => ({ ...reservation, isCancelled: true }))
+    expect(recommendStayRestrictions(decisions, cancelled, SETTINGS)).toEqual([])
+  })
+})
@@ -0,0 +1,225 @@
+import type { RMSSettings } from '../hooks/useDashboardConfig'
+import type { Reservation } from '../types/domain'
+import { getWeekday, shiftDateKey } from './bookingPace'
+import type { RMSDailyDecision } from './rmsEngine'
+
+export interface StayRestriction {
+  date: string
+  minLos: number | null
+  maxLos: number | null
+  closedToArrival: boolean
+  closedToDeparture: boolean
+  // Empty shoulder-night rooms the restrictions of this date keep sellable.
+  protectedRooms: number
+  reasons: string[]
+}
+
+export interface StayPattern {
+  // Rooms staying the night, weighted by reservation.rooms.
+  stays: number
+  oneNightShare: number
+  longStayShare: number
+  // Share of the rooms staying the night that arrive / spend their last night on it.
+  arrivalShare: number
+  endingShare: number
+  source: 'date' | 'weekday'
+}
+
+// A night is a peak when unconstrained demand fills the hotel, or an event lands on a night already at target.
+const PEAK_UNCONSTRAINED_PCT = 100
+const PEAK_EVENT_IMPACT = 70
+// Closing arrivals is only worth it when demand clearly exceeds capacity.
+const STRONG_PEAK_UNCONSTRAINED_PCT = 115
+// A shoulder is soft when its forecast stays this far under the target.
+const SOFT_MARGIN_PCT = 5
+const LONG_STAY_NIGHTS = 4
+// Below these, the date's own reservations are too few and its weekday pattern is used.
+const MIN_DATE_STAYS = 8
+const MIN_WEEKDAY_STAYS = 10
+const MIN_ONE_NIGHT_SHARE = 0.3
+const MIN_ENDING_SHARE = 0.25
+const MIN_ARRIVAL_SHARE = 0.6
+const MIN_LONG_STAY_SHARE = 0.2
+
+type PatternCounts = { stays: number; oneNight: number; longStay: number; arriving: number; ending: number }
+
+const emptyCounts = (): PatternCounts => ({ stays: 0, oneNight: 0, longStay: 0, arriving: 0, ending: 0 })
+
+const toPattern = (counts: PatternCounts, source: StayPattern['source']): StayPattern => ({
+  stays: counts.stays,
+  oneNightShare: counts.stays > 0 ? counts.oneNight / counts.stays : 0,
+  longStayShare: counts.stays > 0 ? counts.longStay / counts.stays : 0,
+  arrivalShare: counts.stays > 0 ? counts.arriving / counts.stays : 0,
+  endingShare: counts.stays > 0 ? counts.ending / counts.stays : 0,
+  source,
+})
+
+/**
+ * Length-of-stay profile of every night covered by the reservations, per date
+ * and per weekday. Cancelled bookings are left out.
+ */
+export const buildStayPatterns = (reservations: Reservation[]) => {
+  const byDate = new Map<string, PatternCounts>()
+  const byWeekday = new Map<number, PatternCounts>()
+
+  reservations.forEach((reservation) => {
+    if (reservation.isCancelled) return
+    for (let night = 0; night < reservation.nights; night += 1) {
+      const date = shiftDateKey(reservation.arrivalDate, night)
+      const weekday = getWeekday(date)
+      if (weekday < 0) return
+      const dateCounts = byDate.get(date) || emptyCounts()
+      const weekdayCounts = byWeekday.get(weekday) || emptyCounts()
+      ;[dateCounts, weekdayCounts].forEach((counts) => {
+        counts.stays += reservation.rooms
+        if (reservation.nights === 1) counts.oneNight += reservation.rooms
+        if (reservation.nights >= LONG_STAY_NIGHTS) counts.longStay += reservation.rooms
+        if (night === 0) counts.arriving += reservation.rooms
+        if (night === reservation.nights - 1) counts.ending += reservation.rooms
+      })
+      byDate.set(date, dateCounts)
+      byWeekday.set(weekday, weekdayCounts)
+    }
+  })
+
+  return {
+    forDate: (date: string): StayPattern | null => {
+      const dateCounts = byDate.get(date)
+      if (dateCounts && dateCounts.stays >= MIN_DATE_STAYS) return toPattern(dateCounts, 'date')
+      const weekdayCounts = byWeekday.get(getWeekday(date))
+      if (weekdayCounts && weekdayCounts.stays >= MIN_WEEKDAY_STAYS) return toPattern(weekdayCounts, 'weekday')
+      return null
+    },
+  }
+}
+
+const pct = (share: number) => `${Math.round(share * 100)}%`
+
+const patternLabel = (pattern: StayPattern) => (pattern.source === 'date' ? 'des reservations de la nuit' : 'des sejours observes ce jour de semaine')
+
+/**
+ * Recommends MinLOS, MaxLOS, closed-to-arrival and closed-to-departure per date
+ * from the engine forecast and the observed stay patterns. Every rule protects a
+ * soft shoulder night next to a peak from being displaced by short stays:
+ * - MinLOS 2 on the last night of a peak run followed by a soft night, when one-night stays are common;
+ * - CTD on the soft night after a peak run of 2+ nights, when many multi-night stays end on the peak;
+ * - CTA on the first night of a strong peak preceded by a soft night, when most guests arrive on the peak;
+ * - MaxLOS on a soft arrival date just before a peak, when long stays would run through it.
+ * Only dates with at least one restriction are returned.
+ */
+export const recommendStayRestrictions = (
+  decisions: RMSDailyDecision[],
+  reservations: Reservation[],
+  settings: Pick<RMSSettings, 'hotelCapacity' | 'targetOccupancy'>
+): StayRestriction[] => {
+  const patterns = buildStayPatterns(reservations)
+  const byDate = new Map(decisions.map((decision) => [decision.date, decision]))
+  const capacity = Math.max(1, settings.hotelCapacity)
+  const isPeak = (decision: RMSDailyDecision | undefined) =>
+    !!decision &&
+    (decision.unconstrainedOccupancy >= PEAK_UNCONSTRAINED_PCT ||
+      (decision.eventImpact >= PEAK_EVENT_IMPACT && decision.forecastOccupancy >= settings.targetOccupancy))
+  const isSoft = (decision: RMSDailyDecision | undefined) =>
+    !!decision && decision.forecastOccupancy < settings.targetOccupancy - SOFT_MARGIN_PCT
+  const emptyRooms = (decision: RMSDailyDecision) => capacity * (1 - Math.min(100, decision.forecastOccupancy) / 100)
+  const soldRooms = (decision: RMSDailyDecision) => capacity * (Math.min(100, decision.forecastOccupancy) / 100)
+
+  const restrictions = new Map<string, StayRestriction>()
+  const restrictionFor = (date: string) => {
+    const existing = restrictions.get(date)
+    if (existing) return existing
+    const created: StayRestriction = {
+      date,
+      minLos: null,
+      maxLos: null,
+      closedToArrival: false,
+      closedToDeparture: false,
+      protectedRooms: 0,
+      reasons: [],
+    }
+    restrictions.set(date, created)
+    return created
+  }
+
+  const sorted = [...decisions].sort((a, b) => a.date.localeCompare(b.date))
+  sorted.forEach((decision) => {
+    if (!isPeak(decision)) return
+    const previous = byDate.get(shiftDateKey(decision.date, -1))
+    const next = byDate.get(shiftDateKey(decision.date, 1))
+    const pattern = patterns.forDate(decision.date)
+    if (!pattern) return
+
+    // Last night of the peak run, followed by a soft shoulder.
+    if (next && isSoft(next)) {
+      if (pattern.oneNightShare >= MIN_ONE_NIGHT_SHARE) {
+        const restriction = restrictionFor(decision.date)
+        const protectedRooms = Math.round(Math.min(emptyRooms(next), soldRooms(decision) * pattern.oneNightShare))
+        restriction.minLos = 2
+        restriction.protectedRooms += protectedRooms
+        restriction.reasons.push(
+          `MinLOS 2: nuit de pointe (demande ${decision.unconstrainedOccupancy.toFixed(0)}% de la capacite) suivie d'une nuit creuse le ${next.date} ` +
+          `(occ prevue ${next.forecastOccupancy.toFixed(0)}%). ${pct(pattern.oneNightShare)} ${patternLabel(pattern)} sont d'une nuit: ` +
+          `chaque sejour d'une nuit vendu le ${decision.date} deplace un sejour de 2 nuits qui aurait aussi rempli le ${next.date} (~${protectedRooms} ch. a proteger).`
+        )
+      }
+
+      // Stays ending here are one-night stays or multi-night stays covering the peak run.
+      const multiNightEnding = pattern.endingShare - pattern.oneNightShare
+      if (isPeak(previous) && multiNightEnding >= MIN_ENDING_SHARE) {
+        const restriction = restrictionFor(next.date)
+        const protectedRooms = Math.round(Math.min(emptyRooms(next), soldRooms(decision) * multiNightEnding))
+        restriction.closedToDeparture = true
+        restriction.protectedRooms += protectedRooms
+        restriction.reasons.push(
+          `CTD: ${pct(multiNightEnding)} ${patternLabel(pattern)} du ${decision.date} sont des sejours de plusieurs nuits qui s'arretent avec la pointe ` +
+          `et liberent leurs chambres le ${next.date} (occ prevue ${next.forecastOccupancy.toFixed(0)}%). Fermer les departs ce jour les prolonge sur la nuit creuse (~${protectedRooms} ch.).`
+        )
+      }
+    }
+
+    // First night of a strong peak, preceded by a soft shoulder.
+    if (
+      previous &&
+      isSoft(previous) &&
+      decision.unconstrainedOccupancy >= STRONG_PEAK_UNCONSTRAINED_PCT &&
+      pattern.arrivalShare >= MIN_ARRIVAL_SHARE
+    ) {
+      const restriction = restrictionFor(decision.date)
+      const protectedRooms = Math.round(Math.min(emptyRooms(previous), soldRooms(decision) * pattern.arrivalShare))
+      restriction.closedToArrival = true
+      restriction.protectedRooms += protectedRooms
+      restriction.reasons.push(
+        `CTA: demande a ${decision.unconstrainedOccupancy.toFixed(0)}% de la capacite et ${pct(pattern.arrivalShare)} ${patternLabel(pattern)} arrivent le jour meme. ` +
+        `Fermer les arrivees reporte ces sejours sur la veille, le ${previous.date} (occ prevue ${previous.forecastOccupancy.toFixed(0)}%, ~${protectedRooms} ch.).`
+      )
+    }
+  })
+
+  // Soft arrival dates just before a peak: every long stay arriving there runs through it.
+  const maxLos = LONG_STAY_NIGHTS - 1
+  sorted.forEach((decision) => {
+    if (!isSoft(decision) || restrictions.has(decision.date)) return
+    const pattern = patterns.forDate(decision.date)
+    if (!pattern || pattern.longStayShare < MIN_LONG_STAY_SHARE) return
+
+    const peak = Array.from({ length: maxLos }, (_, index) => byDate.get(shiftDateKey(decision.date, index + 1))).find(isPeak)
+    if (!peak) return
+
+    const restriction = restrictionFor(decision.date)
+    restriction.maxLos = maxLos
+    restriction.reasons.push(
+      `MaxLOS ${maxLos}: ${pct(pattern.longStayShare)} ${patternLabel(pattern)} durent ${LONG_STAY_NIGHTS} nuits ou plus. Arrives le ${decision.date}, ` +
+      `ces longs sejours (souvent a tarif degressif ou negocie) bloqueraient les chambres de la pointe du ${peak.date} au lieu de les laisser au tarif du jour.`
+    )
+  })
+
+  return Array.from(restrictions.values()).sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/** Short labels for the grid and the exports, e.g. ["MinLOS 2", "CTA"]. */
+export const describeStayRestriction = (restriction: StayRestriction) => [
+  ...(restriction.minLos ? [`MinLOS ${restriction.minLos}`] : []),
+  ...(restriction.maxLos ? [`MaxLOS ${restriction.maxLos}`] : []),
+  ...(restriction.closedToArrival ? ['CTA'] : []),
+  ...(restriction.closedToDeparture ? ['CTD'] : []),
+]
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { prepareBacktest } from './backtest'
+import { shiftDateKey } from './bookingPace'
+import { eachDateKey } from './normalization'
+import { CALIBRATION_DIMENSIONS, MIN_CALIBRATION_DAYS, calibrateWeights } from './weightCalibration'
+import { fixtureSettings, makeMarketDay, makeReservation } from './__fixtures__/rmsEngine'
+
+// 20 nights sold 90/100 at 170 while the BAR a week out was 120 under a 160 compset.
+const buildReplay = (stayDates: string[]) =>
+  prepareBacktest({
+    stayDates,
+    marketSnapshots: stayDates.map((date, index) =>
+      makeMarketDay({ id: `m${index}`, date, ownPrice: 120, compsetMedian: 160, marketDemand: 70, updatedAt: shiftDateKey(date, -10) })
+    ),
+    reservations: stayDates.map((date, index) =>
+      makeReservation({
+        id: `r${index}`,
+        arrivalDate: date,
+        departureDate: shiftDateKey(date, 1),
+        purchaseDate: shiftDateKey(date, -20),
+        rooms: 90,
+        totalAmount: 90 * 170,
+      })
+    ),
+    historicalReservations: [],
+    events: [],
+    leadDays: 7,
+    asOf: new Date(2026, 2, 1),
+  })
+
+describe('calibrateWeights', () => {
+  const settings = fixtureSettings()
+
+  it('beats the current settings where history sold well above the recommendation', () => {
+    const proposal = calibrateWeights(buildReplay(eachDateKey('2026-02-01', '2026-02-20')), settings)
+
+    expect(proposal.isImprovement).toBe(true)
+    expect(proposal.calibrated.revenueProxy).toBeGreaterThan(proposal.baseline.revenueProxy)
+    expect(proposal.changes.length).toBeGreaterThan(0)
+    proposal.changes.forEach((change) => {
+      const dimension = CALIBRATION_DIMENSIONS.find(({ key }) => key === change.key)!
+      expect(change.to).toBeGreaterThanOrEqual(dimension.min)
+      expect(change.to).toBeLessThanOrEqual(dimension.max)
+      expect(proposal.settings[change.key]).toBe(change.to)
+    })
+  })
+
+  it('never touches the guardrails', () => {
+    const proposal = calibrateWeights(buildReplay(eachDateKey('2026-02-01', '2026-02-20')), settings)
+    expect(proposal.settings).toMatchObject({
+      minPrice: settings.minPrice,
+      maxPrice: settings.maxPrice,
+      minAdr: settings.minAdr,
+      maxAdr: settings.maxAdr,
+      targetOccupancy: settings.targetOccupancy,
+    })
+  })
+
+  it('keeps the current settings on a short history', () => {
+    const proposal = calibrateWeights(buildReplay(eachDateKey('2026-02-01', '2026-02-05')), settings)
+
+    expect(proposal.baseline.evaluatedDays).toBeLessThan(MIN_CALIBRATION_DAYS)
+    expect(proposal.isImprovement).toBe(false)
+    expect(proposal.settings).toBe(settings)
+    expect(proposal.changes).toEqual([])
+  })
+})
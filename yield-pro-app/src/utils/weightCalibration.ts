@@ -0,0 +1,158 @@
+import type { RMSSettings } from '../hooks/useDashboardConfig'
+import { evaluateBacktest, type BacktestDay, type BacktestReplay } from './backtest'
+
+export type CalibratedSettingKey =
+  | 'demandWeight'
+  | 'competitorWeight'
+  | 'eventWeight'
+  | 'pickupWeight'
+  | 'weekendPremiumPct'
+  | 'lastMinuteDiscountPct'
+
+interface CalibrationDimension {
+  key: CalibratedSettingKey
+  label: string
+  min: number
+  max: number
+  step: number
+  suffix: string
+}
+
+// Search space; price bounds, target and strategy are never calibrated.
+export const CALIBRATION_DIMENSIONS: CalibrationDimension[] = [
+  { key: 'demandWeight', label: 'Poids demande', min: 0, max: 0.8, step: 0.05, suffix: '' },
+  { key: 'competitorWeight', label: 'Poids concurrence', min: 0, max: 0.8, step: 0.05, suffix: '' },
+  { key: 'eventWeight', label: 'Poids evenements', min: 0, max: 0.6, step: 0.05, suffix: '' },
+  { key: 'pickupWeight', label: 'Poids pickup', min: 0, max: 0.5, step: 0.05, suffix: '' },
+  { key: 'weekendPremiumPct', label: 'Premium weekend', min: 0, max: 25, step: 1, suffix: '%' },
+  { key: 'lastMinuteDiscountPct', label: 'Discount last minute', min: 0, max: 20, step: 1, suffix: '%' },
+]
+
+// Rooms lost for each 1% charged above the ADR actually sold that night (and won below it).
+const PRICE_ELASTICITY = 1.2
+const SEARCH_PASSES = 3
+// Below these, the proposal keeps the current settings.
+export const MIN_CALIBRATION_DAYS = 14
+const MIN_IMPROVEMENT_PCT = 0.5
+
+export interface CalibrationScore {
+  evaluatedDays: number
+  revenueProxy: number
+  revparProxy: number
+  priceMae: number
+}
+
+export interface CalibrationChange {
+  key: CalibratedSettingKey
+  label: string
+  from: number
+  to: number
+  delta: number
+  suffix: string
+}
+
+export interface CalibrationProposal {
+  settings: RMSSettings
+  baseline: CalibrationScore
+  calibrated: CalibrationScore
+  changes: CalibrationChange[]
+  improvementPct: number
+  evaluatedCandidates: number
+  // False when the history is too short or no candidate beats the current settings enough.
+  isImprovement: boolean
+}
+
+const gridValues = ({ min, max, step }: CalibrationDimension) => {
+  const values: number[] = []
+  for (let value = min; value <= max + step / 2; value += step) values.push(Number(value.toFixed(2)))
+  return values
+}
+
+/**
+ * Rooms each night would have sold at the recommended rate, from the rooms and
+ * ADR actually sold with a constant price elasticity, capped by capacity. Nights
+ * with no sale give no reference price and count for nothing.
+ */
+const scoreDays = (days: BacktestDay[], capacity: number, priceMae: number): CalibrationScore => {
+  const revenueProxy = days.reduce((sum, day) => {
+    if (day.soldAdr <= 0 || day.recommendedPrice <= 0) return sum
+    const rooms = Math.min(capacity, day.roomsSold * (day.soldAdr / day.recommendedPrice) ** PRICE_ELASTICITY)
+    return sum + rooms * day.recommendedPrice
+  }, 0)
+
+  return {
+    evaluatedDays: days.length,
+    revenueProxy,
+    revparProxy: days.length > 0 ? revenueProxy / (capacity * days.length) : 0,
+    priceMae,
+  }
+}
+
+const scoreSettings = (replay: BacktestReplay, settings: RMSSettings) => {
+  const summary = evaluateBacktest(replay, { id: 'calibration', label: '', settings })
+  return scoreDays(summary.days, Math.max(1, settings.hotelCapacity), summary.priceMae)
+}
+
+/**
+ * Coordinate search over the weights and the weekend / last minute adjustments:
+ * each pass tries every grid value of one setting with the others fixed and
+ * keeps the best revenue proxy, until a pass brings nothing. Recommendations
+ * stay clamped by the configured min/max prices, so candidates are compared
+ * within the same guardrails as the live engine.
+ */
+export const calibrateWeights = (replay: BacktestReplay, baseSettings: RMSSettings): CalibrationProposal => {
+  const baseline = scoreSettings(replay, baseSettings)
+  let best = { settings: baseSettings, score: baseline }
+  let evaluatedCandidates = 1
+
+  if (baseline.evaluatedDays >= MIN_CALIBRATION_DAYS) {
+    for (let pass = 0; pass < SEARCH_PASSES; pass += 1) {
+      let improved = false
+      CALIBRATION_DIMENSIONS.forEach((dimension) => {
+        gridValues(dimension).forEach((value) => {
+          if (value === best.settings[dimension.key]) return
+          const candidate = { ...best.settings, [dimension.key]: value }
+          const score = scoreSettings(replay, candidate)
+          evaluatedCandidates += 1
+          if (score.revenueProxy > best.score.revenueProxy) {
+            best = { settings: candidate, score }
+            improved = true
+          }
+        })
+      })
+      if (!improved) break
+    }
+  }
+
+  const improvementPct = baseline.revenueProxy > 0 ? ((best.score.revenueProxy - baseline.revenueProxy) / baseline.revenueProxy) * 100 : 0
+  const isImprovement = baseline.evaluatedDays >= MIN_CALIBRATION_DAYS && improvementPct >= MIN_IMPROVEMENT_PCT
+  const settings = isImprovement ? best.settings : baseSettings
+
+  const changes: CalibrationChange[] = CALIBRATION_DIMENSIONS.flatMap(({ key, label, suffix }) => {
+    const from = baseSettings[key]
+    const to = settings[key]
+    if (from === to) return []
+    return [{ key, label, from, to, delta: Number((to - from).toFixed(2)), suffix }]
+  })
+
+  return {
+    settings,
+    baseline,
+    calibrated: isImprovement ? best.score : baseline,
+    changes,
+    improvementPct: isImprovement ? improvementPct : 0,
+    evaluatedCandidates,
+    isImprovement,
+  }
+}
+
+const formatValue = (value: number, suffix: string) => `${suffix ? value : value.toFixed(2)}${suffix}`
+
+/** One line per changed setting, e.g. "Poids demande: 0.35 -> 0.50 (+0.15), le signal pese davantage." */
+export const describeCalibrationChange = ({ key, label, from, to, delta, suffix }: CalibrationChange) => {
+  const signedDelta = `${delta > 0 ? '+' : ''}${suffix ? `${delta} pts` : delta.toFixed(2)}`
+  const base = `${label}: ${formatValue(from, suffix)} -> ${formatValue(to, suffix)} (${signedDelta})`
+  if (key === 'weekendPremiumPct') return `${base}, ${delta > 0 ? 'majoration' : 'majoration reduite'} des vendredis et samedis.`
+  if (key === 'lastMinuteDiscountPct') return `${base}, ${delta > 0 ? 'remise plus forte' : 'remise plus faible'} a J-3 sur les nuits sous l'objectif.`
+  return `${base}, le signal pese ${delta > 0 ? 'davantage' : 'moins'} dans le tarif recommande.`
+}